@@ -0,0 +1,76 @@
+// Shared inputs for adding and editing a borrower directory entry
+import type { Borrower } from "../types/inventory.ts";
+
+interface BorrowerFieldsProps {
+  borrower?: Borrower;
+  /** App accounts a borrower can be linked to */
+  users: { id: string; username: string }[];
+}
+
+const inputClass =
+  "w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 text-sm";
+const labelClass = "block text-xs text-gray-600 dark:text-gray-400 mb-1";
+
+export default function BorrowerFields(
+  { borrower, users }: BorrowerFieldsProps,
+) {
+  return (
+    <div class="grid grid-cols-1 md:grid-cols-12 gap-2">
+      <div class="md:col-span-4">
+        <label class={labelClass}>Name *</label>
+        <input
+          name="name"
+          value={borrower?.name ?? ""}
+          required
+          maxLength={100}
+          placeholder="e.g. John Smith or 12th Edinburgh Scouts"
+          class={inputClass}
+        />
+      </div>
+      <div class="md:col-span-4">
+        <label class={labelClass}>Section / Patrol</label>
+        <input
+          name="section"
+          value={borrower?.section ?? ""}
+          maxLength={100}
+          placeholder="e.g. Cubs — Red Six"
+          class={inputClass}
+        />
+      </div>
+      <div class="md:col-span-4">
+        <label class={labelClass}>Contact</label>
+        <input
+          name="contact"
+          value={borrower?.contact ?? ""}
+          maxLength={100}
+          placeholder="Phone or email"
+          class={inputClass}
+        />
+      </div>
+      <div class="md:col-span-4">
+        <label class={labelClass}>App account</label>
+        <select name="userId" class={inputClass}>
+          <option value="">Not linked</option>
+          {users.map((user) => (
+            <option
+              key={user.id}
+              value={user.id}
+              selected={user.id === borrower?.userId}
+            >
+              {user.username}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div class="md:col-span-8">
+        <label class={labelClass}>Notes</label>
+        <input
+          name="notes"
+          value={borrower?.notes ?? ""}
+          maxLength={500}
+          class={inputClass}
+        />
+      </div>
+    </div>
+  );
+}
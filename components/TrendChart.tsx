@@ -0,0 +1,144 @@
+// Server-rendered SVG chart for the trends report — one or more series over
+// the same periods, drawn as lines or (for per-period totals) bars.
+
+export interface TrendSeries {
+  label: string;
+  /** Stroke / fill colour (hex, so it survives Tailwind purging) */
+  color: string;
+  values: number[];
+}
+
+interface TrendChartProps {
+  title: string;
+  subtitle?: string;
+  labels: string[];
+  series: TrendSeries[];
+  kind?: "line" | "bar";
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD = { top: 12, right: 12, bottom: 28, left: 40 };
+
+/** Rounds the axis maximum up to 1, 2 or 5 × a power of ten. */
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find((s) => s * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+export default function TrendChart(
+  { title, subtitle, labels, series, kind = "line" }: TrendChartProps,
+) {
+  const max = niceMax(Math.max(0, ...series.flatMap((s) => s.values)));
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const slot = plotW / Math.max(labels.length, 1);
+  const x = (i: number) => PAD.left + slot * (i + 0.5);
+  const y = (v: number) => PAD.top + plotH - (v / max) * plotH;
+  // Thin the axis labels so they never overlap
+  const labelEvery = Math.ceil(labels.length / 8);
+  const barW = (slot * 0.7) / series.length;
+
+  return (
+    <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-4">
+      <div class="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+        <div>
+          <h3 class="font-semibold text-gray-800 dark:text-gray-100">
+            {title}
+          </h3>
+          {subtitle && (
+            <p class="text-xs text-gray-500 dark:text-gray-400">{subtitle}</p>
+          )}
+        </div>
+        <div class="flex flex-wrap gap-3 text-xs text-gray-600 dark:text-gray-300">
+          {series.map((s) => (
+            <span key={s.label} class="inline-flex items-center gap-1">
+              <span
+                class="inline-block w-3 h-3 rounded-sm"
+                style={{ backgroundColor: s.color }}
+              />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        class="w-full h-auto text-gray-400 dark:text-gray-500"
+        role="img"
+        aria-label={title}
+      >
+        {[0, 0.5, 1].map((f) => (
+          <g key={f}>
+            <line
+              x1={PAD.left}
+              x2={WIDTH - PAD.right}
+              y1={y(max * f)}
+              y2={y(max * f)}
+              stroke="currentColor"
+              stroke-opacity={0.3}
+            />
+            <text
+              x={PAD.left - 6}
+              y={y(max * f) + 4}
+              text-anchor="end"
+              font-size="11"
+              fill="currentColor"
+            >
+              {max * f}
+            </text>
+          </g>
+        ))}
+        {labels.map((label, i) =>
+          i % labelEvery === 0 && (
+            <text
+              key={label}
+              x={x(i)}
+              y={HEIGHT - 8}
+              text-anchor="middle"
+              font-size="11"
+              fill="currentColor"
+            >
+              {label}
+            </text>
+          )
+        )}
+        {series.map((s, si) =>
+          kind === "bar"
+            ? (
+              <g key={s.label} fill={s.color}>
+                {s.values.map((v, i) => (
+                  <rect
+                    key={i}
+                    x={x(i) - (slot * 0.35) + barW * si}
+                    y={y(v)}
+                    width={barW}
+                    height={PAD.top + plotH - y(v)}
+                  >
+                    <title>{`${labels[i]}: ${v} ${s.label}`}</title>
+                  </rect>
+                ))}
+              </g>
+            )
+            : (
+              <g key={s.label}>
+                <polyline
+                  fill="none"
+                  stroke={s.color}
+                  stroke-width={2}
+                  points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(" ")}
+                />
+                {s.values.map((v, i) => (
+                  <circle key={i} cx={x(i)} cy={y(v)} r={3} fill={s.color}>
+                    <title>{`${labels[i]}: ${v} ${s.label}`}</title>
+                  </circle>
+                ))}
+              </g>
+            )
+        )}
+      </svg>
+    </div>
+  );
+}
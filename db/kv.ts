@@ -1,27 +1,96 @@
 /// <reference lib="deno.unstable" />
 // Deno KV database setup and operations
 import type {
+  Borrower,
   CampPlan,
   CampTemplate,
   CampTemplateItem,
   CheckOut,
+  FoodBatch,
+  FoodBatchAllocation,
   FoodItem,
   InventoryItem,
   ItemCategory,
+  ItemChangeContext,
+  ItemHistoryEntry,
   ItemSpace,
+  ItemUnit,
+  ItemUnitStatus,
+  LocationGroup,
   MaintenanceRecord,
+  StorageLocation,
+  StorageSpace,
 } from "../types/inventory.ts";
-import type { Meal, MealPayload } from "../types/meals.ts";
-import type { FirstAidKit } from "../types/firstAid.ts";
-import type { FirstAidCatalogItem } from "../types/firstAid.ts";
-import type { FirstAidCheckState } from "../types/firstAid.ts";
+import {
+  DEFAULT_STORAGE_SPACES,
+  GAS_STORAGE_LOCATIONS,
+  getFoodBatches,
+  isActiveLoan,
+  ITEM_LOCATIONS,
+  LOFT_LOCATIONS,
+} from "../types/inventory.ts";
+import type {
+  Meal,
+  MealPayload,
+  ShoppingList,
+  ShoppingListItem,
+} from "../types/meals.ts";
+import type { FirstAidExpiryBatch, FirstAidKit } from "../types/firstAid.ts";
+import type {
+  FirstAidCatalogItem,
+  FirstAidKitProfile,
+} from "../types/firstAid.ts";
+import type {
+  FirstAidCheckRecord,
+  FirstAidCheckState,
+  FirstAidStockEntry,
+} from "../types/firstAid.ts";
 import type { FeedbackRequest } from "../types/feedback.ts";
+import type { PurchaseRequest, PurchaseStatus } from "../types/purchasing.ts";
+import type { NotificationSettings } from "../types/notifications.ts";
 import type { RiskAssessment } from "../types/risk.ts";
 import type {
   BackupPhotoRecord,
   InventoryBackupSnapshot,
 } from "../types/inventoryBackup.ts";
-import { DEFAULT_FIRST_AID_CATALOG } from "../lib/firstAidCatalog.ts";
+import {
+  DEFAULT_FIRST_AID_CATALOG,
+  FIRST_AID_PROFILES,
+} from "../lib/firstAidCatalog.ts";
+import {
+  addToStock,
+  expiredStock,
+  type FirstAidRestockPlan,
+  mergeExpiryBatches,
+  pendingShortages,
+  planRestock,
+} from "../lib/firstAidRestock.ts";
+import { isNoShow } from "../lib/loanReservations.ts";
+import {
+  mergeFoodBatches,
+  putBackFoodStock,
+  takeFoodStock,
+  withFoodBatches,
+} from "../lib/foodBatches.ts";
+import {
+  itemAfterReturn,
+  type LoanReturnInput,
+  splitLoanReturn,
+} from "../lib/loanReturns.ts";
+import { buildStatsSnapshot, type StatsSnapshot } from "../lib/trends.ts";
+import {
+  type DepreciationPolicy,
+  normalizeDepreciationPolicy,
+} from "../lib/valuation.ts";
+import { findBorrowerByName, normalizeBorrowerName } from "../lib/borrowers.ts";
+import { PURCHASE_TRANSITIONS } from "../lib/purchasing.ts";
+import type { Budget } from "../lib/budget.ts";
+import { shoppingListInUse } from "../lib/shoppingList.ts";
+import {
+  diffItemFields,
+  nextHistoryVersions,
+  revertUpdates,
+} from "../lib/itemHistory.ts";
 import { FIRST_AID_SECTIONS } from "../types/firstAid.ts";
 import {
   deletePhotoObject,
@@ -51,12 +120,28 @@ export async function initKv(): Promise<Deno.Kv> {
 //
 // Primary data:
 //   ["inventory", "items", <id>]                          → InventoryItem
+//   ["inventory", "units", <itemId>, <unitId>]            → ItemUnit
+//   ["inventory", "history", <itemId>, <version>]         → ItemHistoryEntry
 //   ["inventory", "checkouts", <id>]                      → CheckOut
+//   ["inventory", "borrowers", <id>]                      → Borrower
+//   ["inventory", "meta", "borrowers-seeded"]             → true once migrated
+//   ["inventory", "spaces", <id>]                         → StorageSpace
+//   ["inventory", "meta", "spaces-seeded"]                → true once migrated
+//   ["inventory", "locations", <id>]                      → StorageLocation
+//   ["inventory", "meta", "locations-seeded"]             → true once migrated
 //   ["inventory", "neckers", "count"]                     → number
 //   ["inventory", "neckers", "created"]                   → number
 //   ["inventory", "neckers", "total-made"]                → number
 //   ["inventory", "neckers", "adult-created"]             → number
 //   ["inventory", "neckers", "adult-total-made"]          → number
+//   ["inventory", "settings", "depreciation"]             → Partial<DepreciationPolicy>
+//   ["purchasing", "requests", <id>]                      → PurchaseRequest
+//   ["budgets", <financial year>]                         → Budget
+//   ["shopping-lists", <camp id>]                         → ShoppingList
+//   ["first-aid", "check-history", <kitId>, <checkId>]    → FirstAidCheckRecord
+//   ["first-aid", "stock", <catalog item id>]             → FirstAidStockEntry
+//   ["first-aid", "profiles", <id>]                       → FirstAidKitProfile
+//   ["first-aid", "meta", "profiles-seeded"]              → true once seeded
 //
 // Secondary indexes (value = item id):
 //   ["inventory", "idx", "category", <category>, <id>]   → id
@@ -65,24 +150,45 @@ export async function initKv(): Promise<Deno.Kv> {
 //
 // Precomputed stats (updated atomically on every write):
 //   ["inventory", "stats", "computed"]                    → ComputedStats
+//
+// Daily trend snapshots (written by the nightly cron):
+//   ["inventory", "stats", "snapshots", <YYYY-MM-DD>]     → StatsSnapshot
 
 const KEYS = {
   items: ["inventory", "items"] as const,
+  units: ["inventory", "units"] as const,
+  itemHistory: ["inventory", "history"] as const,
   checkouts: ["inventory", "checkouts"] as const,
+  borrowers: ["inventory", "borrowers"] as const,
+  borrowersSeeded: ["inventory", "meta", "borrowers-seeded"] as const,
+  storageSpaces: ["inventory", "spaces"] as const,
+  storageSpacesSeeded: ["inventory", "meta", "spaces-seeded"] as const,
+  storageLocations: ["inventory", "locations"] as const,
+  storageLocationsSeeded: ["inventory", "meta", "locations-seeded"] as const,
   neckers: ["inventory", "neckers", "count"] as const,
   neckersCreated: ["inventory", "neckers", "created"] as const,
   neckersTotalMade: ["inventory", "neckers", "total-made"] as const,
   adultNeckersCreated: ["inventory", "neckers", "adult-created"] as const,
   adultNeckersTotalMade: ["inventory", "neckers", "adult-total-made"] as const,
   computedStats: ["inventory", "stats", "computed"] as const,
+  statsSnapshots: ["inventory", "stats", "snapshots"] as const,
+  depreciationPolicy: ["inventory", "settings", "depreciation"] as const,
   camps: ["camps", "plans"] as const,
   templates: ["camps", "templates"] as const,
   meals: ["meals"] as const,
   firstAidKits: ["first-aid", "kits"] as const,
   firstAidCatalog: ["first-aid", "catalog"] as const,
   firstAidChecks: ["first-aid", "checks"] as const,
+  firstAidCheckHistory: ["first-aid", "check-history"] as const,
+  firstAidStock: ["first-aid", "stock"] as const,
+  firstAidProfiles: ["first-aid", "profiles"] as const,
+  firstAidProfilesSeeded: ["first-aid", "meta", "profiles-seeded"] as const,
   riskAssessments: ["risk-assessments", "records"] as const,
   feedbackRequests: ["feedback", "requests"] as const,
+  purchaseRequests: ["purchasing", "requests"] as const,
+  budgets: ["budgets"] as const,
+  shoppingLists: ["shopping-lists"] as const,
+  notificationSettings: ["notifications", "settings"] as const,
 };
 
 // Index key helpers
@@ -105,6 +211,11 @@ export interface ComputedStats {
   totalQuantity: number;
   categoryBreakdown: Record<ItemCategory, { count: number; quantity: number }>;
   spaceBreakdown: Record<ItemSpace, { count: number; quantity: number }>;
+  /** Per-space category totals — only categories present in a space appear */
+  spaceCategoryBreakdown: Record<
+    ItemSpace,
+    Partial<Record<ItemCategory, { count: number; quantity: number }>>
+  >;
   lowStockItems: number;
   needsRepairItems: number;
   activeLoansCount: number;
@@ -125,11 +236,8 @@ function emptyStats(): ComputedStats {
       kit: { count: 0, quantity: 0 },
       kilt: { count: 0, quantity: 0 },
     },
-    spaceBreakdown: {
-      "camp-store": { count: 0, quantity: 0 },
-      "scout-post-loft": { count: 0, quantity: 0 },
-      "gas-storage-box": { count: 0, quantity: 0 },
-    },
+    spaceBreakdown: {},
+    spaceCategoryBreakdown: {},
     lowStockItems: 0,
     needsRepairItems: 0,
     activeLoansCount: 0,
@@ -161,22 +269,34 @@ function applyItemToStats(
     spaceBreakdown: {
       ...stats.spaceBreakdown,
     } as ComputedStats["spaceBreakdown"],
+    spaceCategoryBreakdown: {
+      ...stats.spaceCategoryBreakdown,
+    },
     lowStockItems: stats.lowStockItems,
     needsRepairItems: stats.needsRepairItems,
     activeLoansCount: stats.activeLoansCount ?? 0,
     itemsAtCampCount: stats.itemsAtCampCount ?? 0,
   };
 
-  // Deep-copy the two buckets we'll touch
+  // Deep-copy the buckets we'll touch
   const cat = item.category as ItemCategory;
-  const sp = (item.space ?? "camp-store") as ItemSpace;
+  const sp = item.space ?? "camp-store";
   next.categoryBreakdown[cat] = { ...next.categoryBreakdown[cat] };
-  next.spaceBreakdown[sp] = { ...next.spaceBreakdown[sp] };
+  next.spaceBreakdown[sp] = {
+    ...(next.spaceBreakdown[sp] ?? { count: 0, quantity: 0 }),
+  };
+  next.spaceCategoryBreakdown[sp] = { ...next.spaceCategoryBreakdown[sp] };
+  const spaceCat = {
+    ...(next.spaceCategoryBreakdown[sp][cat] ?? { count: 0, quantity: 0 }),
+  };
+  next.spaceCategoryBreakdown[sp][cat] = spaceCat;
 
   next.categoryBreakdown[cat].count += sign;
   next.categoryBreakdown[cat].quantity += sign * item.quantity;
   next.spaceBreakdown[sp].count += sign;
   next.spaceBreakdown[sp].quantity += sign * item.quantity;
+  spaceCat.count += sign;
+  spaceCat.quantity += sign * item.quantity;
 
   if (item.quantity <= item.minThreshold) next.lowStockItems += sign;
   if (
@@ -207,6 +327,7 @@ function normalizeComputedStats(stats: ComputedStats | null): ComputedStats {
       ...base.spaceBreakdown,
       ...(stats.spaceBreakdown ?? {}),
     },
+    spaceCategoryBreakdown: stats.spaceCategoryBreakdown ?? {},
     activeLoansCount: stats.activeLoansCount ?? 0,
     itemsAtCampCount: stats.itemsAtCampCount ?? 0,
   };
@@ -218,6 +339,22 @@ export async function getComputedStats(): Promise<ComputedStats> {
   return normalizeComputedStats(result.value);
 }
 
+/**
+ * Computed stats with a zeroed breakdown entry for every registered space, so
+ * empty spaces still show up on dashboards.
+ */
+export async function getComputedStatsForSpaces(): Promise<ComputedStats> {
+  const [stats, spaces] = await Promise.all([
+    getComputedStats(),
+    getAllStorageSpaces(),
+  ]);
+  for (const space of spaces) {
+    stats.spaceBreakdown[space.id] ??= { count: 0, quantity: 0 };
+    stats.spaceCategoryBreakdown[space.id] ??= {};
+  }
+  return stats;
+}
+
 // ===== IN-MEMORY CACHE (for getAllItems / full-list pages) =====
 // All writes invalidate this cache immediately, so the TTL is just a safety net
 // against external KV modifications. 5 minutes is a safe, sensible default.
@@ -233,6 +370,15 @@ let checkoutsCache: { checkouts: CheckOut[]; expiresAt: number } | null = null;
 let itemsInFlight: Promise<InventoryItem[]> | null = null;
 let checkoutsInFlight: Promise<CheckOut[]> | null = null;
 
+let storageSpacesCache: { spaces: StorageSpace[]; expiresAt: number } | null =
+  null;
+let storageSpacesInFlight: Promise<StorageSpace[]> | null = null;
+
+let storageLocationsCache:
+  | { locations: StorageLocation[]; expiresAt: number }
+  | null = null;
+let storageLocationsInFlight: Promise<StorageLocation[]> | null = null;
+
 let campPlansCache: { plans: CampPlan[]; expiresAt: number } | null = null;
 let campPlansInFlight: Promise<CampPlan[]> | null = null;
 
@@ -337,6 +483,16 @@ function invalidateCheckoutsCache(): void {
   checkoutsInFlight = null;
 }
 
+function invalidateStorageSpacesCache(): void {
+  storageSpacesCache = null;
+  storageSpacesInFlight = null;
+}
+
+function invalidateStorageLocationsCache(): void {
+  storageLocationsCache = null;
+  storageLocationsInFlight = null;
+}
+
 function invalidateCampPlansCache(): void {
   campPlansCache = null;
   campPlansInFlight = null;
@@ -390,6 +546,8 @@ export function preloadCaches(): Promise<void> {
   const tasks: Array<[name: string, loader: () => Promise<unknown>]> = [
     ["items", getAllItems],
     ["checkouts", getAllCheckOuts],
+    ["storage-spaces", getAllStorageSpaces],
+    ["storage-locations", getAllStorageLocations],
     ["camp-plans", getAllCampPlans],
     ["camp-templates", getAllCampTemplates],
     ["meals", getAllMeals],
@@ -488,34 +646,39 @@ export async function getFoodItemsSortedByExpiry(): Promise<FoodItem[]> {
     });
 }
 
-export async function createItem(item: InventoryItem): Promise<InventoryItem> {
-  const db = await initKv();
-  const currentStats = await getComputedStats();
-  const newStats = applyItemToStats(currentStats, item, 1);
+export async function createItem(
+  item: InventoryItem,
+  context: ItemChangeContext = { source: "created" },
+): Promise<InventoryItem> {
+  await commitWithItemHistory(async (op) => {
+    const currentStats = await getComputedStats();
+    const newStats = applyItemToStats(currentStats, item, 1);
 
-  const op = db.atomic();
-  op.set([...KEYS.items, item.id], serializeItem(item));
-  addToIndex(op, item);
-  op.set(KEYS.computedStats, newStats);
-  await op.commit();
+    op.set([...KEYS.items, item.id], serializeItem(item));
+    addToIndex(op, item);
+    op.set(KEYS.computedStats, newStats);
+    await queueItemHistory(op, null, item, context);
+    return true;
+  });
 
   invalidateItemsCache();
   return item;
 }
 
-export async function updateItem(
-  id: string,
+/**
+ * Queue an item update (record, indexes, stats and history) onto an atomic
+ * operation, for writes that must land together with other records.
+ */
+async function queueItemUpdate(
+  op: Deno.AtomicOperation,
+  existing: InventoryItem,
   updates: Partial<InventoryItem>,
-): Promise<InventoryItem | null> {
-  const existing = await getItemById(id);
-  if (!existing) {
-    return null;
-  }
-
+  context: ItemChangeContext,
+): Promise<InventoryItem> {
   const updated: InventoryItem = {
     ...existing,
     ...updates,
-    id,
+    id: existing.id,
     lastUpdated: new Date(),
   } as InventoryItem;
 
@@ -526,13 +689,26 @@ export async function updateItem(
     1,
   );
 
-  const db = await initKv();
-  const op = db.atomic();
-  op.set([...KEYS.items, id], serializeItem(updated));
+  op.set([...KEYS.items, existing.id], serializeItem(updated));
   removeFromIndex(op, existing);
   addToIndex(op, updated);
   op.set(KEYS.computedStats, newStats);
-  await op.commit();
+  await queueItemHistory(op, existing, updated, context);
+  return updated;
+}
+
+export async function updateItem(
+  id: string,
+  updates: Partial<InventoryItem>,
+  context: ItemChangeContext = { source: "system" },
+): Promise<InventoryItem | null> {
+  let updated: InventoryItem | null = null;
+  await commitWithItemHistory(async (op) => {
+    const existing = await getItemById(id);
+    if (!existing) return false;
+    updated = await queueItemUpdate(op, existing, updates, context);
+    return true;
+  });
 
   invalidateItemsCache();
   return updated;
@@ -576,6 +752,13 @@ export async function deleteItem(id: string): Promise<boolean> {
   op.set(KEYS.computedStats, newStats);
   await op.commit();
 
+  for await (const entry of db.list({ prefix: [...KEYS.units, id] })) {
+    await db.delete(entry.key);
+  }
+  for await (const entry of db.list({ prefix: [...KEYS.itemHistory, id] })) {
+    await db.delete(entry.key);
+  }
+
   for (const record of photoRecords) {
     if (!record) continue;
     if (isLegacyPhotoRecord(record)) continue;
@@ -615,6 +798,151 @@ export async function searchItems(query: string): Promise<InventoryItem[]> {
   );
 }
 
+// ===== ITEM HISTORY =====
+// Every write to an item appends a numbered version holding the fields that
+// changed and the whole record afterwards, written in the same atomic
+// operation as the item. Only the newest ITEM_HISTORY_LIMIT versions are kept.
+
+// deno-lint-ignore no-explicit-any
+function serializeItemHistoryEntry(entry: ItemHistoryEntry): any {
+  return { ...entry, changedAt: entry.changedAt.toISOString() };
+}
+
+// deno-lint-ignore no-explicit-any
+function deserializeItemHistoryEntry(data: any): ItemHistoryEntry {
+  return { ...data, changedAt: new Date(data.changedAt) };
+}
+
+/**
+ * Commit an atomic operation that records item history. `build` queues the
+ * writes onto a fresh operation, returning false when there is nothing to
+ * write, and runs again from fresh reads if a concurrent write took the same
+ * history version first.
+ */
+async function commitWithItemHistory(
+  build: (op: Deno.AtomicOperation) => Promise<boolean>,
+): Promise<boolean> {
+  const db = await initKv();
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const op = db.atomic();
+    if (!(await build(op))) return false;
+    const result = await op.commit();
+    if (result.ok) return true;
+    invalidateItemsCache();
+  }
+  throw new Error("The item was changed by someone else. Please try again.");
+}
+
+/**
+ * Queue the next history version for an item write onto an atomic operation.
+ * Writes that change nothing are not recorded. An item that predates history
+ * first gets its previous state saved as version 1 so it can be restored.
+ * The version is checked to be unused, so commit with commitWithItemHistory.
+ */
+async function queueItemHistory(
+  op: Deno.AtomicOperation,
+  before: InventoryItem | null,
+  after: InventoryItem,
+  context: ItemChangeContext,
+): Promise<void> {
+  const previous = before ? serializeItem(before) : {};
+  const snapshot = serializeItem(after);
+  const changes = diffItemFields(previous, snapshot);
+  if (changes.length === 0) return;
+
+  const db = await initKv();
+  let latest = 0;
+  for await (
+    const entry of db.list({ prefix: [...KEYS.itemHistory, after.id] }, {
+      reverse: true,
+      limit: 1,
+    })
+  ) {
+    latest = entry.key[entry.key.length - 1] as number;
+  }
+  const { baseline, version, pruned } = nextHistoryVersions(latest, !!before);
+  if (before && baseline !== null) {
+    op.check({
+      key: [...KEYS.itemHistory, after.id, baseline],
+      versionstamp: null,
+    });
+    op.set(
+      [...KEYS.itemHistory, after.id, baseline],
+      serializeItemHistoryEntry({
+        itemId: after.id,
+        version: baseline,
+        changedAt: before.lastUpdated,
+        source: "baseline",
+        changes: [],
+        snapshot: previous,
+      }),
+    );
+  }
+  op.check({
+    key: [...KEYS.itemHistory, after.id, version],
+    versionstamp: null,
+  });
+  op.set(
+    [...KEYS.itemHistory, after.id, version],
+    serializeItemHistoryEntry({
+      ...context,
+      itemId: after.id,
+      version,
+      changedAt: after.lastUpdated,
+      changes,
+      snapshot,
+    }),
+  );
+  if (pruned !== null) op.delete([...KEYS.itemHistory, after.id, pruned]);
+}
+
+/** All recorded versions of an item, newest first. */
+export async function getItemHistory(
+  itemId: string,
+): Promise<ItemHistoryEntry[]> {
+  const db = await initKv();
+  const entries: ItemHistoryEntry[] = [];
+  for await (
+    const entry of db.list({ prefix: [...KEYS.itemHistory, itemId] }, {
+      reverse: true,
+    })
+  ) {
+    entries.push(deserializeItemHistoryEntry(entry.value));
+  }
+  return entries;
+}
+
+/**
+ * Restore an item's recorded fields to those of an earlier version. The
+ * revert is itself a new version. Nothing moves in or out of camps, and
+ * unit-tracked items keep the counts derived from their units.
+ */
+export async function revertItemToVersion(
+  itemId: string,
+  version: number,
+  context: ItemChangeContext,
+): Promise<InventoryItem | null> {
+  const db = await initKv();
+  const [current, result] = await Promise.all([
+    getItemById(itemId),
+    db.get([...KEYS.itemHistory, itemId, version]),
+  ]);
+  if (!current || !result.value) return null;
+
+  const restored = deserializeItem(
+    deserializeItemHistoryEntry(result.value).snapshot,
+  );
+  if (restored.category !== current.category) {
+    throw new Error(
+      "That version has a different category and cannot be restored.",
+    );
+  }
+  return await updateItem(itemId, revertUpdates(current, restored), {
+    ...context,
+    details: context.details ?? `Reverted to version ${version}`,
+  });
+}
+
 // ===== ITEM PHOTO OPERATIONS =====
 
 /** Fetch one photo by its own UUID (new multi-photo scheme). */
@@ -838,7 +1166,7 @@ export async function rebuildIndexes(): Promise<void> {
   let activeLoansCount = 0;
   for await (const entry of db.list<CheckOut>({ prefix: KEYS.checkouts })) {
     const co = deserializeCheckOut(entry.value);
-    if (co.status !== "returned") activeLoansCount++;
+    if (isActiveLoan(co)) activeLoansCount++;
   }
   stats.activeLoansCount = activeLoansCount;
 
@@ -866,7 +1194,7 @@ export async function rebuildComputedStats(): Promise<void> {
   let activeLoansCount = 0;
   for await (const entry of db.list<CheckOut>({ prefix: KEYS.checkouts })) {
     const checkout = deserializeCheckOut(entry.value);
-    if (checkout.status !== "returned") {
+    if (isActiveLoan(checkout)) {
       activeLoansCount++;
     }
   }
@@ -878,178 +1206,786 @@ export async function rebuildComputedStats(): Promise<void> {
   invalidateCheckoutsCache();
 }
 
-// ===== CHECK-OUT OPERATIONS =====
+// ===== STORAGE SPACES =====
+// Registry of the places gear is kept. Seeded once from the original three
+// spaces, then managed from /admin/spaces.
 
-export async function getAllCheckOuts(): Promise<CheckOut[]> {
-  if (checkoutsCache && Date.now() < checkoutsCache.expiresAt) {
-    return checkoutsCache.checkouts;
+// deno-lint-ignore no-explicit-any
+function serializeStorageSpace(space: StorageSpace): any {
+  return {
+    ...space,
+    createdAt: space.createdAt.toISOString(),
+    lastUpdated: space.lastUpdated.toISOString(),
+  };
+}
+
+// deno-lint-ignore no-explicit-any
+function deserializeStorageSpace(data: any): StorageSpace {
+  return {
+    ...data,
+    allowedCategories: Array.isArray(data.allowedCategories)
+      ? data.allowedCategories
+      : [],
+    createdAt: new Date(data.createdAt),
+    lastUpdated: new Date(data.lastUpdated),
+  };
+}
+
+export async function getAllStorageSpaces(): Promise<StorageSpace[]> {
+  if (storageSpacesCache && Date.now() < storageSpacesCache.expiresAt) {
+    return storageSpacesCache.spaces;
   }
-  if (!checkoutsInFlight) {
-    checkoutsInFlight = runCacheLoad("checkouts", async () => {
+  if (!storageSpacesInFlight) {
+    storageSpacesInFlight = runCacheLoad("storage-spaces", async () => {
       const db = await initKv();
-      const checkouts: CheckOut[] = [];
-      const entries = db.list<CheckOut>({ prefix: KEYS.checkouts });
-      for await (const entry of entries) {
-        checkouts.push(deserializeCheckOut(entry.value));
+      const spaces: StorageSpace[] = [];
+      for await (const entry of db.list({ prefix: KEYS.storageSpaces })) {
+        spaces.push(deserializeStorageSpace(entry.value));
       }
-      checkoutsCache = { checkouts, expiresAt: Date.now() + CACHE_TTL_MS };
-      checkoutsInFlight = null;
-      return checkouts;
-    }, invalidateCheckoutsCache);
+
+      // One-off migration from the hard-coded spaces.
+      const seeded = await db.get<boolean>(KEYS.storageSpacesSeeded);
+      if (!seeded.value) {
+        const existingIds = new Set(spaces.map((space) => space.id));
+        const now = new Date();
+        const op = db.atomic();
+        DEFAULT_STORAGE_SPACES.forEach((preset, index) => {
+          if (existingIds.has(preset.id)) return;
+          const space: StorageSpace = {
+            ...preset,
+            allowedCategories: [...preset.allowedCategories],
+            sortOrder: (index + 1) * 10,
+            createdAt: now,
+            lastUpdated: now,
+          };
+          op.set(
+            [...KEYS.storageSpaces, space.id],
+            serializeStorageSpace(space),
+          );
+          spaces.push(space);
+        });
+        op.set(KEYS.storageSpacesSeeded, true);
+        await op.commit();
+      }
+
+      spaces.sort((a, b) =>
+        a.sortOrder - b.sortOrder ||
+        a.name.localeCompare(b.name, undefined, { numeric: true })
+      );
+      storageSpacesCache = { spaces, expiresAt: Date.now() + CACHE_TTL_MS };
+      storageSpacesInFlight = null;
+      return spaces;
+    }, invalidateStorageSpacesCache);
   }
-  if (checkoutsCache) return checkoutsCache.checkouts;
-  return await checkoutsInFlight!;
+  if (storageSpacesCache) return storageSpacesCache.spaces;
+  return await storageSpacesInFlight!;
 }
 
-export async function getActiveCheckOuts(): Promise<CheckOut[]> {
-  const allCheckOuts = await getAllCheckOuts();
-  return allCheckOuts.filter((co) =>
-    co.status === "checked-out" || co.status === "overdue"
-  );
+export async function getStorageSpaceById(
+  id: string,
+): Promise<StorageSpace | null> {
+  const spaces = await getAllStorageSpaces();
+  return spaces.find((space) => space.id === id) ?? null;
 }
 
-export async function getActiveCheckOutsByItemId(
-  itemId: string,
-): Promise<CheckOut[]> {
-  const active = await getActiveCheckOuts();
-  return active.filter((co) => co.itemId === itemId)
-    .sort((a, b) =>
-      new Date(a.expectedReturnDate).getTime() -
-      new Date(b.expectedReturnDate).getTime()
-    );
+/** Count items stored in a space using the space index. */
+async function countItemsInSpace(space: ItemSpace): Promise<number> {
+  const db = await initKv();
+  let count = 0;
+  for await (const _entry of db.list({ prefix: [...IDX.space, space] })) {
+    count++;
+  }
+  return count;
 }
 
-/**
- * Adjust stats for a quantity-only item change (no category/space/condition change).
- * Used by loan create/return/cancel to avoid a full applyItemToStats recalc.
- */
-function applyQuantityDeltaToStats(
-  stats: ComputedStats,
-  item: InventoryItem,
-  quantityDelta: number,
-  loanCountDelta: number,
-): ComputedStats {
-  const cat = item.category as ItemCategory;
-  const sp = (item.space ?? "camp-store") as ItemSpace;
-  const oldQty = item.quantity;
-  const newQty = oldQty + quantityDelta;
-  const next: ComputedStats = {
-    ...stats,
-    totalQuantity: stats.totalQuantity + quantityDelta,
-    categoryBreakdown: {
-      ...stats.categoryBreakdown,
-      [cat]: {
-        ...stats.categoryBreakdown[cat],
-        quantity: stats.categoryBreakdown[cat].quantity + quantityDelta,
-      },
-    },
-    spaceBreakdown: {
-      ...stats.spaceBreakdown,
-      [sp]: {
-        ...stats.spaceBreakdown[sp],
-        quantity: stats.spaceBreakdown[sp].quantity + quantityDelta,
-      },
-    },
-    lowStockItems: stats.lowStockItems,
-    activeLoansCount: Math.max(
-      0,
-      (stats.activeLoansCount ?? 0) + loanCountDelta,
-    ),
-  };
-  const threshold = item.minThreshold;
-  if (oldQty > threshold && newQty <= threshold) next.lowStockItems += 1;
-  else if (oldQty <= threshold && newQty > threshold) next.lowStockItems -= 1;
-  return next;
+function slugifySpaceName(name: string): string {
+  return name.toLowerCase().trim().replace(/[^a-z0-9]+/g, "-").replace(
+    /^-+|-+$/g,
+    "",
+  );
 }
 
-export async function createCheckOut(checkout: CheckOut): Promise<CheckOut> {
-  const db = await initKv();
-  // Fetch item and stats concurrently — both are cache-first after warmup.
-  const [item, currentStats] = await Promise.all([
-    getItemById(checkout.itemId),
-    getComputedStats(),
-  ]);
-
-  if (item) {
-    const newQty = item.quantity - checkout.quantity;
-    const newStats = applyQuantityDeltaToStats(
-      currentStats,
-      item,
-      -checkout.quantity,
-      1,
-    );
-    // Single atomic: checkout record + item quantity + stats
-    await db.atomic()
-      .set([...KEYS.checkouts, checkout.id], serializeCheckOut(checkout))
-      .set(
-        [...KEYS.items, item.id],
-        serializeItem({ ...item, quantity: newQty, lastUpdated: new Date() }),
-      )
-      .set(KEYS.computedStats, newStats)
-      .commit();
-  } else {
-    const newStats: ComputedStats = {
-      ...currentStats,
-      activeLoansCount: (currentStats.activeLoansCount ?? 0) + 1,
-    };
-    await db.atomic()
-      .set([...KEYS.checkouts, checkout.id], serializeCheckOut(checkout))
-      .set(KEYS.computedStats, newStats)
-      .commit();
+export async function createStorageSpace(
+  input: Omit<StorageSpace, "id" | "createdAt" | "lastUpdated">,
+): Promise<StorageSpace> {
+  const spaces = await getAllStorageSpaces();
+  const base = slugifySpaceName(input.name) || "space";
+  let id = base;
+  for (let n = 2; spaces.some((space) => space.id === id); n++) {
+    id = `${base}-${n}`;
   }
-
-  invalidateCheckoutsCache();
-  invalidateItemsCache();
-  return checkout;
+  const now = new Date();
+  const space: StorageSpace = {
+    ...input,
+    id,
+    createdAt: now,
+    lastUpdated: now,
+  };
+  const db = await initKv();
+  await db.set([...KEYS.storageSpaces, id], serializeStorageSpace(space));
+  invalidateStorageSpacesCache();
+  return space;
 }
 
-export async function returnCheckOut(id: string): Promise<CheckOut | null> {
-  const existing = await getCheckOutById(id);
-  if (!existing || existing.status === "returned") return null;
+/**
+ * Updates a space. Dropping an allowed category is refused while items of
+ * that category are still stored in the space.
+ */
+export async function updateStorageSpace(
+  id: string,
+  updates: Partial<Omit<StorageSpace, "id" | "createdAt" | "lastUpdated">>,
+): Promise<StorageSpace | null> {
+  const existing = await getStorageSpaceById(id);
+  if (!existing) return null;
 
-  const updated: CheckOut = {
+  const updated: StorageSpace = {
     ...existing,
-    actualReturnDate: new Date(),
-    status: "returned",
+    ...updates,
+    id,
+    lastUpdated: new Date(),
   };
 
-  const db = await initKv();
+  const removed = existing.allowedCategories.filter((cat) =>
+    !updated.allowedCategories.includes(cat)
+  );
+  if (removed.length > 0) {
+    const stranded = (await getItemsBySpace(id)).filter((item) =>
+      removed.includes(item.category)
+    );
+    if (stranded.length > 0) {
+      throw new Error(
+        `Cannot remove ${
+          [...new Set(stranded.map((item) => item.category))].join(", ")
+        } from "${existing.name}" while ${stranded.length} item(s) of that category are stored there.`,
+      );
+    }
+  }
+
+  const db = await initKv();
+  await db.set([...KEYS.storageSpaces, id], serializeStorageSpace(updated));
+  invalidateStorageSpacesCache();
+  return updated;
+}
+
+/** Deletes a space. Throws if it still holds items or locations. */
+export async function deleteStorageSpace(id: string): Promise<boolean> {
+  const existing = await getStorageSpaceById(id);
+  if (!existing) return false;
+
+  const itemCount = await countItemsInSpace(id);
+  if (itemCount > 0) {
+    throw new Error(
+      `Cannot delete "${existing.name}" — ${itemCount} item(s) are still stored there.`,
+    );
+  }
+  const locationCount =
+    (await getAllStorageLocations()).filter((loc) => loc.space === id).length;
+  if (locationCount > 0) {
+    throw new Error(
+      `Cannot delete "${existing.name}" — delete its ${locationCount} location(s) first.`,
+    );
+  }
+
+  const db = await initKv();
+  await db.delete([...KEYS.storageSpaces, id]);
+  invalidateStorageSpacesCache();
+  return true;
+}
+
+// ===== STORAGE LOCATIONS =====
+// Registry of every shelf, box and slot an item can be stored in. Seeded once
+// from the original hard-coded layout, then managed from /admin/locations.
+
+const DEFAULT_LOCATION_LAYOUT: Array<[ItemSpace, LocationGroup[]]> = [
+  ["camp-store", ITEM_LOCATIONS],
+  ["scout-post-loft", LOFT_LOCATIONS],
+  ["gas-storage-box", GAS_STORAGE_LOCATIONS],
+];
+
+// deno-lint-ignore no-explicit-any
+function serializeStorageLocation(loc: StorageLocation): any {
+  return {
+    ...loc,
+    createdAt: loc.createdAt.toISOString(),
+    lastUpdated: loc.lastUpdated.toISOString(),
+  };
+}
+
+// deno-lint-ignore no-explicit-any
+function deserializeStorageLocation(data: any): StorageLocation {
+  return {
+    ...data,
+    archived: data.archived === true,
+    createdAt: new Date(data.createdAt),
+    lastUpdated: new Date(data.lastUpdated),
+  };
+}
+
+function sortStorageLocations(locations: StorageLocation[]): void {
+  locations.sort((a, b) =>
+    a.sortOrder - b.sortOrder ||
+    a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
+}
+
+/**
+ * Builds the initial registry from the default layout, plus an "Other" entry
+ * for any location already on an item that the defaults don't know about.
+ */
+function buildDefaultStorageLocations(
+  items: InventoryItem[],
+): StorageLocation[] {
+  const now = new Date();
+  const locations: StorageLocation[] = [];
+  for (const [space, groups] of DEFAULT_LOCATION_LAYOUT) {
+    for (const group of groups) {
+      for (const name of group.options) {
+        locations.push({
+          id: crypto.randomUUID(),
+          name,
+          space,
+          group: group.group,
+          sortOrder: (locations.length + 1) * 10,
+          archived: false,
+          createdAt: now,
+          lastUpdated: now,
+        });
+      }
+    }
+  }
+  for (const item of items) {
+    if (!item.location) continue;
+    if (locations.some((loc) => loc.name === item.location)) continue;
+    locations.push({
+      id: crypto.randomUUID(),
+      name: item.location,
+      space: item.space ?? "camp-store",
+      group: "Other",
+      sortOrder: (locations.length + 1) * 10,
+      archived: false,
+      createdAt: now,
+      lastUpdated: now,
+    });
+  }
+  return locations;
+}
+
+export async function getAllStorageLocations(): Promise<StorageLocation[]> {
+  if (storageLocationsCache && Date.now() < storageLocationsCache.expiresAt) {
+    return storageLocationsCache.locations;
+  }
+  if (!storageLocationsInFlight) {
+    storageLocationsInFlight = runCacheLoad("storage-locations", async () => {
+      const db = await initKv();
+      const locations: StorageLocation[] = [];
+      for await (
+        const entry of db.list({ prefix: KEYS.storageLocations })
+      ) {
+        locations.push(deserializeStorageLocation(entry.value));
+      }
+
+      // One-off migration from the hard-coded layout. The marker stops a
+      // deliberately emptied registry from being re-seeded.
+      const seeded = await db.get<boolean>(KEYS.storageLocationsSeeded);
+      if (!seeded.value && locations.length === 0) {
+        const defaults = buildDefaultStorageLocations(await getAllItems());
+        for (let i = 0; i < defaults.length; i += 20) {
+          const op = db.atomic();
+          for (const loc of defaults.slice(i, i + 20)) {
+            op.set(
+              [...KEYS.storageLocations, loc.id],
+              serializeStorageLocation(loc),
+            );
+          }
+          await op.commit();
+        }
+        locations.push(...defaults);
+      }
+      if (!seeded.value) await db.set(KEYS.storageLocationsSeeded, true);
+
+      sortStorageLocations(locations);
+      storageLocationsCache = {
+        locations,
+        expiresAt: Date.now() + CACHE_TTL_MS,
+      };
+      storageLocationsInFlight = null;
+      return locations;
+    }, invalidateStorageLocationsCache);
+  }
+  if (storageLocationsCache) return storageLocationsCache.locations;
+  return await storageLocationsInFlight!;
+}
+
+export async function getStorageLocationById(
+  id: string,
+): Promise<StorageLocation | null> {
+  const locations = await getAllStorageLocations();
+  return locations.find((loc) => loc.id === id) ?? null;
+}
+
+export async function createStorageLocation(
+  input: Pick<StorageLocation, "name" | "space" | "group" | "sortOrder">,
+): Promise<StorageLocation> {
+  const locations = await getAllStorageLocations();
+  if (locations.some((loc) => loc.name === input.name)) {
+    throw new Error(`A location called "${input.name}" already exists.`);
+  }
+  const now = new Date();
+  const location: StorageLocation = {
+    ...input,
+    id: crypto.randomUUID(),
+    archived: false,
+    createdAt: now,
+    lastUpdated: now,
+  };
+  const db = await initKv();
+  await db.set(
+    [...KEYS.storageLocations, location.id],
+    serializeStorageLocation(location),
+  );
+  invalidateStorageLocationsCache();
+  return location;
+}
+
+/**
+ * Updates a location. Renaming moves every item stored there to the new name;
+ * moving it to another space is refused while items are still stored there.
+ */
+export async function updateStorageLocation(
+  id: string,
+  updates: Partial<
+    Pick<StorageLocation, "name" | "space" | "group" | "sortOrder" | "archived">
+  >,
+): Promise<StorageLocation | null> {
+  const locations = await getAllStorageLocations();
+  const existing = locations.find((loc) => loc.id === id);
+  if (!existing) return null;
+
+  const updated: StorageLocation = {
+    ...existing,
+    ...updates,
+    id,
+    lastUpdated: new Date(),
+  };
+
+  if (
+    updated.name !== existing.name &&
+    locations.some((loc) => loc.id !== id && loc.name === updated.name)
+  ) {
+    throw new Error(`A location called "${updated.name}" already exists.`);
+  }
+
+  const storedItems = (await getAllItems()).filter((item) =>
+    item.location === existing.name
+  );
+  if (updated.space !== existing.space && storedItems.length > 0) {
+    throw new Error(
+      `Cannot move "${existing.name}" to another space while ${storedItems.length} item(s) are stored there.`,
+    );
+  }
+
+  const db = await initKv();
+  await db.set(
+    [...KEYS.storageLocations, id],
+    serializeStorageLocation(updated),
+  );
+  invalidateStorageLocationsCache();
+
+  if (updated.name !== existing.name) {
+    for (const item of storedItems) {
+      await updateItem(item.id, { location: updated.name }, {
+        source: "system",
+        details: `Location "${existing.name}" renamed`,
+      });
+    }
+  }
+  return updated;
+}
+
+/** Deletes a location. Throws if any item is still stored there. */
+export async function deleteStorageLocation(id: string): Promise<boolean> {
+  const existing = await getStorageLocationById(id);
+  if (!existing) return false;
+
+  const inUse =
+    (await getAllItems()).filter((item) => item.location === existing.name)
+      .length;
+  if (inUse > 0) {
+    throw new Error(
+      `Cannot delete "${existing.name}" — ${inUse} item(s) are still stored there. Move them first or archive the location instead.`,
+    );
+  }
+
+  const db = await initKv();
+  await db.delete([...KEYS.storageLocations, id]);
+  invalidateStorageLocationsCache();
+  return true;
+}
+
+// ===== CHECK-OUT OPERATIONS =====
+
+export async function getAllCheckOuts(): Promise<CheckOut[]> {
+  if (checkoutsCache && Date.now() < checkoutsCache.expiresAt) {
+    return checkoutsCache.checkouts;
+  }
+  if (!checkoutsInFlight) {
+    checkoutsInFlight = runCacheLoad("checkouts", async () => {
+      const db = await initKv();
+      const checkouts: CheckOut[] = [];
+      const entries = db.list<CheckOut>({ prefix: KEYS.checkouts });
+      for await (const entry of entries) {
+        checkouts.push(deserializeCheckOut(entry.value));
+      }
+      checkoutsCache = { checkouts, expiresAt: Date.now() + CACHE_TTL_MS };
+      checkoutsInFlight = null;
+      return checkouts;
+    }, invalidateCheckoutsCache);
+  }
+  if (checkoutsCache) return checkoutsCache.checkouts;
+  return await checkoutsInFlight!;
+}
+
+export async function getActiveCheckOuts(): Promise<CheckOut[]> {
+  const allCheckOuts = await getAllCheckOuts();
+  return allCheckOuts.filter(isActiveLoan);
+}
+
+export async function getActiveCheckOutsByItemId(
+  itemId: string,
+): Promise<CheckOut[]> {
+  const active = await getActiveCheckOuts();
+  return active.filter((co) => co.itemId === itemId)
+    .sort((a, b) =>
+      new Date(a.expectedReturnDate).getTime() -
+      new Date(b.expectedReturnDate).getTime()
+    );
+}
+
+/**
+ * Adjust stats for a quantity-only item change (no category/space/condition change).
+ * Used by loan create/return/cancel to avoid a full applyItemToStats recalc.
+ */
+function applyQuantityDeltaToStats(
+  stats: ComputedStats,
+  item: InventoryItem,
+  quantityDelta: number,
+  loanCountDelta: number,
+): ComputedStats {
+  const cat = item.category as ItemCategory;
+  const sp = item.space ?? "camp-store";
+  const oldQty = item.quantity;
+  const newQty = oldQty + quantityDelta;
+  const spaceTotals = stats.spaceBreakdown[sp] ?? { count: 0, quantity: 0 };
+  const spaceCats = stats.spaceCategoryBreakdown[sp] ?? {};
+  const spaceCat = spaceCats[cat] ?? { count: 0, quantity: 0 };
+  const next: ComputedStats = {
+    ...stats,
+    totalQuantity: stats.totalQuantity + quantityDelta,
+    categoryBreakdown: {
+      ...stats.categoryBreakdown,
+      [cat]: {
+        ...stats.categoryBreakdown[cat],
+        quantity: stats.categoryBreakdown[cat].quantity + quantityDelta,
+      },
+    },
+    spaceBreakdown: {
+      ...stats.spaceBreakdown,
+      [sp]: {
+        ...spaceTotals,
+        quantity: spaceTotals.quantity + quantityDelta,
+      },
+    },
+    spaceCategoryBreakdown: {
+      ...stats.spaceCategoryBreakdown,
+      [sp]: {
+        ...spaceCats,
+        [cat]: { ...spaceCat, quantity: spaceCat.quantity + quantityDelta },
+      },
+    },
+    lowStockItems: stats.lowStockItems,
+    activeLoansCount: Math.max(
+      0,
+      (stats.activeLoansCount ?? 0) + loanCountDelta,
+    ),
+  };
+  const threshold = item.minThreshold;
+  if (oldQty > threshold && newQty <= threshold) next.lowStockItems += 1;
+  else if (oldQty <= threshold && newQty > threshold) next.lowStockItems -= 1;
+  return next;
+}
+
+/** Queue status writes for a loan's tracked units onto an atomic operation. */
+async function queueLoanUnitStatus(
+  op: Deno.AtomicOperation,
+  checkout: CheckOut,
+  status: Extract<ItemUnitStatus, "in-store" | "on-loan">,
+): Promise<void> {
+  const now = new Date();
+  for (const unitId of checkout.unitIds ?? []) {
+    const unit = await getItemUnitById(checkout.itemId, unitId);
+    if (!unit || unit.status === "retired") continue;
+    op.set(
+      [...KEYS.units, checkout.itemId, unitId],
+      serializeItemUnit({ ...unit, status, lastUpdated: now }),
+    );
+  }
+}
+
+/** Queue a new active loan and its stock deduction onto `op`. */
+async function queueCheckOut(
+  op: Deno.AtomicOperation,
+  checkout: CheckOut,
+  context: ItemChangeContext,
+): Promise<boolean> {
+  // Fetch item and stats concurrently — both are cache-first after warmup.
   const [item, currentStats] = await Promise.all([
-    getItemById(existing.itemId),
+    getItemById(checkout.itemId),
     getComputedStats(),
   ]);
 
   if (item) {
-    const newQty = item.quantity + existing.quantity;
+    const updatedItem = {
+      ...item,
+      quantity: item.quantity - checkout.quantity,
+      lastUpdated: new Date(),
+    };
     const newStats = applyQuantityDeltaToStats(
       currentStats,
       item,
-      +existing.quantity,
-      -1,
+      -checkout.quantity,
+      1,
     );
-    // Single atomic: checkout record + item quantity + stats
-    await db.atomic()
-      .set([...KEYS.checkouts, id], serializeCheckOut(updated))
-      .set(
-        [...KEYS.items, item.id],
-        serializeItem({ ...item, quantity: newQty, lastUpdated: new Date() }),
-      )
-      .set(KEYS.computedStats, newStats)
-      .commit();
-  } else {
-    const newStats: ComputedStats = {
-      ...currentStats,
-      activeLoansCount: Math.max(0, (currentStats.activeLoansCount ?? 1) - 1),
-    };
-    await db.atomic()
-      .set([...KEYS.checkouts, id], serializeCheckOut(updated))
-      .set(KEYS.computedStats, newStats)
-      .commit();
+    // Single atomic: checkout record + item quantity + stats (+ loaned units)
+    op
+      .set([...KEYS.checkouts, checkout.id], serializeCheckOut(checkout))
+      .set([...KEYS.items, item.id], serializeItem(updatedItem))
+      .set(KEYS.computedStats, newStats);
+    await queueItemHistory(op, item, updatedItem, context);
+    await queueLoanUnitStatus(op, checkout, "on-loan");
+    return true;
   }
+  const newStats: ComputedStats = {
+    ...currentStats,
+    activeLoansCount: (currentStats.activeLoansCount ?? 0) + 1,
+  };
+  op
+    .set([...KEYS.checkouts, checkout.id], serializeCheckOut(checkout))
+    .set(KEYS.computedStats, newStats);
+  return true;
+}
+
+export async function createCheckOut(
+  checkout: CheckOut,
+  context: ItemChangeContext = { source: "loan" },
+): Promise<CheckOut> {
+  await commitWithItemHistory((op) => queueCheckOut(op, checkout, context));
+
+  invalidateCheckoutsCache();
+  invalidateItemsCache();
+  return checkout;
+}
+
+export interface LoanReturnResult {
+  /** Record of what came back (a new record when the return was partial) */
+  returned: CheckOut;
+  /** What is still out, under the original loan id */
+  remaining: CheckOut | null;
+}
+
+/** Return all or part of a loan — see lib/loanReturns.ts. */
+export async function returnCheckOut(
+  id: string,
+  context: ItemChangeContext = { source: "loan" },
+  input: LoanReturnInput = {},
+): Promise<LoanReturnResult | null> {
+  const cached = await getCheckOutById(id);
+  if (!cached || !isActiveLoan(cached)) return null;
+
+  const db = await initKv();
+  const now = new Date();
+  let result: LoanReturnResult | null = null;
+  await commitWithItemHistory(async (op) => {
+    // The loan is split as stored and checked in the same commit, so two
+    // returns at once cannot both bring the same kit back
+    const entry = await db.get([...KEYS.checkouts, id]);
+    if (!entry.value) return false;
+    const existing = deserializeCheckOut(entry.value);
+    const { returned, remaining, returnedUnitIds } = splitLoanReturn(
+      existing,
+      input,
+      now,
+    );
+    const quantity = returned.quantity;
+    const loanCountDelta = remaining ? 0 : -1;
+    result = { returned, remaining };
+
+    const [item, currentStats] = await Promise.all([
+      getItemById(existing.itemId),
+      getComputedStats(),
+    ]);
+
+    op
+      .check(entry)
+      .set([...KEYS.checkouts, returned.id], serializeCheckOut(returned));
+    if (remaining) {
+      op.set([...KEYS.checkouts, remaining.id], serializeCheckOut(remaining));
+    }
 
+    if (item) {
+      const damaged = input.condition === "needs-repair";
+      const repairRecord: MaintenanceRecord = {
+        id: crypto.randomUUID(),
+        date: now,
+        type: "inspection",
+        notes: `Returned from loan to ${existing.borrower} needing repair${
+          input.notes ? `: ${input.notes}` : ""
+        }`,
+        performedBy: context.username,
+        conditionAfter: "needs-repair",
+      };
+
+      let newlyDamaged = damaged ? quantity : 0;
+      for (const unitId of returnedUnitIds) {
+        const unit = await getItemUnitById(existing.itemId, unitId);
+        if (!unit || unit.status === "retired") continue;
+        if (damaged && unit.condition === "needs-repair") newlyDamaged--;
+        op.set(
+          [...KEYS.units, existing.itemId, unitId],
+          serializeItemUnit({
+            ...unit,
+            status: "in-store",
+            lastUpdated: now,
+            ...(damaged
+              ? {
+                condition: "needs-repair",
+                maintenanceHistory: [
+                  { ...repairRecord, id: crypto.randomUUID() },
+                  ...(unit.maintenanceHistory ?? []),
+                ],
+              }
+              : {}),
+          }),
+        );
+      }
+
+      const updatedItem = itemAfterReturn(
+        item,
+        quantity,
+        damaged ? { newlyDamaged, record: repairRecord } : null,
+        now,
+      );
+      const newStats = damaged
+        ? {
+          ...applyItemToStats(
+            applyItemToStats(currentStats, item, -1),
+            updatedItem,
+            1,
+          ),
+          activeLoansCount: Math.max(
+            0,
+            (currentStats.activeLoansCount ?? 0) + loanCountDelta,
+          ),
+        }
+        : applyQuantityDeltaToStats(
+          currentStats,
+          item,
+          +quantity,
+          loanCountDelta,
+        );
+      // Single atomic: loan records + item quantity + stats (+ returned units)
+      op.set([...KEYS.items, item.id], serializeItem(updatedItem))
+        .set(KEYS.computedStats, newStats);
+      await queueItemHistory(op, item, updatedItem, context);
+    } else {
+      op.set(KEYS.computedStats, {
+        ...currentStats,
+        activeLoansCount: Math.max(
+          0,
+          (currentStats.activeLoansCount ?? 1) + loanCountDelta,
+        ),
+      });
+    }
+    return true;
+  });
+
+  invalidateCheckoutsCache();
+  invalidateItemsCache();
+  return result;
+}
+
+/**
+ * Book kit for a future collection date. Nothing leaves stock until the
+ * reservation is collected.
+ */
+export async function createLoanReservation(
+  reservation: CheckOut,
+): Promise<CheckOut> {
+  const db = await initKv();
+  await db.set(
+    [...KEYS.checkouts, reservation.id],
+    serializeCheckOut(reservation),
+  );
+  invalidateCheckoutsCache();
+  return reservation;
+}
+
+/**
+ * Hand over reserved kit: the reservation becomes an active loan from today
+ * and its quantity (and any picked units) leaves stock.
+ */
+export async function collectLoanReservation(
+  id: string,
+  unitIds: string[] | undefined,
+  context: ItemChangeContext = { source: "loan" },
+): Promise<CheckOut | null> {
+  const existing = await getCheckOutById(id);
+  if (!existing || existing.status !== "reserved") return null;
+
+  // The reservation is checked in the same commit, so a second collection
+  // racing this one fails instead of taking the stock again
+  const db = await initKv();
+  let collected: CheckOut | null = null;
+  await commitWithItemHistory(async (op) => {
+    const entry = await db.get([...KEYS.checkouts, id]);
+    if (!entry.value) return false;
+    const current = deserializeCheckOut(entry.value);
+    if (current.status !== "reserved") {
+      throw new Error("Reservation already collected.");
+    }
+    collected = {
+      ...current,
+      checkOutDate: new Date(),
+      status: "checked-out",
+      unitIds,
+    };
+    op.check(entry);
+    return await queueCheckOut(op, collected, context);
+  });
   invalidateCheckoutsCache();
   invalidateItemsCache();
-  return updated;
+  return collected;
+}
+
+/**
+ * Mark reservations nobody collected by their deadline as no-shows, releasing
+ * what they held. Returns the lapsed reservations.
+ */
+export async function expireLoanReservations(
+  now: Date = new Date(),
+): Promise<CheckOut[]> {
+  const lapsed = (await getAllCheckOuts()).filter((loan) =>
+    loan.status === "reserved" && isNoShow(loan, now)
+  );
+  if (lapsed.length === 0) return [];
+  const db = await initKv();
+  await Promise.all(lapsed.map((loan) =>
+    db.set(
+      [...KEYS.checkouts, loan.id],
+      serializeCheckOut({ ...loan, status: "no-show" }),
+    )
+  ));
+  invalidateCheckoutsCache();
+  return lapsed;
 }
 
 export async function getCheckOutById(id: string): Promise<CheckOut | null> {
@@ -1064,48 +2000,56 @@ export async function getCheckOutById(id: string): Promise<CheckOut | null> {
 }
 
 /**
- * Cancel/delete a loan record. If the loan has not been returned yet, the
- * loaned quantity is restored to the item's stock before the record is removed.
+ * Cancel/delete a loan record. If the loan is still out, the loaned quantity
+ * is restored to the item's stock before the record is removed. Reservations
+ * never took stock, so cancelling one just releases the booking.
  */
-export async function deleteCheckOut(id: string): Promise<boolean> {
+export async function deleteCheckOut(
+  id: string,
+  context: ItemChangeContext = { source: "loan" },
+): Promise<boolean> {
   const existing = await getCheckOutById(id);
   if (!existing) return false;
 
   const db = await initKv();
-  const isActive = existing.status !== "returned";
+  const isActive = isActiveLoan(existing);
 
   if (isActive) {
-    const [item, currentStats] = await Promise.all([
-      getItemById(existing.itemId),
-      getComputedStats(),
-    ]);
-    if (item) {
-      const newQty = item.quantity + existing.quantity;
-      const newStats = applyQuantityDeltaToStats(
-        currentStats,
-        item,
-        +existing.quantity,
-        -1,
-      );
-      // Single atomic: delete checkout + restore item quantity + stats
-      await db.atomic()
-        .delete([...KEYS.checkouts, id])
-        .set(
-          [...KEYS.items, item.id],
-          serializeItem({ ...item, quantity: newQty, lastUpdated: new Date() }),
-        )
-        .set(KEYS.computedStats, newStats)
-        .commit();
-    } else {
+    await commitWithItemHistory(async (op) => {
+      const [item, currentStats] = await Promise.all([
+        getItemById(existing.itemId),
+        getComputedStats(),
+      ]);
+      if (item) {
+        const updatedItem = {
+          ...item,
+          quantity: item.quantity + existing.quantity,
+          lastUpdated: new Date(),
+        };
+        const newStats = applyQuantityDeltaToStats(
+          currentStats,
+          item,
+          +existing.quantity,
+          -1,
+        );
+        // Single atomic: delete checkout + restore item quantity + stats
+        op
+          .delete([...KEYS.checkouts, id])
+          .set([...KEYS.items, item.id], serializeItem(updatedItem))
+          .set(KEYS.computedStats, newStats);
+        await queueItemHistory(op, item, updatedItem, context);
+        await queueLoanUnitStatus(op, existing, "in-store");
+        return true;
+      }
       const newStats: ComputedStats = {
         ...currentStats,
         activeLoansCount: Math.max(0, (currentStats.activeLoansCount ?? 1) - 1),
       };
-      await db.atomic()
+      op
         .delete([...KEYS.checkouts, id])
-        .set(KEYS.computedStats, newStats)
-        .commit();
-    }
+        .set(KEYS.computedStats, newStats);
+      return true;
+    });
     invalidateItemsCache();
   } else {
     await db.delete([...KEYS.checkouts, id]);
@@ -1115,6 +2059,176 @@ export async function deleteCheckOut(id: string): Promise<boolean> {
   return true;
 }
 
+// ===== BORROWERS =====
+// Directory of people and groups kit is loaned to. Seeded once from the
+// free-text names on existing loans, then managed from /loans/borrowers.
+
+// deno-lint-ignore no-explicit-any
+function serializeBorrower(borrower: Borrower): any {
+  return {
+    ...borrower,
+    createdAt: borrower.createdAt.toISOString(),
+    lastUpdated: borrower.lastUpdated.toISOString(),
+  };
+}
+
+// deno-lint-ignore no-explicit-any
+function deserializeBorrower(data: any): Borrower {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    lastUpdated: new Date(data.lastUpdated),
+  };
+}
+
+/**
+ * One-off migration: one borrower per distinct name on existing loans
+ * (ignoring case and spacing), linked back to those loans. Written in one
+ * commit that checks the seeded marker, so concurrent first reads seed once.
+ */
+async function seedBorrowersFromLoans(db: Deno.Kv): Promise<void> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const seeded = await db.get<boolean>(KEYS.borrowersSeeded);
+    if (seeded.value) return;
+    const byName = new Map<string, Borrower>();
+    for await (const entry of db.list({ prefix: KEYS.borrowers })) {
+      const borrower = deserializeBorrower(entry.value);
+      byName.set(normalizeBorrowerName(borrower.name), borrower);
+    }
+    const checkouts = await getAllCheckOuts();
+    const now = new Date();
+    // Newest loans first so each borrower takes their latest spelling
+    const unlinked = checkouts
+      .filter((loan) => !loan.borrowerId && loan.borrower.trim())
+      .sort((a, b) => b.checkOutDate.getTime() - a.checkOutDate.getTime());
+    const op = db.atomic().check(seeded).set(KEYS.borrowersSeeded, true);
+    for (const loan of unlinked) {
+      const key = normalizeBorrowerName(loan.borrower);
+      let borrower = byName.get(key);
+      if (!borrower) {
+        borrower = {
+          id: crypto.randomUUID(),
+          name: loan.borrower.trim(),
+          createdAt: now,
+          lastUpdated: now,
+        };
+        byName.set(key, borrower);
+        op.set([...KEYS.borrowers, borrower.id], serializeBorrower(borrower));
+      }
+      op.set(
+        [...KEYS.checkouts, loan.id],
+        serializeCheckOut({ ...loan, borrowerId: borrower.id }),
+      );
+    }
+    if ((await op.commit()).ok) {
+      if (unlinked.length > 0) invalidateCheckoutsCache();
+      return;
+    }
+  }
+}
+
+export async function getAllBorrowers(): Promise<Borrower[]> {
+  const db = await initKv();
+  const seeded = await db.get<boolean>(KEYS.borrowersSeeded);
+  if (!seeded.value) await seedBorrowersFromLoans(db);
+  const borrowers: Borrower[] = [];
+  for await (const entry of db.list({ prefix: KEYS.borrowers })) {
+    borrowers.push(deserializeBorrower(entry.value));
+  }
+  return borrowers.sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
+}
+
+export async function getBorrowerById(id: string): Promise<Borrower | null> {
+  const db = await initKv();
+  const result = await db.get([...KEYS.borrowers, id]);
+  return result.value ? deserializeBorrower(result.value) : null;
+}
+
+type BorrowerInput = Omit<Borrower, "id" | "createdAt" | "lastUpdated">;
+
+/** Adds a borrower. Refuses a name already in the directory. */
+export async function createBorrower(input: BorrowerInput): Promise<Borrower> {
+  const existing = findBorrowerByName(await getAllBorrowers(), input.name);
+  if (existing) {
+    throw new Error(`"${existing.name}" is already in the borrower directory.`);
+  }
+  const now = new Date();
+  const borrower: Borrower = {
+    ...input,
+    name: input.name.trim(),
+    id: crypto.randomUUID(),
+    createdAt: now,
+    lastUpdated: now,
+  };
+  const db = await initKv();
+  await db.set([...KEYS.borrowers, borrower.id], serializeBorrower(borrower));
+  return borrower;
+}
+
+/** The directory entry for a typed name, added if nobody matches. */
+export async function findOrCreateBorrower(name: string): Promise<Borrower> {
+  return findBorrowerByName(await getAllBorrowers(), name) ??
+    await createBorrower({ name });
+}
+
+/**
+ * Updates a borrower. A new name is copied onto their loans so lists and
+ * history read the same everywhere.
+ */
+export async function updateBorrower(
+  id: string,
+  updates: Partial<BorrowerInput>,
+): Promise<Borrower | null> {
+  const existing = await getBorrowerById(id);
+  if (!existing) return null;
+  const updated: Borrower = {
+    ...existing,
+    ...updates,
+    id,
+    name: (updates.name ?? existing.name).trim(),
+    lastUpdated: new Date(),
+  };
+  const clash = findBorrowerByName(await getAllBorrowers(), updated.name);
+  if (clash && clash.id !== id) {
+    throw new Error(`"${clash.name}" is already in the borrower directory.`);
+  }
+
+  const db = await initKv();
+  await db.set([...KEYS.borrowers, id], serializeBorrower(updated));
+  if (updated.name !== existing.name) {
+    const loans = (await getAllCheckOuts()).filter((loan) =>
+      loan.borrowerId === id
+    );
+    await Promise.all(loans.map((loan) =>
+      db.set(
+        [...KEYS.checkouts, loan.id],
+        serializeCheckOut({ ...loan, borrower: updated.name }),
+      )
+    ));
+    invalidateCheckoutsCache();
+  }
+  return updated;
+}
+
+/** Deletes a borrower. Refused while any loan record still names them. */
+export async function deleteBorrower(id: string): Promise<boolean> {
+  const existing = await getBorrowerById(id);
+  if (!existing) return false;
+  const loans = (await getAllCheckOuts()).filter((loan) =>
+    loan.borrowerId === id
+  );
+  if (loans.length > 0) {
+    throw new Error(
+      `"${existing.name}" has ${loans.length} loan record(s) and can't be deleted.`,
+    );
+  }
+  const db = await initKv();
+  await db.delete([...KEYS.borrowers, id]);
+  return true;
+}
+
 // ===== MAINTENANCE OPERATIONS =====
 
 export interface MaintenanceUpdateInput {
@@ -1127,16 +2241,346 @@ export interface MaintenanceUpdateInput {
 }
 
 /**
- * Append a maintenance/inspection entry to an item and update inspection metadata.
+ * Append a maintenance/inspection entry to an item and update inspection metadata.
+ */
+export async function addMaintenanceRecord(
+  itemId: string,
+  input: MaintenanceUpdateInput,
+  context: ItemChangeContext = { source: "maintenance" },
+): Promise<InventoryItem | null> {
+  const existing = await getItemById(itemId);
+  if (!existing) return null;
+
+  const history = existing.maintenanceHistory ?? [];
+  const newRecord: MaintenanceRecord = {
+    id: crypto.randomUUID(),
+    date: input.date,
+    type: input.type,
+    notes: input.notes,
+    performedBy: input.performedBy,
+    conditionAfter: input.conditionAfter,
+  };
+
+  const updates: Partial<InventoryItem> = {
+    lastInspectedDate: input.date,
+    nextInspectionDate: input.nextInspectionDate,
+    maintenanceHistory: [newRecord, ...history],
+  };
+
+  if (input.conditionAfter && "condition" in existing) {
+    (updates as Partial<InventoryItem> & { condition?: string }).condition =
+      input.conditionAfter;
+  }
+
+  return await updateItem(itemId, updates, context);
+}
+
+/** Update only inspection scheduling metadata for an item. */
+export async function updateInspectionSchedule(
+  itemId: string,
+  updates: { lastInspectedDate?: Date; nextInspectionDate?: Date },
+  context: ItemChangeContext = { source: "maintenance" },
+): Promise<InventoryItem | null> {
+  const existing = await getItemById(itemId);
+  if (!existing) return null;
+
+  return await updateItem(itemId, {
+    lastInspectedDate: updates.lastInspectedDate ?? existing.lastInspectedDate,
+    nextInspectionDate: updates.nextInspectionDate ??
+      existing.nextInspectionDate,
+  }, context);
+}
+
+// ===== ITEM UNITS =====
+// Optional per-unit records under a multi-quantity item. While an item has
+// units, its quantity counts the units in store or at camp (loans take stock
+// out, exactly as for untracked items) and quantityNeedsRepair counts units in
+// "needs-repair" condition.
+
+// deno-lint-ignore no-explicit-any
+function serializeItemUnit(unit: ItemUnit): any {
+  return {
+    ...unit,
+    lastInspectedDate: unit.lastInspectedDate?.toISOString(),
+    nextInspectionDate: unit.nextInspectionDate?.toISOString(),
+    maintenanceHistory: unit.maintenanceHistory?.map((entry) => ({
+      ...entry,
+      date: entry.date.toISOString(),
+    })),
+    createdAt: unit.createdAt.toISOString(),
+    lastUpdated: unit.lastUpdated.toISOString(),
+  };
+}
+
+// deno-lint-ignore no-explicit-any
+function deserializeItemUnit(data: any): ItemUnit {
+  return {
+    ...data,
+    lastInspectedDate: data.lastInspectedDate
+      ? new Date(data.lastInspectedDate)
+      : undefined,
+    nextInspectionDate: data.nextInspectionDate
+      ? new Date(data.nextInspectionDate)
+      : undefined,
+    maintenanceHistory: Array.isArray(data.maintenanceHistory)
+      ? data.maintenanceHistory.map((entry: Record<string, unknown>) => ({
+        ...entry,
+        date: new Date(entry.date as string),
+      }))
+      : undefined,
+    createdAt: new Date(data.createdAt),
+    lastUpdated: new Date(data.lastUpdated),
+  };
+}
+
+function sortItemUnits(units: ItemUnit[]): ItemUnit[] {
+  return units.sort((a, b) =>
+    a.assetTag.localeCompare(b.assetTag, undefined, { numeric: true })
+  );
+}
+
+export async function getItemUnits(itemId: string): Promise<ItemUnit[]> {
+  const db = await initKv();
+  const units: ItemUnit[] = [];
+  for await (const entry of db.list({ prefix: [...KEYS.units, itemId] })) {
+    units.push(deserializeItemUnit(entry.value));
+  }
+  return sortItemUnits(units);
+}
+
+export async function getAllItemUnits(): Promise<ItemUnit[]> {
+  const db = await initKv();
+  const units: ItemUnit[] = [];
+  for await (const entry of db.list({ prefix: KEYS.units })) {
+    units.push(deserializeItemUnit(entry.value));
+  }
+  return sortItemUnits(units);
+}
+
+export async function getItemUnitById(
+  itemId: string,
+  unitId: string,
+): Promise<ItemUnit | null> {
+  const db = await initKv();
+  const result = await db.get([...KEYS.units, itemId, unitId]);
+  return result.value ? deserializeItemUnit(result.value) : null;
+}
+
+/** Recompute the parent item's derived counts from its units. */
+async function syncItemFromUnits(
+  itemId: string,
+  context: ItemChangeContext,
+): Promise<InventoryItem | null> {
+  const units = await getItemUnits(itemId);
+  const active = units.filter((unit) => unit.status !== "retired");
+  return await updateItem(itemId, {
+    hasUnits: units.length > 0,
+    quantity: active.filter((unit) =>
+      unit.status === "in-store" || unit.status === "at-camp"
+    ).length,
+    quantityNeedsRepair: active.filter((unit) =>
+      unit.condition === "needs-repair"
+    ).length,
+  }, context);
+}
+
+async function assertAssetTagsAvailable(
+  tags: string[],
+  ignoreUnitId?: string,
+): Promise<void> {
+  const seen = new Set<string>();
+  for (const tag of tags) {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) throw new Error(`Asset tag "${tag}" is repeated.`);
+    seen.add(key);
+  }
+  const clash = (await getAllItemUnits()).find((unit) =>
+    unit.id !== ignoreUnitId && seen.has(unit.assetTag.toLowerCase())
+  );
+  if (clash) {
+    throw new Error(`Asset tag "${clash.assetTag}" is already in use.`);
+  }
+}
+
+/**
+ * Start tracking units for an item (or add more). Food is consumable and
+ * cannot be split into units. Refused while loans made without units are
+ * out, as the item's quantity is then counted from the units in store.
+ */
+export async function createItemUnits(
+  itemId: string,
+  input: Pick<ItemUnit, "assetTag" | "condition">[],
+  context: ItemChangeContext = { source: "units" },
+): Promise<ItemUnit[]> {
+  const item = await getItemById(itemId);
+  if (!item) throw new Error("Item not found.");
+  if (item.category === "food") {
+    throw new Error("Food items cannot be tracked as individual units.");
+  }
+  const untracked = (await getActiveCheckOutsByItemId(itemId)).filter((loan) =>
+    !loan.unitIds
+  );
+  if (untracked.length > 0) {
+    throw new Error(
+      `${untracked.length} loan(s) of this item are out without units — return them before adding units.`,
+    );
+  }
+  await assertAssetTagsAvailable(input.map((u) => u.assetTag));
+
+  const now = new Date();
+  const units: ItemUnit[] = input.map((u) => ({
+    id: crypto.randomUUID(),
+    itemId,
+    assetTag: u.assetTag,
+    condition: u.condition,
+    status: "in-store",
+    createdAt: now,
+    lastUpdated: now,
+  }));
+  const db = await initKv();
+  const op = db.atomic();
+  for (const unit of units) {
+    op.set([...KEYS.units, itemId, unit.id], serializeItemUnit(unit));
+  }
+  await op.commit();
+  await syncItemFromUnits(itemId, context);
+  return units;
+}
+
+export async function updateItemUnit(
+  itemId: string,
+  unitId: string,
+  updates: Partial<
+    Pick<
+      ItemUnit,
+      | "assetTag"
+      | "condition"
+      | "notes"
+      | "lastInspectedDate"
+      | "nextInspectionDate"
+      | "maintenanceHistory"
+    > & { retired: boolean }
+  >,
+  context: ItemChangeContext = { source: "units" },
+): Promise<ItemUnit | null> {
+  const existing = await getItemUnitById(itemId, unitId);
+  if (!existing) return null;
+
+  const { retired, ...fields } = updates;
+  if (fields.assetTag && fields.assetTag !== existing.assetTag) {
+    await assertAssetTagsAvailable([fields.assetTag], unitId);
+  }
+  let status = existing.status;
+  if (retired !== undefined) {
+    if (existing.status === "on-loan" || existing.status === "at-camp") {
+      throw new Error(
+        `Unit ${existing.assetTag} is ${
+          existing.status.replace("-", " ")
+        } — bring it back first.`,
+      );
+    }
+    status = retired ? "retired" : "in-store";
+  }
+
+  const updated: ItemUnit = {
+    ...existing,
+    ...fields,
+    id: unitId,
+    itemId,
+    status,
+    lastUpdated: new Date(),
+  };
+  const db = await initKv();
+  await db.set([...KEYS.units, itemId, unitId], serializeItemUnit(updated));
+  await syncItemFromUnits(itemId, context);
+  return updated;
+}
+
+export async function deleteItemUnit(
+  itemId: string,
+  unitId: string,
+  context: ItemChangeContext = { source: "units" },
+): Promise<boolean> {
+  const existing = await getItemUnitById(itemId, unitId);
+  if (!existing) return false;
+  if (existing.status === "on-loan" || existing.status === "at-camp") {
+    throw new Error(
+      `Unit ${existing.assetTag} is ${
+        existing.status.replace("-", " ")
+      } and cannot be deleted.`,
+    );
+  }
+  const db = await initKv();
+  await db.delete([...KEYS.units, itemId, unitId]);
+  await syncItemFromUnits(itemId, context);
+  return true;
+}
+
+/**
+ * Move units between store and camp. Quantity is unaffected (units at camp
+ * still count), so only the unit records are written.
+ */
+export async function setItemUnitsStatus(
+  itemId: string,
+  unitIds: string[],
+  status: Extract<ItemUnitStatus, "in-store" | "at-camp">,
+): Promise<void> {
+  const db = await initKv();
+  const now = new Date();
+  const op = db.atomic();
+  for (const unitId of unitIds) {
+    const unit = await getItemUnitById(itemId, unitId);
+    if (!unit || unit.status === "retired" || unit.status === "on-loan") {
+      continue;
+    }
+    op.set(
+      [...KEYS.units, itemId, unitId],
+      serializeItemUnit({ ...unit, status, lastUpdated: now }),
+    );
+  }
+  await op.commit();
+}
+
+/**
+ * Check that `unitIds` are units of the item and currently in the store.
+ * Returns a user-facing error, or null when they can be used.
  */
-export async function addMaintenanceRecord(
+export async function validateUnitSelection(
+  itemId: string,
+  unitIds: unknown,
+  allowedStatuses: ItemUnitStatus[] = ["in-store"],
+): Promise<string | null> {
+  if (
+    !Array.isArray(unitIds) || unitIds.some((id) => typeof id !== "string")
+  ) {
+    return "unitIds must be an array of unit ids.";
+  }
+  if (new Set(unitIds).size !== unitIds.length) {
+    return "The same unit was selected twice.";
+  }
+  const units = await getItemUnits(itemId);
+  for (const unitId of unitIds as string[]) {
+    const unit = units.find((u) => u.id === unitId);
+    if (!unit) return "Selected unit does not belong to this item.";
+    if (!allowedStatuses.includes(unit.status)) {
+      return `Unit ${unit.assetTag} is ${
+        unit.status.replace("-", " ")
+      } and not available.`;
+    }
+  }
+  return null;
+}
+
+/** Append a maintenance entry to one unit and update its condition. */
+export async function addUnitMaintenanceRecord(
   itemId: string,
+  unitId: string,
   input: MaintenanceUpdateInput,
-): Promise<InventoryItem | null> {
-  const existing = await getItemById(itemId);
+  context: ItemChangeContext = { source: "maintenance" },
+): Promise<ItemUnit | null> {
+  const existing = await getItemUnitById(itemId, unitId);
   if (!existing) return null;
 
-  const history = existing.maintenanceHistory ?? [];
   const newRecord: MaintenanceRecord = {
     id: crypto.randomUUID(),
     date: input.date,
@@ -1145,34 +2589,279 @@ export async function addMaintenanceRecord(
     performedBy: input.performedBy,
     conditionAfter: input.conditionAfter,
   };
-
-  const updates: Partial<InventoryItem> = {
+  return await updateItemUnit(itemId, unitId, {
     lastInspectedDate: input.date,
     nextInspectionDate: input.nextInspectionDate,
-    maintenanceHistory: [newRecord, ...history],
+    maintenanceHistory: [newRecord, ...(existing.maintenanceHistory ?? [])],
+    ...(input.conditionAfter ? { condition: input.conditionAfter } : {}),
+  }, context);
+}
+
+// ===== FOOD BATCHES =====
+// A food product keeps its lots inline; see lib/foodBatches.ts for how stock
+// is taken from and put back into them.
+
+async function getFoodItemOrThrow(itemId: string): Promise<FoodItem> {
+  const item = await getItemById(itemId);
+  if (!item) throw new Error("Item not found.");
+  if (item.category !== "food") throw new Error("Only food has batches.");
+  return item;
+}
+
+export async function addFoodBatch(
+  itemId: string,
+  input: Pick<FoodBatch, "quantity" | "expiryDate" | "notes">,
+  context: ItemChangeContext = { source: "batches" },
+): Promise<FoodItem> {
+  const item = await getFoodItemOrThrow(itemId);
+  const batch: FoodBatch = {
+    id: crypto.randomUUID(),
+    quantity: input.quantity,
+    expiryDate: input.expiryDate,
+    addedDate: new Date(),
+    notes: input.notes,
   };
+  return await updateItem(
+    itemId,
+    withFoodBatches(item, [...getFoodBatches(item), batch]),
+    context,
+  ) as FoodItem;
+}
 
-  if (input.conditionAfter && "condition" in existing) {
-    (updates as Partial<InventoryItem> & { condition?: string }).condition =
-      input.conditionAfter;
-  }
+/** Correct a lot's count, date or notes. A quantity of 0 removes the lot. */
+export async function updateFoodBatch(
+  itemId: string,
+  batchId: string,
+  updates: Partial<Pick<FoodBatch, "quantity" | "expiryDate" | "notes">>,
+  context: ItemChangeContext = { source: "batches" },
+): Promise<FoodItem | null> {
+  const item = await getFoodItemOrThrow(itemId);
+  const batches = getFoodBatches(item);
+  if (!batches.some((batch) => batch.id === batchId)) return null;
+  return await updateItem(
+    itemId,
+    withFoodBatches(
+      item,
+      batches.map((batch) =>
+        batch.id === batchId ? { ...batch, ...updates } : batch
+      ),
+    ),
+    context,
+  ) as FoodItem;
+}
+
+/** Take food stock — see takeFoodStock in lib/foodBatches.ts. */
+export async function consumeFoodStock(
+  itemId: string,
+  quantity: number,
+  context: ItemChangeContext = { source: "system" },
+): Promise<FoodBatchAllocation[]> {
+  const item = await getItemById(itemId);
+  if (!item || item.category !== "food") return [];
 
-  return await updateItem(itemId, updates);
+  const { updates, allocations } = takeFoodStock(item, quantity);
+  await updateItem(itemId, updates, context);
+  return allocations;
 }
 
-/** Update only inspection scheduling metadata for an item. */
-export async function updateInspectionSchedule(
+/** Put food stock back — see putBackFoodStock in lib/foodBatches.ts. */
+export async function restoreFoodStock(
   itemId: string,
-  updates: { lastInspectedDate?: Date; nextInspectionDate?: Date },
-): Promise<InventoryItem | null> {
-  const existing = await getItemById(itemId);
-  if (!existing) return null;
+  quantity: number,
+  allocations?: FoodBatchAllocation[],
+  context: ItemChangeContext = { source: "system" },
+): Promise<void> {
+  const item = await getItemById(itemId);
+  if (!item || item.category !== "food") return;
 
-  return await updateItem(itemId, {
-    lastInspectedDate: updates.lastInspectedDate ?? existing.lastInspectedDate,
-    nextInspectionDate: updates.nextInspectionDate ??
-      existing.nextInspectionDate,
-  });
+  await updateItem(
+    itemId,
+    putBackFoodStock(item, quantity, allocations),
+    context,
+  );
+}
+
+/** Merge food records into one, deleting the rest — see mergeFoodBatches. */
+export async function mergeFoodProducts(
+  targetId: string,
+  sourceIds: string[],
+  context: ItemChangeContext = { source: "batches" },
+): Promise<FoodItem> {
+  const target = await getFoodItemOrThrow(targetId);
+  const sources = await Promise.all(
+    sourceIds.filter((id) => id !== targetId).map(getFoodItemOrThrow),
+  );
+  const merged = await updateItem(
+    targetId,
+    mergeFoodBatches(target, sources),
+    { ...context, details: `Merged ${sources.length} duplicate records` },
+  ) as FoodItem;
+  for (const source of sources) {
+    await deleteItem(source.id);
+  }
+  return merged;
+}
+
+// ===== PURCHASE REQUESTS =====
+// Leaders ask for stock, managers approve and order it, and booking in the
+// delivery adds it to the item — as a new lot for food.
+
+export async function getAllPurchaseRequests(): Promise<PurchaseRequest[]> {
+  const db = await initKv();
+  const requests: PurchaseRequest[] = [];
+  for await (
+    const entry of db.list<PurchaseRequest>({ prefix: KEYS.purchaseRequests })
+  ) {
+    requests.push(entry.value);
+  }
+  return requests.sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+}
+
+export async function getPurchaseRequestById(
+  id: string,
+): Promise<PurchaseRequest | null> {
+  const db = await initKv();
+  const result = await db.get<PurchaseRequest>([...KEYS.purchaseRequests, id]);
+  return result.value ?? null;
+}
+
+export async function createPurchaseRequest(
+  input: Pick<
+    PurchaseRequest,
+    "itemId" | "quantity" | "estimatedCost" | "supplierUrl" | "notes"
+  >,
+  requestedBy: string,
+): Promise<PurchaseRequest> {
+  const item = await getItemById(input.itemId);
+  if (!item) throw new Error("Item not found.");
+  const request: PurchaseRequest = {
+    ...input,
+    id: crypto.randomUUID(),
+    itemName: item.name,
+    itemCategory: item.category,
+    status: "requested",
+    requestedBy: requestedBy.toLowerCase(),
+    requestedAt: new Date().toISOString(),
+  };
+  const db = await initKv();
+  await db.set([...KEYS.purchaseRequests, request.id], request);
+  return request;
+}
+
+/**
+ * Queues a delivery's stock change onto `op`. Returns false for unit-tracked
+ * items, whose new units (with their asset tags) still need adding on the
+ * Units page.
+ */
+async function queuePurchaseStock(
+  op: Deno.AtomicOperation,
+  item: InventoryItem,
+  quantity: number,
+  expiryDate: Date | undefined,
+  username: string,
+): Promise<boolean> {
+  const context: ItemChangeContext = {
+    username,
+    source: "purchase",
+    details: `Received ${quantity} from purchase request`,
+  };
+  if (item.category === "food") {
+    if (!expiryDate) throw new Error("Enter the expiry date of the delivery.");
+    const batch: FoodBatch = {
+      id: crypto.randomUUID(),
+      quantity,
+      expiryDate,
+      addedDate: new Date(),
+      notes: "Purchase",
+    };
+    await queueItemUpdate(
+      op,
+      item,
+      withFoodBatches(item, [...getFoodBatches(item), batch]),
+      context,
+    );
+    return true;
+  }
+  if (item.hasUnits) return false;
+  await queueItemUpdate(
+    op,
+    item,
+    { quantity: item.quantity + quantity },
+    context,
+  );
+  return true;
+}
+
+/**
+ * Moves a request along the workflow. Receiving writes the delivered stock
+ * and the request in one atomic operation, checked against both records, so
+ * a double submit can't add the delivery twice. Permission checks are the
+ * caller's.
+ */
+export async function updatePurchaseStatus(
+  id: string,
+  status: PurchaseStatus,
+  username: string,
+  details: {
+    reason?: string;
+    receivedQuantity?: number;
+    actualCost?: number;
+    expiryDate?: Date;
+  } = {},
+): Promise<{ request: PurchaseRequest; stockAdded: boolean } | null> {
+  const db = await initKv();
+  const key = [...KEYS.purchaseRequests, id];
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const entry = await db.get<PurchaseRequest>(key);
+    const existing = entry.value;
+    if (!existing) return null;
+    if (!PURCHASE_TRANSITIONS[existing.status].includes(status)) {
+      throw new Error(
+        `Cannot move request from ${existing.status} to ${status}.`,
+      );
+    }
+
+    const by = username.toLowerCase();
+    const at = new Date().toISOString();
+    const updated: PurchaseRequest = { ...existing, status };
+    const op = db.atomic().check(entry);
+    let stockAdded = false;
+    if (status === "approved" || status === "rejected") {
+      updated.reviewedBy = by;
+      updated.reviewedAt = at;
+      updated.reviewReason = details.reason;
+    } else if (status === "ordered") {
+      updated.orderedBy = by;
+      updated.orderedAt = at;
+    } else if (status === "received") {
+      const itemEntry = await db.get([...KEYS.items, existing.itemId]);
+      if (!itemEntry.value) {
+        throw new Error(`"${existing.itemName}" is no longer in stock.`);
+      }
+      const quantity = details.receivedQuantity ?? existing.quantity;
+      op.check(itemEntry);
+      stockAdded = await queuePurchaseStock(
+        op,
+        deserializeItem(itemEntry.value),
+        quantity,
+        details.expiryDate,
+        username,
+      );
+      updated.receivedBy = by;
+      updated.receivedAt = at;
+      updated.receivedQuantity = quantity;
+      updated.actualCost = details.actualCost;
+      updated.receivedExpiryDate = details.expiryDate?.toISOString();
+    }
+
+    op.set(key, updated);
+    const result = await op.commit();
+    if (result.ok) {
+      if (status === "received") invalidateItemsCache();
+      return { request: updated, stockAdded };
+    }
+  }
+  throw new Error("Purchase request changed while saving. Try again.");
 }
 
 // ===== NECKER COUNT =====
@@ -1575,6 +3264,13 @@ function serializeItem(item: InventoryItem): any {
 
   if (item.category === "food") {
     serialized.expiryDate = item.expiryDate.toISOString();
+    if (item.batches) {
+      serialized.batches = item.batches.map((batch) => ({
+        ...batch,
+        expiryDate: batch.expiryDate.toISOString(),
+        addedDate: batch.addedDate.toISOString(),
+      }));
+    }
   }
 
   return serialized;
@@ -1604,6 +3300,13 @@ function deserializeItem(data: any): InventoryItem {
 
   if (data.category === "food") {
     item.expiryDate = new Date(data.expiryDate);
+    if (Array.isArray(data.batches)) {
+      item.batches = data.batches.map((batch: Record<string, unknown>) => ({
+        ...batch,
+        expiryDate: new Date(batch.expiryDate as string),
+        addedDate: new Date(batch.addedDate as string),
+      }));
+    }
   }
 
   return item as InventoryItem;
@@ -1616,6 +3319,7 @@ function serializeCheckOut(checkout: CheckOut): any {
     checkOutDate: checkout.checkOutDate.toISOString(),
     expectedReturnDate: checkout.expectedReturnDate.toISOString(),
     actualReturnDate: checkout.actualReturnDate?.toISOString(),
+    reservedDate: checkout.reservedDate?.toISOString(),
   };
 }
 
@@ -1628,6 +3332,7 @@ function deserializeCheckOut(data: any): CheckOut {
     actualReturnDate: data.actualReturnDate
       ? new Date(data.actualReturnDate)
       : undefined,
+    reservedDate: data.reservedDate ? new Date(data.reservedDate) : undefined,
   };
 }
 
@@ -1715,15 +3420,45 @@ export async function updateCampPlan(
   return updated;
 }
 
+/**
+ * Deletes a plan and its shopping list. Tracked units the plan still has at
+ * camp go back to the store in the same atomic operation.
+ */
 export async function deleteCampPlan(id: string): Promise<boolean> {
-  const existing = await getCampPlanById(id);
-  if (!existing) {
-    return false;
-  }
   const db = await initKv();
-  await db.delete([...KEYS.camps, id]);
-  invalidateCampPlansCache();
-  return true;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const entry = await db.get([...KEYS.camps, id]);
+    if (!entry.value) return false;
+    const plan = deserializeCampPlan(entry.value);
+    const now = new Date();
+    const op = db.atomic()
+      .check(entry)
+      .delete([...KEYS.camps, id])
+      .delete([...KEYS.shoppingLists, id]);
+    for (const planItem of plan.items) {
+      if (!planItem.packedStatus || planItem.returnedStatus) continue;
+      for (const unitId of planItem.unitIds ?? []) {
+        const unitEntry = await db.get([
+          ...KEYS.units,
+          planItem.itemId,
+          unitId,
+        ]);
+        if (!unitEntry.value) continue;
+        const unit = deserializeItemUnit(unitEntry.value);
+        if (unit.status !== "at-camp") continue;
+        op.check(unitEntry).set(
+          unitEntry.key,
+          serializeItemUnit({ ...unit, status: "in-store", lastUpdated: now }),
+        );
+      }
+    }
+    const result = await op.commit();
+    if (result.ok) {
+      invalidateCampPlansCache();
+      return true;
+    }
+  }
+  throw new Error("Camp plan changed while deleting. Try again.");
 }
 
 // ===== CAMP TEMPLATES =====
@@ -2109,6 +3844,99 @@ export async function recordFirstAidCheckCompletion(
   invalidateFirstAidCheckStateCaches();
 }
 
+/**
+ * Saves the dated stock counted during a check. Each update replaces the
+ * entry's batches; an empty list means nothing in it is dated any more.
+ */
+export async function recordFirstAidKitExpiries(
+  updates: { kitId: string; itemId: string; batches: FirstAidExpiryBatch[] }[],
+): Promise<void> {
+  const byKit = new Map<string, Map<string, FirstAidExpiryBatch[]>>();
+  for (const { kitId, itemId, batches } of updates) {
+    if (!byKit.has(kitId)) byKit.set(kitId, new Map());
+    byKit.get(kitId)!.set(itemId, batches);
+  }
+  for (const [kitId, batchesByItem] of byKit) {
+    const kit = await getFirstAidKitById(kitId);
+    if (!kit) continue;
+    await updateFirstAidKit(kitId, {
+      entries: kit.entries.map((entry) => {
+        const batches = batchesByItem.get(entry.itemId);
+        if (!batches) return entry;
+        return {
+          ...entry,
+          expiryBatches: batches.length > 0 ? batches : undefined,
+        };
+      }),
+    }, kit);
+  }
+}
+
+/**
+ * Saves what a check found, one record per kit, all or nothing. Records are
+ * kept when a kit is deleted so past checks stay auditable.
+ */
+export async function recordFirstAidCheckHistory(
+  records: FirstAidCheckRecord[],
+): Promise<void> {
+  if (records.length === 0) return;
+  const db = await initKv();
+  const op = db.atomic();
+  for (const record of records) {
+    op.set(
+      [...KEYS.firstAidCheckHistory, record.kitId, record.checkId],
+      record,
+    );
+  }
+  const result = await op.commit();
+  if (!result.ok) throw new Error("Failed to save first aid check history");
+}
+
+/** Every recorded check of every kit, for backups. */
+export async function getAllFirstAidCheckHistory(): Promise<
+  FirstAidCheckRecord[]
+> {
+  const db = await initKv();
+  const records: FirstAidCheckRecord[] = [];
+  for await (
+    const entry of db.list<FirstAidCheckRecord>({
+      prefix: KEYS.firstAidCheckHistory,
+    })
+  ) {
+    records.push(entry.value);
+  }
+  return records;
+}
+
+/** Every recorded check of a kit, newest first. */
+export async function getFirstAidCheckHistory(
+  kitId: string,
+): Promise<FirstAidCheckRecord[]> {
+  const db = await initKv();
+  const records: FirstAidCheckRecord[] = [];
+  for await (
+    const entry of db.list<FirstAidCheckRecord>({
+      prefix: [...KEYS.firstAidCheckHistory, kitId],
+    })
+  ) {
+    records.push(entry.value);
+  }
+  return records.sort((a, b) => b.checkedAt.getTime() - a.checkedAt.getTime());
+}
+
+export async function getFirstAidCheckRecord(
+  kitId: string,
+  checkId: string,
+): Promise<FirstAidCheckRecord | null> {
+  const db = await initKv();
+  const result = await db.get<FirstAidCheckRecord>([
+    ...KEYS.firstAidCheckHistory,
+    kitId,
+    checkId,
+  ]);
+  return result.value;
+}
+
 export async function dismissFirstAidOverallCheckReminder(): Promise<void> {
   const db = await initKv();
   const current = await getFirstAidOverallCheckState();
@@ -2288,41 +4116,289 @@ export async function createFirstAidCatalogItem(
   return { ...item, section };
 }
 
-export async function updateFirstAidCatalogItem(
-  id: string,
-  updates: Partial<FirstAidCatalogItem>,
-): Promise<FirstAidCatalogItem | null> {
+export async function updateFirstAidCatalogItem(
+  id: string,
+  updates: Partial<FirstAidCatalogItem>,
+): Promise<FirstAidCatalogItem | null> {
+  const db = await initKv();
+  const existing = await db.get<FirstAidCatalogItem>([
+    ...KEYS.firstAidCatalog,
+    id,
+  ]);
+  if (!existing.value) return null;
+
+  const updated: FirstAidCatalogItem = {
+    ...existing.value,
+    ...updates,
+    id,
+  };
+  const section =
+    (FIRST_AID_SECTIONS as readonly string[]).includes(updated.section)
+      ? updated.section
+      : "General";
+  await db.set([...KEYS.firstAidCatalog, id], { ...updated, section });
+  invalidateFirstAidCatalogCache();
+  return { ...updated, section };
+}
+
+export async function deleteFirstAidCatalogItem(id: string): Promise<boolean> {
+  const db = await initKv();
+  const existing = await db.get<FirstAidCatalogItem>([
+    ...KEYS.firstAidCatalog,
+    id,
+  ]);
+  if (!existing.value) return false;
+  await db.delete([...KEYS.firstAidCatalog, id]);
+  invalidateFirstAidCatalogCache();
+  return true;
+}
+
+// ===== FIRST AID PROFILES =====
+
+/**
+ * Kit profiles, by label. The built-in profiles are written on first read;
+ * after that admins can edit or delete them like any other.
+ */
+export async function getAllFirstAidProfiles(): Promise<FirstAidKitProfile[]> {
+  const db = await initKv();
+  const seeded = await db.get<boolean>(KEYS.firstAidProfilesSeeded);
+  if (!seeded.value) {
+    const op = db.atomic().check(seeded).set(KEYS.firstAidProfilesSeeded, true);
+    for (const profile of FIRST_AID_PROFILES) {
+      op.set([...KEYS.firstAidProfiles, profile.id], profile);
+    }
+    await op.commit();
+  }
+  const profiles: FirstAidKitProfile[] = [];
+  for await (
+    const entry of db.list<FirstAidKitProfile>({
+      prefix: KEYS.firstAidProfiles,
+    })
+  ) {
+    profiles.push(entry.value);
+  }
+  return profiles.sort((a, b) =>
+    a.label.localeCompare(b.label, undefined, { numeric: true })
+  );
+}
+
+export async function getFirstAidProfileById(
+  id: string,
+): Promise<FirstAidKitProfile | null> {
+  const profiles = await getAllFirstAidProfiles();
+  return profiles.find((profile) => profile.id === id) ?? null;
+}
+
+/** Creates or replaces a profile. */
+export async function saveFirstAidProfile(
+  profile: FirstAidKitProfile,
+): Promise<FirstAidKitProfile> {
+  const db = await initKv();
+  await db.set([...KEYS.firstAidProfiles, profile.id], profile);
+  return profile;
+}
+
+/** Deletes a profile. Kits built from it keep their entries. */
+export async function deleteFirstAidProfile(id: string): Promise<void> {
+  const db = await initKv();
+  await db.delete([...KEYS.firstAidProfiles, id]);
+}
+
+// ===== FIRST AID STOCK =====
+
+/** The central box of refills, one entry per catalog item held. */
+export async function getFirstAidStock(): Promise<FirstAidStockEntry[]> {
+  const db = await initKv();
+  const entries: FirstAidStockEntry[] = [];
+  for await (
+    const entry of db.list<FirstAidStockEntry>({ prefix: KEYS.firstAidStock })
+  ) {
+    entries.push(entry.value);
+  }
+  return entries;
+}
+
+/** Adds refills to the central box. Returns the entry after the change. */
+export async function receiveFirstAidStock(
+  itemId: string,
+  quantity: number,
+  expiryDate: string | undefined,
+  username: string,
+): Promise<FirstAidStockEntry> {
+  const db = await initKv();
+  const key = [...KEYS.firstAidStock, itemId];
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const current = await db.get<FirstAidStockEntry>(key);
+    const next = addToStock(
+      current.value,
+      itemId,
+      quantity,
+      expiryDate,
+      username,
+    );
+    const result = await db.atomic().check(current).set(key, next).commit();
+    if (result.ok) return next;
+  }
+  throw new Error("Failed to update first aid stock");
+}
+
+/** Throws out an entry's expired batches. Returns how many were removed. */
+export async function removeExpiredFirstAidStock(
+  itemId: string,
+  today: string,
+  username: string,
+): Promise<number> {
+  const db = await initKv();
+  const key = [...KEYS.firstAidStock, itemId];
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const current = await db.get<FirstAidStockEntry>(key);
+    if (!current.value) return 0;
+    const expired = expiredStock(current.value, today);
+    const removed = expired.reduce((sum, batch) => sum + batch.quantity, 0);
+    if (removed === 0) return 0;
+    const kept = current.value.expiryBatches!.filter((batch) =>
+      !expired.includes(batch)
+    );
+    const op = db.atomic().check(current);
+    if (current.value.quantity - removed <= 0) {
+      op.delete(key);
+    } else {
+      op.set(key, {
+        ...current.value,
+        quantity: current.value.quantity - removed,
+        expiryBatches: kept.length > 0 ? kept : undefined,
+        updatedBy: username,
+        updatedAt: new Date(),
+      });
+    }
+    const result = await op.commit();
+    if (result.ok) return removed;
+  }
+  throw new Error("Failed to update first aid stock");
+}
+
+export async function deleteFirstAidStock(itemId: string): Promise<void> {
   const db = await initKv();
-  const existing = await db.get<FirstAidCatalogItem>([
-    ...KEYS.firstAidCatalog,
-    id,
-  ]);
-  if (!existing.value) return null;
+  await db.delete([...KEYS.firstAidStock, itemId]);
+}
 
-  const updated: FirstAidCatalogItem = {
-    ...existing.value,
-    ...updates,
-    id,
-  };
-  const section =
-    (FIRST_AID_SECTIONS as readonly string[]).includes(updated.section)
-      ? updated.section
-      : "General";
-  await db.set([...KEYS.firstAidCatalog, id], { ...updated, section });
-  invalidateFirstAidCatalogCache();
-  return { ...updated, section };
+/** Each current kit's most recent check record, in kit order. */
+export async function getLatestFirstAidCheckRecords(): Promise<
+  FirstAidCheckRecord[]
+> {
+  const kits = await getAllFirstAidKits();
+  const latest = await Promise.all(
+    kits.map(async (kit) => (await getFirstAidCheckHistory(kit.id))[0]),
+  );
+  return latest.filter((record): record is FirstAidCheckRecord => !!record);
 }
 
-export async function deleteFirstAidCatalogItem(id: string): Promise<boolean> {
+/**
+ * Refills every kit's outstanding shortages from the central box in one
+ * atomic write: stock is decremented, dated refills are added to the kit's
+ * expiry batches and each check record notes what was put back.
+ */
+export async function restockFirstAidKits(
+  username: string,
+  today: string,
+): Promise<FirstAidRestockPlan> {
   const db = await initKv();
-  const existing = await db.get<FirstAidCatalogItem>([
-    ...KEYS.firstAidCatalog,
-    id,
-  ]);
-  if (!existing.value) return false;
-  await db.delete([...KEYS.firstAidCatalog, id]);
-  invalidateFirstAidCatalogCache();
-  return true;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const kitIds = await getAllFirstAidKitIds();
+    const kitEntries = await Promise.all(
+      kitIds.map((id) => db.get<FirstAidKit>([...KEYS.firstAidKits, id])),
+    );
+    const latestEntries: Deno.KvEntry<FirstAidCheckRecord>[] = [];
+    for (const kitEntry of kitEntries) {
+      if (!kitEntry.value) continue;
+      let newest: Deno.KvEntry<FirstAidCheckRecord> | null = null;
+      for await (
+        const entry of db.list<FirstAidCheckRecord>({
+          prefix: [...KEYS.firstAidCheckHistory, kitEntry.value.id],
+        })
+      ) {
+        if (
+          !newest ||
+          entry.value.checkedAt.getTime() > newest.value.checkedAt.getTime()
+        ) newest = entry;
+      }
+      if (newest) latestEntries.push(newest);
+    }
+    const stockEntries = new Map<string, Deno.KvEntry<FirstAidStockEntry>>();
+    for await (
+      const entry of db.list<FirstAidStockEntry>({ prefix: KEYS.firstAidStock })
+    ) {
+      stockEntries.set(entry.value.itemId, entry);
+    }
+
+    const plan = planRestock(
+      pendingShortages(latestEntries.map((entry) => entry.value)),
+      [...stockEntries.values()].map((entry) => entry.value),
+      today,
+    );
+    if (plan.moves.length === 0) return plan;
+
+    const now = new Date();
+    const op = db.atomic();
+    for (const after of plan.stock) {
+      const entry = stockEntries.get(after.itemId)!;
+      op.check(entry);
+      if (after.quantity <= 0) {
+        op.delete(entry.key);
+      } else {
+        op.set(entry.key, { ...after, updatedBy: username, updatedAt: now });
+      }
+    }
+    for (const kitEntry of kitEntries) {
+      const moves = plan.moves.filter((move) =>
+        move.kitId === kitEntry.value?.id
+      );
+      if (moves.length === 0) continue;
+      const kit = deserializeFirstAidKit(kitEntry.value);
+      op.check(kitEntry).set(
+        kitEntry.key,
+        serializeFirstAidKit({
+          ...kit,
+          entries: kit.entries.map((kitLine) => {
+            const dated = moves
+              .filter((move) => move.itemId === kitLine.itemId)
+              .flatMap((move) => move.batches);
+            return dated.length > 0
+              ? {
+                ...kitLine,
+                expiryBatches: mergeExpiryBatches(
+                  kitLine.expiryBatches ?? [],
+                  dated,
+                ),
+              }
+              : kitLine;
+          }),
+          lastUpdated: now,
+        }),
+      );
+    }
+    for (const recordEntry of latestEntries) {
+      const moves = plan.moves.filter((move) =>
+        move.kitId === recordEntry.value.kitId
+      );
+      if (moves.length === 0) continue;
+      const restocked = { ...recordEntry.value.restocked };
+      for (const move of moves) {
+        restocked[move.itemId] = (restocked[move.itemId] ?? 0) + move.quantity;
+      }
+      op.check(recordEntry).set(recordEntry.key, {
+        ...recordEntry.value,
+        restocked,
+        restockedAt: now,
+      });
+    }
+    const result = await op.commit();
+    if (result.ok) {
+      invalidateFirstAidKitsCache();
+      return plan;
+    }
+  }
+  throw new Error("First aid stock changed while restocking. Try again.");
 }
 
 // ===== RISK ASSESSMENTS =====
@@ -2744,19 +4820,324 @@ export async function deleteMeal(id: string): Promise<boolean> {
   return true;
 }
 
+// ===== NOTIFICATION SETTINGS =====
+
+/** Saved channel routing, or null while the env-var defaults still apply. */
+export async function getNotificationSettings(): Promise<
+  NotificationSettings | null
+> {
+  const db = await initKv();
+  const entry = await db.get<NotificationSettings>(KEYS.notificationSettings);
+  return entry.value;
+}
+
+export async function saveNotificationSettings(
+  settings: NotificationSettings,
+): Promise<void> {
+  const db = await initKv();
+  await db.set(KEYS.notificationSettings, settings);
+}
+
+// ===== DEPRECIATION POLICY =====
+
+/** Per-category depreciation rules, with defaults for any not yet saved. */
+export async function getDepreciationPolicy(): Promise<DepreciationPolicy> {
+  const db = await initKv();
+  const entry = await db.get<Partial<DepreciationPolicy>>(
+    KEYS.depreciationPolicy,
+  );
+  return normalizeDepreciationPolicy(entry.value);
+}
+
+export async function saveDepreciationPolicy(
+  policy: DepreciationPolicy,
+): Promise<void> {
+  const db = await initKv();
+  await db.set(KEYS.depreciationPolicy, policy);
+}
+
+// ===== BUDGETS =====
+
+export async function getAllBudgets(): Promise<Budget[]> {
+  const db = await initKv();
+  const budgets: Budget[] = [];
+  for await (const entry of db.list<Budget>({ prefix: KEYS.budgets })) {
+    budgets.push(entry.value);
+  }
+  return budgets;
+}
+
+export async function getBudget(year: number): Promise<Budget | null> {
+  const db = await initKv();
+  const result = await db.get<Budget>([...KEYS.budgets, year]);
+  return result.value ?? null;
+}
+
+export async function saveBudget(budget: Budget): Promise<void> {
+  const db = await initKv();
+  await db.set([...KEYS.budgets, budget.year], budget);
+}
+
+// ===== SHOPPING LISTS =====
+
+export async function getAllShoppingLists(): Promise<ShoppingList[]> {
+  const db = await initKv();
+  const lists: ShoppingList[] = [];
+  for await (
+    const entry of db.list<ShoppingList>({ prefix: KEYS.shoppingLists })
+  ) {
+    lists.push(entry.value);
+  }
+  return lists;
+}
+
+export async function getShoppingList(
+  campId: string,
+): Promise<ShoppingList | null> {
+  const db = await initKv();
+  const result = await db.get<ShoppingList>([...KEYS.shoppingLists, campId]);
+  return result.value ?? null;
+}
+
+/** A completion that hasn't finished in this long is taken to have failed. */
+const SHOPPING_COMPLETION_STALE_MS = 10 * 60 * 1000;
+
+function isCompleting(list: ShoppingList): boolean {
+  return !!list.completingAt &&
+    Date.now() - new Date(list.completingAt).getTime() <
+      SHOPPING_COMPLETION_STALE_MS;
+}
+
+/**
+ * Replaces the camp's list with a fresh one, nothing ticked. A list that has
+ * ticks or has been completed is only replaced when `replace` is set; one
+ * being completed right now never is.
+ */
+export async function saveShoppingList(
+  campId: string,
+  lines: Pick<ShoppingListItem, "name" | "quantity" | "amount" | "itemId">[],
+  username: string,
+  replace = false,
+): Promise<ShoppingList> {
+  const list: ShoppingList = {
+    campId,
+    items: lines.map((line) => ({
+      ...line,
+      id: crypto.randomUUID(),
+      bought: false,
+    })),
+    createdBy: username.toLowerCase(),
+    createdAt: new Date().toISOString(),
+  };
+  const db = await initKv();
+  const key = [...KEYS.shoppingLists, campId];
+  const existing = await db.get<ShoppingList>(key);
+  if (existing.value && isCompleting(existing.value)) {
+    throw new Error(
+      "The shopping list is being put into stock. Try again shortly.",
+    );
+  }
+  if (!replace && shoppingListInUse(existing.value)) {
+    throw new Error(
+      existing.value?.completedAt
+        ? "The current shopping list has been completed. Confirm to replace it."
+        : "The current shopping list has ticked lines. Confirm to replace it.",
+    );
+  }
+  const result = await db.atomic().check(existing).set(key, list).commit();
+  if (!result.ok) {
+    throw new Error("The list was changed by someone else. Please try again.");
+  }
+  return list;
+}
+
+/**
+ * Ticks or unticks one line. Several people can shop from the same list, so
+ * the write is checked and retried rather than overwriting another tick.
+ * Returns null when the list or line no longer exists.
+ */
+export async function setShoppingItemBought(
+  campId: string,
+  lineId: string,
+  bought: boolean,
+): Promise<ShoppingList | null> {
+  const db = await initKv();
+  const key = [...KEYS.shoppingLists, campId];
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const res = await db.get<ShoppingList>(key);
+    const list = res.value;
+    if (!list || !list.items.some((line) => line.id === lineId)) return null;
+    const updated: ShoppingList = {
+      ...list,
+      items: list.items.map((line) =>
+        line.id === lineId ? { ...line, bought } : line
+      ),
+    };
+    const result = await db.atomic().check(res).set(key, updated).commit();
+    if (result.ok) return updated;
+  }
+  throw new Error("The list was changed by someone else. Please try again.");
+}
+
+/**
+ * Applies `change` to the saved list, checked and retried so ticks saved in
+ * the meantime are kept. Returns null when the list no longer exists.
+ */
+async function changeShoppingList(
+  key: Deno.KvKey,
+  change: (list: ShoppingList) => ShoppingList,
+): Promise<ShoppingList | null> {
+  const db = await initKv();
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const res = await db.get<ShoppingList>(key);
+    if (!res.value) return null;
+    const updated = change(res.value);
+    const result = await db.atomic().check(res).set(key, updated).commit();
+    if (result.ok) return updated;
+  }
+  throw new Error("The list was changed by someone else. Please try again.");
+}
+
+/**
+ * Finishes the shop: each receipt is added to its line's food item as a new
+ * batch, then the list is marked complete. The list is claimed first with a
+ * checked write, so a second submit can't add the same batches. Each line is
+ * marked as stocked straight after its batch, so if one fails the lines
+ * already stocked aren't added twice when the form is sent again.
+ */
+export async function completeShoppingList(
+  campId: string,
+  receipts: { lineId: string; quantity: number; expiryDate: Date }[],
+  username: string,
+): Promise<ShoppingList | null> {
+  const key = [...KEYS.shoppingLists, campId];
+  const claimed = await changeShoppingList(key, (list) => {
+    if (list.completedAt) {
+      throw new Error("This shopping list has already been completed.");
+    }
+    if (isCompleting(list)) {
+      throw new Error("This shopping list is already being completed.");
+    }
+    return { ...list, completingAt: new Date().toISOString() };
+  });
+  if (!claimed) return null;
+
+  try {
+    for (const receipt of receipts) {
+      const line = claimed.items.find((l) => l.id === receipt.lineId);
+      if (!line?.itemId || !line.bought || line.addedToStock) continue;
+      await addFoodBatch(line.itemId, {
+        quantity: receipt.quantity,
+        expiryDate: receipt.expiryDate,
+        notes: "Camp shopping",
+      }, {
+        username,
+        source: "purchase",
+        details: `Bought ${receipt.quantity} from a camp shopping list`,
+      });
+      await changeShoppingList(key, (list) => ({
+        ...list,
+        items: list.items.map((l) =>
+          l.id === line.id ? { ...l, addedToStock: receipt.quantity } : l
+        ),
+      }));
+    }
+  } catch (err) {
+    await changeShoppingList(key, (list) => ({
+      ...list,
+      completingAt: undefined,
+    }));
+    throw err;
+  }
+
+  return await changeShoppingList(key, (list) => ({
+    ...list,
+    completedBy: username.toLowerCase(),
+    completedAt: new Date().toISOString(),
+    completingAt: undefined,
+  }));
+}
+
+// ===== TREND SNAPSHOTS =====
+
+export async function getAllStatsSnapshots(): Promise<StatsSnapshot[]> {
+  const db = await initKv();
+  const snapshots: StatsSnapshot[] = [];
+  for await (
+    const entry of db.list<StatsSnapshot>({ prefix: KEYS.statsSnapshots })
+  ) {
+    snapshots.push(entry.value);
+  }
+  return snapshots;
+}
+
+/** Snapshots from `since` (YYYY-MM-DD) onwards, oldest first. */
+export async function getStatsSnapshots(
+  since: string,
+): Promise<StatsSnapshot[]> {
+  const db = await initKv();
+  const snapshots: StatsSnapshot[] = [];
+  const iter = db.list<StatsSnapshot>({
+    start: [...KEYS.statsSnapshots, since],
+    end: [...KEYS.statsSnapshots, "\uffff"],
+  });
+  for await (const entry of iter) snapshots.push(entry.value);
+  return snapshots;
+}
+
+export async function getLatestStatsSnapshot(): Promise<
+  StatsSnapshot | null
+> {
+  const db = await initKv();
+  const iter = db.list<StatsSnapshot>(
+    { prefix: KEYS.statsSnapshots },
+    { limit: 1, reverse: true },
+  );
+  for await (const entry of iter) return entry.value;
+  return null;
+}
+
+/**
+ * Stores today's snapshot of the dashboard figures, replacing any taken
+ * earlier the same day.
+ */
+export async function recordStatsSnapshot(
+  now = new Date(),
+): Promise<StatsSnapshot> {
+  const [stats, neckers, loans, foodItems, latest] = await Promise.all([
+    getComputedStats(),
+    getNeckerMetrics(),
+    getAllCheckOuts(),
+    getFoodItemsSortedByExpiry(),
+    getLatestStatsSnapshot(),
+  ]);
+  const snapshot = buildStatsSnapshot(
+    { stats, neckers, loans, foodItems, previous: latest },
+    now,
+  );
+  // A second run the same day adds to that day's waste rather than restarting it
+  if (latest?.date === snapshot.date) {
+    snapshot.newlyExpiredQuantity += latest.newlyExpiredQuantity;
+  }
+  const db = await initKv();
+  await db.set([...KEYS.statsSnapshots, snapshot.date], snapshot);
+  return snapshot;
+}
+
 // ===== DATABASE CLEANUP =====
 
 export interface CleanUpReport {
   /** Secondary index entries that pointed to deleted items, now removed. */
   orphanedIndexes: number;
-  /** Returned loan records older than retainMonths, now purged. */
+  /** Returned loans and no-show reservations older than retainMonths, now purged. */
   oldReturnedLoans: number;
 }
 
 /**
  * Removes stale data that accumulates over time:
  *  1. Orphaned secondary index entries (item deleted but index entry left behind)
- *  2. Returned loan records older than `retainMonths` months (default: 6)
+ *  2. Returned loans and no-show reservations older than `retainMonths`
+ *     months (default: 6)
  *
  * Safe to run at any time — does not touch active items, active loans, or stats.
  */
@@ -2780,13 +5161,14 @@ export async function cleanUpDb(retainMonths = 6): Promise<CleanUpReport> {
     }
   }
 
-  // 2. Old returned loans
+  // 2. Old returned loans and no-show reservations
   for await (const entry of db.list<CheckOut>({ prefix: KEYS.checkouts })) {
     const checkout = deserializeCheckOut(entry.value);
     if (
-      checkout.status === "returned" &&
-      checkout.actualReturnDate &&
-      new Date(checkout.actualReturnDate as unknown as string) < cutoff
+      (checkout.status === "returned" &&
+        checkout.actualReturnDate &&
+        new Date(checkout.actualReturnDate as unknown as string) < cutoff) ||
+      (checkout.status === "no-show" && checkout.expectedReturnDate < cutoff)
     ) {
       deleteOps.push(db.delete(entry.key));
       oldReturnedLoans++;
@@ -2810,8 +5192,8 @@ export interface ClearReport {
 }
 
 /**
- * Deletes all inventory items and their secondary indexes.
- * Resets the necker count and computed stats to zero.
+ * Deletes all inventory items, their secondary indexes and version history,
+ * and the purchase requests for them. Resets the necker count and computed stats to zero.
  */
 export async function clearInventoryData(): Promise<ClearReport> {
   const db = await initKv();
@@ -2829,6 +5211,19 @@ export async function clearInventoryData(): Promise<ClearReport> {
     report.indexes++;
   }
 
+  for await (const entry of db.list({ prefix: KEYS.units })) {
+    deleteOps.push(db.delete(entry.key));
+  }
+
+  // Version history of cleared items must not be revertable afterwards
+  for await (const entry of db.list({ prefix: KEYS.itemHistory })) {
+    deleteOps.push(db.delete(entry.key));
+  }
+
+  for await (const entry of db.list({ prefix: KEYS.purchaseRequests })) {
+    deleteOps.push(db.delete(entry.key));
+  }
+
   // Reset scalar keys
   deleteOps.push(db.delete(KEYS.neckers));
   deleteOps.push(db.delete(KEYS.neckersCreated));
@@ -2842,13 +5237,20 @@ export async function clearInventoryData(): Promise<ClearReport> {
   return report;
 }
 
-/** Deletes all loan/checkout records and resets the active loans count. */
+/**
+ * Deletes all loan/checkout records and the borrower directory, and resets
+ * the active loans count. Returns the number of loan records deleted.
+ */
 export async function clearLoans(): Promise<number> {
   const db = await initKv();
   const deleteOps: Promise<void>[] = [];
   for await (const entry of db.list({ prefix: KEYS.checkouts })) {
     deleteOps.push(db.delete(entry.key));
   }
+  const loanCount = deleteOps.length;
+  for await (const entry of db.list({ prefix: KEYS.borrowers })) {
+    deleteOps.push(db.delete(entry.key));
+  }
   // Reset activeLoansCount in computed stats
   const current = await db.get<ComputedStats>(KEYS.computedStats);
   const stats = current.value ?? emptyStats();
@@ -2860,16 +5262,19 @@ export async function clearLoans(): Promise<number> {
   );
   await Promise.all(deleteOps);
   invalidateCheckoutsCache();
-  return deleteOps.length - 1; // exclude the stats set
+  return loanCount;
 }
 
-/** Deletes all camp plans and templates. */
+/** Deletes all camp plans, their shopping lists and templates. */
 export async function clearCamps(): Promise<number> {
   const db = await initKv();
   const deleteOps: Promise<void>[] = [];
   for await (const entry of db.list({ prefix: KEYS.camps })) {
     deleteOps.push(db.delete(entry.key));
   }
+  for await (const entry of db.list({ prefix: KEYS.shoppingLists })) {
+    deleteOps.push(db.delete(entry.key));
+  }
   for await (const entry of db.list({ prefix: KEYS.templates })) {
     deleteOps.push(db.delete(entry.key));
   }
@@ -2915,15 +5320,53 @@ export async function replaceAllFromInventoryBackup(
   for await (const entry of db.list({ prefix: ["inventory", "photos"] })) {
     deleteKeys.push(entry.key);
   }
+  for await (const entry of db.list({ prefix: KEYS.units })) {
+    deleteKeys.push(entry.key);
+  }
+  // Pre-restore versions would let a revert bring back replaced data
+  for await (const entry of db.list({ prefix: KEYS.itemHistory })) {
+    deleteKeys.push(entry.key);
+  }
   for await (const entry of db.list({ prefix: KEYS.checkouts })) {
     deleteKeys.push(entry.key);
   }
+  // Older backups carry no borrowers — the directory is rebuilt from the
+  // restored loans when the seeded flag is cleared with them.
+  for await (const entry of db.list({ prefix: KEYS.borrowers })) {
+    deleteKeys.push(entry.key);
+  }
+  deleteKeys.push(KEYS.borrowersSeeded as unknown as Deno.KvKey);
+  // Older backups carry no locations — keep the current registry for those.
+  if (snapshot.storageLocations.length > 0) {
+    for await (const entry of db.list({ prefix: KEYS.storageLocations })) {
+      deleteKeys.push(entry.key);
+    }
+  }
+  if (snapshot.storageSpaces.length > 0) {
+    for await (const entry of db.list({ prefix: KEYS.storageSpaces })) {
+      deleteKeys.push(entry.key);
+    }
+  }
+  if (snapshot.budgets.length > 0) {
+    for await (const entry of db.list({ prefix: KEYS.budgets })) {
+      deleteKeys.push(entry.key);
+    }
+  }
+  // Older backups carry no trend history — keep the current one for those.
+  if (snapshot.statsSnapshots.length > 0) {
+    for await (const entry of db.list({ prefix: KEYS.statsSnapshots })) {
+      deleteKeys.push(entry.key);
+    }
+  }
   for await (const entry of db.list({ prefix: KEYS.camps })) {
     deleteKeys.push(entry.key);
   }
   for await (const entry of db.list({ prefix: KEYS.templates })) {
     deleteKeys.push(entry.key);
   }
+  for await (const entry of db.list({ prefix: KEYS.shoppingLists })) {
+    deleteKeys.push(entry.key);
+  }
   for await (const entry of db.list({ prefix: KEYS.firstAidKits })) {
     deleteKeys.push(entry.key);
   }
@@ -2933,6 +5376,18 @@ export async function replaceAllFromInventoryBackup(
   for await (const entry of db.list({ prefix: KEYS.firstAidChecks })) {
     deleteKeys.push(entry.key);
   }
+  for await (const entry of db.list({ prefix: KEYS.firstAidCheckHistory })) {
+    deleteKeys.push(entry.key);
+  }
+  for await (const entry of db.list({ prefix: KEYS.firstAidStock })) {
+    deleteKeys.push(entry.key);
+  }
+  // Older backups carry no kit profiles — keep the current ones for those.
+  if (snapshot.firstAidProfiles.length > 0) {
+    for await (const entry of db.list({ prefix: KEYS.firstAidProfiles })) {
+      deleteKeys.push(entry.key);
+    }
+  }
   for await (const entry of db.list({ prefix: KEYS.riskAssessments })) {
     deleteKeys.push(entry.key);
   }
@@ -2942,6 +5397,9 @@ export async function replaceAllFromInventoryBackup(
   for await (const entry of db.list({ prefix: KEYS.feedbackRequests })) {
     deleteKeys.push(entry.key);
   }
+  for await (const entry of db.list({ prefix: KEYS.purchaseRequests })) {
+    deleteKeys.push(entry.key);
+  }
 
   deleteKeys.push(KEYS.neckers as unknown as Deno.KvKey);
   deleteKeys.push(KEYS.neckersCreated as unknown as Deno.KvKey);
@@ -2969,11 +5427,34 @@ export async function replaceAllFromInventoryBackup(
       )
     );
   }
+  for (const unit of snapshot.itemUnits) {
+    writeOps.push(() =>
+      db.set([...KEYS.units, unit.itemId, unit.id], serializeItemUnit(unit))
+    );
+  }
   for (const checkout of snapshot.checkOuts) {
     writeOps.push(() =>
       db.set([...KEYS.checkouts, checkout.id], serializeCheckOut(checkout))
     );
   }
+  for (const borrower of snapshot.borrowers) {
+    writeOps.push(() =>
+      db.set([...KEYS.borrowers, borrower.id], serializeBorrower(borrower))
+    );
+  }
+  if (snapshot.borrowers.length > 0) {
+    writeOps.push(() => db.set(KEYS.borrowersSeeded, true));
+  }
+  for (const loc of snapshot.storageLocations) {
+    writeOps.push(() =>
+      db.set([...KEYS.storageLocations, loc.id], serializeStorageLocation(loc))
+    );
+  }
+  for (const space of snapshot.storageSpaces) {
+    writeOps.push(() =>
+      db.set([...KEYS.storageSpaces, space.id], serializeStorageSpace(space))
+    );
+  }
   for (const plan of snapshot.campPlans) {
     writeOps.push(() =>
       db.set([...KEYS.camps, plan.id], serializeCampPlan(plan))
@@ -3009,6 +5490,25 @@ export async function replaceAllFromInventoryBackup(
       )
     );
   }
+  for (const profile of snapshot.firstAidProfiles) {
+    writeOps.push(() =>
+      db.set([...KEYS.firstAidProfiles, profile.id], profile)
+    );
+  }
+  if (snapshot.firstAidProfiles.length > 0) {
+    writeOps.push(() => db.set(KEYS.firstAidProfilesSeeded, true));
+  }
+  for (const stock of snapshot.firstAidStock) {
+    writeOps.push(() => db.set([...KEYS.firstAidStock, stock.itemId], stock));
+  }
+  for (const record of snapshot.firstAidCheckHistory) {
+    writeOps.push(() =>
+      db.set(
+        [...KEYS.firstAidCheckHistory, record.kitId, record.checkId],
+        record,
+      )
+    );
+  }
   for (const assessment of snapshot.riskAssessments) {
     writeOps.push(() =>
       db.set(
@@ -3025,6 +5525,30 @@ export async function replaceAllFromInventoryBackup(
       db.set([...KEYS.feedbackRequests, request.id], request)
     );
   }
+  for (const request of snapshot.purchaseRequests) {
+    writeOps.push(() =>
+      db.set([...KEYS.purchaseRequests, request.id], request)
+    );
+  }
+  for (const list of snapshot.shoppingLists) {
+    writeOps.push(() => db.set([...KEYS.shoppingLists, list.campId], list));
+  }
+  for (const budget of snapshot.budgets) {
+    writeOps.push(() => db.set([...KEYS.budgets, budget.year], budget));
+  }
+  for (const stats of snapshot.statsSnapshots) {
+    writeOps.push(() => db.set([...KEYS.statsSnapshots, stats.date], stats));
+  }
+  const { depreciationPolicy } = snapshot;
+  if (depreciationPolicy) {
+    writeOps.push(() => db.set(KEYS.depreciationPolicy, depreciationPolicy));
+  }
+  const { notificationSettings } = snapshot;
+  if (notificationSettings) {
+    writeOps.push(() =>
+      db.set(KEYS.notificationSettings, notificationSettings)
+    );
+  }
 
   writeOps.push(() =>
     db.set(KEYS.neckers, Math.max(0, snapshot.neckers.inStock))
@@ -3052,6 +5576,8 @@ export async function replaceAllFromInventoryBackup(
 
   invalidateItemsCache();
   invalidateCheckoutsCache();
+  invalidateStorageLocationsCache();
+  invalidateStorageSpacesCache();
   invalidateCampPlansCache();
   invalidateTemplatesCache();
   invalidateFirstAidKitsCache();
@@ -6,6 +6,7 @@ import * as $_404 from "./routes/_404.tsx";
 import * as $_app from "./routes/_app.tsx";
 import * as $_middleware from "./routes/_middleware.ts";
 import * as $account_feedback from "./routes/account/feedback.tsx";
+import * as $account_inbox from "./routes/account/inbox.tsx";
 import * as $account_settings from "./routes/account/settings.tsx";
 import * as $admin_middleware from "./routes/admin/_middleware.ts";
 import * as $admin_activity from "./routes/admin/activity.tsx";
@@ -13,20 +14,28 @@ import * as $admin_admin_panel from "./routes/admin/admin-panel.tsx";
 import * as $admin_backup from "./routes/admin/backup.ts";
 import * as $admin_cleanup from "./routes/admin/cleanup.ts";
 import * as $admin_clear_db from "./routes/admin/clear-db.ts";
+import * as $admin_export_activity from "./routes/admin/export-activity.ts";
+import * as $admin_export_insurance from "./routes/admin/export-insurance.ts";
 import * as $admin_export_json from "./routes/admin/export-json.ts";
 import * as $admin_export_templates_json from "./routes/admin/export-templates-json.ts";
 import * as $admin_export from "./routes/admin/export.ts";
 import * as $admin_feedback from "./routes/admin/feedback.tsx";
 import * as $admin_import_templates from "./routes/admin/import-templates.ts";
 import * as $admin_import from "./routes/admin/import.ts";
+import * as $admin_insurance from "./routes/admin/insurance.tsx";
+import * as $admin_insurance_print from "./routes/admin/insurance/print.tsx";
+import * as $admin_locations from "./routes/admin/locations.tsx";
+import * as $admin_notifications from "./routes/admin/notifications.tsx";
 import * as $admin_notify from "./routes/admin/notify.ts";
 import * as $admin_rebuild_indexes from "./routes/admin/rebuild-indexes.ts";
 import * as $admin_restore_backup from "./routes/admin/restore-backup.ts";
+import * as $admin_spaces from "./routes/admin/spaces.tsx";
 import * as $admin_stocktake from "./routes/admin/stocktake.tsx";
 import * as $api_middleware from "./routes/api/_middleware.ts";
 import * as $api_camp_templates_id_ from "./routes/api/camp-templates/[id].ts";
 import * as $api_camp_templates_index from "./routes/api/camp-templates/index.ts";
 import * as $api_camps_id_ from "./routes/api/camps/[id].ts";
+import * as $api_camps_id_shopping from "./routes/api/camps/[id]/shopping.ts";
 import * as $api_camps_index from "./routes/api/camps/index.ts";
 import * as $api_compliance_counts from "./routes/api/compliance/counts.ts";
 import * as $api_easter_egg from "./routes/api/easter-egg.ts";
@@ -52,24 +61,37 @@ import * as $api_stats from "./routes/api/stats.ts";
 import * as $api_stocktake from "./routes/api/stocktake.ts";
 import * as $camps_id_ from "./routes/camps/[id].tsx";
 import * as $camps_id_edit from "./routes/camps/[id]/edit.tsx";
+import * as $camps_id_menu from "./routes/camps/[id]/menu.tsx";
 import * as $camps_id_print from "./routes/camps/[id]/print.tsx";
+import * as $camps_id_shopping from "./routes/camps/[id]/shopping.tsx";
+import * as $camps_id_shopping_export from "./routes/camps/[id]/shopping/export.ts";
+import * as $camps_id_shopping_print from "./routes/camps/[id]/shopping/print.tsx";
 import * as $camps_index from "./routes/camps/index.tsx";
 import * as $camps_new from "./routes/camps/new.tsx";
 import * as $camps_templates from "./routes/camps/templates.tsx";
 import * as $first_aid_catalog from "./routes/first-aid/catalog.tsx";
 import * as $first_aid_check from "./routes/first-aid/check.tsx";
+import * as $first_aid_history_kitId_ from "./routes/first-aid/history/[kitId].tsx";
+import * as $first_aid_history_kitId_print from "./routes/first-aid/history/[kitId]/print.tsx";
 import * as $first_aid_index from "./routes/first-aid/index.tsx";
 import * as $first_aid_print from "./routes/first-aid/print.tsx";
+import * as $first_aid_profiles_id_ from "./routes/first-aid/profiles/[id].tsx";
+import * as $first_aid_stock from "./routes/first-aid/stock.tsx";
+import * as $first_aid_stock_print from "./routes/first-aid/stock/print.tsx";
 import * as $greet_name_ from "./routes/greet/[name].tsx";
 import * as $index from "./routes/index.tsx";
 import * as $inventory_id_ from "./routes/inventory/[id].tsx";
+import * as $inventory_id_batches from "./routes/inventory/[id]/batches.tsx";
 import * as $inventory_id_maintenance from "./routes/inventory/[id]/maintenance.tsx";
 import * as $inventory_id_qr from "./routes/inventory/[id]/qr.tsx";
 import * as $inventory_id_scan from "./routes/inventory/[id]/scan.tsx";
+import * as $inventory_id_units from "./routes/inventory/[id]/units.tsx";
 import * as $inventory_add from "./routes/inventory/add.tsx";
 import * as $inventory_bulk_move from "./routes/inventory/bulk-move.tsx";
 import * as $inventory_edit_id_ from "./routes/inventory/edit/[id].tsx";
 import * as $inventory_index from "./routes/inventory/index.tsx";
+import * as $loans_borrowers_id_ from "./routes/loans/borrowers/[id].tsx";
+import * as $loans_borrowers_index from "./routes/loans/borrowers/index.tsx";
 import * as $loans_index from "./routes/loans/index.tsx";
 import * as $loans_new from "./routes/loans/new.tsx";
 import * as $login from "./routes/login.tsx";
@@ -77,7 +99,11 @@ import * as $meals_id_edit from "./routes/meals/[id]/edit.tsx";
 import * as $meals_index from "./routes/meals/index.tsx";
 import * as $meals_new from "./routes/meals/new.tsx";
 import * as $neckers from "./routes/neckers.tsx";
+import * as $purchasing_index from "./routes/purchasing/index.tsx";
+import * as $reports_budget from "./routes/reports/budget.tsx";
 import * as $reports_expiring from "./routes/reports/expiring.tsx";
+import * as $reports_trends from "./routes/reports/trends.tsx";
+import * as $reports_utilisation from "./routes/reports/utilisation.tsx";
 import * as $risk_assessments_id_edit from "./routes/risk-assessments/[id]/edit.tsx";
 import * as $risk_assessments_index from "./routes/risk-assessments/index.tsx";
 import * as $risk_assessments_print from "./routes/risk-assessments/print.tsx";
@@ -118,6 +144,7 @@ import * as $PrintButton from "./islands/PrintButton.tsx";
 import * as $RebuildIndexes from "./islands/RebuildIndexes.tsx";
 import * as $RestoreBackupForm from "./islands/RestoreBackupForm.tsx";
 import * as $RiskAssessmentForm from "./islands/RiskAssessmentForm.tsx";
+import * as $ShoppingChecklist from "./islands/ShoppingChecklist.tsx";
 import * as $SpaceDashboard from "./islands/SpaceDashboard.tsx";
 import * as $StocktakeWizard from "./islands/StocktakeWizard.tsx";
 import * as $TemplateAppendForm from "./islands/TemplateAppendForm.tsx";
@@ -133,6 +160,7 @@ const manifest = {
     "./routes/_app.tsx": $_app,
     "./routes/_middleware.ts": $_middleware,
     "./routes/account/feedback.tsx": $account_feedback,
+    "./routes/account/inbox.tsx": $account_inbox,
     "./routes/account/settings.tsx": $account_settings,
     "./routes/admin/_middleware.ts": $admin_middleware,
     "./routes/admin/activity.tsx": $admin_activity,
@@ -140,20 +168,28 @@ const manifest = {
     "./routes/admin/backup.ts": $admin_backup,
     "./routes/admin/cleanup.ts": $admin_cleanup,
     "./routes/admin/clear-db.ts": $admin_clear_db,
+    "./routes/admin/export-activity.ts": $admin_export_activity,
+    "./routes/admin/export-insurance.ts": $admin_export_insurance,
     "./routes/admin/export-json.ts": $admin_export_json,
     "./routes/admin/export-templates-json.ts": $admin_export_templates_json,
     "./routes/admin/export.ts": $admin_export,
     "./routes/admin/feedback.tsx": $admin_feedback,
     "./routes/admin/import-templates.ts": $admin_import_templates,
     "./routes/admin/import.ts": $admin_import,
+    "./routes/admin/insurance.tsx": $admin_insurance,
+    "./routes/admin/insurance/print.tsx": $admin_insurance_print,
+    "./routes/admin/locations.tsx": $admin_locations,
+    "./routes/admin/notifications.tsx": $admin_notifications,
     "./routes/admin/notify.ts": $admin_notify,
     "./routes/admin/rebuild-indexes.ts": $admin_rebuild_indexes,
     "./routes/admin/restore-backup.ts": $admin_restore_backup,
+    "./routes/admin/spaces.tsx": $admin_spaces,
     "./routes/admin/stocktake.tsx": $admin_stocktake,
     "./routes/api/_middleware.ts": $api_middleware,
     "./routes/api/camp-templates/[id].ts": $api_camp_templates_id_,
     "./routes/api/camp-templates/index.ts": $api_camp_templates_index,
     "./routes/api/camps/[id].ts": $api_camps_id_,
+    "./routes/api/camps/[id]/shopping.ts": $api_camps_id_shopping,
     "./routes/api/camps/index.ts": $api_camps_index,
     "./routes/api/compliance/counts.ts": $api_compliance_counts,
     "./routes/api/easter-egg.ts": $api_easter_egg,
@@ -180,24 +216,38 @@ const manifest = {
     "./routes/api/stocktake.ts": $api_stocktake,
     "./routes/camps/[id].tsx": $camps_id_,
     "./routes/camps/[id]/edit.tsx": $camps_id_edit,
+    "./routes/camps/[id]/menu.tsx": $camps_id_menu,
     "./routes/camps/[id]/print.tsx": $camps_id_print,
+    "./routes/camps/[id]/shopping.tsx": $camps_id_shopping,
+    "./routes/camps/[id]/shopping/export.ts": $camps_id_shopping_export,
+    "./routes/camps/[id]/shopping/print.tsx": $camps_id_shopping_print,
     "./routes/camps/index.tsx": $camps_index,
     "./routes/camps/new.tsx": $camps_new,
     "./routes/camps/templates.tsx": $camps_templates,
     "./routes/first-aid/catalog.tsx": $first_aid_catalog,
     "./routes/first-aid/check.tsx": $first_aid_check,
+    "./routes/first-aid/history/[kitId].tsx": $first_aid_history_kitId_,
+    "./routes/first-aid/history/[kitId]/print.tsx":
+      $first_aid_history_kitId_print,
     "./routes/first-aid/index.tsx": $first_aid_index,
     "./routes/first-aid/print.tsx": $first_aid_print,
+    "./routes/first-aid/profiles/[id].tsx": $first_aid_profiles_id_,
+    "./routes/first-aid/stock.tsx": $first_aid_stock,
+    "./routes/first-aid/stock/print.tsx": $first_aid_stock_print,
     "./routes/greet/[name].tsx": $greet_name_,
     "./routes/index.tsx": $index,
     "./routes/inventory/[id].tsx": $inventory_id_,
+    "./routes/inventory/[id]/batches.tsx": $inventory_id_batches,
     "./routes/inventory/[id]/maintenance.tsx": $inventory_id_maintenance,
     "./routes/inventory/[id]/qr.tsx": $inventory_id_qr,
     "./routes/inventory/[id]/scan.tsx": $inventory_id_scan,
+    "./routes/inventory/[id]/units.tsx": $inventory_id_units,
     "./routes/inventory/add.tsx": $inventory_add,
     "./routes/inventory/bulk-move.tsx": $inventory_bulk_move,
     "./routes/inventory/edit/[id].tsx": $inventory_edit_id_,
     "./routes/inventory/index.tsx": $inventory_index,
+    "./routes/loans/borrowers/[id].tsx": $loans_borrowers_id_,
+    "./routes/loans/borrowers/index.tsx": $loans_borrowers_index,
     "./routes/loans/index.tsx": $loans_index,
     "./routes/loans/new.tsx": $loans_new,
     "./routes/login.tsx": $login,
@@ -205,7 +255,11 @@ const manifest = {
     "./routes/meals/index.tsx": $meals_index,
     "./routes/meals/new.tsx": $meals_new,
     "./routes/neckers.tsx": $neckers,
+    "./routes/purchasing/index.tsx": $purchasing_index,
+    "./routes/reports/budget.tsx": $reports_budget,
     "./routes/reports/expiring.tsx": $reports_expiring,
+    "./routes/reports/trends.tsx": $reports_trends,
+    "./routes/reports/utilisation.tsx": $reports_utilisation,
     "./routes/risk-assessments/[id]/edit.tsx": $risk_assessments_id_edit,
     "./routes/risk-assessments/index.tsx": $risk_assessments_index,
     "./routes/risk-assessments/print.tsx": $risk_assessments_print,
@@ -248,6 +302,7 @@ const manifest = {
     "./islands/RebuildIndexes.tsx": $RebuildIndexes,
     "./islands/RestoreBackupForm.tsx": $RestoreBackupForm,
     "./islands/RiskAssessmentForm.tsx": $RiskAssessmentForm,
+    "./islands/ShoppingChecklist.tsx": $ShoppingChecklist,
     "./islands/SpaceDashboard.tsx": $SpaceDashboard,
     "./islands/StocktakeWizard.tsx": $StocktakeWizard,
     "./islands/TemplateAppendForm.tsx": $TemplateAppendForm,
@@ -1,42 +1,38 @@
 // Interactive island for bulk-moving inventory items to a new location.
 import { useSignal } from "@preact/signals";
-import {
-  GAS_STORAGE_LOCATIONS,
-  type InventoryItem,
-  ITEM_LOCATIONS,
-  type ItemLocation,
-  LOFT_LOCATIONS,
+import type {
+  InventoryItem,
+  ItemLocation,
+  ItemSpace,
+  LocationGroup,
+  StorageSpaceSummary,
 } from "../types/inventory.ts";
 
 interface BulkMoveItemsProps {
   items: InventoryItem[];
   csrfToken: string;
+  spaces: StorageSpaceSummary[];
+  /** Active locations from the registry, grouped per space */
+  locationGroups: Record<ItemSpace, LocationGroup[]>;
 }
 
-type Space = "camp-store" | "scout-post-loft" | "gas-storage-box";
-
-function getLocationsForSpace(space: Space) {
-  if (space === "scout-post-loft") return LOFT_LOCATIONS;
-  if (space === "gas-storage-box") return GAS_STORAGE_LOCATIONS;
-  return ITEM_LOCATIONS;
-}
+type Space = ItemSpace;
 
 export default function BulkMoveItems(
-  { items, csrfToken }: BulkMoveItemsProps,
+  { items, csrfToken, spaces, locationGroups: groupsBySpace }:
+    BulkMoveItemsProps,
 ) {
   const selectedIds = useSignal<Set<string>>(new Set());
   const search = useSignal("");
-  const space = useSignal<Space>("camp-store");
-  const allLocationGroups = getLocationsForSpace("camp-store");
-  const destSpace = useSignal<Space>("camp-store");
+  const destSpace = useSignal<Space>(spaces[0]?.id ?? "camp-store");
   const destLocation = useSignal<ItemLocation>(
-    ITEM_LOCATIONS[0].options[0],
+    groupsBySpace[destSpace.value]?.[0]?.options[0] ?? "",
   );
   const submitting = useSignal(false);
   const resultMsg = useSignal<{ ok: boolean; text: string } | null>(null);
 
-  function getLocationGroups(sp: Space) {
-    return getLocationsForSpace(sp);
+  function getLocationGroups(sp: Space): LocationGroup[] {
+    return groupsBySpace[sp] ?? [];
   }
 
   const filteredItems = () => {
@@ -72,7 +68,7 @@ export default function BulkMoveItems(
   function onSpaceChange(newSpace: Space) {
     destSpace.value = newSpace;
     const grps = getLocationGroups(newSpace);
-    destLocation.value = grps[0]?.options[0] ?? "" as ItemLocation;
+    destLocation.value = grps[0]?.options[0] ?? "";
   }
 
   async function handleSubmit() {
@@ -95,11 +91,16 @@ export default function BulkMoveItems(
       });
       const json = await res.json();
       if (res.ok) {
+        const skipped = json.total - json.succeeded;
         resultMsg.value = {
           ok: true,
           text: `✅ Moved ${json.succeeded} item${
             json.succeeded !== 1 ? "s" : ""
-          } to "${destLocation.value}".`,
+          } to "${destLocation.value}".${
+            skipped > 0
+              ? ` ${skipped} skipped — their category isn't allowed in that space.`
+              : ""
+          }`,
         };
         selectedIds.value = new Set();
       } else {
@@ -130,13 +131,7 @@ export default function BulkMoveItems(
               Space
             </p>
             <div class="flex gap-3">
-              {(
-                [
-                  { value: "camp-store", label: "Camp Store" },
-                  { value: "scout-post-loft", label: "Scout Post Loft" },
-                  { value: "gas-storage-box", label: "Gas Storage" },
-                ] as { value: Space; label: string }[]
-              ).map(({ value, label }) => (
+              {spaces.map(({ id: value, name: label }) => (
                 <label
                   key={value}
                   class="flex items-center gap-1.5 cursor-pointer text-sm text-gray-700 dark:text-gray-200"
@@ -163,7 +158,7 @@ export default function BulkMoveItems(
               onInput={(
                 e,
               ) => (destLocation.value = (e.target as HTMLSelectElement)
-                .value as ItemLocation)}
+                .value)}
               class="w-full text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-purple-500"
             >
               {locationGroups.map((group) => (
@@ -1,9 +1,12 @@
 // Calendar view for camp plans
 import { useSignal } from "@preact/signals";
 import type { CampPlan, CampPlanStatus } from "../types/inventory.ts";
+import type { CampConflict } from "../lib/campReservations.ts";
 
 interface CampCalendarProps {
   plans: CampPlan[];
+  /** Items each camp competes for with overlapping camps, keyed by plan id */
+  conflicts?: Record<string, CampConflict[]>;
 }
 
 const STATUS_COLORS: Record<CampPlanStatus, string> = {
@@ -47,7 +50,15 @@ function isSameDay(a: Date, b: Date): boolean {
   );
 }
 
-export default function CampCalendar({ plans: rawPlans }: CampCalendarProps) {
+function describeConflict(conflict: CampConflict): string {
+  return `${conflict.itemName}: ${conflict.demand} planned, ${conflict.available} available (also ${
+    conflict.holders.map((h) => h.planName).join(", ")
+  })`;
+}
+
+export default function CampCalendar(
+  { plans: rawPlans, conflicts = {} }: CampCalendarProps,
+) {
   const today = startOfDay(new Date());
   const currentYear = useSignal(today.getFullYear());
   const currentMonth = useSignal(today.getMonth());
@@ -216,6 +227,7 @@ export default function CampCalendar({ plans: rawPlans }: CampCalendarProps) {
                       STATUS_COLORS[camp.status as CampPlanStatus] ??
                         "bg-purple-500 text-white";
 
+                    const campConflicts = conflicts[camp.id] ?? [];
                     const continuesBefore = camp.campDate < weekStart;
                     const continuesAfter =
                       (camp.endDate ?? camp.campDate) > weekEnd;
@@ -225,6 +237,10 @@ export default function CampCalendar({ plans: rawPlans }: CampCalendarProps) {
                         key={`${camp.id}-w${wi}`}
                         href={`/camps/${camp.id}`}
                         class={`text-xs font-medium px-1.5 py-0.5 truncate transition-opacity hover:opacity-80 ${colorClass} ${
+                          campConflicts.length > 0
+                            ? "ring-2 ring-inset ring-red-600"
+                            : ""
+                        } ${
                           continuesBefore
                             ? "rounded-r"
                             : continuesAfter
@@ -234,9 +250,15 @@ export default function CampCalendar({ plans: rawPlans }: CampCalendarProps) {
                         style={{ gridColumn: `${startCol} / span ${span}` }}
                         title={`${camp.name}${
                           camp.location ? ` · ${camp.location}` : ""
+                        }${
+                          campConflicts.map((c) =>
+                            `\n⚠️ ${describeConflict(c)}`
+                          )
+                            .join("")
                         }`}
                       >
                         {continuesBefore ? "↩ " : ""}
+                        {campConflicts.length > 0 ? "⚠️ " : ""}
                         {camp.name}
                         {continuesAfter ? " →" : ""}
                       </a>
@@ -261,8 +283,43 @@ export default function CampCalendar({ plans: rawPlans }: CampCalendarProps) {
             {STATUS_LABELS[status]}
           </span>
         ))}
+        <span class="flex items-center gap-1.5">
+          <span class="w-3 h-3 rounded-sm inline-block ring-2 ring-inset ring-red-600" />
+          Kit conflict
+        </span>
       </div>
 
+      {/* Contended kit across overlapping camps */}
+      {plans.some((p) => conflicts[p.id]?.length) && (
+        <div class="mt-6 p-4 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-950/40">
+          <h3 class="text-sm font-semibold text-red-800 dark:text-red-200 mb-2">
+            ⚠️ Kit conflicts between overlapping camps
+          </h3>
+          <ul class="space-y-2 text-sm">
+            {plans
+              .filter((p) => conflicts[p.id]?.length)
+              .map((camp) => (
+                <li key={camp.id}>
+                  <a
+                    href={`/camps/${camp.id}`}
+                    class="font-medium text-red-700 dark:text-red-300 hover:underline"
+                  >
+                    {camp.name}
+                  </a>
+                  <span class="text-xs text-gray-500 dark:text-gray-400">
+                    {` · ${camp.campDate.toLocaleDateString("en-GB")}`}
+                  </span>
+                  <ul class="ml-4 list-disc text-gray-700 dark:text-gray-300">
+                    {conflicts[camp.id].map((c) => (
+                      <li key={c.itemId}>{describeConflict(c)}</li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+          </ul>
+        </div>
+      )}
+
       {/* Empty state */}
       {plans.length === 0 && (
         <div class="text-center py-8 text-gray-400 dark:text-gray-500 text-sm">
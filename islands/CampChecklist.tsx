@@ -7,6 +7,7 @@ import type {
   CampPlanStatus,
   CampTemplate,
   InventoryItem,
+  ItemUnitSummary,
 } from "../types/inventory.ts";
 import {
   CAMP_STORE_CATEGORIES,
@@ -19,6 +20,13 @@ import {
   LOFT_LOCATIONS,
 } from "../types/inventory.ts";
 import { formatDate } from "../lib/date-utils.ts";
+import {
+  availableForCamp,
+  type ItemReservation,
+  RESERVING_CAMP_STATUSES,
+  stockInStore,
+  totalReserved,
+} from "../lib/campReservations.ts";
 
 interface CampChecklistProps {
   plan: CampPlan;
@@ -26,6 +34,12 @@ interface CampChecklistProps {
   templates: CampTemplate[];
   canEdit: boolean;
   csrfToken?: string;
+  /** Non-retired units of unit-tracked items, keyed by item id */
+  units?: Record<string, ItemUnitSummary[]>;
+  /** What other camps on overlapping dates hold, keyed by item id */
+  reservations?: Record<string, ItemReservation[]>;
+  /** Quantity on loan due back before this camp starts, keyed by item id */
+  returningLoans?: Record<string, number>;
 }
 
 const BOX_LOCATIONS =
@@ -69,6 +83,9 @@ export default function CampChecklist(
     templates: initialTemplates,
     canEdit,
     csrfToken,
+    units = {},
+    reservations = {},
+    returningLoans = {},
   }: CampChecklistProps,
 ) {
   const plan = useSignal<CampPlan>(initialPlan);
@@ -281,9 +298,45 @@ export default function CampChecklist(
     patch({ status });
   }
 
+  /** Units that may be chosen for a plan entry: in store, or already on it. */
+  const selectableUnits = (item: CampPlanItem): ItemUnitSummary[] =>
+    (units[item.itemId] ?? []).filter((u) =>
+      u.status === "in-store" || item.unitIds?.includes(u.id)
+    );
+
+  /** Top up a tracked entry's unit selection to its planned quantity. */
+  function withUnitsPicked(item: CampPlanItem): CampPlanItem {
+    if (!units[item.itemId]) return item;
+    const picked = item.unitIds ?? [];
+    if (picked.length >= item.quantityPlanned) return item;
+    const extra = selectableUnits(item)
+      .filter((u) => !picked.includes(u.id))
+      .slice(0, item.quantityPlanned - picked.length)
+      .map((u) => u.id);
+    return { ...item, unitIds: [...picked, ...extra] };
+  }
+
+  function toggleUnit(itemId: string, unitId: string) {
+    const items = plan.value.items.map((i) => {
+      if (i.itemId !== itemId) return i;
+      const current = i.unitIds ?? [];
+      const unitIds = current.includes(unitId)
+        ? current.filter((id) => id !== unitId)
+        : [...current, unitId];
+      return unitIds.length > 0
+        ? { ...i, unitIds, quantityPlanned: unitIds.length }
+        : { ...i, unitIds: undefined, packedStatus: false };
+    });
+    patch({ items });
+  }
+
   function togglePacked(itemId: string) {
     const items = plan.value.items.map((i) =>
-      i.itemId === itemId ? { ...i, packedStatus: !i.packedStatus } : i
+      i.itemId === itemId
+        ? i.packedStatus
+          ? { ...i, packedStatus: false }
+          : withUnitsPicked({ ...i, packedStatus: true })
+        : i
     );
     patch({ items });
   }
@@ -296,7 +349,9 @@ export default function CampChecklist(
   }
 
   function packAll() {
-    const items = plan.value.items.map((i) => ({ ...i, packedStatus: true }));
+    const items = plan.value.items.map((i) =>
+      i.packedStatus ? i : withUnitsPicked({ ...i, packedStatus: true })
+    );
     patch({ items });
   }
 
@@ -307,15 +362,27 @@ export default function CampChecklist(
     patch({ items });
   }
 
-  const availableToPlan = (inv: InventoryItem): number => {
-    if (inv.category === "food") {
-      return inv.quantity;
-    }
-    const atCampQty = inv.atCamp
-      ? Math.max(0, Math.min(inv.quantity, inv.quantityAtCamp ?? inv.quantity))
-      : 0;
-    return Math.max(0, inv.quantity - atCampQty);
-  };
+  const availableToPlan = (inv: InventoryItem): number =>
+    availableForCamp(inv, reservations, returningLoans);
+
+  /** "Summer Camp (2), Cub Camp (4)" — other camps holding an item. */
+  const heldBy = (itemId: string): string | null =>
+    reservations[itemId]
+      ?.map((r) => `${r.planName} (${r.quantity})`)
+      .join(", ") ?? null;
+
+  // Unpacked entries that this camp and overlapping camps over-commit
+  const contendedItems = useComputed(() =>
+    RESERVING_CAMP_STATUSES.includes(plan.value.status)
+      ? plan.value.items.filter((item) => {
+        const inv = allItems.find((i) => i.id === item.itemId);
+        const held = reservations[item.itemId];
+        return !!inv && !!held && !item.packedStatus &&
+          item.quantityPlanned + totalReserved(held) >
+            stockInStore(inv) + (returningLoans[inv.id] ?? 0);
+      })
+      : []
+  );
 
   const maxPlannedQtyForItem = (item: CampPlanItem): number => {
     const inv = allItems.find((i) => i.id === item.itemId);
@@ -443,13 +510,13 @@ export default function CampChecklist(
   async function addWholeBox() {
     if (!selectedBox.value || boxItems.value.length === 0) return;
     const newEntries: CampPlanItem[] = boxItems.value
-      .filter((inv) => inv.quantity > 0)
+      .filter((inv) => availableToPlan(inv) > 0)
       .map((inv) => ({
         itemId: inv.id,
         itemName: inv.name,
         itemCategory: inv.category,
         itemLocation: inv.location,
-        quantityPlanned: inv.quantity,
+        quantityPlanned: availableToPlan(inv),
         packedStatus: false,
         returnedStatus: false,
       }));
@@ -733,6 +800,22 @@ export default function CampChecklist(
         </div>
       )}
 
+      {contendedItems.value.length > 0 && (
+        <div class="p-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-700 text-amber-800 dark:text-amber-200 rounded-md text-sm">
+          <p class="font-medium">
+            ⚠️ Other camps on these dates need the same kit:
+          </p>
+          <ul class="mt-1 list-disc list-inside">
+            {contendedItems.value.map((item) => (
+              <li key={item.itemId}>
+                {item.itemName} × {item.quantityPlanned} — also planned by{" "}
+                {heldBy(item.itemId)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* ── Add items panel ── */}
       {canEdit && (
         <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700">
@@ -1097,6 +1180,11 @@ export default function CampChecklist(
                                       {getCategoryLabel(inv.category)} ·{" "}
                                       {inv.location}
                                     </div>
+                                    {heldBy(inv.id) && (
+                                      <div class="text-amber-600 dark:text-amber-400 text-xs truncate mt-0.5">
+                                        Also planned by {heldBy(inv.id)}
+                                      </div>
+                                    )}
                                   </div>
                                 </div>
                               </button>
@@ -1200,7 +1288,7 @@ export default function CampChecklist(
                                   </div>
                                   {qtyTooHigh && (
                                     <p class="mt-1 text-xs text-red-600 dark:text-red-400 font-medium">
-                                      Only {available} available in stock.
+                                      Only {available} available on these dates.
                                     </p>
                                   )}
                                 </div>
@@ -1383,6 +1471,7 @@ export default function CampChecklist(
     // Use stored contents, or fall back to looking up the live inventory item
     const invItem = allItems.find((i) => i.id === item.itemId);
     const maxPlannedQty = maxPlannedQtyForItem(item);
+    const trackedUnits = units[item.itemId] ? selectableUnits(item) : null;
     const contents = item.contents ??
       (invItem && "contents" in invItem
         ? (invItem as { contents?: { name: string; quantity: number }[] })
@@ -1432,7 +1521,35 @@ export default function CampChecklist(
               ×{item.quantityPlanned}
             </span>
           </p>
-          {canEdit && mode === "pack" && (
+          {canEdit && mode === "pack" && trackedUnits && (
+            <div class="mt-1 flex flex-wrap gap-1">
+              {trackedUnits.length === 0 && (
+                <span class="text-xs text-gray-400 dark:text-gray-500">
+                  No units in store
+                </span>
+              )}
+              {trackedUnits.map((unit) => {
+                const picked = item.unitIds?.includes(unit.id) ?? false;
+                return (
+                  <button
+                    key={unit.id}
+                    type="button"
+                    onClick={() => toggleUnit(item.itemId, unit.id)}
+                    disabled={saving.value}
+                    title={unit.condition}
+                    class={`px-1.5 py-0.5 rounded border text-xs font-mono transition-colors ${
+                      picked
+                        ? "bg-purple-600 border-purple-600 text-white"
+                        : "border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    }`}
+                  >
+                    {unit.assetTag}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {canEdit && mode === "pack" && !trackedUnits && (
             <div class="mt-1 flex items-center gap-2">
               <span class="text-xs text-gray-500 dark:text-gray-400">Qty</span>
               <button
@@ -1465,6 +1582,7 @@ export default function CampChecklist(
           )}
           <p class="text-xs text-gray-500 dark:text-gray-400">
             {item.itemCategory} · {item.itemLocation}
+            {item.fromMenu && " · 🍽️ from menu"}
           </p>
           {item.notes && (
             <p class="text-xs text-purple-600 dark:text-purple-400 mt-0.5 italic">
@@ -20,17 +20,18 @@ const CATEGORIES: { key: CategoryKey; label: string; description: string }[] = [
   {
     key: "inventory",
     label: "Inventory",
-    description: "All items, indexes, necker count & stats",
+    description:
+      "All items, indexes, history, purchase requests, necker count & stats",
   },
   {
     key: "loans",
     label: "Loans",
-    description: "All loan / checkout records",
+    description: "All loan / checkout records and the borrower directory",
   },
   {
     key: "camps",
     label: "Camp Plans",
-    description: "All camp plans and templates",
+    description: "All camp plans, their shopping lists and templates",
   },
   {
     key: "meals",
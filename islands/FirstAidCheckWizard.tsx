@@ -1,5 +1,11 @@
 import { useComputed, useSignal } from "@preact/signals";
 import NumberInput from "../components/NumberInput.tsx";
+import type { FirstAidExpiryBatch } from "../types/firstAid.ts";
+import {
+  daysToExpiry,
+  FIRST_AID_EXPIRY_WARNING_DAYS,
+  isExpiryBatch,
+} from "../lib/firstAidExpiry.ts";
 
 export interface FirstAidCheckItem {
   kitId: string;
@@ -8,11 +14,15 @@ export interface FirstAidCheckItem {
   itemName: string;
   section: string;
   quantityTarget: number;
+  /** Dated stock recorded at the last check */
+  expiryBatches?: FirstAidExpiryBatch[];
 }
 
 interface FirstAidCheckEntry extends FirstAidCheckItem {
   countedQty: number;
   skipped: boolean;
+  /** Expiry dates as entered this check; rows without a date are ignored */
+  batches: FirstAidExpiryBatch[];
 }
 
 interface Props {
@@ -26,6 +36,9 @@ type Phase = "wizard" | "review" | "submitting" | "done";
 const inputClass =
   "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500";
 
+const batchInputClass =
+  "px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500";
+
 export default function FirstAidCheckWizard(
   { items: rawItems, csrfToken, checkScope }: Props,
 ) {
@@ -34,11 +47,13 @@ export default function FirstAidCheckWizard(
       ...item,
       countedQty: item.quantityTarget,
       skipped: false,
+      batches: item.expiryBatches?.map((batch) => ({ ...batch })) ?? [],
     })),
   );
   const currentIdx = useSignal(0);
   const phase = useSignal<Phase>("wizard");
   const submitError = useSignal<string | null>(null);
+  const notes = useSignal("");
   const printReport = useSignal<"shortage" | "variance" | null>(null);
   const printGeneratedAt = useSignal("");
 
@@ -67,6 +82,21 @@ export default function FirstAidCheckWizard(
     )
   );
 
+  // Dated stock due to expire soon, by its earliest date
+  const expiringSoon = useComputed(() => {
+    const today = new Date().toISOString().slice(0, 10);
+    return checkedEntries.value
+      .map((entry) => {
+        const dates = entry.batches.filter(isExpiryBatch)
+          .map((batch) => batch.expiryDate).sort();
+        return { entry, expiryDate: dates[0] };
+      })
+      .filter(({ expiryDate }) =>
+        expiryDate &&
+        daysToExpiry(expiryDate, today) <= FIRST_AID_EXPIRY_WARNING_DAYS
+      );
+  });
+
   const skippedCount = useComputed(() =>
     entries.value.filter((entry) => entry.skipped).length
   );
@@ -89,6 +119,15 @@ export default function FirstAidCheckWizard(
     );
   }
 
+  function updateCurrentBatches(
+    update: (batches: FirstAidExpiryBatch[]) => FirstAidExpiryBatch[],
+  ) {
+    const idx = currentIdx.value;
+    entries.value = entries.value.map((entry, entryIdx) =>
+      entryIdx === idx ? { ...entry, batches: update(entry.batches) } : entry
+    );
+  }
+
   function setCurrentSkipped(skipped: boolean) {
     const idx = currentIdx.value;
     entries.value = entries.value.map((entry, entryIdx) =>
@@ -130,6 +169,27 @@ export default function FirstAidCheckWizard(
         quantityTarget: entry.quantityTarget,
         countedQty: entry.countedQty,
       })),
+      // Only lines that are, or were, dated — an emptied list clears the dates
+      expiries: checkedEntries.value
+        .filter((entry) =>
+          entry.batches.length > 0 || (entry.expiryBatches?.length ?? 0) > 0
+        )
+        .map((entry) => ({
+          kitId: entry.kitId,
+          itemId: entry.itemId,
+          batches: entry.batches.filter(isExpiryBatch),
+        })),
+      // The full count, kept as the kit's check history
+      lines: entries.value.map((entry) => ({
+        kitId: entry.kitId,
+        kitName: entry.kitName,
+        itemId: entry.itemId,
+        itemName: entry.itemName,
+        section: entry.section,
+        quantityTarget: entry.quantityTarget,
+        countedQty: entry.skipped ? null : entry.countedQty,
+      })),
+      notes: notes.value,
     };
 
     try {
@@ -196,6 +256,14 @@ export default function FirstAidCheckWizard(
           >
             Back to First Aid
           </a>
+          {kitSequence.value.length === 1 && (
+            <a
+              href={`/first-aid/history/${kitSequence.value[0].id}`}
+              class="px-5 py-2.5 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              Kit History
+            </a>
+          )}
           <a
             href="/first-aid/check"
             class="px-5 py-2.5 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
@@ -382,6 +450,25 @@ export default function FirstAidCheckWizard(
             </button>
           </div>
 
+          {expiringSoon.value.length > 0 && (
+            <div class="mb-6 p-4 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+              <p class="text-sm font-semibold text-amber-800 dark:text-amber-200 mb-1">
+                Expiring within {FIRST_AID_EXPIRY_WARNING_DAYS} days
+              </p>
+              <ul class="text-sm text-amber-800 dark:text-amber-200 space-y-0.5">
+                {expiringSoon.value.map(({ entry, expiryDate }) => (
+                  <li key={`${entry.kitId}-${entry.itemId}`}>
+                    {`${entry.kitName}: ${entry.itemName} — ${
+                      new Date(`${expiryDate}T00:00:00Z`).toLocaleDateString(
+                        "en-GB",
+                      )
+                    }`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {shortages.value.length === 0
             ? (
               <div class="text-center py-10 border-2 border-dashed border-green-200 dark:border-green-700 rounded-lg mb-6 bg-green-50/50 dark:bg-green-900/10">
@@ -445,6 +532,21 @@ export default function FirstAidCheckWizard(
               </div>
             )}
 
+          <label class="block mb-4">
+            <span class="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Notes (optional)
+            </span>
+            <textarea
+              rows={3}
+              maxLength={2000}
+              value={notes.value}
+              onInput={(e) =>
+                notes.value = (e.target as HTMLTextAreaElement).value}
+              placeholder="Anything used on an activity, damaged or to follow up"
+              class={inputClass}
+            />
+          </label>
+
           <div class="flex gap-3">
             <button
               type="button"
@@ -550,6 +652,75 @@ export default function FirstAidCheckWizard(
                   class={inputClass}
                 />
               </div>
+
+              <div>
+                <p class="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Expiry dates
+                </p>
+                <p class="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                  For dated items — one row per date printed on the packets.
+                </p>
+                {entry.batches.map((batch, batchIdx) => (
+                  <div
+                    key={`${entry.kitId}-${entry.itemId}-${batchIdx}`}
+                    class="flex items-center gap-2 mb-2"
+                  >
+                    <NumberInput
+                      value={batch.quantity}
+                      min={1}
+                      onChange={(n) =>
+                        updateCurrentBatches((batches) =>
+                          batches.map((b, i) =>
+                            i === batchIdx ? { ...b, quantity: n } : b
+                          )
+                        )}
+                      class={`${batchInputClass} w-20`}
+                    />
+                    <input
+                      type="date"
+                      value={batch.expiryDate}
+                      onInput={(e) => {
+                        const expiryDate = (e.target as HTMLInputElement).value;
+                        updateCurrentBatches((batches) =>
+                          batches.map((b, i) =>
+                            i === batchIdx ? { ...b, expiryDate } : b
+                          )
+                        );
+                      }}
+                      class={`${batchInputClass} flex-1`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateCurrentBatches((batches) =>
+                          batches.filter((_, i) => i !== batchIdx)
+                        )}
+                      class="px-2 text-gray-400 hover:text-red-600"
+                      aria-label="Remove expiry date"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateCurrentBatches((batches) => [
+                      ...batches,
+                      {
+                        quantity: Math.max(
+                          1,
+                          entry.countedQty -
+                            batches.reduce((sum, b) => sum + b.quantity, 0),
+                        ),
+                        expiryDate: "",
+                      },
+                    ])}
+                  class="text-sm text-purple-600 dark:text-purple-400 hover:underline"
+                >
+                  + Add expiry date
+                </button>
+              </div>
             </div>
           )}
       </div>
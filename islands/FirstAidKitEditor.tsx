@@ -1,12 +1,12 @@
 import { useComputed, useSignal } from "@preact/signals";
 import {
   buildEntriesFromProfile,
-  FIRST_AID_PROFILES,
   getCatalogItemName,
 } from "../lib/firstAidCatalog.ts";
 import type {
   FirstAidCatalogItem,
   FirstAidKitEntry,
+  FirstAidKitProfile,
 } from "../types/firstAid.ts";
 
 interface FirstAidKitEditorProps {
@@ -15,6 +15,7 @@ interface FirstAidKitEditorProps {
   initialProfileId?: string;
   initialEntries: FirstAidKitEntry[];
   catalog: FirstAidCatalogItem[];
+  profiles: FirstAidKitProfile[];
   csrfToken: string;
 }
 
@@ -24,6 +25,7 @@ export default function FirstAidKitEditor({
   initialProfileId,
   initialEntries,
   catalog,
+  profiles,
   csrfToken,
 }: FirstAidKitEditorProps) {
   const kitName = useSignal(initialName);
@@ -32,9 +34,9 @@ export default function FirstAidKitEditor({
   const renameValue = useSignal(initialName);
   const selectedProfileId = useSignal(
     initialProfileId &&
-      FIRST_AID_PROFILES.some((p) => p.id === initialProfileId)
+      profiles.some((p) => p.id === initialProfileId)
       ? initialProfileId
-      : FIRST_AID_PROFILES[0]?.id ?? "",
+      : profiles[0]?.id ?? "",
   );
   const addItemId = useSignal(catalog[0]?.id ?? "");
   const addQty = useSignal(1);
@@ -119,7 +121,10 @@ export default function FirstAidKitEditor({
     const ok = await postAction("apply_profile", { profileId: nextProfileId });
     if (!ok) return;
 
-    entries.value = buildEntriesFromProfile(nextProfileId, catalog);
+    entries.value = buildEntriesFromProfile(
+      profiles.find((p) => p.id === nextProfileId),
+      catalog,
+    );
     qtyByItem.value = Object.fromEntries(
       entries.value.map((entry) => [entry.itemId, entry.quantityTarget]),
     );
@@ -255,7 +260,7 @@ export default function FirstAidKitEditor({
               disabled={pending.value}
               class="w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm"
             >
-              {FIRST_AID_PROFILES.map((profile) => (
+              {profiles.map((profile) => (
                 <option key={`${kitId}-${profile.id}`} value={profile.id}>
                   {profile.label}
                 </option>
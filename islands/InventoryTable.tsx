@@ -1,6 +1,6 @@
 // Interactive inventory table with search and filtering
 import { useComputed, useSignal } from "@preact/signals";
-import type { InventoryItem } from "../types/inventory.ts";
+import type { InventoryItem, StorageSpaceSummary } from "../types/inventory.ts";
 import {
   GAS_STORAGE_LOCATIONS,
   isFoodItem,
@@ -24,6 +24,10 @@ interface InventoryTableProps {
   initialNeedsRepair?: boolean;
   initialLowStock?: boolean;
   initialCategory?: string;
+  /** Storage space id to pre-select in the space filter */
+  initialSpace?: string;
+  /** Registered storage spaces, used for the space filter */
+  spaces?: StorageSpaceSummary[];
   csrfToken?: string;
   loanedItemIds?: string[];
   initialOnLoan?: boolean;
@@ -52,6 +56,8 @@ export default function InventoryTable(
     initialNeedsRepair = false,
     initialLowStock = false,
     initialCategory = "all",
+    initialSpace = "all",
+    spaces = [],
     csrfToken = "",
     loanedItemIds = [],
     initialOnLoan = false,
@@ -61,9 +67,7 @@ export default function InventoryTable(
   const categoryFilter = useSignal<"all" | ItemCategory>(
     initialCategory as "all" | ItemCategory,
   );
-  const spaceFilter = useSignal<
-    "all" | "camp-store" | "scout-post-loft" | "gas-storage-box"
-  >("all");
+  const spaceFilter = useSignal<string>(initialSpace);
   const locationFilter = useSignal<string>("all");
   const showLowStock = useSignal(initialLowStock);
   const showNeedsRepair = useSignal(initialNeedsRepair);
@@ -357,32 +361,27 @@ export default function InventoryTable(
             Space
           </span>
           <div class="flex rounded-md overflow-hidden border border-gray-300 dark:border-gray-600 text-xs font-medium">
-            {([
-              "all",
-              "camp-store",
-              "scout-post-loft",
-              "gas-storage-box",
-            ] as const).map((s) => (
+            {[
+              { value: "all", label: "All" },
+              ...spaces.map((s) => ({
+                value: s.id,
+                label: `${s.icon} ${s.name}`,
+              })),
+            ].map((s) => (
               <button
-                key={s}
+                key={s.value}
                 type="button"
                 onClick={() => {
-                  spaceFilter.value = s;
+                  spaceFilter.value = s.value;
                   categoryFilter.value = "all";
                 }}
                 class={`px-3 py-1.5 transition-colors ${
-                  spaceFilter.value === s
+                  spaceFilter.value === s.value
                     ? "bg-purple-600 text-white"
                     : "bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
                 }`}
               >
-                {s === "all"
-                  ? "All"
-                  : s === "camp-store"
-                  ? "🏪 Camp Store"
-                  : s === "scout-post-loft"
-                  ? "🏠 Scout Post Loft"
-                  : "🛢️ Gas Storage Box"}
+                {s.label}
               </button>
             ))}
           </div>
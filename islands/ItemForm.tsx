@@ -1,23 +1,22 @@
 // Form for adding/editing inventory items
 import { useSignal } from "@preact/signals";
 import {
-  CAMP_STORE_CATEGORIES,
-  GAS_STORAGE_CATEGORIES,
-  GAS_STORAGE_LOCATIONS,
   getCategoryEmoji,
   getCategoryLabel,
-  ITEM_LOCATIONS,
   type ItemCategory,
-  LOFT_CATEGORIES,
-  LOFT_LOCATIONS,
+  type ItemSpace,
+  type LocationGroup,
+  type StorageSpaceSummary,
 } from "../types/inventory.ts";
+import type { Quantity } from "../types/meals.ts";
 import NumberInput from "../components/NumberInput.tsx";
+import { MEASURE_UNITS, parseQuantity } from "../lib/units.ts";
 
 interface ItemFormData {
   id?: string;
   name?: string;
   category?: ItemCategory;
-  space?: "camp-store" | "scout-post-loft" | "gas-storage-box";
+  space?: ItemSpace;
   quantity?: number;
   minThreshold?: number;
   location?: string;
@@ -41,31 +40,45 @@ interface ItemFormData {
   expiryDate?: string | Date;
   storageRequirements?: string;
   weight?: string;
+  packSize?: Quantity;
   servings?: number;
   allergens?: string[];
   contents?: Array<{ name: string; quantity: number }>;
   kiltComponents?: string[];
+  hasUnits?: boolean;
+  purchaseCost?: number;
+  replacementValue?: number;
+  supplier?: string;
+  /** Food lots; stock and expiry are managed on the batches page when set */
+  batches?: Array<{ id: string; quantity: number }>;
 }
 
 interface ItemFormProps {
   initialData?: ItemFormData;
   isEdit?: boolean;
   csrfToken?: string;
+  spaces: StorageSpaceSummary[];
+  /** Active locations from the registry, grouped per space */
+  locationGroups: Record<ItemSpace, LocationGroup[]>;
 }
 
 export default function ItemForm(
-  { initialData, isEdit = false, csrfToken = "" }: ItemFormProps,
+  { initialData, isEdit = false, csrfToken = "", spaces, locationGroups }:
+    ItemFormProps,
 ) {
+  // Legacy items have no space — use the first space that accepts the category
   const initialSpace = initialData?.space ??
-    (initialData?.category === "games"
-      ? "scout-post-loft"
-      : initialData?.category === "fuel"
-      ? "gas-storage-box"
-      : "camp-store");
-  const space = useSignal<"camp-store" | "scout-post-loft" | "gas-storage-box">(
-    initialSpace,
+    (initialData?.category
+      ? spaces.find((s) => s.allowedCategories.includes(initialData.category!))
+        ?.id
+      : undefined) ??
+    spaces[0]?.id ?? "camp-store";
+  const space = useSignal<ItemSpace>(initialSpace);
+  const getCategoriesForSpace = (spaceValue: ItemSpace): ItemCategory[] =>
+    spaces.find((s) => s.id === spaceValue)?.allowedCategories ?? [];
+  const category = useSignal<ItemCategory>(
+    initialData?.category ?? getCategoriesForSpace(initialSpace)[0] ?? "tent",
   );
-  const category = useSignal<ItemCategory>(initialData?.category ?? "tent");
   const submitting = useSignal(false);
   const error = useSignal("");
   const success = useSignal("");
@@ -81,13 +94,8 @@ export default function ItemForm(
   const gameType = useSignal<string>(initialData?.gameType ?? "board-game");
   const kiltComponents = useSignal<string[]>(initialData?.kiltComponents ?? []);
 
-  const getLocationsForSpace = (
-    spaceValue: "camp-store" | "scout-post-loft" | "gas-storage-box",
-  ) => {
-    if (spaceValue === "scout-post-loft") return LOFT_LOCATIONS;
-    if (spaceValue === "gas-storage-box") return GAS_STORAGE_LOCATIONS;
-    return ITEM_LOCATIONS;
-  };
+  const getLocationsForSpace = (spaceValue: ItemSpace): LocationGroup[] =>
+    locationGroups[spaceValue] ?? [];
 
   // Find the group that contains the initial location value (for edit mode)
   const initialLocationList = getLocationsForSpace(initialSpace);
@@ -97,13 +105,23 @@ export default function ItemForm(
   const initialGroup = initialLocation
     ? (initialLocationList.find((g) =>
       g.options.some((opt) => opt === initialLocation)
-    )?.group ?? initialLocationList[0].group)
-    : initialLocationList[0].group;
+    )?.group ?? initialLocationList[0]?.group ?? "")
+    : initialLocationList[0]?.group ?? "";
   const locationGroup = useSignal<string>(initialGroup);
   const locationValue = useSignal<string>(
-    initialLocation ?? initialLocationList[0].options[0],
+    initialLocation ?? initialLocationList[0]?.options[0] ?? "",
   );
 
+  const resetLocationForSpace = (spaceValue: ItemSpace) => {
+    const first = getLocationsForSpace(spaceValue)[0];
+    locationGroup.value = first?.group ?? "";
+    locationValue.value = first?.options[0] ?? "";
+  };
+
+  // Blank money fields clear the stored value (null); the API rejects bad numbers
+  const money = (value: FormDataEntryValue | null) =>
+    value && String(value).trim() ? Number(value) : null;
+
   const handleSubmit = async (e: Event) => {
     e.preventDefault();
     submitting.value = true;
@@ -120,6 +138,9 @@ export default function ItemForm(
       minThreshold: parseInt(formData.get("minThreshold") as string),
       location: formData.get("location"),
       notes: (formData.get("notes") as string).trim() || null,
+      purchaseCost: money(formData.get("purchaseCost")),
+      replacementValue: money(formData.get("replacementValue")),
+      supplier: (formData.get("supplier") as string).trim() || null,
     };
 
     // Category-specific fields
@@ -180,6 +201,10 @@ export default function ItemForm(
       data.storageRequirements = formData.get("storageRequirements") ||
         undefined;
       data.weight = formData.get("weight") || undefined;
+      const packAmount = Number(formData.get("packAmount"));
+      data.packSize = packAmount > 0
+        ? { amount: packAmount, unit: formData.get("packUnit") }
+        : null;
       data.servings = formData.get("servings")
         ? parseInt(formData.get("servings") as string)
         : undefined;
@@ -246,6 +271,8 @@ export default function ItemForm(
     "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded-md focus:ring-2 focus:ring-purple-500";
   const labelClass =
     "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2";
+  // Older food items only have a freeform weight; offer it as the pack size
+  const packSize = initialData?.packSize ?? parseQuantity(initialData?.weight);
   const currentYear = new Date().getFullYear();
   const yearOptions = Array.from(
     { length: currentYear - 1899 },
@@ -266,70 +293,29 @@ export default function ItemForm(
       {/* Space Selection */}
       <div class="mb-4">
         <label class={labelClass}>Space *</label>
-        <div class="flex gap-3">
-          <label class="flex items-center gap-2 cursor-pointer">
-            <input
-              type="radio"
-              name="spaceRadio"
-              value="camp-store"
-              checked={space.value === "camp-store"}
-              onChange={() => {
-                space.value = "camp-store";
-                if (!isEdit) {
-                  category.value = "tent";
-                  locationGroup.value = ITEM_LOCATIONS[0].group;
-                  locationValue.value = ITEM_LOCATIONS[0].options[0];
-                }
-              }}
-              disabled={isEdit}
-              class="text-purple-600"
-            />
-            <span class="text-sm font-medium text-gray-700 dark:text-gray-300">
-              🏪 Camp Store
-            </span>
-          </label>
-          <label class="flex items-center gap-2 cursor-pointer">
-            <input
-              type="radio"
-              name="spaceRadio"
-              value="scout-post-loft"
-              checked={space.value === "scout-post-loft"}
-              onChange={() => {
-                space.value = "scout-post-loft";
-                if (!isEdit) {
-                  category.value = "games";
-                  locationGroup.value = LOFT_LOCATIONS[0].group;
-                  locationValue.value = LOFT_LOCATIONS[0].options[0];
-                }
-              }}
-              disabled={isEdit}
-              class="text-purple-600"
-            />
-            <span class="text-sm font-medium text-gray-700 dark:text-gray-300">
-              🏠 Scout Post Loft
-            </span>
-          </label>
-          <label class="flex items-center gap-2 cursor-pointer">
-            <input
-              type="radio"
-              name="spaceRadio"
-              value="gas-storage-box"
-              checked={space.value === "gas-storage-box"}
-              onChange={() => {
-                space.value = "gas-storage-box";
-                if (!isEdit) {
-                  category.value = "fuel";
-                  locationGroup.value = GAS_STORAGE_LOCATIONS[0].group;
-                  locationValue.value = GAS_STORAGE_LOCATIONS[0].options[0];
-                }
-              }}
-              disabled={isEdit}
-              class="text-purple-600"
-            />
-            <span class="text-sm font-medium text-gray-700 dark:text-gray-300">
-              🛢️ Gas Storage Box
-            </span>
-          </label>
+        <div class="flex flex-wrap gap-3">
+          {spaces.map((s) => (
+            <label key={s.id} class="flex items-center gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name="spaceRadio"
+                value={s.id}
+                checked={space.value === s.id}
+                onChange={() => {
+                  space.value = s.id;
+                  if (!isEdit) {
+                    category.value = s.allowedCategories[0] ?? category.value;
+                    resetLocationForSpace(s.id);
+                  }
+                }}
+                disabled={isEdit}
+                class="text-purple-600"
+              />
+              <span class="text-sm font-medium text-gray-700 dark:text-gray-300">
+                {s.icon} {s.name}
+              </span>
+            </label>
+          ))}
         </div>
       </div>
 
@@ -348,35 +334,11 @@ export default function ItemForm(
           class={inputClass}
           required
         >
-          {space.value === "scout-post-loft"
-            ? (
-              <>
-                {LOFT_CATEGORIES.map((cat) => (
-                  <option key={cat} value={cat}>
-                    {getCategoryEmoji(cat)} {getCategoryLabel(cat)}
-                  </option>
-                ))}
-              </>
-            )
-            : space.value === "gas-storage-box"
-            ? (
-              <>
-                {GAS_STORAGE_CATEGORIES.map((cat) => (
-                  <option key={cat} value={cat}>
-                    {getCategoryEmoji(cat)} {getCategoryLabel(cat)}
-                  </option>
-                ))}
-              </>
-            )
-            : (
-              <>
-                {CAMP_STORE_CATEGORIES.map((cat) => (
-                  <option key={cat} value={cat}>
-                    {getCategoryEmoji(cat)} {getCategoryLabel(cat)}
-                  </option>
-                ))}
-              </>
-            )}
+          {getCategoriesForSpace(space.value).map((cat) => (
+            <option key={cat} value={cat}>
+              {getCategoryEmoji(cat)} {getCategoryLabel(cat)}
+            </option>
+          ))}
         </select>
       </div>
 
@@ -408,7 +370,7 @@ export default function ItemForm(
                 const locs = getLocationsForSpace(space.value);
                 const firstOption =
                   locs.find((g) => g.group === group)?.options[0] ??
-                    locs[0].options[0];
+                    locs[0]?.options[0] ?? "";
                 locationValue.value = firstOption;
               }}
             >
@@ -458,8 +420,32 @@ export default function ItemForm(
             min="0"
             inputMode="numeric"
             required
+            readOnly={initialData?.hasUnits || !!initialData?.batches}
             class={inputClass}
           />
+          {initialData?.hasUnits && (
+            <p class="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Counted from tracked units —{" "}
+              <a
+                href={`/inventory/${initialData.id}/units`}
+                class="text-purple-600 dark:text-purple-400 hover:underline"
+              >
+                manage units
+              </a>
+            </p>
+          )}
+          {initialData?.batches && (
+            <p class="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Total of {initialData.batches.length} batch
+              {initialData.batches.length === 1 ? "" : "es"} —{" "}
+              <a
+                href={`/inventory/${initialData.id}/batches`}
+                class="text-purple-600 dark:text-purple-400 hover:underline"
+              >
+                manage batches
+              </a>
+            </p>
+          )}
         </div>
 
         <div>
@@ -591,6 +577,7 @@ export default function ItemForm(
               <input
                 type="number"
                 name="quantityNeedsRepair"
+                readOnly={initialData?.hasUnits}
                 defaultValue={String(initialData?.quantityNeedsRepair ?? 0)}
                 min={0}
                 class={inputClass}
@@ -722,6 +709,7 @@ export default function ItemForm(
               <input
                 type="number"
                 name="quantityNeedsRepair"
+                readOnly={initialData?.hasUnits}
                 defaultValue={String(initialData?.quantityNeedsRepair ?? 0)}
                 min={0}
                 class={inputClass}
@@ -901,6 +889,7 @@ export default function ItemForm(
               <input
                 type="number"
                 name="quantityNeedsRepair"
+                readOnly={initialData?.hasUnits}
                 defaultValue={String(initialData?.quantityNeedsRepair ?? 0)}
                 min={0}
                 class={inputClass}
@@ -1018,6 +1007,7 @@ export default function ItemForm(
               <input
                 type="number"
                 name="quantityNeedsRepair"
+                readOnly={initialData?.hasUnits}
                 defaultValue={String(initialData?.quantityNeedsRepair ?? 0)}
                 min={0}
                 class={inputClass}
@@ -1114,8 +1104,14 @@ export default function ItemForm(
                   ? new Date(initialData.expiryDate).toISOString().split("T")[0]
                   : ""}
                 required
+                readOnly={!!initialData?.batches}
                 class={inputClass}
               />
+              {initialData?.batches && (
+                <p class="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Earliest batch expiry
+                </p>
+              )}
             </div>
             <div>
               <label class={labelClass}>Storage Requirements</label>
@@ -1159,6 +1155,41 @@ export default function ItemForm(
                 class={inputClass}
               />
             </div>
+            <div>
+              <label class={labelClass}>Pack size</label>
+              <div class="flex gap-2">
+                <input
+                  type="number"
+                  name="packAmount"
+                  min="0"
+                  step="any"
+                  defaultValue={packSize?.amount === undefined
+                    ? ""
+                    : String(packSize.amount)}
+                  placeholder="e.g., 500"
+                  class={inputClass}
+                />
+                <select
+                  name="packUnit"
+                  aria-label="Pack size unit"
+                  class={`${inputClass} w-24`}
+                >
+                  {MEASURE_UNITS.map((unit) => (
+                    <option
+                      key={unit}
+                      value={unit}
+                      selected={(packSize?.unit ?? "g") === unit}
+                    >
+                      {unit}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <p class="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                What one unit holds — recipes measured per person are rounded up
+                to whole packs
+              </p>
+            </div>
             <div>
               <label class={labelClass}>Servings</label>
               <input
@@ -1277,6 +1308,7 @@ export default function ItemForm(
               <input
                 type="number"
                 name="quantityNeedsRepair"
+                readOnly={initialData?.hasUnits}
                 defaultValue={String(initialData?.quantityNeedsRepair ?? 0)}
                 min={0}
                 class={inputClass}
@@ -1477,6 +1509,7 @@ export default function ItemForm(
               <input
                 type="number"
                 name="quantityNeedsRepair"
+                readOnly={initialData?.hasUnits}
                 defaultValue={String(initialData?.quantityNeedsRepair ?? 0)}
                 min={0}
                 class={inputClass}
@@ -1685,6 +1718,7 @@ export default function ItemForm(
               <input
                 type="number"
                 name="quantityNeedsRepair"
+                readOnly={initialData?.hasUnits}
                 defaultValue={String(initialData?.quantityNeedsRepair ?? 0)}
                 min={0}
                 class={inputClass}
@@ -1724,6 +1758,49 @@ export default function ItemForm(
         </div>
       )}
 
+      <fieldset class="mb-6">
+        <legend class="text-sm font-semibold text-gray-800 dark:text-gray-100 mb-2">
+          Value &amp; Insurance
+        </legend>
+        <div class="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label class={labelClass}>Purchase cost (£ each)</label>
+            <input
+              type="number"
+              name="purchaseCost"
+              min={0}
+              step="0.01"
+              defaultValue={initialData?.purchaseCost !== undefined
+                ? String(initialData.purchaseCost)
+                : ""}
+              class={inputClass}
+            />
+          </div>
+          <div>
+            <label class={labelClass}>Replacement value (£ each)</label>
+            <input
+              type="number"
+              name="replacementValue"
+              min={0}
+              step="0.01"
+              defaultValue={initialData?.replacementValue !== undefined
+                ? String(initialData.replacementValue)
+                : ""}
+              class={inputClass}
+            />
+          </div>
+          <div>
+            <label class={labelClass}>Supplier</label>
+            <input
+              type="text"
+              name="supplier"
+              defaultValue={initialData?.supplier}
+              class={inputClass}
+            />
+          </div>
+        </div>
+      </fieldset>
+
       <div class="mb-6">
         <label class={labelClass}>
           Notes
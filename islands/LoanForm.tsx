@@ -1,7 +1,11 @@
-// Island for creating a new loan record
+// Island for creating a new loan record, or reserving kit for a later date
 import { useComputed, useSignal } from "@preact/signals";
 import { useEffect } from "preact/hooks";
 import NumberInput from "../components/NumberInput.tsx";
+import type { CheckOut, ItemUnitSummary } from "../types/inventory.ts";
+import { overlappingReservations } from "../lib/loanReservations.ts";
+import { findBorrowerByName, normalizeBorrowerName } from "../lib/borrowers.ts";
+import { formatDate } from "../lib/date-utils.ts";
 
 export interface LoanableItem {
   id: string;
@@ -9,12 +13,28 @@ export interface LoanableItem {
   category: string;
   quantity: number;
   location: string;
+  /** In-store units, for items tracked per unit */
+  units?: ItemUnitSummary[];
+  /** Quantity out on loan now, which a reservation may count on */
+  onLoan?: number;
+}
+
+/** Just enough of a directory entry for the borrower picker. */
+export interface BorrowerOption {
+  id: string;
+  name: string;
+  section?: string;
 }
 
 interface LoanFormProps {
   items: LoanableItem[];
+  borrowers?: BorrowerOption[];
+  /** Open reservations, to warn about bookings on the chosen dates */
+  reservations?: CheckOut[];
   csrfToken?: string;
   initialItemId?: string;
+  /** Pre-select this unit (from a scanned unit label) */
+  initialUnitId?: string;
 }
 
 function todayIso(): string {
@@ -34,12 +54,22 @@ const labelClass =
   "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
 
 export default function LoanForm(
-  { items, csrfToken, initialItemId }: LoanFormProps,
+  {
+    items,
+    borrowers = [],
+    reservations = [],
+    csrfToken,
+    initialItemId,
+    initialUnitId,
+  }: LoanFormProps,
 ) {
   const search = useSignal("");
   const selectedItem = useSignal<LoanableItem | null>(null);
   const borrower = useSignal("");
+  const showBorrowers = useSignal(false);
   const quantity = useSignal(1);
+  const selectedUnitIds = useSignal<string[]>([]);
+  const collectOn = useSignal(todayIso());
   const expectedReturn = useSignal(defaultReturnDateIso());
   const notes = useSignal("");
   const saving = useSignal(false);
@@ -59,6 +89,34 @@ export default function LoanForm(
       .slice(0, 10);
   });
 
+  const borrowerMatches = useComputed(() => {
+    const q = normalizeBorrowerName(borrower.value);
+    return borrowers
+      .filter((b) =>
+        !q || normalizeBorrowerName(`${b.name} ${b.section ?? ""}`).includes(q)
+      )
+      .slice(0, 8);
+  });
+  const listedBorrower = useComputed(() =>
+    findBorrowerByName(borrowers, borrower.value)
+  );
+
+  // A later collection date books the kit; units are picked at collection
+  const reserving = useComputed(() => collectOn.value > todayIso());
+  const maxQuantity = useComputed(() => {
+    const item = selectedItem.value;
+    if (!item) return 0;
+    return reserving.value ? item.quantity + (item.onLoan ?? 0) : item.quantity;
+  });
+  const clashes = useComputed(() => {
+    const item = selectedItem.value;
+    if (!item || !collectOn.value || !expectedReturn.value) return [];
+    return overlappingReservations(item.id, {
+      checkOutDate: new Date(collectOn.value),
+      expectedReturnDate: new Date(expectedReturn.value),
+    }, reservations);
+  });
+
   useEffect(() => {
     if (!initialItemId) return;
     const match = items.find((item) => item.id === initialItemId);
@@ -67,15 +125,21 @@ export default function LoanForm(
     search.value = match.name;
     showDropdown.value = false;
     quantity.value = 1;
-  }, [initialItemId, items]);
+    if (
+      initialUnitId && match.units?.some((unit) => unit.id === initialUnitId)
+    ) {
+      selectedUnitIds.value = [initialUnitId];
+    }
+  }, [initialItemId, initialUnitId, items]);
 
   function selectItem(item: LoanableItem) {
     selectedItem.value = item;
     search.value = item.name;
     showDropdown.value = false;
+    selectedUnitIds.value = [];
     // Clamp quantity to the newly-selected item's stock
-    if (quantity.value > item.quantity) {
-      quantity.value = item.quantity;
+    if (quantity.value > maxQuantity.value) {
+      quantity.value = maxQuantity.value;
     }
     if (quantity.value < 1) quantity.value = 1;
   }
@@ -84,6 +148,13 @@ export default function LoanForm(
     selectedItem.value = null;
     search.value = "";
     quantity.value = 1;
+    selectedUnitIds.value = [];
+  }
+
+  function toggleUnit(unitId: string) {
+    selectedUnitIds.value = selectedUnitIds.value.includes(unitId)
+      ? selectedUnitIds.value.filter((id) => id !== unitId)
+      : [...selectedUnitIds.value, unitId];
   }
 
   async function handleSubmit(e: Event) {
@@ -104,12 +175,22 @@ export default function LoanForm(
       error.value = "Expected return date must be in the future.";
       return;
     }
-    const qty = quantity.value;
-    if (
-      !Number.isInteger(qty) || qty < 1 || qty > selectedItem.value.quantity
-    ) {
-      error.value =
-        `Quantity must be between 1 and ${selectedItem.value.quantity}.`;
+    if (collectOn.value < todayIso()) {
+      error.value = "Collection date cannot be in the past.";
+      return;
+    }
+    if (expectedReturn.value < collectOn.value) {
+      error.value = "Expected return date must be after collection.";
+      return;
+    }
+    const units = reserving.value ? undefined : selectedItem.value.units;
+    if (units && selectedUnitIds.value.length === 0) {
+      error.value = "Please tick the units being loaned.";
+      return;
+    }
+    const qty = units ? selectedUnitIds.value.length : quantity.value;
+    if (!Number.isInteger(qty) || qty < 1 || qty > maxQuantity.value) {
+      error.value = `Quantity must be between 1 and ${maxQuantity.value}.`;
       return;
     }
 
@@ -125,8 +206,11 @@ export default function LoanForm(
         },
         body: JSON.stringify({
           itemId: selectedItem.value.id,
+          borrowerId: listedBorrower.value?.id,
           borrower: borrower.value.trim(),
           quantity: qty,
+          unitIds: units ? selectedUnitIds.value : undefined,
+          collectionDate: reserving.value ? collectOn.value : undefined,
           expectedReturnDate: expectedReturn.value,
           notes: notes.value.trim() || undefined,
         }),
@@ -228,39 +312,82 @@ export default function LoanForm(
         )}
       </div>
 
-      {/* Borrower */}
-      <div>
+      {/* Borrower — picked from the directory, or added to it */}
+      <div class="relative">
         <label class={labelClass}>Borrower / Organisation *</label>
         <input
           type="text"
           class={inputClass}
           value={borrower.value}
-          onInput={(
-            e,
-          ) => (borrower.value = (e.target as HTMLInputElement).value)}
+          onInput={(e) => {
+            borrower.value = (e.target as HTMLInputElement).value;
+            showBorrowers.value = true;
+          }}
+          onFocus={() => (showBorrowers.value = true)}
+          onBlur={() => {
+            setTimeout(() => {
+              showBorrowers.value = false;
+            }, 150);
+          }}
           placeholder="e.g. 12th Edinburgh Scouts"
+          autocomplete="off"
           required
         />
+        {showBorrowers.value && !listedBorrower.value &&
+          borrowerMatches.value.length > 0 && (
+          <div class="absolute z-50 top-full left-0 right-0 mt-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg max-h-60 overflow-y-auto">
+            {borrowerMatches.value.map((b) => (
+              <button
+                key={b.id}
+                type="button"
+                class="w-full text-left px-4 py-2 hover:bg-purple-50 dark:hover:bg-purple-900/30 transition-colors border-b border-gray-100 dark:border-gray-700 last:border-0"
+                onClick={() => {
+                  borrower.value = b.name;
+                  showBorrowers.value = false;
+                }}
+              >
+                <span class="font-medium text-gray-800 dark:text-gray-100">
+                  {b.name}
+                </span>
+                {b.section && (
+                  <span class="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                    {b.section}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+        {borrower.value.trim() && (
+          <p class="mt-1 text-xs text-gray-400 dark:text-gray-500">
+            {listedBorrower.value
+              ? `From the borrower directory${
+                listedBorrower.value.section
+                  ? ` · ${listedBorrower.value.section}`
+                  : ""
+              }`
+              : "New borrower — will be added to the directory."}
+          </p>
+        )}
       </div>
 
-      {/* Quantity + expected return */}
+      {/* Collection + expected return */}
       <div class="grid grid-cols-2 gap-4">
         <div>
-          <label class={labelClass}>Quantity *</label>
-          <NumberInput
-            key={selectedItem.value?.id ?? "none"}
-            value={quantity.value}
-            min={1}
-            max={selectedItem.value?.quantity}
-            onChange={(n) => {
-              quantity.value = n;
-            }}
-            required
+          <label class={labelClass}>Collect On *</label>
+          <input
+            type="date"
             class={inputClass}
+            min={todayIso()}
+            value={collectOn.value}
+            onInput={(
+              e,
+            ) => (collectOn.value = (e.target as HTMLInputElement).value)}
+            required
           />
-          {selectedItem.value && (
+          {reserving.value && (
             <p class="mt-1 text-xs text-gray-400 dark:text-gray-500">
-              Max: {selectedItem.value.quantity}
+              Reserved until collected — stock moves at hand-over.
             </p>
           )}
         </div>
@@ -269,7 +396,7 @@ export default function LoanForm(
           <input
             type="date"
             class={inputClass}
-            min={todayIso()}
+            min={collectOn.value || todayIso()}
             value={expectedReturn.value}
             onInput={(
               e,
@@ -279,6 +406,72 @@ export default function LoanForm(
         </div>
       </div>
 
+      {clashes.value.length > 0 && (
+        <div class="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700 text-amber-800 dark:text-amber-300 rounded-md text-sm">
+          Already reserved on these dates: {clashes.value
+            .map((r) =>
+              `${r.borrower} (${r.quantity}, ${formatDate(r.checkOutDate)}–${
+                formatDate(r.expectedReturnDate)
+              })`
+            )
+            .join(", ")}
+        </div>
+      )}
+
+      {/* Quantity */}
+      <div class="grid grid-cols-2 gap-4">
+        {selectedItem.value?.units && !reserving.value
+          ? (
+            <div>
+              <label class={labelClass}>Units *</label>
+              <div class="flex flex-wrap gap-1.5">
+                {selectedItem.value.units.map((unit) => {
+                  const picked = selectedUnitIds.value.includes(unit.id);
+                  return (
+                    <button
+                      key={unit.id}
+                      type="button"
+                      onClick={() => toggleUnit(unit.id)}
+                      title={unit.condition}
+                      class={`px-2 py-1 rounded border text-xs font-mono transition-colors ${
+                        picked
+                          ? "bg-purple-600 border-purple-600 text-white"
+                          : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      }`}
+                    >
+                      {unit.assetTag}
+                    </button>
+                  );
+                })}
+              </div>
+              <p class="mt-1 text-xs text-gray-400 dark:text-gray-500">
+                {selectedUnitIds.value.length} selected
+              </p>
+            </div>
+          )
+          : (
+            <div>
+              <label class={labelClass}>Quantity *</label>
+              <NumberInput
+                key={selectedItem.value?.id ?? "none"}
+                value={quantity.value}
+                min={1}
+                max={maxQuantity.value || undefined}
+                onChange={(n) => {
+                  quantity.value = n;
+                }}
+                required
+                class={inputClass}
+              />
+              {selectedItem.value && (
+                <p class="mt-1 text-xs text-gray-400 dark:text-gray-500">
+                  Max: {maxQuantity.value}
+                </p>
+              )}
+            </div>
+          )}
+      </div>
+
       {/* Notes */}
       <div>
         <label class={labelClass}>Notes</label>
@@ -299,7 +492,11 @@ export default function LoanForm(
           disabled={saving.value || !selectedItem.value}
           class="flex-1 py-2.5 bg-purple-600 text-white font-medium rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
-          {saving.value ? "Recording loan…" : "Record Loan"}
+          {saving.value
+            ? "Saving…"
+            : reserving.value
+            ? "Reserve"
+            : "Record Loan"}
         </button>
         <a
           href="/loans"
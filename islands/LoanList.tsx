@@ -1,14 +1,32 @@
-// Interactive loan list island — shows active/overdue loans and return history
+// Interactive loan list island — shows reservations, active/overdue loans and
+// return history
 import { useSignal } from "@preact/signals";
-import type { CheckOut } from "../types/inventory.ts";
+import {
+  type CheckOut,
+  isActiveLoan,
+  type ItemCondition,
+} from "../types/inventory.ts";
 import { formatDate } from "../lib/date-utils.ts";
+import { isHeldReservation, isNoShow } from "../lib/loanReservations.ts";
 
 interface LoanListProps {
   loans: CheckOut[];
   canEdit: boolean;
   csrfToken?: string;
+  /** Asset tags of loaned units, keyed by unit id */
+  unitTags?: Record<string, string>;
 }
 
+const CONDITIONS: ItemCondition[] = [
+  "excellent",
+  "good",
+  "fair",
+  "needs-repair",
+];
+
+const fieldClass =
+  "px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100";
+
 function daysUntil(d: Date | string): number {
   const date = typeof d === "string" ? new Date(d) : d;
   return Math.floor((date.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
@@ -20,6 +38,26 @@ function isOverdue(loan: CheckOut): boolean {
 }
 
 function dueBadge(loan: CheckOut): { text: string; cls: string } {
+  if (isNoShow(loan)) {
+    return {
+      text: "No-show",
+      cls: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+    };
+  }
+  if (loan.status === "reserved") {
+    const days = daysUntil(loan.checkOutDate);
+    return days > 0
+      ? {
+        text: `Collect in ${days}d`,
+        cls:
+          "bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300",
+      }
+      : {
+        text: "Awaiting collection",
+        cls:
+          "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+      };
+  }
   if (loan.status === "returned") {
     return {
       text: "Returned",
@@ -55,7 +93,7 @@ function dueBadge(loan: CheckOut): { text: string; cls: string } {
 }
 
 export default function LoanList(
-  { loans: initialLoans, canEdit, csrfToken }: LoanListProps,
+  { loans: initialLoans, canEdit, csrfToken, unitTags = {} }: LoanListProps,
 ) {
   const loans = useSignal<CheckOut[]>(initialLoans);
   const actioningId = useSignal<string | null>(null);
@@ -64,24 +102,60 @@ export default function LoanList(
   >(null);
   const error = useSignal<string | null>(null);
   const showHistory = useSignal(false);
+  // What came back, for the loan being returned
+  const returnQty = useSignal(0);
+  const returnUnitIds = useSignal<string[]>([]);
+  const returnCondition = useSignal<ItemCondition | "">("");
+  const returnNotes = useSignal("");
 
-  const activeLoans = loans.value.filter((l) => l.status !== "returned");
-  const historyLoans = loans.value.filter((l) => l.status === "returned");
+  const reservations = loans.value.filter((l) => isHeldReservation(l));
+  const activeLoans = loans.value.filter(isActiveLoan);
+  const historyLoans = loans.value.filter((l) =>
+    l.status === "returned" || isNoShow(l)
+  );
+
+  function startReturn(loan: CheckOut) {
+    returnQty.value = loan.quantity;
+    returnUnitIds.value = loan.unitIds ?? [];
+    returnCondition.value = "";
+    returnNotes.value = "";
+    confirmingId.value = { id: loan.id, action: "return" };
+  }
 
-  async function handleReturn(id: string) {
+  async function handleReturn(loan: CheckOut) {
+    const id = loan.id;
     actioningId.value = id;
-    confirmingId.value = null;
     error.value = null;
     try {
       const res = await fetch(`/api/loans/${id}`, {
         method: "PATCH",
-        headers: { "X-CSRF-Token": csrfToken ?? "" },
+        headers: {
+          "Content-Type": "application/json",
+          "X-CSRF-Token": csrfToken ?? "",
+        },
+        body: JSON.stringify({
+          quantity: loan.unitIds ? returnUnitIds.value.length : returnQty.value,
+          unitIds: loan.unitIds ? returnUnitIds.value : undefined,
+          condition: returnCondition.value || undefined,
+          notes: returnNotes.value.trim() || undefined,
+        }),
       });
-      if (!res.ok) throw new Error("Failed to mark as returned.");
-      const updated: CheckOut = await res.json();
-      loans.value = loans.value.map((l) => (l.id === id ? updated : l));
-    } catch (_e) {
-      error.value = "Failed to mark as returned. Please try again.";
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? "Failed to mark as returned.");
+      }
+      const { returned, remaining }: {
+        returned: CheckOut;
+        remaining: CheckOut | null;
+      } = await res.json();
+      loans.value = remaining
+        ? [...loans.value.map((l) => (l.id === id ? remaining : l)), returned]
+        : loans.value.map((l) => (l.id === id ? returned : l));
+      confirmingId.value = null;
+    } catch (e) {
+      error.value = e instanceof Error
+        ? e.message
+        : "Failed to mark as returned. Please try again.";
     } finally {
       actioningId.value = null;
     }
@@ -96,10 +170,10 @@ export default function LoanList(
         method: "DELETE",
         headers: { "X-CSRF-Token": csrfToken ?? "" },
       });
-      if (!res.ok) throw new Error("Failed to cancel loan.");
+      if (!res.ok) throw new Error("Failed to cancel.");
       loans.value = loans.value.filter((l) => l.id !== id);
     } catch (_e) {
-      error.value = "Failed to cancel loan. Please try again.";
+      error.value = "Failed to cancel. Please try again.";
     } finally {
       actioningId.value = null;
     }
@@ -110,6 +184,7 @@ export default function LoanList(
   ) {
     const badge = dueBadge(loan);
     const overdue = isOverdue(loan);
+    const reserved = loan.status === "reserved";
     const acting = actioningId.value === loan.id;
 
     return (
@@ -133,7 +208,16 @@ export default function LoanList(
               {" · "}
               Borrower:{" "}
               <strong class="text-gray-700 dark:text-gray-300">
-                {loan.borrower}
+                {loan.borrowerId
+                  ? (
+                    <a
+                      href={`/loans/borrowers/${loan.borrowerId}`}
+                      class="hover:underline"
+                    >
+                      {loan.borrower}
+                    </a>
+                  )
+                  : loan.borrower}
               </strong>
             </p>
           </div>
@@ -146,7 +230,9 @@ export default function LoanList(
 
         <div class="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-gray-600 dark:text-gray-400">
           <div>
-            <span class="text-gray-400 dark:text-gray-500">Loaned</span>{" "}
+            <span class="text-gray-400 dark:text-gray-500">
+              {reserved ? "Collect" : "Loaned"}
+            </span>{" "}
             {formatDate(loan.checkOutDate)}
           </div>
           <div>
@@ -165,10 +251,25 @@ export default function LoanList(
               <span class="text-gray-400 dark:text-gray-500">Returned</span>
               {" "}
               {formatDate(loan.actualReturnDate)}
+              {loan.returnCondition && (
+                <span
+                  class={loan.returnCondition === "needs-repair"
+                    ? "text-red-600 dark:text-red-400 font-medium"
+                    : ""}
+                >
+                  {` · ${loan.returnCondition.replace("-", " ")}`}
+                </span>
+              )}
             </div>
           )}
         </div>
 
+        {loan.returnNotes && (
+          <p class="text-sm text-gray-500 dark:text-gray-400">
+            🔁 {loan.returnNotes}
+          </p>
+        )}
+
         {loan.notes && (
           <p class="text-sm text-gray-500 dark:text-gray-400 italic border-t border-gray-100 dark:border-gray-700 pt-2">
             {loan.notes}
@@ -189,11 +290,85 @@ export default function LoanList(
                   Mark <strong>{loan.itemName}</strong>{" "}
                   as returned? Qty will be restored to stock.
                 </p>
+                {loan.unitIds
+                  ? (
+                    <div class="flex flex-wrap gap-1.5">
+                      {loan.unitIds.map((unitId) => {
+                        const picked = returnUnitIds.value.includes(unitId);
+                        return (
+                          <button
+                            key={unitId}
+                            type="button"
+                            onClick={() =>
+                              returnUnitIds.value = picked
+                                ? returnUnitIds.value.filter((u) =>
+                                  u !== unitId
+                                )
+                                : [...returnUnitIds.value, unitId]}
+                            class={`px-2 py-0.5 rounded border text-xs font-mono ${
+                              picked
+                                ? "bg-green-600 border-green-600 text-white"
+                                : "border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400"
+                            }`}
+                          >
+                            {unitTags[unitId] ?? unitId.slice(0, 8)}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )
+                  : loan.quantity > 1 && (
+                    <label class="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                      Qty back
+                      <input
+                        type="number"
+                        min={1}
+                        max={loan.quantity}
+                        value={returnQty.value}
+                        onInput={(e) =>
+                          returnQty.value = Number(
+                            (e.target as HTMLInputElement).value,
+                          )}
+                        class={`w-20 ${fieldClass}`}
+                      />
+                      <span>of {loan.quantity}</span>
+                    </label>
+                  )}
+                <div class="flex gap-2">
+                  <select
+                    value={returnCondition.value}
+                    onChange={(e) =>
+                      returnCondition.value = (e.target as HTMLSelectElement)
+                        .value as ItemCondition | ""}
+                    class={fieldClass}
+                    aria-label="Condition on return"
+                  >
+                    <option value="">Condition…</option>
+                    {CONDITIONS.map((c) => (
+                      <option key={c} value={c}>{c.replace("-", " ")}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={returnNotes.value}
+                    maxLength={500}
+                    placeholder="Notes (damage, missing parts…)"
+                    onInput={(e) =>
+                      returnNotes.value = (e.target as HTMLInputElement).value}
+                    class={`flex-1 min-w-0 ${fieldClass}`}
+                  />
+                </div>
+                {returnCondition.value === "needs-repair" && (
+                  <p class="text-xs text-amber-700 dark:text-amber-400">
+                    🔧 A maintenance record will be logged and the returned
+                    quantity marked as needing repair.
+                  </p>
+                )}
                 <div class="flex gap-2">
                   <button
                     type="button"
                     disabled={acting}
-                    onClick={() => handleReturn(loan.id)}
+                    onClick={() => handleReturn(loan)}
                     class="flex-1 py-1.5 text-sm font-medium bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors"
                   >
                     {acting ? "…" : "✓ Confirm Returned"}
@@ -214,9 +389,10 @@ export default function LoanList(
             return (
               <div class="pt-1 border-t border-gray-100 dark:border-gray-700 space-y-2">
                 <p class="text-sm text-gray-700 dark:text-gray-300">
-                  Cancel loan of{" "}
-                  <strong>{loan.itemName}</strong>? Stock will be restored. This
-                  cannot be undone.
+                  Cancel {reserved ? "reservation" : "loan"} of{" "}
+                  <strong>{loan.itemName}</strong>? {reserved
+                    ? "The booking is released."
+                    : "Stock will be restored."} This cannot be undone.
                 </p>
                 <div class="flex gap-2">
                   <button
@@ -241,17 +417,25 @@ export default function LoanList(
 
           return (
             <div class="flex gap-2 pt-1 border-t border-gray-100 dark:border-gray-700">
-              <button
-                type="button"
-                disabled={acting}
-                onClick={() => (confirmingId.value = {
-                  id: loan.id,
-                  action: "return",
-                })}
-                class="flex-1 py-1.5 text-sm font-medium bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors"
-              >
-                ✓ Mark Returned
-              </button>
+              {reserved
+                ? (
+                  <a
+                    href={`/inventory/${loan.itemId}/scan`}
+                    class="flex-1 py-1.5 text-center text-sm font-medium bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors"
+                  >
+                    📷 Hand Over
+                  </a>
+                )
+                : (
+                  <button
+                    type="button"
+                    disabled={acting}
+                    onClick={() => startReturn(loan)}
+                    class="flex-1 py-1.5 text-sm font-medium bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors"
+                  >
+                    ✓ Mark Returned
+                  </button>
+                )}
               <button
                 type="button"
                 disabled={acting}
@@ -260,7 +444,7 @@ export default function LoanList(
                   action: "cancel",
                 })}
                 class="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
-                title="Cancel loan"
+                title={reserved ? "Cancel reservation" : "Cancel loan"}
               >
                 ✕
               </button>
@@ -279,6 +463,26 @@ export default function LoanList(
         </div>
       )}
 
+      {/* Reservations awaiting collection */}
+      {reservations.length > 0 && (
+        <section>
+          <h3 class="text-lg font-semibold text-gray-800 dark:text-purple-100 mb-3">
+            Reservations
+            <span class="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+              ({reservations.length})
+            </span>
+          </h3>
+          <div class="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {reservations
+              .sort((a, b) =>
+                new Date(a.checkOutDate).getTime() -
+                new Date(b.checkOutDate).getTime()
+              )
+              .map((loan) => <LoanCard key={loan.id} loan={loan} />)}
+          </div>
+        </section>
+      )}
+
       {/* Active / overdue */}
       <section>
         <h3 class="text-lg font-semibold text-gray-800 dark:text-purple-100 mb-3">
@@ -325,7 +529,7 @@ export default function LoanList(
             onClick={() => (showHistory.value = !showHistory.value)}
           >
             <span>{showHistory.value ? "▾" : "▸"}</span>
-            Return History
+            History
             <span class="text-sm font-normal text-gray-500 dark:text-gray-400">
               ({historyLoans.length})
             </span>
@@ -334,8 +538,9 @@ export default function LoanList(
             <div class="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
               {historyLoans
                 .sort((a, b) =>
-                  new Date(b.actualReturnDate!).getTime() -
-                  new Date(a.actualReturnDate!).getTime()
+                  new Date(b.actualReturnDate ?? b.expectedReturnDate)
+                    .getTime() -
+                  new Date(a.actualReturnDate ?? a.expectedReturnDate).getTime()
                 )
                 .map((loan) => (
                   <LoanCard key={loan.id} loan={loan} isHistory />
@@ -1,10 +1,18 @@
 // Create / edit a meal recipe — admin only
 import { useState } from "preact/hooks";
-import type { Meal, MealIngredient } from "../types/meals.ts";
+import type {
+  FoodItemSummary,
+  Meal,
+  MealIngredient,
+  MeasureUnit,
+} from "../types/meals.ts";
 import NumberInput from "../components/NumberInput.tsx";
+import { MEASURE_UNITS } from "../lib/units.ts";
 
 interface Props {
   meal?: Meal;
+  /** Food stock ingredients can be linked to */
+  foodItems: FoodItemSummary[];
   csrfToken: string;
 }
 
@@ -15,7 +23,7 @@ const emptyIngredient = (): MealIngredient => ({
   servingsPerUnit: 1,
 });
 
-export default function MealForm({ meal, csrfToken }: Props) {
+export default function MealForm({ meal, foodItems, csrfToken }: Props) {
   const isEdit = !!meal;
 
   const [name, setName] = useState(meal?.name ?? "");
@@ -51,6 +59,11 @@ export default function MealForm({ meal, csrfToken }: Props) {
       .map((i) => ({
         name: i.name.trim(),
         servingsPerUnit: i.servingsPerUnit,
+        perPerson: i.perPerson && i.perPerson.amount > 0
+          ? i.perPerson
+          : undefined,
+        // Links to food since deleted are dropped rather than rejected
+        itemId: foodItems.some((f) => f.id === i.itemId) ? i.itemId : undefined,
       }));
     if (validIngredients.length === 0) {
       setStatus({
@@ -239,13 +252,87 @@ export default function MealForm({ meal, csrfToken }: Props) {
                       </button>
                     </div>
                   </div>
+
+                  {/* Amount per person — replaces servings per unit */}
+                  <div class="mt-2 flex gap-2 items-end">
+                    <div class="w-36 shrink-0">
+                      <label class="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                        Or per person
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={ing.perPerson?.amount ?? ""}
+                        placeholder="e.g. 200"
+                        onInput={(e) => {
+                          const amount = Number(
+                            (e.target as HTMLInputElement).value,
+                          );
+                          updateIngredient(i, {
+                            perPerson: amount > 0
+                              ? { amount, unit: ing.perPerson?.unit ?? "g" }
+                              : undefined,
+                          });
+                        }}
+                        class="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:ring-1 focus:ring-purple-500 focus:outline-none"
+                      />
+                    </div>
+                    <select
+                      value={ing.perPerson?.unit ?? "g"}
+                      disabled={!ing.perPerson}
+                      aria-label="Unit"
+                      onChange={(e) =>
+                        ing.perPerson && updateIngredient(i, {
+                          perPerson: {
+                            amount: ing.perPerson.amount,
+                            unit: (e.target as HTMLSelectElement)
+                              .value as MeasureUnit,
+                          },
+                        })}
+                      class="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:ring-1 focus:ring-purple-500 focus:outline-none disabled:opacity-50"
+                    >
+                      {MEASURE_UNITS.map((unit) => (
+                        <option key={unit} value={unit}>{unit}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Linked food stock */}
+                  <div class="mt-2">
+                    <label class="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                      Taken from stock
+                    </label>
+                    <select
+                      value={ing.itemId ?? ""}
+                      onChange={(e) => {
+                        const itemId = (e.target as HTMLSelectElement).value;
+                        const item = foodItems.find((f) => f.id === itemId);
+                        updateIngredient(i, {
+                          itemId: itemId || undefined,
+                          name: ing.name.trim() || !item ? ing.name : item.name,
+                        });
+                      }}
+                      class="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:ring-1 focus:ring-purple-500 focus:outline-none"
+                    >
+                      <option value="">— not tracked —</option>
+                      {foodItems.map((f) => (
+                        <option key={f.id} value={f.id}>
+                          {`${f.name} (${f.quantity} in stock)`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
               );
             })}
           </div>
           <p class="mt-2 text-xs text-gray-400 dark:text-gray-500">
             "Servings per unit" = how many people one unit of this item feeds.
-            E.g. a 500ml jar of passata serves 6.
+            E.g. a 500ml jar of passata serves 6. Or give an amount per person,
+            like 200g of pasta, and it is rounded up to whole packs of the
+            linked food item's pack size. Link an ingredient to its food stock
+            so camp menus can put it on the checklist.
           </p>
         </div>
 
@@ -1,11 +1,40 @@
 // Interactive camp meal planner — select meals, enter headcount, see shopping list
 import { useState } from "preact/hooks";
-import type { FoodItemSummary, Meal } from "../types/meals.ts";
+import type {
+  DietaryCounts,
+  FoodItemSummary,
+  Meal,
+  Quantity,
+} from "../types/meals.ts";
 import NumberInput from "../components/NumberInput.tsx";
+import {
+  describeWarning,
+  DIETARY_LABELS,
+  DIETARY_REQUIREMENTS,
+  dietaryWarnings,
+  mealDietary,
+} from "../lib/dietary.ts";
+import {
+  addIngredient,
+  describeAmounts,
+  formatQuantity,
+  type IngredientTotal,
+  packsNeeded,
+} from "../lib/units.ts";
+
+/** Camp the shopping spend can be recorded against. */
+export interface SpendCamp {
+  id: string;
+  name: string;
+  /** ISO date */
+  campDate: string;
+  shoppingSpend?: number;
+}
 
 interface Props {
   meals: Meal[];
   foodItems: FoodItemSummary[];
+  camps: SpendCamp[];
   csrfToken: string;
 }
 
@@ -14,7 +43,12 @@ interface PlannerRow {
   /** Inventory item name this was linked to (for display) */
   linkedInventoryName?: string;
   name: string;
-  unitsNeeded: number;
+  /** Whole packs or units; null when an amount has no pack size to round to */
+  unitsNeeded: number | null;
+  /** Per-person amounts added up, e.g. "4.8kg" */
+  amount?: string;
+  /** Pack size of the linked item, e.g. "500g" */
+  pack?: string;
   /** null when not linked to any inventory item */
   inStock: number | null;
   /** null when not linked to any inventory item */
@@ -24,23 +58,137 @@ interface PlannerRow {
   batchCount?: number;
 }
 
-export default function MealPlannerForm({ meals, foodItems }: Props) {
+/** Units needed, or the amount when it can't be put in packs. */
+function needLabel(row: PlannerRow): string {
+  return row.unitsNeeded === null ? row.amount ?? "" : String(row.unitsNeeded);
+}
+
+function untrackedLabel(row: PlannerRow): string {
+  return row.linkedInventoryName ? "no pack size" : "not tracked";
+}
+
+export default function MealPlannerForm(
+  { meals, foodItems, camps, csrfToken }: Props,
+) {
   // Map of mealId → number of times it will be served (0 = not selected)
   const [counts, setCounts] = useState<Record<string, number>>(() =>
     Object.fromEntries(meals.map((m) => [m.id, 0]))
   );
   const [headcount, setHeadcount] = useState<number>(0);
+  const [dietary, setDietary] = useState<DietaryCounts>({});
   const [results, setResults] = useState<PlannerRow[] | null>(null);
-  // Ephemeral per-session links: ingredient name → inventory food name (or "" for unlinked)
-  const [links, setLinks] = useState<Record<string, string>>({});
+  // Ingredient name → inventory food name (or "" for unlinked). Starts from the
+  // links saved on each recipe; changes made here last for this session only.
+  const [links, setLinks] = useState<Record<string, string>>(() => {
+    const names = new Map(foodItems.map((f) => [f.id, f.name]));
+    const saved: Record<string, string> = {};
+    for (const meal of meals) {
+      for (const ing of meal.ingredients) {
+        const name = ing.itemId && names.get(ing.itemId);
+        if (name) saved[ing.name] = name;
+      }
+    }
+    return saved;
+  });
   const [copied, setCopied] = useState(false);
   const canShare = typeof navigator !== "undefined" && !!navigator.share;
+  const [spendCamps, setSpendCamps] = useState(camps);
+  const [spendCampId, setSpendCampId] = useState("");
+  const [spend, setSpend] = useState("");
+  const [spendStatus, setSpendStatus] = useState<
+    { ok: boolean; message: string } | null
+  >(null);
+  const [listCampId, setListCampId] = useState("");
+  const [listStatus, setListStatus] = useState<
+    { ok: boolean; message: string } | null
+  >(null);
+
+  async function saveSpend() {
+    const amount = Number(spend);
+    if (!spendCampId || spend === "" || !(amount >= 0)) return;
+    setSpendStatus(null);
+    try {
+      const res = await fetch(`/api/camps/${spendCampId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "X-CSRF-Token": csrfToken,
+        },
+        body: JSON.stringify({ shoppingSpend: amount }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Failed to save (${res.status}).`);
+      }
+      setSpendCamps((prev) =>
+        prev.map((c) =>
+          c.id === spendCampId ? { ...c, shoppingSpend: amount } : c
+        )
+      );
+      setSpendStatus({ ok: true, message: "Shopping spend saved." });
+    } catch (err) {
+      setSpendStatus({
+        ok: false,
+        message: err instanceof Error ? err.message : "Failed to save.",
+      });
+    }
+  }
+
+  // Saves the buy list as the camp's shopping list, replacing any earlier one
+  // — after asking, if that one has been ticked or completed
+  async function saveBuyList(toBuyList: PlannerRow[], replace = false) {
+    if (!listCampId) return;
+    setListStatus(null);
+    const idByName = new Map(
+      foodItems.map((f) => [f.name.toLowerCase(), f.id]),
+    );
+    const items = toBuyList.map((row) => ({
+      name: row.name,
+      quantity: (row.tracked ? row.toBuy : row.unitsNeeded) ?? undefined,
+      amount: row.amount,
+      itemId: row.linkedInventoryName
+        ? idByName.get(row.linkedInventoryName.toLowerCase())
+        : undefined,
+    }));
+    try {
+      const res = await fetch(`/api/camps/${listCampId}/shopping`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "X-CSRF-Token": csrfToken,
+        },
+        body: JSON.stringify({ items, replace }),
+      });
+      if (res.status === 409 && !replace) {
+        const body = await res.json().catch(() => ({}));
+        if (confirm(`${body.error ?? "The list is in use."}\n\nReplace it?`)) {
+          return await saveBuyList(toBuyList, true);
+        }
+        setListStatus({ ok: false, message: "Shopping list not replaced." });
+        return;
+      }
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Failed to save (${res.status}).`);
+      }
+      setListStatus({ ok: true, message: "Shopping list saved." });
+    } catch (err) {
+      setListStatus({
+        ok: false,
+        message: err instanceof Error ? err.message : "Failed to save.",
+      });
+    }
+  }
 
   function buildBuyText(toBuyList: PlannerRow[]): string {
     const lines = [`Shopping list for ${headcount} people`, ""];
     for (const row of toBuyList) {
-      const qty = row.tracked ? row.toBuy : row.unitsNeeded;
-      const note = !row.tracked ? " (not tracked)" : "";
+      const qty = row.tracked ? row.toBuy : needLabel(row);
+      const note = !row.tracked
+        ? ` (${untrackedLabel(row)})`
+        : row.pack
+        ? ` (${row.pack} packs)`
+        : "";
       lines.push(`• ${row.name}: ×${qty}${note}`);
     }
     return lines.join("\n");
@@ -59,18 +207,38 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
     });
   }
 
-  // Name-based stock map: aggregates quantity across all items sharing the same name
+  // Name-based stock map: aggregates quantity across all items sharing the
+  // same name (older data keeps one record per expiry date)
   const stockByName = new Map<string, { total: number; batchCount: number }>();
   for (const f of foodItems) {
     const key = f.name.toLowerCase();
+    const batchCount = f.batchCount ?? 1;
     const existing = stockByName.get(key);
     if (existing) {
       existing.total += f.quantity;
-      existing.batchCount += 1;
+      existing.batchCount += batchCount;
     } else {
-      stockByName.set(key, { total: f.quantity, batchCount: 1 });
+      stockByName.set(key, { total: f.quantity, batchCount });
     }
   }
+  const packByName = new Map<string, Quantity>();
+  for (const f of foodItems) {
+    const key = f.name.toLowerCase();
+    if (f.packSize && !packByName.has(key)) packByName.set(key, f.packSize);
+  }
+
+  // Dietary checks use the food items each recipe is linked to
+  const allergensById = new Map(
+    foodItems.map((f) => [f.id, f.allergens ?? []]),
+  );
+  const warnings = headcount > 0
+    ? dietaryWarnings(
+      meals.filter((m) => (counts[m.id] ?? 0) > 0),
+      dietary,
+      headcount,
+      allergensById,
+    )
+    : [];
 
   function setCount(mealId: string, value: number) {
     setCounts((prev) => ({ ...prev, [mealId]: Math.max(0, value) }));
@@ -94,22 +262,30 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
   function calculate() {
     if (headcount < 1) return;
 
-    // Accumulate units needed per ingredient name
-    const needed = new Map<string, number>();
+    // Accumulate what each ingredient needs, by name; per-person amounts are
+    // summed first and rounded to whole packs once
+    const needed = new Map<string, IngredientTotal>();
 
     for (const meal of meals) {
       const count = counts[meal.id] ?? 0;
       if (count === 0) continue;
       for (const ing of meal.ingredients) {
-        const units = Math.ceil((headcount * count) / ing.servingsPerUnit);
-        needed.set(ing.name, (needed.get(ing.name) ?? 0) + units);
+        needed.set(
+          ing.name,
+          addIngredient(needed.get(ing.name), ing, headcount * count),
+        );
       }
     }
 
     const rows: PlannerRow[] = [];
-    for (const [ingName, unitsNeeded] of needed.entries()) {
+    for (const [ingName, total] of needed.entries()) {
       const linkedName = links[ingName]; // inventory food name, or "" / undefined
-      if (linkedName) {
+      const amount = describeAmounts(total);
+      const packSize = linkedName
+        ? packByName.get(linkedName.toLowerCase())
+        : undefined;
+      const unitsNeeded = packsNeeded(total, packSize);
+      if (linkedName && unitsNeeded !== null) {
         const stockEntry = stockByName.get(linkedName.toLowerCase());
         const inStock = stockEntry?.total ?? 0;
         rows.push({
@@ -117,16 +293,21 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
           linkedInventoryName: linkedName,
           name: ingName,
           unitsNeeded,
+          amount,
+          pack: amount && packSize ? formatQuantity(packSize) : undefined,
           inStock,
           toBuy: Math.max(0, unitsNeeded - inStock),
           tracked: true,
           batchCount: stockEntry?.batchCount,
         });
       } else {
+        // Unlinked, or linked but measured by weight with no pack size
         rows.push({
           key: ingName,
+          linkedInventoryName: linkedName || undefined,
           name: ingName,
           unitsNeeded,
+          amount,
           inStock: null,
           toBuy: null,
           tracked: false,
@@ -171,6 +352,31 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
           />
         </div>
 
+        {/* Dietary requirements */}
+        <details>
+          <summary class="text-sm font-medium text-gray-700 dark:text-gray-300 cursor-pointer select-none">
+            Dietary requirements
+          </summary>
+          <div class="mt-3 grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {DIETARY_REQUIREMENTS.map((requirement) => (
+              <label
+                key={requirement}
+                class="text-xs text-gray-500 dark:text-gray-400"
+              >
+                {DIETARY_LABELS[requirement]}
+                <NumberInput
+                  value={dietary[requirement] || ""}
+                  min={0}
+                  placeholder="0"
+                  onChange={(n) =>
+                    setDietary((prev) => ({ ...prev, [requirement]: n }))}
+                  class="block mt-1 w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:ring-1 focus:ring-purple-500 focus:outline-none"
+                />
+              </label>
+            ))}
+          </div>
+        </details>
+
         {/* Meal selection */}
         <div>
           <p class="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
@@ -179,6 +385,10 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
           <div class="space-y-2">
             {meals.map((meal) => {
               const count = counts[meal.id] ?? 0;
+              const { unsuitableFor } = mealDietary(meal, allergensById);
+              const unsuitable = DIETARY_REQUIREMENTS
+                .filter((r) => unsuitableFor[r])
+                .map((r) => DIETARY_LABELS[r]);
               return (
                 <div key={meal.id} class="flex items-center gap-3">
                   <button
@@ -208,6 +418,13 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
                         — {meal.description}
                       </span>
                     )}
+                    {unsuitable.length > 0 && (
+                      <span class="text-xs text-amber-600 dark:text-amber-400 ml-1">
+                        {`· unsuitable for ${
+                          unsuitable.join(", ").toLowerCase()
+                        }`}
+                      </span>
+                    )}
                   </span>
                   {count > 0 && (
                     <div class="flex items-center gap-1.5 shrink-0">
@@ -236,6 +453,22 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
           </div>
         </div>
 
+        {/* Dietary warnings for the selected meals */}
+        {warnings.length > 0 && (
+          <div class="p-4 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-lg">
+            <p class="text-sm font-medium text-amber-800 dark:text-amber-200 mb-1">
+              ⚠️ Dietary requirements
+            </p>
+            <ul class="space-y-1 text-sm text-amber-800 dark:text-amber-200">
+              {warnings.map((w) => (
+                <li key={`${w.mealId}-${w.requirement}`}>
+                  {`${w.mealName}: ${describeWarning(w)}`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Ingredient → inventory links (shown once any meal is selected) */}
         {activeIngredientNames.length > 0 && (
           <div>
@@ -244,7 +477,8 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
             </p>
             <p class="text-xs text-gray-500 dark:text-gray-400 mb-3">
               Match each recipe ingredient to an inventory item so stock levels
-              can be checked. Leave blank to treat as untracked.
+              can be checked. Leave blank to treat as untracked. Links saved on
+              the recipe are filled in already.
             </p>
             <div class="space-y-2">
               {activeIngredientNames.map((ingName) => (
@@ -380,7 +614,7 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
                                 )}
                                 {!row.tracked && (
                                   <span class="ml-2 text-xs text-amber-600 dark:text-amber-400 font-normal">
-                                    (not tracked)
+                                    ({untrackedLabel(row)})
                                   </span>
                                 )}
                                 {row.tracked && row.batchCount &&
@@ -391,7 +625,12 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
                                 )}
                               </td>
                               <td class="px-4 py-3 text-right text-gray-700 dark:text-gray-300">
-                                {row.unitsNeeded}
+                                {needLabel(row)}
+                                {row.pack && (
+                                  <span class="block text-xs text-gray-400 dark:text-gray-500">
+                                    {`${row.amount} in ${row.pack} packs`}
+                                  </span>
+                                )}
                               </td>
                               <td class="px-4 py-3 text-right text-gray-700 dark:text-gray-300">
                                 {row.tracked
@@ -406,7 +645,7 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
                                 {!row.tracked
                                   ? (
                                     <span class="font-semibold text-amber-600 dark:text-amber-400">
-                                      {row.unitsNeeded}
+                                      {needLabel(row)}
                                     </span>
                                   )
                                   : (row.toBuy ?? 0) > 0
@@ -444,7 +683,7 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
                             {row.name}
                             {!row.tracked && (
                               <span class="ml-2 text-xs text-amber-600 dark:text-amber-400 font-normal">
-                                (not tracked)
+                                ({untrackedLabel(row)})
                               </span>
                             )}
                           </div>
@@ -458,7 +697,7 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
                             <span class="text-gray-500 dark:text-gray-400">
                               Needed:{" "}
                               <span class="font-medium text-gray-700 dark:text-gray-200">
-                                {row.unitsNeeded}
+                                {needLabel(row)}
                               </span>
                             </span>
                             <span class="text-gray-500 dark:text-gray-400">
@@ -477,7 +716,7 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
                               To buy: {!row.tracked
                                 ? (
                                   <span class="font-semibold text-amber-600 dark:text-amber-400">
-                                    {row.unitsNeeded}
+                                    {needLabel(row)}
                                   </span>
                                 )
                                 : (row.toBuy ?? 0) > 0
@@ -553,16 +792,68 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
                                   </span>
                                   {!row.tracked && (
                                     <span class="shrink-0 text-xs px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300">
-                                      not tracked
+                                      {untrackedLabel(row)}
                                     </span>
                                   )}
                                 </div>
                                 <span class="shrink-0 text-sm font-bold tabular-nums px-2.5 py-1 rounded-full bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300">
-                                  × {row.tracked ? row.toBuy : row.unitsNeeded}
+                                  × {row.tracked ? row.toBuy : needLabel(row)}
                                 </span>
                               </li>
                             ))}
                           </ul>
+                          {spendCamps.length > 0 && (
+                            <div class="mt-3 flex flex-wrap items-center gap-2">
+                              <select
+                                value={listCampId}
+                                onChange={(e) => {
+                                  setListCampId(
+                                    (e.target as HTMLSelectElement).value,
+                                  );
+                                  setListStatus(null);
+                                }}
+                                class="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:ring-1 focus:ring-purple-500 focus:outline-none"
+                              >
+                                <option value="">Save to a camp…</option>
+                                {spendCamps.map((c) => (
+                                  <option key={c.id} value={c.id}>
+                                    {`${c.name} (${
+                                      new Date(c.campDate).toLocaleDateString(
+                                        "en-GB",
+                                      )
+                                    })`}
+                                  </option>
+                                ))}
+                              </select>
+                              <button
+                                type="button"
+                                onClick={() => saveBuyList(toBuyList)}
+                                disabled={!listCampId}
+                                class="px-4 py-1.5 bg-purple-600 hover:bg-purple-700 disabled:opacity-40 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg transition-colors"
+                              >
+                                Save as shopping list
+                              </button>
+                              {listStatus && (
+                                <span
+                                  class={`text-sm ${
+                                    listStatus.ok
+                                      ? "text-green-600 dark:text-green-400"
+                                      : "text-red-600 dark:text-red-400"
+                                  }`}
+                                >
+                                  {listStatus.message}
+                                  {listStatus.ok && (
+                                    <a
+                                      href={`/camps/${listCampId}/shopping`}
+                                      class="ml-1 underline"
+                                    >
+                                      Open it
+                                    </a>
+                                  )}
+                                </span>
+                              )}
+                            </div>
+                          )}
                         </div>
                       );
                     })()}
@@ -571,6 +862,70 @@ export default function MealPlannerForm({ meals, foodItems }: Props) {
             </div>
           </div>
         )}
+
+        {/* Shopping spend — counted against the camp's costs and the food budget */}
+        {spendCamps.length > 0 && (
+          <div class="border-t border-gray-200 dark:border-gray-700 pt-6">
+            <h3 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-1">
+              💷 Record shopping spend
+            </h3>
+            <p class="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              What the shopping cost, for the camp's cost summary and the food
+              budget. Saving again replaces the amount.
+            </p>
+            <div class="flex flex-wrap items-center gap-2">
+              <select
+                value={spendCampId}
+                onChange={(e) => {
+                  const id = (e.target as HTMLSelectElement).value;
+                  setSpendCampId(id);
+                  const current = spendCamps.find((c) => c.id === id)
+                    ?.shoppingSpend;
+                  setSpend(current !== undefined ? String(current) : "");
+                  setSpendStatus(null);
+                }}
+                class="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:ring-1 focus:ring-purple-500 focus:outline-none"
+              >
+                <option value="">Choose a camp…</option>
+                {spendCamps.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {`${c.name} (${
+                      new Date(c.campDate).toLocaleDateString("en-GB")
+                    })`}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="£"
+                value={spend}
+                onInput={(e) => setSpend((e.target as HTMLInputElement).value)}
+                class="w-28 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:ring-1 focus:ring-purple-500 focus:outline-none"
+              />
+              <button
+                type="button"
+                onClick={saveSpend}
+                disabled={!spendCampId || spend === ""}
+                class="px-4 py-1.5 bg-purple-600 hover:bg-purple-700 disabled:opacity-40 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                Save
+              </button>
+            </div>
+            {spendStatus && (
+              <p
+                class={`mt-2 text-sm ${
+                  spendStatus.ok
+                    ? "text-green-600 dark:text-green-400"
+                    : "text-red-600 dark:text-red-400"
+                }`}
+              >
+                {spendStatus.message}
+              </p>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -56,8 +56,8 @@ export default function MobileNav({ username, role }: MobileNavProps) {
         role === "admin" ? fetchFeedbackCount() : Promise.resolve(0),
       ]);
       if (!cancelled) {
-        hamburgerCount.value =
-          compliance.firstAidDue + compliance.riskDue + feedback;
+        hamburgerCount.value = compliance.firstAidDue + compliance.riskDue +
+          feedback;
       }
     };
 
@@ -135,6 +135,14 @@ export default function MobileNav({ username, role }: MobileNavProps) {
             {role === "admin" && <FeedbackPendingBadge />}
           </a>
         )}
+        {role !== "explorer" && (
+          <a
+            href="/account/inbox"
+            class="hover:text-purple-200 transition-colors"
+          >
+            🔔 Inbox
+          </a>
+        )}
         <a
           href="/account/feedback"
           class="hover:text-purple-200 transition-colors"
@@ -197,7 +205,10 @@ export default function MobileNav({ username, role }: MobileNavProps) {
               class="flex items-center gap-2 px-6 py-3 hover:bg-purple-800 transition-colors"
             >
               <span>🩹 First Aid</span>
-              <ComplianceBadge type="first-aid" className="inline-flex min-w-5 items-center justify-center rounded-full bg-amber-500 px-1.5 py-0.5 text-[10px] font-semibold leading-none text-white" />
+              <ComplianceBadge
+                type="first-aid"
+                className="inline-flex min-w-5 items-center justify-center rounded-full bg-amber-500 px-1.5 py-0.5 text-[10px] font-semibold leading-none text-white"
+              />
             </a>
           )}
           {role !== "explorer" && (
@@ -206,7 +217,10 @@ export default function MobileNav({ username, role }: MobileNavProps) {
               class="flex items-center gap-2 px-6 py-3 hover:bg-purple-800 transition-colors"
             >
               <span>📝 Risk Assessments</span>
-              <ComplianceBadge type="risk" className="inline-flex min-w-5 items-center justify-center rounded-full bg-amber-500 px-1.5 py-0.5 text-[10px] font-semibold leading-none text-white" />
+              <ComplianceBadge
+                type="risk"
+                className="inline-flex min-w-5 items-center justify-center rounded-full bg-amber-500 px-1.5 py-0.5 text-[10px] font-semibold leading-none text-white"
+              />
             </a>
           )}
           {(role === "admin" || role === "manager") && (
@@ -234,6 +248,14 @@ export default function MobileNav({ username, role }: MobileNavProps) {
               )}
             </a>
           )}
+          {role !== "explorer" && (
+            <a
+              href="/account/inbox"
+              class="block px-6 py-3 hover:bg-purple-800 transition-colors"
+            >
+              🔔 Inbox
+            </a>
+          )}
           <a
             href="/account/feedback"
             class="block px-6 py-3 hover:bg-purple-800 transition-colors"
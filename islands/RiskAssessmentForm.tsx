@@ -4,6 +4,14 @@ import {
   type RiskAssessmentRisk,
   type RiskLevel,
 } from "../types/risk.ts";
+import {
+  formatRating,
+  initialRating,
+  LIKELIHOOD_LABELS,
+  residualRating,
+  RISK_SCALE,
+  SEVERITY_LABELS,
+} from "../lib/riskScoring.ts";
 
 interface FormRisk {
   id: string;
@@ -11,10 +19,20 @@ interface FormRisk {
   posedRisks: string;
   affectedWho: string;
   initialRiskLevel: RiskLevel;
+  initialLikelihood?: number;
+  initialSeverity?: number;
+  residualLikelihood?: number;
+  residualSeverity?: number;
   precautionsTaken: string;
   furtherActionNeeded: string;
 }
 
+type ScoreField =
+  | "initialLikelihood"
+  | "initialSeverity"
+  | "residualLikelihood"
+  | "residualSeverity";
+
 interface Props {
   csrfToken: string;
   actionValue: "create_assessment" | "update_assessment";
@@ -74,7 +92,11 @@ function sanitizeForSubmission(risks: FormRisk[]): RiskAssessmentRisk[] {
     hazards: risk.hazards.trim(),
     posedRisks: risk.posedRisks.trim(),
     affectedWho: risk.affectedWho.trim(),
-    initialRiskLevel: risk.initialRiskLevel,
+    initialRiskLevel: initialRating(risk).band,
+    initialLikelihood: risk.initialLikelihood,
+    initialSeverity: risk.initialSeverity,
+    residualLikelihood: risk.residualLikelihood,
+    residualSeverity: risk.residualSeverity,
     precautionsTaken: risk.precautionsTaken.trim(),
     furtherActionNeeded: risk.furtherActionNeeded.trim(),
   })).filter((risk) =>
@@ -84,6 +106,13 @@ function sanitizeForSubmission(risks: FormRisk[]): RiskAssessmentRisk[] {
   );
 }
 
+const bandClass: Record<RiskLevel, string> = {
+  Low: "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200",
+  Medium:
+    "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200",
+  High: "bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200",
+};
+
 function summarizeHazard(hazards: string): string {
   const cleaned = hazards.replace(/\s+/g, " ").trim();
   if (!cleaned) return "";
@@ -113,6 +142,28 @@ export default function RiskAssessmentForm(props: Props) {
     );
   }
 
+  function scoreSelect(
+    risk: FormRisk,
+    field: ScoreField,
+    labels: Record<number, string>,
+  ) {
+    return (
+      <select
+        value={risk[field] ?? ""}
+        onChange={(event) => {
+          const value = (event.currentTarget as HTMLSelectElement).value;
+          updateRisk(risk.id, { [field]: value ? Number(value) : undefined });
+        }}
+        class={inputClass}
+      >
+        <option value="">—</option>
+        {RISK_SCALE.map((n) => (
+          <option key={n} value={n}>{`${n} — ${labels[n]}`}</option>
+        ))}
+      </select>
+    );
+  }
+
   function addRiskRow() {
     risks.value = [...risks.value, createBlankRisk()];
   }
@@ -198,24 +249,76 @@ export default function RiskAssessmentForm(props: Props) {
                 </button>
               </div>
 
-              <div>
-                <label class="block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1">
-                  Risk Level
-                </label>
-                <select
-                  value={risk.initialRiskLevel}
-                  onChange={(event) =>
-                    updateRisk(risk.id, {
-                      initialRiskLevel:
-                        (event.currentTarget as HTMLSelectElement)
-                          .value as RiskLevel,
-                    })}
-                  class={inputClass}
-                >
-                  <option value="Low">Low</option>
-                  <option value="Medium">Medium</option>
-                  <option value="High">High</option>
-                </select>
+              <div class="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div class="space-y-2">
+                  <p class="text-xs font-semibold text-gray-600 dark:text-gray-400">
+                    Initial risk
+                    <span
+                      class={`ml-2 px-2 py-0.5 rounded ${
+                        bandClass[initialRating(risk).band]
+                      }`}
+                    >
+                      {formatRating(initialRating(risk))}
+                    </span>
+                  </p>
+                  <label class="block text-xs text-gray-600 dark:text-gray-400">
+                    Likelihood
+                    {scoreSelect(risk, "initialLikelihood", LIKELIHOOD_LABELS)}
+                  </label>
+                  <label class="block text-xs text-gray-600 dark:text-gray-400">
+                    Severity
+                    {scoreSelect(risk, "initialSeverity", SEVERITY_LABELS)}
+                  </label>
+                  {initialRating(risk).score === null && (
+                    <label class="block text-xs text-gray-600 dark:text-gray-400">
+                      Risk Level (until scored)
+                      <select
+                        value={risk.initialRiskLevel}
+                        onChange={(event) =>
+                          updateRisk(risk.id, {
+                            initialRiskLevel:
+                              (event.currentTarget as HTMLSelectElement)
+                                .value as RiskLevel,
+                          })}
+                        class={inputClass}
+                      >
+                        <option value="Low">Low</option>
+                        <option value="Medium">Medium</option>
+                        <option value="High">High</option>
+                      </select>
+                    </label>
+                  )}
+                </div>
+
+                <div class="space-y-2">
+                  <p class="text-xs font-semibold text-gray-600 dark:text-gray-400">
+                    Residual risk (with precautions)
+                    {residualRating(risk) && (
+                      <span
+                        class={`ml-2 px-2 py-0.5 rounded ${
+                          bandClass[residualRating(risk)!.band]
+                        }`}
+                      >
+                        {formatRating(residualRating(risk))}
+                      </span>
+                    )}
+                  </p>
+                  <label class="block text-xs text-gray-600 dark:text-gray-400">
+                    Likelihood
+                    {scoreSelect(risk, "residualLikelihood", LIKELIHOOD_LABELS)}
+                  </label>
+                  <label class="block text-xs text-gray-600 dark:text-gray-400">
+                    Severity
+                    {scoreSelect(risk, "residualSeverity", SEVERITY_LABELS)}
+                  </label>
+                  {residualRating(risk)?.band === "High" &&
+                    !risk.furtherActionNeeded.trim() && (
+                    <p class="text-xs text-red-700 dark:text-red-300">
+                      Still High — record the further action needed below before
+                      this assessment can be marked reviewed.
+                    </p>
+                  )}
+                </div>
               </div>
 
               <div>
@@ -0,0 +1,207 @@
+// Shopping list island — tick lines off in the shop, then put the food into stock
+import { useComputed, useSignal } from "@preact/signals";
+import type { ShoppingList, ShoppingListItem } from "../types/meals.ts";
+import { lineToBuy } from "../lib/shoppingList.ts";
+
+interface ShoppingChecklistProps {
+  list: ShoppingList;
+  /** Names of the food items lines are linked to, keyed by item id */
+  stockNames: Record<string, string>;
+  canEdit: boolean;
+  csrfToken?: string;
+}
+
+export default function ShoppingChecklist(
+  { list: initialList, stockNames, canEdit, csrfToken }: ShoppingChecklistProps,
+) {
+  const list = useSignal<ShoppingList>(initialList);
+  const pending = useSignal<Set<string>>(new Set());
+  const error = useSignal<string | null>(null);
+  const completed = !!list.value.completedAt;
+
+  const boughtCount = useComputed(() =>
+    list.value.items.filter((line) => line.bought).length
+  );
+  // Bought lines that can go into stock, and those that have to be added by hand
+  const toStock = useComputed(() =>
+    list.value.items.filter((line) =>
+      line.bought && line.itemId && stockNames[line.itemId]
+    )
+  );
+  const unlinked = useComputed(() =>
+    list.value.items.filter((line) =>
+      line.bought && !(line.itemId && stockNames[line.itemId])
+    )
+  );
+
+  async function toggle(line: ShoppingListItem) {
+    if (!canEdit || completed || pending.value.has(line.id)) return;
+    const bought = !line.bought;
+    const previous = list.value;
+    // Tick straight away — signal in a shop can be slow
+    list.value = {
+      ...previous,
+      items: previous.items.map((l) => l.id === line.id ? { ...l, bought } : l),
+    };
+    pending.value = new Set([...pending.value, line.id]);
+    error.value = null;
+    try {
+      const res = await fetch(`/api/camps/${list.value.campId}/shopping`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "X-CSRF-Token": csrfToken ?? "",
+        },
+        body: JSON.stringify({ lineId: line.id, bought }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Failed to save (${res.status}).`);
+      }
+      // Pick up ticks made by anyone else shopping from the same list
+      list.value = await res.json();
+    } catch (err) {
+      list.value = previous;
+      error.value = err instanceof Error ? err.message : "Failed to save.";
+    } finally {
+      const next = new Set(pending.value);
+      next.delete(line.id);
+      pending.value = next;
+    }
+  }
+
+  const inputClass =
+    "w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:ring-1 focus:ring-purple-500 focus:outline-none";
+
+  return (
+    <div class="space-y-6">
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div class="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3">
+          <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100">
+            🛒 Shopping List
+          </h2>
+          <span class="text-sm text-gray-500 dark:text-gray-400">
+            {`${boughtCount.value} of ${list.value.items.length} bought`}
+          </span>
+        </div>
+        {error.value && (
+          <p class="px-4 py-2 text-sm bg-red-50 dark:bg-red-950 text-red-700 dark:text-red-300">
+            {error.value}
+          </p>
+        )}
+        <ul class="divide-y divide-gray-100 dark:divide-gray-700">
+          {list.value.items.map((line) => (
+            <li key={line.id}>
+              <button
+                type="button"
+                onClick={() => toggle(line)}
+                disabled={!canEdit || completed}
+                class="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 disabled:cursor-default"
+                aria-pressed={line.bought}
+              >
+                <span
+                  class={`w-6 h-6 rounded border-2 flex items-center justify-center shrink-0 ${
+                    line.bought
+                      ? "bg-purple-600 border-purple-600 text-white"
+                      : "border-gray-300 dark:border-gray-500"
+                  }`}
+                >
+                  {line.bought && <span class="text-sm leading-none">✓</span>}
+                </span>
+                <span
+                  class={`flex-1 text-base ${
+                    line.bought
+                      ? "line-through text-gray-400 dark:text-gray-500"
+                      : "text-gray-800 dark:text-gray-100"
+                  }`}
+                >
+                  {line.name}
+                  {line.addedToStock !== undefined && (
+                    <span class="block text-xs text-green-600 dark:text-green-400 no-underline">
+                      {`${line.addedToStock} added to stock`}
+                    </span>
+                  )}
+                </span>
+                <span class="shrink-0 text-sm font-bold tabular-nums px-2.5 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+                  {line.quantity !== undefined
+                    ? `× ${lineToBuy(line)}`
+                    : lineToBuy(line)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {canEdit && !completed && (
+        <form
+          method="POST"
+          class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-4 sm:p-5"
+        >
+          <input type="hidden" name="csrf_token" value={csrfToken} />
+          <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-1">
+            ✅ Finished Shopping
+          </h2>
+          <p class="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Ticked food linked to stock is added as a new batch. Check the count
+            and enter the expiry date from the packet.
+          </p>
+          {toStock.value.length > 0 && (
+            <div class="space-y-3 mb-4">
+              {toStock.value.map((line) => (
+                <div
+                  key={line.id}
+                  class="grid grid-cols-2 sm:grid-cols-[1fr_6rem_10rem] gap-2 items-end"
+                >
+                  <p class="col-span-2 sm:col-span-1 text-sm text-gray-800 dark:text-gray-100">
+                    {line.name}
+                    {stockNames[line.itemId!] !== line.name && (
+                      <span class="ml-1 text-xs text-gray-400 dark:text-gray-500">
+                        → {stockNames[line.itemId!]}
+                      </span>
+                    )}
+                  </p>
+                  <label class="text-xs text-gray-500 dark:text-gray-400">
+                    Quantity
+                    <input
+                      type="number"
+                      name={`quantity-${line.id}`}
+                      min={0}
+                      required
+                      value={line.quantity ?? 1}
+                      class={inputClass}
+                    />
+                  </label>
+                  <label class="text-xs text-gray-500 dark:text-gray-400">
+                    Expiry date
+                    <input
+                      type="date"
+                      name={`expiry-${line.id}`}
+                      required
+                      class={inputClass}
+                    />
+                  </label>
+                </div>
+              ))}
+            </div>
+          )}
+          {unlinked.value.length > 0 && (
+            <p class="mb-4 text-xs text-amber-700 dark:text-amber-300">
+              {`Not linked to a food item, so add these to the inventory by hand if you keep them: ${
+                unlinked.value.map((line) => line.name).join(", ")
+              }.`}
+            </p>
+          )}
+          <button
+            type="submit"
+            class="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium rounded-lg"
+          >
+            {toStock.value.length > 0
+              ? "Add to Stock & Complete"
+              : "Mark List Complete"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,27 +1,22 @@
 // Interactive space switcher for the dashboard category breakdown
 import { useSignal } from "@preact/signals";
-import { getCategoryEmoji, getCategoryLabel } from "../types/inventory.ts";
+import {
+  getCategoryEmoji,
+  getCategoryLabel,
+  type StorageSpaceSummary,
+} from "../types/inventory.ts";
 
-interface CategoryBreakdown {
-  tent: { count: number; quantity: number };
-  cooking: { count: number; quantity: number };
-  food: { count: number; quantity: number };
-  fuel: { count: number; quantity: number };
-  "camping-tools": { count: number; quantity: number };
-  games: { count: number; quantity: number };
-  kit: { count: number; quantity: number };
-  kilt: { count: number; quantity: number };
-}
-
-interface SpaceBreakdown {
-  "camp-store": { count: number; quantity: number };
-  "scout-post-loft": { count: number; quantity: number };
-  "gas-storage-box": { count: number; quantity: number };
-}
+type CategoryBucket = { count: number; quantity: number };
 
 interface SpaceDashboardProps {
-  categoryBreakdown: CategoryBreakdown;
-  spaceBreakdown: SpaceBreakdown;
+  /** Registered storage spaces, in display order */
+  spaces: StorageSpaceSummary[];
+  spaceBreakdown: Record<string, CategoryBucket>;
+  /** Per-space category totals, keyed by space id then category */
+  spaceCategoryBreakdown: Record<
+    string,
+    Partial<Record<string, CategoryBucket>>
+  >;
   expiringFood: {
     expired: number;
     expiringSoon: number;
@@ -29,7 +24,22 @@ interface SpaceDashboardProps {
   };
 }
 
-type Space = "all" | "camp-store" | "scout-post-loft" | "gas-storage-box";
+// Accent colours cycle through the spaces so any number of them stay distinct
+const SPACE_ACCENTS = ["blue", "indigo", "orange", "green", "yellow", "red"];
+
+const ACTIVE_CLASS: Record<string, string> = {
+  purple:
+    "border-purple-500 bg-purple-50 dark:bg-purple-800 ring-2 ring-purple-400",
+  blue: "border-blue-500 bg-blue-50 dark:bg-blue-800 ring-2 ring-blue-400",
+  indigo:
+    "border-indigo-500 bg-indigo-50 dark:bg-indigo-800 ring-2 ring-indigo-400",
+  orange:
+    "border-orange-500 bg-orange-50 dark:bg-orange-900/40 ring-2 ring-orange-400",
+  green: "border-green-500 bg-green-50 dark:bg-green-800 ring-2 ring-green-400",
+  yellow:
+    "border-yellow-500 bg-yellow-50 dark:bg-yellow-900/40 ring-2 ring-yellow-400",
+  red: "border-red-500 bg-red-50 dark:bg-red-900/40 ring-2 ring-red-400",
+};
 
 function CategoryCard(
   { title, value, color, href }: {
@@ -73,65 +83,40 @@ function CategoryCard(
 }
 
 export default function SpaceDashboard(
-  { categoryBreakdown: c, spaceBreakdown: sb, expiringFood }:
+  { spaces, spaceBreakdown: sb, spaceCategoryBreakdown, expiringFood }:
     SpaceDashboardProps,
 ) {
-  const space = useSignal<Space>("all");
+  const space = useSignal<string>("all");
   const isOpen = useSignal(false);
-  const campStore = sb["camp-store"] ?? { count: 0, quantity: 0 };
-  const scoutPostLoft = sb["scout-post-loft"] ?? { count: 0, quantity: 0 };
-  const gasStorageBox = sb["gas-storage-box"] ?? { count: 0, quantity: 0 };
-
-  const totalCount = campStore.count + scoutPostLoft.count +
-    gasStorageBox.count;
-  const totalQty = campStore.quantity + scoutPostLoft.quantity +
-    gasStorageBox.quantity;
+  const empty: CategoryBucket = { count: 0, quantity: 0 };
 
-  const spaces: {
-    value: Space;
-    icon: string;
-    label: string;
-    count: number;
-    qty: number;
-    activeClass: string;
-  }[] = [
+  const cards = spaces.map((s, i) => {
+    const totals = sb[s.id] ?? empty;
+    const accent = SPACE_ACCENTS[i % SPACE_ACCENTS.length];
+    return {
+      value: s.id,
+      icon: s.icon,
+      label: s.name,
+      count: totals.count,
+      qty: totals.quantity,
+      accent,
+      activeClass: ACTIVE_CLASS[accent],
+    };
+  });
+  const selectorCards = [
     {
       value: "all",
       icon: "📦",
       label: "All Spaces",
-      count: totalCount,
-      qty: totalQty,
-      activeClass:
-        "border-purple-500 bg-purple-50 dark:bg-purple-800 ring-2 ring-purple-400",
-    },
-    {
-      value: "camp-store",
-      icon: "🏪",
-      label: "Camp Store",
-      count: campStore.count,
-      qty: campStore.quantity,
-      activeClass:
-        "border-blue-500 bg-blue-50 dark:bg-blue-800 ring-2 ring-blue-400",
-    },
-    {
-      value: "scout-post-loft",
-      icon: "🏠",
-      label: "Scout Post Loft",
-      count: scoutPostLoft.count,
-      qty: scoutPostLoft.quantity,
-      activeClass:
-        "border-indigo-500 bg-indigo-50 dark:bg-indigo-800 ring-2 ring-indigo-400",
-    },
-    {
-      value: "gas-storage-box",
-      icon: "🛢️",
-      label: "Gas Storage Box",
-      count: gasStorageBox.count,
-      qty: gasStorageBox.quantity,
-      activeClass:
-        "border-orange-500 bg-orange-50 dark:bg-orange-900/40 ring-2 ring-orange-400",
+      count: cards.reduce((sum, s) => sum + s.count, 0),
+      qty: cards.reduce((sum, s) => sum + s.qty, 0),
+      accent: "purple",
+      activeClass: ACTIVE_CLASS.purple,
     },
+    ...cards,
   ];
+  const foodExpiryTotal = expiringFood.expired + expiringFood.expiringSoon +
+    expiringFood.expiringWarning;
 
   return (
     <div class="mb-8">
@@ -160,7 +145,7 @@ export default function SpaceDashboard(
             aria-label="Filter by space"
             class="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-3.5 my-6"
           >
-            {spaces.map((s) => {
+            {selectorCards.map((s) => {
               const isActive = space.value === s.value;
               return (
                 <button
@@ -208,176 +193,108 @@ export default function SpaceDashboard(
           </div>
 
           <div class="flex flex-col gap-7 md:gap-8">
-            {/* Camp Store categories */}
-            {(space.value === "all" || space.value === "camp-store") && (
-              <div>
-                <h3 class="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-3">
-                  🏪 Camp Store — Categories
-                </h3>
-                <div class="grid grid-cols-2 md:grid-cols-4 gap-3.5">
-                  <CategoryCard
-                    title={`${getCategoryEmoji("tent")} ${
-                      getCategoryLabel("tent")
-                    }`}
-                    value={c.tent.quantity}
-                    color="blue"
-                    href="/inventory?category=tent"
-                  />
-                  <CategoryCard
-                    title={`${getCategoryEmoji("cooking")} ${
-                      getCategoryLabel("cooking")
-                    }`}
-                    value={c.cooking.quantity}
-                    color="purple"
-                    href="/inventory?category=cooking"
-                  />
-                  <CategoryCard
-                    title={`${getCategoryEmoji("food")} ${
-                      getCategoryLabel("food")
-                    }`}
-                    value={c.food.quantity}
-                    color="green"
-                    href="/inventory?category=food"
-                  />
-                  <CategoryCard
-                    title={`${getCategoryEmoji("camping-tools")} ${
-                      getCategoryLabel("camping-tools")
-                    }`}
-                    value={c["camping-tools"].quantity}
-                    color="yellow"
-                    href="/inventory?category=camping-tools"
-                  />
-                  <CategoryCard
-                    title={`${getCategoryEmoji("kit")} ${
-                      getCategoryLabel("kit")
-                    }`}
-                    value={c.kit.quantity}
-                    color="purple"
-                    href="/inventory?category=kit"
-                  />
-                  <CategoryCard
-                    title={`${getCategoryEmoji("kilt")} ${
-                      getCategoryLabel("kilt")
-                    }`}
-                    value={c.kilt.quantity}
-                    color="indigo"
-                    href="/inventory?category=kilt"
-                  />
-                </div>
-              </div>
-            )}
+            {cards.map((card, i) => {
+              if (space.value !== "all" && space.value !== card.value) {
+                return null;
+              }
+              const s = spaces[i];
+              const breakdown = spaceCategoryBreakdown[s.id] ?? {};
+              const categories = [
+                ...s.allowedCategories,
+                ...Object.keys(breakdown).filter((c) =>
+                  !(s.allowedCategories as string[]).includes(c)
+                ),
+              ];
+              return (
+                <div key={s.id} class="flex flex-col gap-7 md:gap-8">
+                  <div>
+                    <h3 class="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-3">
+                      {s.icon} {s.name} — Categories
+                    </h3>
+                    <div class="grid grid-cols-2 md:grid-cols-4 gap-3.5">
+                      {categories.map((category) => (
+                        <CategoryCard
+                          key={category}
+                          title={`${getCategoryEmoji(category)} ${
+                            getCategoryLabel(category)
+                          }`}
+                          value={breakdown[category]?.quantity ?? 0}
+                          color={card.accent}
+                          href={`/inventory?category=${category}&space=${s.id}`}
+                        />
+                      ))}
+                    </div>
+                  </div>
 
-            {/* Food Expiry — Camp Store only */}
-            {(space.value === "all" || space.value === "camp-store") &&
-              (expiringFood.expired + expiringFood.expiringSoon +
-                  expiringFood.expiringWarning) > 0 &&
-              (
-                <div>
-                  <h3 class="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-3">
-                    🏪 Camp Store — Food Expiry
-                  </h3>
-                  <div class="grid grid-cols-1 md:grid-cols-3 gap-3.5">
-                    {expiringFood.expired > 0 && (
-                      <a
-                        href="/reports/expiring"
-                        class="block rounded-lg hover:shadow-lg transition-shadow focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-purple-500"
-                      >
-                        <div class="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 border-t-4 border-red-500 rounded-lg p-5">
-                          <p class="text-sm font-semibold text-gray-600 dark:text-gray-300">
-                            ❌ Expired
-                          </p>
-                          <p class="text-3xl font-bold text-gray-900 dark:text-white mt-1">
-                            {expiringFood.expired}
-                          </p>
-                          <p class="text-xs text-gray-400 dark:text-gray-400 mt-1">
-                            Remove from inventory
-                          </p>
+                  {/* Food expiry — spaces that can hold food */}
+                  {s.allowedCategories.includes("food") &&
+                    foodExpiryTotal > 0 &&
+                    (
+                      <div>
+                        <h3 class="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-3">
+                          {s.icon} {s.name} — Food Expiry
+                        </h3>
+                        <div class="grid grid-cols-1 md:grid-cols-3 gap-3.5">
+                          {expiringFood.expired > 0 && (
+                            <a
+                              href="/reports/expiring"
+                              class="block rounded-lg hover:shadow-lg transition-shadow focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-purple-500"
+                            >
+                              <div class="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 border-t-4 border-red-500 rounded-lg p-5">
+                                <p class="text-sm font-semibold text-gray-600 dark:text-gray-300">
+                                  ❌ Expired
+                                </p>
+                                <p class="text-3xl font-bold text-gray-900 dark:text-white mt-1">
+                                  {expiringFood.expired}
+                                </p>
+                                <p class="text-xs text-gray-400 dark:text-gray-400 mt-1">
+                                  Remove from inventory
+                                </p>
+                              </div>
+                            </a>
+                          )}
+                          {expiringFood.expiringSoon > 0 && (
+                            <a
+                              href="/reports/expiring"
+                              class="block rounded-lg hover:shadow-lg transition-shadow focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-purple-500"
+                            >
+                              <div class="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 border-t-4 border-orange-500 rounded-lg p-5">
+                                <p class="text-sm font-semibold text-gray-600 dark:text-gray-300">
+                                  🔴 Expiring Soon
+                                </p>
+                                <p class="text-3xl font-bold text-gray-900 dark:text-white mt-1">
+                                  {expiringFood.expiringSoon}
+                                </p>
+                                <p class="text-xs text-gray-400 dark:text-gray-400 mt-1">
+                                  Within 7 days
+                                </p>
+                              </div>
+                            </a>
+                          )}
+                          {expiringFood.expiringWarning > 0 && (
+                            <a
+                              href="/reports/expiring"
+                              class="block rounded-lg hover:shadow-lg transition-shadow focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-purple-500"
+                            >
+                              <div class="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 border-t-4 border-yellow-500 rounded-lg p-5">
+                                <p class="text-sm font-semibold text-gray-600 dark:text-gray-300">
+                                  🟡 Expiring Warning
+                                </p>
+                                <p class="text-3xl font-bold text-gray-900 dark:text-white mt-1">
+                                  {expiringFood.expiringWarning}
+                                </p>
+                                <p class="text-xs text-gray-400 dark:text-gray-400 mt-1">
+                                  Within 30 days
+                                </p>
+                              </div>
+                            </a>
+                          )}
                         </div>
-                      </a>
+                      </div>
                     )}
-                    {expiringFood.expiringSoon > 0 && (
-                      <a
-                        href="/reports/expiring"
-                        class="block rounded-lg hover:shadow-lg transition-shadow focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-purple-500"
-                      >
-                        <div class="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 border-t-4 border-orange-500 rounded-lg p-5">
-                          <p class="text-sm font-semibold text-gray-600 dark:text-gray-300">
-                            🔴 Expiring Soon
-                          </p>
-                          <p class="text-3xl font-bold text-gray-900 dark:text-white mt-1">
-                            {expiringFood.expiringSoon}
-                          </p>
-                          <p class="text-xs text-gray-400 dark:text-gray-400 mt-1">
-                            Within 7 days
-                          </p>
-                        </div>
-                      </a>
-                    )}
-                    {expiringFood.expiringWarning > 0 && (
-                      <a
-                        href="/reports/expiring"
-                        class="block rounded-lg hover:shadow-lg transition-shadow focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-purple-500"
-                      >
-                        <div class="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 border-t-4 border-yellow-500 rounded-lg p-5">
-                          <p class="text-sm font-semibold text-gray-600 dark:text-gray-300">
-                            🟡 Expiring Warning
-                          </p>
-                          <p class="text-3xl font-bold text-gray-900 dark:text-white mt-1">
-                            {expiringFood.expiringWarning}
-                          </p>
-                          <p class="text-xs text-gray-400 dark:text-gray-400 mt-1">
-                            Within 30 days
-                          </p>
-                        </div>
-                      </a>
-                    )}
-                  </div>
                 </div>
-              )}
-
-            {/* Scout Post Loft categories */}
-            {(space.value === "all" || space.value === "scout-post-loft") && (
-              <div>
-                <h3 class="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-3">
-                  🏠 Scout Post Loft — Categories
-                </h3>
-                <div class="grid grid-cols-2 md:grid-cols-4 gap-3.5">
-                  <CategoryCard
-                    title="⚽ Games"
-                    value={c.games.quantity}
-                    color="indigo"
-                    href="/inventory?category=games"
-                  />
-                  <CategoryCard
-                    title={`${getCategoryEmoji("kit")} ${
-                      getCategoryLabel("kit")
-                    }`}
-                    value={c.kit.quantity}
-                    color="purple"
-                    href="/inventory?category=kit"
-                  />
-                </div>
-              </div>
-            )}
-
-            {/* Gas Storage summary */}
-            {(space.value === "all" || space.value === "gas-storage-box") && (
-              <div>
-                <h3 class="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-3">
-                  🛢️ Gas Storage Box
-                </h3>
-                <div class="grid grid-cols-2 md:grid-cols-4 gap-3.5">
-                  <CategoryCard
-                    title={`${getCategoryEmoji("fuel")} ${
-                      getCategoryLabel("fuel")
-                    }`}
-                    value={c.fuel.quantity}
-                    color="orange"
-                    href="/inventory?category=fuel"
-                  />
-                </div>
-              </div>
-            )}
+              );
+            })}
           </div>
         </>
       )}
@@ -4,9 +4,21 @@
 //   ["activity", "log", <inverted-epoch>, <uuid>]  →  ActivityEntry
 //
 // Inverted epoch (Number.MAX_SAFE_INTEGER − Date.now()) makes KV prefix scans
-// return entries newest-first without any client-side sorting.
+// return entries newest-first without any client-side sorting, and turns a
+// date range into a key range.
 //
-// Entries expire after 90 days to prevent unbounded KV growth.
+// Entries live in KV for 90 days. When R2 is configured a nightly job moves
+// entries older than 80 days to R2 — well before any of them can expire — as
+// one JSON object per month and run:
+//   activity/archive/<YYYY-MM>/<run-timestamp>.json  →  ActivityEntry[]
+// and queries read through to the archive once KV runs out. Without R2,
+// entries simply expire after 90 days to prevent unbounded KV growth.
+import {
+  getR2Object,
+  isR2Configured,
+  listR2ObjectsByPrefix,
+  putR2Object,
+} from "./r2Photos.ts";
 
 export type ActivityAction =
   | "user.login"
@@ -24,16 +36,38 @@ export type ActivityAction =
   | "feedback.reviewed"
   | "item.qr_failed"
   | "item.maintenance_logged"
+  | "item.units_added"
+  | "item.unit_updated"
+  | "item.unit_deleted"
+  | "item.batch_added"
+  | "item.batch_updated"
+  | "item.batches_merged"
+  | "item.reverted"
   | "items.imported"
   | "item.bulk_moved"
+  | "location.created"
+  | "location.updated"
+  | "location.deleted"
+  | "space.created"
+  | "space.updated"
+  | "space.deleted"
   | "camp.created"
   | "camp.updated"
   | "camp.deleted"
+  | "camp.menu_updated"
+  | "camp.shopping_list_created"
+  | "camp.shopping_list_completed"
   | "camp_templates.imported"
   | "first_aid.kit_created"
   | "first_aid.kit_deleted"
   | "first_aid.check_completed"
   | "first_aid.check_reset"
+  | "first_aid.stock_received"
+  | "first_aid.stock_removed"
+  | "first_aid.kits_restocked"
+  | "first_aid.profile_saved"
+  | "first_aid.profile_deleted"
+  | "first_aid.profile_applied"
   | "risk_assessment.created"
   | "risk_assessment.updated"
   | "risk_assessment.deleted"
@@ -47,11 +81,26 @@ export type ActivityAction =
   | "loan.created"
   | "loan.returned"
   | "loan.cancelled"
+  | "loan.reserved"
+  | "loan.collected"
+  | "loan.no_show"
+  | "borrower.created"
+  | "borrower.updated"
+  | "borrower.deleted"
+  | "purchase.requested"
+  | "purchase.approved"
+  | "purchase.rejected"
+  | "purchase.ordered"
+  | "purchase.received"
+  | "purchase.cancelled"
   | "neckers.made"
   | "neckers.stock_adjusted"
   | "neckers.created_reset"
   | "neckers.total_set"
   | "stocktake.completed"
+  | "notifications.updated"
+  | "depreciation.updated"
+  | "budget.updated"
   | "easter_egg.found"
   | "db.cleared";
 
@@ -69,6 +118,20 @@ export interface ActivityEntry {
 
 const LOG_PREFIX = ["activity", "log"] as const;
 const NINETY_DAYS_MS = 90 * 24 * 60 * 60 * 1000;
+/** KV expiry while R2 archiving is on — a safety net well past the 90 days. */
+const ARCHIVED_EXPIRY_MS = 2 * NINETY_DAYS_MS;
+/**
+ * Age at which entries move to R2. Kept short of NINETY_DAYS_MS so entries
+ * written with the plain 90-day expiry are archived before KV drops them.
+ */
+export const ARCHIVE_AFTER_MS = 80 * 24 * 60 * 60 * 1000;
+const ARCHIVE_PREFIX = "activity/archive/";
+/** Entries moved to R2 per archive run, to bound memory. */
+const ARCHIVE_BATCH = 5000;
+/** Archive months searched when a query gives no `from` date. */
+export const ARCHIVE_DEFAULT_MONTHS = 12;
+/** Entries examined per query page before handing back a cursor. */
+const MAX_SCAN = 5000;
 const ACTIVITY_LOG_ENABLED =
   Deno.env.get("ACTIVITY_LOG_ENABLED")?.toLowerCase() !== "false";
 
@@ -87,8 +150,8 @@ function getKv(): Promise<Deno.Kv> {
 }
 
 /** Produces a zero-padded inverted epoch so KV scans return entries newest-first. */
-function invertedEpoch(): string {
-  return String(Number.MAX_SAFE_INTEGER - Date.now()).padStart(17, "0");
+function invertedEpoch(ms = Date.now()): string {
+  return String(Number.MAX_SAFE_INTEGER - ms).padStart(17, "0");
 }
 
 /**
@@ -110,7 +173,7 @@ export async function logActivity(
     await kv.set(
       key,
       { ...entry, id, timestamp } satisfies ActivityEntry,
-      { expireIn: NINETY_DAYS_MS },
+      { expireIn: isR2Configured() ? ARCHIVED_EXPIRY_MS : NINETY_DAYS_MS },
     );
     invalidateActivityCache();
   } catch (err) {
@@ -172,3 +235,286 @@ export async function getRecentActivity(limit = 100): Promise<ActivityEntry[]> {
   };
   return entries;
 }
+
+// ===== QUERYING =====
+
+export const ACTION_CATEGORIES: { label: string; prefix: string }[] = [
+  { label: "Items", prefix: "item." },
+  { label: "Imports", prefix: "items." },
+  { label: "Locations", prefix: "location." },
+  { label: "Spaces", prefix: "space." },
+  { label: "Shopping Lists", prefix: "camp.shopping_list_" },
+  { label: "Camps", prefix: "camp" },
+  { label: "Meals", prefix: "meal." },
+  { label: "First Aid", prefix: "first_aid." },
+  { label: "Risk Assessments", prefix: "risk_assessment." },
+  { label: "Loans", prefix: "loan." },
+  { label: "Borrowers", prefix: "borrower." },
+  { label: "Purchasing", prefix: "purchase." },
+  { label: "Budgets", prefix: "budget." },
+  { label: "Notifications", prefix: "notifications." },
+  { label: "Feedback", prefix: "feedback." },
+  { label: "Users", prefix: "user." },
+  { label: "Other", prefix: "" },
+];
+
+export function matchesActionCategory(
+  action: string,
+  category: string,
+): boolean {
+  if (!category) return true;
+  const cat = ACTION_CATEGORIES.find((c) => c.label === category);
+  if (!cat) return true;
+  if (cat.prefix === "") {
+    // "Other" — anything that doesn't match the other prefixes
+    return !ACTION_CATEGORIES.filter((c) => c.prefix).some((c) =>
+      action.startsWith(c.prefix)
+    );
+  }
+  return action.startsWith(cat.prefix);
+}
+
+export interface ActivityQuery {
+  /** Earliest timestamp, inclusive */
+  from?: Date;
+  /** Latest timestamp, inclusive */
+  to?: Date;
+  username?: string;
+  /** An ACTION_CATEGORIES label */
+  category?: string;
+  /** Text matched against resource name, id and details */
+  resource?: string;
+}
+
+export function activityMatches(
+  entry: ActivityEntry,
+  query: ActivityQuery,
+): boolean {
+  const time = new Date(entry.timestamp).getTime();
+  if (query.from && time < query.from.getTime()) return false;
+  if (query.to && time > query.to.getTime()) return false;
+  if (query.username && entry.username !== query.username) return false;
+  if (query.category && !matchesActionCategory(entry.action, query.category)) {
+    return false;
+  }
+  if (query.resource) {
+    const needle = query.resource.toLowerCase();
+    const haystack = [entry.resource, entry.resourceId, entry.details]
+      .filter(Boolean).join(" ").toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  return true;
+}
+
+/** KV key range covering the query's dates. */
+function logSelector(query: ActivityQuery): Deno.KvListSelector {
+  const start = query.to
+    ? [...LOG_PREFIX, invertedEpoch(query.to.getTime())]
+    : undefined;
+  // Keys sort newest-first, so the range ends just past the `from` instant
+  const end = query.from
+    ? [...LOG_PREFIX, invertedEpoch(query.from.getTime() - 1)]
+    : undefined;
+  if (start && end) return { start, end };
+  if (start) return { prefix: LOG_PREFIX, start };
+  if (end) return { prefix: LOG_PREFIX, end };
+  return { prefix: LOG_PREFIX };
+}
+
+/** Activity page filters from a query string, with the query they build. */
+export function readActivityFilters(url: URL) {
+  const param = (key: string) => url.searchParams.get(key)?.trim() ?? "";
+  const day = (value: string) => {
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? new Date(`${value}T00:00:00Z`)
+      : null;
+    return date && !isNaN(date.getTime()) ? date : undefined;
+  };
+  const userFilter = param("user");
+  const actionFilter = param("action");
+  const resourceFilter = param("resource");
+  const fromFilter = param("from");
+  const toFilter = param("to");
+  const to = day(toFilter);
+  const query: ActivityQuery = {
+    username: userFilter || undefined,
+    category: actionFilter || undefined,
+    resource: resourceFilter || undefined,
+    from: day(fromFilter),
+    // The "to" day is inclusive
+    to: to && new Date(to.getTime() + 24 * 60 * 60 * 1000 - 1),
+  };
+  return {
+    query,
+    userFilter,
+    actionFilter,
+    resourceFilter,
+    fromFilter,
+    toFilter,
+  };
+}
+
+export interface ActivityPage {
+  entries: ActivityEntry[];
+  /** Pass back to queryActivity for the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * One page of matching entries, newest first. Pages through KV and then, once
+ * KV is exhausted, through the R2 archive. Cursors are `kv:<kv cursor>` or
+ * `archive:<offset>`. A page can come back short when MAX_SCAN entries were
+ * examined without filling it — the cursor then resumes the search.
+ */
+export async function queryActivity(
+  query: ActivityQuery,
+  cursor = "",
+  limit = 100,
+): Promise<ActivityPage> {
+  const entries: ActivityEntry[] = [];
+  const [source, position = ""] = cursor.split(/:(.*)/s);
+
+  if (source !== "archive") {
+    const kv = await getKv();
+    const iter = kv.list<ActivityEntry>(logSelector(query), {
+      cursor: position || undefined,
+    });
+    let scanned = 0;
+    for await (const entry of iter) {
+      if (activityMatches(entry.value, query)) entries.push(entry.value);
+      if (entries.length === limit || ++scanned === MAX_SCAN) {
+        return { entries, nextCursor: `kv:${iter.cursor}` };
+      }
+    }
+    if (!isR2Configured()) return { entries };
+  }
+
+  const archived = (await getArchivedActivity(query))
+    .filter((entry) => activityMatches(entry, query));
+  const offset = source === "archive" ? Number(position) || 0 : 0;
+  const end = offset + limit - entries.length;
+  entries.push(...archived.slice(offset, end));
+  return {
+    entries,
+    nextCursor: end < archived.length ? `archive:${end}` : undefined,
+  };
+}
+
+/** Every matching entry, live and archived, for export. */
+export async function exportActivity(
+  query: ActivityQuery,
+  max = 50_000,
+): Promise<ActivityEntry[]> {
+  const all: ActivityEntry[] = [];
+  let cursor: string | undefined = "";
+  while (cursor !== undefined && all.length < max) {
+    const page: ActivityPage = await queryActivity(query, cursor, 1000);
+    all.push(...page.entries);
+    cursor = page.nextCursor;
+  }
+  return all.slice(0, max);
+}
+
+// ===== ARCHIVE =====
+
+// Archive objects are immutable once written, so they are cached for the
+// lifetime of the isolate.
+const archiveObjectCache = new Map<string, ActivityEntry[]>();
+
+/** Calendar month of a date, as used in archive object keys. */
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * First and last archive month a query reads. Without a `from` date only the
+ * ARCHIVE_DEFAULT_MONTHS up to `to` (or now) are read, rather than every
+ * object ever archived.
+ */
+export function archiveMonthRange(
+  query: Pick<ActivityQuery, "from" | "to">,
+  now = new Date(),
+): { fromMonth: string; toMonth: string } {
+  const to = query.to ?? now;
+  const from = query.from ?? new Date(Date.UTC(
+    to.getUTCFullYear(),
+    to.getUTCMonth() - (ARCHIVE_DEFAULT_MONTHS - 1),
+    1,
+  ));
+  return { fromMonth: monthKey(from), toMonth: monthKey(to) };
+}
+
+/** Archived entries in the months the query covers, newest first. */
+async function getArchivedActivity(
+  query: ActivityQuery,
+): Promise<ActivityEntry[]> {
+  const { fromMonth, toMonth } = archiveMonthRange(query);
+  const objects = (await listR2ObjectsByPrefix(ARCHIVE_PREFIX)).filter(
+    (obj) => {
+      const month = obj.key.slice(
+        ARCHIVE_PREFIX.length,
+        ARCHIVE_PREFIX.length + 7,
+      );
+      return month >= fromMonth && month <= toMonth;
+    },
+  );
+  const entries: ActivityEntry[] = [];
+  for (const obj of objects) {
+    let cached = archiveObjectCache.get(obj.key);
+    if (!cached) {
+      const stored = await getR2Object(obj.key);
+      cached = stored
+        ? JSON.parse(new TextDecoder().decode(stored.data)) as ActivityEntry[]
+        : [];
+      archiveObjectCache.set(obj.key, cached);
+    }
+    entries.push(...cached);
+  }
+  return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/** Whether an entry is old enough to move from KV to the R2 archive. */
+export function isArchiveDue(
+  entry: Pick<ActivityEntry, "timestamp">,
+  now = new Date(),
+): boolean {
+  return new Date(entry.timestamp).getTime() <=
+    now.getTime() - ARCHIVE_AFTER_MS;
+}
+
+/**
+ * Moves entries older than 80 days from KV to the R2 archive. Each entry is
+ * deleted only after the object holding it has been written. Returns how many
+ * entries were archived (at most ARCHIVE_BATCH per run).
+ */
+export async function archiveOldActivity(now = new Date()): Promise<number> {
+  if (!isR2Configured()) return 0;
+  const kv = await getKv();
+  const old: Deno.KvEntry<ActivityEntry>[] = [];
+  for await (
+    const entry of kv.list<ActivityEntry>({
+      prefix: LOG_PREFIX,
+      start: [...LOG_PREFIX, invertedEpoch(now.getTime() - ARCHIVE_AFTER_MS)],
+    }, { limit: ARCHIVE_BATCH })
+  ) {
+    if (isArchiveDue(entry.value, now)) old.push(entry);
+  }
+  if (old.length === 0) return 0;
+
+  const byMonth = new Map<string, Deno.KvEntry<ActivityEntry>[]>();
+  for (const entry of old) {
+    const month = entry.value.timestamp.slice(0, 7);
+    byMonth.set(month, [...byMonth.get(month) ?? [], entry]);
+  }
+  const runStamp = now.toISOString().replace(/[:.]/g, "-");
+  for (const [month, entries] of byMonth) {
+    await putR2Object(
+      `${ARCHIVE_PREFIX}${month}/${runStamp}.json`,
+      new TextEncoder().encode(JSON.stringify(entries.map((e) => e.value))),
+      "application/json",
+    );
+    await Promise.all(entries.map((e) => kv.delete(e.key)));
+  }
+  invalidateActivityCache();
+  return old.length;
+}
@@ -0,0 +1,89 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import {
+  type ActivityEntry,
+  activityMatches,
+  ARCHIVE_AFTER_MS,
+  archiveMonthRange,
+  isArchiveDue,
+  matchesActionCategory,
+  readActivityFilters,
+} from "./activityLog.ts";
+
+const entry: ActivityEntry = {
+  id: "1",
+  timestamp: "2025-11-03T18:45:00.000Z",
+  username: "akela",
+  action: "loan.returned",
+  resource: "Patrol Tent",
+  resourceId: "abc123",
+  details: "2 of 2 returned — needs repair",
+};
+
+Deno.test("filters combine user, category, resource text and dates", () => {
+  assertEquals(
+    activityMatches(entry, {
+      username: "akela",
+      category: "Loans",
+      resource: "TENT",
+    }),
+    true,
+  );
+  assertEquals(activityMatches(entry, { resource: "needs repair" }), true);
+  assertEquals(activityMatches(entry, { category: "Items" }), false);
+  assertEquals(activityMatches(entry, { username: "bagheera" }), false);
+});
+
+Deno.test("the to date includes the whole day", () => {
+  const url = (qs: string) => new URL(`http://localhost/admin/activity?${qs}`);
+  const { query } = readActivityFilters(url("from=2025-11-03&to=2025-11-03"));
+
+  assertEquals(activityMatches(entry, query), true);
+  assertEquals(
+    activityMatches(entry, readActivityFilters(url("to=2025-11-02")).query),
+    false,
+  );
+  assertEquals(
+    readActivityFilters(url("from=yesterday")).query.from,
+    undefined,
+  );
+});
+
+Deno.test("purchasing, budget, meal and shopping list actions have categories", () => {
+  assertEquals(matchesActionCategory("purchase.requested", "Purchasing"), true);
+  assertEquals(matchesActionCategory("budget.updated", "Budgets"), true);
+  assertEquals(matchesActionCategory("meal.created", "Meals"), true);
+  assertEquals(
+    matchesActionCategory("camp.shopping_list_created", "Shopping Lists"),
+    true,
+  );
+  assertEquals(matchesActionCategory("camp.updated", "Shopping Lists"), false);
+  assertEquals(matchesActionCategory("purchase.requested", "Other"), false);
+});
+
+Deno.test("the archive is read for the last 12 months unless a from date is set", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+  assertEquals(archiveMonthRange({}, now), {
+    fromMonth: "2025-11",
+    toMonth: "2026-10",
+  });
+  assertEquals(archiveMonthRange({ to: new Date("2026-03-31") }, now), {
+    fromMonth: "2025-04",
+    toMonth: "2026-03",
+  });
+  assertEquals(archiveMonthRange({ from: new Date("2020-01-15") }, now), {
+    fromMonth: "2020-01",
+    toMonth: "2026-10",
+  });
+});
+
+Deno.test("entries are archived well before their 90-day expiry", () => {
+  const now = new Date("2026-10-19T03:00:00.000Z");
+  const aged = (ms: number) => ({
+    timestamp: new Date(now.getTime() - ms).toISOString(),
+  });
+  const day = 24 * 60 * 60 * 1000;
+  assertEquals(isArchiveDue(aged(ARCHIVE_AFTER_MS), now), true);
+  assertEquals(isArchiveDue(aged(ARCHIVE_AFTER_MS - 1), now), false);
+  // The oldest day still in KV, a day before it would expire
+  assertEquals(isArchiveDue(aged(89 * day), now), true);
+});
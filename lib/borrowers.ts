@@ -0,0 +1,85 @@
+// Borrower directory helpers — matching typed names to directory entries and
+// summarising a borrower's loan record. Pure functions: shared by the loans
+// API, the borrower pages and the loan form.
+import {
+  type Borrower,
+  type CheckOut,
+  isActiveLoan,
+} from "../types/inventory.ts";
+import { dayKey } from "./campReservations.ts";
+import { isNoShow } from "./loanReservations.ts";
+
+/** Case- and spacing-insensitive form of a name, for spotting duplicates. */
+export function normalizeBorrowerName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function findBorrowerByName<T extends Pick<Borrower, "name">>(
+  borrowers: T[],
+  name: string,
+): T | undefined {
+  const key = normalizeBorrowerName(name);
+  return borrowers.find((b) => normalizeBorrowerName(b.name) === key);
+}
+
+export interface BorrowerStanding {
+  /** Loans ever recorded, not counting reservations */
+  totalLoans: number;
+  /** Loans still out */
+  active: number;
+  /** Loans still out past their return date */
+  overdue: CheckOut[];
+  /** Loans that came back after their return date */
+  returnedLate: number;
+  /** Reservations never collected */
+  noShows: number;
+}
+
+export function borrowerStanding(
+  loans: CheckOut[],
+  now: Date = new Date(),
+): BorrowerStanding {
+  const standing: BorrowerStanding = {
+    totalLoans: 0,
+    active: 0,
+    overdue: [],
+    returnedLate: 0,
+    noShows: 0,
+  };
+  for (const loan of loans) {
+    if (isNoShow(loan, now)) standing.noShows++;
+    if (loan.status === "reserved" || loan.status === "no-show") continue;
+    // A partial return is part of the loan it was split from
+    if (!loan.splitFromId) standing.totalLoans++;
+    if (isActiveLoan(loan)) {
+      standing.active++;
+      if (new Date(loan.expectedReturnDate) < now) standing.overdue.push(loan);
+    } else if (
+      loan.actualReturnDate &&
+      dayKey(loan.actualReturnDate) > dayKey(loan.expectedReturnDate)
+    ) {
+      standing.returnedLate++;
+    }
+  }
+  return standing;
+}
+
+/** Borrower fields posted from the directory forms. */
+export function readBorrowerFields(form: FormData) {
+  const text = (key: string) => String(form.get(key) ?? "").trim();
+  const name = text("name").replace(/\s+/g, " ");
+  if (!name) throw new Error("Borrower name is required.");
+  if (name.length > 100) {
+    throw new Error("Borrower name must be 100 characters or fewer.");
+  }
+  if (text("notes").length > 500) {
+    throw new Error("Notes must be 500 characters or fewer.");
+  }
+  return {
+    name,
+    section: text("section").slice(0, 100) || undefined,
+    contact: text("contact").slice(0, 100) || undefined,
+    userId: text("userId") || undefined,
+    notes: text("notes") || undefined,
+  };
+}
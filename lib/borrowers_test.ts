@@ -0,0 +1,75 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type { CheckOut } from "../types/inventory.ts";
+import {
+  borrowerStanding,
+  findBorrowerByName,
+  normalizeBorrowerName,
+} from "./borrowers.ts";
+
+function loan(
+  id: string,
+  status: CheckOut["status"],
+  from: string,
+  due: string,
+  extra: Partial<CheckOut> = {},
+): CheckOut {
+  return {
+    id,
+    itemId: "gazebo",
+    itemName: "Gazebo",
+    borrower: "Cubs",
+    quantity: 1,
+    checkOutDate: new Date(from),
+    expectedReturnDate: new Date(due),
+    status,
+    ...extra,
+  };
+}
+
+const now = new Date("2026-06-15T10:00:00Z");
+
+Deno.test("borrower names match regardless of case and spacing", () => {
+  assertEquals(normalizeBorrowerName("  Beaver   Colony "), "beaver colony");
+  const borrowers = [
+    { id: "a", name: "Cubs" },
+    { id: "b", name: "Beaver Colony" },
+  ];
+  assertEquals(findBorrowerByName(borrowers, "beaver  colony")?.id, "b");
+  assertEquals(findBorrowerByName(borrowers, " CUBS\t")?.id, "a");
+  assertEquals(findBorrowerByName(borrowers, "Scouts"), undefined);
+  assertEquals(findBorrowerByName(borrowers, "Beavers"), undefined);
+});
+
+Deno.test("standing counts active, overdue, late and no-show loans", () => {
+  const standing = borrowerStanding([
+    loan("out", "checked-out", "2026-06-10", "2026-06-20"),
+    loan("overdue", "checked-out", "2026-06-01", "2026-06-10"),
+    loan("on-time", "returned", "2026-05-01", "2026-05-08", {
+      actualReturnDate: new Date("2026-05-08T20:00:00Z"),
+    }),
+    loan("late", "returned", "2026-05-01", "2026-05-08", {
+      actualReturnDate: new Date("2026-05-09T09:00:00Z"),
+    }),
+    loan("lapsed", "reserved", "2026-06-01", "2026-06-05"),
+    loan("missed", "no-show", "2026-04-01", "2026-04-05"),
+    loan("upcoming", "reserved", "2026-07-01", "2026-07-05"),
+  ], now);
+  assertEquals(standing.totalLoans, 4);
+  assertEquals(standing.active, 2);
+  assertEquals(standing.overdue.map((l) => l.id), ["overdue"]);
+  assertEquals(standing.returnedLate, 1);
+  assertEquals(standing.noShows, 2);
+});
+
+Deno.test("a partial return is not counted as another loan", () => {
+  const standing = borrowerStanding([
+    loan("loan-1", "checked-out", "2026-06-10", "2026-06-20"),
+    loan("part", "returned", "2026-06-10", "2026-06-20", {
+      splitFromId: "loan-1",
+      actualReturnDate: new Date("2026-06-12"),
+    }),
+  ], now);
+  assertEquals(standing.totalLoans, 1);
+  assertEquals(standing.active, 1);
+  assertEquals(standing.returnedLate, 0);
+});
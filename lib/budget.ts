@@ -0,0 +1,146 @@
+// Budgets — what the group plans to spend each financial year, per category,
+// against what purchases and camps actually cost.
+//
+// Spend is a received purchase at its actual cost (else the estimate), on the
+// day it arrived; approved and ordered purchases are committed but not yet
+// spent. Camp shopping is food spend on the camp's start date. Food taken
+// from stock for a camp was paid for when it was bought, so it appears in the
+// camp's cost rollup but not again as spend. A purchase counts against the
+// category its item had when requested, so deleting the item keeps the spend.
+// Pure functions: used by /reports/budget and the camp detail page.
+import type {
+  CampPlan,
+  InventoryItem,
+  ItemCategory,
+} from "../types/inventory.ts";
+import { ALL_CATEGORIES } from "../types/inventory.ts";
+import type { PurchaseRequest } from "../types/purchasing.ts";
+
+/** Financial years start on 1 April (month index 3), as the charity's do. */
+export const FINANCIAL_YEAR_START_MONTH = 3;
+
+export interface Budget {
+  /** Calendar year the financial year starts in — 2026 is 2026/27 */
+  year: number;
+  amounts: Partial<Record<ItemCategory, number>>;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+/** The financial year a date falls in. */
+export function financialYearOf(date: Date | string): number {
+  const d = new Date(date);
+  return d.getUTCMonth() >= FINANCIAL_YEAR_START_MONTH
+    ? d.getUTCFullYear()
+    : d.getUTCFullYear() - 1;
+}
+
+/** First and last day of a financial year (YYYY-MM-DD, inclusive). */
+export function financialYearRange(year: number): { from: string; to: string } {
+  const month = String(FINANCIAL_YEAR_START_MONTH + 1).padStart(2, "0");
+  const end = new Date(Date.UTC(year + 1, FINANCIAL_YEAR_START_MONTH, 0));
+  return { from: `${year}-${month}-01`, to: end.toISOString().slice(0, 10) };
+}
+
+/** "2026/27" */
+export function financialYearLabel(year: number): string {
+  return `${year}/${String((year + 1) % 100).padStart(2, "0")}`;
+}
+
+/** What a purchase cost, or is expected to. */
+export function purchaseAmount(request: PurchaseRequest): number {
+  return request.actualCost ?? request.estimatedCost ?? 0;
+}
+
+export interface CampCosts {
+  /** Food packed from stock, at its recorded purchase cost */
+  foodFromStock: number;
+  /** Food lines packed whose item has no purchase cost */
+  unpricedFoodLines: number;
+  shopping: number;
+  total: number;
+}
+
+export function campCosts(
+  plan: CampPlan,
+  itemsById: Map<string, InventoryItem>,
+): CampCosts {
+  let foodFromStock = 0;
+  let unpricedFoodLines = 0;
+  for (const entry of plan.items) {
+    if (entry.itemCategory !== "food" || !entry.packedStatus) continue;
+    const cost = itemsById.get(entry.itemId)?.purchaseCost;
+    if (cost === undefined) unpricedFoodLines++;
+    else foodFromStock += cost * entry.quantityPlanned;
+  }
+  const shopping = plan.shoppingSpend ?? 0;
+  return {
+    foodFromStock,
+    unpricedFoodLines,
+    shopping,
+    total: foodFromStock + shopping,
+  };
+}
+
+export interface BudgetLine {
+  category: ItemCategory;
+  budget: number;
+  spent: number;
+  /** Approved or ordered, not yet received */
+  committed: number;
+  /** Budget left after spent and committed; negative when over */
+  remaining: number;
+}
+
+export function budgetVsActual(
+  budget: Budget | null,
+  purchases: PurchaseRequest[],
+  plans: CampPlan[],
+  itemsById: Map<string, InventoryItem>,
+  year: number,
+): BudgetLine[] {
+  const lines = new Map<ItemCategory, BudgetLine>(
+    ALL_CATEGORIES.map((category) => {
+      const amount = budget?.amounts[category] ?? 0;
+      return [category, {
+        category,
+        budget: amount,
+        spent: 0,
+        committed: 0,
+        remaining: amount,
+      }];
+    }),
+  );
+  const add = (
+    category: ItemCategory,
+    field: "spent" | "committed",
+    amount: number,
+  ) => {
+    const line = lines.get(category);
+    if (!line) return;
+    line[field] += amount;
+    line.remaining -= amount;
+  };
+
+  for (const request of purchases) {
+    const category = request.itemCategory ??
+      itemsById.get(request.itemId)?.category;
+    if (!category) continue;
+    if (request.status === "received" && request.receivedAt) {
+      if (financialYearOf(request.receivedAt) === year) {
+        add(category, "spent", purchaseAmount(request));
+      }
+    } else if (
+      (request.status === "approved" || request.status === "ordered") &&
+      financialYearOf(request.reviewedAt ?? request.requestedAt) === year
+    ) {
+      add(category, "committed", purchaseAmount(request));
+    }
+  }
+  for (const plan of plans) {
+    if (plan.shoppingSpend && financialYearOf(plan.campDate) === year) {
+      add("food", "spent", plan.shoppingSpend);
+    }
+  }
+  return [...lines.values()];
+}
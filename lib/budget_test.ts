@@ -0,0 +1,128 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type { CampPlan, InventoryItem } from "../types/inventory.ts";
+import type { PurchaseRequest } from "../types/purchasing.ts";
+import {
+  budgetVsActual,
+  campCosts,
+  financialYearOf,
+  financialYearRange,
+} from "./budget.ts";
+
+const items = new Map<string, InventoryItem>([
+  ["tent", { id: "tent", category: "tent" } as InventoryItem],
+  [
+    "beans",
+    { id: "beans", category: "food", purchaseCost: 0.5 } as InventoryItem,
+  ],
+]);
+
+function purchase(overrides: Partial<PurchaseRequest>): PurchaseRequest {
+  return {
+    id: crypto.randomUUID(),
+    itemId: "tent",
+    itemName: "Patrol tent",
+    quantity: 1,
+    status: "received",
+    requestedBy: "leader",
+    requestedAt: "2026-04-02T09:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const camp = {
+  id: "summer",
+  name: "Summer camp",
+  campDate: new Date("2026-07-10"),
+  status: "completed",
+  shoppingSpend: 120,
+  items: [
+    {
+      itemId: "beans",
+      itemCategory: "food",
+      quantityPlanned: 40,
+      packedStatus: true,
+    },
+    {
+      itemId: "tent",
+      itemCategory: "tent",
+      quantityPlanned: 2,
+      packedStatus: true,
+    },
+  ],
+} as unknown as CampPlan;
+
+Deno.test("financial years run April to March", () => {
+  assertEquals(financialYearOf("2026-03-31T12:00:00Z"), 2025);
+  assertEquals(financialYearOf("2026-04-01T00:00:00Z"), 2026);
+  assertEquals(financialYearRange(2026), {
+    from: "2026-04-01",
+    to: "2027-03-31",
+  });
+});
+
+Deno.test("camp costs add food packed from stock to the shopping", () => {
+  assertEquals(campCosts(camp, items), {
+    foodFromStock: 20,
+    unpricedFoodLines: 0,
+    shopping: 120,
+    total: 140,
+  });
+});
+
+Deno.test("budget vs actual splits spent from committed by year", () => {
+  const lines = budgetVsActual(
+    { year: 2026, amounts: { tent: 500, food: 100 } },
+    [
+      purchase({
+        actualCost: 300,
+        estimatedCost: 280,
+        receivedAt: "2026-05-01T10:00:00Z",
+      }),
+      purchase({ estimatedCost: 90, receivedAt: "2026-03-01T10:00:00Z" }),
+      purchase({
+        status: "ordered",
+        estimatedCost: 150,
+        reviewedAt: "2026-06-01T10:00:00Z",
+      }),
+      purchase({ status: "rejected", estimatedCost: 999 }),
+    ],
+    [camp],
+    items,
+    2026,
+  );
+  const byCategory = Object.fromEntries(lines.map((l) => [l.category, l]));
+  assertEquals(byCategory.tent, {
+    category: "tent",
+    budget: 500,
+    spent: 300,
+    committed: 150,
+    remaining: 50,
+  });
+  assertEquals(byCategory.food.remaining, -20);
+  assertEquals("first-aid" in byCategory, false);
+});
+
+Deno.test("spend on a deleted item stays in its category", () => {
+  const lines = budgetVsActual(
+    { year: 2026, amounts: { cooking: 200 } },
+    [
+      purchase({
+        itemId: "deleted-stove",
+        itemCategory: "cooking",
+        actualCost: 80,
+        receivedAt: "2026-05-01T10:00:00Z",
+      }),
+      purchase({
+        itemId: "deleted-unknown",
+        actualCost: 50,
+        receivedAt: "2026-05-01T10:00:00Z",
+      }),
+    ],
+    [],
+    items,
+    2026,
+  );
+  const cooking = lines.find((line) => line.category === "cooking");
+  assertEquals(cooking?.spent, 80);
+  assertEquals(cooking?.remaining, 120);
+});
@@ -0,0 +1,138 @@
+// Camp menus — which meals are served on which day, and the food that takes.
+//
+// Units follow the meal planner: each ingredient needs
+// ceil(headcount × servings ÷ servingsPerUnit), or its per-person amount
+// rounded up to whole packs (see units.ts). Ingredients linked to a food
+// item become food lines on the camp checklist, capped at what is in stock;
+// the rest is shopping. Lines keep following the menu until they are packed,
+// when stock has been deducted and the line is left alone.
+// Pure functions: used by /camps/[id]/menu.
+import type {
+  CampPlan,
+  CampPlanItem,
+  InventoryItem,
+} from "../types/inventory.ts";
+import type { CampMenu, Meal, Quantity } from "../types/meals.ts";
+import { campDays } from "./campReservations.ts";
+import {
+  addIngredient,
+  describeAmounts,
+  type IngredientTotal,
+  packsNeeded,
+} from "./units.ts";
+
+/** Longest camp the menu editor lays out day by day. */
+export const MAX_MENU_DAYS = 14;
+
+/** The camp's days (YYYY-MM-DD), first to last. */
+export function menuDays(
+  plan: Pick<CampPlan, "campDate" | "endDate">,
+): string[] {
+  const { start, end } = campDays(plan);
+  const days: string[] = [];
+  const day = new Date(`${start}T00:00:00Z`);
+  while (days.length < MAX_MENU_DAYS) {
+    const key = day.toISOString().slice(0, 10);
+    if (key > end) break;
+    days.push(key);
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return days;
+}
+
+export interface MenuNeed {
+  /** Linked food item, or undefined for untracked ingredients */
+  itemId?: string;
+  name: string;
+  /** Whole packs or units; null when an amount has no pack size to round to */
+  units: number | null;
+  /** Per-person amounts added up, e.g. "4.8kg" */
+  amount?: string;
+}
+
+/**
+ * Units of every ingredient the menu calls for, one entry per item or
+ * untracked name. Per-person amounts are rounded up to whole packs of the
+ * linked item's size.
+ */
+export function menuNeeds(
+  menu: CampMenu,
+  meals: Meal[],
+  packSizes: Map<string, Quantity> = new Map(),
+): MenuNeed[] {
+  const servings = new Map<string, number>();
+  for (const day of menu.days) {
+    for (const mealId of day.mealIds) {
+      servings.set(mealId, (servings.get(mealId) ?? 0) + 1);
+    }
+  }
+  const totals = new Map<
+    string,
+    { itemId?: string; name: string; total: IngredientTotal }
+  >();
+  for (const meal of meals) {
+    const count = servings.get(meal.id) ?? 0;
+    if (count === 0) continue;
+    for (const ing of meal.ingredients) {
+      const key = ing.itemId ?? `name:${ing.name.toLowerCase()}`;
+      const entry = totals.get(key);
+      totals.set(key, {
+        itemId: ing.itemId,
+        name: entry?.name ?? ing.name,
+        total: addIngredient(entry?.total, ing, menu.headcount * count),
+      });
+    }
+  }
+  return [...totals.values()].map(({ itemId, name, total }) => ({
+    itemId,
+    name,
+    units: packsNeeded(total, itemId ? packSizes.get(itemId) : undefined),
+    amount: describeAmounts(total),
+  }));
+}
+
+/**
+ * The checklist with its menu lines brought in line with `needs`. Unpacked
+ * lines for a needed item take the menu's quantity (capped at stock); unpacked
+ * menu lines no longer needed are dropped; packed lines are never touched.
+ */
+export function syncMenuLines(
+  items: CampPlanItem[],
+  needs: MenuNeed[],
+  inventory: Map<string, InventoryItem>,
+): CampPlanItem[] {
+  const planned = new Map<string, number>();
+  for (const need of needs) {
+    const item = need.itemId ? inventory.get(need.itemId) : undefined;
+    if (!item || item.category !== "food" || need.units === null) continue;
+    const quantity = Math.min(need.units, item.quantity);
+    if (quantity > 0) planned.set(item.id, quantity);
+  }
+
+  const next: CampPlanItem[] = [];
+  for (const line of items) {
+    const quantity = planned.get(line.itemId);
+    planned.delete(line.itemId);
+    if (line.packedStatus || line.itemCategory !== "food") {
+      next.push(line);
+    } else if (quantity !== undefined) {
+      next.push({ ...line, quantityPlanned: quantity, fromMenu: true });
+    } else if (!line.fromMenu) {
+      next.push(line);
+    }
+  }
+  for (const [itemId, quantity] of planned) {
+    const item = inventory.get(itemId)!;
+    next.push({
+      itemId,
+      itemName: item.name,
+      itemCategory: item.category,
+      itemLocation: item.location,
+      quantityPlanned: quantity,
+      packedStatus: false,
+      returnedStatus: false,
+      fromMenu: true,
+    });
+  }
+  return next;
+}
@@ -0,0 +1,111 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type { CampPlanItem, InventoryItem } from "../types/inventory.ts";
+import type { Meal } from "../types/meals.ts";
+import { menuDays, menuNeeds, syncMenuLines } from "./campMenu.ts";
+
+const food = (id: string, quantity: number) =>
+  ({
+    id,
+    name: id,
+    category: "food",
+    location: "Store",
+    quantity,
+  }) as InventoryItem;
+
+const inventory = new Map([
+  ["pasta", food("pasta", 10)],
+  ["passata", food("passata", 3)],
+  ["beans", food("beans", 20)],
+]);
+
+const meals = [
+  {
+    id: "bolognese",
+    name: "Bolognese",
+    ingredients: [
+      { name: "Pasta", servingsPerUnit: 8, itemId: "pasta" },
+      { name: "Passata", servingsPerUnit: 6, itemId: "passata" },
+      { name: "Mince", servingsPerUnit: 4 },
+      {
+        name: "Cheese",
+        servingsPerUnit: 1,
+        itemId: "cheese",
+        perPerson: { amount: 30, unit: "g" },
+      },
+    ],
+  },
+  {
+    id: "breakfast",
+    name: "Breakfast",
+    ingredients: [{ name: "Beans", servingsPerUnit: 4, itemId: "beans" }],
+  },
+] as Meal[];
+
+const line = (overrides: Partial<CampPlanItem>): CampPlanItem => ({
+  itemId: "beans",
+  itemName: "beans",
+  itemCategory: "food",
+  itemLocation: "Store",
+  quantityPlanned: 1,
+  packedStatus: false,
+  returnedStatus: false,
+  ...overrides,
+});
+
+Deno.test("menu days cover the camp, first to last", () => {
+  assertEquals(
+    menuDays({
+      campDate: new Date("2026-07-30T09:00:00Z"),
+      endDate: new Date("2026-08-01T16:00:00Z"),
+    }),
+    ["2026-07-30", "2026-07-31", "2026-08-01"],
+  );
+});
+
+Deno.test("menu needs add up servings across days, in whole packs", () => {
+  const needs = menuNeeds(
+    {
+      headcount: 12,
+      days: [
+        { date: "2026-07-30", mealIds: ["bolognese"] },
+        { date: "2026-07-31", mealIds: ["breakfast", "bolognese"] },
+      ],
+    },
+    meals,
+    new Map([["cheese", { amount: 0.25, unit: "kg" }]]),
+  );
+  assertEquals(needs, [
+    { itemId: "pasta", name: "Pasta", units: 3, amount: undefined },
+    { itemId: "passata", name: "Passata", units: 4, amount: undefined },
+    { itemId: undefined, name: "Mince", units: 6, amount: undefined },
+    { itemId: "cheese", name: "Cheese", units: 3, amount: "720g" },
+    { itemId: "beans", name: "Beans", units: 3, amount: undefined },
+  ]);
+});
+
+Deno.test("menu lines follow the menu until packed", () => {
+  const items = syncMenuLines(
+    [
+      line({ itemId: "beans", quantityPlanned: 9, packedStatus: true }),
+      line({ itemId: "pasta", quantityPlanned: 1 }),
+      line({ itemId: "rice", quantityPlanned: 2, fromMenu: true }),
+      line({ itemId: "tent", itemCategory: "tent" }),
+    ],
+    [
+      { itemId: "pasta", name: "Pasta", units: 4 },
+      { itemId: "passata", name: "Passata", units: 4 },
+      { itemId: "beans", name: "Beans", units: 3 },
+      { name: "Mince", units: 6 },
+    ],
+    inventory,
+  );
+  assertEquals(
+    items.map((i) => [i.itemId, i.quantityPlanned, !!i.fromMenu]),
+    [
+      ["beans", 9, false],
+      ["pasta", 4, true],
+      ["tent", 1, false],
+      ["passata", 3, true],
+    ],
+  );
+});
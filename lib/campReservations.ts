@@ -0,0 +1,206 @@
+// Camp reservations — stock held by camps for their dates.
+//
+// A camp in planning or packing holds the items it has not packed yet for
+// every day from its start to its end date. Packed gear is already counted as
+// at camp and packed food has left stock, so only unpacked entries reserve.
+// Loan reservations booked over the camp's dates hold stock the same way.
+// Pure functions: shared by the camp API, the checklist island and the
+// calendar.
+import type {
+  CampPlan,
+  CampPlanStatus,
+  CheckOut,
+  InventoryItem,
+} from "../types/inventory.ts";
+import { isHeldReservation, loanDays } from "./loanReservations.ts";
+
+/** Camp statuses whose unpacked items are held for the camp's dates. */
+export const RESERVING_CAMP_STATUSES: CampPlanStatus[] = [
+  "planning",
+  "packing",
+];
+
+type CampDates = Pick<CampPlan, "campDate" | "endDate">;
+
+/** Calendar day of a date as stored from a date input ("YYYY-MM-DD"). */
+export function dayKey(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/** First and last day of a camp (inclusive). */
+export function campDays(plan: CampDates): { start: string; end: string } {
+  const start = dayKey(plan.campDate);
+  const end = plan.endDate ? dayKey(plan.endDate) : start;
+  return { start, end: end < start ? start : end };
+}
+
+export function campsOverlap(a: CampDates, b: CampDates): boolean {
+  const x = campDays(a);
+  const y = campDays(b);
+  return x.start <= y.end && y.start <= x.end;
+}
+
+export interface ItemReservation {
+  /** The holding camp plan, or the loan reservation's id */
+  planId: string;
+  planName: string;
+  quantity: number;
+}
+
+/**
+ * Items held by other camps and by loan reservations whose dates overlap
+ * `plan`, keyed by item id.
+ */
+export function reservationsForCamp(
+  plan: Pick<CampPlan, "id"> & CampDates,
+  plans: CampPlan[],
+  checkouts: CheckOut[] = [],
+  now: Date = new Date(),
+): Record<string, ItemReservation[]> {
+  const reserved: Record<string, ItemReservation[]> = {};
+  for (const other of plans) {
+    if (
+      other.id === plan.id ||
+      !RESERVING_CAMP_STATUSES.includes(other.status) ||
+      !campsOverlap(plan, other)
+    ) {
+      continue;
+    }
+    for (const entry of other.items) {
+      if (entry.packedStatus) continue;
+      (reserved[entry.itemId] ??= []).push({
+        planId: other.id,
+        planName: other.name,
+        quantity: entry.quantityPlanned,
+      });
+    }
+  }
+  const { start, end } = campDays(plan);
+  for (const loan of checkouts) {
+    if (!isHeldReservation(loan, now)) continue;
+    const days = loanDays(loan);
+    if (days.start > end || start > days.end) continue;
+    (reserved[loan.itemId] ??= []).push({
+      planId: loan.id,
+      planName: `Loan to ${loan.borrower}`,
+      quantity: loan.quantity,
+    });
+  }
+  return reserved;
+}
+
+/**
+ * Quantity of an item that camps in planning or packing hold unpacked on any
+ * of the given days.
+ */
+export function heldByCamps(
+  itemId: string,
+  days: { start: string; end: string },
+  plans: CampPlan[],
+): number {
+  let held = 0;
+  for (const plan of plans) {
+    if (!RESERVING_CAMP_STATUSES.includes(plan.status)) continue;
+    const camp = campDays(plan);
+    if (camp.start > days.end || days.start > camp.end) continue;
+    for (const entry of plan.items) {
+      if (entry.itemId === itemId && !entry.packedStatus) {
+        held += entry.quantityPlanned;
+      }
+    }
+  }
+  return held;
+}
+
+export function totalReserved(reservations?: ItemReservation[]): number {
+  return (reservations ?? []).reduce((sum, r) => sum + r.quantity, 0);
+}
+
+/**
+ * Quantity out on loan that is due back before the camp starts, keyed by item
+ * id. Overdue loans are not counted on.
+ */
+export function loansReturningBefore(
+  plan: CampDates,
+  checkouts: CheckOut[],
+  now: Date = new Date(),
+): Record<string, number> {
+  const { start } = campDays(plan);
+  const today = dayKey(now);
+  const returning: Record<string, number> = {};
+  for (const loan of checkouts) {
+    if (loan.status !== "checked-out") continue;
+    const due = dayKey(loan.expectedReturnDate);
+    if (due < today || due >= start) continue;
+    returning[loan.itemId] = (returning[loan.itemId] ?? 0) + loan.quantity;
+  }
+  return returning;
+}
+
+/** Stock in the store now: everything for food, gear not already at camp. */
+export function stockInStore(item: InventoryItem): number {
+  if (item.category === "food") return item.quantity;
+  const atCamp = item.atCamp
+    ? Math.max(0, Math.min(item.quantity, item.quantityAtCamp ?? item.quantity))
+    : 0;
+  return Math.max(0, item.quantity - atCamp);
+}
+
+/**
+ * How much of an item a camp can still plan: stock in store, plus loans back
+ * before it starts, less what overlapping camps hold.
+ */
+export function availableForCamp(
+  item: InventoryItem,
+  reservations: Record<string, ItemReservation[]>,
+  returning: Record<string, number>,
+): number {
+  return Math.max(
+    0,
+    stockInStore(item) + (returning[item.id] ?? 0) -
+      totalReserved(reservations[item.id]),
+  );
+}
+
+/** An item that overlapping camps between them plan more of than exists. */
+export interface CampConflict {
+  itemId: string;
+  itemName: string;
+  /** What this camp plans plus what overlapping camps hold */
+  demand: number;
+  available: number;
+  /** The other camps holding the item */
+  holders: ItemReservation[];
+}
+
+/** Contended items of every reserving camp, keyed by plan id. */
+export function findCampConflicts(
+  plans: CampPlan[],
+  items: InventoryItem[],
+  checkouts: CheckOut[] = [],
+): Record<string, CampConflict[]> {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const conflicts: Record<string, CampConflict[]> = {};
+  for (const plan of plans) {
+    if (!RESERVING_CAMP_STATUSES.includes(plan.status)) continue;
+    const reserved = reservationsForCamp(plan, plans, checkouts);
+    const returning = loansReturningBefore(plan, checkouts);
+    for (const entry of plan.items) {
+      const item = itemsById.get(entry.itemId);
+      const holders = reserved[entry.itemId];
+      if (!item || entry.packedStatus || !holders) continue;
+      const available = stockInStore(item) + (returning[item.id] ?? 0);
+      const demand = entry.quantityPlanned + totalReserved(holders);
+      if (demand > available) {
+        (conflicts[plan.id] ??= []).push({
+          itemId: item.id,
+          itemName: item.name,
+          demand,
+          available,
+          holders,
+        });
+      }
+    }
+  }
+  return conflicts;
+}
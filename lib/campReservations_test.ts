@@ -0,0 +1,133 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type {
+  CampPlan,
+  CampPlanItem,
+  CheckOut,
+  InventoryItem,
+} from "../types/inventory.ts";
+import {
+  availableForCamp,
+  findCampConflicts,
+  loansReturningBefore,
+  reservationsForCamp,
+} from "./campReservations.ts";
+
+const tents = {
+  id: "tent",
+  name: "Patrol Tent",
+  category: "tent",
+  quantity: 6,
+  minThreshold: 0,
+  location: "Metal Shelf 1 - Slot 1",
+  addedDate: new Date("2026-01-01"),
+  lastUpdated: new Date("2026-01-01"),
+} as InventoryItem;
+
+function entry(quantityPlanned: number, packedStatus = false): CampPlanItem {
+  return {
+    itemId: "tent",
+    itemName: "Patrol Tent",
+    itemCategory: "tent",
+    itemLocation: tents.location,
+    quantityPlanned,
+    packedStatus,
+    returnedStatus: false,
+  };
+}
+
+function camp(
+  id: string,
+  campDate: string,
+  endDate: string | undefined,
+  items: CampPlanItem[],
+  status: CampPlan["status"] = "planning",
+): CampPlan {
+  return {
+    id,
+    name: id,
+    campDate: new Date(campDate),
+    endDate: endDate ? new Date(endDate) : undefined,
+    items,
+    status,
+    createdBy: "leader",
+    createdAt: new Date("2026-01-01"),
+    lastUpdated: new Date("2026-01-01"),
+  };
+}
+
+Deno.test("overlapping camps hold their unpacked items", () => {
+  const summer = camp("summer", "2026-06-12", "2026-06-14", [entry(4)]);
+  const cubs = camp("cubs", "2026-06-14", undefined, []);
+  const reserved = reservationsForCamp(cubs, [summer, cubs]);
+
+  assertEquals(reserved.tent, [
+    { planId: "summer", planName: "summer", quantity: 4 },
+  ]);
+  assertEquals(availableForCamp(tents, reserved, {}), 2);
+});
+
+Deno.test("camps on other dates or already underway hold nothing", () => {
+  const cubs = camp("cubs", "2026-06-14", undefined, []);
+  const plans = [
+    camp("earlier", "2026-06-01", "2026-06-13", [entry(4)]),
+    camp("active", "2026-06-14", undefined, [entry(4)], "active"),
+    camp("packed", "2026-06-14", undefined, [entry(4, true)]),
+    cubs,
+  ];
+
+  assertEquals(reservationsForCamp(cubs, plans), {});
+});
+
+Deno.test("loan reservations over the camp's dates hold stock", () => {
+  const reservation = (id: string, from: string, to: string): CheckOut => ({
+    id,
+    itemId: "tent",
+    itemName: "Patrol Tent",
+    borrower: id,
+    quantity: 2,
+    checkOutDate: new Date(from),
+    expectedReturnDate: new Date(to),
+    status: "reserved",
+  });
+  const cubs = camp("cubs", "2026-06-14", "2026-06-15", []);
+  const reserved = reservationsForCamp(cubs, [cubs], [
+    reservation("Scouts", "2026-06-15", "2026-06-20"),
+    reservation("Beavers", "2026-06-16", "2026-06-20"),
+  ], new Date("2026-06-01"));
+
+  assertEquals(reserved.tent, [
+    { planId: "Scouts", planName: "Loan to Scouts", quantity: 2 },
+  ]);
+  assertEquals(availableForCamp(tents, reserved, {}), 4);
+});
+
+Deno.test("loans due back before the camp count as available", () => {
+  const loan = (expectedReturnDate: string): CheckOut => ({
+    id: expectedReturnDate,
+    itemId: "tent",
+    itemName: "Patrol Tent",
+    borrower: "Explorers",
+    quantity: 1,
+    checkOutDate: new Date("2026-06-01"),
+    expectedReturnDate: new Date(expectedReturnDate),
+    status: "checked-out",
+  });
+  const cubs = camp("cubs", "2026-06-14", undefined, []);
+  const returning = loansReturningBefore(cubs, [
+    loan("2026-06-10"),
+    loan("2026-06-14"),
+    loan("2026-06-02"),
+  ], new Date("2026-06-05"));
+
+  assertEquals(returning, { tent: 1 });
+});
+
+Deno.test("conflicts are reported for each camp that over-commits", () => {
+  const summer = camp("summer", "2026-06-12", "2026-06-14", [entry(4)]);
+  const cubs = camp("cubs", "2026-06-14", undefined, [entry(3)]);
+  const conflicts = findCampConflicts([summer, cubs], [tents]);
+
+  assertEquals(Object.keys(conflicts).sort(), ["cubs", "summer"]);
+  assertEquals(conflicts.cubs[0].demand, 7);
+  assertEquals(conflicts.cubs[0].available, 6);
+});
@@ -0,0 +1,19 @@
+// CSV cells — shared by the admin CSV exports and the shopping list download.
+
+/**
+ * One CSV cell: empty for a missing value, dates as YYYY-MM-DD, and quoted when
+ * the text holds a comma, quote or newline.
+ */
+export function csvCell(
+  value: string | number | Date | undefined | null,
+): string {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "" : value.toISOString().slice(0, 10);
+  }
+  const str = String(value);
+  if (str.includes(",") || str.includes('"') || str.includes("\n")) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
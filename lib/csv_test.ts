@@ -0,0 +1,17 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import { csvCell } from "./csv.ts";
+
+Deno.test("CSV cells are quoted only when they need to be", () => {
+  assertEquals(csvCell("Gazebo"), "Gazebo");
+  assertEquals(csvCell(12.5), "12.5");
+  assertEquals(csvCell("Pegs, steel"), '"Pegs, steel"');
+  assertEquals(csvCell('6" nails'), '"6"" nails"');
+  assertEquals(csvCell("line one\nline two"), '"line one\nline two"');
+});
+
+Deno.test("missing values and dates become plain cells", () => {
+  assertEquals(csvCell(undefined), "");
+  assertEquals(csvCell(null), "");
+  assertEquals(csvCell(new Date("2026-10-18T23:30:00Z")), "2026-10-18");
+  assertEquals(csvCell(new Date("not a date")), "");
+});
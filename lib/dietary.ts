@@ -0,0 +1,135 @@
+// Dietary checks — which meals suit which attendees, from the allergens
+// recorded on the food items their ingredients are linked to.
+//
+// Allergens are free text on each food item ("gluten", "may contain nuts"), so
+// a requirement is matched by the words that rule a food out. "May contain"
+// traces count: a nut allergy can't have something that may contain nuts.
+// Ingredients not linked to a food item can't be checked and are listed so
+// someone can look at the packet.
+// Pure functions: used by the meal planner, /camps/[id]/menu and the camp
+// print page.
+import type {
+  DietaryCounts,
+  DietaryRequirement,
+  Meal,
+} from "../types/meals.ts";
+
+export const DIETARY_REQUIREMENTS: DietaryRequirement[] = [
+  "vegetarian",
+  "vegan",
+  "gluten-free",
+  "dairy-free",
+  "nut-allergy",
+  "egg-allergy",
+];
+
+export const DIETARY_LABELS: Record<DietaryRequirement, string> = {
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+  "gluten-free": "Gluten-free",
+  "dairy-free": "Dairy-free",
+  "nut-allergy": "Nut allergy",
+  "egg-allergy": "Egg allergy",
+};
+
+const MEAT = ["meat", "beef", "pork", "chicken", "lamb", "fish", "gelatin"];
+
+/** Allergen words that rule a food out, matched at the start of a word. */
+const RULED_OUT_BY: Record<DietaryRequirement, string[]> = {
+  vegetarian: MEAT,
+  vegan: [...MEAT, "dairy", "milk", "egg", "honey"],
+  "gluten-free": ["gluten", "wheat", "barley", "rye"],
+  "dairy-free": ["dairy", "milk", "lactose"],
+  "nut-allergy": ["nut", "peanut", "almond", "hazelnut", "cashew"],
+  "egg-allergy": ["egg"],
+};
+
+/** Whether a food with this allergen is unsuitable for the requirement. */
+export function allergenConflicts(
+  allergen: string,
+  requirement: DietaryRequirement,
+): boolean {
+  const text = allergen.toLowerCase();
+  return RULED_OUT_BY[requirement].some((word) =>
+    new RegExp(`\\b${word}`).test(text)
+  );
+}
+
+export interface MealDietary {
+  /** Requirements the meal does not suit, each with its reasons ("Pasta: gluten") */
+  unsuitableFor: Partial<Record<DietaryRequirement, string[]>>;
+  /** Ingredients with no linked food item, so no allergens to check */
+  unchecked: string[];
+}
+
+/** Dietary flags for a meal, from its linked food items' allergens. */
+export function mealDietary(
+  meal: Meal,
+  allergensById: Map<string, string[]>,
+): MealDietary {
+  const unsuitableFor: MealDietary["unsuitableFor"] = {};
+  const unchecked: string[] = [];
+  for (const ing of meal.ingredients) {
+    if (!ing.itemId) {
+      unchecked.push(ing.name);
+      continue;
+    }
+    for (const allergen of allergensById.get(ing.itemId) ?? []) {
+      for (const requirement of DIETARY_REQUIREMENTS) {
+        if (allergenConflicts(allergen, requirement)) {
+          (unsuitableFor[requirement] ??= []).push(`${ing.name}: ${allergen}`);
+        }
+      }
+    }
+  }
+  return { unsuitableFor, unchecked };
+}
+
+export interface DietaryWarning {
+  mealId: string;
+  mealName: string;
+  requirement: DietaryRequirement;
+  /** Attendees with the requirement — the alternative portions to plan */
+  people: number;
+  /** Everyone has the requirement, so the meal itself needs changing */
+  everyone: boolean;
+  reasons: string[];
+}
+
+/** Planned meals that don't suit some attendees, one warning per meal and requirement. */
+export function dietaryWarnings(
+  meals: Meal[],
+  dietary: DietaryCounts,
+  headcount: number,
+  allergensById: Map<string, string[]>,
+): DietaryWarning[] {
+  const warnings: DietaryWarning[] = [];
+  for (const meal of meals) {
+    const { unsuitableFor } = mealDietary(meal, allergensById);
+    for (const requirement of DIETARY_REQUIREMENTS) {
+      const people = dietary[requirement] ?? 0;
+      const reasons = unsuitableFor[requirement];
+      if (people < 1 || !reasons) continue;
+      warnings.push({
+        mealId: meal.id,
+        mealName: meal.name,
+        requirement,
+        people,
+        everyone: people >= headcount,
+        reasons,
+      });
+    }
+  }
+  return warnings;
+}
+
+/** "3 alternative portions needed — Gluten-free (Pasta: gluten)" */
+export function describeWarning(warning: DietaryWarning): string {
+  const label = DIETARY_LABELS[warning.requirement];
+  const need = warning.everyone
+    ? `Unsuitable for all ${warning.people} attendees`
+    : `${warning.people} alternative portion${
+      warning.people === 1 ? "" : "s"
+    } needed`;
+  return `${need} — ${label} (${warning.reasons.join(", ")})`;
+}
@@ -0,0 +1,54 @@
+import { assert, assertEquals } from "$std/assert/mod.ts";
+import type { Meal } from "../types/meals.ts";
+import {
+  allergenConflicts,
+  describeWarning,
+  dietaryWarnings,
+  mealDietary,
+} from "./dietary.ts";
+
+const allergens = new Map([
+  ["pasta", ["gluten", "may contain eggs"]],
+  ["pesto", ["dairy", "Pine NUTS"]],
+  ["coconut-milk", ["coconut"]],
+]);
+
+const pestoPasta = {
+  id: "pesto-pasta",
+  name: "Pesto pasta",
+  ingredients: [
+    { name: "Pasta", servingsPerUnit: 8, itemId: "pasta" },
+    { name: "Pesto", servingsPerUnit: 10, itemId: "pesto" },
+    { name: "Cheese", servingsPerUnit: 12 },
+  ],
+} as Meal;
+
+Deno.test("allergens rule out foods by word, including traces", () => {
+  assert(allergenConflicts("may contain nuts", "nut-allergy"));
+  assert(allergenConflicts("Peanuts", "nut-allergy"));
+  assert(!allergenConflicts("coconut", "nut-allergy"));
+  assert(allergenConflicts("milk", "vegan"));
+  assert(!allergenConflicts("milk", "vegetarian"));
+});
+
+Deno.test("meal flags come from linked food items", () => {
+  const { unsuitableFor, unchecked } = mealDietary(pestoPasta, allergens);
+  assertEquals(unsuitableFor["gluten-free"], ["Pasta: gluten"]);
+  assertEquals(unsuitableFor["egg-allergy"], ["Pasta: may contain eggs"]);
+  assertEquals(unsuitableFor["nut-allergy"], ["Pesto: Pine NUTS"]);
+  assertEquals(unsuitableFor.vegetarian, undefined);
+  assertEquals(unchecked, ["Cheese"]);
+});
+
+Deno.test("warnings count alternative portions per requirement", () => {
+  const warnings = dietaryWarnings(
+    [pestoPasta],
+    { "gluten-free": 2, vegetarian: 5, "dairy-free": 12 },
+    12,
+    allergens,
+  );
+  assertEquals(warnings.map(describeWarning), [
+    "2 alternative portions needed — Gluten-free (Pasta: gluten)",
+    "Unsuitable for all 12 attendees — Dairy-free (Pesto: dairy)",
+  ]);
+});
@@ -105,6 +105,7 @@ export const DEFAULT_FIRST_AID_CATALOG: FirstAidCatalogItem[] = [
   { id: "glucose", name: "Oral glucose tablets", section: "Medical support" },
 ];
 
+/** Built-in profiles, written to KV the first time profiles are read. */
 export const FIRST_AID_PROFILES: FirstAidKitProfile[] = [
   {
     id: "camp-full",
@@ -189,10 +190,9 @@ export const FIRST_AID_PROFILES: FirstAidKitProfile[] = [
 ];
 
 export function buildEntriesFromProfile(
-  profileId: string,
+  profile: FirstAidKitProfile | null | undefined,
   catalog: FirstAidCatalogItem[],
 ): FirstAidKitEntry[] {
-  const profile = FIRST_AID_PROFILES.find((p) => p.id === profileId);
   if (!profile) return [];
 
   const catalogById = new Map(catalog.map((item) => [item.id, item]));
@@ -0,0 +1,98 @@
+// First aid check history — what each kit check counted against the kit's
+// targets, kept so shortages and drift can be traced back to a check.
+//
+// Pure functions: used by POST /api/first-aid-check, the kit history page and
+// its reprinted shortage report.
+import type {
+  FirstAidCheckLine,
+  FirstAidCheckRecord,
+} from "../types/firstAid.ts";
+
+/** A checked line as posted by the wizard, before it is split by kit. */
+export interface FirstAidCheckedLine extends FirstAidCheckLine {
+  kitId: string;
+  kitName: string;
+}
+
+/** Splits one check into a record per kit, in the order kits were checked. */
+export function toCheckRecords(
+  lines: FirstAidCheckedLine[],
+  check: Pick<
+    FirstAidCheckRecord,
+    "checkId" | "checkScope" | "checkedBy" | "checkedAt" | "notes"
+  >,
+): FirstAidCheckRecord[] {
+  const byKit = new Map<string, FirstAidCheckRecord>();
+  for (const { kitId, kitName, ...line } of lines) {
+    if (!byKit.has(kitId)) {
+      byKit.set(kitId, { ...check, kitId, kitName, lines: [] });
+    }
+    byKit.get(kitId)!.lines.push(line);
+  }
+  return [...byKit.values()];
+}
+
+/** Counted lines that came up short of their target. */
+export function checkShortages(
+  record: FirstAidCheckRecord,
+): FirstAidCheckLine[] {
+  return record.lines.filter((line) =>
+    line.countedQty !== null && line.countedQty < line.quantityTarget
+  );
+}
+
+export function checkSummary(record: FirstAidCheckRecord) {
+  const counted = record.lines.filter((line) => line.countedQty !== null);
+  return {
+    checked: counted.length,
+    skipped: record.lines.length - counted.length,
+    short: checkShortages(record).length,
+    over: counted.filter((line) => line.countedQty! > line.quantityTarget)
+      .length,
+  };
+}
+
+export interface FirstAidVarianceRow {
+  itemId: string;
+  itemName: string;
+  section: string;
+  /**
+   * Counted minus target for each check, oldest first: null where the item was
+   * skipped, undefined where it was not in the kit at the time.
+   */
+  variances: (number | null | undefined)[];
+}
+
+/**
+ * Counted-vs-target per item across a kit's checks (given newest first, as
+ * stored), limited to the latest `limit` checks and shown oldest first.
+ */
+export function varianceGrid(
+  records: FirstAidCheckRecord[],
+  limit = 12,
+): { checks: FirstAidCheckRecord[]; rows: FirstAidVarianceRow[] } {
+  const checks = records.slice(0, limit).reverse();
+  const rows = new Map<string, FirstAidVarianceRow>();
+  checks.forEach((record, idx) => {
+    for (const line of record.lines) {
+      if (!rows.has(line.itemId)) {
+        rows.set(line.itemId, {
+          itemId: line.itemId,
+          itemName: line.itemName,
+          section: line.section,
+          variances: new Array(checks.length).fill(undefined),
+        });
+      }
+      rows.get(line.itemId)!.variances[idx] = line.countedQty === null
+        ? null
+        : line.countedQty - line.quantityTarget;
+    }
+  });
+  return {
+    checks,
+    rows: [...rows.values()].sort((a, b) =>
+      a.section.localeCompare(b.section) ||
+      a.itemName.localeCompare(b.itemName, undefined, { numeric: true })
+    ),
+  };
+}
@@ -0,0 +1,68 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import {
+  checkShortages,
+  checkSummary,
+  toCheckRecords,
+  varianceGrid,
+} from "./firstAidCheckHistory.ts";
+
+const check = (checkId: string, checkedAt: string) => ({
+  checkId,
+  checkScope: "overall" as const,
+  checkedBy: "leader",
+  checkedAt: new Date(checkedAt),
+});
+
+const line = (
+  kitId: string,
+  itemId: string,
+  quantityTarget: number,
+  countedQty: number | null,
+) => ({
+  kitId,
+  kitName: kitId === "hike" ? "Hike bag" : "Camp kit",
+  itemId,
+  itemName: itemId,
+  section: "Wound care",
+  quantityTarget,
+  countedQty,
+});
+
+Deno.test("a check is split into one record per kit", () => {
+  const records = toCheckRecords([
+    line("hike", "plasters", 20, 12),
+    line("camp", "gloves", 4, 4),
+    line("hike", "gauze", 2, null),
+  ], check("c1", "2026-03-01"));
+  assertEquals(records.map((r) => [r.kitName, r.lines.length]), [
+    ["Hike bag", 2],
+    ["Camp kit", 1],
+  ]);
+  assertEquals(checkSummary(records[0]), {
+    checked: 1,
+    skipped: 1,
+    short: 1,
+    over: 0,
+  });
+  assertEquals(checkShortages(records[0]).map((l) => l.itemId), ["plasters"]);
+});
+
+Deno.test("variance grid runs oldest to newest with gaps for skipped items", () => {
+  const [march] = toCheckRecords([
+    line("hike", "plasters", 20, 18),
+    line("hike", "gauze", 2, null),
+  ], check("c1", "2026-03-01"));
+  const [april] = toCheckRecords([
+    line("hike", "plasters", 20, 21),
+    line("hike", "tape", 1, 0),
+  ], check("c2", "2026-04-01"));
+
+  const { checks, rows } = varianceGrid([april, march]);
+  assertEquals(checks.map((c) => c.checkId), ["c1", "c2"]);
+  assertEquals(rows.map((r) => [r.itemId, r.variances]), [
+    ["gauze", [null, undefined]],
+    ["plasters", [-2, 1]],
+    ["tape", [undefined, -1]],
+  ]);
+  assertEquals(varianceGrid([april, march], 1).checks.length, 1);
+});
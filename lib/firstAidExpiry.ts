@@ -0,0 +1,82 @@
+// First aid expiry — the dated contents of each kit (eye wash pods, burn gel,
+// medications, saline) as recorded during the kit check.
+//
+// Dates are calendar days (YYYY-MM-DD), so an item is usable up to and
+// including its expiry date and expired from the day after.
+// Pure functions: used by the check wizard's API, /reports/expiring,
+// /first-aid/print and the first aid expiry alert.
+import type {
+  FirstAidExpiryBatch,
+  FirstAidKit,
+  FirstAidKitEntry,
+} from "../types/firstAid.ts";
+
+/** Expiries inside this many days are flagged on the report and alert. */
+export const FIRST_AID_EXPIRY_WARNING_DAYS = 30;
+
+/** Days from `today` (YYYY-MM-DD) to `expiryDate`; negative once expired. */
+export function daysToExpiry(expiryDate: string, today: string): number {
+  return Math.round(
+    (Date.parse(`${expiryDate}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) /
+      86_400_000,
+  );
+}
+
+/** The earliest date among an entry's batches, or undefined if none are dated. */
+export function earliestExpiry(entry: FirstAidKitEntry): string | undefined {
+  return entry.expiryBatches
+    ?.map((batch) => batch.expiryDate)
+    .sort()[0];
+}
+
+export function isExpiryBatch(value: unknown): value is FirstAidExpiryBatch {
+  const batch = value as FirstAidExpiryBatch | null;
+  return typeof batch === "object" && batch !== null &&
+    Number.isInteger(batch.quantity) && batch.quantity > 0 &&
+    typeof batch.expiryDate === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(batch.expiryDate) &&
+    !isNaN(Date.parse(batch.expiryDate));
+}
+
+export interface FirstAidExpiryRow {
+  kitId: string;
+  kitName: string;
+  itemId: string;
+  itemName: string;
+  quantity: number;
+  expiryDate: string;
+  days: number;
+}
+
+/**
+ * Batches expiring within `withinDays` of `today`, expired ones included,
+ * soonest first. Pass Infinity for every dated batch.
+ */
+export function expiringFirstAid(
+  kits: FirstAidKit[],
+  today: string,
+  withinDays = FIRST_AID_EXPIRY_WARNING_DAYS,
+): FirstAidExpiryRow[] {
+  const rows: FirstAidExpiryRow[] = [];
+  for (const kit of kits) {
+    for (const entry of kit.entries) {
+      for (const batch of entry.expiryBatches ?? []) {
+        const days = daysToExpiry(batch.expiryDate, today);
+        if (days > withinDays) continue;
+        rows.push({
+          kitId: kit.id,
+          kitName: kit.name,
+          itemId: entry.itemId,
+          itemName: entry.name,
+          quantity: batch.quantity,
+          expiryDate: batch.expiryDate,
+          days,
+        });
+      }
+    }
+  }
+  return rows.sort((a, b) =>
+    a.expiryDate.localeCompare(b.expiryDate) ||
+    a.kitName.localeCompare(b.kitName, undefined, { numeric: true })
+  );
+}
@@ -0,0 +1,64 @@
+import { assert, assertEquals } from "$std/assert/mod.ts";
+import type { FirstAidKit } from "../types/firstAid.ts";
+import {
+  earliestExpiry,
+  expiringFirstAid,
+  isExpiryBatch,
+} from "./firstAidExpiry.ts";
+
+const kit = (id: string, name: string, entries: FirstAidKit["entries"]) =>
+  ({
+    id,
+    name,
+    entries,
+    createdBy: "leader",
+    createdAt: new Date(),
+    lastUpdated: new Date(),
+  }) as FirstAidKit;
+
+const kits = [
+  kit("hike", "Hike bag", [
+    {
+      itemId: "eyewash",
+      name: "Eye wash pods",
+      quantityTarget: 4,
+      expiryBatches: [
+        { quantity: 2, expiryDate: "2026-12-01" },
+        { quantity: 2, expiryDate: "2026-06-20" },
+      ],
+    },
+    { itemId: "plasters", name: "Plasters", quantityTarget: 20 },
+  ]),
+  kit("camp", "Camp kit", [
+    {
+      itemId: "burn-gel",
+      name: "Burn gel",
+      quantityTarget: 2,
+      expiryBatches: [{ quantity: 2, expiryDate: "2026-05-30" }],
+    },
+  ]),
+];
+
+Deno.test("earliest expiry per line", () => {
+  assertEquals(earliestExpiry(kits[0].entries[0]), "2026-06-20");
+  assertEquals(earliestExpiry(kits[0].entries[1]), undefined);
+});
+
+Deno.test("expiring batches within the window, expired first", () => {
+  const rows = expiringFirstAid(kits, "2026-06-01");
+  assertEquals(
+    rows.map((r) => [r.kitName, r.itemName, r.quantity, r.days]),
+    [
+      ["Camp kit", "Burn gel", 2, -2],
+      ["Hike bag", "Eye wash pods", 2, 19],
+    ],
+  );
+  assertEquals(expiringFirstAid(kits, "2026-06-01", Infinity).length, 3);
+});
+
+Deno.test("batches need a whole quantity and a calendar date", () => {
+  assert(isExpiryBatch({ quantity: 3, expiryDate: "2027-01-31" }));
+  assert(!isExpiryBatch({ quantity: 0, expiryDate: "2027-01-31" }));
+  assert(!isExpiryBatch({ quantity: 1, expiryDate: "31/01/2027" }));
+  assert(!isExpiryBatch({ quantity: 1.5, expiryDate: "2027-01-31" }));
+});
@@ -0,0 +1,92 @@
+// First aid kit profiles — comparing a kit with the profile it was built from,
+// so profile changes can be previewed and rolled out, and drifted kits found.
+//
+// Rolling a profile out only adds missing entries and moves targets; items a
+// kit carries beyond its profile are reported but left in place.
+// Pure functions: used by /first-aid/catalog and /first-aid/profiles/[id].
+import type {
+  FirstAidCatalogItem,
+  FirstAidKit,
+  FirstAidKitEntry,
+  FirstAidKitProfile,
+} from "../types/firstAid.ts";
+
+export interface FirstAidProfileDiff {
+  /** In the profile but not the kit */
+  add: FirstAidKitEntry[];
+  /** In both with a different target */
+  adjust: { itemId: string; name: string; from: number; to: number }[];
+  /** In the kit but not the profile */
+  extra: FirstAidKitEntry[];
+}
+
+export function profileDiff(
+  kit: FirstAidKit,
+  profile: FirstAidKitProfile,
+  catalog: FirstAidCatalogItem[],
+): FirstAidProfileDiff {
+  const names = new Map(catalog.map((item) => [item.id, item.name]));
+  const inKit = new Map(kit.entries.map((entry) => [entry.itemId, entry]));
+  const inProfile = new Set(profile.items.map((item) => item.itemId));
+  const diff: FirstAidProfileDiff = { add: [], adjust: [], extra: [] };
+
+  for (const item of profile.items) {
+    const entry = inKit.get(item.itemId);
+    if (!entry) {
+      const name = names.get(item.itemId);
+      // Items since removed from the catalog can't be added
+      if (name) {
+        diff.add.push({
+          itemId: item.itemId,
+          name,
+          quantityTarget: item.quantityTarget,
+        });
+      }
+    } else if (entry.quantityTarget !== item.quantityTarget) {
+      diff.adjust.push({
+        itemId: item.itemId,
+        name: entry.name,
+        from: entry.quantityTarget,
+        to: item.quantityTarget,
+      });
+    }
+  }
+  diff.extra = kit.entries.filter((entry) => !inProfile.has(entry.itemId));
+  return diff;
+}
+
+export function hasDrifted(diff: FirstAidProfileDiff): boolean {
+  return diff.add.length + diff.adjust.length + diff.extra.length > 0;
+}
+
+/** The kit's entries with missing items added and targets brought in line. */
+export function applyProfileDiff(
+  entries: FirstAidKitEntry[],
+  diff: FirstAidProfileDiff,
+): FirstAidKitEntry[] {
+  const targets = new Map(
+    diff.adjust.map((change) => [change.itemId, change.to]),
+  );
+  return [
+    ...entries.map((entry) =>
+      targets.has(entry.itemId)
+        ? { ...entry, quantityTarget: targets.get(entry.itemId)! }
+        : entry
+    ),
+    ...diff.add,
+  ];
+}
+
+/** A short description of a diff, e.g. "2 to add, 1 target changed". */
+export function describeDiff(diff: FirstAidProfileDiff): string {
+  const parts = [
+    diff.add.length > 0 ? `${diff.add.length} to add` : "",
+    diff.adjust.length > 0
+      ? `${diff.adjust.length} target${
+        diff.adjust.length === 1 ? "" : "s"
+      } changed`
+      : "",
+    diff.extra.length > 0 ? `${diff.extra.length} not in profile` : "",
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "Matches profile";
+}
@@ -0,0 +1,82 @@
+import { assert, assertEquals } from "$std/assert/mod.ts";
+import type {
+  FirstAidCatalogItem,
+  FirstAidKit,
+  FirstAidKitProfile,
+} from "../types/firstAid.ts";
+import {
+  applyProfileDiff,
+  describeDiff,
+  hasDrifted,
+  profileDiff,
+} from "./firstAidProfiles.ts";
+
+const catalog: FirstAidCatalogItem[] = [
+  { id: "plasters", name: "Adhesive bandages", section: "Wound care" },
+  { id: "gloves", name: "Disposable gloves", section: "PPE" },
+  { id: "eye-wash", name: "Eye wash sterile pods", section: "Irrigation" },
+  { id: "tweezers", name: "Tweezers", section: "Tools" },
+];
+
+const profile: FirstAidKitProfile = {
+  id: "hike",
+  label: "Hike",
+  description: "Day hikes",
+  items: [
+    { itemId: "plasters", quantityTarget: 30 },
+    { itemId: "gloves", quantityTarget: 6 },
+    { itemId: "eye-wash", quantityTarget: 2 },
+    { itemId: "retired-item", quantityTarget: 1 },
+  ],
+};
+
+const kit: FirstAidKit = {
+  id: "bag-1",
+  name: "Hike bag",
+  profileId: "hike",
+  entries: [
+    { itemId: "plasters", name: "Adhesive bandages", quantityTarget: 20 },
+    {
+      itemId: "gloves",
+      name: "Disposable gloves",
+      quantityTarget: 6,
+      expiryBatches: [{ quantity: 6, expiryDate: "2028-01-01" }],
+    },
+    { itemId: "tweezers", name: "Tweezers", quantityTarget: 1 },
+  ],
+  createdBy: "leader",
+  createdAt: new Date("2026-01-01"),
+  lastUpdated: new Date("2026-01-01"),
+};
+
+Deno.test("diff lists additions, target changes and extras", () => {
+  const diff = profileDiff(kit, profile, catalog);
+  assertEquals(diff.add.map((e) => [e.itemId, e.quantityTarget]), [
+    ["eye-wash", 2],
+  ]);
+  assertEquals(diff.adjust, [
+    { itemId: "plasters", name: "Adhesive bandages", from: 20, to: 30 },
+  ]);
+  assertEquals(diff.extra.map((e) => e.itemId), ["tweezers"]);
+  assertEquals(
+    describeDiff(diff),
+    "1 to add, 1 target changed, 1 not in profile",
+  );
+});
+
+Deno.test("applying a diff keeps extras and expiry dates", () => {
+  const entries = applyProfileDiff(
+    kit.entries,
+    profileDiff(kit, profile, catalog),
+  );
+  assertEquals(
+    entries.map((e) => [e.itemId, e.quantityTarget]),
+    [["plasters", 30], ["gloves", 6], ["tweezers", 1], ["eye-wash", 2]],
+  );
+  assertEquals(entries[1].expiryBatches?.length, 1);
+
+  const after = { ...kit, entries };
+  const remaining = profileDiff(after, profile, catalog);
+  assert(hasDrifted(remaining));
+  assertEquals(remaining.add.length + remaining.adjust.length, 0);
+});
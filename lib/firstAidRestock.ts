@@ -0,0 +1,197 @@
+// First aid restock — refilling kits from the central first aid box after a
+// check, and working out what has to be bought when the box runs short.
+//
+// Shortages come from each kit's latest check, less anything already put back
+// since. Dated refills go out soonest-expiry first; expired ones stay behind.
+// Pure functions: used by restockFirstAidKits in db/kv.ts and /first-aid/stock.
+import type {
+  FirstAidCheckRecord,
+  FirstAidExpiryBatch,
+  FirstAidStockEntry,
+} from "../types/firstAid.ts";
+import { checkShortages } from "./firstAidCheckHistory.ts";
+import { daysToExpiry } from "./firstAidExpiry.ts";
+
+export interface FirstAidShortageLine {
+  kitId: string;
+  kitName: string;
+  checkId: string;
+  itemId: string;
+  itemName: string;
+  missing: number;
+}
+
+export interface FirstAidRestockMove extends FirstAidShortageLine {
+  /** How many go into the kit, up to `missing` */
+  quantity: number;
+  /** The dated part of `quantity` */
+  batches: FirstAidExpiryBatch[];
+}
+
+export interface FirstAidBuyLine {
+  itemId: string;
+  itemName: string;
+  quantity: number;
+}
+
+export interface FirstAidRestockPlan {
+  moves: FirstAidRestockMove[];
+  /** Central stock after the moves, for the entries that changed */
+  stock: FirstAidStockEntry[];
+  /** Shortfall central stock can't cover, totalled per item */
+  toBuy: FirstAidBuyLine[];
+}
+
+/** Outstanding shortages from each kit's latest check record. */
+export function pendingShortages(
+  latest: FirstAidCheckRecord[],
+): FirstAidShortageLine[] {
+  return latest.flatMap((record) =>
+    checkShortages(record).map((line) => ({
+      kitId: record.kitId,
+      kitName: record.kitName,
+      checkId: record.checkId,
+      itemId: line.itemId,
+      itemName: line.itemName,
+      missing: line.quantityTarget - line.countedQty! -
+        (record.restocked?.[line.itemId] ?? 0),
+    })).filter((line) => line.missing > 0)
+  );
+}
+
+/** Dated batches in the entry that have passed their expiry date. */
+export function expiredStock(
+  entry: FirstAidStockEntry,
+  today: string,
+): FirstAidExpiryBatch[] {
+  return (entry.expiryBatches ?? []).filter((batch) =>
+    daysToExpiry(batch.expiryDate, today) < 0
+  );
+}
+
+/** What can still go into a kit — everything except expired batches. */
+export function usableQuantity(
+  entry: FirstAidStockEntry,
+  today: string,
+): number {
+  return entry.quantity -
+    expiredStock(entry, today).reduce((sum, batch) => sum + batch.quantity, 0);
+}
+
+/** Takes up to `wanted` usable refills, soonest-dated first then undated. */
+function takeFromStock(
+  entry: FirstAidStockEntry,
+  wanted: number,
+  today: string,
+): {
+  taken: number;
+  batches: FirstAidExpiryBatch[];
+  entry: FirstAidStockEntry;
+} {
+  const dated = [...(entry.expiryBatches ?? [])]
+    .sort((a, b) => a.expiryDate.localeCompare(b.expiryDate));
+  const undated = entry.quantity -
+    dated.reduce((sum, batch) => sum + batch.quantity, 0);
+  let remaining = wanted;
+  const taken: FirstAidExpiryBatch[] = [];
+  const kept: FirstAidExpiryBatch[] = [];
+  for (const batch of dated) {
+    const usable = daysToExpiry(batch.expiryDate, today) >= 0;
+    const quantity = usable ? Math.min(batch.quantity, remaining) : 0;
+    remaining -= quantity;
+    if (quantity > 0) taken.push({ ...batch, quantity });
+    if (batch.quantity > quantity) {
+      kept.push({ ...batch, quantity: batch.quantity - quantity });
+    }
+  }
+  const fromUndated = Math.min(undated, remaining);
+  remaining -= fromUndated;
+  return {
+    taken: wanted - remaining,
+    batches: taken,
+    entry: {
+      ...entry,
+      quantity: entry.quantity - (wanted - remaining),
+      expiryBatches: kept.length > 0 ? kept : undefined,
+    },
+  };
+}
+
+/**
+ * Fills shortages from central stock in the order given. Whatever can't be
+ * covered goes on the shopping list.
+ */
+export function planRestock(
+  shortages: FirstAidShortageLine[],
+  stock: FirstAidStockEntry[],
+  today: string,
+): FirstAidRestockPlan {
+  const byItem = new Map(stock.map((entry) => [entry.itemId, entry]));
+  const changed = new Set<string>();
+  const moves: FirstAidRestockMove[] = [];
+  const toBuy = new Map<string, FirstAidBuyLine>();
+
+  for (const shortage of shortages) {
+    const entry = byItem.get(shortage.itemId);
+    const { taken, batches, entry: after } = entry
+      ? takeFromStock(entry, shortage.missing, today)
+      : { taken: 0, batches: [], entry: undefined };
+    if (taken > 0) {
+      byItem.set(shortage.itemId, after!);
+      changed.add(shortage.itemId);
+      moves.push({ ...shortage, quantity: taken, batches });
+    }
+    const short = shortage.missing - taken;
+    if (short > 0) {
+      const line = toBuy.get(shortage.itemId) ??
+        { itemId: shortage.itemId, itemName: shortage.itemName, quantity: 0 };
+      line.quantity += short;
+      toBuy.set(shortage.itemId, line);
+    }
+  }
+
+  return {
+    moves,
+    stock: [...changed].map((itemId) => byItem.get(itemId)!),
+    toBuy: [...toBuy.values()].sort((a, b) =>
+      a.itemName.localeCompare(b.itemName, undefined, { numeric: true })
+    ),
+  };
+}
+
+/** Combines two lists of batches, adding together those that share a date. */
+export function mergeExpiryBatches(
+  existing: FirstAidExpiryBatch[],
+  added: FirstAidExpiryBatch[],
+): FirstAidExpiryBatch[] {
+  const byDate = new Map<string, number>();
+  for (const batch of [...existing, ...added]) {
+    byDate.set(
+      batch.expiryDate,
+      (byDate.get(batch.expiryDate) ?? 0) + batch.quantity,
+    );
+  }
+  return [...byDate].sort(([a], [b]) => a.localeCompare(b))
+    .map(([expiryDate, quantity]) => ({ quantity, expiryDate }));
+}
+
+/** Adds received refills to an entry; undated unless `expiryDate` is given. */
+export function addToStock(
+  entry: FirstAidStockEntry | null,
+  itemId: string,
+  quantity: number,
+  expiryDate: string | undefined,
+  username: string,
+): FirstAidStockEntry {
+  const batches = mergeExpiryBatches(
+    entry?.expiryBatches ?? [],
+    expiryDate ? [{ quantity, expiryDate }] : [],
+  );
+  return {
+    itemId,
+    quantity: (entry?.quantity ?? 0) + quantity,
+    expiryBatches: batches.length > 0 ? batches : undefined,
+    updatedBy: username,
+    updatedAt: new Date(),
+  };
+}
@@ -0,0 +1,101 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type {
+  FirstAidCheckRecord,
+  FirstAidStockEntry,
+} from "../types/firstAid.ts";
+import {
+  addToStock,
+  pendingShortages,
+  planRestock,
+} from "./firstAidRestock.ts";
+
+const record = (
+  kitId: string,
+  lines: [string, number, number][],
+  restocked?: Record<string, number>,
+): FirstAidCheckRecord => ({
+  checkId: `check-${kitId}`,
+  kitId,
+  kitName: kitId === "hike" ? "Hike bag" : "Camp kit",
+  checkScope: "overall",
+  checkedBy: "leader",
+  checkedAt: new Date("2026-05-01"),
+  lines: lines.map(([itemId, quantityTarget, countedQty]) => ({
+    itemId,
+    itemName: itemId,
+    section: "General",
+    quantityTarget,
+    countedQty,
+  })),
+  restocked,
+});
+
+const stock = (
+  itemId: string,
+  quantity: number,
+  expiryBatches?: FirstAidStockEntry["expiryBatches"],
+): FirstAidStockEntry => ({
+  itemId,
+  quantity,
+  expiryBatches,
+  updatedBy: "qm",
+  updatedAt: new Date("2026-04-01"),
+});
+
+Deno.test("shortages net off what has already been put back", () => {
+  const shortages = pendingShortages([
+    record("hike", [["plasters", 20, 12], ["gloves", 4, 4]], { plasters: 5 }),
+    record("camp", [["plasters", 20, 17]], { plasters: 3 }),
+  ]);
+  assertEquals(
+    shortages.map((s) => [s.kitId, s.itemId, s.missing]),
+    [["hike", "plasters", 3]],
+  );
+});
+
+Deno.test("restock takes soonest usable dates first and lists the shortfall", () => {
+  const plan = planRestock(
+    pendingShortages([
+      record("hike", [["eye-wash", 4, 0], ["plasters", 20, 15]]),
+      record("camp", [["eye-wash", 4, 2]]),
+    ]),
+    [
+      stock("eye-wash", 6, [
+        { quantity: 1, expiryDate: "2026-04-30" },
+        { quantity: 2, expiryDate: "2027-01-01" },
+        { quantity: 3, expiryDate: "2026-09-01" },
+      ]),
+    ],
+    "2026-05-02",
+  );
+
+  assertEquals(
+    plan.moves.map((m) => [m.kitId, m.quantity, m.batches]),
+    [
+      ["hike", 4, [{ quantity: 3, expiryDate: "2026-09-01" }, {
+        quantity: 1,
+        expiryDate: "2027-01-01",
+      }]],
+      ["camp", 1, [{ quantity: 1, expiryDate: "2027-01-01" }]],
+    ],
+  );
+  // Only the expired pod is left behind
+  assertEquals(plan.stock.map((s) => [s.quantity, s.expiryBatches]), [
+    [1, [{ quantity: 1, expiryDate: "2026-04-30" }]],
+  ]);
+  assertEquals(plan.toBuy.map((b) => [b.itemId, b.quantity]), [
+    ["eye-wash", 1],
+    ["plasters", 5],
+  ]);
+});
+
+Deno.test("received refills merge into batches sharing a date", () => {
+  const first = addToStock(null, "burn-gel", 2, "2027-03-01", "qm");
+  const second = addToStock(first, "burn-gel", 3, "2027-03-01", "qm");
+  const third = addToStock(second, "burn-gel", 4, undefined, "qm");
+  assertEquals(third.quantity, 9);
+  assertEquals(third.expiryBatches, [{
+    quantity: 5,
+    expiryDate: "2027-03-01",
+  }]);
+});
@@ -0,0 +1,107 @@
+// Food batches — the lots a food product keeps inline.
+//
+// Stock always leaves from the lot that expires first (FEFO), and the lots it
+// came from are recorded so it can be put back into the same lots later. The
+// product's quantity and expiryDate mirror its lots so expiry alerts and the
+// expiry index keep working unchanged.
+// Pure functions: used by the food stock writes in db/kv.ts.
+import {
+  type FoodBatch,
+  type FoodBatchAllocation,
+  type FoodItem,
+  getFoodBatches,
+} from "../types/inventory.ts";
+
+/** Updates that give `item` these lots, dropping empty ones. */
+export function withFoodBatches(
+  item: FoodItem,
+  batches: FoodBatch[],
+): Partial<FoodItem> {
+  const lots = batches
+    .filter((batch) => batch.quantity > 0)
+    .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime());
+  return {
+    batches: lots,
+    quantity: lots.reduce((sum, batch) => sum + batch.quantity, 0),
+    expiryDate: lots[0]?.expiryDate ?? item.expiryDate,
+  };
+}
+
+/**
+ * Take stock first-expiring-first-out. Takes what is there if the product
+ * runs short, and returns the lots used so they can be restored later.
+ */
+export function takeFoodStock(
+  item: FoodItem,
+  quantity: number,
+): { updates: Partial<FoodItem>; allocations: FoodBatchAllocation[] } {
+  const allocations: FoodBatchAllocation[] = [];
+  let remaining = quantity;
+  const batches = [...getFoodBatches(item)]
+    .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime())
+    .map((batch) => {
+      const taken = Math.min(batch.quantity, remaining);
+      if (taken === 0) return batch;
+      remaining -= taken;
+      allocations.push({
+        batchId: batch.id,
+        quantity: taken,
+        expiryDate: batch.expiryDate.toISOString(),
+      });
+      return { ...batch, quantity: batch.quantity - taken };
+    });
+  return { updates: withFoodBatches(item, batches), allocations };
+}
+
+/**
+ * Put food back into the lots it came from, recreating a lot that has since
+ * been used up. Without allocations (stock deducted before batches existed)
+ * the quantity goes back into the first-expiring lot.
+ */
+export function putBackFoodStock(
+  item: FoodItem,
+  quantity: number,
+  allocations?: FoodBatchAllocation[],
+  now = new Date(),
+): Partial<FoodItem> {
+  const batches = [...getFoodBatches(item)];
+  if (!allocations) {
+    if (!item.batches) return { quantity: item.quantity + quantity };
+    allocations = [{
+      batchId: batches[0]?.id ?? item.id,
+      quantity,
+      expiryDate: item.expiryDate.toISOString(),
+    }];
+  }
+  for (const allocation of allocations) {
+    const index = batches.findIndex((batch) => batch.id === allocation.batchId);
+    if (index >= 0) {
+      batches[index] = {
+        ...batches[index],
+        quantity: batches[index].quantity + allocation.quantity,
+      };
+    } else {
+      batches.push({
+        id: allocation.batchId,
+        quantity: allocation.quantity,
+        expiryDate: new Date(allocation.expiryDate),
+        addedDate: now,
+      });
+    }
+  }
+  return withFoodBatches(item, batches);
+}
+
+/**
+ * Updates that fold the lots of duplicate records (one per expiry date, as
+ * stored before batches) into `target`.
+ */
+export function mergeFoodBatches(
+  target: FoodItem,
+  sources: FoodItem[],
+): Partial<FoodItem> {
+  return withFoodBatches(target, [
+    ...getFoodBatches(target),
+    ...sources.flatMap((source) => getFoodBatches(source)),
+  ]);
+}
@@ -0,0 +1,83 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type { FoodBatch, FoodItem } from "../types/inventory.ts";
+import { putBackFoodStock, takeFoodStock } from "./foodBatches.ts";
+
+function lot(id: string, quantity: number, expiry: string): FoodBatch {
+  return {
+    id,
+    quantity,
+    expiryDate: new Date(expiry),
+    addedDate: new Date("2026-01-01"),
+  };
+}
+
+function beans(batches: FoodBatch[]): FoodItem {
+  return {
+    id: "beans",
+    name: "Baked Beans",
+    category: "food",
+    foodType: "canned",
+    space: "camp-store",
+    quantity: batches.reduce((sum, batch) => sum + batch.quantity, 0),
+    minThreshold: 0,
+    location: "Food Shelf",
+    addedDate: new Date("2026-01-01"),
+    lastUpdated: new Date("2026-01-01"),
+    expiryDate: new Date("2026-09-01"),
+    batches,
+  } as FoodItem;
+}
+
+Deno.test("stock leaves from the earliest expiring lot first", () => {
+  const item = beans([
+    lot("late", 10, "2027-03-01"),
+    lot("early", 4, "2026-09-01"),
+    lot("middle", 5, "2026-12-01"),
+  ]);
+  const { updates, allocations } = takeFoodStock(item, 6);
+  assertEquals(allocations, [
+    { batchId: "early", quantity: 4, expiryDate: "2026-09-01T00:00:00.000Z" },
+    { batchId: "middle", quantity: 2, expiryDate: "2026-12-01T00:00:00.000Z" },
+  ]);
+  assertEquals(updates.batches?.map((b) => [b.id, b.quantity]), [
+    ["middle", 3],
+    ["late", 10],
+  ]);
+  assertEquals(updates.quantity, 13);
+  assertEquals(updates.expiryDate, new Date("2026-12-01"));
+});
+
+Deno.test("running short takes what is there", () => {
+  const item = beans([lot("a", 2, "2026-09-01"), lot("b", 1, "2026-10-01")]);
+  const { updates, allocations } = takeFoodStock(item, 5);
+  assertEquals(allocations.map((a) => [a.batchId, a.quantity]), [
+    ["a", 2],
+    ["b", 1],
+  ]);
+  assertEquals(updates.batches, []);
+  assertEquals(updates.quantity, 0);
+  assertEquals(updates.expiryDate, item.expiryDate);
+});
+
+Deno.test("restoring after the lots were edited puts stock back where it came from", () => {
+  const item = beans([lot("a", 3, "2026-09-01"), lot("b", 5, "2026-10-01")]);
+  const { updates, allocations } = takeFoodStock(item, 5);
+
+  // Meanwhile lot b was recounted and lot a, now empty, is gone
+  const edited = beans([{ ...updates.batches![0], quantity: 1 }]);
+  const now = new Date("2026-08-01");
+  const restored = putBackFoodStock(edited, 5, allocations, now);
+  assertEquals(restored.batches, [
+    { ...lot("a", 3, "2026-09-01"), addedDate: now },
+    lot("b", 3, "2026-10-01"),
+  ]);
+  assertEquals(restored.quantity, 6);
+  assertEquals(restored.expiryDate, new Date("2026-09-01"));
+
+  // Stock taken before batches were recorded goes to the first-expiring lot
+  assertEquals(putBackFoodStock(edited, 2).batches?.[0].quantity, 3);
+  assertEquals(
+    putBackFoodStock({ ...edited, batches: undefined, quantity: 4 }, 2),
+    { quantity: 6 },
+  );
+});
@@ -1,17 +1,30 @@
 import {
+  getAllBorrowers,
+  getAllBudgets,
   getAllCampPlans,
   getAllCampTemplates,
   getAllCheckOuts,
   getAllFeedbackRequests,
   getAllFirstAidCatalogItems,
+  getAllFirstAidCheckHistory,
   getAllFirstAidKits,
+  getAllFirstAidProfiles,
   getAllItemPhotoMetadataRecords,
   getAllItems,
+  getAllItemUnits,
   getAllMeals,
+  getAllPurchaseRequests,
   getAllRiskAssessments,
+  getAllShoppingLists,
+  getAllStatsSnapshots,
+  getAllStorageLocations,
+  getAllStorageSpaces,
+  getDepreciationPolicy,
   getFirstAidKitCheckStates,
   getFirstAidOverallCheckState,
+  getFirstAidStock,
   getNeckerMetrics,
+  getNotificationSettings,
   initKv,
 } from "../db/kv.ts";
 import {
@@ -25,13 +38,41 @@ import type {
   InventoryBackupSnapshot,
 } from "../types/inventoryBackup.ts";
 import type { FeedbackRequest } from "../types/feedback.ts";
-import type { FirstAidCheckState } from "../types/firstAid.ts";
 import type {
+  FirstAidCheckRecord,
+  FirstAidCheckState,
+  FirstAidKitProfile,
+  FirstAidStockEntry,
+} from "../types/firstAid.ts";
+import type {
+  Borrower,
   CampPlan,
   CampTemplate,
   CheckOut,
+  FoodBatch,
   InventoryItem,
+  ItemUnit,
+  StorageLocation,
+  StorageSpace,
 } from "../types/inventory.ts";
+import type { ShoppingList } from "../types/meals.ts";
+import type { PurchaseRequest } from "../types/purchasing.ts";
+import type { Budget } from "./budget.ts";
+import type { StatsSnapshot } from "./trends.ts";
+import {
+  type DepreciationPolicy,
+  normalizeDepreciationPolicy,
+} from "./valuation.ts";
+import { ALL_CATEGORIES } from "../types/inventory.ts";
+import type {
+  NotificationChannelConfig,
+  NotificationSettings,
+} from "../types/notifications.ts";
+import {
+  CHANNEL_KINDS,
+  NOTIFICATION_TYPES,
+  outboxPath,
+} from "./notificationChannels.ts";
 import type { RiskAssessment } from "../types/risk.ts";
 
 const DEFAULT_WEEKLY_BACKUP_CRON = "0 3 * * 7";
@@ -114,10 +155,49 @@ function reviveInventoryItem(raw: Record<string, unknown>): InventoryItem {
   if (item.category === "food" && "expiryDate" in raw) {
     item.expiryDate = reviveDateStrict("items[].expiryDate", raw.expiryDate);
   }
+  if (item.category === "food" && Array.isArray(raw.batches)) {
+    item.batches = raw.batches.map((batch) => ({
+      ...(batch as Record<string, unknown>),
+      expiryDate: reviveDateStrict(
+        "items[].batches[].expiryDate",
+        (batch as Record<string, unknown>).expiryDate,
+      ),
+      addedDate: reviveDateStrict(
+        "items[].batches[].addedDate",
+        (batch as Record<string, unknown>).addedDate,
+      ),
+    })) as FoodBatch[];
+  }
 
   return item;
 }
 
+function reviveItemUnit(raw: Record<string, unknown>): ItemUnit {
+  return {
+    ...raw,
+    lastInspectedDate: raw.lastInspectedDate
+      ? reviveDateStrict("itemUnits[].lastInspectedDate", raw.lastInspectedDate)
+      : undefined,
+    nextInspectionDate: raw.nextInspectionDate
+      ? reviveDateStrict(
+        "itemUnits[].nextInspectionDate",
+        raw.nextInspectionDate,
+      )
+      : undefined,
+    maintenanceHistory: Array.isArray(raw.maintenanceHistory)
+      ? raw.maintenanceHistory.map((entry) => ({
+        ...(entry as Record<string, unknown>),
+        date: reviveDateStrict(
+          "itemUnits[].maintenanceHistory[].date",
+          (entry as Record<string, unknown>).date,
+        ),
+      }))
+      : undefined,
+    createdAt: reviveDateStrict("itemUnits[].createdAt", raw.createdAt),
+    lastUpdated: reviveDateStrict("itemUnits[].lastUpdated", raw.lastUpdated),
+  } as ItemUnit;
+}
+
 function reviveCheckOut(raw: Record<string, unknown>): CheckOut {
   return {
     ...raw,
@@ -135,6 +215,42 @@ function reviveCheckOut(raw: Record<string, unknown>): CheckOut {
   } as CheckOut;
 }
 
+function reviveBorrower(raw: Record<string, unknown>): Borrower {
+  return {
+    ...raw,
+    createdAt: reviveDateStrict("borrowers[].createdAt", raw.createdAt),
+    lastUpdated: reviveDateStrict("borrowers[].lastUpdated", raw.lastUpdated),
+  } as Borrower;
+}
+
+function reviveStorageLocation(
+  raw: Record<string, unknown>,
+): StorageLocation {
+  return {
+    ...raw,
+    archived: raw.archived === true,
+    createdAt: reviveDateStrict("storageLocations[].createdAt", raw.createdAt),
+    lastUpdated: reviveDateStrict(
+      "storageLocations[].lastUpdated",
+      raw.lastUpdated,
+    ),
+  } as StorageLocation;
+}
+
+function reviveStorageSpace(raw: Record<string, unknown>): StorageSpace {
+  return {
+    ...raw,
+    allowedCategories: Array.isArray(raw.allowedCategories)
+      ? raw.allowedCategories
+      : [],
+    createdAt: reviveDateStrict("storageSpaces[].createdAt", raw.createdAt),
+    lastUpdated: reviveDateStrict(
+      "storageSpaces[].lastUpdated",
+      raw.lastUpdated,
+    ),
+  } as StorageSpace;
+}
+
 function reviveCampPlan(raw: Record<string, unknown>): CampPlan {
   return {
     ...raw,
@@ -172,6 +288,62 @@ function reviveFirstAidCheckState(
   };
 }
 
+function reviveFirstAidCheckRecord(
+  raw: Record<string, unknown>,
+): FirstAidCheckRecord {
+  if (!raw.kitId || !raw.checkId || !Array.isArray(raw.lines)) {
+    throw new Error("Invalid record in firstAidCheckHistory.");
+  }
+  return {
+    ...raw,
+    kitId: String(raw.kitId),
+    checkId: String(raw.checkId),
+    checkedAt: reviveDateStrict(
+      "firstAidCheckHistory[].checkedAt",
+      raw.checkedAt,
+    ),
+    restockedAt: raw.restockedAt
+      ? reviveDateStrict("firstAidCheckHistory[].restockedAt", raw.restockedAt)
+      : undefined,
+  } as FirstAidCheckRecord;
+}
+
+function reviveFirstAidStockEntry(
+  raw: Record<string, unknown>,
+): FirstAidStockEntry {
+  const quantity = Number(raw.quantity);
+  if (!raw.itemId || !Number.isInteger(quantity) || quantity < 0) {
+    throw new Error("Invalid entry in firstAidStock.");
+  }
+  return {
+    ...raw,
+    itemId: String(raw.itemId),
+    quantity,
+    expiryBatches: Array.isArray(raw.expiryBatches)
+      ? raw.expiryBatches
+      : undefined,
+    updatedAt: reviveDateStrict("firstAidStock[].updatedAt", raw.updatedAt),
+  } as FirstAidStockEntry;
+}
+
+function reviveFirstAidProfile(
+  raw: Record<string, unknown>,
+): FirstAidKitProfile {
+  if (!Array.isArray(raw.items)) {
+    throw new Error("Invalid items in firstAidProfiles[].");
+  }
+  return {
+    ...raw,
+    id: String(raw.id ?? "").trim(),
+    label: String(raw.label ?? "").trim(),
+    description: String(raw.description ?? ""),
+    items: raw.items,
+    updatedAt: raw.updatedAt
+      ? reviveDateStrict("firstAidProfiles[].updatedAt", raw.updatedAt)
+      : undefined,
+  } as FirstAidKitProfile;
+}
+
 function reviveRiskAssessment(raw: Record<string, unknown>): RiskAssessment {
   return {
     ...raw,
@@ -239,6 +411,140 @@ function reviveFeedbackRequest(raw: Record<string, unknown>): FeedbackRequest {
   return request;
 }
 
+function revivePurchaseRequest(raw: Record<string, unknown>): PurchaseRequest {
+  const status = String(raw.status ?? "requested");
+  if (
+    ![
+      "requested",
+      "approved",
+      "rejected",
+      "ordered",
+      "received",
+      "cancelled",
+    ].includes(status)
+  ) {
+    throw new Error("Invalid purchase request status.");
+  }
+  const timestamp = (field: string) =>
+    raw[field]
+      ? reviveIsoTimestamp(`purchaseRequests[].${field}`, raw[field])
+      : undefined;
+  return {
+    ...raw,
+    status,
+    requestedAt: reviveIsoTimestamp(
+      "purchaseRequests[].requestedAt",
+      raw.requestedAt,
+    ),
+    reviewedAt: timestamp("reviewedAt"),
+    orderedAt: timestamp("orderedAt"),
+    receivedAt: timestamp("receivedAt"),
+  } as PurchaseRequest;
+}
+
+function reviveBudget(raw: Record<string, unknown>): Budget {
+  const year = Number(raw.year);
+  if (!Number.isInteger(year)) throw new Error("Invalid budget year.");
+  const amounts = raw.amounts && typeof raw.amounts === "object"
+    ? Object.fromEntries(
+      Object.entries(raw.amounts as Record<string, unknown>)
+        .map(([category, amount]) => [category, Number(amount)])
+        .filter(([, amount]) => Number.isFinite(amount)),
+    )
+    : {};
+  return {
+    ...raw,
+    year,
+    amounts,
+    updatedAt: raw.updatedAt
+      ? reviveIsoTimestamp("budgets[].updatedAt", raw.updatedAt)
+      : undefined,
+  } as Budget;
+}
+
+function reviveShoppingList(raw: Record<string, unknown>): ShoppingList {
+  if (!Array.isArray(raw.items)) {
+    throw new Error("Invalid items in shoppingLists[].");
+  }
+  return {
+    ...raw,
+    campId: String(raw.campId ?? "").trim(),
+    items: raw.items,
+    createdAt: reviveIsoTimestamp("shoppingLists[].createdAt", raw.createdAt),
+    completedAt: raw.completedAt
+      ? reviveIsoTimestamp("shoppingLists[].completedAt", raw.completedAt)
+      : undefined,
+    // A restored list is never mid-way through being put into stock
+    completingAt: undefined,
+  } as ShoppingList;
+}
+
+function reviveStatsSnapshot(raw: Record<string, unknown>): StatsSnapshot {
+  const date = String(raw.date ?? "");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error("Invalid date in statsSnapshots[].");
+  }
+  return {
+    ...raw,
+    date,
+    takenAt: reviveDateStrict("statsSnapshots[].takenAt", raw.takenAt),
+  } as StatsSnapshot;
+}
+
+function reviveDepreciationPolicy(raw: unknown): DepreciationPolicy | null {
+  if (!raw || typeof raw !== "object") return null;
+  const rules = Object.entries(raw as Record<string, unknown>)
+    .filter(([category]) => (ALL_CATEGORIES as string[]).includes(category));
+  for (const [category, value] of rules) {
+    const rule = value as Record<string, unknown> | null;
+    if (
+      !rule || !["straight-line", "none"].includes(String(rule.method)) ||
+      !Number.isFinite(rule.usefulLifeYears) ||
+      !Number.isFinite(rule.residualPercent)
+    ) {
+      throw new Error(`Invalid depreciationPolicy rule for ${category}.`);
+    }
+  }
+  return normalizeDepreciationPolicy(Object.fromEntries(rules));
+}
+
+function reviveNotificationSettings(
+  raw: unknown,
+): NotificationSettings | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { channels, routes } = raw as Record<string, unknown>;
+  if (!Array.isArray(channels) || !routes || typeof routes !== "object") {
+    throw new Error("Invalid notificationSettings.");
+  }
+  const revived = channels.map((value) => {
+    const channel = value as NotificationChannelConfig;
+    if (
+      !channel?.id || !channel.name ||
+      !CHANNEL_KINDS.some(({ kind }) => kind === channel.kind)
+    ) {
+      throw new Error("Invalid channel in notificationSettings.");
+    }
+    // Outbox files are only ever written inside the outbox directory
+    if (
+      channel.kind === "outbox" && channel.path &&
+      outboxPath(channel.path.split("/").pop() ?? "") !== channel.path
+    ) {
+      throw new Error(`Invalid outbox path '${channel.path}'.`);
+    }
+    return channel;
+  });
+  ensureUniqueIds(revived, "notificationSettings.channels");
+  return {
+    channels: revived,
+    routes: Object.fromEntries(
+      NOTIFICATION_TYPES.flatMap(({ type }) => {
+        const ids = (routes as Record<string, unknown>)[type];
+        return Array.isArray(ids) ? [[type, ids.map(String)]] : [];
+      }),
+    ),
+  };
+}
+
 export function parseInventoryBackupPayload(text: string): {
   snapshot: InventoryBackupSnapshot | null;
   error?: string;
@@ -310,6 +616,26 @@ export function parseInventoryBackupPayload(text: string): {
           reviveCheckOut(co as Record<string, unknown>)
         )
         : [],
+      borrowers: Array.isArray(raw.borrowers)
+        ? raw.borrowers.map((borrower) =>
+          reviveBorrower(borrower as Record<string, unknown>)
+        )
+        : [],
+      itemUnits: Array.isArray(raw.itemUnits)
+        ? raw.itemUnits.map((unit) =>
+          reviveItemUnit(unit as Record<string, unknown>)
+        )
+        : [],
+      storageLocations: Array.isArray(raw.storageLocations)
+        ? raw.storageLocations.map((loc) =>
+          reviveStorageLocation(loc as Record<string, unknown>)
+        )
+        : [],
+      storageSpaces: Array.isArray(raw.storageSpaces)
+        ? raw.storageSpaces.map((space) =>
+          reviveStorageSpace(space as Record<string, unknown>)
+        )
+        : [],
       neckers: {
         inStock: Number(
           (raw.neckers as Record<string, unknown> | undefined)?.inStock ??
@@ -386,6 +712,21 @@ export function parseInventoryBackupPayload(text: string): {
           )
           : {},
       },
+      firstAidCheckHistory: Array.isArray(raw.firstAidCheckHistory)
+        ? raw.firstAidCheckHistory.map((record) =>
+          reviveFirstAidCheckRecord(record as Record<string, unknown>)
+        )
+        : [],
+      firstAidStock: Array.isArray(raw.firstAidStock)
+        ? raw.firstAidStock.map((entry) =>
+          reviveFirstAidStockEntry(entry as Record<string, unknown>)
+        )
+        : [],
+      firstAidProfiles: Array.isArray(raw.firstAidProfiles)
+        ? raw.firstAidProfiles.map((profile) =>
+          reviveFirstAidProfile(profile as Record<string, unknown>)
+        )
+        : [],
       riskAssessments: Array.isArray(raw.riskAssessments)
         ? raw.riskAssessments.map((assessment) =>
           reviveRiskAssessment(assessment as Record<string, unknown>)
@@ -399,6 +740,30 @@ export function parseInventoryBackupPayload(text: string): {
           reviveFeedbackRequest(request as Record<string, unknown>)
         )
         : [],
+      purchaseRequests: Array.isArray(raw.purchaseRequests)
+        ? raw.purchaseRequests.map((request) =>
+          revivePurchaseRequest(request as Record<string, unknown>)
+        )
+        : [],
+      shoppingLists: Array.isArray(raw.shoppingLists)
+        ? raw.shoppingLists.map((list) =>
+          reviveShoppingList(list as Record<string, unknown>)
+        )
+        : [],
+      budgets: Array.isArray(raw.budgets)
+        ? raw.budgets.map((budget) =>
+          reviveBudget(budget as Record<string, unknown>)
+        )
+        : [],
+      statsSnapshots: Array.isArray(raw.statsSnapshots)
+        ? raw.statsSnapshots.map((stats) =>
+          reviveStatsSnapshot(stats as Record<string, unknown>)
+        )
+        : [],
+      depreciationPolicy: reviveDepreciationPolicy(raw.depreciationPolicy),
+      notificationSettings: reviveNotificationSettings(
+        raw.notificationSettings,
+      ),
     };
 
     if (
@@ -416,12 +781,40 @@ export function parseInventoryBackupPayload(text: string): {
 
     ensureUniqueIds(snapshot.items, "items");
     ensureUniqueIds(snapshot.checkOuts, "checkOuts");
+    ensureUniqueIds(snapshot.borrowers, "borrowers");
+    ensureUniqueIds(snapshot.itemUnits, "itemUnits");
+    ensureUniqueIds(snapshot.storageLocations, "storageLocations");
+    ensureUniqueIds(snapshot.storageSpaces, "storageSpaces");
     ensureUniqueIds(snapshot.campPlans, "campPlans");
     ensureUniqueIds(snapshot.campTemplates, "campTemplates");
     ensureUniqueIds(snapshot.firstAidKits, "firstAidKits");
+    ensureUniqueIds(
+      snapshot.firstAidCheckHistory.map((record) => ({
+        id: `${record.kitId}/${record.checkId}`,
+      })),
+      "firstAidCheckHistory",
+    );
+    ensureUniqueIds(
+      snapshot.firstAidStock.map((entry) => ({ id: entry.itemId })),
+      "firstAidStock",
+    );
+    ensureUniqueIds(snapshot.firstAidProfiles, "firstAidProfiles");
     ensureUniqueIds(snapshot.riskAssessments, "riskAssessments");
     ensureUniqueIds(snapshot.meals, "meals");
     ensureUniqueIds(snapshot.feedbackRequests, "feedbackRequests");
+    ensureUniqueIds(snapshot.purchaseRequests, "purchaseRequests");
+    ensureUniqueIds(
+      snapshot.shoppingLists.map((list) => ({ id: list.campId })),
+      "shoppingLists",
+    );
+    ensureUniqueIds(
+      snapshot.budgets.map((budget) => ({ id: String(budget.year) })),
+      "budgets",
+    );
+    ensureUniqueIds(
+      snapshot.statsSnapshots.map((stats) => ({ id: stats.date })),
+      "statsSnapshots",
+    );
     const photoIdSet = new Set<string>();
     for (const record of snapshot.photoRecords) {
       if (photoIdSet.has(record.photoId)) {
@@ -484,6 +877,10 @@ export async function createInventoryBackup(
     items,
     photoRecords,
     checkOuts,
+    borrowers,
+    itemUnits,
+    storageLocations,
+    storageSpaces,
     neckerMetrics,
     campPlans,
     campTemplates,
@@ -491,13 +888,26 @@ export async function createInventoryBackup(
     firstAidCatalog,
     firstAidOverall,
     firstAidKitStates,
+    firstAidCheckHistory,
+    firstAidStock,
+    firstAidProfiles,
     riskAssessments,
     meals,
     feedbackRequests,
+    purchaseRequests,
+    budgets,
+    shoppingLists,
+    statsSnapshots,
+    depreciationPolicy,
+    notificationSettings,
   ] = await Promise.all([
     getAllItems(),
     getAllItemPhotoMetadataRecords(),
     getAllCheckOuts(),
+    getAllBorrowers(),
+    getAllItemUnits(),
+    getAllStorageLocations(),
+    getAllStorageSpaces(),
     getNeckerMetrics(),
     getAllCampPlans(),
     getAllCampTemplates(),
@@ -505,9 +915,18 @@ export async function createInventoryBackup(
     getAllFirstAidCatalogItems(),
     getFirstAidOverallCheckState(),
     getFirstAidKitCheckStates(),
+    getAllFirstAidCheckHistory(),
+    getFirstAidStock(),
+    getAllFirstAidProfiles(),
     getAllRiskAssessments(),
     getAllMeals(),
     getAllFeedbackRequests(),
+    getAllPurchaseRequests(),
+    getAllBudgets(),
+    getAllShoppingLists(),
+    getAllStatsSnapshots(),
+    getDepreciationPolicy(),
+    getNotificationSettings(),
   ]);
 
   const now = new Date();
@@ -519,6 +938,10 @@ export async function createInventoryBackup(
     items,
     photoRecords,
     checkOuts,
+    borrowers,
+    itemUnits,
+    storageLocations,
+    storageSpaces,
     neckers: neckerMetrics,
     campPlans,
     campTemplates,
@@ -528,9 +951,18 @@ export async function createInventoryBackup(
       overall: firstAidOverall,
       kits: firstAidKitStates,
     },
+    firstAidCheckHistory,
+    firstAidStock,
+    firstAidProfiles,
     riskAssessments,
     meals,
     feedbackRequests,
+    purchaseRequests,
+    budgets,
+    shoppingLists,
+    statsSnapshots,
+    depreciationPolicy,
+    notificationSettings,
   };
 
   const json = JSON.stringify(snapshot, null, 2);
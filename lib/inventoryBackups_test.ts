@@ -0,0 +1,103 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import { parseInventoryBackupPayload } from "./inventoryBackups.ts";
+import type { StatsSnapshot } from "./trends.ts";
+import { DEFAULT_DEPRECIATION_POLICY } from "./valuation.ts";
+
+const statsSnapshot = {
+  date: "2026-10-18",
+  takenAt: new Date("2026-10-18T02:00:00.000Z"),
+  totalItems: 120,
+  totalQuantity: 840,
+  categoryBreakdown: {},
+  spaceBreakdown: {},
+  lowStockItems: 3,
+  needsRepairItems: 2,
+  activeLoans: 4,
+  overdueLoans: 1,
+  itemsAtCamp: 0,
+  neckers: {
+    inStock: 12,
+    created: 40,
+    totalMade: 52,
+    adultCreated: 5,
+    adultTotalMade: 6,
+  },
+  expiredFoodQuantity: 2,
+  newlyExpiredQuantity: 1,
+} as StatsSnapshot;
+
+function roundTrip(extra: Record<string, unknown>) {
+  const { snapshot, error } = parseInventoryBackupPayload(
+    JSON.stringify({ schemaVersion: 2, items: [], ...extra }),
+  );
+  assertEquals(error, undefined);
+  return snapshot!;
+}
+
+Deno.test("trend snapshots survive a backup round trip", () => {
+  const restored = roundTrip({ statsSnapshots: [statsSnapshot] });
+  assertEquals(restored.statsSnapshots, [statsSnapshot]);
+  assertEquals(roundTrip({}).statsSnapshots, []);
+
+  const duplicate = parseInventoryBackupPayload(JSON.stringify({
+    items: [],
+    statsSnapshots: [statsSnapshot, statsSnapshot],
+  }));
+  assertEquals(duplicate.snapshot, null);
+});
+
+Deno.test("the depreciation policy survives a backup round trip", () => {
+  const tent = {
+    method: "straight-line",
+    usefulLifeYears: 8,
+    residualPercent: 5,
+  };
+  const games = { method: "none", usefulLifeYears: 0, residualPercent: 100 };
+  const restored = roundTrip({
+    depreciationPolicy: { ...DEFAULT_DEPRECIATION_POLICY, tent, games },
+  }).depreciationPolicy;
+  assertEquals(restored?.tent, tent);
+  assertEquals(restored?.games, games);
+  assertEquals(restored?.kilt, DEFAULT_DEPRECIATION_POLICY.kilt);
+  // Rules missing from the backup fall back to the defaults
+  const partial = roundTrip({ depreciationPolicy: { tent } })
+    .depreciationPolicy;
+  assertEquals(partial?.tent, tent);
+  assertEquals(partial?.games, DEFAULT_DEPRECIATION_POLICY.games);
+  assertEquals(roundTrip({}).depreciationPolicy, null);
+  assertEquals(
+    parseInventoryBackupPayload(JSON.stringify({
+      items: [],
+      depreciationPolicy: { tent: { method: "declining" } },
+    })).snapshot,
+    null,
+  );
+});
+
+Deno.test("notification channels survive a backup round trip", () => {
+  const settings = {
+    channels: [
+      { id: "email", name: "Leaders", kind: "resend", recipients: ["a@b.co"] },
+      { id: "hook", name: "Slack", kind: "webhook", url: "https://h.example" },
+      { id: "file", name: "Outbox", kind: "outbox", path: "outbox/a.jsonl" },
+    ],
+    routes: { LOW_STOCK: ["email", "hook"], EXPIRY: ["file"] },
+  };
+  assertEquals(
+    roundTrip({ notificationSettings: settings }).notificationSettings,
+    settings,
+  );
+  assertEquals(roundTrip({}).notificationSettings, null);
+
+  const escaping = {
+    ...settings,
+    channels: [{ id: "x", name: "X", kind: "outbox", path: "../x.jsonl" }],
+  };
+  assertEquals(
+    parseInventoryBackupPayload(JSON.stringify({
+      items: [],
+      notificationSettings: escaping,
+    })).snapshot,
+    null,
+  );
+});
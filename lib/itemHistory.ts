@@ -0,0 +1,100 @@
+// Item version history — which fields a write changed, which version numbers
+// it takes, the oldest version it pushes out, and what a revert puts back.
+//
+// Pure functions: used by the item history writes and reverts in db/kv.ts.
+import type { InventoryItem, ItemFieldChange } from "../types/inventory.ts";
+
+/** Only the newest this-many versions of an item are kept. */
+export const ITEM_HISTORY_LIMIT = 100;
+
+/** Bookkeeping that changes on every write and is not worth showing. */
+const ITEM_HISTORY_IGNORED_FIELDS = ["lastUpdated"];
+
+/**
+ * Left as they are by a revert: identity, photos, and where the stock
+ * physically is right now.
+ */
+const ITEM_REVERT_KEPT_FIELDS = [
+  "id",
+  "addedDate",
+  "photoIds",
+  "hasPhoto",
+  "atCamp",
+  "quantityAtCamp",
+  "hasUnits",
+];
+
+function summarizeHistoryValue(value: unknown): ItemFieldChange["before"] {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) {
+    return `${value.length} ${value.length === 1 ? "entry" : "entries"}`;
+  }
+  if (typeof value === "object") return JSON.stringify(value).slice(0, 200);
+  if (typeof value === "string" && value.length > 200) {
+    return `${value.slice(0, 199)}…`;
+  }
+  return value as string | number | boolean;
+}
+
+export function diffItemFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): ItemFieldChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((field) => !ITEM_HISTORY_IGNORED_FIELDS.includes(field));
+  return fields
+    .filter((field) =>
+      JSON.stringify(before[field] ?? null) !==
+        JSON.stringify(after[field] ?? null)
+    )
+    .map((field) => ({
+      field,
+      before: summarizeHistoryValue(before[field]),
+      after: summarizeHistoryValue(after[field]),
+    }));
+}
+
+export interface HistoryVersions {
+  /** Version holding the state before the write, for items with no history */
+  baseline: number | null;
+  version: number;
+  /** Version that falls outside ITEM_HISTORY_LIMIT and is deleted */
+  pruned: number | null;
+}
+
+/**
+ * Version numbers for the next write, given the newest recorded version (0
+ * when there is none). An existing item that predates history first gets its
+ * previous state saved as version 1 so it can be restored.
+ */
+export function nextHistoryVersions(
+  latest: number,
+  existedBefore: boolean,
+): HistoryVersions {
+  const baseline = existedBefore && latest === 0 ? 1 : null;
+  const version = (baseline ?? latest) + 1;
+  return {
+    baseline,
+    version,
+    pruned: version > ITEM_HISTORY_LIMIT ? version - ITEM_HISTORY_LIMIT : null,
+  };
+}
+
+/**
+ * The updates that take `current` back to an earlier version's fields.
+ * Fields the version did not have are cleared. Unit-tracked items keep the
+ * counts derived from their units.
+ */
+export function revertUpdates(
+  current: InventoryItem,
+  restored: InventoryItem,
+): Partial<InventoryItem> {
+  const updates: Record<string, unknown> = {};
+  for (const field of Object.keys(current)) updates[field] = undefined;
+  Object.assign(updates, restored);
+  const kept = current.hasUnits
+    ? [...ITEM_REVERT_KEPT_FIELDS, "quantity", "quantityNeedsRepair"]
+    : ITEM_REVERT_KEPT_FIELDS;
+  for (const field of kept) delete updates[field];
+  return updates as Partial<InventoryItem>;
+}
@@ -0,0 +1,75 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type { InventoryItem } from "../types/inventory.ts";
+import {
+  diffItemFields,
+  ITEM_HISTORY_LIMIT,
+  nextHistoryVersions,
+  revertUpdates,
+} from "./itemHistory.ts";
+
+function item(overrides: Partial<InventoryItem> = {}): InventoryItem {
+  return {
+    id: "tent-1",
+    name: "Vango Force 10",
+    category: "tent",
+    space: "camp-store",
+    quantity: 4,
+    minThreshold: 0,
+    location: "Metal Shelf 1 - Slot 1",
+    addedDate: new Date("2024-01-01"),
+    lastUpdated: new Date("2024-01-01"),
+    ...overrides,
+  } as InventoryItem;
+}
+
+Deno.test("history keeps only the newest versions", () => {
+  assertEquals(nextHistoryVersions(0, false), {
+    baseline: null,
+    version: 1,
+    pruned: null,
+  });
+  assertEquals(nextHistoryVersions(0, true), {
+    baseline: 1,
+    version: 2,
+    pruned: null,
+  });
+  assertEquals(nextHistoryVersions(ITEM_HISTORY_LIMIT - 1, true).pruned, null);
+  assertEquals(nextHistoryVersions(ITEM_HISTORY_LIMIT, true), {
+    baseline: null,
+    version: ITEM_HISTORY_LIMIT + 1,
+    pruned: 1,
+  });
+  assertEquals(nextHistoryVersions(250, true).pruned, 151);
+});
+
+Deno.test("changed fields are listed, bookkeeping is not", () => {
+  const changes = diffItemFields(
+    { name: "Tent", quantity: 4, lastUpdated: "2024-01-01" },
+    { name: "Tent", quantity: 3, lastUpdated: "2024-02-01", notes: "Torn" },
+  );
+  assertEquals(changes, [
+    { field: "quantity", before: 4, after: 3 },
+    { field: "notes", before: null, after: "Torn" },
+  ]);
+});
+
+Deno.test("revert restores fields but keeps identity and unit counts", () => {
+  const current = item({
+    name: "Force Ten",
+    notes: "Added later",
+    quantity: 2,
+    hasUnits: true,
+    photoIds: ["p1"],
+  });
+  const restored = item({ quantity: 6, photoIds: [] });
+  const updates = revertUpdates(current, restored);
+  assertEquals(updates.name, "Vango Force 10");
+  assertEquals("notes" in updates, true);
+  assertEquals(updates.notes, undefined);
+  assertEquals("quantity" in updates, false);
+  assertEquals("photoIds" in updates, false);
+  assertEquals("id" in updates, false);
+
+  const plain = revertUpdates({ ...current, hasUnits: false }, restored);
+  assertEquals(plain.quantity, 6);
+});
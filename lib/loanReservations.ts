@@ -0,0 +1,99 @@
+// Loan reservations — kit booked for a borrower ahead of collection.
+//
+// A reservation holds its quantity from its collection date (`checkOutDate`)
+// to its expected return date without moving stock. Stock only leaves the
+// store when the borrower collects and the reservation becomes a loan.
+// Reservations still uncollected after the grace period lapse as no-shows.
+// Camps planned over the same dates hold their unpacked kit against loans.
+// Pure functions: shared by the loans API, the scan page and the loan islands.
+import type { CampPlan, CheckOut, InventoryItem } from "../types/inventory.ts";
+import { dayKey, heldByCamps, stockInStore } from "./campReservations.ts";
+
+/** Days after its collection date that a reservation waits to be collected. */
+export const RESERVATION_GRACE_DAYS = 2;
+
+type LoanDates = Pick<CheckOut, "checkOutDate" | "expectedReturnDate">;
+
+/** First and last day a loan or reservation holds kit (inclusive). */
+export function loanDays(loan: LoanDates): { start: string; end: string } {
+  const start = dayKey(loan.checkOutDate);
+  const end = dayKey(loan.expectedReturnDate);
+  return { start, end: end < start ? start : end };
+}
+
+function loansOverlap(a: LoanDates, b: LoanDates): boolean {
+  const x = loanDays(a);
+  const y = loanDays(b);
+  return x.start <= y.end && y.start <= x.end;
+}
+
+/** Last day a reservation can be collected before it lapses. */
+export function collectionDeadline(loan: Pick<CheckOut, "checkOutDate">): Date {
+  const deadline = new Date(loan.checkOutDate);
+  deadline.setUTCDate(deadline.getUTCDate() + RESERVATION_GRACE_DAYS);
+  return deadline;
+}
+
+/** A reservation nobody collected by its deadline. */
+export function isNoShow(loan: CheckOut, now: Date = new Date()): boolean {
+  if (loan.status === "no-show") return true;
+  return loan.status === "reserved" &&
+    dayKey(now) > dayKey(collectionDeadline(loan));
+}
+
+/** A reservation that still holds its quantity. */
+export function isHeldReservation(
+  loan: CheckOut,
+  now: Date = new Date(),
+): boolean {
+  return loan.status === "reserved" && !isNoShow(loan, now);
+}
+
+/** Held reservations of an item overlapping the given dates. */
+export function overlappingReservations(
+  itemId: string,
+  dates: LoanDates,
+  checkouts: CheckOut[],
+  now: Date = new Date(),
+  excludeId?: string,
+): CheckOut[] {
+  return checkouts.filter((loan) =>
+    loan.itemId === itemId &&
+    loan.id !== excludeId &&
+    isHeldReservation(loan, now) &&
+    loansOverlap(loan, dates)
+  );
+}
+
+/**
+ * How much of an item can be loaned or reserved for the given dates: stock in
+ * store, plus loans due back before the start, less held reservations and
+ * camp plans that overlap. `excludeId` leaves out the reservation being
+ * collected or edited.
+ */
+export function availableToLoan(
+  item: InventoryItem,
+  dates: LoanDates,
+  checkouts: CheckOut[],
+  now: Date = new Date(),
+  excludeId?: string,
+  plans: CampPlan[] = [],
+): number {
+  const { start } = loanDays(dates);
+  const today = dayKey(now);
+  let available = stockInStore(item);
+  for (const loan of checkouts) {
+    if (loan.itemId !== item.id || loan.status !== "checked-out") continue;
+    const due = dayKey(loan.expectedReturnDate);
+    if (due >= today && due < start) available += loan.quantity;
+  }
+  const held = overlappingReservations(
+    item.id,
+    dates,
+    checkouts,
+    now,
+    excludeId,
+  ).reduce((sum, loan) => sum + loan.quantity, 0);
+  const camps = heldByCamps(item.id, loanDays(dates), plans);
+  return Math.max(0, available - held - camps);
+}
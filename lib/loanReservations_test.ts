@@ -0,0 +1,155 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type { CampPlan, CheckOut, InventoryItem } from "../types/inventory.ts";
+import { availableToLoan, isNoShow } from "./loanReservations.ts";
+
+const gazebo = {
+  id: "gazebo",
+  name: "Gazebo",
+  category: "tent",
+  quantity: 2,
+  minThreshold: 0,
+  location: "Loft",
+  addedDate: new Date("2026-01-01"),
+  lastUpdated: new Date("2026-01-01"),
+} as InventoryItem;
+
+function booking(
+  id: string,
+  status: CheckOut["status"],
+  from: string,
+  to: string,
+  quantity = 1,
+): CheckOut {
+  return {
+    id,
+    itemId: "gazebo",
+    itemName: "Gazebo",
+    borrower: id,
+    quantity,
+    checkOutDate: new Date(from),
+    expectedReturnDate: new Date(to),
+    status,
+  };
+}
+
+const now = new Date("2026-06-01T10:00:00Z");
+const dates = (from: string, to: string) => ({
+  checkOutDate: new Date(from),
+  expectedReturnDate: new Date(to),
+});
+
+Deno.test("overlapping reservations hold stock for their dates", () => {
+  const checkouts = [
+    booking("beavers", "reserved", "2026-06-14", "2026-06-15"),
+  ];
+
+  assertEquals(
+    availableToLoan(gazebo, dates("2026-06-15", "2026-06-20"), checkouts, now),
+    1,
+  );
+  assertEquals(
+    availableToLoan(gazebo, dates("2026-06-16", "2026-06-20"), checkouts, now),
+    2,
+  );
+  assertEquals(
+    availableToLoan(
+      gazebo,
+      dates("2026-06-14", "2026-06-15"),
+      checkouts,
+      now,
+      "beavers",
+    ),
+    2,
+  );
+});
+
+Deno.test("loans due back before a reservation starts can be booked", () => {
+  const checkouts = [
+    booking("cubs", "checked-out", "2026-05-20", "2026-06-10"),
+  ];
+  const outOnLoan = { ...gazebo, quantity: 1 };
+
+  assertEquals(
+    availableToLoan(
+      outOnLoan,
+      dates("2026-06-14", "2026-06-15"),
+      checkouts,
+      now,
+    ),
+    2,
+  );
+  assertEquals(
+    availableToLoan(
+      outOnLoan,
+      dates("2026-06-05", "2026-06-15"),
+      checkouts,
+      now,
+    ),
+    1,
+  );
+});
+
+Deno.test("camps planned over the dates hold their unpacked kit", () => {
+  const camp = (
+    id: string,
+    packedStatus: boolean,
+    status: CampPlan["status"] = "planning",
+  ): CampPlan => ({
+    id,
+    name: id,
+    campDate: new Date("2026-06-14"),
+    endDate: new Date("2026-06-16"),
+    items: [{
+      itemId: "gazebo",
+      itemName: "Gazebo",
+      itemCategory: "tent",
+      itemLocation: "Loft",
+      quantityPlanned: 1,
+      packedStatus,
+      returnedStatus: false,
+    }],
+    status,
+    createdBy: "leader",
+    createdAt: new Date("2026-01-01"),
+    lastUpdated: new Date("2026-01-01"),
+  });
+  const plans = [
+    camp("summer", false),
+    camp("packed", true),
+    camp("done", false, "completed"),
+  ];
+
+  assertEquals(
+    availableToLoan(
+      gazebo,
+      dates("2026-06-10", "2026-06-14"),
+      [],
+      now,
+      undefined,
+      plans,
+    ),
+    1,
+  );
+  assertEquals(
+    availableToLoan(
+      gazebo,
+      dates("2026-06-17", "2026-06-20"),
+      [],
+      now,
+      undefined,
+      plans,
+    ),
+    2,
+  );
+});
+
+Deno.test("uncollected reservations lapse after the grace period", () => {
+  const late = booking("scouts", "reserved", "2026-05-29", "2026-06-05", 2);
+
+  assertEquals(isNoShow(late, new Date("2026-05-31T20:00:00Z")), false);
+  assertEquals(isNoShow(late, now), true);
+  assertEquals(
+    availableToLoan(gazebo, dates("2026-06-01", "2026-06-03"), [late], now),
+    2,
+  );
+});
@@ -0,0 +1,119 @@
+// Loan returns — how all or part of a loan comes back, and what that does to
+// the item's stock.
+//
+// A partial return is split off as its own returned record while the rest
+// stays out under the original loan id. Kit that comes back needing repair
+// counts towards the item's `quantityNeedsRepair`.
+// Pure functions: used by returnCheckOut in db/kv.ts.
+import {
+  type CheckOut,
+  type InventoryItem,
+  isActiveLoan,
+  type ItemCondition,
+  type MaintenanceRecord,
+} from "../types/inventory.ts";
+
+export interface LoanReturnInput {
+  /** How many came back; the rest stays out on the same loan. Default: all */
+  quantity?: number;
+  /** Tracked units that came back. Default: all units on the loan */
+  unitIds?: string[];
+  /** Condition of what came back */
+  condition?: ItemCondition;
+  notes?: string;
+}
+
+export interface LoanReturnSplit {
+  /** Record of what came back (a new record when the return was partial) */
+  returned: CheckOut;
+  /** What is still out, under the original loan id */
+  remaining: CheckOut | null;
+  /** Tracked units that came back */
+  returnedUnitIds: string[];
+}
+
+/**
+ * The returned and remaining records for a return. Throws when the loan is no
+ * longer out, or the quantity or units do not match what is still out — as
+ * when another return of the same loan got there first.
+ */
+export function splitLoanReturn(
+  loan: CheckOut,
+  input: LoanReturnInput = {},
+  now = new Date(),
+): LoanReturnSplit {
+  if (!isActiveLoan(loan)) {
+    throw new Error("This loan has already been returned.");
+  }
+  const quantity = input.quantity ?? loan.quantity;
+  if (
+    !Number.isInteger(quantity) || quantity < 1 || quantity > loan.quantity
+  ) {
+    throw new Error(`Return between 1 and ${loan.quantity}.`);
+  }
+  const loanedUnitIds = loan.unitIds ?? [];
+  const returnedUnitIds = input.unitIds ??
+    (quantity === loan.quantity ? loanedUnitIds : []);
+  if (
+    loan.unitIds &&
+    (returnedUnitIds.length !== quantity ||
+      returnedUnitIds.some((unitId) => !loanedUnitIds.includes(unitId)))
+  ) {
+    throw new Error(`Select the ${quantity} unit(s) that came back.`);
+  }
+
+  const partial = quantity < loan.quantity;
+  return {
+    returned: {
+      ...loan,
+      id: partial ? crypto.randomUUID() : loan.id,
+      quantity,
+      unitIds: loan.unitIds ? returnedUnitIds : undefined,
+      actualReturnDate: now,
+      status: "returned",
+      returnCondition: input.condition,
+      returnNotes: input.notes,
+      splitFromId: partial ? loan.id : undefined,
+    },
+    remaining: partial
+      ? {
+        ...loan,
+        quantity: loan.quantity - quantity,
+        unitIds: loan.unitIds?.filter((unitId) =>
+          !returnedUnitIds.includes(unitId)
+        ),
+      }
+      : null,
+    returnedUnitIds,
+  };
+}
+
+/**
+ * The item once `quantity` is back in store. `repair` is given when the kit
+ * came back needing repair, with how many of it were not already marked so.
+ */
+export function itemAfterReturn(
+  item: InventoryItem,
+  quantity: number,
+  repair: { newlyDamaged: number; record: MaintenanceRecord } | null,
+  now = new Date(),
+): InventoryItem {
+  const updated: InventoryItem = {
+    ...item,
+    quantity: item.quantity + quantity,
+    lastUpdated: now,
+  };
+  if (repair) {
+    updated.quantityNeedsRepair = Math.min(
+      updated.quantity,
+      (item.quantityNeedsRepair ?? 0) + repair.newlyDamaged,
+    );
+    if (!item.hasUnits) {
+      updated.maintenanceHistory = [
+        repair.record,
+        ...(item.maintenanceHistory ?? []),
+      ];
+    }
+  }
+  return updated;
+}
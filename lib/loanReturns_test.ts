@@ -0,0 +1,115 @@
+import { assertEquals, assertThrows } from "$std/assert/mod.ts";
+import type {
+  CheckOut,
+  InventoryItem,
+  MaintenanceRecord,
+} from "../types/inventory.ts";
+import { itemAfterReturn, splitLoanReturn } from "./loanReturns.ts";
+
+const mallets = {
+  id: "mallets",
+  name: "Mallet",
+  category: "cooking",
+  quantity: 2,
+  minThreshold: 0,
+  location: "Tool Box",
+  addedDate: new Date("2026-01-01"),
+  lastUpdated: new Date("2026-01-01"),
+} as InventoryItem;
+
+const loan: CheckOut = {
+  id: "loan-1",
+  itemId: "mallets",
+  itemName: "Mallet",
+  borrower: "Cubs",
+  quantity: 10,
+  checkOutDate: new Date("2026-06-01"),
+  expectedReturnDate: new Date("2026-06-08"),
+  status: "checked-out",
+};
+
+const now = new Date("2026-06-07T18:00:00Z");
+
+Deno.test("a partial return splits off what came back", () => {
+  const { returned, remaining } = splitLoanReturn(loan, { quantity: 8 }, now);
+  assertEquals(returned.quantity, 8);
+  assertEquals(returned.status, "returned");
+  assertEquals(returned.splitFromId, "loan-1");
+  assertEquals(returned.id === "loan-1", false);
+  assertEquals(remaining?.id, "loan-1");
+  assertEquals(remaining?.quantity, 2);
+  assertEquals(remaining?.status, "checked-out");
+
+  const tracked = { ...loan, quantity: 3, unitIds: ["u1", "u2", "u3"] };
+  const units = splitLoanReturn(tracked, {
+    quantity: 2,
+    unitIds: ["u1", "u3"],
+  });
+  assertEquals(units.returned.unitIds, ["u1", "u3"]);
+  assertEquals(units.remaining?.unitIds, ["u2"]);
+  assertThrows(() => splitLoanReturn(tracked, { quantity: 2 }));
+  assertThrows(() => splitLoanReturn(loan, { quantity: 11 }));
+});
+
+Deno.test("a full return closes the loan and restocks the item", () => {
+  const { returned, remaining } = splitLoanReturn(loan, {}, now);
+  assertEquals(remaining, null);
+  assertEquals(returned.id, "loan-1");
+  assertEquals(returned.actualReturnDate, now);
+  assertEquals(returned.splitFromId, undefined);
+
+  const item = itemAfterReturn(mallets, returned.quantity, null, now);
+  assertEquals(item.quantity, 12);
+  assertEquals(item.quantityNeedsRepair, undefined);
+  assertEquals(item.lastUpdated, now);
+});
+
+Deno.test("kit returned damaged counts towards needing repair", () => {
+  const { returned } = splitLoanReturn(
+    loan,
+    { quantity: 3, condition: "needs-repair", notes: "Split heads" },
+    now,
+  );
+  assertEquals(returned.returnCondition, "needs-repair");
+  assertEquals(returned.returnNotes, "Split heads");
+
+  const record: MaintenanceRecord = {
+    id: "m1",
+    date: now,
+    type: "inspection",
+    notes: "Returned from loan to Cubs needing repair: Split heads",
+    conditionAfter: "needs-repair",
+  };
+  const item = itemAfterReturn(
+    { ...mallets, quantityNeedsRepair: 1 },
+    returned.quantity,
+    { newlyDamaged: 3, record },
+    now,
+  );
+  assertEquals(item.quantity, 5);
+  assertEquals(item.quantityNeedsRepair, 4);
+  assertEquals(item.maintenanceHistory, [record]);
+
+  const tracked = itemAfterReturn(
+    { ...mallets, hasUnits: true },
+    1,
+    { newlyDamaged: 1, record },
+    now,
+  );
+  assertEquals(tracked.quantityNeedsRepair, 1);
+  assertEquals(tracked.maintenanceHistory, undefined);
+});
+
+Deno.test("a return against a stale copy of the loan is rejected", () => {
+  const { returned, remaining } = splitLoanReturn(loan, { quantity: 8 }, now);
+  // Another return of 3 against the stored loan, now only 2 out
+  assertThrows(() => splitLoanReturn(remaining!, { quantity: 3 }, now));
+  assertEquals(splitLoanReturn(remaining!, { quantity: 2 }).remaining, null);
+  // Once everything is back, the loan cannot be returned again
+  assertThrows(
+    () =>
+      splitLoanReturn({ ...returned, id: "loan-1", splitFromId: undefined }),
+    Error,
+    "already been returned",
+  );
+});
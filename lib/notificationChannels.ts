@@ -0,0 +1,273 @@
+// Notification channels — where alerts go once a check decides to send one.
+//
+// Each alert type is routed to one or more channels configured by admins on
+// /admin/notifications and stored in KV. Until that has been saved, routing is
+// derived from the older NOTIFY_EMAIL / NOTIFY_EMAIL_<TYPE> env vars so
+// existing deployments keep emailing the same people. Without RESEND_API_KEY
+// that env routing is empty, so alerts are logged and skipped as before.
+//
+// Secrets stay in env vars rather than KV:
+//   RESEND_API_KEY    — Resend channels
+//   SMTP_PASSWORD     — SMTP channels
+//   NOTIFY_FROM_EMAIL — sender for email channels without their own
+//
+// NOTIFY_OUTBOX=console (or a file path) sends every alert to that outbox
+// instead, so checks can be run locally without touching the network. Outbox
+// channels set up by admins can only write into OUTBOX_DIR.
+import type {
+  NotificationChannelConfig,
+  NotificationChannelKind,
+  NotificationMessage,
+  NotificationSettings,
+  NotificationType,
+} from "../types/notifications.ts";
+import { sendSmtpMail } from "./smtp.ts";
+import { addInboxNotification } from "./notificationInbox.ts";
+
+const RESEND_URL = "https://api.resend.com/emails";
+/** Directory that admin-configured outbox channels write their files into. */
+export const OUTBOX_DIR = "outbox";
+const OUTBOX_FILE_PATTERN = /^[\w-]{1,60}\.jsonl$/;
+const DEFAULT_FROM = "noreply@7thwhitburnscoutsinventory.co.uk";
+
+export const NOTIFICATION_TYPES: { type: NotificationType; label: string }[] = [
+  { type: "LOW_STOCK", label: "Low stock" },
+  { type: "NECKERS", label: "Neckers low" },
+  { type: "EXPIRY", label: "Food expiry" },
+  { type: "OVERDUE_LOANS", label: "Overdue loans" },
+  { type: "MAINTENANCE", label: "Maintenance due" },
+  { type: "RISK_ASSESSMENT", label: "Risk assessment review" },
+  { type: "FIRST_AID", label: "First aid checks" },
+];
+
+export const CHANNEL_KINDS: {
+  kind: NotificationChannelKind;
+  label: string;
+}[] = [
+  { kind: "resend", label: "Email (Resend)" },
+  { kind: "smtp", label: "Email (SMTP)" },
+  { kind: "webhook", label: "Webhook" },
+  { kind: "inbox", label: "In-app inbox" },
+  { kind: "outbox", label: "Local outbox (testing)" },
+];
+
+export interface NotificationChannel {
+  send(message: NotificationMessage): Promise<void>;
+}
+
+/** Plain-text rendering of an alert's HTML for webhooks and logs. */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<\/(h\d|p|tr|table)>/gi, "\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/t[dh]>\s*<t[dh][^>]*>/gi, " | ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Where an outbox channel with this file name writes, or null unless it is a
+ * plain `name.jsonl` file name.
+ */
+export function outboxPath(fileName: string): string | null {
+  return OUTBOX_FILE_PATTERN.test(fileName)
+    ? `${OUTBOX_DIR}/${fileName}`
+    : null;
+}
+
+function senderAddress(from?: string): string {
+  return from || Deno.env.get("NOTIFY_FROM_EMAIL") || DEFAULT_FROM;
+}
+
+export function createChannel(
+  config: NotificationChannelConfig,
+): NotificationChannel {
+  switch (config.kind) {
+    case "resend":
+      return {
+        async send({ subject, html }) {
+          const apiKey = Deno.env.get("RESEND_API_KEY");
+          if (!apiKey) throw new Error("RESEND_API_KEY is not set");
+          const res = await fetch(RESEND_URL, {
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${apiKey}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              from: senderAddress(),
+              to: config.recipients,
+              subject,
+              html,
+            }),
+          });
+          if (!res.ok) {
+            throw new Error(
+              `Resend API error ${res.status}: ${await res.text()}`,
+            );
+          }
+        },
+      };
+    case "smtp":
+      return {
+        send: ({ subject, html }) =>
+          sendSmtpMail({
+            host: config.host,
+            port: config.port,
+            username: config.username,
+            password: Deno.env.get("SMTP_PASSWORD"),
+            from: senderAddress(config.from),
+            to: config.recipients,
+            subject,
+            html,
+          }),
+      };
+    case "webhook":
+      return {
+        async send(message) {
+          // `text` is what Slack-style incoming webhooks display
+          const res = await fetch(config.url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              type: message.type,
+              subject: message.subject,
+              text: `${message.subject}\n\n${htmlToText(message.html)}`,
+              html: message.html,
+              sentAt: new Date().toISOString(),
+            }),
+          });
+          await res.body?.cancel();
+          if (!res.ok) throw new Error(`Webhook returned ${res.status}`);
+        },
+      };
+    case "inbox":
+      return { send: (message) => addInboxNotification(message) };
+    case "outbox":
+      return {
+        async send(message) {
+          const entry = {
+            ...message,
+            text: htmlToText(message.html),
+            sentAt: new Date().toISOString(),
+          };
+          if (!config.path) {
+            console.log(`[notifications] outbox: ${JSON.stringify(entry)}`);
+            return;
+          }
+          if (config.path.startsWith(`${OUTBOX_DIR}/`)) {
+            await Deno.mkdir(OUTBOX_DIR, { recursive: true });
+          }
+          await Deno.writeTextFile(config.path, `${JSON.stringify(entry)}\n`, {
+            append: true,
+          });
+        },
+      };
+  }
+}
+
+/**
+ * Routing from the NOTIFY_EMAIL env vars: a Resend channel for NOTIFY_EMAIL
+ * and one for each NOTIFY_EMAIL_<TYPE> override. Nothing is routed when
+ * RESEND_API_KEY is unset.
+ */
+export function settingsFromEnv(
+  env: Pick<Deno.Env, "get"> = Deno.env,
+): NotificationSettings {
+  const settings: NotificationSettings = { channels: [], routes: {} };
+  if (!env.get("RESEND_API_KEY")) return settings;
+  const recipients = (raw: string) =>
+    raw.split(",").map((e) => e.trim()).filter(Boolean);
+  const fallback = env.get("NOTIFY_EMAIL");
+  if (fallback) {
+    settings.channels.push({
+      id: "email",
+      name: "Email",
+      kind: "resend",
+      recipients: recipients(fallback),
+    });
+  }
+  for (const { type, label } of NOTIFICATION_TYPES) {
+    const override = env.get(`NOTIFY_EMAIL_${type}`);
+    if (override) {
+      const id = `email-${type.toLowerCase().replace(/_/g, "-")}`;
+      settings.channels.push({
+        id,
+        name: `Email — ${label}`,
+        kind: "resend",
+        recipients: recipients(override),
+      });
+      settings.routes[type] = [id];
+    } else if (fallback) {
+      settings.routes[type] = ["email"];
+    }
+  }
+  return settings;
+}
+
+/** Routing that sends everything to one outbox (NOTIFY_OUTBOX). */
+export function outboxSettings(target: string): NotificationSettings {
+  const id = "outbox";
+  return {
+    channels: [{
+      id,
+      name: "Outbox",
+      kind: "outbox",
+      path: target === "console" ? undefined : target,
+    }],
+    routes: Object.fromEntries(
+      NOTIFICATION_TYPES.map(({ type }) => [type, [id]]),
+    ),
+  };
+}
+
+export function channelsFor(
+  settings: NotificationSettings,
+  type: NotificationType,
+): NotificationChannelConfig[] {
+  const ids = settings.routes[type] ?? [];
+  return settings.channels.filter((channel) => ids.includes(channel.id));
+}
+
+export interface DeliveryResult {
+  delivered: string[];
+  failed: { channel: string; error: string }[];
+}
+
+/**
+ * Sends an alert through each channel it is routed to. A failing channel is
+ * logged and reported without stopping the others.
+ */
+export async function deliverNotification(
+  message: NotificationMessage,
+  channels: NotificationChannelConfig[],
+): Promise<DeliveryResult> {
+  const result: DeliveryResult = { delivered: [], failed: [] };
+  if (channels.length === 0) {
+    console.log(
+      `[notifications] No channel for ${message.type} — skipping: "${message.subject}"`,
+    );
+    return result;
+  }
+  await Promise.all(channels.map(async (config) => {
+    try {
+      await createChannel(config).send(message);
+      result.delivered.push(config.name);
+      console.log(
+        `[notifications] Sent: "${message.subject}" → ${config.name}`,
+      );
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      result.failed.push({ channel: config.name, error });
+      console.error(`[notifications] ${config.name} failed: ${error}`);
+    }
+  }));
+  return result;
+}
@@ -0,0 +1,66 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import {
+  channelsFor,
+  deliverNotification,
+  outboxPath,
+  settingsFromEnv,
+} from "./notificationChannels.ts";
+
+function env(vars: Record<string, string>) {
+  return { get: (key: string) => vars[key] };
+}
+
+Deno.test("env routing sends each type to its override or NOTIFY_EMAIL", () => {
+  const settings = settingsFromEnv(env({
+    RESEND_API_KEY: "re_test",
+    NOTIFY_EMAIL: "leaders@example.com",
+    NOTIFY_EMAIL_FIRST_AID: "first-aid@example.com, qm@example.com",
+  }));
+
+  assertEquals(channelsFor(settings, "LOW_STOCK").map((c) => c.id), ["email"]);
+  assertEquals(channelsFor(settings, "FIRST_AID"), [{
+    id: "email-first-aid",
+    name: "Email — First aid checks",
+    kind: "resend",
+    recipients: ["first-aid@example.com", "qm@example.com"],
+  }]);
+  assertEquals(settingsFromEnv(env({})), { channels: [], routes: {} });
+  assertEquals(
+    settingsFromEnv(env({ NOTIFY_EMAIL: "leaders@example.com" })),
+    { channels: [], routes: {} },
+  );
+});
+
+Deno.test("a failing channel does not stop delivery to the others", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".jsonl" });
+  try {
+    const result = await deliverNotification(
+      {
+        type: "OVERDUE_LOANS",
+        subject: "1 overdue loan",
+        html:
+          "<h2>Overdue</h2><table><tr><td>Tent</td><td>Cubs</td></tr></table>",
+      },
+      [
+        { id: "a", name: "Broken", kind: "outbox", path: `${path}.missing/x` },
+        { id: "b", name: "Outbox", kind: "outbox", path },
+      ],
+    );
+
+    assertEquals(result.delivered, ["Outbox"]);
+    assertEquals(result.failed.map((f) => f.channel), ["Broken"]);
+    const [line] = (await Deno.readTextFile(path)).trim().split("\n");
+    const sent = JSON.parse(line);
+    assertEquals(sent.subject, "1 overdue loan");
+    assertEquals(sent.text, "Overdue\nTent | Cubs");
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("admin outbox files stay inside the outbox directory", () => {
+  assertEquals(outboxPath("alerts.jsonl"), "outbox/alerts.jsonl");
+  assertEquals(outboxPath("../alerts.jsonl"), null);
+  assertEquals(outboxPath("/etc/cron.d/x.jsonl"), null);
+  assertEquals(outboxPath("alerts.sh"), null);
+});
@@ -0,0 +1,84 @@
+// In-app notification inbox — alerts routed to the inbox channel, in Deno KV.
+//
+// Key layout:
+//   ["notifications", "inbox", <inverted-epoch>, <uuid>]  →  InboxNotification
+//
+// Same newest-first inverted epoch as the activity log. Entries expire after
+// 90 days.
+import type {
+  InboxNotification,
+  NotificationMessage,
+} from "../types/notifications.ts";
+
+const INBOX_PREFIX = ["notifications", "inbox"] as const;
+const NINETY_DAYS_MS = 90 * 24 * 60 * 60 * 1000;
+
+let _kv: Deno.Kv | null = null;
+let _kvInFlight: Promise<Deno.Kv> | null = null;
+function getKv(): Promise<Deno.Kv> {
+  if (_kv) return Promise.resolve(_kv);
+  if (!_kvInFlight) {
+    _kvInFlight = Deno.openKv().then((instance) => {
+      _kv = instance;
+      _kvInFlight = null;
+      return instance;
+    });
+  }
+  return _kvInFlight;
+}
+
+function invertedEpoch(): string {
+  return String(Number.MAX_SAFE_INTEGER - Date.now()).padStart(17, "0");
+}
+
+export async function addInboxNotification(
+  message: NotificationMessage,
+): Promise<void> {
+  const kv = await getKv();
+  const id = crypto.randomUUID();
+  await kv.set(
+    [...INBOX_PREFIX, invertedEpoch(), id],
+    {
+      ...message,
+      id,
+      createdAt: new Date().toISOString(),
+      readBy: [],
+    } satisfies InboxNotification,
+    { expireIn: NINETY_DAYS_MS },
+  );
+}
+
+/** Most recent inbox alerts, newest first. */
+export async function getInboxNotifications(
+  limit = 50,
+): Promise<InboxNotification[]> {
+  const kv = await getKv();
+  const entries: InboxNotification[] = [];
+  for await (
+    const entry of kv.list<InboxNotification>({ prefix: INBOX_PREFIX }, {
+      limit: Math.min(limit, 200),
+    })
+  ) {
+    entries.push(entry.value);
+  }
+  return entries;
+}
+
+/** Marks every inbox alert read for one user. Returns how many changed. */
+export async function markInboxRead(username: string): Promise<number> {
+  const kv = await getKv();
+  const writes: Promise<unknown>[] = [];
+  for await (
+    const entry of kv.list<InboxNotification>({ prefix: INBOX_PREFIX })
+  ) {
+    if (entry.value.readBy.includes(username)) continue;
+    const age = Date.now() - new Date(entry.value.createdAt).getTime();
+    writes.push(kv.set(
+      entry.key,
+      { ...entry.value, readBy: [...entry.value.readBy, username] },
+      { expireIn: Math.max(60_000, NINETY_DAYS_MS - age) },
+    ));
+  }
+  await Promise.all(writes);
+  return writes.length;
+}
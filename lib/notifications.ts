@@ -1,23 +1,14 @@
-// Email notifications via the Resend API (https://resend.com).
+// Alert checks — each one decides whether an alert is due and renders it.
 //
-// Required environment variables:
-//   RESEND_API_KEY   — API key from resend.com
-//   NOTIFY_EMAIL     — fallback recipient address for all alert emails
+// Delivery goes through lib/notificationChannels.ts: every alert type is routed
+// to the channels configured on /admin/notifications (email via Resend or
+// SMTP, webhook, in-app inbox). Until those settings are saved the older env
+// vars still apply:
+//   NOTIFY_EMAIL                 — recipient for every alert type
+//   NOTIFY_EMAIL_<TYPE>          — per-type recipient, e.g. NOTIFY_EMAIL_EXPIRY
 //
-// Optional per-type recipients (each falls back to NOTIFY_EMAIL if unset):
-//   NOTIFY_EMAIL_LOW_STOCK       — low stock alerts
-//   NOTIFY_EMAIL_NECKERS         — necker low stock alert
-//   NOTIFY_EMAIL_EXPIRY          — food expiry alerts
-//   NOTIFY_EMAIL_OVERDUE_LOANS   — overdue loan alerts
-//   NOTIFY_EMAIL_MAINTENANCE     — maintenance inspection alerts
-//   NOTIFY_EMAIL_RISK_ASSESSMENT — risk assessment review alerts
-//   NOTIFY_EMAIL_FIRST_AID       — first aid kit check alerts
-//
-// Optional:
-//   NOTIFY_FROM_EMAIL — sender address (defaults to noreply@7thwhitburnscoutsinventory.co.uk)
-//
-// If RESEND_API_KEY or NOTIFY_EMAIL are unset the helpers are safe no-ops — they
-// log to console instead so local dev works without any configuration.
+// Set NOTIFY_OUTBOX=console (or a file path) to send every alert to a local
+// outbox instead — the checks can then be run without any network access.
 
 import {
   getAllCheckOuts,
@@ -28,69 +19,52 @@ import {
   getFirstAidKitCheckStates,
   getFoodItemsSortedByExpiry,
   getNeckerCountOrNull,
+  getNotificationSettings,
 } from "../db/kv.ts";
 import { getDaysUntil, isMonthlyDue, isYearlyDue } from "./date-utils.ts";
-
-const RESEND_URL = "https://api.resend.com/emails";
+import {
+  expiringFirstAid,
+  FIRST_AID_EXPIRY_WARNING_DAYS,
+} from "./firstAidExpiry.ts";
+import {
+  channelsFor,
+  deliverNotification,
+  type DeliveryResult,
+  outboxSettings,
+  settingsFromEnv,
+} from "./notificationChannels.ts";
+import type {
+  NotificationSettings,
+  NotificationType,
+} from "../types/notifications.ts";
 
 // ===== INTERNAL SEND HELPER =====
 
-type NotificationType =
-  | "LOW_STOCK"
-  | "NECKERS"
-  | "EXPIRY"
-  | "OVERDUE_LOANS"
-  | "MAINTENANCE"
-  | "RISK_ASSESSMENT"
-  | "FIRST_AID";
+/** Routing in effect: NOTIFY_OUTBOX, then saved settings, then env vars. */
+export async function getActiveNotificationSettings(): Promise<
+  NotificationSettings
+> {
+  const outbox = Deno.env.get("NOTIFY_OUTBOX");
+  if (outbox) return outboxSettings(outbox);
+  return await getNotificationSettings() ?? settingsFromEnv();
+}
 
-async function sendEmail(
+async function notify(
   subject: string,
   html: string,
   type: NotificationType,
-): Promise<void> {
-  const apiKey = Deno.env.get("RESEND_API_KEY");
-  const toRaw = Deno.env.get(`NOTIFY_EMAIL_${type}`) ??
-    Deno.env.get("NOTIFY_EMAIL");
-  const from = Deno.env.get("NOTIFY_FROM_EMAIL") ??
-    "noreply@7thwhitburnscoutsinventory.co.uk";
-
-  if (!apiKey || !toRaw) {
-    console.log(
-      `[notifications] Email not configured — skipping: "${subject}"`,
-    );
-    return;
-  }
-
-  const to = toRaw.split(",").map((e) => e.trim()).filter(Boolean);
-
-  try {
-    const res = await fetch(RESEND_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ from, to, subject, html }),
-    });
-    if (!res.ok) {
-      const text = await res.text();
-      console.error(`[notifications] Resend API error ${res.status}: ${text}`);
-    } else {
-      console.log(`[notifications] Sent: "${subject}" → ${to.join(", ")}`);
-    }
-  } catch (err) {
-    console.error(
-      `[notifications] Network error sending email to ${to.join(", ")}:`,
-      err,
-    );
-  }
+): Promise<DeliveryResult> {
+  const settings = await getActiveNotificationSettings();
+  return await deliverNotification(
+    { type, subject, html },
+    channelsFor(settings, type),
+  );
 }
 
 // ===== PUBLIC NOTIFICATION FUNCTIONS =====
 
 /**
- * Checks all inventory items for low stock and sends a summary email
+ * Checks all inventory items for low stock and sends a summary alert
  * if any items are at or below their minimum threshold.
  */
 export async function checkAndNotifyLowStock(): Promise<void> {
@@ -129,7 +103,7 @@ export async function checkAndNotifyLowStock(): Promise<void> {
     <p style="color:#6b7280;font-size:13px;margin-top:16px">Sent by 7th Whitburn Scouts Inventory — visit the app to restock.</p>
   `;
 
-  await sendEmail(
+  await notify(
     `⚠️ 7th Whitburn Scouts: ${lowStock.length} item${
       lowStock.length !== 1 ? "s" : ""
     } low on stock`,
@@ -139,7 +113,7 @@ export async function checkAndNotifyLowStock(): Promise<void> {
 }
 
 /**
- * Checks the necker count and sends an alert email if it is at or below
+ * Checks the necker count and sends an alert if it is at or below
  * the threshold (NECKER_MIN_THRESHOLD env var, default 10).
  */
 export async function checkAndNotifyNeckersLow(): Promise<void> {
@@ -174,7 +148,7 @@ export async function checkAndNotifyNeckersLow(): Promise<void> {
     <p style="color:#6b7280;font-size:13px;margin-top:16px">Sent by 7th Whitburn Scouts Inventory — visit the app to restock.</p>
   `;
 
-  await sendEmail(
+  await notify(
     `🧣 7th Whitburn Scouts: Necker stock low (${neckerCount} remaining)`,
     html,
     "NECKERS",
@@ -182,7 +156,7 @@ export async function checkAndNotifyNeckersLow(): Promise<void> {
 }
 
 /**
- * Checks all food items for upcoming expiry and sends a summary email
+ * Checks all food items for upcoming expiry and sends a summary alert
  * if any items are expired or expiring within 30 days.
  */
 export async function checkAndNotifyExpiry(): Promise<void> {
@@ -232,7 +206,7 @@ export async function checkAndNotifyExpiry(): Promise<void> {
   `;
 
   const count = alertItems.length;
-  await sendEmail(
+  await notify(
     `🥫 7th Whitburn Scouts: ${count} food item${
       count !== 1 ? "s" : ""
     } expiring soon`,
@@ -252,7 +226,7 @@ function escHtml(str: string): string {
 }
 
 /**
- * Sends a summary email for any loans whose expected return date has passed.
+ * Sends a summary alert for any loans whose expected return date has passed.
  */
 export async function checkAndNotifyOverdueLoans(): Promise<void> {
   const all = await getAllCheckOuts();
@@ -301,7 +275,7 @@ export async function checkAndNotifyOverdueLoans(): Promise<void> {
     <p style="color:#6b7280;font-size:13px;margin-top:16px">Sent by 7th Whitburn Scouts Inventory — <a href="https://7thwhitburnscoutsinventory.co.uk/loans">view loans</a>.</p>
   `;
 
-  await sendEmail(
+  await notify(
     `📤 7th Whitburn Scouts: ${count} overdue loan${count !== 1 ? "s" : ""}`,
     html,
     "OVERDUE_LOANS",
@@ -310,7 +284,7 @@ export async function checkAndNotifyOverdueLoans(): Promise<void> {
 
 /**
  * Checks all inventory items for overdue or upcoming maintenance inspections
- * and sends a summary email if any are due within 30 days (or already overdue).
+ * and sends a summary alert if any are due within 30 days (or already overdue).
  */
 export async function checkAndNotifyMaintenanceDue(): Promise<void> {
   const allItems = await getAllItems();
@@ -368,7 +342,7 @@ export async function checkAndNotifyMaintenanceDue(): Promise<void> {
     <p style="color:#6b7280;font-size:13px;margin-top:16px">Sent by 7th Whitburn Scouts Inventory — <a href="https://7thwhitburnscoutsinventory.co.uk/inventory">view inventory</a>.</p>
   `;
 
-  await sendEmail(
+  await notify(
     `🔧 7th Whitburn Scouts: ${count} maintenance inspection${
       count !== 1 ? "s" : ""
     } due`,
@@ -379,7 +353,7 @@ export async function checkAndNotifyMaintenanceDue(): Promise<void> {
 
 /**
  * Checks all risk assessments for overdue annual reviews and sends a summary
- * email if any are due (no review in the past 365 days, or never reviewed).
+ * alert if any are due (no review in the past 365 days, or never reviewed).
  */
 export async function checkAndNotifyRiskAssessmentDue(): Promise<void> {
   const assessments = await getAllRiskAssessments();
@@ -414,7 +388,7 @@ export async function checkAndNotifyRiskAssessmentDue(): Promise<void> {
     <p style="color:#6b7280;font-size:13px;margin-top:16px">Sent by 7th Whitburn Scouts Inventory — <a href="https://7thwhitburnscoutsinventory.co.uk/risk-assessments">review risk assessments</a>.</p>
   `;
 
-  await sendEmail(
+  await notify(
     `⚠️ 7th Whitburn Scouts: ${count} risk assessment${
       count !== 1 ? "s" : ""
     } need annual review`,
@@ -424,7 +398,7 @@ export async function checkAndNotifyRiskAssessmentDue(): Promise<void> {
 }
 
 /**
- * Checks first aid kit check states and sends a summary email if any kits
+ * Checks first aid kit check states and sends a summary alert if any kits
  * have not been checked within the past calendar month.
  */
 export async function checkAndNotifyFirstAidChecksDue(): Promise<void> {
@@ -471,7 +445,7 @@ export async function checkAndNotifyFirstAidChecksDue(): Promise<void> {
     <p style="color:#6b7280;font-size:13px;margin-top:16px">Sent by 7th Whitburn Scouts Inventory — <a href="https://7thwhitburnscoutsinventory.co.uk/first-aid/check">check first aid kits</a>.</p>
   `;
 
-  await sendEmail(
+  await notify(
     `🩺 7th Whitburn Scouts: ${count} first aid kit${
       count !== 1 ? "s" : ""
     } need checking`,
@@ -479,3 +453,66 @@ export async function checkAndNotifyFirstAidChecksDue(): Promise<void> {
     "FIRST_AID",
   );
 }
+
+/**
+ * Checks the dated contents of every first aid kit and sends a summary alert
+ * if any batches are expired or expiring within 30 days.
+ */
+export async function checkAndNotifyFirstAidExpiry(): Promise<void> {
+  const kits = await getAllFirstAidKits();
+  const alertRows = expiringFirstAid(
+    kits,
+    new Date().toISOString().slice(0, 10),
+  );
+  if (alertRows.length === 0) return;
+
+  const rows = alertRows.map((row) => {
+    const days = row.days;
+    const statusText = days < 0
+      ? `EXPIRED ${Math.abs(days)} day${Math.abs(days) !== 1 ? "s" : ""} ago`
+      : days === 0
+      ? "Expires today"
+      : `${days} day${days !== 1 ? "s" : ""} remaining`;
+    const statusColor = days < 0
+      ? "#dc2626"
+      : days <= 7
+      ? "#d97706"
+      : "#ca8a04";
+    return `<tr>
+      <td style="padding:6px 12px">${
+      escHtml(row.itemName)
+    } × ${row.quantity}</td>
+      <td style="padding:6px 12px">${escHtml(row.kitName)}</td>
+      <td style="padding:6px 12px">${row.expiryDate}</td>
+      <td style="padding:6px 12px;color:${statusColor};font-weight:600">${statusText}</td>
+    </tr>`;
+  }).join("\n");
+
+  const count = alertRows.length;
+  const html = `
+    <h2 style="color:#7c3aed">🩹 First Aid Expiry Alert — 7th Whitburn Scouts</h2>
+    <p>${count} first aid item${
+    count !== 1 ? "s" : ""
+  } expiring within ${FIRST_AID_EXPIRY_WARNING_DAYS} days (or already expired):</p>
+    <table border="0" cellpadding="0" cellspacing="0" style="border-collapse:collapse;border:1px solid #e5e7eb;width:100%">
+      <thead>
+        <tr style="background:#f9fafb">
+          <th style="padding:8px 12px;text-align:left;border-bottom:1px solid #e5e7eb">Item</th>
+          <th style="padding:8px 12px;text-align:left;border-bottom:1px solid #e5e7eb">Kit</th>
+          <th style="padding:8px 12px;text-align:left;border-bottom:1px solid #e5e7eb">Expiry Date</th>
+          <th style="padding:8px 12px;text-align:left;border-bottom:1px solid #e5e7eb">Status</th>
+        </tr>
+      </thead>
+      <tbody>${rows}</tbody>
+    </table>
+    <p style="color:#6b7280;font-size:13px;margin-top:16px">Sent by 7th Whitburn Scouts Inventory — <a href="https://7thwhitburnscoutsinventory.co.uk/reports/expiring">see the expiring report</a> and replace items at the next kit check.</p>
+  `;
+
+  await notify(
+    `🩹 7th Whitburn Scouts: ${count} first aid item${
+      count !== 1 ? "s" : ""
+    } expiring soon`,
+    html,
+    "FIRST_AID",
+  );
+}
@@ -0,0 +1,100 @@
+// Purchase request helpers — the approval workflow, who may move a request
+// along it, and reading the request form. Pure functions: shared by the
+// purchasing page and the KV layer.
+import type { UserRole } from "./auth-roles.ts";
+import type { PurchaseRequest, PurchaseStatus } from "../types/purchasing.ts";
+import type { InventoryItem } from "../types/inventory.ts";
+
+export const PURCHASE_TRANSITIONS: Record<PurchaseStatus, PurchaseStatus[]> = {
+  requested: ["approved", "rejected", "cancelled"],
+  // Kit bought in person skips straight to received
+  approved: ["ordered", "received", "cancelled"],
+  ordered: ["received", "cancelled"],
+  rejected: [],
+  received: [],
+  cancelled: [],
+};
+
+export const PURCHASE_STATUS_LABELS: Record<PurchaseStatus, string> = {
+  requested: "Awaiting approval",
+  approved: "Approved",
+  rejected: "Rejected",
+  ordered: "Ordered",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+/** Requests still in the pipeline — counted against low stock. */
+export function isOpenPurchase(request: Pick<PurchaseRequest, "status">) {
+  return PURCHASE_TRANSITIONS[request.status].length > 0;
+}
+
+/** Managers approve, reject and place orders. */
+export function canManagePurchases(role: UserRole): boolean {
+  return role === "admin" || role === "manager";
+}
+
+/**
+ * Whether `role`/`username` may move `request` to `status`. Anyone who can
+ * edit stock may book in a delivery; requesters may withdraw their own.
+ */
+export function canMovePurchase(
+  request: PurchaseRequest,
+  status: PurchaseStatus,
+  role: UserRole,
+  username: string,
+): boolean {
+  if (!PURCHASE_TRANSITIONS[request.status].includes(status)) return false;
+  if (canManagePurchases(role)) return true;
+  if (role === "viewer") return false;
+  if (status === "received") return request.status === "ordered";
+  return status === "cancelled" &&
+    request.requestedBy === username.toLowerCase();
+}
+
+/** Low-stock items with no purchase already in the pipeline. */
+export function unrequestedLowStock(
+  items: InventoryItem[],
+  requests: PurchaseRequest[],
+): InventoryItem[] {
+  const open = new Set(
+    requests.filter(isOpenPurchase).map((request) => request.itemId),
+  );
+  return items
+    .filter((item) => item.quantity <= item.minThreshold && !open.has(item.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Request fields posted from the "Raise a request" form. */
+export function readPurchaseRequestFields(form: FormData) {
+  const text = (key: string) => String(form.get(key) ?? "").trim();
+  const itemId = text("itemId");
+  if (!itemId) throw new Error("Choose the item to buy.");
+  const quantity = Number(text("quantity"));
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new Error("Quantity must be a whole number of at least 1.");
+  }
+  const cost = text("estimatedCost");
+  const estimatedCost = cost ? Number(cost) : undefined;
+  if (
+    estimatedCost !== undefined &&
+    (!Number.isFinite(estimatedCost) || estimatedCost < 0)
+  ) {
+    throw new Error("Estimated cost must be a positive amount.");
+  }
+  if (text("notes").length > 500) {
+    throw new Error("Notes must be 500 characters or fewer.");
+  }
+  return {
+    itemId,
+    quantity,
+    estimatedCost,
+    supplierUrl: text("supplierUrl").slice(0, 500) || undefined,
+    notes: text("notes") || undefined,
+  };
+}
+
+/** Link target for a supplier field that holds a web address. */
+export function supplierHref(supplier: string): string | undefined {
+  return /^https?:\/\//i.test(supplier) ? supplier : undefined;
+}
@@ -0,0 +1,47 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type { InventoryItem } from "../types/inventory.ts";
+import type { PurchaseRequest } from "../types/purchasing.ts";
+import { canMovePurchase, unrequestedLowStock } from "./purchasing.ts";
+
+function request(overrides: Partial<PurchaseRequest> = {}): PurchaseRequest {
+  return {
+    id: "r1",
+    itemId: "gas",
+    itemName: "Gas canister",
+    quantity: 6,
+    status: "requested",
+    requestedBy: "leader",
+    requestedAt: "2026-03-01T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+Deno.test("managers run the workflow; requesters can only withdraw", () => {
+  const pending = request();
+  assertEquals(canMovePurchase(pending, "approved", "manager", "boss"), true);
+  assertEquals(canMovePurchase(pending, "approved", "editor", "leader"), false);
+  assertEquals(canMovePurchase(pending, "cancelled", "editor", "Leader"), true);
+  assertEquals(canMovePurchase(pending, "cancelled", "editor", "other"), false);
+  assertEquals(canMovePurchase(pending, "received", "admin", "boss"), false);
+
+  const ordered = request({ status: "ordered" });
+  assertEquals(canMovePurchase(ordered, "received", "editor", "other"), true);
+  assertEquals(canMovePurchase(ordered, "received", "viewer", "other"), false);
+  assertEquals(
+    canMovePurchase(request({ status: "received" }), "cancelled", "admin", "x"),
+    false,
+  );
+});
+
+Deno.test("low stock leaves out items with an open request", () => {
+  const item = (id: string, quantity: number) =>
+    ({ id, name: id, quantity, minThreshold: 2 }) as InventoryItem;
+  const low = unrequestedLowStock(
+    [item("gas", 1), item("pegs", 0), item("rope", 5), item("matches", 2)],
+    [
+      request(),
+      request({ id: "r2", itemId: "pegs", status: "received" }),
+    ],
+  );
+  assertEquals(low.map((i) => i.id), ["matches", "pegs"]);
+});
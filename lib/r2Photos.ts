@@ -199,7 +199,14 @@ export async function uploadFeedbackPhotoObject(
   };
 }
 
-export async function getPhotoObject(
+export function getPhotoObject(
+  objectKey: string,
+): Promise<PhotoObject | null> {
+  return getR2Object(objectKey);
+}
+
+/** Reads any object from the bucket; null if it does not exist. */
+export async function getR2Object(
   objectKey: string,
 ): Promise<PhotoObject | null> {
   try {
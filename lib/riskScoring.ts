@@ -0,0 +1,122 @@
+// Risk assessment scoring — likelihood × severity (each 1–5) before and after
+// controls, banded Low / Medium / High, and the matrix printed with each
+// assessment.
+//
+// Rows saved before scoring existed only have initialRiskLevel; they have no
+// score and keep their recorded level.
+// Pure functions: used by /risk-assessments, its edit and print pages, and
+// the RiskAssessmentForm island.
+import type { RiskAssessmentRisk, RiskLevel } from "../types/risk.ts";
+
+export const RISK_SCALE = [1, 2, 3, 4, 5] as const;
+
+export const LIKELIHOOD_LABELS: Record<number, string> = {
+  1: "Very unlikely",
+  2: "Unlikely",
+  3: "Possible",
+  4: "Likely",
+  5: "Very likely",
+};
+
+export const SEVERITY_LABELS: Record<number, string> = {
+  1: "Negligible",
+  2: "Minor",
+  3: "Moderate",
+  4: "Major",
+  5: "Severe",
+};
+
+export interface RiskRating {
+  /** Likelihood × severity, or null for rows recorded as a level only */
+  score: number | null;
+  band: RiskLevel;
+}
+
+/** A 1–5 score from form or backup input, or undefined when not given. */
+export function parseRiskScore(value: unknown): number | undefined {
+  const n = Number(value);
+  return value !== null && value !== "" && Number.isInteger(n) && n >= 1 &&
+      n <= 5
+    ? n
+    : undefined;
+}
+
+/** The optional score fields of a submitted or restored risk row. */
+export function parseRiskScores(
+  raw: Record<string, unknown>,
+): Pick<
+  RiskAssessmentRisk,
+  | "initialLikelihood"
+  | "initialSeverity"
+  | "residualLikelihood"
+  | "residualSeverity"
+> {
+  return {
+    initialLikelihood: parseRiskScore(raw.initialLikelihood),
+    initialSeverity: parseRiskScore(raw.initialSeverity),
+    residualLikelihood: parseRiskScore(raw.residualLikelihood),
+    residualSeverity: parseRiskScore(raw.residualSeverity),
+  };
+}
+
+export function riskBand(score: number): RiskLevel {
+  if (score >= 15) return "High";
+  if (score >= 5) return "Medium";
+  return "Low";
+}
+
+function rate(likelihood?: number, severity?: number): RiskRating | null {
+  if (!likelihood || !severity) return null;
+  const score = likelihood * severity;
+  return { score, band: riskBand(score) };
+}
+
+/** Risk before controls — scored when both parts are set. */
+export function initialRating(risk: RiskAssessmentRisk): RiskRating {
+  return rate(risk.initialLikelihood, risk.initialSeverity) ??
+    { score: null, band: risk.initialRiskLevel };
+}
+
+/** Risk remaining with the precautions in place, if it has been scored. */
+export function residualRating(risk: RiskAssessmentRisk): RiskRating | null {
+  return rate(risk.residualLikelihood, risk.residualSeverity);
+}
+
+export function formatRating(rating: RiskRating | null): string {
+  if (!rating) return "—";
+  return rating.score === null
+    ? rating.band
+    : `${rating.band} (${rating.score})`;
+}
+
+/**
+ * Residual High risks with nothing written under further action — these stop
+ * an assessment being marked reviewed.
+ */
+export function unresolvedHighRisks(
+  risks: RiskAssessmentRisk[],
+): RiskAssessmentRisk[] {
+  return risks.filter((risk) =>
+    residualRating(risk)?.band === "High" && !risk.furtherActionNeeded.trim()
+  );
+}
+
+/**
+ * Count of scored rows in each matrix cell, indexed [severity - 1][likelihood - 1].
+ */
+export function riskMatrix(
+  risks: RiskAssessmentRisk[],
+  stage: "initial" | "residual",
+): number[][] {
+  const grid = RISK_SCALE.map(() => RISK_SCALE.map(() => 0));
+  for (const risk of risks) {
+    const likelihood = stage === "initial"
+      ? risk.initialLikelihood
+      : risk.residualLikelihood;
+    const severity = stage === "initial"
+      ? risk.initialSeverity
+      : risk.residualSeverity;
+    if (likelihood && severity) grid[severity - 1][likelihood - 1]++;
+  }
+  return grid;
+}
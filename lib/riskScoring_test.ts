@@ -0,0 +1,67 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type { RiskAssessmentRisk } from "../types/risk.ts";
+import {
+  formatRating,
+  initialRating,
+  parseRiskScores,
+  residualRating,
+  riskMatrix,
+  unresolvedHighRisks,
+} from "./riskScoring.ts";
+
+const risk = (
+  overrides: Partial<RiskAssessmentRisk> = {},
+): RiskAssessmentRisk => ({
+  id: "r1",
+  hazards: "Open fire",
+  posedRisks: "Burns",
+  affectedWho: "Young people",
+  initialRiskLevel: "Medium",
+  precautionsTaken: "Fire buckets, adult supervision",
+  furtherActionNeeded: "",
+  ...overrides,
+});
+
+Deno.test("scores band into Low, Medium and High; unscored rows keep their level", () => {
+  const scored = risk({
+    initialLikelihood: 4,
+    initialSeverity: 4,
+    residualLikelihood: 2,
+    residualSeverity: 2,
+  });
+  assertEquals(formatRating(initialRating(scored)), "High (16)");
+  assertEquals(formatRating(residualRating(scored)), "Low (4)");
+  assertEquals(initialRating(risk({ initialSeverity: 5 })), {
+    score: null,
+    band: "Medium",
+  });
+  assertEquals(residualRating(risk()), null);
+  assertEquals(
+    parseRiskScores({ initialLikelihood: "3", initialSeverity: 6 }),
+    {
+      initialLikelihood: 3,
+      initialSeverity: undefined,
+      residualLikelihood: undefined,
+      residualSeverity: undefined,
+    },
+  );
+});
+
+Deno.test("residual High risks need a further action before review", () => {
+  const risks = [
+    risk({ id: "a", residualLikelihood: 3, residualSeverity: 5 }),
+    risk({
+      id: "b",
+      residualLikelihood: 5,
+      residualSeverity: 5,
+      furtherActionNeeded: "Move fire pit away from tents",
+    }),
+    risk({ id: "c", residualLikelihood: 2, residualSeverity: 3 }),
+  ];
+  assertEquals(unresolvedHighRisks(risks).map((r) => r.id), ["a"]);
+
+  const grid = riskMatrix(risks, "residual");
+  assertEquals(grid[4][2], 1);
+  assertEquals(grid[4][4], 1);
+  assertEquals(grid.flat().reduce((sum, n) => sum + n, 0), 3);
+});
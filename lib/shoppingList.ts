@@ -0,0 +1,74 @@
+// Camp shopping lists — checking lines sent from the meal planner, and the
+// CSV download.
+//
+// A line is bought as a count of packs or units where the planner could work
+// one out, otherwise as the amount the recipes add up to ("4.8kg"). Only
+// lines linked to a food item can be put into stock when the shop is done.
+// Pure functions: used by /api/camps/[id]/shopping and /camps/[id]/shopping.
+import type { ShoppingList, ShoppingListItem } from "../types/meals.ts";
+import { csvCell } from "./csv.ts";
+
+export type ShoppingLine = Pick<
+  ShoppingListItem,
+  "name" | "quantity" | "amount" | "itemId"
+>;
+
+/** What to pick up for a line: "3", or the amount when there's no count. */
+export function lineToBuy(line: Pick<ShoppingListItem, "quantity" | "amount">) {
+  return line.quantity !== undefined
+    ? String(line.quantity)
+    : line.amount ?? "";
+}
+
+/**
+ * A list someone has started shopping from or has finished — replacing it
+ * would lose the ticks or the record of what went into stock.
+ */
+export function shoppingListInUse(list: ShoppingList | null): boolean {
+  return !!list &&
+    (!!list.completedAt || list.items.some((line) => line.bought));
+}
+
+/** Lines from a request body; throws with a message for the first bad one. */
+export function readShoppingLines(value: unknown): ShoppingLine[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error("A shopping list needs at least one line.");
+  }
+  return value.map((raw, i) => {
+    const name = typeof raw?.name === "string" ? raw.name.trim() : "";
+    if (!name) throw new Error(`Line ${i + 1} needs a name.`);
+    const { quantity, amount, itemId } = raw;
+    if (
+      quantity !== undefined &&
+      (!Number.isInteger(quantity) || quantity < 1)
+    ) {
+      throw new Error(`${name}: quantity must be a whole number above 0.`);
+    }
+    if (amount !== undefined && typeof amount !== "string") {
+      throw new Error(`${name}: amount must be text.`);
+    }
+    if (quantity === undefined && !amount) {
+      throw new Error(`${name}: give a quantity or an amount.`);
+    }
+    if (itemId !== undefined && typeof itemId !== "string") {
+      throw new Error(`${name}: itemId must be a string.`);
+    }
+    return { name, quantity, amount: amount || undefined, itemId };
+  });
+}
+
+const HEADERS = ["Item", "To Buy", "Amount", "Bought", "Added to Stock"];
+
+/** The list as CSV, one row per line, with a BOM so Excel reads it as UTF-8. */
+export function shoppingListCsv(list: ShoppingList): string {
+  const rows = list.items.map((line) =>
+    [
+      line.name,
+      line.quantity,
+      line.amount,
+      line.bought ? "Yes" : "No",
+      line.addedToStock,
+    ].map(csvCell).join(",")
+  );
+  return "\uFEFF" + [HEADERS.join(","), ...rows].join("\r\n");
+}
@@ -0,0 +1,88 @@
+import { assertEquals, assertThrows } from "$std/assert/mod.ts";
+import type { ShoppingList } from "../types/meals.ts";
+import {
+  lineToBuy,
+  readShoppingLines,
+  shoppingListCsv,
+  shoppingListInUse,
+} from "./shoppingList.ts";
+
+Deno.test("lines need a name and a quantity or amount", () => {
+  assertEquals(
+    readShoppingLines([
+      { name: " Pasta ", quantity: 3, itemId: "pasta" },
+      { name: "Mince", amount: "4.8kg" },
+    ]),
+    [
+      { name: "Pasta", quantity: 3, amount: undefined, itemId: "pasta" },
+      {
+        name: "Mince",
+        quantity: undefined,
+        amount: "4.8kg",
+        itemId: undefined,
+      },
+    ],
+  );
+  assertThrows(() => readShoppingLines([]), Error, "at least one line");
+  assertThrows(
+    () => readShoppingLines([{ name: "Milk", quantity: 1.5 }]),
+    Error,
+    "Milk: quantity must be a whole number",
+  );
+  assertThrows(
+    () => readShoppingLines([{ name: "Milk" }]),
+    Error,
+    "give a quantity or an amount",
+  );
+});
+
+Deno.test("to buy falls back to the amount", () => {
+  assertEquals(lineToBuy({ quantity: 2, amount: "900g" }), "2");
+  assertEquals(lineToBuy({ amount: "4.8kg" }), "4.8kg");
+});
+
+Deno.test("CSV quotes awkward names and starts with a BOM", () => {
+  const list: ShoppingList = {
+    campId: "camp",
+    createdBy: "leader",
+    createdAt: "2026-05-01T00:00:00.000Z",
+    items: [
+      {
+        id: "1",
+        name: "Beans, baked",
+        quantity: 6,
+        bought: true,
+        addedToStock: 6,
+      },
+      { id: "2", name: "Mince", amount: "4.8kg", bought: false },
+    ],
+  };
+  assertEquals(
+    shoppingListCsv(list),
+    "\uFEFFItem,To Buy,Amount,Bought,Added to Stock\r\n" +
+      '"Beans, baked",6,,Yes,6\r\n' +
+      "Mince,,4.8kg,No,",
+  );
+});
+
+Deno.test("a list is in use once ticked or completed", () => {
+  const list: ShoppingList = {
+    campId: "camp",
+    items: [{ id: "a", name: "Pasta", quantity: 2, bought: false }],
+    createdBy: "leader",
+    createdAt: "2026-05-01T10:00:00.000Z",
+  };
+  assertEquals(shoppingListInUse(null), false);
+  assertEquals(shoppingListInUse(list), false);
+  assertEquals(
+    shoppingListInUse({
+      ...list,
+      items: [{ ...list.items[0], bought: true }],
+    }),
+    true,
+  );
+  assertEquals(
+    shoppingListInUse({ ...list, completedAt: "2026-05-02T10:00:00.000Z" }),
+    true,
+  );
+});
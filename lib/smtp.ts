@@ -0,0 +1,197 @@
+// Minimal SMTP client for the SMTP notification channel.
+//
+// Enough of RFC 5321 to hand one HTML message to a relay: implicit TLS on port
+// 465, STARTTLS on any other port, AUTH LOGIN when a username is given. The
+// body is base64-encoded so no dot-stuffing or line-length handling is needed.
+
+export interface SmtpMail {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+}
+
+/** Limit on connecting and on each read or write before giving up. */
+const SMTP_TIMEOUT_MS = 30_000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(text: string): string {
+  const bytes = encoder.encode(text);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Header value on one line, so a value containing CR/LF cannot add headers,
+ * and safe for non-ASCII subjects (RFC 2047 encoded-word).
+ */
+function encodeHeader(value: string): string {
+  const line = value.replace(/[\r\n]+/g, " ");
+  // deno-lint-ignore no-control-regex
+  return /^[\x00-\x7f]*$/.test(line) ? line : `=?UTF-8?B?${toBase64(line)}?=`;
+}
+
+/** The full message as sent after DATA, terminated by the lone dot line. */
+export function buildSmtpMessage(mail: SmtpMail, now = new Date()): string {
+  const domain = mail.from.split("@")[1] ?? "localhost";
+  const body = toBase64(mail.html).match(/.{1,76}/g) ?? [];
+  return [
+    `From: ${encodeHeader(mail.from)}`,
+    `To: ${encodeHeader(mail.to.join(", "))}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    ...body,
+    ".",
+    "",
+  ].join("\r\n");
+}
+
+/**
+ * Rejects when `promise` has not settled within SMTP_TIMEOUT_MS, after calling
+ * `onTimeout` to close whatever it was waiting on.
+ */
+async function withTimeout<T>(
+  promise: Promise<T>,
+  what: string,
+  onTimeout: () => void,
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      onTimeout();
+      reject(new Error(`SMTP ${what} timed out`));
+    }, SMTP_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([promise, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Opens a connection, closing it if it only arrives after the timeout. */
+function connectWithTimeout<C extends Deno.Conn>(
+  host: string,
+  connect: () => Promise<C>,
+): Promise<C> {
+  const pending = connect();
+  return withTimeout(pending, `connection to ${host}`, () => {
+    pending.then((conn) => conn.close(), () => {});
+  });
+}
+
+class SmtpSession {
+  private buffer = "";
+
+  constructor(private conn: Deno.Conn) {}
+
+  /** Reads one (possibly multi-line) reply and checks its status code. */
+  async expect(code: number): Promise<string> {
+    const lines: string[] = [];
+    while (true) {
+      const end = this.buffer.indexOf("\r\n");
+      if (end === -1) {
+        const chunk = new Uint8Array(4096);
+        const read = await withTimeout(
+          this.conn.read(chunk),
+          "reply",
+          () => this.close(),
+        );
+        if (read === null) throw new Error("SMTP server closed the connection");
+        this.buffer += decoder.decode(chunk.subarray(0, read));
+        continue;
+      }
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      lines.push(line);
+      if (line[3] !== "-") break;
+    }
+    const reply = lines.join("\n");
+    if (Number(reply.slice(0, 3)) !== code) {
+      throw new Error(`SMTP error: ${reply}`);
+    }
+    return reply;
+  }
+
+  async command(line: string, code: number): Promise<string> {
+    await this.write(`${line}\r\n`);
+    return await this.expect(code);
+  }
+
+  async write(data: string): Promise<void> {
+    const bytes = encoder.encode(data);
+    let written = 0;
+    while (written < bytes.length) {
+      written += await withTimeout(
+        this.conn.write(bytes.subarray(written)),
+        "write",
+        () => this.close(),
+      );
+    }
+  }
+
+  close() {
+    try {
+      this.conn.close();
+    } catch {
+      // already closed
+    }
+  }
+}
+
+export async function sendSmtpMail(mail: SmtpMail): Promise<void> {
+  const implicitTls = mail.port === 465;
+  const tcp = implicitTls ? null : await connectWithTimeout(
+    mail.host,
+    () => Deno.connect({ hostname: mail.host, port: mail.port }),
+  );
+  let session = new SmtpSession(
+    tcp ?? await connectWithTimeout(
+      mail.host,
+      () => Deno.connectTls({ hostname: mail.host, port: mail.port }),
+    ),
+  );
+  try {
+    await session.expect(220);
+    const ehlo = await session.command("EHLO localhost", 250);
+    if (tcp) {
+      if (!/STARTTLS/i.test(ehlo)) {
+        throw new Error(`${mail.host} does not offer STARTTLS`);
+      }
+      await session.command("STARTTLS", 220);
+      session = new SmtpSession(
+        await Deno.startTls(tcp, { hostname: mail.host }),
+      );
+      await session.command("EHLO localhost", 250);
+    }
+    if (mail.username) {
+      await session.command("AUTH LOGIN", 334);
+      await session.command(toBase64(mail.username), 334);
+      await session.command(toBase64(mail.password ?? ""), 235);
+    }
+    await session.command(`MAIL FROM:<${mail.from}>`, 250);
+    for (const recipient of mail.to) {
+      await session.command(`RCPT TO:<${recipient}>`, 250);
+    }
+    await session.command("DATA", 354);
+    await session.write(buildSmtpMessage(mail));
+    await session.expect(250);
+    await session.command("QUIT", 221).catch(() => {});
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,19 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import { buildSmtpMessage } from "./smtp.ts";
+
+Deno.test("header values cannot break onto new lines", () => {
+  const message = buildSmtpMessage({
+    host: "smtp.example.com",
+    port: 587,
+    from: "qm@example.com",
+    to: ["leaders@example.com"],
+    subject: "Low stock: Tent\r\nBcc: everyone@example.com",
+    html: "<p>Low</p>",
+  }, new Date("2026-10-19T08:00:00Z"));
+  const headers = message.split("\r\n\r\n")[0].split("\r\n");
+  assertEquals(
+    headers.find((line) => line.startsWith("Subject:")),
+    "Subject: Low stock: Tent Bcc: everyone@example.com",
+  );
+  assertEquals(headers.some((line) => line.startsWith("Bcc:")), false);
+});
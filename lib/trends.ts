@@ -0,0 +1,160 @@
+// Trend snapshots — a daily copy of the dashboard figures kept in KV so
+// /reports/trends can show how the store has changed over weeks and months.
+//
+// The nightly cron calls recordStatsSnapshot() in db/kv.ts, which gathers the
+// live figures and stores what buildStatsSnapshot() returns under that day.
+// Pure functions: building and bucketing snapshots needs no KV.
+import type { CheckOut, FoodItem } from "../types/inventory.ts";
+import { getFoodBatches, isActiveLoan } from "../types/inventory.ts";
+import type { ComputedStats, NeckerMetrics } from "../db/kv.ts";
+import { dayKey } from "./campReservations.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StatsSnapshot {
+  /** UTC day the snapshot covers (YYYY-MM-DD) */
+  date: string;
+  takenAt: Date;
+  totalItems: number;
+  totalQuantity: number;
+  categoryBreakdown: ComputedStats["categoryBreakdown"];
+  spaceBreakdown: ComputedStats["spaceBreakdown"];
+  lowStockItems: number;
+  needsRepairItems: number;
+  activeLoans: number;
+  overdueLoans: number;
+  itemsAtCamp: number;
+  neckers: NeckerMetrics;
+  /** Food units past their expiry date still on the shelves */
+  expiredFoodQuantity: number;
+  /** Food units that passed their expiry date since the previous snapshot */
+  newlyExpiredQuantity: number;
+}
+
+export interface SnapshotSources {
+  stats: ComputedStats;
+  neckers: NeckerMetrics;
+  loans: CheckOut[];
+  foodItems: FoodItem[];
+  /** The most recent earlier snapshot, if any */
+  previous?: StatsSnapshot | null;
+}
+
+export function buildStatsSnapshot(
+  { stats, neckers, loans, foodItems, previous }: SnapshotSources,
+  now = new Date(),
+): StatsSnapshot {
+  // Without a previous snapshot, count what expired over the last day
+  const since = previous ? new Date(previous.takenAt) : new Date(+now - DAY_MS);
+  let expiredFoodQuantity = 0;
+  let newlyExpiredQuantity = 0;
+  for (const item of foodItems) {
+    for (const batch of getFoodBatches(item)) {
+      if (batch.expiryDate >= now) continue;
+      expiredFoodQuantity += batch.quantity;
+      if (batch.expiryDate >= since) newlyExpiredQuantity += batch.quantity;
+    }
+  }
+
+  return {
+    date: dayKey(now),
+    takenAt: now,
+    totalItems: stats.totalItems,
+    totalQuantity: stats.totalQuantity,
+    categoryBreakdown: stats.categoryBreakdown,
+    spaceBreakdown: stats.spaceBreakdown,
+    lowStockItems: stats.lowStockItems,
+    needsRepairItems: stats.needsRepairItems,
+    activeLoans: stats.activeLoansCount,
+    overdueLoans:
+      loans.filter((loan) =>
+        isActiveLoan(loan) && new Date(loan.expectedReturnDate) < now
+      ).length,
+    itemsAtCamp: stats.itemsAtCampCount,
+    neckers,
+    expiredFoodQuantity,
+    newlyExpiredQuantity,
+  };
+}
+
+// ===== BUCKETING =====
+
+export type TrendPeriod = "week" | "month";
+
+export const TREND_RANGES = {
+  "12w": { label: "12 weeks", period: "week", count: 12 },
+  "26w": { label: "26 weeks", period: "week", count: 26 },
+  "12m": { label: "12 months", period: "month", count: 12 },
+  "24m": { label: "24 months", period: "month", count: 24 },
+} as const satisfies Record<
+  string,
+  { label: string; period: TrendPeriod; count: number }
+>;
+
+export type TrendRange = keyof typeof TREND_RANGES;
+
+export function isTrendRange(value: string | null): value is TrendRange {
+  return !!value && value in TREND_RANGES;
+}
+
+/** First day of the week (Monday) or month containing `date`, as YYYY-MM-DD. */
+export function periodStart(date: Date | string, period: TrendPeriod): string {
+  const day = new Date(dayKey(date));
+  if (period === "month") return `${dayKey(day).slice(0, 7)}-01`;
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  return dayKey(new Date(+day - sinceMonday * DAY_MS));
+}
+
+/** Start of the oldest period shown for a range. */
+export function rangeStart(range: TrendRange, now = new Date()): string {
+  const { period, count } = TREND_RANGES[range];
+  if (period === "week") {
+    return periodStart(new Date(+now - (count - 1) * 7 * DAY_MS), "week");
+  }
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (count - 1), 1),
+  );
+  return dayKey(start);
+}
+
+export interface TrendPoint {
+  /** First day of the period (YYYY-MM-DD) */
+  start: string;
+  /** Latest snapshot in the period — stock levels as the period ended */
+  snapshot: StatsSnapshot;
+  /** Food units that expired during the period */
+  wasted: number;
+}
+
+/**
+ * Groups snapshots (oldest first) into weeks or months. Levels come from the
+ * last snapshot in each period; food waste is summed across it. Periods with
+ * no snapshot are left out rather than guessed.
+ */
+export function bucketSnapshots(
+  snapshots: StatsSnapshot[],
+  period: TrendPeriod,
+): TrendPoint[] {
+  const points: TrendPoint[] = [];
+  for (const snapshot of snapshots) {
+    const start = periodStart(snapshot.date, period);
+    const last = points.at(-1);
+    if (last?.start === start) {
+      last.snapshot = snapshot;
+      last.wasted += snapshot.newlyExpiredQuantity;
+    } else {
+      points.push({ start, snapshot, wasted: snapshot.newlyExpiredQuantity });
+    }
+  }
+  return points;
+}
+
+/** "3 Mar" for weeks, "Mar 2026" for months. */
+export function periodLabel(start: string, period: TrendPeriod): string {
+  return new Date(start).toLocaleDateString(
+    "en-GB",
+    period === "week"
+      ? { day: "numeric", month: "short", timeZone: "UTC" }
+      : { month: "short", year: "numeric", timeZone: "UTC" },
+  );
+}
@@ -0,0 +1,95 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type { CheckOut, FoodItem } from "../types/inventory.ts";
+import type { ComputedStats } from "../db/kv.ts";
+import {
+  bucketSnapshots,
+  buildStatsSnapshot,
+  rangeStart,
+  type StatsSnapshot,
+} from "./trends.ts";
+
+const stats = {
+  totalItems: 3,
+  totalQuantity: 40,
+  categoryBreakdown: {},
+  spaceBreakdown: {},
+  spaceCategoryBreakdown: {},
+  lowStockItems: 1,
+  needsRepairItems: 2,
+  activeLoansCount: 2,
+  itemsAtCampCount: 0,
+} as unknown as ComputedStats;
+
+const neckers = {
+  inStock: 10,
+  created: 0,
+  totalMade: 30,
+  adultCreated: 0,
+  adultTotalMade: 0,
+};
+
+const beans = {
+  id: "beans",
+  name: "Baked Beans",
+  category: "food",
+  foodType: "canned",
+  quantity: 18,
+  minThreshold: 0,
+  location: "Kitchen Cupboard",
+  expiryDate: new Date("2026-03-01"),
+  addedDate: new Date("2026-01-01"),
+  lastUpdated: new Date("2026-01-01"),
+  batches: [
+    { id: "a", quantity: 6, expiryDate: new Date("2026-03-01") },
+    { id: "b", quantity: 4, expiryDate: new Date("2026-03-09T12:00:00Z") },
+    { id: "c", quantity: 8, expiryDate: new Date("2026-06-01") },
+  ],
+} as FoodItem;
+
+function loan(id: string, expectedReturnDate: string): CheckOut {
+  return {
+    id,
+    itemId: "tent",
+    itemName: "Patrol Tent",
+    borrower: "Cubs",
+    quantity: 1,
+    checkOutDate: new Date("2026-03-01"),
+    expectedReturnDate: new Date(expectedReturnDate),
+    status: "checked-out",
+  };
+}
+
+Deno.test("snapshot counts food that expired since the previous one", () => {
+  const now = new Date("2026-03-10T23:45:00Z");
+  const snapshot = buildStatsSnapshot({
+    stats,
+    neckers,
+    loans: [loan("late", "2026-03-08"), loan("due", "2026-03-20")],
+    foodItems: [beans],
+    previous: {
+      takenAt: new Date("2026-03-08T23:45:00Z"),
+    } as StatsSnapshot,
+  }, now);
+
+  assertEquals(snapshot.date, "2026-03-10");
+  assertEquals(snapshot.expiredFoodQuantity, 10);
+  assertEquals(snapshot.newlyExpiredQuantity, 4);
+  assertEquals(snapshot.activeLoans, 2);
+  assertEquals(snapshot.overdueLoans, 1);
+});
+
+Deno.test("weekly buckets keep the last levels and sum the waste", () => {
+  const day = (date: string, totalQuantity: number, wasted: number) =>
+    ({ date, totalQuantity, newlyExpiredQuantity: wasted }) as StatsSnapshot;
+  const points = bucketSnapshots([
+    day("2026-03-02", 40, 1), // Monday
+    day("2026-03-08", 38, 2), // Sunday, same week
+    day("2026-03-09", 45, 0),
+  ], "week");
+
+  assertEquals(
+    points.map((p) => [p.start, p.snapshot.totalQuantity, p.wasted]),
+    [["2026-03-02", 38, 3], ["2026-03-09", 45, 0]],
+  );
+  assertEquals(rangeStart("12m", new Date("2026-03-10")), "2025-04-01");
+});
@@ -0,0 +1,140 @@
+// Units of measure — recipe amounts, pack sizes and converting between them.
+//
+// Grams and kilograms convert, as do millilitres and litres; "each" counts
+// whole things. A per-person amount is multiplied by the servings and summed
+// across meals in its smallest unit, and only rounded up to whole packs at the
+// end — three meals needing 200g each from 500g bags buy 2 bags, not 3.
+// Pure functions: used by the meal planner, camp menus and the meal and item
+// forms.
+import type { MealIngredient, MeasureUnit, Quantity } from "../types/meals.ts";
+
+export type Dimension = "mass" | "volume" | "count";
+
+const UNITS: Record<MeasureUnit, { dimension: Dimension; factor: number }> = {
+  g: { dimension: "mass", factor: 1 },
+  kg: { dimension: "mass", factor: 1000 },
+  ml: { dimension: "volume", factor: 1 },
+  l: { dimension: "volume", factor: 1000 },
+  each: { dimension: "count", factor: 1 },
+};
+
+export const MEASURE_UNITS: MeasureUnit[] = ["g", "kg", "ml", "l", "each"];
+
+const ALIASES: Record<string, MeasureUnit> = {
+  g: "g",
+  gram: "g",
+  grams: "g",
+  kg: "kg",
+  kilo: "kg",
+  kilos: "kg",
+  ml: "ml",
+  l: "l",
+  litre: "l",
+  litres: "l",
+  liter: "l",
+  liters: "l",
+  each: "each",
+};
+
+export function isQuantity(value: unknown): value is Quantity {
+  const q = value as Quantity | null;
+  return typeof q === "object" && q !== null &&
+    typeof q.amount === "number" && Number.isFinite(q.amount) &&
+    q.amount > 0 && MEASURE_UNITS.includes(q.unit);
+}
+
+/**
+ * Reads sizes like "500g", "1.5 kg", "2 litres" or "6 x 500g" (the first
+ * number followed by a known unit); undefined for anything else.
+ */
+export function parseQuantity(text: string | undefined): Quantity | undefined {
+  for (const match of text?.matchAll(/(\d+(?:\.\d+)?)\s*([a-z]+)/gi) ?? []) {
+    const unit = ALIASES[match[2].toLowerCase()];
+    const amount = Number(match[1]);
+    if (unit && amount > 0) return { amount, unit };
+  }
+  return undefined;
+}
+
+/** A food item's pack size, falling back to its freeform weight label. */
+export function packSizeOf(
+  item: { packSize?: Quantity; weight?: string },
+): Quantity | undefined {
+  return item.packSize ?? parseQuantity(item.weight);
+}
+
+/** "1.5kg", "750ml", "12 each" — in the larger unit once it reaches 1. */
+export function formatQuantity(quantity: Quantity): string {
+  const { dimension, factor } = UNITS[quantity.unit];
+  const base = quantity.amount * factor;
+  const round = (n: number) => String(Math.round(n * 100) / 100);
+  if (dimension === "count") return `${round(base)} each`;
+  const [small, large] = dimension === "mass" ? ["g", "kg"] : ["ml", "l"];
+  return base >= 1000
+    ? `${round(base / 1000)}${large}`
+    : `${round(base)}${small}`;
+}
+
+/** What one ingredient needs, built up across the meals that use it. */
+export interface IngredientTotal {
+  /** Whole units from recipes measured in servings per unit */
+  units: number;
+  /** Per-person amounts, summed in each dimension's smallest unit */
+  amounts: Partial<Record<Dimension, number>>;
+}
+
+/** Adds one meal's use of an ingredient, served `servings` times in total. */
+export function addIngredient(
+  total: IngredientTotal | undefined,
+  ing: MealIngredient,
+  servings: number,
+): IngredientTotal {
+  const next: IngredientTotal = total
+    ? { units: total.units, amounts: { ...total.amounts } }
+    : { units: 0, amounts: {} };
+  if (ing.perPerson) {
+    const { dimension, factor } = UNITS[ing.perPerson.unit];
+    next.amounts[dimension] = (next.amounts[dimension] ?? 0) +
+      ing.perPerson.amount * factor * servings;
+  } else {
+    next.units += Math.ceil(servings / ing.servingsPerUnit);
+  }
+  return next;
+}
+
+/**
+ * Whole packs (or units) to cover the total, or null when an amount can't be
+ * converted — weighed or measured amounts need a pack size of the same kind.
+ */
+export function packsNeeded(
+  total: IngredientTotal,
+  packSize?: Quantity,
+): number | null {
+  let packs = total.units;
+  for (const [dimension, amount] of Object.entries(total.amounts)) {
+    if (packSize && UNITS[packSize.unit].dimension === dimension) {
+      const perPack = packSize.amount * UNITS[packSize.unit].factor;
+      // Tolerate float error so 1000g from 500g packs is 2, not 3
+      packs += Math.ceil(amount / perPack - 1e-9);
+    } else if (dimension === "count") {
+      packs += Math.ceil(amount - 1e-9);
+    } else {
+      return null;
+    }
+  }
+  return packs;
+}
+
+/** The per-person amounts in a total, e.g. "4.8kg", or undefined if none. */
+export function describeAmounts(total: IngredientTotal): string | undefined {
+  const smallest: Record<Dimension, MeasureUnit> = {
+    mass: "g",
+    volume: "ml",
+    count: "each",
+  };
+  const parts = (Object.entries(total.amounts) as [Dimension, number][])
+    .map(([dimension, amount]) =>
+      formatQuantity({ amount, unit: smallest[dimension] })
+    );
+  return parts.length > 0 ? parts.join(" + ") : undefined;
+}
@@ -0,0 +1,52 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type { MealIngredient } from "../types/meals.ts";
+import {
+  addIngredient,
+  describeAmounts,
+  formatQuantity,
+  packsNeeded,
+  parseQuantity,
+} from "./units.ts";
+
+const pasta: MealIngredient = {
+  name: "Pasta",
+  servingsPerUnit: 1,
+  perPerson: { amount: 200, unit: "g" },
+};
+
+Deno.test("pack sizes are read from freeform weights", () => {
+  assertEquals(parseQuantity("500g"), { amount: 500, unit: "g" });
+  assertEquals(parseQuantity("1.5 Litres"), { amount: 1.5, unit: "l" });
+  assertEquals(parseQuantity("~5 lbs"), undefined);
+  assertEquals(parseQuantity("6 x 500g"), { amount: 500, unit: "g" });
+  assertEquals(parseQuantity("12 each"), { amount: 12, unit: "each" });
+  assertEquals(formatQuantity({ amount: 2500, unit: "ml" }), "2.5l");
+  assertEquals(formatQuantity({ amount: 0.2, unit: "kg" }), "200g");
+});
+
+Deno.test("per-person amounts are summed before rounding to packs", () => {
+  // Three meals of 200g for one person, from 500g bags: 600g is 2 bags
+  let total = addIngredient(undefined, pasta, 1);
+  total = addIngredient(total, pasta, 1);
+  total = addIngredient(total, pasta, 1);
+  assertEquals(packsNeeded(total, { amount: 500, unit: "g" }), 2);
+  assertEquals(packsNeeded(total, { amount: 1, unit: "kg" }), 1);
+  assertEquals(describeAmounts(total), "600g");
+  // Weighed amounts can't become packs without a pack size to divide by
+  assertEquals(packsNeeded(total), null);
+  assertEquals(packsNeeded(total, { amount: 1, unit: "l" }), null);
+});
+
+Deno.test("servings per unit and counted amounts need no pack size", () => {
+  let total = addIngredient(
+    undefined,
+    { name: "Beans", servingsPerUnit: 4 },
+    10,
+  );
+  total = addIngredient(total, {
+    name: "Beans",
+    servingsPerUnit: 1,
+    perPerson: { amount: 0.5, unit: "each" },
+  }, 5);
+  assertEquals(packsNeeded(total), 3 + 3);
+});
@@ -0,0 +1,199 @@
+// Item utilisation — how often each item actually leaves the store.
+//
+// A use is a camp the item was planned onto (once the camp went ahead) or a
+// loan that was collected. Days out count each calendar day an item was away,
+// clipped to the report period. Items with no use for a year are flagged as
+// disposal candidates, unless they are consumables or newer than that.
+// Pure functions: used by /reports/utilisation.
+import type {
+  CampPlan,
+  CampPlanStatus,
+  CheckOut,
+  InventoryItem,
+  ItemCategory,
+} from "../types/inventory.ts";
+import { campDays, dayKey } from "./campReservations.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Camps that left the store — planning-only camps never took any kit. */
+const USED_CAMP_STATUSES: CampPlanStatus[] = [
+  "packing",
+  "active",
+  "returning",
+  "completed",
+];
+
+/** Categories used up rather than reused, so never disposal candidates. */
+export const CONSUMABLE_CATEGORIES: ItemCategory[] = ["food", "fuel"];
+
+export const DISPOSAL_AFTER_MONTHS = 12;
+
+export interface UtilisationPeriod {
+  /** First day of the period (YYYY-MM-DD, inclusive) */
+  from: string;
+  /** Last day of the period (YYYY-MM-DD, inclusive) */
+  to: string;
+}
+
+export interface ItemUtilisation {
+  itemId: string;
+  itemName: string;
+  category: ItemCategory;
+  campCount: number;
+  loanCount: number;
+  daysOut: number;
+  /** Last day the item was away, across all time (YYYY-MM-DD) */
+  lastUsed?: string;
+  disposalCandidate: boolean;
+}
+
+export interface CategoryUtilisation {
+  category: ItemCategory;
+  itemCount: number;
+  /** Items used at least once in the period */
+  usedCount: number;
+  /** Distinct camps any item in the category went on */
+  campCount: number;
+  loanCount: number;
+  daysOut: number;
+}
+
+interface Use {
+  itemId: string;
+  kind: "camp" | "loan";
+  /** Camp or loan id, so a camp is only counted once per category */
+  sourceId: string;
+  start: string;
+  end: string;
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(end) - Date.parse(start)) / DAY_MS) + 1;
+}
+
+/** Every camp and loan use of every item, with its inclusive day span. */
+function collectUses(
+  plans: CampPlan[],
+  loans: CheckOut[],
+  today: string,
+): Use[] {
+  const uses: Use[] = [];
+  for (const plan of plans) {
+    if (!USED_CAMP_STATUSES.includes(plan.status)) continue;
+    const { start, end } = campDays(plan);
+    if (start > today) continue;
+    const itemIds = new Set(plan.items.map((entry) => entry.itemId));
+    for (const itemId of itemIds) {
+      uses.push({
+        itemId,
+        kind: "camp",
+        sourceId: plan.id,
+        start,
+        end: end < today ? end : today,
+      });
+    }
+  }
+  for (const loan of loans) {
+    // Reservations and no-shows never left; a partial return's split record
+    // repeats the span of the loan it came from.
+    if (loan.status === "reserved" || loan.status === "no-show") continue;
+    if (loan.splitFromId) continue;
+    const start = dayKey(loan.checkOutDate);
+    if (start > today) continue;
+    const returned = loan.actualReturnDate
+      ? dayKey(loan.actualReturnDate)
+      : today;
+    uses.push({
+      itemId: loan.itemId,
+      kind: "loan",
+      sourceId: loan.id,
+      start,
+      end: returned < start ? start : returned < today ? returned : today,
+    });
+  }
+  return uses;
+}
+
+export function summariseUtilisation(
+  items: InventoryItem[],
+  plans: CampPlan[],
+  loans: CheckOut[],
+  period: UtilisationPeriod,
+  now = new Date(),
+): { items: ItemUtilisation[]; categories: CategoryUtilisation[] } {
+  const today = dayKey(now);
+  const disposalCutoff = new Date(now);
+  disposalCutoff.setUTCMonth(
+    disposalCutoff.getUTCMonth() - DISPOSAL_AFTER_MONTHS,
+  );
+  const cutoff = dayKey(disposalCutoff);
+
+  const usesByItem = new Map<string, Use[]>();
+  for (const use of collectUses(plans, loans, today)) {
+    usesByItem.set(use.itemId, [...(usesByItem.get(use.itemId) ?? []), use]);
+  }
+
+  const byCategory = new Map<
+    ItemCategory,
+    CategoryUtilisation & { camps: Set<string> }
+  >();
+  const rows = items.map((item): ItemUtilisation => {
+    const uses = usesByItem.get(item.id) ?? [];
+    let campCount = 0;
+    let loanCount = 0;
+    let daysOut = 0;
+    const camps: string[] = [];
+    for (const use of uses) {
+      const start = use.start > period.from ? use.start : period.from;
+      const end = use.end < period.to ? use.end : period.to;
+      if (start > end) continue;
+      daysOut += daysBetween(start, end);
+      if (use.kind === "camp") {
+        campCount++;
+        camps.push(use.sourceId);
+      } else {
+        loanCount++;
+      }
+    }
+    const lastUsed = uses.reduce<string | undefined>(
+      (latest, use) => !latest || use.end > latest ? use.end : latest,
+      undefined,
+    );
+
+    const category = byCategory.get(item.category) ?? {
+      category: item.category,
+      itemCount: 0,
+      usedCount: 0,
+      campCount: 0,
+      loanCount: 0,
+      daysOut: 0,
+      camps: new Set<string>(),
+    };
+    category.itemCount++;
+    if (campCount + loanCount > 0) category.usedCount++;
+    category.loanCount += loanCount;
+    category.daysOut += daysOut;
+    for (const id of camps) category.camps.add(id);
+    byCategory.set(item.category, category);
+
+    return {
+      itemId: item.id,
+      itemName: item.name,
+      category: item.category,
+      campCount,
+      loanCount,
+      daysOut,
+      lastUsed,
+      disposalCandidate: !CONSUMABLE_CATEGORIES.includes(item.category) &&
+        dayKey(item.addedDate) <= cutoff &&
+        (!lastUsed || lastUsed < cutoff),
+    };
+  });
+
+  const categories = [...byCategory.values()].map(({ camps, ...rest }) => ({
+    ...rest,
+    campCount: camps.size,
+  }));
+  return { items: rows, categories };
+}
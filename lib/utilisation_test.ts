@@ -0,0 +1,110 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type {
+  CampPlan,
+  CampPlanStatus,
+  CheckOut,
+  InventoryItem,
+} from "../types/inventory.ts";
+import { summariseUtilisation } from "./utilisation.ts";
+
+function item(id: string, category = "tent"): InventoryItem {
+  return {
+    id,
+    name: id,
+    category,
+    quantity: 4,
+    minThreshold: 0,
+    location: "Metal Shelf 1 - Slot 1",
+    addedDate: new Date("2024-01-01"),
+    lastUpdated: new Date("2024-01-01"),
+  } as InventoryItem;
+}
+
+function camp(
+  id: string,
+  campDate: string,
+  endDate: string,
+  itemIds: string[],
+  status: CampPlanStatus = "completed",
+): CampPlan {
+  return {
+    id,
+    name: id,
+    campDate: new Date(campDate),
+    endDate: new Date(endDate),
+    status,
+    items: itemIds.map((itemId) => ({
+      itemId,
+      itemName: itemId,
+      itemCategory: "tent",
+      itemLocation: "",
+      quantityPlanned: 1,
+      packedStatus: true,
+      returnedStatus: true,
+    })),
+    createdBy: "admin",
+    createdAt: new Date(campDate),
+    lastUpdated: new Date(campDate),
+  };
+}
+
+function loan(id: string, overrides: Partial<CheckOut>): CheckOut {
+  return {
+    id,
+    itemId: "patrol",
+    itemName: "patrol",
+    borrower: "Cubs",
+    quantity: 1,
+    checkOutDate: new Date("2026-02-27"),
+    expectedReturnDate: new Date("2026-03-05"),
+    status: "returned",
+    ...overrides,
+  };
+}
+
+Deno.test("counts camps and loans with days out clipped to the period", () => {
+  const { items, categories } = summariseUtilisation(
+    [item("patrol"), item("dome"), item("beans", "food")],
+    [
+      camp("spring", "2026-03-06", "2026-03-08", ["patrol", "dome"]),
+      camp("draft", "2026-03-10", "2026-03-12", ["patrol"], "planning"),
+    ],
+    [
+      loan("a", { actualReturnDate: new Date("2026-03-02") }),
+      loan("b", { splitFromId: "a" }),
+      loan("c", { status: "no-show" }),
+    ],
+    { from: "2026-03-01", to: "2026-03-31" },
+    new Date("2026-04-01"),
+  );
+
+  const patrol = items.find((row) => row.itemId === "patrol")!;
+  assertEquals(
+    [patrol.campCount, patrol.loanCount, patrol.daysOut, patrol.lastUsed],
+    [1, 1, 5, "2026-03-08"],
+  );
+  assertEquals(categories.find((c) => c.category === "tent"), {
+    category: "tent",
+    itemCount: 2,
+    usedCount: 2,
+    campCount: 1,
+    loanCount: 1,
+    daysOut: 8,
+  });
+});
+
+Deno.test("flags reusable kit unused for a year as disposal candidates", () => {
+  const fresh = { ...item("new-tent"), addedDate: new Date("2026-01-01") };
+  const { items } = summariseUtilisation(
+    [item("old-tent"), item("used-tent"), fresh, item("beans", "food")],
+    [camp("summer", "2025-08-01", "2025-08-07", ["used-tent"])],
+    [],
+    { from: "2025-04-01", to: "2026-03-31" },
+    new Date("2026-04-01"),
+  );
+
+  assertEquals(
+    items.filter((row) => row.disposalCandidate).map((row) => row.itemId),
+    ["old-tent"],
+  );
+});
@@ -1,7 +1,13 @@
 // Validation helpers for inventory items
 // Used by both the item API routes and the bulk import handler.
 
-import type { ItemCategory, ItemSpace } from "../types/inventory.ts";
+import type {
+  ItemCategory,
+  ItemSpace,
+  StorageLocation,
+  StorageSpace,
+} from "../types/inventory.ts";
+import { isQuantity, MEASURE_UNITS } from "./units.ts";
 
 const VALID_CATEGORIES = new Set<ItemCategory>([
   "tent",
@@ -13,11 +19,6 @@ const VALID_CATEGORIES = new Set<ItemCategory>([
   "fuel",
   "kilt",
 ]);
-const VALID_SPACES = new Set<ItemSpace>([
-  "camp-store",
-  "scout-post-loft",
-  "gas-storage-box",
-]);
 const VALID_FOOD_TYPES = new Set([
   "canned",
   "jarred",
@@ -67,12 +68,39 @@ export function validateMinThreshold(
   return null;
 }
 
+/**
+ * Checks a location name against the location registry: it must exist, not be
+ * archived, and belong to the item's space.
+ */
+export function validateItemLocation(
+  location: string,
+  space: ItemSpace | undefined,
+  locations: StorageLocation[],
+): string | null {
+  const match = locations.find((loc) => loc.name === location);
+  if (!match) {
+    return `Unknown location "${location}"`;
+  }
+  if (match.archived) {
+    return `Location "${location}" is archived`;
+  }
+  if (match.space !== (space ?? "camp-store")) {
+    return `Location "${location}" is not in space ${space ?? "camp-store"}`;
+  }
+  return null;
+}
+
 /**
  * Validates fields shared by all item categories.
+ * Pass the location registry to also check the location exists in the item's
+ * space; omit it when the location is unchanged (e.g. a quantity-only edit).
  * Returns the first error string found, or null if valid.
  */
-// deno-lint-ignore no-explicit-any
-export function validateItemBase(body: Record<string, any>): string | null {
+export function validateItemBase(
+  // deno-lint-ignore no-explicit-any
+  body: Record<string, any>,
+  locations?: StorageLocation[],
+): string | null {
   const nameErr = validateRequiredField(body.name, "name");
   if (nameErr) {
     return nameErr;
@@ -93,8 +121,18 @@ export function validateItemBase(body: Record<string, any>): string | null {
   if (locationErr) {
     return locationErr;
   }
-  if (body.space !== undefined && !VALID_SPACES.has(body.space)) {
-    return `Invalid space "${body.space}" — must be camp-store, scout-post-loft, or gas-storage-box`;
+  if (body.space !== undefined && typeof body.space !== "string") {
+    return "space must be a string";
+  }
+  if (locations) {
+    const registryErr = validateItemLocation(
+      body.location,
+      body.space,
+      locations,
+    );
+    if (registryErr) {
+      return registryErr;
+    }
   }
   if (typeof body.minThreshold === "number") {
     const threshErr = validateMinThreshold(body.minThreshold, body.quantity);
@@ -102,6 +140,19 @@ export function validateItemBase(body: Record<string, any>): string | null {
       return threshErr;
     }
   }
+  for (const field of ["purchaseCost", "replacementValue"]) {
+    const value = body[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      return `${field} must be a number of pounds, 0 or more`;
+    }
+  }
+  if (
+    body.supplier !== undefined && body.supplier !== null &&
+    typeof body.supplier !== "string"
+  ) {
+    return "supplier must be a string";
+  }
   return null;
 }
 
@@ -119,6 +170,14 @@ export function validateFoodItem(body: Record<string, any>): string | null {
   if (!body.expiryDate) {
     return "expiryDate is required for food items";
   }
+  if (
+    body.packSize !== undefined && body.packSize !== null &&
+    !isQuantity(body.packSize)
+  ) {
+    return `packSize needs a positive amount and a unit (${
+      MEASURE_UNITS.join(", ")
+    })`;
+  }
   const expiry = new Date(body.expiryDate);
   return validateExpiryDate(expiry);
 }
@@ -138,17 +197,31 @@ export function validateFuelItem(body: Record<string, any>): string | null {
 }
 
 /**
- * Gas storage box accepts fuel records only.
+ * Checks the item's space exists and accepts its category (e.g. the gas
+ * storage box only takes fuel, and fuel is only allowed there).
+ * Items without a space are treated as camp-store.
  */
-// deno-lint-ignore no-explicit-any
-export function validateGasStorageItem(
+export function validateItemSpace(
+  // deno-lint-ignore no-explicit-any
   body: Record<string, any>,
+  spaces: StorageSpace[],
 ): string | null {
-  if (body.space === "gas-storage-box" && body.category !== "fuel") {
-    return "Gas storage box can only contain fuel category items";
+  const spaceId = body.space ?? "camp-store";
+  const space = spaces.find((s) => s.id === spaceId);
+  if (!space) {
+    return `Invalid space "${spaceId}" — must be one of: ${
+      spaces.map((s) => s.id).join(", ")
+    }`;
   }
-  if (body.category === "fuel" && body.space !== "gas-storage-box") {
-    return "Fuel category items must be stored in gas-storage-box";
+  if (!space.allowedCategories.includes(body.category)) {
+    const allowedIn = spaces.filter((s) =>
+      s.allowedCategories.includes(body.category)
+    ).map((s) => s.name);
+    return allowedIn.length > 0
+      ? `${space.name} cannot hold ${body.category} items — use ${
+        allowedIn.join(" or ")
+      }`
+      : `No space accepts ${body.category} items`;
   }
   return null;
 }
@@ -0,0 +1,225 @@
+// Asset valuation — what the kit cost, what it is worth now and what it would
+// cost to replace, for the insurance schedule on /admin/insurance.
+//
+// Each category has a depreciation rule (saved in KV, editable by admins).
+// Straight-line rules write the purchase cost down evenly over the useful
+// life to a residual floor; "none" keeps items at cost. The purchase year is
+// `yearPurchased` where the category has one, otherwise the year it was added.
+//
+// Loans take their quantity off the item while it is out, so kit on loan is
+// added back before valuing — it is still ours and still needs cover. Tracked
+// units at camp already count in the item's quantity.
+// Pure functions: shared by the insurance page, its print view and CSV export.
+import type {
+  CheckOut,
+  InventoryItem,
+  ItemCategory,
+  ItemSpace,
+} from "../types/inventory.ts";
+import { ALL_CATEGORIES, isActiveLoan } from "../types/inventory.ts";
+
+export type DepreciationMethod = "straight-line" | "none";
+
+export interface DepreciationRule {
+  method: DepreciationMethod;
+  /** Years until the item reaches its residual value */
+  usefulLifeYears: number;
+  /** Floor as a percentage of purchase cost (0–100) */
+  residualPercent: number;
+}
+
+export type DepreciationPolicy = Record<ItemCategory, DepreciationRule>;
+
+const straightLine = (
+  usefulLifeYears: number,
+  residualPercent = 10,
+): DepreciationRule => ({
+  method: "straight-line",
+  usefulLifeYears,
+  residualPercent,
+});
+
+const atCost: DepreciationRule = {
+  method: "none",
+  usefulLifeYears: 0,
+  residualPercent: 100,
+};
+
+export const DEFAULT_DEPRECIATION_POLICY: DepreciationPolicy = {
+  tent: straightLine(10),
+  cooking: straightLine(10),
+  "camping-tools": straightLine(10),
+  games: straightLine(5),
+  kit: straightLine(5),
+  kilt: straightLine(15),
+  food: atCost,
+  fuel: atCost,
+};
+
+/** Saved rules over the defaults, so new categories always have one. */
+export function normalizeDepreciationPolicy(
+  saved: Partial<DepreciationPolicy> | null,
+): DepreciationPolicy {
+  return Object.fromEntries(
+    ALL_CATEGORIES.map((category) => [
+      category,
+      saved?.[category] ?? DEFAULT_DEPRECIATION_POLICY[category],
+    ]),
+  ) as DepreciationPolicy;
+}
+
+/** Year the item was bought, falling back to the year it was added. */
+export function purchaseYear(item: InventoryItem): number {
+  const year = (item as { yearPurchased?: number }).yearPurchased;
+  return year ?? new Date(item.addedDate).getFullYear();
+}
+
+/** Current value of one unit bought for `cost` in `year`. */
+export function depreciatedValue(
+  cost: number,
+  year: number,
+  rule: DepreciationRule,
+  now = new Date(),
+): number {
+  if (rule.method === "none" || rule.usefulLifeYears <= 0) return cost;
+  const age = Math.max(0, now.getFullYear() - year);
+  const floor = rule.residualPercent / 100;
+  const remaining = Math.max(floor, 1 - age / rule.usefulLifeYears);
+  return Math.round(cost * remaining * 100) / 100;
+}
+
+export interface ValuationRow {
+  item: InventoryItem;
+  /** Everything owned: in the store plus out on loan */
+  quantity: number;
+  onLoan: number;
+  purchaseYear: number;
+  /** Per-unit figures as entered; undefined when not recorded */
+  unitCost?: number;
+  unitReplacement?: number;
+  /** Totals for the whole quantity */
+  costTotal: number;
+  currentValue: number;
+  replacementTotal: number;
+  /** Neither a purchase cost nor a replacement value is recorded */
+  unvalued: boolean;
+}
+
+export interface ValuationTotals {
+  quantity: number;
+  costTotal: number;
+  currentValue: number;
+  replacementTotal: number;
+}
+
+export interface ValuationGroup {
+  space: ItemSpace;
+  category: ItemCategory;
+  rows: ValuationRow[];
+  totals: ValuationTotals;
+}
+
+/** Quantity out on active loans, by item id. */
+export function loanedQuantities(
+  checkouts: Pick<CheckOut, "itemId" | "quantity" | "status">[],
+): Map<string, number> {
+  const out = new Map<string, number>();
+  for (const loan of checkouts) {
+    if (!isActiveLoan(loan)) continue;
+    out.set(loan.itemId, (out.get(loan.itemId) ?? 0) + loan.quantity);
+  }
+  return out;
+}
+
+export function valueItem(
+  item: InventoryItem,
+  policy: DepreciationPolicy,
+  now = new Date(),
+  onLoan = 0,
+): ValuationRow {
+  const year = purchaseYear(item);
+  const quantity = item.quantity + onLoan;
+  const { purchaseCost, replacementValue } = item;
+  // Without a purchase cost, the replacement value is the best basis we have
+  const basis = purchaseCost ?? replacementValue ?? 0;
+  const replacement = replacementValue ?? purchaseCost ?? 0;
+  return {
+    item,
+    quantity,
+    onLoan,
+    purchaseYear: year,
+    unitCost: purchaseCost,
+    unitReplacement: replacementValue,
+    costTotal: (purchaseCost ?? 0) * quantity,
+    currentValue: depreciatedValue(basis, year, policy[item.category], now) *
+      quantity,
+    replacementTotal: replacement * quantity,
+    unvalued: purchaseCost === undefined && replacementValue === undefined,
+  };
+}
+
+function addTotals(totals: ValuationTotals, row: ValuationRow) {
+  totals.quantity += row.quantity;
+  totals.costTotal += row.costTotal;
+  totals.currentValue += row.currentValue;
+  totals.replacementTotal += row.replacementTotal;
+}
+
+const emptyTotals = (): ValuationTotals => ({
+  quantity: 0,
+  costTotal: 0,
+  currentValue: 0,
+  replacementTotal: 0,
+});
+
+/**
+ * Every item valued and grouped by space then category, in the order of
+ * `spaceOrder`. `onLoan` (from loanedQuantities) is added to each item's
+ * quantity; items with nothing in the store or on loan are left out.
+ */
+export function buildInsuranceSchedule(
+  items: InventoryItem[],
+  policy: DepreciationPolicy,
+  spaceOrder: ItemSpace[],
+  now = new Date(),
+  onLoan: Map<string, number> = new Map(),
+): {
+  groups: ValuationGroup[];
+  totals: ValuationTotals;
+  unvaluedCount: number;
+} {
+  const groups = new Map<string, ValuationGroup>();
+  const totals = emptyTotals();
+  let unvaluedCount = 0;
+  for (const item of items) {
+    const row = valueItem(item, policy, now, onLoan.get(item.id) ?? 0);
+    if (row.quantity <= 0) continue;
+    const space = item.space ?? "camp-store";
+    const key = `${space}|${item.category}`;
+    const group = groups.get(key) ??
+      { space, category: item.category, rows: [], totals: emptyTotals() };
+    group.rows.push(row);
+    addTotals(group.totals, row);
+    addTotals(totals, row);
+    if (row.unvalued) unvaluedCount++;
+    groups.set(key, group);
+  }
+
+  const spaceRank = (space: ItemSpace) => {
+    const i = spaceOrder.indexOf(space);
+    return i === -1 ? spaceOrder.length : i;
+  };
+  const sorted = [...groups.values()].sort((a, b) =>
+    spaceRank(a.space) - spaceRank(b.space) ||
+    ALL_CATEGORIES.indexOf(a.category) - ALL_CATEGORIES.indexOf(b.category)
+  );
+  for (const group of sorted) {
+    group.rows.sort((a, b) => a.item.name.localeCompare(b.item.name));
+  }
+  return { groups: sorted, totals, unvaluedCount };
+}
+
+/** "£1,234.50" */
+export function formatMoney(value: number): string {
+  return value.toLocaleString("en-GB", { style: "currency", currency: "GBP" });
+}
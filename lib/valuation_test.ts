@@ -0,0 +1,101 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import type { InventoryItem } from "../types/inventory.ts";
+import {
+  buildInsuranceSchedule,
+  DEFAULT_DEPRECIATION_POLICY,
+  depreciatedValue,
+  loanedQuantities,
+} from "./valuation.ts";
+
+function item(
+  id: string,
+  overrides: Partial<InventoryItem> = {},
+): InventoryItem {
+  return {
+    id,
+    name: id,
+    category: "tent",
+    space: "camp-store",
+    quantity: 2,
+    minThreshold: 0,
+    location: "Metal Shelf 1 - Slot 1",
+    addedDate: new Date("2024-01-01"),
+    lastUpdated: new Date("2024-01-01"),
+    ...overrides,
+  } as InventoryItem;
+}
+
+Deno.test("straight-line depreciation stops at the residual floor", () => {
+  const rule = {
+    method: "straight-line",
+    usefulLifeYears: 10,
+    residualPercent: 10,
+  } as const;
+  const now = new Date("2026-06-01");
+  assertEquals(depreciatedValue(200, 2026, rule, now), 200);
+  assertEquals(depreciatedValue(200, 2022, rule, now), 120);
+  assertEquals(depreciatedValue(200, 2000, rule, now), 20);
+  assertEquals(
+    depreciatedValue(200, 2000, { ...rule, method: "none" }, now),
+    200,
+  );
+});
+
+Deno.test("groups the schedule by space then category with totals", () => {
+  const { groups, totals, unvaluedCount } = buildInsuranceSchedule(
+    [
+      item("patrol", { purchaseCost: 100, replacementValue: 150 }),
+      item("beans", { category: "food", purchaseCost: 1, quantity: 10 }),
+      item("trailer-tent", { space: "trailer", replacementValue: 50 }),
+      item("old-dome", { quantity: 0, purchaseCost: 80 }),
+      item("mystery"),
+    ],
+    DEFAULT_DEPRECIATION_POLICY,
+    ["trailer", "camp-store"],
+    new Date("2026-06-01"),
+  );
+
+  assertEquals(
+    groups.map((g) => [g.space, g.category, g.rows.map((r) => r.item.id)]),
+    [
+      ["trailer", "tent", ["trailer-tent"]],
+      ["camp-store", "tent", ["mystery", "patrol"]],
+      ["camp-store", "food", ["beans"]],
+    ],
+  );
+  // patrol 2 × £80 after two years; trailer-tent valued from replacement
+  assertEquals(totals, {
+    quantity: 16,
+    costTotal: 210,
+    currentValue: 160 + 10 + 80,
+    replacementTotal: 300 + 10 + 100,
+  });
+  assertEquals(unvaluedCount, 1);
+});
+
+Deno.test("kit out on loan is still valued and listed", () => {
+  const onLoan = loanedQuantities([
+    { itemId: "gazebo", quantity: 1, status: "checked-out" },
+    { itemId: "stove", quantity: 3, status: "overdue" },
+    { itemId: "stove", quantity: 2, status: "returned" },
+    { itemId: "gazebo", quantity: 4, status: "reserved" },
+  ]);
+  const { groups, totals } = buildInsuranceSchedule(
+    [
+      item("gazebo", { quantity: 1, purchaseCost: 100 }),
+      item("stove", { category: "cooking", quantity: 0, purchaseCost: 50 }),
+    ],
+    DEFAULT_DEPRECIATION_POLICY,
+    ["camp-store"],
+    new Date("2024-06-01"),
+    onLoan,
+  );
+
+  assertEquals(
+    groups.flatMap((g) =>
+      g.rows.map((r) => [r.item.id, r.quantity, r.onLoan, r.costTotal])
+    ),
+    [["gazebo", 2, 1, 200], ["stove", 3, 3, 150]],
+  );
+  assertEquals(totals.quantity, 5);
+});
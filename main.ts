@@ -17,13 +17,21 @@ import {
 import {
   checkAndNotifyExpiry,
   checkAndNotifyFirstAidChecksDue,
+  checkAndNotifyFirstAidExpiry,
   checkAndNotifyLowStock,
   checkAndNotifyNeckersLow,
   checkAndNotifyMaintenanceDue,
   checkAndNotifyOverdueLoans,
   checkAndNotifyRiskAssessmentDue,
 } from "./lib/notifications.ts";
-import { initKv, preloadCaches } from "./db/kv.ts";
+import {
+  expireLoanReservations,
+  initKv,
+  preloadCaches,
+  recordStatsSnapshot,
+} from "./db/kv.ts";
+import { archiveOldActivity, logActivity } from "./lib/activityLog.ts";
+import { isR2Configured } from "./lib/r2Photos.ts";
 
 const STARTUP_STEP_TIMEOUT_MS = Number(
   Deno.env.get("STARTUP_STEP_TIMEOUT_MS") ?? "15000",
@@ -122,6 +130,9 @@ async function runNotifications(source: string) {
     checkAndNotifyFirstAidChecksDue().catch((e) =>
       console.error(`[${sourceTag}] notify-first-aid-checks failed:`, e)
     ),
+    checkAndNotifyFirstAidExpiry().catch((e) =>
+      console.error(`[${sourceTag}] notify-first-aid-expiry failed:`, e)
+    ),
   ]);
 }
 
@@ -143,6 +154,47 @@ if (Deno.env.get("DENO_DEPLOYMENT_ID")) {
   // cause the cron to be registered too late to fire that morning.
   Deno.cron("notify-daily", "30 8 * * 3,5", () => runNotifications("cron"));
 
+  // Nightly: release reservations nobody turned up to collect.
+  Deno.cron("expire-loan-reservations", "0 2 * * *", async () => {
+    try {
+      for (const loan of await expireLoanReservations()) {
+        await logActivity({
+          username: "system",
+          action: "loan.no_show",
+          resource: loan.itemName,
+          resourceId: loan.id,
+          details:
+            `Reservation of ${loan.quantity}× "${loan.itemName}" for ${loan.borrower} was never collected`,
+        });
+      }
+    } catch (error) {
+      console.error("[loans] Expiring reservations failed:", error);
+    }
+  });
+
+  // Nightly: snapshot the dashboard figures for /reports/trends.
+  Deno.cron("stats-snapshot", "45 23 * * *", async () => {
+    try {
+      await recordStatsSnapshot();
+    } catch (error) {
+      console.error("[trends] Stats snapshot failed:", error);
+    }
+  });
+
+  // Nightly: move activity older than 90 days to the R2 archive.
+  if (isR2Configured()) {
+    Deno.cron("archive-activity-log", "30 3 * * *", async () => {
+      try {
+        const archived = await archiveOldActivity();
+        if (archived > 0) {
+          console.log(`[activity] Archived ${archived} entries to R2`);
+        }
+      } catch (error) {
+        console.error("[activity] Archiving activity log failed:", error);
+      }
+    });
+  }
+
   if (isWeeklyInventoryBackupEnabled()) {
     Deno.cron("inventory-weekly-backup", "0 3 * * 7", async () => {
       try {
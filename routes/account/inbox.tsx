@@ -0,0 +1,132 @@
+// Inbox — alerts routed to the in-app inbox notification channel
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../components/Layout.tsx";
+import { forbidden, type Session } from "../../lib/auth.ts";
+import {
+  getInboxNotifications,
+  markInboxRead,
+} from "../../lib/notificationInbox.ts";
+import {
+  htmlToText,
+  NOTIFICATION_TYPES,
+} from "../../lib/notificationChannels.ts";
+import type { InboxNotification } from "../../types/notifications.ts";
+import { formatDateTime } from "../../lib/date-utils.ts";
+
+interface InboxPageData {
+  session: Session;
+  notifications: InboxNotification[];
+  error?: string;
+}
+
+export const handler: Handlers<InboxPageData> = {
+  async GET(_req, ctx) {
+    const session = ctx.state.session as Session;
+    if (session.role === "explorer") return forbidden();
+    return ctx.render({
+      session,
+      notifications: await getInboxNotifications(),
+    });
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session;
+    if (session.role === "explorer") return forbidden();
+    const form = await req.formData();
+
+    const csrfToken = form.get("csrf_token") as string;
+    if (!csrfToken || csrfToken !== session.csrfToken) {
+      return ctx.render({
+        session,
+        notifications: await getInboxNotifications(),
+        error: "Invalid request. Please try again.",
+      });
+    }
+
+    await markInboxRead(session.username);
+    return new Response(null, {
+      status: 303,
+      headers: { location: "/account/inbox" },
+    });
+  },
+};
+
+export default function InboxPage({ data }: PageProps<InboxPageData>) {
+  const { session, notifications, error } = data;
+  const unread =
+    notifications.filter((n) => !n.readBy.includes(session.username)).length;
+  const typeLabel = (type: InboxNotification["type"]) =>
+    NOTIFICATION_TYPES.find((t) => t.type === type)?.label ?? type;
+
+  return (
+    <Layout title="Inbox" username={session.username} role={session.role}>
+      <div class="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <p class="text-gray-600 dark:text-gray-400">
+          Alerts from the last 90 days that admins have routed to the inbox.
+        </p>
+        {unread > 0 && (
+          <form method="POST" class="self-start shrink-0">
+            <input
+              type="hidden"
+              name="csrf_token"
+              value={session.csrfToken}
+            />
+            <button
+              type="submit"
+              class="px-3 py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700"
+            >
+              Mark {unread} as read
+            </button>
+          </form>
+        )}
+      </div>
+
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+
+      {notifications.length === 0
+        ? (
+          <div class="text-center py-10 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg">
+            <div class="text-4xl mb-2">🔔</div>
+            <p class="text-gray-500 dark:text-gray-400">No alerts.</p>
+          </div>
+        )
+        : (
+          <div class="space-y-3">
+            {notifications.map((n) => {
+              const isUnread = !n.readBy.includes(session.username);
+              return (
+                <details
+                  key={n.id}
+                  class={`bg-white dark:bg-gray-800 rounded-lg shadow border ${
+                    isUnread
+                      ? "border-purple-300 dark:border-purple-700"
+                      : "border-gray-200 dark:border-gray-700"
+                  }`}
+                >
+                  <summary class="cursor-pointer px-4 py-3 flex flex-wrap items-baseline justify-between gap-2">
+                    <span
+                      class={`text-gray-800 dark:text-gray-100 ${
+                        isUnread ? "font-semibold" : ""
+                      }`}
+                    >
+                      {n.subject}
+                    </span>
+                    <span class="text-xs text-gray-500 dark:text-gray-400">
+                      {typeLabel(n.type)} · {formatDateTime(n.createdAt)}
+                    </span>
+                  </summary>
+                  <div class="px-4 pb-4 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">
+                    {htmlToText(n.html)}
+                  </div>
+                </details>
+              );
+            })}
+          </div>
+        )}
+    </Layout>
+  );
+}
@@ -1,45 +1,29 @@
-// Admin activity log page
+// Admin activity log page — filterable, paginated and exportable
 import { Handlers, PageProps } from "$fresh/server.ts";
 import Layout from "../../components/Layout.tsx";
 import {
+  ACTION_CATEGORIES,
   type ActivityEntry,
-  getRecentActivity,
+  ARCHIVE_DEFAULT_MONTHS,
+  queryActivity,
+  readActivityFilters,
 } from "../../lib/activityLog.ts";
-import type { Session } from "../../lib/auth.ts";
+import { getAllUsers, type Session } from "../../lib/auth.ts";
 
 interface ActivityPageData {
   entries: ActivityEntry[];
-  allEntries: ActivityEntry[];
   userFilter: string;
   actionFilter: string;
+  resourceFilter: string;
+  fromFilter: string;
+  toFilter: string;
+  nextCursor?: string;
+  isFirstPage: boolean;
   users: string[];
   session: Session;
 }
 
-const ACTION_CATEGORIES: { label: string; prefix: string }[] = [
-  { label: "Items", prefix: "item." },
-  { label: "Imports", prefix: "items." },
-  { label: "Camps", prefix: "camp" },
-  { label: "First Aid", prefix: "first_aid." },
-  { label: "Risk Assessments", prefix: "risk_assessment." },
-  { label: "Loans", prefix: "loan." },
-  { label: "Feedback", prefix: "feedback." },
-  { label: "Users", prefix: "user." },
-  { label: "Other", prefix: "" },
-];
-
-function matchesActionCategory(action: string, category: string): boolean {
-  if (!category) return true;
-  const cat = ACTION_CATEGORIES.find((c) => c.label === category);
-  if (!cat) return true;
-  if (cat.prefix === "") {
-    // "Other" — anything that doesn't match the other prefixes
-    return !ACTION_CATEGORIES.filter((c) => c.prefix).some((c) =>
-      action.startsWith(c.prefix)
-    );
-  }
-  return action.startsWith(cat.prefix);
-}
+const PAGE_SIZE = 100;
 
 export const handler: Handlers<ActivityPageData> = {
   async GET(_req, ctx) {
@@ -51,23 +35,19 @@ export const handler: Handlers<ActivityPageData> = {
       });
     }
     const url = new URL(_req.url);
-    const userFilter = url.searchParams.get("user")?.trim() ?? "";
-    const actionFilter = url.searchParams.get("action")?.trim() ?? "";
-    const allEntries = await getRecentActivity(500);
-    const users = [...new Set(allEntries.map((e) => e.username))].sort();
-    const filtered = allEntries.filter((e) => {
-      if (userFilter && e.username !== userFilter) return false;
-      if (actionFilter && !matchesActionCategory(e.action, actionFilter)) {
-        return false;
-      }
-      return true;
-    });
-    const entries = filtered.slice(0, 200);
+    const { query, ...filters } = readActivityFilters(url);
+    const cursor = url.searchParams.get("cursor") ?? "";
+    const [page, allUsers] = await Promise.all([
+      queryActivity(query, cursor, PAGE_SIZE),
+      getAllUsers(),
+    ]);
+    const users = [...new Set([...allUsers.map((u) => u.username), "system"])]
+      .sort();
     return ctx.render({
-      entries,
-      allEntries,
-      userFilter,
-      actionFilter,
+      entries: page.entries,
+      ...filters,
+      nextCursor: page.nextCursor,
+      isFirstPage: !cursor,
       users,
       session,
     });
@@ -103,8 +83,38 @@ function formatDate(ts: string): string {
 }
 
 export default function ActivityPage({ data }: PageProps<ActivityPageData>) {
-  const { entries, userFilter, actionFilter, users, session } = data;
-  const hasFilter = !!(userFilter || actionFilter);
+  const {
+    entries,
+    userFilter,
+    actionFilter,
+    resourceFilter,
+    fromFilter,
+    toFilter,
+    nextCursor,
+    isFirstPage,
+    users,
+    session,
+  } = data;
+  const hasFilter = !!(userFilter || actionFilter || resourceFilter ||
+    fromFilter || toFilter);
+  const filterParams = new URLSearchParams(
+    Object.entries({
+      user: userFilter,
+      action: actionFilter,
+      resource: resourceFilter,
+      from: fromFilter,
+      to: toFilter,
+    }).filter(([, value]) => value),
+  );
+  const withParams = (path: string, extra: Record<string, string> = {}) => {
+    const params = new URLSearchParams(filterParams);
+    for (const [key, value] of Object.entries(extra)) params.set(key, value);
+    const qs = params.toString();
+    return qs ? `${path}?${qs}` : path;
+  };
+  const inputClass =
+    "text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-purple-500";
+  const labelClass = "text-sm font-medium text-gray-700 dark:text-gray-300";
 
   return (
     <Layout
@@ -120,19 +130,31 @@ export default function ActivityPage({ data }: PageProps<ActivityPageData>) {
               📋 Activity Log
             </h1>
             <p class="text-sm text-gray-500 dark:text-gray-400 mt-1">
-              {hasFilter
-                ? `${entries.length} event${
-                  entries.length !== 1 ? "s" : ""
-                } matching filters`
-                : `Last ${entries.length} events (90-day rolling window)`}
+              {`${entries.length} event${entries.length !== 1 ? "s" : ""}${
+                hasFilter ? " matching filters" : ""
+              }${isFirstPage ? "" : " (older page)"}`}
             </p>
           </div>
-          <a
-            href="/admin/admin-panel"
-            class="inline-flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg transition-colors"
-          >
-            ← Back to Admin
-          </a>
+          <div class="flex flex-wrap items-center gap-2">
+            <a
+              href={withParams("/admin/export-activity", { format: "csv" })}
+              class="inline-flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg transition-colors"
+            >
+              ⬇️ CSV
+            </a>
+            <a
+              href={withParams("/admin/export-activity", { format: "json" })}
+              class="inline-flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg transition-colors"
+            >
+              ⬇️ JSON
+            </a>
+            <a
+              href="/admin/admin-panel"
+              class="inline-flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg transition-colors"
+            >
+              ← Back to Admin
+            </a>
+          </div>
         </div>
 
         {/* Filters */}
@@ -141,16 +163,13 @@ export default function ActivityPage({ data }: PageProps<ActivityPageData>) {
             method="get"
             class="flex items-center gap-x-3 gap-y-2 flex-wrap"
           >
-            <label
-              for="user-filter"
-              class="text-sm font-medium text-gray-700 dark:text-gray-300"
-            >
+            <label for="user-filter" class={labelClass}>
               User:
             </label>
             <select
               id="user-filter"
               name="user"
-              class="text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              class={inputClass}
             >
               <option value="" selected={!userFilter}>All users</option>
               {users.map((u) => (
@@ -159,16 +178,13 @@ export default function ActivityPage({ data }: PageProps<ActivityPageData>) {
                 </option>
               ))}
             </select>
-            <label
-              for="action-filter"
-              class="text-sm font-medium text-gray-700 dark:text-gray-300"
-            >
+            <label for="action-filter" class={labelClass}>
               Category:
             </label>
             <select
               id="action-filter"
               name="action"
-              class="text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              class={inputClass}
             >
               <option value="" selected={!actionFilter}>All categories</option>
               {ACTION_CATEGORIES.map((c) => (
@@ -181,6 +197,37 @@ export default function ActivityPage({ data }: PageProps<ActivityPageData>) {
                 </option>
               ))}
             </select>
+            <label for="resource-filter" class={labelClass}>
+              Resource:
+            </label>
+            <input
+              id="resource-filter"
+              name="resource"
+              type="search"
+              value={resourceFilter}
+              placeholder="Name, id or details"
+              class={inputClass}
+            />
+            <label for="from-filter" class={labelClass}>
+              From:
+            </label>
+            <input
+              id="from-filter"
+              name="from"
+              type="date"
+              value={fromFilter}
+              class={inputClass}
+            />
+            <label for="to-filter" class={labelClass}>
+              To:
+            </label>
+            <input
+              id="to-filter"
+              name="to"
+              type="date"
+              value={toFilter}
+              class={inputClass}
+            />
             <button
               type="submit"
               class="text-sm px-3 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-medium"
@@ -200,7 +247,9 @@ export default function ActivityPage({ data }: PageProps<ActivityPageData>) {
         {entries.length === 0
           ? (
             <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-10 text-center text-gray-400 dark:text-gray-500">
-              {hasFilter
+              {nextCursor
+                ? "Nothing matching in this stretch of the log — try older entries."
+                : hasFilter
                 ? "No activity found matching these filters."
                 : "No activity recorded yet."}
             </div>
@@ -288,6 +337,33 @@ export default function ActivityPage({ data }: PageProps<ActivityPageData>) {
               </ul>
             </div>
           )}
+
+        {(nextCursor || !isFirstPage) && (
+          <div class="mt-4 flex items-center justify-between text-sm">
+            {isFirstPage ? <span /> : (
+              <a
+                href={withParams("/admin/activity")}
+                class="text-purple-600 dark:text-purple-400 hover:underline"
+              >
+                ← Newest
+              </a>
+            )}
+            {nextCursor && (
+              <a
+                href={withParams("/admin/activity", { cursor: nextCursor })}
+                class="text-purple-600 dark:text-purple-400 hover:underline"
+              >
+                Older →
+              </a>
+            )}
+          </div>
+        )}
+        {!nextCursor && !fromFilter && (
+          <p class="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            Archived activity is searched back {ARCHIVE_DEFAULT_MONTHS}{" "}
+            months — set a From date to look further back.
+          </p>
+        )}
       </div>
     </Layout>
   );
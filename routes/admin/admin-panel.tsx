@@ -378,15 +378,14 @@ export default function UsersPage({ data }: PageProps<UsersPageData>) {
               🔔 Notifications
             </h2>
             <p class="text-sm text-gray-500 dark:text-gray-400 mb-4">
-              Manually trigger alert emails. Requires{" "}
-              <code class="bg-gray-100 dark:bg-gray-700 px-1 rounded text-xs">
-                RESEND_API_KEY
-              </code>{" "}
-              and{" "}
-              <code class="bg-gray-100 dark:bg-gray-700 px-1 rounded text-xs">
-                NOTIFY_EMAIL
-              </code>{" "}
-              to be configured.
+              Manually trigger alerts. They are delivered through the channels
+              set up in{" "}
+              <a
+                href="/admin/notifications"
+                class="text-purple-600 dark:text-purple-400 hover:underline"
+              >
+                notification settings
+              </a>.
             </p>
             <div class="flex flex-wrap gap-3 mb-3">
               <NotificationButtons csrfToken={csrfToken} />
@@ -447,6 +446,18 @@ export default function UsersPage({ data }: PageProps<UsersPageData>) {
               >
                 📋 Activity Log
               </a>
+              <a
+                href="/admin/locations"
+                class="inline-flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                📍 Storage Locations
+              </a>
+              <a
+                href="/admin/spaces"
+                class="inline-flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                🏢 Storage Spaces
+              </a>
             </div>
           </div>
         )}
@@ -468,6 +479,12 @@ export default function UsersPage({ data }: PageProps<UsersPageData>) {
             >
               📥 Download Inventory CSV
             </a>
+            <a
+              href="/admin/insurance"
+              class="inline-flex items-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              🛡️ Valuation &amp; Insurance
+            </a>
             {isAdmin && (
               <a
                 href="/admin/export-json"
@@ -0,0 +1,63 @@
+// GET /admin/export-activity — downloads the filtered activity log as CSV or JSON
+// Protected by routes/admin/_middleware.ts; restricted to admins like the page.
+//
+// Takes the same query string as /admin/activity plus ?format=csv|json, and
+// includes entries already moved to the R2 archive.
+import type { Handlers } from "$fresh/server.ts";
+import type { Session } from "../../lib/auth.ts";
+import { forbidden } from "../../lib/auth.ts";
+import {
+  type ActivityEntry,
+  exportActivity,
+  readActivityFilters,
+} from "../../lib/activityLog.ts";
+import { csvCell } from "../../lib/csv.ts";
+
+const HEADERS = [
+  "Timestamp",
+  "User",
+  "Action",
+  "Resource",
+  "Resource ID",
+  "Details",
+];
+
+function buildRow(entry: ActivityEntry): string {
+  return [
+    entry.timestamp,
+    entry.username,
+    entry.action,
+    entry.resource,
+    entry.resourceId,
+    entry.details,
+  ].map(csvCell).join(",");
+}
+
+export const handler: Handlers = {
+  async GET(req, ctx) {
+    const session = ctx.state.session as Session;
+    if (session.role !== "admin") return forbidden();
+
+    const url = new URL(req.url);
+    const format = url.searchParams.get("format") === "json" ? "json" : "csv";
+    const entries = await exportActivity(readActivityFilters(url).query);
+    const today = new Date().toISOString().slice(0, 10);
+    const filename = `activity-log-${today}.${format}`;
+    const headers = {
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    };
+
+    if (format === "json") {
+      return new Response(JSON.stringify(entries, null, 2), {
+        headers: { ...headers, "Content-Type": "application/json" },
+      });
+    }
+    // UTF-8 BOM (\uFEFF) tells Excel to open the file as UTF-8 without prompting
+    const csv = "\uFEFF" + HEADERS.join(",") + "\r\n" +
+      entries.map(buildRow).join("\r\n");
+    return new Response(csv, {
+      headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+    });
+  },
+};
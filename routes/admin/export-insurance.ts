@@ -0,0 +1,108 @@
+// GET /admin/export-insurance — downloads the insurance schedule as CSV
+// Protected by routes/admin/_middleware.ts
+//
+// One row per item, grouped by space then category like /admin/insurance,
+// with unit and total figures so the insurer's spreadsheet can re-total.
+import type { Handlers } from "$fresh/server.ts";
+import {
+  getAllCheckOuts,
+  getAllItems,
+  getAllStorageSpaces,
+  getDepreciationPolicy,
+} from "../../db/kv.ts";
+import { getCategoryLabel } from "../../types/inventory.ts";
+import {
+  buildInsuranceSchedule,
+  loanedQuantities,
+  type ValuationRow,
+} from "../../lib/valuation.ts";
+import { csvCell } from "../../lib/csv.ts";
+
+const money = (value: number | undefined) => value?.toFixed(2);
+
+function buildRow(space: string, row: ValuationRow): string {
+  const cols = [
+    space,
+    getCategoryLabel(row.item.category),
+    row.item.name,
+    row.quantity,
+    row.onLoan,
+    row.purchaseYear,
+    row.item.supplier,
+    money(row.unitCost),
+    money(row.unitReplacement),
+    money(row.costTotal),
+    money(row.currentValue),
+    money(row.replacementTotal),
+  ];
+  return cols.map(csvCell).join(",");
+}
+
+const HEADERS = [
+  "Space",
+  "Category",
+  "Name",
+  "Quantity",
+  "On Loan",
+  "Year Purchased",
+  "Supplier",
+  "Unit Purchase Cost",
+  "Unit Replacement Value",
+  "Purchase Cost Total",
+  "Current Value",
+  "Replacement Total",
+];
+
+export const handler: Handlers = {
+  async GET(_req, _ctx) {
+    const [items, policy, spaces, checkouts] = await Promise.all([
+      getAllItems(),
+      getDepreciationPolicy(),
+      getAllStorageSpaces(),
+      getAllCheckOuts(),
+    ]);
+    const { groups, totals } = buildInsuranceSchedule(
+      items,
+      policy,
+      spaces.map((s) => s.id),
+      new Date(),
+      loanedQuantities(checkouts),
+    );
+    const spaceNames = new Map(spaces.map((s) => [s.id, s.name]));
+
+    const dataRows = groups.flatMap((group) =>
+      group.rows.map((row) =>
+        buildRow(spaceNames.get(group.space) ?? group.space, row)
+      )
+    );
+    const totalRow = [
+      "Total",
+      "",
+      "",
+      totals.quantity,
+      "",
+      "",
+      "",
+      "",
+      "",
+      money(totals.costTotal),
+      money(totals.currentValue),
+      money(totals.replacementTotal),
+    ].map(csvCell).join(",");
+
+    const today = new Date().toISOString().slice(0, 10);
+    // UTF-8 BOM so Excel opens the file as UTF-8, as in /admin/export
+    const csv = "\uFEFF" + [HEADERS.join(","), ...dataRows, totalRow].join(
+      "\r\n",
+    );
+
+    return new Response(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition":
+          `attachment; filename="insurance-schedule-${today}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  },
+};
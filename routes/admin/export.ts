@@ -6,19 +6,7 @@
 import type { Handlers } from "$fresh/server.ts";
 import { getAllItems } from "../../db/kv.ts";
 import type { InventoryItem } from "../../types/inventory.ts";
-
-// Wrap a cell value for CSV: quote strings containing commas, quotes or newlines
-function csvCell(value: string | number | Date | undefined | null): string {
-  if (value === undefined || value === null) return "";
-  if (value instanceof Date) {
-    return isNaN(value.getTime()) ? "" : value.toISOString().slice(0, 10);
-  }
-  const str = String(value);
-  if (str.includes(",") || str.includes('"') || str.includes("\n")) {
-    return `"${str.replace(/"/g, '""')}"`;
-  }
-  return str;
-}
+import { csvCell } from "../../lib/csv.ts";
 
 function buildRow(item: InventoryItem): string {
   // deno-lint-ignore no-explicit-any
@@ -29,11 +17,23 @@ function buildRow(item: InventoryItem): string {
     item.quantity,
     item.location,
     i.yearPurchased ?? "",
+    item.purchaseCost,
+    item.replacementValue,
+    item.supplier,
   ];
   return cols.map(csvCell).join(",");
 }
 
-const HEADERS = ["Name", "Category", "Quantity", "Location", "Year Purchased"];
+const HEADERS = [
+  "Name",
+  "Category",
+  "Quantity",
+  "Location",
+  "Year Purchased",
+  "Purchase Cost",
+  "Replacement Value",
+  "Supplier",
+];
 
 export const handler: Handlers = {
   async GET(_req, _ctx) {
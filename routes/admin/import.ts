@@ -7,16 +7,27 @@
 //
 // Returns JSON: { imported: number; errors: { row: number; name?: string; error: string }[] }
 import type { Handlers } from "$fresh/server.ts";
-import { createItem } from "../../db/kv.ts";
+import {
+  createItem,
+  getAllStorageLocations,
+  getAllStorageSpaces,
+} from "../../db/kv.ts";
 import type {
   InventoryItem,
   ItemCategory,
   ItemLocation,
   ItemSpace,
   KiltComponent,
+  StorageLocation,
+  StorageSpace,
 } from "../../types/inventory.ts";
 import type { Session } from "../../lib/auth.ts";
 import { logActivity } from "../../lib/activityLog.ts";
+import {
+  validateItemLocation,
+  validateItemSpace,
+} from "../../lib/validation.ts";
+import { isQuantity } from "../../lib/units.ts";
 
 // ===== CONSTANTS =====
 
@@ -30,11 +41,6 @@ const VALID_CATEGORIES = new Set<ItemCategory>([
   "fuel",
   "kilt",
 ]);
-const VALID_SPACES = new Set<ItemSpace>([
-  "camp-store",
-  "scout-post-loft",
-  "gas-storage-box",
-]);
 
 // Required extra fields per category (beyond the base fields)
 const CATEGORY_REQUIRED: Record<ItemCategory, string[]> = {
@@ -91,6 +97,8 @@ function parseContents(
 function validateItem(
   raw: RawItem,
   index: number,
+  locations: StorageLocation[],
+  spaces: StorageSpace[],
 ): ValidationResult | ValidationError {
   const err = (msg: string): ValidationError => ({ ok: false, error: msg });
 
@@ -120,29 +128,14 @@ function validateItem(
   if (!raw.location || typeof raw.location !== "string") {
     return err(`Row ${index + 1} ("${raw.name}"): "location" is required`);
   }
-  if (raw.space !== undefined && !VALID_SPACES.has(raw.space)) {
-    return err(
-      `Row ${
-        index + 1
-      } ("${raw.name}"): invalid space "${raw.space}" — must be camp-store, scout-post-loft, or gas-storage-box`,
-    );
+  const spaceErr = validateItemSpace(raw, spaces);
+  if (spaceErr) {
+    return err(`Row ${index + 1} ("${raw.name}"): ${spaceErr}`);
   }
 
-  if (raw.space === "gas-storage-box") {
-    if (raw.category !== "fuel") {
-      return err(
-        `Row ${
-          index + 1
-        } ("${raw.name}"): gas-storage-box only accepts fuel category items`,
-      );
-    }
-  }
-  if (raw.category === "fuel" && raw.space !== "gas-storage-box") {
-    return err(
-      `Row ${
-        index + 1
-      } ("${raw.name}"): fuel items must be stored in gas-storage-box`,
-    );
+  const locationErr = validateItemLocation(raw.location, raw.space, locations);
+  if (locationErr) {
+    return err(`Row ${index + 1} ("${raw.name}"): ${locationErr}`);
   }
 
   const category = raw.category as ItemCategory;
@@ -239,6 +232,7 @@ function validateItem(
         storageRequirements: raw.storageRequirements,
         allergens: raw.allergens,
         weight: raw.weight,
+        packSize: isQuantity(raw.packSize) ? raw.packSize : undefined,
         servings: raw.servings,
       },
     };
@@ -417,9 +411,13 @@ export const handler: Handlers = {
     // Validate all rows first so we can report all errors before writing anything
     const validItems: InventoryItem[] = [];
     const errors: { row: number; name?: string; error: string }[] = [];
+    const [locations, spaces] = await Promise.all([
+      getAllStorageLocations(),
+      getAllStorageSpaces(),
+    ]);
 
     for (let i = 0; i < rows.length; i++) {
-      const result = validateItem(rows[i], i);
+      const result = validateItem(rows[i], i, locations, spaces);
       if (result.ok) {
         validItems.push(result.item);
       } else {
@@ -448,7 +446,9 @@ export const handler: Handlers = {
     for (let i = 0; i < validItems.length; i += CONCURRENCY) {
       const batch = validItems.slice(i, i + CONCURRENCY);
       const results = await Promise.allSettled(
-        batch.map((item) => createItem(item)),
+        batch.map((item) =>
+          createItem(item, { username: session.username, source: "import" })
+        ),
       );
       for (let j = 0; j < results.length; j++) {
         if (results[j].status === "fulfilled") {
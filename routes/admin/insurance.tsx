@@ -0,0 +1,375 @@
+// Admin — asset valuation, depreciation policy and the insurance schedule
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../components/Layout.tsx";
+import StatCard from "../../components/StatCard.tsx";
+import type { Session } from "../../lib/auth.ts";
+import {
+  getAllCheckOuts,
+  getAllItems,
+  getAllStorageSpaces,
+  getDepreciationPolicy,
+  saveDepreciationPolicy,
+} from "../../db/kv.ts";
+import {
+  ALL_CATEGORIES,
+  getCategoryEmoji,
+  getCategoryLabel,
+  type InventoryItem,
+} from "../../types/inventory.ts";
+import {
+  buildInsuranceSchedule,
+  type DepreciationPolicy,
+  formatMoney,
+  loanedQuantities,
+  type ValuationGroup,
+  type ValuationTotals,
+} from "../../lib/valuation.ts";
+import { logActivity } from "../../lib/activityLog.ts";
+
+interface InsurancePageData {
+  session: Session;
+  policy: DepreciationPolicy;
+  groups: ValuationGroup[];
+  totals: ValuationTotals;
+  unvalued: InventoryItem[];
+  spaceNames: Record<string, string>;
+  message?: string;
+  error?: string;
+}
+
+async function loadPageData(
+  session: Session,
+  extra: { message?: string; error?: string } = {},
+): Promise<InsurancePageData> {
+  const [items, policy, spaces, checkouts] = await Promise.all([
+    getAllItems(),
+    getDepreciationPolicy(),
+    getAllStorageSpaces(),
+    getAllCheckOuts(),
+  ]);
+  const { groups, totals } = buildInsuranceSchedule(
+    items,
+    policy,
+    spaces.map((s) => s.id),
+    new Date(),
+    loanedQuantities(checkouts),
+  );
+  return {
+    session,
+    policy,
+    groups,
+    totals,
+    unvalued: groups.flatMap((g) =>
+      g.rows.filter((r) => r.unvalued).map((r) => r.item)
+    ),
+    spaceNames: Object.fromEntries(
+      spaces.map((s) => [s.id, `${s.icon} ${s.name}`]),
+    ),
+    ...extra,
+  };
+}
+
+function readPolicy(form: FormData): DepreciationPolicy {
+  const policy = {} as DepreciationPolicy;
+  for (const category of ALL_CATEGORIES) {
+    const label = getCategoryLabel(category);
+    const method = form.get(`${category}.method`) === "straight-line"
+      ? "straight-line"
+      : "none";
+    const life = Number(form.get(`${category}.life`) || 0);
+    const residual = Number(form.get(`${category}.residual`) || 0);
+    if (method === "straight-line" && !(Number.isInteger(life) && life > 0)) {
+      throw new Error(`${label}: useful life must be a whole number of years.`);
+    }
+    if (!(residual >= 0 && residual <= 100)) {
+      throw new Error(`${label}: residual value must be 0–100%.`);
+    }
+    policy[category] = {
+      method,
+      usefulLifeYears: method === "straight-line" ? life : 0,
+      residualPercent: method === "straight-line" ? residual : 100,
+    };
+  }
+  return policy;
+}
+
+export const handler: Handlers<InsurancePageData> = {
+  async GET(_req, ctx) {
+    const session = ctx.state.session as Session;
+    return ctx.render(await loadPageData(session));
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session;
+    const form = await req.formData();
+
+    const csrfToken = form.get("csrf_token") as string;
+    if (!csrfToken || csrfToken !== session.csrfToken) {
+      return ctx.render(
+        await loadPageData(session, {
+          error: "Invalid request. Please try again.",
+        }),
+      );
+    }
+
+    try {
+      const policy = readPolicy(form);
+      await saveDepreciationPolicy(policy);
+      await logActivity({
+        username: session.username,
+        action: "depreciation.updated",
+        details: ALL_CATEGORIES
+          .filter((c) => policy[c].method === "straight-line")
+          .map((c) => `${c} ${policy[c].usefulLifeYears}y`)
+          .join(", "),
+      });
+      return ctx.render(
+        await loadPageData(session, { message: "Depreciation policy saved." }),
+      );
+    } catch (err) {
+      return ctx.render(
+        await loadPageData(session, {
+          error: err instanceof Error ? err.message : "Something went wrong.",
+        }),
+      );
+    }
+  },
+};
+
+export default function InsurancePage({ data }: PageProps<InsurancePageData>) {
+  const {
+    session,
+    policy,
+    groups,
+    totals,
+    unvalued,
+    spaceNames,
+    message,
+    error,
+  } = data;
+  const inputClass =
+    "w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded-md focus:ring-2 focus:ring-purple-500";
+  const th = "px-4 py-2 text-left";
+  const num = "px-4 py-2 text-right whitespace-nowrap";
+
+  return (
+    <Layout
+      title="Valuation & Insurance"
+      username={session.username}
+      role={session.role}
+    >
+      <div class="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <p class="text-gray-600 dark:text-gray-400">
+          Equipment values for the annual insurance schedule, from the purchase
+          cost and replacement value recorded on each item.
+        </p>
+        <div class="self-start shrink-0 flex flex-wrap gap-2">
+          <a
+            href="/admin/insurance/print"
+            class="inline-flex items-center gap-2 px-3 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+          >
+            🖨️ Printable schedule
+          </a>
+          <a
+            href="/admin/export-insurance"
+            class="inline-flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg transition-colors"
+          >
+            ⬇️ CSV
+          </a>
+          <a
+            href="/admin/admin-panel"
+            class="inline-flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg transition-colors"
+          >
+            ← Back to Admin
+          </a>
+        </div>
+      </div>
+
+      {message && (
+        <div class="mb-4 p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+
+      <div class="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-3.5 mb-6">
+        <StatCard
+          title="Replacement Value"
+          value={formatMoney(totals.replacementTotal)}
+          icon="🛡️"
+          color="purple"
+          subtitle="Sum insured, new for old"
+        />
+        <StatCard
+          title="Current Value"
+          value={formatMoney(totals.currentValue)}
+          icon="📉"
+          color="blue"
+          subtitle="After depreciation"
+        />
+        <StatCard
+          title="Purchase Cost"
+          value={formatMoney(totals.costTotal)}
+          icon="🧾"
+          color="green"
+        />
+        <StatCard
+          title="Without a Value"
+          value={unvalued.length}
+          icon="❓"
+          color={unvalued.length > 0 ? "yellow" : "green"}
+          subtitle="Items with no cost recorded"
+        />
+      </div>
+
+      {unvalued.length > 0 && (
+        <details class="mb-6 bg-amber-50 dark:bg-amber-950/40 border border-amber-200 dark:border-amber-800 rounded-lg">
+          <summary class="cursor-pointer px-4 py-3 text-sm font-medium text-amber-800 dark:text-amber-200">
+            {`${unvalued.length} item${
+              unvalued.length !== 1 ? "s" : ""
+            } with no purchase cost or replacement value`}
+          </summary>
+          <ul class="px-4 pb-3 text-sm grid sm:grid-cols-2 gap-x-6 gap-y-1">
+            {unvalued.map((item) => (
+              <li key={item.id}>
+                <a
+                  href={`/inventory/edit/${item.id}`}
+                  class="text-purple-600 dark:text-purple-400 hover:underline"
+                >
+                  {getCategoryEmoji(item.category)} {item.name}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto mb-8">
+        <table class="min-w-full text-sm divide-y divide-gray-200 dark:divide-gray-700">
+          <thead class="bg-gray-50 dark:bg-gray-900 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+            <tr>
+              <th class={th}>Space</th>
+              <th class={th}>Category</th>
+              <th class={`${th} text-right`}>Qty</th>
+              <th class={`${th} text-right`}>Purchase cost</th>
+              <th class={`${th} text-right`}>Current value</th>
+              <th class={`${th} text-right`}>Replacement</th>
+            </tr>
+          </thead>
+          <tbody class="divide-y divide-gray-100 dark:divide-gray-700 text-gray-800 dark:text-gray-100">
+            {groups.map((g) => (
+              <tr key={`${g.space}|${g.category}`}>
+                <td class="px-4 py-2">{spaceNames[g.space] ?? g.space}</td>
+                <td class="px-4 py-2">
+                  {getCategoryEmoji(g.category)} {getCategoryLabel(g.category)}
+                </td>
+                <td class={num}>{g.totals.quantity}</td>
+                <td class={num}>{formatMoney(g.totals.costTotal)}</td>
+                <td class={num}>{formatMoney(g.totals.currentValue)}</td>
+                <td class={num}>{formatMoney(g.totals.replacementTotal)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot class="bg-gray-50 dark:bg-gray-900 font-semibold text-gray-900 dark:text-gray-100">
+            <tr>
+              <td class="px-4 py-2" colspan={2}>Total</td>
+              <td class={num}>{totals.quantity}</td>
+              <td class={num}>{formatMoney(totals.costTotal)}</td>
+              <td class={num}>{formatMoney(totals.currentValue)}</td>
+              <td class={num}>{formatMoney(totals.replacementTotal)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
+        <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-1">
+          Depreciation Policy
+        </h2>
+        <p class="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Straight-line writes the purchase cost down evenly each year until it
+          reaches the residual value. Age counts from the year purchased, or the
+          year the item was added when that isn't recorded.
+        </p>
+        <form method="POST">
+          <input type="hidden" name="csrf_token" value={session.csrfToken} />
+          <div class="overflow-x-auto">
+            <table class="min-w-full text-sm">
+              <thead class="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                <tr>
+                  <th class="pr-3 py-2 text-left">Category</th>
+                  <th class="px-3 py-2 text-left">Method</th>
+                  <th class="px-3 py-2 text-left">Useful life (years)</th>
+                  <th class="px-3 py-2 text-left">Residual (%)</th>
+                </tr>
+              </thead>
+              <tbody class="text-gray-800 dark:text-gray-100">
+                {ALL_CATEGORIES.map((category) => {
+                  const rule = policy[category];
+                  return (
+                    <tr key={category}>
+                      <td class="pr-3 py-1.5 whitespace-nowrap">
+                        {getCategoryEmoji(category)}{" "}
+                        {getCategoryLabel(category)}
+                      </td>
+                      <td class="px-3 py-1.5">
+                        <select
+                          name={`${category}.method`}
+                          class={inputClass}
+                        >
+                          <option
+                            value="straight-line"
+                            selected={rule.method === "straight-line"}
+                          >
+                            Straight-line
+                          </option>
+                          <option
+                            value="none"
+                            selected={rule.method === "none"}
+                          >
+                            None (keep at cost)
+                          </option>
+                        </select>
+                      </td>
+                      <td class="px-3 py-1.5">
+                        <input
+                          type="number"
+                          name={`${category}.life`}
+                          min={1}
+                          value={rule.usefulLifeYears || ""}
+                          class={inputClass}
+                        />
+                      </td>
+                      <td class="px-3 py-1.5">
+                        <input
+                          type="number"
+                          name={`${category}.residual`}
+                          min={0}
+                          max={100}
+                          value={rule.method === "none"
+                            ? ""
+                            : rule.residualPercent}
+                          class={inputClass}
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <button
+            type="submit"
+            class="mt-4 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium rounded-lg"
+          >
+            Save policy
+          </button>
+        </form>
+      </div>
+    </Layout>
+  );
+}
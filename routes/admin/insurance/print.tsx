@@ -0,0 +1,235 @@
+// Print-optimised insurance schedule — every valued item by space and category
+import { Handlers, PageProps } from "$fresh/server.ts";
+import {
+  getCategoryEmoji,
+  getCategoryLabel,
+} from "../../../types/inventory.ts";
+import {
+  getAllCheckOuts,
+  getAllItems,
+  getAllStorageSpaces,
+  getDepreciationPolicy,
+} from "../../../db/kv.ts";
+import {
+  buildInsuranceSchedule,
+  formatMoney,
+  loanedQuantities,
+  type ValuationGroup,
+  type ValuationTotals,
+} from "../../../lib/valuation.ts";
+import PrintButton from "../../../islands/PrintButton.tsx";
+
+interface SchedulePrintData {
+  groups: ValuationGroup[];
+  totals: ValuationTotals;
+  spaceNames: Record<string, string>;
+}
+
+export const handler: Handlers<SchedulePrintData> = {
+  async GET(_req, ctx) {
+    const [items, policy, spaces, checkouts] = await Promise.all([
+      getAllItems(),
+      getDepreciationPolicy(),
+      getAllStorageSpaces(),
+      getAllCheckOuts(),
+    ]);
+    const { groups, totals } = buildInsuranceSchedule(
+      items,
+      policy,
+      spaces.map((s) => s.id),
+      new Date(),
+      loanedQuantities(checkouts),
+    );
+    return ctx.render({
+      groups,
+      totals,
+      spaceNames: Object.fromEntries(spaces.map((s) => [s.id, s.name])),
+    });
+  },
+};
+
+function TotalsRow(
+  { label, totals }: { label: string; totals: ValuationTotals },
+) {
+  return (
+    <tr class="total">
+      <td colspan={3}>{label}</td>
+      <td class="num">{totals.quantity}</td>
+      <td />
+      <td class="num">{formatMoney(totals.costTotal)}</td>
+      <td class="num">{formatMoney(totals.currentValue)}</td>
+      <td class="num">{formatMoney(totals.replacementTotal)}</td>
+    </tr>
+  );
+}
+
+export default function InsuranceSchedulePrint(
+  { data }: PageProps<SchedulePrintData>,
+) {
+  const { groups, totals, spaceNames } = data;
+  const printed = new Date().toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+  // One section per space, each with its category tables
+  const bySpace = new Map<string, ValuationGroup[]>();
+  for (const group of groups) {
+    bySpace.set(group.space, [...(bySpace.get(group.space) ?? []), group]);
+  }
+
+  return (
+    <html lang="en">
+      <head>
+        <meta charset="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <title>Insurance Schedule — {printed}</title>
+        <style>
+          {`
+          *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+          body {
+            font-family: system-ui, -apple-system, sans-serif;
+            font-size: 12px;
+            color: #111;
+            background: #f9fafb;
+            padding: 1.5rem;
+          }
+          .no-print {
+            display: flex;
+            gap: 0.75rem;
+            align-items: center;
+            margin-bottom: 1.5rem;
+            flex-wrap: wrap;
+          }
+          .btn {
+            padding: 0.4rem 1rem;
+            border-radius: 0.375rem;
+            font-size: 0.8rem;
+            font-weight: 500;
+            cursor: pointer;
+            text-decoration: none;
+            display: inline-block;
+          }
+          .btn-secondary { background: white; color: #374151; border: 1px solid #d1d5db; }
+          .btn-secondary:hover { background: #f3f4f6; }
+          .page {
+            background: white;
+            max-width: 960px;
+            margin: 0 auto;
+            padding: 2rem;
+            border: 1px solid #e5e7eb;
+          }
+          .header { margin-bottom: 1.5rem; border-bottom: 2px solid #111; padding-bottom: 0.75rem; }
+          .header h1 { font-size: 1.5rem; font-weight: 700; }
+          .header .meta { font-size: 0.8rem; color: #555; margin-top: 0.25rem; display: flex; gap: 1.5rem; flex-wrap: wrap; }
+          h2 { font-size: 1.05rem; font-weight: 700; margin: 1.5rem 0 0.25rem; }
+          h3 { font-size: 0.85rem; font-weight: 700; text-transform: uppercase; letter-spacing: 0.05em; color: #555; margin: 0.75rem 0 0.25rem; }
+          table { width: 100%; border-collapse: collapse; margin-bottom: 0.5rem; }
+          th { text-align: left; font-size: 0.7rem; font-weight: 600; color: #666; border-bottom: 1px solid #ccc; padding: 0.3rem 0.4rem; }
+          td { padding: 0.3rem 0.4rem; border-bottom: 1px solid #f0f0f0; vertical-align: top; }
+          .num { text-align: right; white-space: nowrap; }
+          th.num { text-align: right; }
+          .muted { color: #888; }
+          .total td { font-weight: 700; border-top: 1px solid #ccc; border-bottom: none; }
+          .grand { margin-top: 1.5rem; border-top: 2px solid #111; }
+          .footer { margin-top: 2rem; font-size: 0.7rem; color: #aaa; border-top: 1px solid #e5e7eb; padding-top: 0.5rem; }
+          @media print {
+            body { background: white; padding: 0; }
+            .no-print { display: none !important; }
+            .page { border: none; padding: 0; max-width: 100%; }
+            h2, h3 { break-after: avoid; }
+            tr { break-inside: avoid; }
+          }
+        `}
+        </style>
+      </head>
+      <body>
+        <div class="no-print">
+          <a href="/admin/insurance" class="btn btn-secondary">
+            ← Back to Valuation
+          </a>
+          <PrintButton label="🖨️ Print Schedule" />
+        </div>
+
+        <div class="page">
+          <div class="header">
+            <h1>🛡️ Schedule of Equipment</h1>
+            <div class="meta">
+              <span>As at {printed}</span>
+              <span>Items: {totals.quantity}</span>
+              <span>Sum insured: {formatMoney(totals.replacementTotal)}</span>
+            </div>
+          </div>
+
+          {[...bySpace.entries()].map(([space, spaceGroups]) => (
+            <div key={space}>
+              <h2>{spaceNames[space] ?? space}</h2>
+              {spaceGroups.map((group) => (
+                <div key={group.category}>
+                  <h3>
+                    {getCategoryEmoji(group.category)}{" "}
+                    {getCategoryLabel(group.category)}
+                  </h3>
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Item</th>
+                        <th>Supplier</th>
+                        <th style="width:3.5rem">Year</th>
+                        <th class="num" style="width:3rem">Qty</th>
+                        <th class="num">Unit cost</th>
+                        <th class="num">Cost</th>
+                        <th class="num">Current value</th>
+                        <th class="num">Replacement</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {group.rows.map((row) => (
+                        <tr key={row.item.id}>
+                          <td>{row.item.name}</td>
+                          <td class="muted">{row.item.supplier ?? ""}</td>
+                          <td>{row.purchaseYear}</td>
+                          <td class="num">
+                            {row.quantity}
+                            {row.onLoan > 0 && ` (${row.onLoan} on loan)`}
+                          </td>
+                          <td class="num">
+                            {row.unitCost !== undefined
+                              ? formatMoney(row.unitCost)
+                              : "—"}
+                          </td>
+                          <td class="num">{formatMoney(row.costTotal)}</td>
+                          <td class="num">{formatMoney(row.currentValue)}</td>
+                          <td class="num">
+                            {row.unvalued
+                              ? "Not valued"
+                              : formatMoney(row.replacementTotal)}
+                          </td>
+                        </tr>
+                      ))}
+                      <TotalsRow
+                        label={`${getCategoryLabel(group.category)} total`}
+                        totals={group.totals}
+                      />
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          ))}
+
+          <table class="grand">
+            <tbody>
+              <TotalsRow label="Grand total" totals={totals} />
+            </tbody>
+          </table>
+
+          <div class="footer">
+            {`Printed from 7th Whitburn Scouts Inventory · ${printed}`}
+          </div>
+        </div>
+      </body>
+    </html>
+  );
+}
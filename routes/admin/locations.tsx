@@ -0,0 +1,411 @@
+// Admin — manage the storage location registry (shelves, boxes, slots)
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../components/Layout.tsx";
+import type { Session } from "../../lib/auth.ts";
+import {
+  createStorageLocation,
+  deleteStorageLocation,
+  getAllItems,
+  getAllStorageLocations,
+  getAllStorageSpaces,
+  updateStorageLocation,
+} from "../../db/kv.ts";
+import type { StorageLocation, StorageSpace } from "../../types/inventory.ts";
+import { logActivity } from "../../lib/activityLog.ts";
+
+interface LocationsPageData {
+  locations: StorageLocation[];
+  spaces: StorageSpace[];
+  /** Number of items stored at each location name */
+  itemCounts: Record<string, number>;
+  session: Session;
+  message?: string;
+  error?: string;
+}
+
+async function loadPageData(
+  session: Session,
+  extra: { message?: string; error?: string } = {},
+): Promise<LocationsPageData> {
+  const [locations, spaces, items] = await Promise.all([
+    getAllStorageLocations(),
+    getAllStorageSpaces(),
+    getAllItems(),
+  ]);
+  const itemCounts: Record<string, number> = {};
+  for (const item of items) {
+    itemCounts[item.location] = (itemCounts[item.location] ?? 0) + 1;
+  }
+  return { locations, spaces, itemCounts, session, ...extra };
+}
+
+async function readLocationFields(form: FormData) {
+  const name = (form.get("name") as string ?? "").trim();
+  const group = (form.get("group") as string ?? "").trim();
+  const space = (form.get("space") as string ?? "").trim();
+  const sortOrder = parseInt(form.get("sortOrder") as string ?? "", 10);
+  if (!name) throw new Error("Location name is required.");
+  if (!group) throw new Error("Group is required.");
+  if (!(await getAllStorageSpaces()).some((s) => s.id === space)) {
+    throw new Error("Choose a valid space.");
+  }
+  return {
+    name,
+    group,
+    space,
+    sortOrder: Number.isFinite(sortOrder) ? sortOrder : 0,
+  };
+}
+
+export const handler: Handlers<LocationsPageData> = {
+  async GET(_req, ctx) {
+    const session = ctx.state.session as Session;
+    return ctx.render(await loadPageData(session));
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session;
+    const form = await req.formData();
+
+    const csrfToken = form.get("csrf_token") as string;
+    if (!csrfToken || csrfToken !== session.csrfToken) {
+      return ctx.render(
+        await loadPageData(session, {
+          error: "Invalid request. Please try again.",
+        }),
+      );
+    }
+
+    const action = form.get("action") as string;
+
+    try {
+      if (action === "create") {
+        const fields = await readLocationFields(form);
+        const created = await createStorageLocation(fields);
+        await logActivity({
+          username: session.username,
+          action: "location.created",
+          resource: created.name,
+          resourceId: created.id,
+          details: `${created.space} · ${created.group}`,
+        });
+        return ctx.render(
+          await loadPageData(session, {
+            message: `Location "${created.name}" added.`,
+          }),
+        );
+      }
+
+      if (action === "update") {
+        const id = form.get("id") as string ?? "";
+        const fields = await readLocationFields(form);
+        const archived = form.get("archived") === "on";
+        const updated = await updateStorageLocation(id, {
+          ...fields,
+          archived,
+        });
+        if (!updated) throw new Error("Location not found.");
+        await logActivity({
+          username: session.username,
+          action: "location.updated",
+          resource: updated.name,
+          resourceId: updated.id,
+          details: `${updated.space} · ${updated.group}${
+            updated.archived ? " · archived" : ""
+          }`,
+        });
+        return ctx.render(
+          await loadPageData(session, {
+            message: `Location "${updated.name}" saved.`,
+          }),
+        );
+      }
+
+      if (action === "delete") {
+        const id = form.get("id") as string ?? "";
+        const name = form.get("name") as string ?? "";
+        const deleted = await deleteStorageLocation(id);
+        if (!deleted) throw new Error("Location not found.");
+        await logActivity({
+          username: session.username,
+          action: "location.deleted",
+          resource: name,
+          resourceId: id,
+        });
+        return ctx.render(
+          await loadPageData(session, {
+            message: `Location "${name}" deleted.`,
+          }),
+        );
+      }
+
+      throw new Error("Unknown action.");
+    } catch (err) {
+      return ctx.render(
+        await loadPageData(session, {
+          error: err instanceof Error ? err.message : "Something went wrong.",
+        }),
+      );
+    }
+  },
+};
+
+export default function LocationsPage({ data }: PageProps<LocationsPageData>) {
+  const { locations, spaces, itemCounts, session, message, error } = data;
+  const csrfToken = session.csrfToken;
+  const existingGroups = [...new Set(locations.map((loc) => loc.group))];
+  const inputClass =
+    "w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 text-sm";
+  const labelClass = "block text-xs text-gray-600 dark:text-gray-400 mb-1";
+
+  const sections = spaces.map((space) => {
+    const inSpace = locations.filter((loc) => loc.space === space.id);
+    const groups: { group: string; locations: StorageLocation[] }[] = [];
+    for (const loc of inSpace) {
+      const existing = groups.find((g) => g.group === loc.group);
+      if (existing) existing.locations.push(loc);
+      else groups.push({ group: loc.group, locations: [loc] });
+    }
+    return { value: space.id, label: `${space.icon} ${space.name}`, groups };
+  });
+
+  return (
+    <Layout
+      title="Storage Locations"
+      username={session.username}
+      role={session.role}
+    >
+      <div class="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <p class="text-gray-600 dark:text-gray-400">
+          Shelves, boxes and slots offered when adding or moving items. Archive
+          a location to hide it from pickers without touching the items stored
+          there.
+        </p>
+        <div class="self-start shrink-0 flex gap-4 text-sm">
+          <a
+            href="/admin/spaces"
+            class="text-purple-600 dark:text-purple-400 hover:underline"
+          >
+            Manage spaces →
+          </a>
+          <a
+            href="/admin/admin-panel"
+            class="text-purple-600 dark:text-purple-400 hover:underline"
+          >
+            ← Admin Panel
+          </a>
+        </div>
+      </div>
+
+      {message && (
+        <div class="mb-4 p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+
+      <datalist id="location-groups">
+        {existingGroups.map((group) => <option key={group} value={group} />)}
+      </datalist>
+
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6 mb-8">
+        <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-3">
+          Add Location
+        </h2>
+        <form
+          method="POST"
+          class="grid grid-cols-1 md:grid-cols-12 gap-2 items-end"
+        >
+          <input type="hidden" name="csrf_token" value={csrfToken} />
+          <input type="hidden" name="action" value="create" />
+          <div class="md:col-span-3">
+            <label class={labelClass}>Space</label>
+            <select name="space" class={inputClass}>
+              {spaces.map((space) => (
+                <option key={space.id} value={space.id}>
+                  {space.icon} {space.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div class="md:col-span-3">
+            <label class={labelClass}>Group</label>
+            <input
+              name="group"
+              list="location-groups"
+              required
+              placeholder="e.g. Plastic Shelves"
+              class={inputClass}
+            />
+          </div>
+          <div class="md:col-span-3">
+            <label class={labelClass}>Name</label>
+            <input
+              name="name"
+              required
+              placeholder="e.g. Plastic Shelf 4 - Level 1"
+              class={inputClass}
+            />
+          </div>
+          <div class="md:col-span-2">
+            <label class={labelClass}>Sort order</label>
+            <input
+              type="number"
+              name="sortOrder"
+              defaultValue={String(
+                (locations.reduce((max, l) => Math.max(max, l.sortOrder), 0)) +
+                  10,
+              )}
+              class={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            class="md:col-span-1 px-3 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700"
+          >
+            Add
+          </button>
+        </form>
+      </div>
+
+      <div class="space-y-8">
+        {sections.map((section) => (
+          <section key={section.value}>
+            <h2 class="text-lg font-semibold text-gray-800 dark:text-purple-100 mb-3">
+              {section.label}
+            </h2>
+            {section.groups.length === 0 && (
+              <p class="text-sm text-gray-500 dark:text-gray-400">
+                No locations in this space yet.
+              </p>
+            )}
+            <div class="space-y-4">
+              {section.groups.map((group) => (
+                <div
+                  key={`${section.value}-${group.group}`}
+                  class="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden bg-white dark:bg-gray-800"
+                >
+                  <div class="px-3 py-2 bg-slate-800 border-b border-slate-700">
+                    <p class="text-sm font-semibold text-slate-100">
+                      {group.group}
+                    </p>
+                    <p class="text-xs text-slate-300">
+                      {group.locations.length} location{group.locations
+                          .length === 1
+                        ? ""
+                        : "s"}
+                    </p>
+                  </div>
+                  <div class="divide-y divide-gray-100 dark:divide-gray-700">
+                    {group.locations.map((loc) => {
+                      const count = itemCounts[loc.name] ?? 0;
+                      return (
+                        <div
+                          key={loc.id}
+                          class={`p-3 grid grid-cols-1 md:grid-cols-12 gap-2 items-end ${
+                            loc.archived ? "opacity-60" : ""
+                          }`}
+                        >
+                          <form
+                            method="POST"
+                            class="md:col-span-10 grid grid-cols-1 md:grid-cols-12 gap-2 items-end"
+                          >
+                            <input
+                              type="hidden"
+                              name="csrf_token"
+                              value={csrfToken}
+                            />
+                            <input type="hidden" name="action" value="update" />
+                            <input type="hidden" name="id" value={loc.id} />
+                            <input
+                              type="hidden"
+                              name="space"
+                              value={loc.space}
+                            />
+                            <div class="md:col-span-4">
+                              <label class={labelClass}>Name</label>
+                              <input
+                                name="name"
+                                value={loc.name}
+                                required
+                                class={inputClass}
+                              />
+                            </div>
+                            <div class="md:col-span-3">
+                              <label class={labelClass}>Group</label>
+                              <input
+                                name="group"
+                                value={loc.group}
+                                list="location-groups"
+                                required
+                                class={inputClass}
+                              />
+                            </div>
+                            <div class="md:col-span-2">
+                              <label class={labelClass}>Sort</label>
+                              <input
+                                type="number"
+                                name="sortOrder"
+                                value={String(loc.sortOrder)}
+                                class={inputClass}
+                              />
+                            </div>
+                            <label class="md:col-span-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 pb-1">
+                              <input
+                                type="checkbox"
+                                name="archived"
+                                checked={loc.archived}
+                                class="accent-purple-600"
+                              />
+                              Archived
+                            </label>
+                            <button
+                              type="submit"
+                              class="md:col-span-1 px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-sm"
+                            >
+                              Save
+                            </button>
+                          </form>
+                          <form
+                            method="POST"
+                            class="md:col-span-2 flex items-center gap-2"
+                          >
+                            <input
+                              type="hidden"
+                              name="csrf_token"
+                              value={csrfToken}
+                            />
+                            <input type="hidden" name="action" value="delete" />
+                            <input type="hidden" name="id" value={loc.id} />
+                            <input type="hidden" name="name" value={loc.name} />
+                            <span class="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                              {count} item{count === 1 ? "" : "s"}
+                            </span>
+                            <button
+                              type="submit"
+                              disabled={count > 0}
+                              title={count > 0
+                                ? "Move or remove the items stored here first"
+                                : "Delete this location"}
+                              class="px-2 py-1 text-sm text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded hover:bg-red-50 dark:hover:bg-red-950 disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                              Delete
+                            </button>
+                          </form>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        ))}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,604 @@
+// Admin — notification channels and which alerts go to each (admin only)
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../components/Layout.tsx";
+import { forbidden, type Session } from "../../lib/auth.ts";
+import {
+  getNotificationSettings,
+  saveNotificationSettings,
+} from "../../db/kv.ts";
+import {
+  CHANNEL_KINDS,
+  deliverNotification,
+  NOTIFICATION_TYPES,
+  OUTBOX_DIR,
+  outboxPath,
+  settingsFromEnv,
+} from "../../lib/notificationChannels.ts";
+import type {
+  NotificationChannelConfig,
+  NotificationChannelKind,
+  NotificationSettings,
+  NotificationType,
+} from "../../types/notifications.ts";
+import { logActivity } from "../../lib/activityLog.ts";
+
+interface NotificationsPageData {
+  settings: NotificationSettings;
+  /** False while routing still comes from the NOTIFY_EMAIL env vars */
+  saved: boolean;
+  outbox?: string;
+  session: Session;
+  message?: string;
+  error?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/;
+
+async function loadSettings(): Promise<
+  { settings: NotificationSettings; saved: boolean }
+> {
+  const stored = await getNotificationSettings();
+  return { settings: stored ?? settingsFromEnv(), saved: stored !== null };
+}
+
+async function loadPageData(
+  session: Session,
+  extra: { message?: string; error?: string } = {},
+): Promise<NotificationsPageData> {
+  return {
+    ...await loadSettings(),
+    outbox: Deno.env.get("NOTIFY_OUTBOX"),
+    session,
+    ...extra,
+  };
+}
+
+function isChannelKind(value: string): value is NotificationChannelKind {
+  return CHANNEL_KINDS.some((k) => k.kind === value);
+}
+
+function readChannelFields(
+  form: FormData,
+  id: string,
+  kind: NotificationChannelKind,
+): NotificationChannelConfig {
+  const text = (key: string) => (form.get(key) as string ?? "").trim();
+  const name = text("name");
+  if (!name) throw new Error("Channel name is required.");
+  if (name.length > 60) {
+    throw new Error("Channel name must be 60 characters or fewer.");
+  }
+  const recipients = () => {
+    const list = text("recipients").split(/[\s,]+/).filter(Boolean);
+    if (list.length === 0) throw new Error("Add at least one recipient.");
+    const invalid = list.find((e) => !EMAIL_PATTERN.test(e));
+    if (invalid) throw new Error(`"${invalid}" is not an email address.`);
+    return list;
+  };
+
+  switch (kind) {
+    case "resend":
+      return { id, name, kind, recipients: recipients() };
+    case "smtp": {
+      const host = text("host");
+      const port = Number(text("port") || "587");
+      if (!host) throw new Error("SMTP host is required.");
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error("SMTP port must be between 1 and 65535.");
+      }
+      const from = text("from");
+      if (from && !EMAIL_PATTERN.test(from)) {
+        throw new Error(`"${from}" is not an email address.`);
+      }
+      return {
+        id,
+        name,
+        kind,
+        host,
+        port,
+        username: text("username") || undefined,
+        from: from || undefined,
+        recipients: recipients(),
+      };
+    }
+    case "webhook": {
+      const url = text("url");
+      let protocol = "";
+      try {
+        protocol = new URL(url).protocol;
+      } catch {
+        // reported below
+      }
+      if (protocol !== "https:") {
+        throw new Error("Webhook URL must start with https://");
+      }
+      return { id, name, kind, url };
+    }
+    case "inbox":
+      return { id, name, kind };
+    case "outbox": {
+      const file = text("path");
+      const path = file ? outboxPath(file) : undefined;
+      if (path === null) {
+        throw new Error(
+          `Outbox file must be a name like alerts.jsonl — it is written to ${OUTBOX_DIR}/.`,
+        );
+      }
+      return { id, name, kind, path };
+    }
+  }
+}
+
+function describeChannel(channel: NotificationChannelConfig): string {
+  switch (channel.kind) {
+    case "resend":
+      return channel.recipients.join(", ");
+    case "smtp":
+      return `${
+        channel.recipients.join(", ")
+      } via ${channel.host}:${channel.port}`;
+    case "webhook":
+      return new URL(channel.url).host;
+    case "inbox":
+      return "Shown on the Inbox page";
+    case "outbox":
+      return channel.path ?? "Server console";
+  }
+}
+
+export const handler: Handlers<NotificationsPageData> = {
+  async GET(_req, ctx) {
+    const session = ctx.state.session as Session;
+    if (session.role !== "admin") return forbidden();
+    return ctx.render(await loadPageData(session));
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session;
+    if (session.role !== "admin") return forbidden();
+    const form = await req.formData();
+
+    const csrfToken = form.get("csrf_token") as string;
+    if (!csrfToken || csrfToken !== session.csrfToken) {
+      return ctx.render(
+        await loadPageData(session, {
+          error: "Invalid request. Please try again.",
+        }),
+      );
+    }
+
+    const action = form.get("action") as string;
+    const { settings } = await loadSettings();
+    const id = form.get("id") as string ?? "";
+    const existing = settings.channels.find((c) => c.id === id);
+
+    try {
+      if (action === "create") {
+        const kind = form.get("kind") as string ?? "";
+        if (!isChannelKind(kind)) throw new Error("Choose a channel type.");
+        const channel = readChannelFields(form, crypto.randomUUID(), kind);
+        await saveNotificationSettings({
+          ...settings,
+          channels: [...settings.channels, channel],
+        });
+        await logActivity({
+          username: session.username,
+          action: "notifications.updated",
+          resource: channel.name,
+          resourceId: channel.id,
+          details: `Added ${channel.kind} channel`,
+        });
+        return ctx.render(
+          await loadPageData(session, {
+            message:
+              `Channel "${channel.name}" added — tick the alerts it should receive below.`,
+          }),
+        );
+      }
+
+      if (action === "update") {
+        if (!existing) throw new Error("Channel not found.");
+        const channel = readChannelFields(form, id, existing.kind);
+        await saveNotificationSettings({
+          ...settings,
+          channels: settings.channels.map((c) => c.id === id ? channel : c),
+        });
+        await logActivity({
+          username: session.username,
+          action: "notifications.updated",
+          resource: channel.name,
+          resourceId: id,
+          details: "Channel updated",
+        });
+        return ctx.render(
+          await loadPageData(session, {
+            message: `Channel "${channel.name}" saved.`,
+          }),
+        );
+      }
+
+      if (action === "delete") {
+        if (!existing) throw new Error("Channel not found.");
+        const routes: NotificationSettings["routes"] = {};
+        for (const [type, ids] of Object.entries(settings.routes)) {
+          routes[type as NotificationType] = ids.filter((c) => c !== id);
+        }
+        await saveNotificationSettings({
+          channels: settings.channels.filter((c) => c.id !== id),
+          routes,
+        });
+        await logActivity({
+          username: session.username,
+          action: "notifications.updated",
+          resource: existing.name,
+          resourceId: id,
+          details: "Channel deleted",
+        });
+        return ctx.render(
+          await loadPageData(session, {
+            message: `Channel "${existing.name}" deleted.`,
+          }),
+        );
+      }
+
+      if (action === "routes") {
+        const channelIds = new Set(settings.channels.map((c) => c.id));
+        const routes: NotificationSettings["routes"] = {};
+        for (const { type } of NOTIFICATION_TYPES) {
+          routes[type] = form.getAll(`route-${type}`)
+            .map(String)
+            .filter((c) => channelIds.has(c));
+        }
+        await saveNotificationSettings({ ...settings, routes });
+        await logActivity({
+          username: session.username,
+          action: "notifications.updated",
+          details: "Alert routing updated",
+        });
+        return ctx.render(
+          await loadPageData(session, { message: "Alert routing saved." }),
+        );
+      }
+
+      if (action === "test") {
+        if (!existing) throw new Error("Channel not found.");
+        const type = NOTIFICATION_TYPES.find(({ type }) =>
+          settings.routes[type]?.includes(id)
+        )?.type ?? "LOW_STOCK";
+        const result = await deliverNotification({
+          type,
+          subject: "🔔 7th Whitburn Scouts: test notification",
+          html:
+            `<h2 style="color:#7c3aed">🔔 Test Notification</h2><p>Sent by ${session.username} from the notification settings page.</p>`,
+        }, [existing]);
+        if (result.failed.length > 0) {
+          throw new Error(result.failed[0].error);
+        }
+        return ctx.render(
+          await loadPageData(session, {
+            message: `Test sent through "${existing.name}".`,
+          }),
+        );
+      }
+
+      throw new Error("Unknown action.");
+    } catch (err) {
+      return ctx.render(
+        await loadPageData(session, {
+          error: err instanceof Error ? err.message : "Something went wrong.",
+        }),
+      );
+    }
+  },
+};
+
+function ChannelFields(
+  { kind, channel }: {
+    kind: NotificationChannelKind;
+    channel?: NotificationChannelConfig;
+  },
+) {
+  const inputClass =
+    "w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 text-sm";
+  const labelClass = "block text-xs text-gray-600 dark:text-gray-400 mb-1";
+  const recipients = channel && "recipients" in channel
+    ? channel.recipients.join(", ")
+    : "";
+
+  return (
+    <div class="grid grid-cols-1 md:grid-cols-2 gap-2">
+      <div>
+        <label class={labelClass}>Name *</label>
+        <input
+          name="name"
+          required
+          maxLength={60}
+          value={channel?.name ?? ""}
+          class={inputClass}
+        />
+      </div>
+      {(kind === "resend" || kind === "smtp") && (
+        <div>
+          <label class={labelClass}>Recipients * (comma separated)</label>
+          <input
+            name="recipients"
+            required
+            value={recipients}
+            placeholder="leader@example.com, qm@example.com"
+            class={inputClass}
+          />
+        </div>
+      )}
+      {kind === "smtp" && (
+        <>
+          <div>
+            <label class={labelClass}>Host *</label>
+            <input
+              name="host"
+              required
+              value={channel?.kind === "smtp" ? channel.host : ""}
+              placeholder="smtp.example.com"
+              class={inputClass}
+            />
+          </div>
+          <div>
+            <label class={labelClass}>Port (465 = TLS, else STARTTLS)</label>
+            <input
+              name="port"
+              type="number"
+              min={1}
+              max={65535}
+              value={channel?.kind === "smtp" ? channel.port : 587}
+              class={inputClass}
+            />
+          </div>
+          <div>
+            <label class={labelClass}>
+              Username (password from SMTP_PASSWORD)
+            </label>
+            <input
+              name="username"
+              value={channel?.kind === "smtp" ? channel.username ?? "" : ""}
+              class={inputClass}
+            />
+          </div>
+          <div>
+            <label class={labelClass}>From address</label>
+            <input
+              name="from"
+              value={channel?.kind === "smtp" ? channel.from ?? "" : ""}
+              placeholder="Defaults to NOTIFY_FROM_EMAIL"
+              class={inputClass}
+            />
+          </div>
+        </>
+      )}
+      {kind === "webhook" && (
+        <div>
+          <label class={labelClass}>URL *</label>
+          <input
+            name="url"
+            type="url"
+            required
+            value={channel?.kind === "webhook" ? channel.url : ""}
+            placeholder="https://hooks.example.com/…"
+            class={inputClass}
+          />
+        </div>
+      )}
+      {kind === "outbox" && (
+        <div>
+          <label class={labelClass}>
+            File in {OUTBOX_DIR}/ (blank = server console)
+          </label>
+          <input
+            name="path"
+            value={channel?.kind === "outbox"
+              ? channel.path?.replace(`${OUTBOX_DIR}/`, "") ?? ""
+              : ""}
+            placeholder="notifications.jsonl"
+            class={inputClass}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function NotificationsPage(
+  { data }: PageProps<NotificationsPageData>,
+) {
+  const { settings, saved, outbox, session, message, error } = data;
+  const csrfToken = session.csrfToken;
+  const kindLabel = (kind: NotificationChannelKind) =>
+    CHANNEL_KINDS.find((k) => k.kind === kind)?.label ?? kind;
+
+  return (
+    <Layout
+      title="Notification Settings"
+      username={session.username}
+      role={session.role}
+    >
+      <div class="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <p class="text-gray-600 dark:text-gray-400">
+          Where alerts are delivered. Add channels, then choose which alerts
+          each one receives.
+        </p>
+        <a
+          href="/admin/admin-panel"
+          class="self-start shrink-0 text-sm text-purple-600 dark:text-purple-400 hover:underline"
+        >
+          ← Admin Panel
+        </a>
+      </div>
+
+      {message && (
+        <div class="mb-4 p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+      {outbox && (
+        <div class="mb-4 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 rounded text-sm">
+          NOTIFY_OUTBOX is set — every alert goes to{" "}
+          {outbox === "console" ? "the server console" : outbox}{" "}
+          and the routing below is ignored.
+        </div>
+      )}
+      {!saved && (
+        <div class="mb-4 p-3 bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-200 rounded text-sm">
+          Routing below comes from the NOTIFY_EMAIL environment variables. Any
+          change here is saved to the database and replaces them.
+        </div>
+      )}
+
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6 mb-8">
+        <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-3">
+          Alert Routing
+        </h2>
+        {settings.channels.length === 0
+          ? (
+            <p class="text-sm text-gray-500 dark:text-gray-400">
+              No channels yet — alerts are only written to the server log.
+            </p>
+          )
+          : (
+            <form method="POST">
+              <input type="hidden" name="csrf_token" value={csrfToken} />
+              <input type="hidden" name="action" value="routes" />
+              <div class="overflow-x-auto">
+                <table class="w-full text-sm">
+                  <thead class="text-left text-gray-600 dark:text-gray-400">
+                    <tr>
+                      <th class="py-2 pr-4 font-medium">Alert</th>
+                      {settings.channels.map((channel) => (
+                        <th
+                          key={channel.id}
+                          class="py-2 px-2 font-medium text-center"
+                        >
+                          {channel.name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody class="divide-y divide-gray-100 dark:divide-gray-700">
+                    {NOTIFICATION_TYPES.map(({ type, label }) => (
+                      <tr key={type}>
+                        <td class="py-2 pr-4 text-gray-800 dark:text-gray-200">
+                          {label}
+                        </td>
+                        {settings.channels.map((channel) => (
+                          <td key={channel.id} class="py-2 px-2 text-center">
+                            <input
+                              type="checkbox"
+                              name={`route-${type}`}
+                              value={channel.id}
+                              checked={settings.routes[type]?.includes(
+                                channel.id,
+                              )}
+                              aria-label={`${label} → ${channel.name}`}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <button
+                type="submit"
+                class="mt-3 px-3 py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700"
+              >
+                Save Routing
+              </button>
+            </form>
+          )}
+      </div>
+
+      <div class="space-y-4 mb-8">
+        {settings.channels.map((channel) => (
+          <div
+            key={channel.id}
+            class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5"
+          >
+            <div class="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+              <h3 class="font-semibold text-gray-800 dark:text-gray-100">
+                {channel.name}
+                <span class="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                  {kindLabel(channel.kind)} · {describeChannel(channel)}
+                </span>
+              </h3>
+            </div>
+            <form method="POST">
+              <input type="hidden" name="csrf_token" value={csrfToken} />
+              <input type="hidden" name="id" value={channel.id} />
+              <ChannelFields kind={channel.kind} channel={channel} />
+              <div class="mt-3 flex flex-wrap gap-2">
+                <button
+                  type="submit"
+                  name="action"
+                  value="update"
+                  class="px-3 py-1.5 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700"
+                >
+                  Save
+                </button>
+                <button
+                  type="submit"
+                  name="action"
+                  value="test"
+                  formNoValidate
+                  class="px-3 py-1.5 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 text-sm rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  Send Test
+                </button>
+                <button
+                  type="submit"
+                  name="action"
+                  value="delete"
+                  formNoValidate
+                  class="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:underline"
+                >
+                  Delete
+                </button>
+              </div>
+            </form>
+          </div>
+        ))}
+      </div>
+
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
+        <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-3">
+          Add Channel
+        </h2>
+        <div class="space-y-2">
+          {CHANNEL_KINDS.map(({ kind, label }) => (
+            <details
+              key={kind}
+              class="border border-gray-200 dark:border-gray-700 rounded-md"
+            >
+              <summary class="cursor-pointer px-3 py-2 text-sm font-medium text-gray-800 dark:text-gray-200">
+                {label}
+              </summary>
+              <form method="POST" class="px-3 pb-3">
+                <input type="hidden" name="csrf_token" value={csrfToken} />
+                <input type="hidden" name="action" value="create" />
+                <input type="hidden" name="kind" value={kind} />
+                <ChannelFields kind={kind} />
+                <button
+                  type="submit"
+                  class="mt-3 px-3 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700"
+                >
+                  Add {label}
+                </button>
+              </form>
+            </details>
+          ))}
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -1,10 +1,11 @@
-// POST /admin/notify — manually trigger notification emails
+// POST /admin/notify — manually trigger notification checks
 import type { Handlers } from "$fresh/server.ts";
 import type { Session } from "../../lib/auth.ts";
 import { csrfFailed, csrfOk, forbidden } from "../../lib/auth.ts";
 import {
   checkAndNotifyExpiry,
   checkAndNotifyFirstAidChecksDue,
+  checkAndNotifyFirstAidExpiry,
   checkAndNotifyLowStock,
   checkAndNotifyMaintenanceDue,
   checkAndNotifyNeckersLow,
@@ -31,7 +32,7 @@ export const handler: Handlers = {
         return Response.json({
           ok: true,
           message:
-            "Low stock check complete — email sent if any items are below threshold.",
+            "Low stock check complete — alert sent if any items are below threshold.",
         });
       }
       if (type === "neckers") {
@@ -39,7 +40,7 @@ export const handler: Handlers = {
         return Response.json({
           ok: true,
           message:
-            "Necker check complete — email sent if stock is below threshold.",
+            "Necker check complete — alert sent if stock is below threshold.",
         });
       }
       if (type === "expiry") {
@@ -47,7 +48,7 @@ export const handler: Handlers = {
         return Response.json({
           ok: true,
           message:
-            "Expiry check complete — email sent if any items expire within 30 days.",
+            "Expiry check complete — alert sent if any items expire within 30 days.",
         });
       }
       if (type === "overdue-loans") {
@@ -55,7 +56,7 @@ export const handler: Handlers = {
         return Response.json({
           ok: true,
           message:
-            "Overdue loans check complete — email sent if any loans are overdue.",
+            "Overdue loans check complete — alert sent if any loans are overdue.",
         });
       }
       if (type === "maintenance") {
@@ -63,7 +64,7 @@ export const handler: Handlers = {
         return Response.json({
           ok: true,
           message:
-            "Maintenance check complete — email sent if any items are due for inspection.",
+            "Maintenance check complete — alert sent if any items are due for inspection.",
         });
       }
       if (type === "risk-assessments") {
@@ -71,7 +72,7 @@ export const handler: Handlers = {
         return Response.json({
           ok: true,
           message:
-            "Risk assessment check complete — email sent if any assessments need annual review.",
+            "Risk assessment check complete — alert sent if any assessments need annual review.",
         });
       }
       if (type === "first-aid-checks") {
@@ -79,7 +80,15 @@ export const handler: Handlers = {
         return Response.json({
           ok: true,
           message:
-            "First aid check complete — email sent if any kits are overdue for checking.",
+            "First aid check complete — alert sent if any kits are overdue for checking.",
+        });
+      }
+      if (type === "first-aid-expiry") {
+        await checkAndNotifyFirstAidExpiry();
+        return Response.json({
+          ok: true,
+          message:
+            "First aid expiry check complete — alert sent if any kit contents expire within 30 days.",
         });
       }
       // No type — run all
@@ -90,9 +99,10 @@ export const handler: Handlers = {
       await checkAndNotifyMaintenanceDue();
       await checkAndNotifyRiskAssessmentDue();
       await checkAndNotifyFirstAidChecksDue();
+      await checkAndNotifyFirstAidExpiry();
       return Response.json({
         ok: true,
-        message: "All checks complete — emails sent where thresholds are met.",
+        message: "All checks complete — alerts sent where thresholds are met.",
       });
     } catch (err) {
       console.error("[admin/notify] Error:", err);
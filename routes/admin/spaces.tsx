@@ -0,0 +1,371 @@
+// Admin — manage storage spaces (camp store, loft, garages, containers...)
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../components/Layout.tsx";
+import type { Session } from "../../lib/auth.ts";
+import {
+  createStorageSpace,
+  deleteStorageSpace,
+  getAllItems,
+  getAllStorageLocations,
+  getAllStorageSpaces,
+  updateStorageSpace,
+} from "../../db/kv.ts";
+import {
+  ALL_CATEGORIES,
+  getCategoryEmoji,
+  getCategoryLabel,
+  type ItemCategory,
+  type StorageSpace,
+} from "../../types/inventory.ts";
+import { logActivity } from "../../lib/activityLog.ts";
+
+interface SpacesPageData {
+  spaces: StorageSpace[];
+  /** Number of items stored in each space */
+  itemCounts: Record<string, number>;
+  /** Number of registered locations in each space */
+  locationCounts: Record<string, number>;
+  session: Session;
+  message?: string;
+  error?: string;
+}
+
+async function loadPageData(
+  session: Session,
+  extra: { message?: string; error?: string } = {},
+): Promise<SpacesPageData> {
+  const [spaces, locations, items] = await Promise.all([
+    getAllStorageSpaces(),
+    getAllStorageLocations(),
+    getAllItems(),
+  ]);
+  const itemCounts: Record<string, number> = {};
+  for (const item of items) {
+    const space = item.space ?? "camp-store";
+    itemCounts[space] = (itemCounts[space] ?? 0) + 1;
+  }
+  const locationCounts: Record<string, number> = {};
+  for (const loc of locations) {
+    locationCounts[loc.space] = (locationCounts[loc.space] ?? 0) + 1;
+  }
+  return { spaces, itemCounts, locationCounts, session, ...extra };
+}
+
+function readSpaceFields(form: FormData) {
+  const text = (key: string) => (form.get(key) as string ?? "").trim();
+  const name = text("name");
+  const sortOrder = parseInt(text("sortOrder"), 10);
+  const allowedCategories = form.getAll("allowedCategories")
+    .map(String)
+    .filter((c): c is ItemCategory => (ALL_CATEGORIES as string[]).includes(c));
+  if (!name) throw new Error("Space name is required.");
+  if (allowedCategories.length === 0) {
+    throw new Error("Choose at least one category for this space.");
+  }
+  return {
+    name,
+    icon: text("icon") || "📦",
+    description: text("description") || undefined,
+    allowedCategories,
+    address: text("address") || undefined,
+    notes: text("notes") || undefined,
+    sortOrder: Number.isFinite(sortOrder) ? sortOrder : 0,
+  };
+}
+
+export const handler: Handlers<SpacesPageData> = {
+  async GET(_req, ctx) {
+    const session = ctx.state.session as Session;
+    return ctx.render(await loadPageData(session));
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session;
+    const form = await req.formData();
+
+    const csrfToken = form.get("csrf_token") as string;
+    if (!csrfToken || csrfToken !== session.csrfToken) {
+      return ctx.render(
+        await loadPageData(session, {
+          error: "Invalid request. Please try again.",
+        }),
+      );
+    }
+
+    const action = form.get("action") as string;
+
+    try {
+      if (action === "create") {
+        const created = await createStorageSpace(readSpaceFields(form));
+        await logActivity({
+          username: session.username,
+          action: "space.created",
+          resource: created.name,
+          resourceId: created.id,
+          details: `${created.allowedCategories.length} categories`,
+        });
+        return ctx.render(
+          await loadPageData(session, {
+            message: `Space "${created.name}" added.`,
+          }),
+        );
+      }
+
+      if (action === "update") {
+        const id = form.get("id") as string ?? "";
+        const updated = await updateStorageSpace(id, readSpaceFields(form));
+        if (!updated) throw new Error("Space not found.");
+        await logActivity({
+          username: session.username,
+          action: "space.updated",
+          resource: updated.name,
+          resourceId: updated.id,
+          details: `${updated.allowedCategories.length} categories`,
+        });
+        return ctx.render(
+          await loadPageData(session, {
+            message: `Space "${updated.name}" saved.`,
+          }),
+        );
+      }
+
+      if (action === "delete") {
+        const id = form.get("id") as string ?? "";
+        const name = form.get("name") as string ?? "";
+        const deleted = await deleteStorageSpace(id);
+        if (!deleted) throw new Error("Space not found.");
+        await logActivity({
+          username: session.username,
+          action: "space.deleted",
+          resource: name,
+          resourceId: id,
+        });
+        return ctx.render(
+          await loadPageData(session, {
+            message: `Space "${name}" deleted.`,
+          }),
+        );
+      }
+
+      throw new Error("Unknown action.");
+    } catch (err) {
+      return ctx.render(
+        await loadPageData(session, {
+          error: err instanceof Error ? err.message : "Something went wrong.",
+        }),
+      );
+    }
+  },
+};
+
+function SpaceFields(
+  { space, inputClass, labelClass }: {
+    space?: StorageSpace;
+    inputClass: string;
+    labelClass: string;
+  },
+) {
+  const allowed = new Set<string>(space?.allowedCategories ?? []);
+  return (
+    <>
+      <div class="grid grid-cols-1 md:grid-cols-12 gap-2">
+        <div class="md:col-span-2">
+          <label class={labelClass}>Icon</label>
+          <input
+            name="icon"
+            value={space?.icon ?? "📦"}
+            maxLength={4}
+            class={inputClass}
+          />
+        </div>
+        <div class="md:col-span-5">
+          <label class={labelClass}>Name</label>
+          <input
+            name="name"
+            value={space?.name ?? ""}
+            required
+            placeholder="e.g. Leader's Garage"
+            class={inputClass}
+          />
+        </div>
+        <div class="md:col-span-3">
+          <label class={labelClass}>Address</label>
+          <input
+            name="address"
+            value={space?.address ?? ""}
+            placeholder="Optional"
+            class={inputClass}
+          />
+        </div>
+        <div class="md:col-span-2">
+          <label class={labelClass}>Sort order</label>
+          <input
+            type="number"
+            name="sortOrder"
+            value={String(space?.sortOrder ?? 0)}
+            class={inputClass}
+          />
+        </div>
+        <div class="md:col-span-6">
+          <label class={labelClass}>Description</label>
+          <input
+            name="description"
+            value={space?.description ?? ""}
+            class={inputClass}
+          />
+        </div>
+        <div class="md:col-span-6">
+          <label class={labelClass}>Notes (access, keys, contact)</label>
+          <input name="notes" value={space?.notes ?? ""} class={inputClass} />
+        </div>
+      </div>
+      <fieldset class="mt-3">
+        <legend class={labelClass}>Allowed categories</legend>
+        <div class="flex flex-wrap gap-x-4 gap-y-1">
+          {ALL_CATEGORIES.map((category) => (
+            <label
+              key={category}
+              class="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300"
+            >
+              <input
+                type="checkbox"
+                name="allowedCategories"
+                value={category}
+                checked={allowed.has(category)}
+                class="accent-purple-600"
+              />
+              {getCategoryEmoji(category)} {getCategoryLabel(category)}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+    </>
+  );
+}
+
+export default function SpacesPage({ data }: PageProps<SpacesPageData>) {
+  const { spaces, itemCounts, locationCounts, session, message, error } = data;
+  const csrfToken = session.csrfToken;
+  const inputClass =
+    "w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 text-sm";
+  const labelClass = "block text-xs text-gray-600 dark:text-gray-400 mb-1";
+
+  return (
+    <Layout
+      title="Storage Spaces"
+      username={session.username}
+      role={session.role}
+    >
+      <div class="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <p class="text-gray-600 dark:text-gray-400">
+          Buildings, boxes and lock-ups where kit is kept. Each space decides
+          which categories may be stored there; its shelves and boxes are
+          managed on the locations page.
+        </p>
+        <div class="self-start shrink-0 flex gap-4 text-sm">
+          <a
+            href="/admin/locations"
+            class="text-purple-600 dark:text-purple-400 hover:underline"
+          >
+            Manage locations →
+          </a>
+          <a
+            href="/admin/admin-panel"
+            class="text-purple-600 dark:text-purple-400 hover:underline"
+          >
+            ← Admin Panel
+          </a>
+        </div>
+      </div>
+
+      {message && (
+        <div class="mb-4 p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+
+      <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6 mb-8">
+        <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-3">
+          Add Space
+        </h2>
+        <form method="POST">
+          <input type="hidden" name="csrf_token" value={csrfToken} />
+          <input type="hidden" name="action" value="create" />
+          <SpaceFields inputClass={inputClass} labelClass={labelClass} />
+          <button
+            type="submit"
+            class="mt-3 px-3 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700"
+          >
+            Add Space
+          </button>
+        </form>
+      </div>
+
+      <div class="space-y-4">
+        {spaces.map((space) => {
+          const count = itemCounts[space.id] ?? 0;
+          const locCount = locationCounts[space.id] ?? 0;
+          const inUse = count > 0 || locCount > 0;
+          return (
+            <div
+              key={space.id}
+              class="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden bg-white dark:bg-gray-800"
+            >
+              <div class="px-3 py-2 bg-slate-800 border-b border-slate-700 flex items-center justify-between gap-3">
+                <p class="text-sm font-semibold text-slate-100">
+                  {space.icon} {space.name}
+                  <span class="ml-2 text-xs font-normal text-slate-400">
+                    {space.id}
+                  </span>
+                </p>
+                <p class="text-xs text-slate-300">
+                  {count} item{count === 1 ? "" : "s"} · {locCount}{" "}
+                  location{locCount === 1 ? "" : "s"}
+                </p>
+              </div>
+              <div class="p-3">
+                <form method="POST">
+                  <input type="hidden" name="csrf_token" value={csrfToken} />
+                  <input type="hidden" name="action" value="update" />
+                  <input type="hidden" name="id" value={space.id} />
+                  <SpaceFields
+                    space={space}
+                    inputClass={inputClass}
+                    labelClass={labelClass}
+                  />
+                  <button
+                    type="submit"
+                    class="mt-3 px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-sm"
+                  >
+                    Save
+                  </button>
+                </form>
+                <form method="POST" class="mt-2">
+                  <input type="hidden" name="csrf_token" value={csrfToken} />
+                  <input type="hidden" name="action" value="delete" />
+                  <input type="hidden" name="id" value={space.id} />
+                  <input type="hidden" name="name" value={space.name} />
+                  <button
+                    type="submit"
+                    disabled={inUse}
+                    title={inUse
+                      ? "Move its items and remove its locations first"
+                      : "Delete this space"}
+                    class="px-2 py-1 text-sm text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded hover:bg-red-50 dark:hover:bg-red-950 disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Delete
+                  </button>
+                </form>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Layout>
+  );
+}
@@ -1,12 +1,18 @@
 // API route for individual camp plans
 import { Handlers } from "$fresh/server.ts";
 import {
+  consumeFoodStock,
   deleteCampPlan,
+  getAllCampPlans,
+  getAllCheckOuts,
   getCampPlanById,
   getItemById,
   rebuildComputedStats,
+  restoreFoodStock,
+  setItemUnitsStatus,
   updateCampPlan,
   updateItem,
+  validateUnitSelection,
 } from "../../../db/kv.ts";
 import {
   csrfFailed,
@@ -14,12 +20,31 @@ import {
   forbidden,
   type Session,
 } from "../../../lib/auth.ts";
-import type { CampPlanItem } from "../../../types/inventory.ts";
+import {
+  campDays,
+  loansReturningBefore,
+  reservationsForCamp,
+  totalReserved,
+} from "../../../lib/campReservations.ts";
+import type {
+  CampPlan,
+  CampPlanItem,
+  ItemChangeContext,
+} from "../../../types/inventory.ts";
+
+/** Units of a plan entry that are currently out at camp. */
+function unitsAtCamp(entry: CampPlanItem | undefined): string[] {
+  return entry?.packedStatus && !entry.returnedStatus
+    ? entry.unitIds ?? []
+    : [];
+}
 
 /**
  * Apply inventory side effects when a camp plan's items list changes.
- * - Food items: deduct quantity from inventory when packed; restore when unpacked or removed.
+ * - Food items: deduct quantity from inventory when packed, first-expiring lot
+ *   first; restore to the same lots when unpacked or removed.
  * - Non-food items: set atCamp=true when packed; set atCamp=false when returned or removed.
+ * - Tracked units: mark the entry's units at camp while packed, back in store otherwise.
  *
  * Side effects are applied sequentially because each updateItem call also rewrites
  * shared computed stats.
@@ -28,12 +53,21 @@ import type { CampPlanItem } from "../../../types/inventory.ts";
 async function applyItemSideEffects(
   oldItems: CampPlanItem[],
   newItems: CampPlanItem[],
+  context: ItemChangeContext,
 ): Promise<void> {
   const oldMap = new Map(oldItems.map((i) => [i.itemId, i]));
   const newMap = new Map(newItems.map((i) => [i.itemId, i]));
 
   const tasks: Array<() => Promise<unknown>> = [];
 
+  // Batch allocations are recorded here, never taken from the client
+  for (const newItem of newItems) {
+    const old = oldMap.get(newItem.itemId);
+    newItem.batchAllocations = old?.packedStatus
+      ? old.batchAllocations
+      : undefined;
+  }
+
   // Items removed from the plan
   for (const [itemId, old] of oldMap) {
     if (newMap.has(itemId)) {
@@ -42,20 +76,19 @@ async function applyItemSideEffects(
     if (old.itemCategory === "food" && old.packedStatus) {
       // Restore food quantity that was previously deducted
       tasks.push(() =>
-        getItemById(itemId).then((inv) => {
-          if (inv) {
-            return updateItem(itemId, {
-              quantity: inv.quantity + old.quantityPlanned,
-            });
-          }
-        })
+        restoreFoodStock(
+          itemId,
+          old.quantityPlanned,
+          old.batchAllocations,
+          context,
+        )
       );
     } else if (
       old.itemCategory !== "food" && old.packedStatus && !old.returnedStatus
     ) {
       // Gear removed while still at camp — mark as returned to store
       tasks.push(() =>
-        updateItem(itemId, { atCamp: false, quantityAtCamp: 0 })
+        updateItem(itemId, { atCamp: false, quantityAtCamp: 0 }, context)
       );
     }
   }
@@ -70,25 +103,22 @@ async function applyItemSideEffects(
     if (newItem.itemCategory === "food") {
       if (!old.packedStatus && newItem.packedStatus) {
         // Food packed → deduct from inventory
-        tasks.push(() =>
-          getItemById(itemId).then((inv) => {
-            if (inv) {
-              return updateItem(itemId, {
-                quantity: Math.max(0, inv.quantity - newItem.quantityPlanned),
-              });
-            }
-          })
-        );
+        tasks.push(async () => {
+          newItem.batchAllocations = await consumeFoodStock(
+            itemId,
+            newItem.quantityPlanned,
+            context,
+          );
+        });
       } else if (old.packedStatus && !newItem.packedStatus) {
         // Food unpacked → restore quantity
         tasks.push(() =>
-          getItemById(itemId).then((inv) => {
-            if (inv) {
-              return updateItem(itemId, {
-                quantity: inv.quantity + old.quantityPlanned,
-              });
-            }
-          })
+          restoreFoodStock(
+            itemId,
+            old.quantityPlanned,
+            old.batchAllocations,
+            context,
+          )
         );
       }
     } else {
@@ -106,11 +136,26 @@ async function applyItemSideEffects(
       }
       if (atCamp !== undefined) {
         const quantityAtCamp = atCamp ? newItem.quantityPlanned : 0;
-        tasks.push(() => updateItem(itemId, { atCamp, quantityAtCamp }));
+        tasks.push(() =>
+          updateItem(itemId, { atCamp, quantityAtCamp }, context)
+        );
       }
     }
   }
 
+  for (const itemId of new Set([...oldMap.keys(), ...newMap.keys()])) {
+    const before = unitsAtCamp(oldMap.get(itemId));
+    const after = unitsAtCamp(newMap.get(itemId));
+    const toCamp = after.filter((id) => !before.includes(id));
+    const toStore = before.filter((id) => !after.includes(id));
+    if (toCamp.length > 0) {
+      tasks.push(() => setItemUnitsStatus(itemId, toCamp, "at-camp"));
+    }
+    if (toStore.length > 0) {
+      tasks.push(() => setItemUnitsStatus(itemId, toStore, "in-store"));
+    }
+  }
+
   for (const task of tasks) {
     await task();
   }
@@ -123,18 +168,28 @@ async function applyItemSideEffects(
  * For food items that were already marked packed in the existing plan,
  * inventory stock has already been deducted. We add that packed amount back
  * when validating to avoid falsely rejecting unchanged items on later edits.
+ *
+ * Unpacked items may count on loans due back before the camp starts. Raising
+ * a quantity must also leave what overlapping camps hold for the same dates,
+ * as must every unpacked item when the camp moves to new dates.
  */
 async function validatePlannedItemQuantities(
+  plan: CampPlan,
   oldItems: CampPlanItem[],
   newItems: CampPlanItem[],
+  datesChanged = false,
 ): Promise<string | null> {
   const oldMap = new Map(oldItems.map((i) => [i.itemId, i]));
   const ids = [...new Set(newItems.map((i) => i.itemId))];
 
-  const inventoryEntries = await Promise.all(
-    ids.map(async (id) => [id, await getItemById(id)] as const),
-  );
+  const [inventoryEntries, plans, checkouts] = await Promise.all([
+    Promise.all(ids.map(async (id) => [id, await getItemById(id)] as const)),
+    getAllCampPlans(),
+    getAllCheckOuts(),
+  ]);
   const inventoryById = new Map(inventoryEntries);
+  const reserved = reservationsForCamp(plan, plans, checkouts);
+  const returning = loansReturningBefore(plan, checkouts);
 
   for (const item of newItems) {
     if (!Number.isInteger(item.quantityPlanned) || item.quantityPlanned < 1) {
@@ -170,13 +225,49 @@ async function validatePlannedItemQuantities(
         !old.returnedStatus
         ? old.quantityPlanned
         : 0;
+    const returningLoanQty = item.packedStatus
+      ? 0
+      : returning[item.itemId] ?? 0;
     const effectiveAvailable = (inv.quantity - currentlyAtCampQty) +
       alreadyDeductedFoodQty +
-      thisPlanReservedNonFoodQty;
+      thisPlanReservedNonFoodQty +
+      returningLoanQty;
 
     if (item.quantityPlanned > effectiveAvailable) {
       return `Cannot add ${item.quantityPlanned} of "${item.itemName}". Only ${effectiveAvailable} in stock.`;
     }
+
+    const holders = reserved[item.itemId];
+    const raised = item.quantityPlanned > (old?.quantityPlanned ?? 0);
+    if (holders && (raised || (datesChanged && !item.packedStatus))) {
+      const free = Math.max(0, effectiveAvailable - totalReserved(holders));
+      if (item.quantityPlanned > free) {
+        return `Cannot plan ${item.quantityPlanned} of "${item.itemName}" — only ${free} free on these dates. Also planned by ${
+          holders.map((h) => `"${h.planName}" (${h.quantity})`).join(", ")
+        }.`;
+      }
+    }
+
+    // Unit-tracked gear is packed by choosing the exact units going to camp
+    const packing = item.packedStatus && !item.returnedStatus;
+    const wasPacking = !!old?.packedStatus && !old.returnedStatus;
+    if (inv.hasUnits && packing && (!wasPacking || item.unitIds)) {
+      const alreadyHere = unitsAtCamp(old);
+      const unitIds = item.unitIds ?? [];
+      const unitError = await validateUnitSelection(inv.id, unitIds, [
+        "in-store",
+        "at-camp",
+      ]) ?? await validateUnitSelection(
+        inv.id,
+        unitIds.filter((id) => !alreadyHere.includes(id)),
+      );
+      if (unitError) return `"${item.itemName}": ${unitError}`;
+      if (unitIds.length !== item.quantityPlanned) {
+        return `Choose ${item.quantityPlanned} unit${
+          item.quantityPlanned === 1 ? "" : "s"
+        } of "${item.itemName}" to pack.`;
+      }
+    }
   }
 
   return null;
@@ -215,6 +306,18 @@ export const handler: Handlers = {
       // Convert date strings
       if (body.campDate) body.campDate = new Date(body.campDate);
       if (body.endDate) body.endDate = new Date(body.endDate);
+      if ("shoppingSpend" in body) {
+        if (body.shoppingSpend === null) {
+          body.shoppingSpend = undefined;
+        } else if (
+          typeof body.shoppingSpend !== "number" ||
+          !Number.isFinite(body.shoppingSpend) || body.shoppingSpend < 0
+        ) {
+          return Response.json({
+            error: "shoppingSpend must be a positive amount",
+          }, { status: 400 });
+        }
+      }
 
       // Fetch the plan once; reuse it for both side effects and the update to avoid
       // a redundant second read inside updateCampPlan.
@@ -223,21 +326,42 @@ export const handler: Handlers = {
         return Response.json({ error: "Camp plan not found" }, { status: 404 });
       }
 
-      if (body.items) {
-        if (!Array.isArray(body.items)) {
-          return Response.json({ error: "items must be an array" }, {
-            status: 400,
-          });
-        }
-        const nextItems = body.items as CampPlanItem[];
+      if (body.items && !Array.isArray(body.items)) {
+        return Response.json({ error: "items must be an array" }, {
+          status: 400,
+        });
+      }
+
+      // New dates can clash with other camps and loans even when the items
+      // stay the same, so check the merged plan whenever either changes
+      const merged: CampPlan = {
+        ...existing,
+        campDate: body.campDate ?? existing.campDate,
+        endDate: "endDate" in body ? body.endDate : existing.endDate,
+      };
+      const before = campDays(existing);
+      const after = campDays(merged);
+      const datesChanged = before.start !== after.start ||
+        before.end !== after.end;
+      const nextItems = (body.items ?? existing.items) as CampPlanItem[];
+      if (body.items || datesChanged) {
         const quantityError = await validatePlannedItemQuantities(
+          merged,
           existing.items,
           nextItems,
+          datesChanged,
         );
         if (quantityError) {
           return Response.json({ error: quantityError }, { status: 400 });
         }
-        await applyItemSideEffects(existing.items, nextItems);
+      }
+
+      if (body.items) {
+        await applyItemSideEffects(existing.items, nextItems, {
+          username: session.username,
+          source: "camp",
+          details: `Camp "${existing.name}"`,
+        });
         await rebuildComputedStats();
       }
 
@@ -0,0 +1,139 @@
+// API route for a camp's shopping list
+import { Handlers } from "$fresh/server.ts";
+import {
+  getCampPlanById,
+  getItemsByCategory,
+  getShoppingList,
+  saveShoppingList,
+  setShoppingItemBought,
+} from "../../../../db/kv.ts";
+import {
+  csrfFailed,
+  csrfOk,
+  forbidden,
+  type Session,
+} from "../../../../lib/auth.ts";
+import {
+  readShoppingLines,
+  shoppingListInUse,
+} from "../../../../lib/shoppingList.ts";
+import { logActivity } from "../../../../lib/activityLog.ts";
+
+export const handler: Handlers = {
+  async GET(_req, ctx) {
+    try {
+      const list = await getShoppingList(ctx.params.id);
+      if (!list) {
+        return Response.json({ error: "No shopping list for this camp" }, {
+          status: 404,
+        });
+      }
+      return Response.json(list);
+    } catch (_error) {
+      return Response.json({ error: "Failed to fetch shopping list" }, {
+        status: 500,
+      });
+    }
+  },
+
+  // PUT /api/camps/[id]/shopping — replace the list, e.g. from the meal planner.
+  // A list with ticks or already completed needs { replace: true } (409 without)
+  async PUT(req, ctx) {
+    const session = ctx.state.session as Session | undefined;
+    if (!session || session.role === "viewer") {
+      return forbidden();
+    }
+    if (!csrfOk(req, session)) {
+      return csrfFailed();
+    }
+    try {
+      const plan = await getCampPlanById(ctx.params.id);
+      if (!plan) {
+        return Response.json({ error: "Camp plan not found" }, { status: 404 });
+      }
+      const body = await req.json();
+      let lines;
+      try {
+        lines = readShoppingLines(body.items);
+      } catch (err) {
+        return Response.json({ error: (err as Error).message }, {
+          status: 400,
+        });
+      }
+      const foodIds = new Set(
+        (await getItemsByCategory("food")).map((item) => item.id),
+      );
+      if (lines.some((line) => line.itemId && !foodIds.has(line.itemId))) {
+        return Response.json({
+          error: "Linked lines must point at a food item",
+        }, { status: 400 });
+      }
+
+      const replace = body.replace === true;
+      if (!replace && shoppingListInUse(await getShoppingList(plan.id))) {
+        return Response.json({
+          error:
+            "The current shopping list has ticked lines or has been completed. Send replace: true to replace it.",
+        }, { status: 409 });
+      }
+
+      let list;
+      try {
+        list = await saveShoppingList(
+          plan.id,
+          lines,
+          session.username,
+          replace,
+        );
+      } catch (err) {
+        return Response.json({ error: (err as Error).message }, {
+          status: 409,
+        });
+      }
+      await logActivity({
+        username: session.username,
+        action: "camp.shopping_list_created",
+        resource: plan.name,
+        resourceId: plan.id,
+        details: `${lines.length} line${lines.length === 1 ? "" : "s"}`,
+      });
+      return Response.json(list);
+    } catch (_error) {
+      return Response.json({ error: "Failed to save shopping list" }, {
+        status: 500,
+      });
+    }
+  },
+
+  // PATCH /api/camps/[id]/shopping — tick or untick one line: { lineId, bought }
+  async PATCH(req, ctx) {
+    const session = ctx.state.session as Session | undefined;
+    if (!session || session.role === "viewer") {
+      return forbidden();
+    }
+    if (!csrfOk(req, session)) {
+      return csrfFailed();
+    }
+    try {
+      const { lineId, bought } = await req.json();
+      if (typeof lineId !== "string" || typeof bought !== "boolean") {
+        return Response.json({ error: "lineId and bought are required" }, {
+          status: 400,
+        });
+      }
+      const list = await setShoppingItemBought(ctx.params.id, lineId, bought);
+      if (!list) {
+        return Response.json({ error: "Shopping list line not found" }, {
+          status: 404,
+        });
+      }
+      return Response.json(list);
+    } catch (err) {
+      return Response.json({
+        error: err instanceof Error
+          ? err.message
+          : "Failed to update shopping list",
+      }, { status: 500 });
+    }
+  },
+};
@@ -1,7 +1,17 @@
 // API route for camp plans list
 import { Handlers } from "$fresh/server.ts";
-import type { CampPlan } from "../../../types/inventory.ts";
-import { createCampPlan, getAllCampPlans } from "../../../db/kv.ts";
+import type { CampPlan, CampPlanItem } from "../../../types/inventory.ts";
+import {
+  createCampPlan,
+  getAllCampPlans,
+  getAllCheckOuts,
+  getAllItems,
+} from "../../../db/kv.ts";
+import {
+  availableForCamp,
+  loansReturningBefore,
+  reservationsForCamp,
+} from "../../../lib/campReservations.ts";
 import {
   csrfFailed,
   csrfOk,
@@ -22,7 +32,9 @@ export const handler: Handlers = {
     }
   },
 
-  // POST /api/camps - create a new camp plan
+  // POST /api/camps - create a new camp plan, optionally with a starting
+  // list of { itemId, quantityPlanned, notes } checked against other camps on
+  // the same dates
   async POST(req, ctx) {
     const session = ctx.state.session as Session | undefined;
     if (!session || session.role === "viewer") {
@@ -56,6 +68,61 @@ export const handler: Handlers = {
         lastUpdated: new Date(),
       };
 
+      if (body.items !== undefined) {
+        if (!Array.isArray(body.items)) {
+          return Response.json({ error: "items must be an array" }, {
+            status: 400,
+          });
+        }
+        const [items, plans, checkouts] = await Promise.all([
+          getAllItems(),
+          getAllCampPlans(),
+          getAllCheckOuts(),
+        ]);
+        const reserved = reservationsForCamp(newPlan, plans, checkouts);
+        const returning = loansReturningBefore(newPlan, checkouts);
+        // The same item may be listed more than once; check what it adds up to
+        const planned = new Map<string, number>();
+        for (const entry of body.items as Partial<CampPlanItem>[]) {
+          const qty = entry.quantityPlanned;
+          if (typeof entry.itemId === "string" && typeof qty === "number") {
+            planned.set(entry.itemId, (planned.get(entry.itemId) ?? 0) + qty);
+          }
+        }
+        for (const entry of body.items as Partial<CampPlanItem>[]) {
+          const inv = items.find((i) => i.id === entry.itemId);
+          const qty = entry.quantityPlanned;
+          if (!inv || typeof qty !== "number" || !Number.isInteger(qty)) {
+            return Response.json({
+              error: "Each item needs an existing itemId and quantityPlanned.",
+            }, { status: 400 });
+          }
+          const available = availableForCamp(inv, reserved, returning);
+          const total = planned.get(inv.id) ?? qty;
+          if (qty < 1 || total > available) {
+            return Response.json({
+              error:
+                `Cannot plan ${total} of "${inv.name}" — only ${available} free on these dates.`,
+            }, { status: 400 });
+          }
+          newPlan.items.push({
+            itemId: inv.id,
+            itemName: inv.name,
+            itemCategory: inv.category,
+            itemLocation: inv.location,
+            quantityPlanned: qty,
+            packedStatus: false,
+            returnedStatus: false,
+            notes: typeof entry.notes === "string" && entry.notes.trim()
+              ? entry.notes.trim()
+              : undefined,
+            contents: "contents" in inv && inv.contents?.length
+              ? inv.contents
+              : undefined,
+          });
+        }
+      }
+
       const created = await createCampPlan(newPlan);
       return Response.json(created, { status: 201 });
     } catch (_error) {
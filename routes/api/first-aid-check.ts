@@ -1,7 +1,17 @@
 import { Handlers } from "$fresh/server.ts";
 import { csrfFailed, csrfOk, forbidden, type Session } from "../../lib/auth.ts";
 import { logActivity } from "../../lib/activityLog.ts";
-import { recordFirstAidCheckCompletion } from "../../db/kv.ts";
+import {
+  recordFirstAidCheckCompletion,
+  recordFirstAidCheckHistory,
+  recordFirstAidKitExpiries,
+} from "../../db/kv.ts";
+import { isExpiryBatch } from "../../lib/firstAidExpiry.ts";
+import {
+  type FirstAidCheckedLine,
+  toCheckRecords,
+} from "../../lib/firstAidCheckHistory.ts";
+import type { FirstAidExpiryBatch } from "../../types/firstAid.ts";
 
 interface FirstAidShortage {
   kitId: string;
@@ -12,6 +22,12 @@ interface FirstAidShortage {
   countedQty: number;
 }
 
+interface FirstAidExpiryUpdate {
+  kitId: string;
+  itemId: string;
+  batches: FirstAidExpiryBatch[];
+}
+
 interface FirstAidCheckPayload {
   kitCount: number;
   itemCount: number;
@@ -19,6 +35,11 @@ interface FirstAidCheckPayload {
   checkScope: "overall" | "kit";
   checkedKitIds: string[];
   shortages: FirstAidShortage[];
+  /** Dated stock per checked line; absent from older clients */
+  expiries?: FirstAidExpiryUpdate[];
+  /** Every line in the check, skipped ones with a null count */
+  lines?: FirstAidCheckedLine[];
+  notes?: string;
 }
 
 function isNonNegativeInteger(value: unknown): value is number {
@@ -39,6 +60,31 @@ function isValidShortage(value: unknown): value is FirstAidShortage {
   );
 }
 
+function isValidExpiryUpdate(value: unknown): value is FirstAidExpiryUpdate {
+  if (!value || typeof value !== "object") return false;
+  const update = value as Record<string, unknown>;
+  return (
+    typeof update.kitId === "string" && update.kitId.length > 0 &&
+    typeof update.itemId === "string" && update.itemId.length > 0 &&
+    Array.isArray(update.batches) && update.batches.length <= 50 &&
+    update.batches.every(isExpiryBatch)
+  );
+}
+
+function isValidCheckedLine(value: unknown): value is FirstAidCheckedLine {
+  if (!value || typeof value !== "object") return false;
+  const line = value as Record<string, unknown>;
+  return (
+    typeof line.kitId === "string" && line.kitId.length > 0 &&
+    typeof line.kitName === "string" && line.kitName.length > 0 &&
+    typeof line.itemId === "string" && line.itemId.length > 0 &&
+    typeof line.itemName === "string" && line.itemName.length > 0 &&
+    typeof line.section === "string" &&
+    isNonNegativeInteger(line.quantityTarget) &&
+    (line.countedQty === null || isNonNegativeInteger(line.countedQty))
+  );
+}
+
 export const handler: Handlers = {
   async POST(req, ctx) {
     const session = ctx.state.session as Session | undefined;
@@ -82,6 +128,27 @@ export const handler: Handlers = {
       });
     }
 
+    const expiries = body.expiries ?? [];
+    if (
+      !Array.isArray(expiries) || expiries.length > 1000 ||
+      !expiries.every(isValidExpiryUpdate)
+    ) {
+      return Response.json({ error: "Invalid expiry entry." }, {
+        status: 400,
+      });
+    }
+
+    const lines = body.lines ?? [];
+    if (
+      !Array.isArray(lines) || lines.length > 5000 ||
+      !lines.every(isValidCheckedLine)
+    ) {
+      return Response.json({ error: "Invalid check line." }, { status: 400 });
+    }
+    const notes = typeof body.notes === "string"
+      ? body.notes.trim().slice(0, 2000)
+      : "";
+
     const kitsBelowSpec =
       new Set(body.shortages.map((shortage) => shortage.kitId)).size;
 
@@ -89,6 +156,19 @@ export const handler: Handlers = {
       body.checkedKitIds,
       body.checkScope === "overall",
     );
+    if (expiries.length > 0) {
+      await recordFirstAidKitExpiries(expiries);
+    }
+    const checkId = crypto.randomUUID();
+    await recordFirstAidCheckHistory(
+      toCheckRecords(lines, {
+        checkId,
+        checkScope: body.checkScope,
+        checkedBy: session.username,
+        checkedAt: new Date(),
+        notes: notes || undefined,
+      }),
+    );
 
     await logActivity({
       username: session.username,
@@ -105,6 +185,6 @@ export const handler: Handlers = {
         (body.skippedCount > 0 ? `, ${body.skippedCount} skipped` : ""),
     });
 
-    return Response.json({ ok: true });
+    return Response.json({ ok: true, checkId });
   },
 };
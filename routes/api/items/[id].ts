@@ -1,6 +1,12 @@
 // API route for individual inventory items
 import { Handlers } from "$fresh/server.ts";
-import { deleteItem, getItemById, updateItem } from "../../../db/kv.ts";
+import {
+  deleteItem,
+  getAllStorageLocations,
+  getAllStorageSpaces,
+  getItemById,
+  updateItem,
+} from "../../../db/kv.ts";
 import {
   csrfFailed,
   csrfOk,
@@ -11,8 +17,8 @@ import { logActivity } from "../../../lib/activityLog.ts";
 import {
   validateFoodItem,
   validateFuelItem,
-  validateGasStorageItem,
   validateItemBase,
+  validateItemSpace,
   validateKiltItem,
 } from "../../../lib/validation.ts";
 
@@ -61,15 +67,38 @@ export const handler: Handlers = {
         photoIds: _photos,
         atCamp: _atCamp,
         quantityAtCamp: _qac,
+        hasUnits: _hasUnits,
+        batches: _batches,
         ...updates
       } = raw;
 
+      // Counts on unit-tracked items are derived from their units.
+      if (existing.hasUnits) {
+        delete updates.quantity;
+        delete updates.quantityNeedsRepair;
+      }
+      // Stock and expiry of batched food are derived from its batches.
+      if (existing.category === "food" && existing.batches) {
+        delete updates.quantity;
+        delete updates.expiryDate;
+      }
+
       // Normalise explicit null → undefined for optional string fields so the
       // stored item never contains null (undefined means "field absent").
       if (updates.notes === null) updates.notes = undefined;
       if (updates.setupInstructions === null) {
         updates.setupInstructions = undefined;
       }
+      for (
+        const field of [
+          "purchaseCost",
+          "replacementValue",
+          "supplier",
+          "packSize",
+        ]
+      ) {
+        if (updates[field] === null) updates[field] = undefined;
+      }
 
       // Convert date strings to Date objects if needed
       if (updates.expiryDate) {
@@ -77,7 +106,14 @@ export const handler: Handlers = {
       }
 
       const merged = { ...existing, ...updates };
-      const baseErr = validateItemBase(merged);
+      // Only check the registry when the item is moving, so items left in an
+      // archived location can still be edited in place.
+      const moved = merged.location !== existing.location ||
+        (merged.space ?? "camp-store") !== (existing.space ?? "camp-store");
+      const baseErr = validateItemBase(
+        merged,
+        moved ? await getAllStorageLocations() : undefined,
+      );
       if (baseErr) {
         return Response.json({ error: baseErr }, { status: 400 });
       }
@@ -99,12 +135,15 @@ export const handler: Handlers = {
           return Response.json({ error: kiltErr }, { status: 400 });
         }
       }
-      const gasErr = validateGasStorageItem(merged);
-      if (gasErr) {
-        return Response.json({ error: gasErr }, { status: 400 });
+      const spaceErr = validateItemSpace(merged, await getAllStorageSpaces());
+      if (spaceErr) {
+        return Response.json({ error: spaceErr }, { status: 400 });
       }
 
-      const updatedItem = await updateItem(id, updates);
+      const updatedItem = await updateItem(id, updates, {
+        username: session.username,
+        source: "edit",
+      });
       if (!updatedItem) {
         return Response.json({ error: "Item not found" }, { status: 404 });
       }
@@ -1,7 +1,12 @@
 // POST /api/items/bulk-location — update location+space for a batch of items
 import { Handlers } from "$fresh/server.ts";
 import type { ItemLocation, ItemSpace } from "../../../types/inventory.ts";
-import { updateItem } from "../../../db/kv.ts";
+import {
+  getAllStorageLocations,
+  getAllStorageSpaces,
+  getItemById,
+  updateItem,
+} from "../../../db/kv.ts";
 import {
   csrfFailed,
   csrfOk,
@@ -9,6 +14,7 @@ import {
   type Session,
 } from "../../../lib/auth.ts";
 import { logActivity } from "../../../lib/activityLog.ts";
+import { validateItemLocation } from "../../../lib/validation.ts";
 
 export const handler: Handlers = {
   async POST(req, ctx) {
@@ -46,11 +52,34 @@ export const handler: Handlers = {
       });
     }
 
+    const locations = await getAllStorageLocations();
+    const target = locations.find((loc) => loc.name === location);
+    const locationErr = validateItemLocation(
+      location,
+      space ?? target?.space,
+      locations,
+    );
+    if (locationErr) {
+      return Response.json({ error: locationErr }, { status: 400 });
+    }
+
+    const targetSpace = (await getAllStorageSpaces()).find((s) =>
+      s.id === target!.space
+    );
+
     const updates: { id: string; ok: boolean }[] = [];
     for (const id of ids) {
-      const result = await updateItem(id, {
-        location,
-        ...(space ? { space } : {}),
+      // Skip items whose category the destination space doesn't accept
+      const item = await getItemById(id);
+      if (
+        !item || !targetSpace?.allowedCategories.includes(item.category)
+      ) {
+        updates.push({ id, ok: false });
+        continue;
+      }
+      const result = await updateItem(id, { location, space: target!.space }, {
+        username: session.username,
+        source: "bulk-move",
       });
       updates.push({ id, ok: result !== null });
     }
@@ -1,7 +1,13 @@
 // API route for all inventory items
 import { Handlers } from "$fresh/server.ts";
 import type { InventoryItem } from "../../../types/inventory.ts";
-import { createItem, getAllItems, searchItems } from "../../../db/kv.ts";
+import {
+  createItem,
+  getAllItems,
+  getAllStorageLocations,
+  getAllStorageSpaces,
+  searchItems,
+} from "../../../db/kv.ts";
 import {
   csrfFailed,
   csrfOk,
@@ -11,8 +17,8 @@ import {
 import {
   validateFoodItem,
   validateFuelItem,
-  validateGasStorageItem,
   validateItemBase,
+  validateItemSpace,
   validateKiltItem,
 } from "../../../lib/validation.ts";
 import { logActivity } from "../../../lib/activityLog.ts";
@@ -84,7 +90,7 @@ export const handler: Handlers = {
       const body = await req.json();
 
       // Validate base fields
-      const baseErr = validateItemBase(body);
+      const baseErr = validateItemBase(body, await getAllStorageLocations());
       if (baseErr) {
         return Response.json({ error: baseErr }, { status: 400 });
       }
@@ -107,9 +113,9 @@ export const handler: Handlers = {
           return Response.json({ error: kiltErr }, { status: 400 });
         }
       }
-      const gasErr = validateGasStorageItem(body);
-      if (gasErr) {
-        return Response.json({ error: gasErr }, { status: 400 });
+      const spaceErr = validateItemSpace(body, await getAllStorageSpaces());
+      if (spaceErr) {
+        return Response.json({ error: spaceErr }, { status: 400 });
       }
 
       // Create new item with defaults
@@ -120,6 +126,16 @@ export const handler: Handlers = {
         lastUpdated: new Date(),
       };
 
+      // Blank valuation fields and pack size arrive as null — leave them absent
+      for (
+        const field of ["purchaseCost", "replacementValue", "supplier"] as const
+      ) {
+        if (body[field] === null) delete newItem[field];
+      }
+      if (body.packSize === null) {
+        delete (newItem as { packSize?: unknown }).packSize;
+      }
+
       // Convert date strings to Date objects if needed
       if (body.expiryDate && body.category === "food") {
         (newItem as { expiryDate: Date }).expiryDate = new Date(
@@ -127,7 +143,10 @@ export const handler: Handlers = {
         );
       }
 
-      await createItem(newItem);
+      await createItem(newItem, {
+        username: session.username,
+        source: "created",
+      });
 
       await logActivity({
         username: session.username,
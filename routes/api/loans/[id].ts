@@ -1,5 +1,9 @@
-// PATCH /api/loans/[id] — mark a loan as returned
-// DELETE /api/loans/[id] — cancel/remove a loan record
+// PATCH /api/loans/[id] — mark all or part of a loan as returned
+//   body (optional): { quantity?, unitIds?, condition?, notes? }
+//   200: { returned, remaining } — `returned` is the record of what came back
+//   (a new id for a partial return), `remaining` what is still out under this
+//   loan's id, or null once everything is back
+// DELETE /api/loans/[id] — cancel/remove a loan record or reservation
 import { Handlers } from "$fresh/server.ts";
 import {
   deleteCheckOut,
@@ -13,6 +17,9 @@ import {
   type Session,
 } from "../../../lib/auth.ts";
 import { logActivity } from "../../../lib/activityLog.ts";
+import { isActiveLoan, type ItemCondition } from "../../../types/inventory.ts";
+
+const VALID_CONDITIONS = new Set(["excellent", "good", "fair", "needs-repair"]);
 
 export const handler: Handlers = {
   async PATCH(req, ctx) {
@@ -22,6 +29,48 @@ export const handler: Handlers = {
 
     const { id } = ctx.params;
 
+    // The body is optional: no body returns everything in unrecorded condition
+    let body: Record<string, unknown> = {};
+    if (req.headers.get("content-type")?.includes("application/json")) {
+      try {
+        body = await req.json();
+      } catch {
+        return Response.json({ error: "Invalid JSON body." }, { status: 400 });
+      }
+    }
+    const { quantity, unitIds, condition, notes } = body;
+    if (
+      quantity !== undefined &&
+      (typeof quantity !== "number" || !Number.isInteger(quantity))
+    ) {
+      return Response.json({ error: "quantity must be a whole number." }, {
+        status: 400,
+      });
+    }
+    if (
+      unitIds !== undefined &&
+      (!Array.isArray(unitIds) || unitIds.some((u) => typeof u !== "string"))
+    ) {
+      return Response.json({ error: "unitIds must be an array of unit ids." }, {
+        status: 400,
+      });
+    }
+    if (
+      condition !== undefined &&
+      (typeof condition !== "string" || !VALID_CONDITIONS.has(condition))
+    ) {
+      return Response.json({ error: "Invalid condition." }, { status: 400 });
+    }
+    if (
+      notes !== undefined &&
+      (typeof notes !== "string" || notes.length > 500)
+    ) {
+      return Response.json(
+        { error: "Notes must be 500 characters or fewer." },
+        { status: 400 },
+      );
+    }
+
     try {
       const existing = await getCheckOutById(id);
       if (!existing) {
@@ -32,22 +81,49 @@ export const handler: Handlers = {
           status: 409,
         });
       }
+      if (!isActiveLoan(existing)) {
+        return Response.json(
+          { error: "Reservation was never collected." },
+          { status: 409 },
+        );
+      }
 
-      const updated = await returnCheckOut(id);
-      if (!updated) {
+      let result;
+      try {
+        result = await returnCheckOut(id, {
+          username: session.username,
+          source: "loan",
+          details: `Returned by ${existing.borrower}`,
+        }, {
+          quantity: quantity as number | undefined,
+          unitIds: unitIds as string[] | undefined,
+          condition: condition as ItemCondition | undefined,
+          notes: (notes as string | undefined)?.trim() || undefined,
+        });
+      } catch (e) {
+        return Response.json(
+          { error: e instanceof Error ? e.message : String(e) },
+          { status: 400 },
+        );
+      }
+      if (!result) {
         throw new Error("returnCheckOut returned null");
       }
 
+      const { returned, remaining } = result;
       await logActivity({
         username: session.username,
         action: "loan.returned",
-        resource: updated.itemName,
+        resource: returned.itemName,
         resourceId: id,
-        details:
-          `Returned ${updated.quantity}× "${updated.itemName}" from ${updated.borrower}`,
+        details: `Returned ${returned.quantity}${
+          remaining ? ` of ${existing.quantity}` : ""
+        }× "${returned.itemName}" from ${returned.borrower}${
+          returned.returnCondition ? ` (${returned.returnCondition})` : ""
+        }`,
       });
 
-      return Response.json(updated);
+      return Response.json(result);
     } catch (e) {
       console.error("Failed to return loan:", e);
       return Response.json({ error: "Failed to mark loan as returned." }, {
@@ -69,7 +145,15 @@ export const handler: Handlers = {
         return Response.json({ error: "Loan not found." }, { status: 404 });
       }
 
-      await deleteCheckOut(id);
+      const kind = existing.status === "reserved" ||
+          existing.status === "no-show"
+        ? "reservation"
+        : "loan";
+      await deleteCheckOut(id, {
+        username: session.username,
+        source: "loan",
+        details: `Loan to ${existing.borrower} cancelled`,
+      });
 
       await logActivity({
         username: session.username,
@@ -77,7 +161,7 @@ export const handler: Handlers = {
         resource: existing.itemName,
         resourceId: id,
         details:
-          `Cancelled loan of ${existing.quantity}× "${existing.itemName}" to ${existing.borrower}`,
+          `Cancelled ${kind} of ${existing.quantity}× "${existing.itemName}" to ${existing.borrower}`,
       });
 
       return new Response(null, { status: 204 });
@@ -1,6 +1,16 @@
-// POST /api/loans — create a new loan record
+// POST /api/loans — create a new loan record, or a reservation when a future
+// collectionDate is given
 import { Handlers } from "$fresh/server.ts";
-import { createCheckOut, getItemById } from "../../../db/kv.ts";
+import {
+  createCheckOut,
+  createLoanReservation,
+  findOrCreateBorrower,
+  getAllCampPlans,
+  getAllCheckOuts,
+  getBorrowerById,
+  getItemById,
+  validateUnitSelection,
+} from "../../../db/kv.ts";
 import {
   csrfFailed,
   csrfOk,
@@ -9,6 +19,13 @@ import {
 } from "../../../lib/auth.ts";
 import type { CheckOut } from "../../../types/inventory.ts";
 import { logActivity } from "../../../lib/activityLog.ts";
+import { dayKey, heldByCamps } from "../../../lib/campReservations.ts";
+import {
+  availableToLoan,
+  loanDays,
+  overlappingReservations,
+} from "../../../lib/loanReservations.ts";
+import { formatDate } from "../../../lib/date-utils.ts";
 
 export const handler: Handlers = {
   async POST(req, ctx) {
@@ -23,13 +40,21 @@ export const handler: Handlers = {
       return Response.json({ error: "Invalid JSON body." }, { status: 400 });
     }
 
-    const { itemId, borrower, quantity, expectedReturnDate, notes } =
-      body as Record<string, unknown>;
+    const {
+      itemId,
+      borrower,
+      borrowerId,
+      quantity,
+      expectedReturnDate,
+      collectionDate,
+      notes,
+      unitIds,
+    } = body as Record<string, unknown>;
 
     if (
       typeof itemId !== "string" ||
-      typeof borrower !== "string" ||
-      !borrower.trim() ||
+      ((typeof borrower !== "string" || !borrower.trim()) &&
+        typeof borrowerId !== "string") ||
       !quantity ||
       typeof expectedReturnDate !== "string" ||
       !expectedReturnDate
@@ -48,16 +73,49 @@ export const handler: Handlers = {
       return Response.json({ error: "Item not found." }, { status: 404 });
     }
 
+    // A collection date after today books the kit instead of handing it over
+    const now = new Date();
+    let startDate = now;
+    if (collectionDate !== undefined && collectionDate !== null) {
+      startDate = new Date(String(collectionDate));
+      if (typeof collectionDate !== "string" || isNaN(startDate.getTime())) {
+        return Response.json(
+          { error: "collectionDate must be a valid date." },
+          { status: 400 },
+        );
+      }
+      if (dayKey(startDate) < dayKey(now)) {
+        return Response.json(
+          { error: "collectionDate cannot be in the past." },
+          { status: 400 },
+        );
+      }
+    }
+    const isReservation = dayKey(startDate) > dayKey(now);
+    if (!isReservation) startDate = now;
+
+    // Reservations may count on loans coming back first; checked below
     const qty = Number(quantity);
-    if (!Number.isInteger(qty) || qty < 1 || qty > item.quantity) {
+    if (
+      !Number.isInteger(qty) || qty < 1 ||
+      (!isReservation && qty > item.quantity)
+    ) {
       return Response.json(
         { error: `Quantity must be between 1 and ${item.quantity}.` },
         { status: 400 },
       );
     }
 
+    // A directory entry, or a typed name matched to (or added to) the directory
+    const listed = typeof borrowerId === "string"
+      ? await getBorrowerById(borrowerId)
+      : null;
+    if (typeof borrowerId === "string" && !listed) {
+      return Response.json({ error: "Borrower not found." }, { status: 404 });
+    }
+
     // Enforce length limits to prevent oversized KV records
-    const borrowerStr = (borrower as string).trim();
+    const borrowerStr = listed?.name ?? (borrower as string).trim();
     if (borrowerStr.length > 100) {
       return Response.json(
         { error: "Borrower name must be 100 characters or fewer." },
@@ -81,6 +139,21 @@ export const handler: Handlers = {
       );
     }
 
+    // Unit-tracked items are loaned by picking the exact units handed over;
+    // reservations pick their units when collected
+    if (item.hasUnits && !isReservation) {
+      const unitError = await validateUnitSelection(item.id, unitIds ?? []);
+      if (unitError) {
+        return Response.json({ error: unitError }, { status: 400 });
+      }
+      if ((unitIds as string[]).length !== qty) {
+        return Response.json(
+          { error: `Select ${qty} unit${qty === 1 ? "" : "s"} to loan.` },
+          { status: 400 },
+        );
+      }
+    }
+
     const returnDate = new Date(expectedReturnDate);
     if (isNaN(returnDate.getTime()) || returnDate <= new Date()) {
       return Response.json(
@@ -88,23 +161,84 @@ export const handler: Handlers = {
         { status: 400 },
       );
     }
+    if (returnDate < startDate) {
+      return Response.json(
+        { error: "expectedReturnDate must be after the collection date." },
+        { status: 400 },
+      );
+    }
+
+    // Don't hand over or book kit that reservations or camps already hold
+    const dates = { checkOutDate: startDate, expectedReturnDate: returnDate };
+    const [checkouts, plans] = await Promise.all([
+      getAllCheckOuts(),
+      getAllCampPlans(),
+    ]);
+    const available = availableToLoan(
+      item,
+      dates,
+      checkouts,
+      now,
+      undefined,
+      plans,
+    );
+    if (qty > available) {
+      const holders = overlappingReservations(item.id, dates, checkouts, now)
+        .map((r) =>
+          `${r.borrower} (${r.quantity} from ${formatDate(r.checkOutDate)})`
+        );
+      const campHeld = heldByCamps(item.id, loanDays(dates), plans);
+      if (campHeld > 0) holders.push(`camps (${campHeld})`);
+      return Response.json(
+        {
+          error:
+            `Only ${available} of "${item.name}" available on those dates.${
+              holders.length ? ` Reserved by ${holders.join(", ")}.` : ""
+            }`,
+        },
+        { status: 409 },
+      );
+    }
 
     try {
+      const directoryEntry = listed ?? await findOrCreateBorrower(borrowerStr);
       const checkout: CheckOut = {
         id: crypto.randomUUID(),
         itemId,
         itemName: item.name,
-        borrower: borrowerStr,
+        borrower: directoryEntry.name,
+        borrowerId: directoryEntry.id,
         quantity: qty,
-        checkOutDate: new Date(),
+        checkOutDate: startDate,
         expectedReturnDate: returnDate,
-        status: "checked-out",
+        status: isReservation ? "reserved" : "checked-out",
+        unitIds: item.hasUnits && !isReservation
+          ? unitIds as string[]
+          : undefined,
         notes: typeof notes === "string" && notes.trim()
           ? notes.trim()
           : undefined,
+        reservedDate: isReservation ? now : undefined,
       };
 
-      await createCheckOut(checkout);
+      if (isReservation) {
+        await createLoanReservation(checkout);
+        await logActivity({
+          username: session.username,
+          action: "loan.reserved",
+          resource: item.name,
+          resourceId: checkout.id,
+          details:
+            `Reserved ${qty}× "${item.name}" for ${checkout.borrower}, ${collectionDate} to ${expectedReturnDate}`,
+        });
+        return Response.json(checkout, { status: 201 });
+      }
+
+      await createCheckOut(checkout, {
+        username: session.username,
+        source: "loan",
+        details: `Loaned to ${checkout.borrower}`,
+      });
 
       await logActivity({
         username: session.username,
@@ -2,7 +2,12 @@
 // PUT    /api/meals/:id  — update a meal (admin only)
 // DELETE /api/meals/:id  — delete a meal (admin only)
 import { Handlers } from "$fresh/server.ts";
-import { deleteMeal, getMealById, updateMeal } from "../../../db/kv.ts";
+import {
+  deleteMeal,
+  getItemsByCategory,
+  getMealById,
+  updateMeal,
+} from "../../../db/kv.ts";
 import {
   csrfFailed,
   csrfOk,
@@ -11,6 +16,7 @@ import {
 } from "../../../lib/auth.ts";
 import type { MealPayload } from "../../../types/meals.ts";
 import { logActivity } from "../../../lib/activityLog.ts";
+import { isQuantity } from "../../../lib/units.ts";
 
 export const handler: Handlers = {
   async GET(req, ctx) {
@@ -45,6 +51,25 @@ export const handler: Handlers = {
           status: 400,
         });
       }
+      const foodIds = new Set(
+        (await getItemsByCategory("food")).map((item) => item.id),
+      );
+      const badLink = body.ingredients.some((ing) =>
+        ing.itemId !== undefined && !foodIds.has(ing.itemId)
+      );
+      if (badLink) {
+        return Response.json({
+          error: "Linked ingredients must point at a food item",
+        }, { status: 400 });
+      }
+      const badAmount = body.ingredients.some((ing) =>
+        ing.perPerson !== undefined && !isQuantity(ing.perPerson)
+      );
+      if (badAmount) {
+        return Response.json({
+          error: "Amounts per person need a positive amount and a unit",
+        }, { status: 400 });
+      }
 
       const updated = await updateMeal(ctx.params.id, {
         name,
@@ -1,7 +1,7 @@
 // GET /api/meals        — list all meals (admin only)
 // POST /api/meals       — create a meal (admin only)
 import { Handlers } from "$fresh/server.ts";
-import { createMeal, getAllMeals } from "../../../db/kv.ts";
+import { createMeal, getAllMeals, getItemsByCategory } from "../../../db/kv.ts";
 import {
   csrfFailed,
   csrfOk,
@@ -10,6 +10,7 @@ import {
 } from "../../../lib/auth.ts";
 import type { MealPayload } from "../../../types/meals.ts";
 import { logActivity } from "../../../lib/activityLog.ts";
+import { isQuantity } from "../../../lib/units.ts";
 
 export const handler: Handlers = {
   async GET(_req, ctx) {
@@ -47,6 +48,25 @@ export const handler: Handlers = {
           status: 400,
         });
       }
+      const foodIds = new Set(
+        (await getItemsByCategory("food")).map((item) => item.id),
+      );
+      const badLink = body.ingredients.some((ing) =>
+        ing.itemId !== undefined && !foodIds.has(ing.itemId)
+      );
+      if (badLink) {
+        return Response.json({
+          error: "Linked ingredients must point at a food item",
+        }, { status: 400 });
+      }
+      const badAmount = body.ingredients.some((ing) =>
+        ing.perPerson !== undefined && !isQuantity(ing.perPerson)
+      );
+      if (badAmount) {
+        return Response.json({
+          error: "Amounts per person need a positive amount and a unit",
+        }, { status: 400 });
+      }
 
       const meal = await createMeal({
         name,
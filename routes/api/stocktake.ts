@@ -1,8 +1,9 @@
 // POST /api/stocktake — apply a batch of quantity/condition corrections from a stock-take
 import { Handlers } from "$fresh/server.ts";
-import { getItemById, updateItem } from "../../db/kv.ts";
+import { consumeFoodStock, getItemById, updateItem } from "../../db/kv.ts";
 import { csrfFailed, csrfOk, forbidden, type Session } from "../../lib/auth.ts";
 import { logActivity } from "../../lib/activityLog.ts";
+import type { ItemChangeContext } from "../../types/inventory.ts";
 
 const VALID_CONDITIONS = new Set(["excellent", "good", "fair", "needs-repair"]);
 
@@ -34,6 +35,10 @@ export const handler: Handlers = {
 
     let applied = 0;
     const errors: string[] = [];
+    const change: ItemChangeContext = {
+      username: session.username,
+      source: "stocktake",
+    };
 
     await Promise.all(
       updates.map(async ({ id, quantity, condition }) => {
@@ -49,11 +54,34 @@ export const handler: Handlers = {
           return;
         }
         try {
+          const existing = await getItemById(id);
+          if (existing?.hasUnits && existing.quantity !== quantity) {
+            errors.push(
+              `"${existing.name}" tracks individual units — adjust them on its units page`,
+            );
+            return;
+          }
+          // A short count on batched food is taken from the first-expiring lots
+          if (
+            existing?.category === "food" && existing.batches &&
+            existing.quantity !== quantity
+          ) {
+            if (quantity > existing.quantity) {
+              errors.push(
+                `"${existing.name}" counted more than recorded — add a batch with its expiry date`,
+              );
+              return;
+            }
+            await consumeFoodStock(id, existing.quantity - quantity, change);
+            applied++;
+            return;
+          }
           const patch: Record<string, unknown> = { quantity };
           if (condition) patch.condition = condition;
           const result = await updateItem(
             id,
             patch as Parameters<typeof updateItem>[1],
+            change,
           );
           if (result) applied++;
           else errors.push(`Item ${id} not found`);
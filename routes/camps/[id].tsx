@@ -1,34 +1,54 @@
 // Camp plan detail / checklist page
 import { Handlers, PageProps } from "$fresh/server.ts";
-import type {
-  CampPlan,
-  CampTemplate,
-  InventoryItem,
+import {
+  type CampPlan,
+  type CampTemplate,
+  type InventoryItem,
+  type ItemUnitSummary,
+  toItemUnitSummary,
 } from "../../types/inventory.ts";
 import Layout from "../../components/Layout.tsx";
 import CampChecklist from "../../islands/CampChecklist.tsx";
 import type { Session } from "../../lib/auth.ts";
 import {
+  getAllCampPlans,
   getAllCampTemplates,
+  getAllCheckOuts,
   getAllItems,
+  getAllItemUnits,
   getCampPlanById,
 } from "../../db/kv.ts";
+import {
+  type ItemReservation,
+  loansReturningBefore,
+  reservationsForCamp,
+} from "../../lib/campReservations.ts";
+import { type CampCosts, campCosts } from "../../lib/budget.ts";
+import { formatMoney } from "../../lib/valuation.ts";
 
 interface CampDetailPageData {
   plan: CampPlan;
   allItems: InventoryItem[];
   templates: CampTemplate[];
+  units: Record<string, ItemUnitSummary[]>;
+  reservations: Record<string, ItemReservation[]>;
+  returningLoans: Record<string, number>;
+  costs: CampCosts;
   session?: Session;
 }
 
 export const handler: Handlers<CampDetailPageData> = {
   async GET(_req, ctx) {
     const { id } = ctx.params;
-    const [plan, allItems, templates] = await Promise.all([
-      getCampPlanById(id),
-      getAllItems(),
-      getAllCampTemplates(),
-    ]);
+    const [plan, allItems, templates, allUnits, allPlans, checkouts] =
+      await Promise.all([
+        getCampPlanById(id),
+        getAllItems(),
+        getAllCampTemplates(),
+        getAllItemUnits(),
+        getAllCampPlans(),
+        getAllCheckOuts(),
+      ]);
 
     if (!plan) {
       return new Response(null, {
@@ -40,10 +60,19 @@ export const handler: Handlers<CampDetailPageData> = {
     allItems.sort((a, b) =>
       a.name.localeCompare(b.name, undefined, { numeric: true })
     );
+    const units: Record<string, ItemUnitSummary[]> = {};
+    for (const unit of allUnits) {
+      if (unit.status === "retired") continue;
+      (units[unit.itemId] ??= []).push(toItemUnitSummary(unit));
+    }
     return ctx.render({
       plan,
       allItems,
       templates,
+      units,
+      reservations: reservationsForCamp(plan, allPlans, checkouts),
+      returningLoans: loansReturningBefore(plan, checkouts),
+      costs: campCosts(plan, new Map(allItems.map((item) => [item.id, item]))),
       session: ctx.state.session as Session,
     });
   },
@@ -66,22 +95,76 @@ export default function CampDetailPage(
         >
           ← Back to Camp Plans
         </a>
-        <a
-          href={`/camps/${data.plan.id}/print`}
-          target="_blank"
-          rel="noopener noreferrer"
-          class="text-sm px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-        >
-          🖨️ Print List
-        </a>
+        <div class="flex gap-2">
+          <a
+            href={`/camps/${data.plan.id}/menu`}
+            class="text-sm px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            🍽️ Menu
+          </a>
+          <a
+            href={`/camps/${data.plan.id}/shopping`}
+            class="text-sm px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            🛒 Shopping
+          </a>
+          <a
+            href={`/camps/${data.plan.id}/print`}
+            target="_blank"
+            rel="noopener noreferrer"
+            class="text-sm px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            🖨️ Print List
+          </a>
+        </div>
       </div>
       <CampChecklist
         plan={data.plan}
         allItems={data.allItems}
         templates={data.templates}
+        units={data.units}
+        reservations={data.reservations}
+        returningLoans={data.returningLoans}
         canEdit={canEdit}
         csrfToken={data.session?.csrfToken}
       />
+
+      {(data.costs.total > 0 || data.costs.unpricedFoodLines > 0) && (
+        <section class="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5">
+          <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-3">
+            💷 Camp Costs
+          </h2>
+          <dl class="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt class="text-gray-500 dark:text-gray-400">Food from stock</dt>
+              <dd class="font-semibold text-gray-800 dark:text-gray-100">
+                {formatMoney(data.costs.foodFromStock)}
+              </dd>
+            </div>
+            <div>
+              <dt class="text-gray-500 dark:text-gray-400">Shopping</dt>
+              <dd class="font-semibold text-gray-800 dark:text-gray-100">
+                {formatMoney(data.costs.shopping)}
+              </dd>
+            </div>
+            <div>
+              <dt class="text-gray-500 dark:text-gray-400">Total</dt>
+              <dd class="font-semibold text-gray-800 dark:text-gray-100">
+                {formatMoney(data.costs.total)}
+              </dd>
+            </div>
+          </dl>
+          {data.costs.unpricedFoodLines > 0 && (
+            <p class="mt-3 text-xs text-amber-700 dark:text-amber-400">
+              {`${data.costs.unpricedFoodLines} packed food item${
+                data.costs.unpricedFoodLines === 1 ? " has" : "s have"
+              } no purchase cost and ${
+                data.costs.unpricedFoodLines === 1 ? "is" : "are"
+              } not counted.`}
+            </p>
+          )}
+        </section>
+      )}
     </Layout>
   );
 }
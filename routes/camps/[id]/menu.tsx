@@ -0,0 +1,595 @@
+// Camp menu — meals per day and headcount; linked food goes on the checklist
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../../components/Layout.tsx";
+import type { Session } from "../../../lib/auth.ts";
+import {
+  getAllMeals,
+  getCampPlanById,
+  getItemsByCategory,
+  getShoppingList,
+  saveShoppingList,
+  updateCampPlan,
+} from "../../../db/kv.ts";
+import type { CampPlan, InventoryItem } from "../../../types/inventory.ts";
+import type {
+  CampMenu,
+  DietaryCounts,
+  Meal,
+  Quantity,
+} from "../../../types/meals.ts";
+import {
+  menuDays,
+  type MenuNeed,
+  menuNeeds,
+  syncMenuLines,
+} from "../../../lib/campMenu.ts";
+import {
+  describeWarning,
+  DIETARY_LABELS,
+  DIETARY_REQUIREMENTS,
+  type DietaryWarning,
+  dietaryWarnings,
+  mealDietary,
+} from "../../../lib/dietary.ts";
+import { packSizeOf } from "../../../lib/units.ts";
+import {
+  type ShoppingLine,
+  shoppingListInUse,
+} from "../../../lib/shoppingList.ts";
+import { formatDate } from "../../../lib/date-utils.ts";
+import { logActivity } from "../../../lib/activityLog.ts";
+
+interface NeedRow extends MenuNeed {
+  /** Name of the linked food item, when it still exists */
+  stockName?: string;
+  onChecklist: number;
+  /** Null when the amount can't be put in packs */
+  toBuy: number | null;
+}
+
+interface CampMenuPageData {
+  session: Session;
+  plan: CampPlan;
+  meals: Meal[];
+  days: string[];
+  needs: NeedRow[];
+  warnings: DietaryWarning[];
+  /** Planned ingredients with no food item, so no allergens to check */
+  unchecked: string[];
+  /** The current shopping list has ticks or is done; ask before replacing */
+  confirmReplace?: boolean;
+  message?: string;
+  error?: string;
+}
+
+function packSizesOf(food: InventoryItem[]): Map<string, Quantity> {
+  const sizes = new Map<string, Quantity>();
+  for (const item of food) {
+    const size = item.category === "food" ? packSizeOf(item) : undefined;
+    if (size) sizes.set(item.id, size);
+  }
+  return sizes;
+}
+
+async function loadPageData(
+  session: Session,
+  plan: CampPlan,
+  extra: { message?: string; error?: string; confirmReplace?: boolean } = {},
+): Promise<CampMenuPageData> {
+  const [meals, food] = await Promise.all([
+    getAllMeals(),
+    getItemsByCategory("food"),
+  ]);
+  const names = new Map(food.map((item) => [item.id, item.name]));
+  const packSizes = packSizesOf(food);
+  const needs = plan.menu
+    ? menuNeeds(plan.menu, meals, packSizes).map((need) => {
+      const stockName = need.itemId ? names.get(need.itemId) : undefined;
+      const onChecklist = stockName
+        ? plan.items
+          .filter((line) => line.itemId === need.itemId)
+          .reduce((sum, line) => sum + line.quantityPlanned, 0)
+        : 0;
+      return {
+        ...need,
+        stockName,
+        onChecklist,
+        toBuy: need.units === null
+          ? null
+          : Math.max(0, need.units - onChecklist),
+      };
+    })
+    : [];
+  needs.sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
+
+  const served = new Set(plan.menu?.days.flatMap((day) => day.mealIds));
+  const planned = meals.filter((meal) => served.has(meal.id));
+  const allergensById = new Map(
+    food.map((item) => [
+      item.id,
+      item.category === "food" ? item.allergens ?? [] : [],
+    ]),
+  );
+  const dietary = plan.menu?.dietary ?? {};
+  const anyDietary = Object.values(dietary).some((n) => (n ?? 0) > 0);
+  return {
+    session,
+    plan,
+    meals,
+    days: menuDays(plan),
+    needs,
+    warnings: dietaryWarnings(
+      planned,
+      dietary,
+      plan.menu?.headcount ?? 0,
+      allergensById,
+    ),
+    unchecked: anyDietary
+      ? [
+        ...new Set(
+          planned.flatMap((meal) => mealDietary(meal, allergensById).unchecked),
+        ),
+      ]
+      : [],
+    ...extra,
+  };
+}
+
+/** The "To buy" column as shopping list lines. */
+function shoppingLines(needs: NeedRow[]): ShoppingLine[] {
+  return needs
+    .filter((need) => need.toBuy === null || need.toBuy > 0)
+    .map((need) => ({
+      name: need.name,
+      quantity: need.toBuy ?? undefined,
+      amount: need.amount,
+      itemId: need.stockName ? need.itemId : undefined,
+    }));
+}
+
+function readMenu(
+  form: FormData,
+  days: string[],
+  meals: Meal[],
+  username: string,
+): CampMenu | undefined {
+  const headcount = Number(form.get("headcount"));
+  if (!Number.isInteger(headcount) || headcount < 1) {
+    throw new Error("Headcount must be a whole number of at least 1.");
+  }
+  const mealIds = new Set(meals.map((meal) => meal.id));
+  const served = days
+    .map((date) => ({
+      date,
+      mealIds: form.getAll(`day-${date}`)
+        .map(String)
+        .filter((id) => mealIds.has(id)),
+    }))
+    .filter((day) => day.mealIds.length > 0);
+
+  const dietary: DietaryCounts = {};
+  for (const requirement of DIETARY_REQUIREMENTS) {
+    const raw = String(form.get(`diet-${requirement}`) ?? "").trim();
+    if (!raw) continue;
+    const people = Number(raw);
+    if (!Number.isInteger(people) || people < 0 || people > headcount) {
+      throw new Error(
+        `${
+          DIETARY_LABELS[requirement]
+        }: enter a whole number of people, up to the headcount.`,
+      );
+    }
+    if (people > 0) dietary[requirement] = people;
+  }
+  const anyDietary = Object.keys(dietary).length > 0;
+
+  if (served.length === 0 && !anyDietary) return undefined;
+  return {
+    headcount,
+    days: served,
+    dietary: anyDietary ? dietary : undefined,
+    updatedBy: username.toLowerCase(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export const handler: Handlers<CampMenuPageData> = {
+  async GET(_req, ctx) {
+    const session = ctx.state.session as Session;
+    const plan = await getCampPlanById(ctx.params.id);
+    if (!plan) {
+      return new Response(null, {
+        status: 302,
+        headers: { location: "/camps" },
+      });
+    }
+    return ctx.render(await loadPageData(session, plan));
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session;
+    const plan = await getCampPlanById(ctx.params.id);
+    if (!plan) {
+      return new Response(null, {
+        status: 302,
+        headers: { location: "/camps" },
+      });
+    }
+    if (session.role === "viewer") {
+      return ctx.render(
+        await loadPageData(session, plan, {
+          error: "Viewers cannot change the camp menu.",
+        }),
+      );
+    }
+    const form = await req.formData();
+    const csrfToken = form.get("csrf_token") as string;
+    if (!csrfToken || csrfToken !== session.csrfToken) {
+      return ctx.render(
+        await loadPageData(session, plan, {
+          error: "Invalid request. Please try again.",
+        }),
+      );
+    }
+
+    if (form.get("action") === "shopping") {
+      const { needs } = await loadPageData(session, plan);
+      const lines = shoppingLines(needs);
+      if (lines.length === 0) {
+        return ctx.render(
+          await loadPageData(session, plan, {
+            error: "Nothing to buy — the checklist covers the whole menu.",
+          }),
+        );
+      }
+      const replace = form.get("replace") === "yes";
+      if (!replace && shoppingListInUse(await getShoppingList(plan.id))) {
+        return ctx.render(
+          await loadPageData(session, plan, {
+            error:
+              "The camp's shopping list has ticked lines or has been completed. Replacing it loses what was ticked and the record of what went into stock.",
+            confirmReplace: true,
+          }),
+        );
+      }
+      try {
+        await saveShoppingList(plan.id, lines, session.username, replace);
+      } catch (err) {
+        return ctx.render(
+          await loadPageData(session, plan, {
+            error: err instanceof Error ? err.message : String(err),
+          }),
+        );
+      }
+      await logActivity({
+        username: session.username,
+        action: "camp.shopping_list_created",
+        resource: plan.name,
+        resourceId: plan.id,
+        details: `${lines.length} line${lines.length === 1 ? "" : "s"}`,
+      });
+      return new Response(null, {
+        status: 303,
+        headers: { location: `/camps/${plan.id}/shopping` },
+      });
+    }
+
+    try {
+      const [meals, food] = await Promise.all([
+        getAllMeals(),
+        getItemsByCategory("food"),
+      ]);
+      const menu = readMenu(form, menuDays(plan), meals, session.username);
+      const items = syncMenuLines(
+        plan.items,
+        menu ? menuNeeds(menu, meals, packSizesOf(food)) : [],
+        new Map(food.map((item) => [item.id, item])),
+      );
+      const updated = await updateCampPlan(plan.id, { menu, items }, plan);
+      if (!updated) throw new Error("Camp plan not found.");
+
+      const servings = (menu?.days ?? []).reduce(
+        (sum, day) => sum + day.mealIds.length,
+        0,
+      );
+      await logActivity({
+        username: session.username,
+        action: "camp.menu_updated",
+        resource: plan.name,
+        resourceId: plan.id,
+        details: menu
+          ? `${servings} meal${servings === 1 ? "" : "s"} for ${menu.headcount}`
+          : "Menu cleared",
+      });
+      return ctx.render(
+        await loadPageData(session, updated, {
+          message: menu
+            ? "Menu saved and food lines on the checklist updated."
+            : "Menu cleared and its unpacked food lines removed.",
+        }),
+      );
+    } catch (err) {
+      return ctx.render(
+        await loadPageData(session, plan, {
+          error: err instanceof Error ? err.message : "Something went wrong.",
+        }),
+      );
+    }
+  },
+};
+
+export default function CampMenuPage({ data }: PageProps<CampMenuPageData>) {
+  const {
+    session,
+    plan,
+    meals,
+    days,
+    needs,
+    warnings,
+    unchecked,
+    confirmReplace,
+    message,
+    error,
+  } = data;
+  const canEdit = session.role !== "viewer";
+  const chosen = new Map(
+    (plan.menu?.days ?? []).map((day) => [day.date, new Set(day.mealIds)]),
+  );
+  const inputClass =
+    "px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded-md focus:ring-2 focus:ring-purple-500";
+  const th = "px-4 py-2 text-left";
+  const num = "px-4 py-2 text-right whitespace-nowrap";
+
+  return (
+    <Layout
+      title={`Menu — ${plan.name}`}
+      username={session.username}
+      role={session.role}
+    >
+      <div class="mb-4">
+        <a
+          href={`/camps/${plan.id}`}
+          class="text-sm text-purple-600 dark:text-purple-400 hover:underline"
+        >
+          ← Back to {plan.name}
+        </a>
+      </div>
+
+      <p class="mb-6 text-gray-600 dark:text-gray-400">
+        Pick the meals served each day. Ingredients linked to food stock are
+        added to the camp checklist, up to what is in stock, and deducted when
+        packed. Packed lines are not changed by later edits. Meals are checked
+        against the dietary requirements using their food items' allergens.
+      </p>
+
+      {message && (
+        <div class="mb-4 p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+
+      {(warnings.length > 0 || unchecked.length > 0) && (
+        <section class="mb-8 p-5 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-lg">
+          <h2 class="text-base font-semibold text-amber-800 dark:text-amber-200 mb-2">
+            ⚠️ Dietary Requirements
+          </h2>
+          {warnings.length > 0 && (
+            <ul class="space-y-1 text-sm text-amber-800 dark:text-amber-200">
+              {warnings.map((warning) => (
+                <li key={`${warning.mealId}-${warning.requirement}`}>
+                  <span class="font-medium">{warning.mealName}:</span>{" "}
+                  {describeWarning(warning)}
+                </li>
+              ))}
+            </ul>
+          )}
+          {unchecked.length > 0 && (
+            <p class="mt-2 text-xs text-amber-700 dark:text-amber-300">
+              {`Not linked to a food item, so check the packet: ${
+                unchecked.join(", ")
+              }.`}
+            </p>
+          )}
+        </section>
+      )}
+
+      {needs.length > 0 && (
+        <section class="mb-8 bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          <h2 class="px-5 pt-5 pb-3 text-base font-semibold text-gray-800 dark:text-purple-100">
+            {`🛒 What the Menu Needs — ${plan.menu!.headcount} people`}
+          </h2>
+          <table class="w-full text-sm">
+            <thead class="bg-gray-50 dark:bg-gray-900 text-gray-600 dark:text-gray-400">
+              <tr>
+                <th class={th}>Ingredient</th>
+                <th class={th}>Stock item</th>
+                <th class={num}>Needed</th>
+                <th class={num}>On checklist</th>
+                <th class={num}>To buy</th>
+              </tr>
+            </thead>
+            <tbody class="divide-y divide-gray-100 dark:divide-gray-700">
+              {needs.map((need) => (
+                <tr key={need.itemId ?? need.name}>
+                  <td class="px-4 py-2 text-gray-800 dark:text-gray-100">
+                    {need.name}
+                  </td>
+                  <td class="px-4 py-2 text-gray-600 dark:text-gray-400">
+                    {need.stockName ?? "— not tracked —"}
+                  </td>
+                  <td class={num}>
+                    {need.units ?? "—"}
+                    {need.amount && (
+                      <span class="block text-xs text-gray-500 dark:text-gray-400">
+                        {need.units === null
+                          ? `${need.amount} — no pack size`
+                          : need.amount}
+                      </span>
+                    )}
+                  </td>
+                  <td class={num}>{need.stockName ? need.onChecklist : "—"}</td>
+                  <td
+                    class={`${num} ${
+                      need.toBuy === null || need.toBuy > 0
+                        ? "font-semibold text-amber-700 dark:text-amber-400"
+                        : "text-gray-400"
+                    }`}
+                  >
+                    {need.toBuy ?? need.amount}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {canEdit && needs.some((need) =>
+            need.toBuy === null || need.toBuy > 0
+          ) && (
+            <form
+              method="POST"
+              class="px-5 py-4 border-t border-gray-100 dark:border-gray-700 flex flex-wrap items-center gap-3"
+            >
+              <input
+                type="hidden"
+                name="csrf_token"
+                value={session.csrfToken}
+              />
+              <input type="hidden" name="action" value="shopping" />
+              {confirmReplace && (
+                <input type="hidden" name="replace" value="yes" />
+              )}
+              <button
+                type="submit"
+                class="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium rounded-lg"
+              >
+                {confirmReplace
+                  ? "🛒 Replace Shopping List Anyway"
+                  : "🛒 Make Shopping List"}
+              </button>
+              <span class="text-xs text-gray-500 dark:text-gray-400">
+                From the To buy column. Replaces the camp's current{" "}
+                <a
+                  href={`/camps/${plan.id}/shopping`}
+                  class="text-purple-600 dark:text-purple-400 hover:underline"
+                >
+                  shopping list
+                </a>.
+              </span>
+            </form>
+          )}
+        </section>
+      )}
+
+      <section class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
+        <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-1">
+          🍽️ Menu
+        </h2>
+        {plan.menu?.updatedBy && (
+          <p class="text-xs text-gray-500 dark:text-gray-400">
+            {`Last saved by ${plan.menu.updatedBy} on ${
+              formatDate(plan.menu.updatedAt)
+            }`}
+          </p>
+        )}
+        {meals.length === 0
+          ? (
+            <p class="mt-3 text-sm text-gray-500 dark:text-gray-400">
+              No meals have been added yet — recipes are set up in the{" "}
+              <a
+                href="/meals"
+                class="text-purple-600 dark:text-purple-400 hover:underline"
+              >
+                Meal Planner
+              </a>.
+            </p>
+          )
+          : (
+            <form method="POST" class="mt-4">
+              <input
+                type="hidden"
+                name="csrf_token"
+                value={session.csrfToken}
+              />
+              <label class="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-4">
+                Number of people
+                <input
+                  type="number"
+                  name="headcount"
+                  min={1}
+                  required
+                  value={plan.menu?.headcount}
+                  disabled={!canEdit}
+                  class={`block mt-1 w-32 ${inputClass}`}
+                />
+              </label>
+              <fieldset class="mb-4">
+                <legend class="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Dietary requirements — how many of them
+                </legend>
+                <div class="mt-1 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                  {DIETARY_REQUIREMENTS.map((requirement) => (
+                    <label
+                      key={requirement}
+                      class="text-sm text-gray-700 dark:text-gray-300"
+                    >
+                      {DIETARY_LABELS[requirement]}
+                      <input
+                        type="number"
+                        name={`diet-${requirement}`}
+                        min={0}
+                        value={plan.menu?.dietary?.[requirement]}
+                        disabled={!canEdit}
+                        class={`block mt-1 w-full ${inputClass}`}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+              <div class="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                {days.map((day) => (
+                  <fieldset
+                    key={day}
+                    class="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+                  >
+                    <legend class="text-sm font-medium text-gray-800 dark:text-purple-100">
+                      {formatDate(day)}
+                    </legend>
+                    {meals.map((meal) => (
+                      <label
+                        key={meal.id}
+                        class="flex items-center gap-2 mt-1.5 text-sm text-gray-700 dark:text-gray-300"
+                      >
+                        <input
+                          type="checkbox"
+                          name={`day-${day}`}
+                          value={meal.id}
+                          checked={chosen.get(day)?.has(meal.id)}
+                          disabled={!canEdit}
+                          class="rounded text-purple-600 focus:ring-purple-500"
+                        />
+                        {meal.name}
+                      </label>
+                    ))}
+                  </fieldset>
+                ))}
+              </div>
+              {canEdit && (
+                <button
+                  type="submit"
+                  class="mt-4 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium rounded-lg"
+                >
+                  Save Menu & Update Checklist
+                </button>
+              )}
+            </form>
+          )}
+      </section>
+    </Layout>
+  );
+}
@@ -7,11 +7,27 @@ import {
   ITEM_LOCATIONS,
 } from "../../../types/inventory.ts";
 import type { Session } from "../../../lib/auth.ts";
-import { getCampPlanById, getItemById } from "../../../db/kv.ts";
+import {
+  getAllMeals,
+  getCampPlanById,
+  getItemById,
+  getItemsByCategory,
+} from "../../../db/kv.ts";
 import PrintButton from "../../../islands/PrintButton.tsx";
+import type { Meal } from "../../../types/meals.ts";
+import {
+  describeWarning,
+  DIETARY_LABELS,
+  DIETARY_REQUIREMENTS,
+  type DietaryWarning,
+  dietaryWarnings,
+} from "../../../lib/dietary.ts";
 
 interface PrintPageData {
   plan: CampPlan;
+  /** Meals on the camp menu, by id */
+  meals: Record<string, Meal>;
+  warnings: DietaryWarning[];
   session: Session;
 }
 
@@ -51,12 +67,44 @@ export const handler: Handlers<PrintPageData> = {
       }),
     );
 
-    return ctx.render({ plan: { ...plan, items: enrichedItems }, session });
+    const meals: Record<string, Meal> = {};
+    let warnings: DietaryWarning[] = [];
+    if (plan.menu) {
+      const [allMeals, food] = await Promise.all([
+        getAllMeals(),
+        getItemsByCategory("food"),
+      ]);
+      const served = new Set(plan.menu.days.flatMap((day) => day.mealIds));
+      for (const meal of allMeals) {
+        if (served.has(meal.id)) meals[meal.id] = meal;
+      }
+      warnings = dietaryWarnings(
+        Object.values(meals),
+        plan.menu.dietary ?? {},
+        plan.menu.headcount,
+        new Map(
+          food.map((item) => [
+            item.id,
+            item.category === "food" ? item.allergens ?? [] : [],
+          ]),
+        ),
+      );
+    }
+
+    return ctx.render({
+      plan: { ...plan, items: enrichedItems },
+      meals,
+      warnings,
+      session,
+    });
   },
 };
 
 export default function CampPrintPage({ data }: PageProps<PrintPageData>) {
-  const { plan } = data;
+  const { plan, meals, warnings } = data;
+  const dietary = DIETARY_REQUIREMENTS
+    .filter((r) => (plan.menu?.dietary?.[r] ?? 0) > 0)
+    .map((r) => `${plan.menu!.dietary![r]} ${DIETARY_LABELS[r].toLowerCase()}`);
 
   const gear = plan.items.filter((i) => i.itemCategory !== "food");
   const food = plan.items.filter((i) => i.itemCategory === "food");
@@ -136,6 +184,7 @@ export default function CampPrintPage({ data }: PageProps<PrintPageData>) {
           .check.ticked { background: #111; }
           .check.ticked::after { content: "✓"; color: white; font-size: 0.75rem; display: flex; align-items: center; justify-content: center; line-height: 1.2rem; }
           .notes { font-size: 0.75rem; color: #888; font-style: italic; }
+          .warnings { margin: 0.5rem 0 0 1rem; font-size: 0.8rem; color: #92400e; }
           .footer { margin-top: 2rem; font-size: 0.7rem; color: #aaa; border-top: 1px solid #e5e7eb; padding-top: 0.5rem; }
           @media print {
             body { background: white; padding: 0; }
@@ -291,6 +340,40 @@ export default function CampPrintPage({ data }: PageProps<PrintPageData>) {
             </div>
           ))}
 
+          {/* Menu */}
+          {plan.menu && plan.menu.days.length > 0 && (
+            <div>
+              <h2>🍽️ Menu — {plan.menu.headcount} people</h2>
+              <table>
+                <tbody>
+                  {plan.menu.days.map((day) => (
+                    <tr key={day.date}>
+                      <td style="width:10rem">{fmt(day.date)}</td>
+                      <td>
+                        {day.mealIds
+                          .map((id) => meals[id]?.name)
+                          .filter(Boolean)
+                          .join(", ")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {dietary.length > 0 && (
+                <p class="notes">Dietary: {dietary.join(", ")}</p>
+              )}
+              {warnings.length > 0 && (
+                <ul class="warnings">
+                  {warnings.map((w) => (
+                    <li key={`${w.mealId}-${w.requirement}`}>
+                      {`⚠️ ${w.mealName}: ${describeWarning(w)}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* Food list */}
           {food.length > 0 && (
             <div>
@@ -0,0 +1,240 @@
+// Camp shopping list — tick off on a phone, then put the food into stock
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../../components/Layout.tsx";
+import type { Session } from "../../../lib/auth.ts";
+import {
+  completeShoppingList,
+  getCampPlanById,
+  getItemsByCategory,
+  getShoppingList,
+} from "../../../db/kv.ts";
+import type { CampPlan } from "../../../types/inventory.ts";
+import type { ShoppingList } from "../../../types/meals.ts";
+import ShoppingChecklist from "../../../islands/ShoppingChecklist.tsx";
+import { formatDate } from "../../../lib/date-utils.ts";
+import { logActivity } from "../../../lib/activityLog.ts";
+
+interface ShoppingPageData {
+  session: Session;
+  plan: CampPlan;
+  list: ShoppingList | null;
+  /** Names of the food items the list's lines are linked to */
+  stockNames: Record<string, string>;
+  message?: string;
+  error?: string;
+}
+
+async function loadPageData(
+  session: Session,
+  plan: CampPlan,
+  extra: { message?: string; error?: string } = {},
+): Promise<ShoppingPageData> {
+  const [list, food] = await Promise.all([
+    getShoppingList(plan.id),
+    getItemsByCategory("food"),
+  ]);
+  const linked = new Set(list?.items.map((line) => line.itemId));
+  return {
+    session,
+    plan,
+    list,
+    stockNames: Object.fromEntries(
+      food
+        .filter((item) => linked.has(item.id))
+        .map((item) => [item.id, item.name]),
+    ),
+    ...extra,
+  };
+}
+
+/** Quantities and expiry dates from the completion form, for linked lines. */
+function readReceipts(
+  form: FormData,
+  list: ShoppingList,
+  foodIds: Set<string>,
+): { lineId: string; quantity: number; expiryDate: Date }[] {
+  const receipts = [];
+  for (const line of list.items) {
+    if (!line.bought || !line.itemId || !foodIds.has(line.itemId)) continue;
+    const raw = form.get(`quantity-${line.id}`);
+    if (raw === null) continue;
+    const quantity = Number(raw);
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      throw new Error(`${line.name}: quantity must be a whole number.`);
+    }
+    if (quantity === 0) continue;
+    const expiry = String(form.get(`expiry-${line.id}`) ?? "");
+    const expiryDate = new Date(`${expiry}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(expiry) || isNaN(expiryDate.getTime())) {
+      throw new Error(`${line.name}: enter the expiry date from the packet.`);
+    }
+    receipts.push({ lineId: line.id, quantity, expiryDate });
+  }
+  return receipts;
+}
+
+export const handler: Handlers<ShoppingPageData> = {
+  async GET(_req, ctx) {
+    const session = ctx.state.session as Session;
+    const plan = await getCampPlanById(ctx.params.id);
+    if (!plan) {
+      return new Response(null, {
+        status: 302,
+        headers: { location: "/camps" },
+      });
+    }
+    return ctx.render(await loadPageData(session, plan));
+  },
+
+  // POST — finish the shop: add ticked food to stock and complete the list
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session;
+    const plan = await getCampPlanById(ctx.params.id);
+    if (!plan) {
+      return new Response(null, {
+        status: 302,
+        headers: { location: "/camps" },
+      });
+    }
+    if (session.role === "viewer") {
+      return ctx.render(
+        await loadPageData(session, plan, {
+          error: "Viewers cannot change the shopping list.",
+        }),
+      );
+    }
+    const form = await req.formData();
+    const csrfToken = form.get("csrf_token") as string;
+    if (!csrfToken || csrfToken !== session.csrfToken) {
+      return ctx.render(
+        await loadPageData(session, plan, {
+          error: "Invalid request. Please try again.",
+        }),
+      );
+    }
+
+    try {
+      const [list, food] = await Promise.all([
+        getShoppingList(plan.id),
+        getItemsByCategory("food"),
+      ]);
+      if (!list) throw new Error("This camp has no shopping list.");
+      const receipts = readReceipts(
+        form,
+        list,
+        new Set(food.map((item) => item.id)),
+      );
+      const completed = await completeShoppingList(
+        plan.id,
+        receipts,
+        session.username,
+      );
+      if (!completed) throw new Error("This camp has no shopping list.");
+
+      const added = completed.items.filter((line) =>
+        line.addedToStock !== undefined
+      ).length;
+      await logActivity({
+        username: session.username,
+        action: "camp.shopping_list_completed",
+        resource: plan.name,
+        resourceId: plan.id,
+        details: `${added} line${added === 1 ? "" : "s"} added to stock`,
+      });
+      return ctx.render(
+        await loadPageData(session, plan, {
+          message: added > 0
+            ? `Shopping complete — ${added} food item${
+              added === 1 ? "" : "s"
+            } added to stock as new batches.`
+            : "Shopping complete.",
+        }),
+      );
+    } catch (err) {
+      return ctx.render(
+        await loadPageData(session, plan, {
+          error: err instanceof Error ? err.message : "Something went wrong.",
+        }),
+      );
+    }
+  },
+};
+
+export default function CampShoppingPage(
+  { data }: PageProps<ShoppingPageData>,
+) {
+  const { session, plan, list, stockNames, message, error } = data;
+  const linkClass =
+    "px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700";
+
+  return (
+    <Layout
+      title={`Shopping — ${plan.name}`}
+      username={session.username}
+      role={session.role}
+    >
+      <div class="mb-4">
+        <a
+          href={`/camps/${plan.id}`}
+          class="text-sm text-purple-600 dark:text-purple-400 hover:underline"
+        >
+          ← Back to {plan.name}
+        </a>
+      </div>
+
+      {message && (
+        <div class="mb-4 p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+
+      {!list
+        ? (
+          <p class="text-gray-600 dark:text-gray-400">
+            No shopping list yet. Make one from the camp's{" "}
+            <a
+              href={`/camps/${plan.id}/menu`}
+              class="text-purple-600 dark:text-purple-400 hover:underline"
+            >
+              menu
+            </a>{" "}
+            or save one from the Meal Planner.
+          </p>
+        )
+        : (
+          <>
+            <div class="mb-4 flex flex-wrap items-center justify-between gap-3">
+              <p class="text-sm text-gray-500 dark:text-gray-400">
+                {list.completedAt
+                  ? `Completed by ${list.completedBy} on ${
+                    formatDate(list.completedAt)
+                  }`
+                  : `Made by ${list.createdBy} on ${
+                    formatDate(list.createdAt)
+                  }`}
+              </p>
+              <div class="flex gap-2">
+                <a href={`/camps/${plan.id}/shopping/print`} class={linkClass}>
+                  🖨️ Print
+                </a>
+                <a href={`/camps/${plan.id}/shopping/export`} class={linkClass}>
+                  ⬇️ CSV
+                </a>
+              </div>
+            </div>
+            <ShoppingChecklist
+              list={list}
+              stockNames={stockNames}
+              canEdit={session.role !== "viewer"}
+              csrfToken={session.csrfToken}
+            />
+          </>
+        )}
+    </Layout>
+  );
+}
@@ -0,0 +1,30 @@
+// GET /camps/[id]/shopping/export — downloads the camp's shopping list as CSV
+import type { Handlers } from "$fresh/server.ts";
+import { getCampPlanById, getShoppingList } from "../../../../db/kv.ts";
+import { shoppingListCsv } from "../../../../lib/shoppingList.ts";
+
+export const handler: Handlers = {
+  async GET(_req, ctx) {
+    const [plan, list] = await Promise.all([
+      getCampPlanById(ctx.params.id),
+      getShoppingList(ctx.params.id),
+    ]);
+    if (!plan || !list) {
+      return new Response(null, {
+        status: 302,
+        headers: { location: `/camps/${ctx.params.id}/shopping` },
+      });
+    }
+    const slug = plan.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    return new Response(shoppingListCsv(list), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="shopping-${
+          slug || "camp"
+        }.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  },
+};
@@ -5,12 +5,18 @@ import Layout from "../../components/Layout.tsx";
 import CampPlanList from "../../islands/CampPlanList.tsx";
 import CampCalendar from "../../islands/CampCalendar.tsx";
 import type { Session } from "../../lib/auth.ts";
-import { getAllCampPlans } from "../../db/kv.ts";
+import { getAllCampPlans, getAllCheckOuts, getAllItems } from "../../db/kv.ts";
+import {
+  type CampConflict,
+  findCampConflicts,
+} from "../../lib/campReservations.ts";
 
 type ViewMode = "list" | "calendar";
 
 interface CampsPageData {
   plans: CampPlan[];
+  /** Contended items per camp, for the calendar */
+  conflicts: Record<string, CampConflict[]>;
   session?: Session;
   view: ViewMode;
 }
@@ -23,11 +29,24 @@ export const handler: Handlers<CampsPageData> = {
         ? "calendar"
         : "list";
       const plans = await getAllCampPlans();
-      return ctx.render({ plans, session: ctx.state.session as Session, view });
+      const conflicts = view === "calendar"
+        ? findCampConflicts(
+          plans,
+          await getAllItems(),
+          await getAllCheckOuts(),
+        )
+        : {};
+      return ctx.render({
+        plans,
+        conflicts,
+        session: ctx.state.session as Session,
+        view,
+      });
     } catch (error) {
       console.error("Failed to fetch camp plans:", error);
       return ctx.render({
         plans: [],
+        conflicts: {},
         session: ctx.state.session as Session,
         view: "list",
       });
@@ -95,13 +114,15 @@ export default function CampsPage({ data }: PageProps<CampsPageData>) {
         </div>
       </div>
 
-      {isCalendar ? <CampCalendar plans={data.plans} /> : (
-        <CampPlanList
-          plans={data.plans}
-          canEdit={canEdit}
-          csrfToken={data.session?.csrfToken}
-        />
-      )}
+      {isCalendar
+        ? <CampCalendar plans={data.plans} conflicts={data.conflicts} />
+        : (
+          <CampPlanList
+            plans={data.plans}
+            canEdit={canEdit}
+            csrfToken={data.session?.csrfToken}
+          />
+        )}
     </Layout>
   );
 }
@@ -4,20 +4,32 @@ import type { Session } from "../../lib/auth.ts";
 import {
   createFirstAidCatalogItem,
   deleteFirstAidCatalogItem,
+  deleteFirstAidProfile,
   getAllFirstAidCatalogItems,
   getAllFirstAidKits,
+  getAllFirstAidProfiles,
+  getFirstAidProfileById,
+  saveFirstAidProfile,
   updateFirstAidCatalogItem,
 } from "../../db/kv.ts";
 import {
   FIRST_AID_SECTIONS,
   type FirstAidCatalogItem,
   type FirstAidKit,
+  type FirstAidKitProfile,
   type FirstAidSection,
 } from "../../types/firstAid.ts";
+import {
+  describeDiff,
+  hasDrifted,
+  profileDiff,
+} from "../../lib/firstAidProfiles.ts";
+import { logActivity } from "../../lib/activityLog.ts";
 
 interface FirstAidCatalogPageData {
   catalog: FirstAidCatalogItem[];
   kits: FirstAidKit[];
+  profiles: FirstAidKitProfile[];
   session?: Session;
   error?: string;
 }
@@ -37,11 +49,12 @@ export const handler: Handlers<FirstAidCatalogPageData> = {
     if (session.role === "explorer") {
       return new Response("Forbidden", { status: 403 });
     }
-    const [catalog, kits] = await Promise.all([
+    const [catalog, kits, profiles] = await Promise.all([
       getAllFirstAidCatalogItems(),
       getAllFirstAidKits(),
+      getAllFirstAidProfiles(),
     ]);
-    return ctx.render({ catalog, kits, session });
+    return ctx.render({ catalog, kits, profiles, session });
   },
 
   async POST(req, ctx) {
@@ -99,6 +112,64 @@ export const handler: Handlers<FirstAidCatalogPageData> = {
       });
     }
 
+    if (action?.startsWith("profile_") && session.role !== "admin") {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    if (action === "profile_create" || action === "profile_clone") {
+      const source = action === "profile_clone"
+        ? await getFirstAidProfileById(form.get("profileId")?.toString() ?? "")
+        : null;
+      const label = action === "profile_clone"
+        ? source && `${source.label} (Copy)`
+        : form.get("label")?.toString().trim().slice(0, 80);
+      if (!label) {
+        return new Response(null, {
+          status: 303,
+          headers: { Location: "/first-aid/catalog" },
+        });
+      }
+      const profile = await saveFirstAidProfile({
+        id: `profile-${crypto.randomUUID().slice(0, 8)}`,
+        label,
+        description: source?.description ??
+          form.get("description")?.toString().trim().slice(0, 200) ?? "",
+        items: source?.items.map((item) => ({ ...item })) ?? [],
+        updatedBy: session.username,
+        updatedAt: new Date(),
+      });
+      await logActivity({
+        username: session.username,
+        action: "first_aid.profile_saved",
+        resource: profile.label,
+        resourceId: profile.id,
+        details: source ? `Cloned from ${source.label}` : "Created",
+      });
+      return new Response(null, {
+        status: 303,
+        headers: { Location: `/first-aid/profiles/${profile.id}` },
+      });
+    }
+
+    if (action === "profile_delete") {
+      const profile = await getFirstAidProfileById(
+        form.get("profileId")?.toString() ?? "",
+      );
+      if (profile) {
+        await deleteFirstAidProfile(profile.id);
+        await logActivity({
+          username: session.username,
+          action: "first_aid.profile_deleted",
+          resource: profile.label,
+          resourceId: profile.id,
+        });
+      }
+      return new Response(null, {
+        status: 303,
+        headers: { Location: "/first-aid/catalog" },
+      });
+    }
+
     return new Response(null, {
       status: 303,
       headers: { Location: "/first-aid/catalog" },
@@ -118,6 +189,17 @@ export default function FirstAidCatalogPage(
     }
   }
 
+  const isAdmin = data.session?.role === "admin";
+  const profilesById = new Map(data.profiles.map((p) => [p.id, p]));
+  const drifted = data.kits.flatMap((kit) => {
+    const profile = kit.profileId ? profilesById.get(kit.profileId) : undefined;
+    if (!profile) return [];
+    const diff = profileDiff(kit, profile, data.catalog);
+    return hasDrifted(diff) ? [{ kit, profile, diff }] : [];
+  });
+  const inputClass =
+    "w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm";
+
   const groupedCatalog = FIRST_AID_SECTIONS.map((section) => ({
     section,
     items: data.catalog
@@ -151,6 +233,134 @@ export default function FirstAidCatalogPage(
       </div>
 
       <div class="space-y-6">
+        <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
+          <h3 class="text-base font-semibold text-gray-900 dark:text-white mb-1">
+            Kit Profiles
+          </h3>
+          <p class="text-sm text-gray-500 dark:text-gray-400 mb-3">
+            Standard loadouts new kits are filled from
+          </p>
+          <ul class="divide-y divide-gray-100 dark:divide-gray-700 mb-4">
+            {data.profiles.map((profile) => (
+              <li
+                key={profile.id}
+                class="py-2 flex flex-wrap items-center justify-between gap-2"
+              >
+                <div>
+                  <a
+                    href={`/first-aid/profiles/${profile.id}`}
+                    class="text-sm font-medium text-purple-600 dark:text-purple-400 hover:underline"
+                  >
+                    {profile.label}
+                  </a>
+                  <p class="text-xs text-gray-500 dark:text-gray-400">
+                    {`${profile.items.length} item${
+                      profile.items.length === 1 ? "" : "s"
+                    } · ${
+                      data.kits.filter((kit) => kit.profileId === profile.id)
+                        .length
+                    } kit(s)`}
+                    {profile.description ? ` · ${profile.description}` : ""}
+                  </p>
+                </div>
+                {isAdmin && (
+                  <form method="POST" class="flex gap-2">
+                    <input
+                      type="hidden"
+                      name="_csrf"
+                      value={data.session?.csrfToken ?? ""}
+                    />
+                    <input type="hidden" name="profileId" value={profile.id} />
+                    <button
+                      type="submit"
+                      name="action"
+                      value="profile_clone"
+                      class="px-2 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                    >
+                      Clone
+                    </button>
+                    <button
+                      type="submit"
+                      name="action"
+                      value="profile_delete"
+                      class="px-2 py-1 text-sm bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded hover:bg-red-200 dark:hover:bg-red-900/50"
+                      title="Kits built from this profile keep their items"
+                    >
+                      Delete
+                    </button>
+                  </form>
+                )}
+              </li>
+            ))}
+          </ul>
+          {isAdmin && (
+            <form
+              method="POST"
+              class="grid grid-cols-1 md:grid-cols-4 gap-2 items-end"
+            >
+              <input
+                type="hidden"
+                name="_csrf"
+                value={data.session?.csrfToken ?? ""}
+              />
+              <input type="hidden" name="action" value="profile_create" />
+              <div>
+                <label class="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                  Profile Name
+                </label>
+                <input
+                  name="label"
+                  required
+                  maxLength={80}
+                  class={inputClass}
+                />
+              </div>
+              <div class="md:col-span-2">
+                <label class="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                  Description
+                </label>
+                <input
+                  name="description"
+                  maxLength={200}
+                  class={inputClass}
+                />
+              </div>
+              <button
+                type="submit"
+                class="px-3 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700"
+              >
+                New Profile
+              </button>
+            </form>
+          )}
+        </div>
+
+        {drifted.length > 0 && (
+          <div class="bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800 p-5 sm:p-6">
+            <h3 class="text-base font-semibold text-amber-900 dark:text-amber-100 mb-1">
+              Kits Drifted From Their Profile
+            </h3>
+            <p class="text-sm text-amber-800 dark:text-amber-200 mb-3">
+              Open the profile to preview and apply its changes.
+            </p>
+            <ul class="space-y-1 text-sm">
+              {drifted.map(({ kit, profile, diff }) => (
+                <li key={kit.id} class="text-amber-900 dark:text-amber-100">
+                  <span class="font-medium">{kit.name}</span>
+                  {" — "}
+                  <a
+                    href={`/first-aid/profiles/${profile.id}`}
+                    class="underline"
+                  >
+                    {profile.label}
+                  </a>
+                  {`: ${describeDiff(diff)}`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {canEdit && (
           <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
             <h3 class="text-base font-semibold text-gray-900 dark:text-white mb-3">
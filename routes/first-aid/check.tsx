@@ -41,6 +41,7 @@ export const handler: Handlers<FirstAidCheckPageData> = {
           itemName: entry.name,
           section: sectionByItemId.get(entry.itemId) ?? "General",
           quantityTarget: entry.quantityTarget,
+          expiryBatches: entry.expiryBatches,
         }))
       )
       .sort((a, b) =>
@@ -0,0 +1,260 @@
+// First aid kit check history — every recorded check of one kit and how its
+// counts have drifted from target
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../../components/Layout.tsx";
+import type { Session } from "../../../lib/auth.ts";
+import { getFirstAidCheckHistory, getFirstAidKitById } from "../../../db/kv.ts";
+import type { FirstAidCheckRecord } from "../../../types/firstAid.ts";
+import {
+  checkSummary,
+  varianceGrid,
+} from "../../../lib/firstAidCheckHistory.ts";
+import { formatDate } from "../../../lib/date-utils.ts";
+
+interface KitHistoryData {
+  session: Session;
+  kitId: string;
+  kitName: string;
+  /** False once the kit has been deleted — its history is still kept */
+  kitExists: boolean;
+  records: FirstAidCheckRecord[];
+}
+
+export const handler: Handlers<KitHistoryData> = {
+  async GET(_req, ctx) {
+    const kitId = ctx.params.kitId;
+    const [kit, records] = await Promise.all([
+      getFirstAidKitById(kitId),
+      getFirstAidCheckHistory(kitId),
+    ]);
+    if (!kit && records.length === 0) {
+      return new Response(null, {
+        status: 302,
+        headers: { location: "/first-aid" },
+      });
+    }
+    return ctx.render({
+      session: ctx.state.session as Session,
+      kitId,
+      kitName: kit?.name ?? records[0].kitName,
+      kitExists: !!kit,
+      records,
+    });
+  },
+};
+
+function VarianceCell({ value }: { value: number | null | undefined }) {
+  if (value === undefined) {
+    return (
+      <td class="px-2 py-2 text-center text-gray-300 dark:text-gray-600">·</td>
+    );
+  }
+  if (value === null) {
+    return (
+      <td class="px-2 py-2 text-center text-xs text-gray-400 dark:text-gray-500">
+        skip
+      </td>
+    );
+  }
+  const colour = value < 0
+    ? "text-red-700 dark:text-red-300 font-semibold"
+    : value > 0
+    ? "text-amber-700 dark:text-amber-300"
+    : "text-green-700 dark:text-green-400";
+  return (
+    <td class={`px-2 py-2 text-center tabular-nums ${colour}`}>
+      {value === 0 ? "✓" : value > 0 ? `+${value}` : value}
+    </td>
+  );
+}
+
+export default function FirstAidKitHistoryPage(
+  { data }: PageProps<KitHistoryData>,
+) {
+  const { session, kitId, kitName, kitExists, records } = data;
+  const { checks, rows } = varianceGrid(records);
+
+  return (
+    <Layout
+      title={`Check History — ${kitName}`}
+      username={session.username}
+      role={session.role}
+    >
+      <div class="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <a
+          href="/first-aid"
+          class="text-sm text-purple-600 dark:text-purple-400 hover:underline"
+        >
+          ← Back to First Aid
+        </a>
+        {kitExists && (
+          <a
+            href={`/first-aid/check?kit=${kitId}`}
+            class="px-3 py-1.5 text-sm border border-green-300 dark:border-green-700 text-green-700 dark:text-green-300 rounded hover:bg-green-50 dark:hover:bg-green-900/20"
+          >
+            Check This Kit
+          </a>
+        )}
+      </div>
+
+      {!kitExists && (
+        <div class="mb-4 p-3 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-300 rounded">
+          This kit has been deleted. Its past checks are kept for the record.
+        </div>
+      )}
+
+      {records.length === 0
+        ? (
+          <p class="text-gray-600 dark:text-gray-400">
+            No checks recorded for this kit yet.
+          </p>
+        )
+        : (
+          <div class="space-y-8">
+            <section>
+              <h2 class="text-lg font-semibold text-gray-800 dark:text-purple-100 mb-1">
+                Variance Over Time
+              </h2>
+              <p class="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                {`Counted minus target at each of the last ${checks.length} check${
+                  checks.length === 1 ? "" : "s"
+                }, oldest on the left.`}
+              </p>
+              <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                <table class="min-w-full text-sm">
+                  <thead class="bg-gray-50 dark:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
+                    <tr>
+                      <th class="px-4 py-2 text-left font-semibold text-gray-600 dark:text-gray-300">
+                        Item
+                      </th>
+                      {checks.map((check) => (
+                        <th
+                          key={check.checkId}
+                          class="px-2 py-2 text-center text-xs font-medium text-gray-500 dark:text-gray-400 whitespace-nowrap"
+                        >
+                          {formatDate(check.checkedAt)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody class="divide-y divide-gray-100 dark:divide-gray-700">
+                    {rows.map((row) => (
+                      <tr key={row.itemId}>
+                        <td class="px-4 py-2">
+                          <div class="text-gray-800 dark:text-gray-100">
+                            {row.itemName}
+                          </div>
+                          <div class="text-xs text-gray-500 dark:text-gray-400">
+                            {row.section}
+                          </div>
+                        </td>
+                        {row.variances.map((value, idx) => (
+                          <VarianceCell
+                            key={checks[idx].checkId}
+                            value={value}
+                          />
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section>
+              <h2 class="text-lg font-semibold text-gray-800 dark:text-purple-100 mb-3">
+                Checks
+              </h2>
+              <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                <table class="min-w-full text-sm">
+                  <thead class="bg-gray-50 dark:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
+                    <tr>
+                      <th class="px-4 py-2 text-left font-semibold text-gray-600 dark:text-gray-300">
+                        Date
+                      </th>
+                      <th class="px-4 py-2 text-left font-semibold text-gray-600 dark:text-gray-300">
+                        Checked By
+                      </th>
+                      <th class="px-4 py-2 text-center font-semibold text-gray-600 dark:text-gray-300">
+                        Counted
+                      </th>
+                      <th class="px-4 py-2 text-center font-semibold text-gray-600 dark:text-gray-300">
+                        Short
+                      </th>
+                      <th class="px-4 py-2 text-center font-semibold text-gray-600 dark:text-gray-300">
+                        Skipped
+                      </th>
+                      <th class="px-4 py-2 text-left font-semibold text-gray-600 dark:text-gray-300">
+                        Notes
+                      </th>
+                      <th class="px-4 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody class="divide-y divide-gray-100 dark:divide-gray-700">
+                    {records.map((record) => {
+                      const summary = checkSummary(record);
+                      return (
+                        <tr key={record.checkId} class="align-top">
+                          <td class="px-4 py-2 whitespace-nowrap text-gray-800 dark:text-gray-100">
+                            {formatDate(record.checkedAt)}
+                            <div class="text-xs text-gray-500 dark:text-gray-400">
+                              {record.checkScope === "overall"
+                                ? "Full check"
+                                : "Kit check"}
+                            </div>
+                          </td>
+                          <td class="px-4 py-2 text-gray-700 dark:text-gray-300">
+                            {record.checkedBy}
+                          </td>
+                          <td class="px-4 py-2 text-center text-gray-700 dark:text-gray-300">
+                            {summary.checked}
+                          </td>
+                          <td
+                            class={`px-4 py-2 text-center ${
+                              summary.short > 0
+                                ? "text-red-700 dark:text-red-300 font-semibold"
+                                : "text-gray-700 dark:text-gray-300"
+                            }`}
+                          >
+                            {summary.short}
+                            {record.restockedAt && (
+                              <span class="block text-xs font-normal text-green-600 dark:text-green-400">
+                                {`${
+                                  Object.values(record.restocked ?? {}).reduce(
+                                    (sum, qty) => sum + qty,
+                                    0,
+                                  )
+                                } restocked`}
+                              </span>
+                            )}
+                          </td>
+                          <td class="px-4 py-2 text-center text-gray-700 dark:text-gray-300">
+                            {summary.skipped}
+                          </td>
+                          <td class="px-4 py-2 text-gray-600 dark:text-gray-400 whitespace-pre-line">
+                            {record.notes ?? ""}
+                          </td>
+                          <td class="px-4 py-2 text-right whitespace-nowrap">
+                            {summary.short > 0 && (
+                              <a
+                                href={`/first-aid/history/${kitId}/print?check=${record.checkId}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                class="text-purple-600 dark:text-purple-400 hover:underline"
+                              >
+                                🖨️ Shortages
+                              </a>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          </div>
+        )}
+    </Layout>
+  );
+}
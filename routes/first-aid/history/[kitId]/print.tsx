@@ -0,0 +1,163 @@
+// Reprint of the shortage report from a past kit check
+import { Handlers, PageProps } from "$fresh/server.ts";
+import type { FirstAidCheckRecord } from "../../../../types/firstAid.ts";
+import { getFirstAidCheckRecord } from "../../../../db/kv.ts";
+import PrintButton from "../../../../islands/PrintButton.tsx";
+import { formatDate } from "../../../../lib/date-utils.ts";
+import { checkShortages } from "../../../../lib/firstAidCheckHistory.ts";
+
+interface ShortagePrintData {
+  record: FirstAidCheckRecord;
+}
+
+export const handler: Handlers<ShortagePrintData> = {
+  async GET(req, ctx) {
+    const kitId = ctx.params.kitId;
+    const checkId = new URL(req.url).searchParams.get("check") ?? "";
+    const record = checkId
+      ? await getFirstAidCheckRecord(kitId, checkId)
+      : null;
+    if (!record) {
+      return new Response(null, {
+        status: 302,
+        headers: { location: `/first-aid/history/${kitId}` },
+      });
+    }
+    return ctx.render({ record });
+  },
+};
+
+export default function FirstAidShortagePrintPage(
+  { data }: PageProps<ShortagePrintData>,
+) {
+  const { record } = data;
+  const shortages = checkShortages(record);
+
+  return (
+    <html lang="en">
+      <head>
+        <meta charset="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <title>First Aid Shortage Report — {record.kitName}</title>
+        <style>
+          {`
+          *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+          body {
+            font-family: system-ui, -apple-system, sans-serif;
+            font-size: 13px;
+            color: #111;
+            background: #f9fafb;
+            padding: 1.5rem;
+          }
+          .no-print {
+            display: flex;
+            gap: 0.75rem;
+            align-items: center;
+            margin-bottom: 1.5rem;
+            flex-wrap: wrap;
+          }
+          .btn {
+            padding: 0.4rem 1rem;
+            border-radius: 0.375rem;
+            font-size: 0.8rem;
+            font-weight: 500;
+            cursor: pointer;
+            text-decoration: none;
+            display: inline-block;
+          }
+          .btn-secondary { background: white; color: #374151; border: 1px solid #d1d5db; }
+          .btn-secondary:hover { background: #f3f4f6; }
+          .page {
+            background: white;
+            max-width: 700px;
+            margin: 0 auto;
+            padding: 2rem;
+            border: 1px solid #e5e7eb;
+          }
+          .header { margin-bottom: 1.5rem; border-bottom: 2px solid #111; padding-bottom: 0.75rem; }
+          .header h1 { font-size: 1.5rem; font-weight: 700; }
+          .header .meta { font-size: 0.8rem; color: #555; margin-top: 0.25rem; }
+          table { width: 100%; border-collapse: collapse; }
+          th { text-align: left; font-size: 0.75rem; font-weight: 600; color: #666; border-bottom: 1px solid #ccc; padding: 0.3rem 0.4rem; }
+          td { padding: 0.45rem 0.4rem; border-bottom: 1px solid #f0f0f0; vertical-align: middle; }
+          tr:last-child td { border-bottom: none; }
+          .num { text-align: center; width: 5rem; }
+          .notes { margin-top: 1.5rem; white-space: pre-line; }
+          .notes h2 { font-size: 0.8rem; font-weight: 600; color: #666; margin-bottom: 0.25rem; }
+          .footer { margin-top: 2rem; font-size: 0.7rem; color: #aaa; border-top: 1px solid #e5e7eb; padding-top: 0.5rem; }
+          @media print {
+            body { background: white; padding: 0; }
+            .no-print { display: none !important; }
+            .page { border: none; padding: 0; max-width: 100%; }
+            tr { break-inside: avoid; }
+          }
+        `}
+        </style>
+      </head>
+      <body>
+        <div class="no-print">
+          <a
+            href={`/first-aid/history/${record.kitId}`}
+            class="btn btn-secondary"
+          >
+            ← Back to History
+          </a>
+          <PrintButton label="🖨️ Print Report" />
+        </div>
+
+        <div class="page">
+          <div class="header">
+            <h1>🩹 First Aid Shortage Report — {record.kitName}</h1>
+            <div class="meta">
+              {`Checked by ${record.checkedBy} on ${
+                formatDate(record.checkedAt)
+              } · ${shortages.length} shortage${
+                shortages.length === 1 ? "" : "s"
+              }`}
+            </div>
+          </div>
+
+          {shortages.length === 0
+            ? <p>Every counted item met its target at this check.</p>
+            : (
+              <table>
+                <thead>
+                  <tr>
+                    <th>Section</th>
+                    <th>Item</th>
+                    <th class="num">Target</th>
+                    <th class="num">Counted</th>
+                    <th class="num">Missing</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shortages.map((line) => (
+                    <tr key={line.itemId}>
+                      <td>{line.section}</td>
+                      <td>{line.itemName}</td>
+                      <td class="num">{line.quantityTarget}</td>
+                      <td class="num">{line.countedQty}</td>
+                      <td class="num">
+                        {line.quantityTarget - line.countedQty!}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+          {record.notes && (
+            <div class="notes">
+              <h2>Notes</h2>
+              <p>{record.notes}</p>
+            </div>
+          )}
+
+          <div class="footer">
+            Reprinted from the check history, {formatDate(new Date())}
+          </div>
+        </div>
+      </body>
+    </html>
+  );
+}
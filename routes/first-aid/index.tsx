@@ -9,24 +9,26 @@ import {
   dismissFirstAidOverallCheckReminder,
   getAllFirstAidCatalogItems,
   getAllFirstAidKits,
+  getAllFirstAidProfiles,
   getFirstAidKitById,
   getFirstAidKitCheckStates,
   getFirstAidOverallCheckState,
+  getFirstAidProfileById,
   resetFirstAidCheckStates,
   updateFirstAidKit,
 } from "../../db/kv.ts";
 import {
   buildEntriesFromProfile,
-  FIRST_AID_PROFILES,
   getCatalogItemName,
 } from "../../lib/firstAidCatalog.ts";
-import type { FirstAidKit } from "../../types/firstAid.ts";
+import type { FirstAidKit, FirstAidKitProfile } from "../../types/firstAid.ts";
 import type { FirstAidCatalogItem } from "../../types/firstAid.ts";
 import { logActivity } from "../../lib/activityLog.ts";
 
 interface FirstAidPageData {
   kits: FirstAidKit[];
   catalog: FirstAidCatalogItem[];
+  profiles: FirstAidKitProfile[];
   editingKitId?: string | null;
   kitLastCheckedById?: Record<string, Date | null>;
   kitDismissedUntilById?: Record<string, Date | null>;
@@ -102,8 +104,11 @@ function formatNextCheckDue(
   });
 }
 
-function profileLabel(profileId?: string): string {
-  return FIRST_AID_PROFILES.find((p) => p.id === profileId)?.label ?? "Custom";
+function profileLabel(
+  profiles: FirstAidKitProfile[],
+  profileId?: string,
+): string {
+  return profiles.find((p) => p.id === profileId)?.label ?? "Custom";
 }
 
 function profileChipClass(profileId?: string): string {
@@ -121,10 +126,11 @@ export const handler: Handlers<FirstAidPageData> = {
     }
     const url = new URL(req.url);
     const editingKitId = url.searchParams.get("edit")?.trim() || null;
-    const [kits, catalog, overallCheckState, kitCheckStates] = await Promise
-      .all([
+    const [kits, catalog, profiles, overallCheckState, kitCheckStates] =
+      await Promise.all([
         getAllFirstAidKits(),
         getAllFirstAidCatalogItems(),
+        getAllFirstAidProfiles(),
         getFirstAidOverallCheckState(),
         getFirstAidKitCheckStates(),
       ]);
@@ -159,6 +165,7 @@ export const handler: Handlers<FirstAidPageData> = {
     return ctx.render({
       kits,
       catalog,
+      profiles,
       session,
       editingKitId,
       kitLastCheckedById,
@@ -227,33 +234,38 @@ export const handler: Handlers<FirstAidPageData> = {
       const name = form.get("name")?.toString().trim() ?? "";
       const profileId = form.get("profileId")?.toString() ?? "";
       if (!name) {
-        const [kits, catalog] = await Promise.all([
+        const [kits, catalog, profiles] = await Promise.all([
           getAllFirstAidKits(),
           getAllFirstAidCatalogItems(),
+          getAllFirstAidProfiles(),
         ]);
         return ctx.render({
           kits,
           catalog,
+          profiles,
           session,
           error: "Kit name is required.",
         });
       }
       if (name.length > 80) {
-        const [kits, catalog] = await Promise.all([
+        const [kits, catalog, profiles] = await Promise.all([
           getAllFirstAidKits(),
           getAllFirstAidCatalogItems(),
+          getAllFirstAidProfiles(),
         ]);
         return ctx.render({
           kits,
           catalog,
+          profiles,
           session,
           error: "Kit name must be 80 characters or fewer.",
         });
       }
-      const catalog = await getAllFirstAidCatalogItems();
-      const entries = profileId
-        ? buildEntriesFromProfile(profileId, catalog)
-        : [];
+      const [catalog, profile] = await Promise.all([
+        getAllFirstAidCatalogItems(),
+        profileId ? getFirstAidProfileById(profileId) : null,
+      ]);
+      const entries = buildEntriesFromProfile(profile, catalog);
       await createFirstAidKit(
         name,
         entries,
@@ -299,7 +311,8 @@ export const handler: Handlers<FirstAidPageData> = {
         const copyName = `${kit.name} (Copy)`;
         await createFirstAidKit(
           copyName,
-          kit.entries.map((e) => ({ ...e })),
+          // A new bag's contents have their own dates, recorded at its first check
+          kit.entries.map(({ expiryBatches: _, ...e }) => e),
           session.username,
           kit.profileId,
         );
@@ -335,9 +348,20 @@ export const handler: Handlers<FirstAidPageData> = {
     if (action === "apply_profile") {
       const kitId = form.get("kitId")?.toString() ?? "";
       const profileId = form.get("profileId")?.toString() ?? "";
-      const catalog = await getAllFirstAidCatalogItems();
-      const entries = buildEntriesFromProfile(profileId, catalog);
-      if (kitId && entries.length > 0) {
+      const [kit, catalog, profile] = await Promise.all([
+        getFirstAidKitById(kitId),
+        getAllFirstAidCatalogItems(),
+        getFirstAidProfileById(profileId),
+      ]);
+      // Items staying in the bag keep the expiry dates from its last check
+      const batches = new Map(
+        kit?.entries.map((e) => [e.itemId, e.expiryBatches]),
+      );
+      const entries = buildEntriesFromProfile(profile, catalog).map((e) => ({
+        ...e,
+        expiryBatches: batches.get(e.itemId),
+      }));
+      if (kit && entries.length > 0) {
         await updateFirstAidKit(kitId, { entries, profileId });
       }
       return new Response(null, {
@@ -478,6 +502,12 @@ export default function FirstAidPage({ data }: PageProps<FirstAidPageData>) {
             >
               📋 Manage Catalog
             </a>
+            <a
+              href="/first-aid/stock"
+              class="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-medium rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              📦 Central Stock
+            </a>
             {data.session?.role === "admin" && (
               <form method="POST">
                 <input
@@ -659,7 +689,7 @@ export default function FirstAidPage({ data }: PageProps<FirstAidPageData>) {
                   class="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
                 >
                   <option value="">Start empty</option>
-                  {FIRST_AID_PROFILES.map((p) => (
+                  {data.profiles.map((p) => (
                     <option key={p.id} value={p.id}>{p.label}</option>
                   ))}
                 </select>
@@ -707,7 +737,7 @@ export default function FirstAidPage({ data }: PageProps<FirstAidPageData>) {
                             profileChipClass(kit.profileId)
                           }`}
                         >
-                          {profileLabel(kit.profileId)}
+                          {profileLabel(data.profiles, kit.profileId)}
                         </span>
                         <span class="text-xs font-medium px-2 py-0.5 rounded-full border border-slate-200 bg-slate-100 text-slate-800 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-100 whitespace-nowrap">
                           Last checked: {formatLastChecked(lastCheckedAt)}
@@ -730,6 +760,7 @@ export default function FirstAidPage({ data }: PageProps<FirstAidPageData>) {
                             initialProfileId={kit.profileId}
                             initialEntries={kit.entries}
                             catalog={data.catalog}
+                            profiles={data.profiles}
                             csrfToken={data.session?.csrfToken ?? ""}
                           />
                         )
@@ -789,6 +820,12 @@ export default function FirstAidPage({ data }: PageProps<FirstAidPageData>) {
                       >
                         Check
                       </a>
+                      <a
+                        href={`/first-aid/history/${kit.id}`}
+                        class="flex-1 min-w-[5.5rem] text-center text-sm px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                      >
+                        History
+                      </a>
                       <a
                         href={`/first-aid/print?kit=${kit.id}`}
                         target="_blank"
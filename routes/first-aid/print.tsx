@@ -2,6 +2,8 @@ import { Handlers, PageProps } from "$fresh/server.ts";
 import type { Session } from "../../lib/auth.ts";
 import { getAllFirstAidKits } from "../../db/kv.ts";
 import type { FirstAidKit } from "../../types/firstAid.ts";
+import { earliestExpiry } from "../../lib/firstAidExpiry.ts";
+import { formatDate } from "../../lib/date-utils.ts";
 
 interface FirstAidPrintData {
   kits: FirstAidKit[];
@@ -44,6 +46,7 @@ export default function FirstAidPrintPage(
           th, td { border: 1px solid #d1d5db; padding: 6px; text-align: left; }
           th { background: #f3f4f6; }
           .qty, .check { width: 90px; text-align: center; }
+          .expiry { width: 110px; text-align: center; }
           @page { size: A4; margin: 10mm; }
           @media print {
             .toolbar { display: none; }
@@ -96,6 +99,7 @@ export default function FirstAidPrintPage(
                       <tr>
                         <th>Item</th>
                         <th class="qty">Restock To</th>
+                        <th class="expiry">First Expiry</th>
                         <th class="check">In Bag</th>
                       </tr>
                     </thead>
@@ -104,6 +108,9 @@ export default function FirstAidPrintPage(
                         <tr key={`${kit.id}-${entry.itemId}`}>
                           <td>{entry.name}</td>
                           <td class="qty">{entry.quantityTarget}</td>
+                          <td class="expiry">
+                            {formatDate(earliestExpiry(entry))}
+                          </td>
                           <td class="check"></td>
                         </tr>
                       ))}
@@ -0,0 +1,365 @@
+// First aid kit profile — edit a profile's loadout, then preview and roll the
+// change out to the kits built from it
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../../components/Layout.tsx";
+import type { Session } from "../../../lib/auth.ts";
+import {
+  getAllFirstAidCatalogItems,
+  getAllFirstAidKits,
+  getFirstAidProfileById,
+  saveFirstAidProfile,
+  updateFirstAidKit,
+} from "../../../db/kv.ts";
+import {
+  FIRST_AID_SECTIONS,
+  type FirstAidCatalogItem,
+  type FirstAidKit,
+  type FirstAidKitProfile,
+} from "../../../types/firstAid.ts";
+import {
+  applyProfileDiff,
+  describeDiff,
+  type FirstAidProfileDiff,
+  hasDrifted,
+  profileDiff,
+} from "../../../lib/firstAidProfiles.ts";
+import { formatDate } from "../../../lib/date-utils.ts";
+import { logActivity } from "../../../lib/activityLog.ts";
+
+interface ProfilePageData {
+  session: Session;
+  profile: FirstAidKitProfile;
+  catalog: FirstAidCatalogItem[];
+  kits: { kit: FirstAidKit; diff: FirstAidProfileDiff }[];
+  message?: string;
+}
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 303, headers: { Location: location } });
+}
+
+export const handler: Handlers<ProfilePageData> = {
+  async GET(req, ctx) {
+    const session = ctx.state.session as Session;
+    if (session.role === "explorer") {
+      return new Response("Forbidden", { status: 403 });
+    }
+    const [profile, catalog, kits] = await Promise.all([
+      getFirstAidProfileById(ctx.params.id),
+      getAllFirstAidCatalogItems(),
+      getAllFirstAidKits(),
+    ]);
+    if (!profile) return redirect("/first-aid/catalog");
+
+    const params = new URL(req.url).searchParams;
+    const applied = Number(params.get("applied"));
+    return ctx.render({
+      session,
+      profile,
+      catalog,
+      kits: kits
+        .filter((kit) => kit.profileId === profile.id)
+        .map((kit) => ({ kit, diff: profileDiff(kit, profile, catalog) })),
+      message: params.has("saved")
+        ? "Profile saved."
+        : params.has("applied")
+        ? `Profile applied to ${applied} kit${applied === 1 ? "" : "s"}.`
+        : undefined,
+    });
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session;
+    if (session.role !== "admin") {
+      return new Response("Forbidden", { status: 403 });
+    }
+    const form = await req.formData();
+    if (form.get("_csrf")?.toString() !== session.csrfToken) {
+      return new Response("Invalid CSRF token", { status: 403 });
+    }
+
+    const profile = await getFirstAidProfileById(ctx.params.id);
+    if (!profile) return redirect("/first-aid/catalog");
+    const here = `/first-aid/profiles/${profile.id}`;
+    const action = form.get("action")?.toString();
+
+    if (action === "save") {
+      const catalog = await getAllFirstAidCatalogItems();
+      const items = catalog.flatMap((item) => {
+        const quantity = Number(form.get(`qty-${item.id}`) || 0);
+        return Number.isInteger(quantity) && quantity > 0
+          ? [{ itemId: item.id, quantityTarget: Math.min(quantity, 999) }]
+          : [];
+      });
+      const label = form.get("label")?.toString().trim().slice(0, 80);
+      await saveFirstAidProfile({
+        ...profile,
+        label: label || profile.label,
+        description: form.get("description")?.toString().trim().slice(0, 200) ??
+          profile.description,
+        items,
+        updatedBy: session.username,
+        updatedAt: new Date(),
+      });
+      await logActivity({
+        username: session.username,
+        action: "first_aid.profile_saved",
+        resource: label || profile.label,
+        resourceId: profile.id,
+        details: `${items.length} item${items.length === 1 ? "" : "s"}`,
+      });
+      return redirect(`${here}?saved=1`);
+    }
+
+    if (action === "apply") {
+      const chosen = new Set(form.getAll("kitId").map(String));
+      const [catalog, kits] = await Promise.all([
+        getAllFirstAidCatalogItems(),
+        getAllFirstAidKits(),
+      ]);
+      let applied = 0;
+      for (const kit of kits) {
+        if (!chosen.has(kit.id) || kit.profileId !== profile.id) continue;
+        const diff = profileDiff(kit, profile, catalog);
+        if (diff.add.length + diff.adjust.length === 0) continue;
+        await updateFirstAidKit(
+          kit.id,
+          { entries: applyProfileDiff(kit.entries, diff) },
+          kit,
+        );
+        await logActivity({
+          username: session.username,
+          action: "first_aid.profile_applied",
+          resource: kit.name,
+          resourceId: kit.id,
+          details: `${profile.label}: ${describeDiff({ ...diff, extra: [] })}`,
+        });
+        applied++;
+      }
+      return redirect(`${here}?applied=${applied}`);
+    }
+
+    return redirect(here);
+  },
+};
+
+function DiffPreview({ diff }: { diff: FirstAidProfileDiff }) {
+  if (!hasDrifted(diff)) {
+    return (
+      <p class="text-xs text-green-700 dark:text-green-400">Matches profile</p>
+    );
+  }
+  return (
+    <ul class="text-xs space-y-0.5">
+      {diff.add.map((entry) => (
+        <li
+          key={`add-${entry.itemId}`}
+          class="text-green-700 dark:text-green-400"
+        >
+          {`+ ${entry.name} (target ${entry.quantityTarget})`}
+        </li>
+      ))}
+      {diff.adjust.map((change) => (
+        <li
+          key={`adjust-${change.itemId}`}
+          class="text-amber-700 dark:text-amber-300"
+        >
+          {`~ ${change.name}: target ${change.from} → ${change.to}`}
+        </li>
+      ))}
+      {diff.extra.map((entry) => (
+        <li
+          key={`extra-${entry.itemId}`}
+          class="text-gray-500 dark:text-gray-400"
+        >
+          {`· ${entry.name} — not in profile, kept`}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function FirstAidProfilePage(
+  { data }: PageProps<ProfilePageData>,
+) {
+  const { session, profile, catalog, kits, message } = data;
+  const isAdmin = session.role === "admin";
+  const targets = new Map(
+    profile.items.map((item) => [item.itemId, item.quantityTarget]),
+  );
+  const groups = FIRST_AID_SECTIONS.map((section) => ({
+    section,
+    items: catalog
+      .filter((item) => item.section === section)
+      .sort((a, b) =>
+        a.name.localeCompare(b.name, undefined, { numeric: true })
+      ),
+  })).filter((group) => group.items.length > 0);
+  const pending = kits.filter(({ diff }) =>
+    diff.add.length + diff.adjust.length > 0
+  );
+  const inputClass =
+    "w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm";
+
+  return (
+    <Layout
+      title={`Kit Profile — ${profile.label}`}
+      username={session.username}
+      role={session.role}
+    >
+      <div class="mb-6 flex justify-between items-center gap-4 flex-wrap">
+        <p class="text-gray-600 dark:text-gray-400">
+          {profile.updatedBy && profile.updatedAt
+            ? `Last changed by ${profile.updatedBy} on ${
+              formatDate(profile.updatedAt)
+            }`
+            : "Built-in profile"}
+        </p>
+        <a
+          href="/first-aid/catalog"
+          class="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-medium rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        >
+          ← Back to Catalog
+        </a>
+      </div>
+
+      {message && (
+        <div class="mb-4 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded text-sm text-green-800 dark:text-green-200">
+          {message}
+        </div>
+      )}
+
+      <div class="space-y-6">
+        <form
+          method="POST"
+          class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6 space-y-4"
+        >
+          <input type="hidden" name="_csrf" value={session.csrfToken ?? ""} />
+          <input type="hidden" name="action" value="save" />
+          <div class="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label class="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                Profile Name
+              </label>
+              <input
+                name="label"
+                value={profile.label}
+                required
+                maxLength={80}
+                disabled={!isAdmin}
+                class={inputClass}
+              />
+            </div>
+            <div class="md:col-span-2">
+              <label class="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                Description
+              </label>
+              <input
+                name="description"
+                value={profile.description}
+                maxLength={200}
+                disabled={!isAdmin}
+                class={inputClass}
+              />
+            </div>
+          </div>
+
+          <p class="text-sm text-gray-500 dark:text-gray-400">
+            Target quantity for each item a kit of this type should carry —
+            leave blank to leave the item out.
+          </p>
+          {groups.map((group) => (
+            <fieldset key={group.section}>
+              <legend class="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+                {group.section}
+              </legend>
+              <div class="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1">
+                {group.items.map((item) => (
+                  <label
+                    key={item.id}
+                    class="flex items-center justify-between gap-3 text-sm text-gray-700 dark:text-gray-300"
+                  >
+                    <span>{item.name}</span>
+                    <input
+                      type="number"
+                      name={`qty-${item.id}`}
+                      min={0}
+                      max={999}
+                      value={targets.get(item.id) ?? ""}
+                      disabled={!isAdmin}
+                      class="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm text-right"
+                    />
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          ))}
+          {isAdmin && (
+            <button
+              type="submit"
+              class="px-4 py-2 bg-purple-600 text-white text-sm font-medium rounded-md hover:bg-purple-700"
+            >
+              Save Profile
+            </button>
+          )}
+        </form>
+
+        <form
+          method="POST"
+          class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6"
+        >
+          <input type="hidden" name="_csrf" value={session.csrfToken ?? ""} />
+          <input type="hidden" name="action" value="apply" />
+          <h3 class="text-base font-semibold text-gray-900 dark:text-white mb-1">
+            Kits Using This Profile
+          </h3>
+          <p class="text-sm text-gray-500 dark:text-gray-400 mb-3">
+            Applying adds missing items and moves targets to match. Items a kit
+            carries beyond the profile are kept.
+          </p>
+          {kits.length === 0
+            ? (
+              <p class="text-sm text-gray-500 dark:text-gray-400">
+                No kits were built from this profile.
+              </p>
+            )
+            : (
+              <ul class="divide-y divide-gray-100 dark:divide-gray-700">
+                {kits.map(({ kit, diff }) => (
+                  <li key={kit.id} class="py-2 flex items-start gap-3">
+                    {isAdmin && (
+                      <input
+                        type="checkbox"
+                        name="kitId"
+                        value={kit.id}
+                        checked={diff.add.length + diff.adjust.length > 0}
+                        disabled={diff.add.length + diff.adjust.length === 0}
+                        class="mt-1"
+                      />
+                    )}
+                    <div>
+                      <p class="text-sm font-medium text-gray-900 dark:text-white">
+                        {kit.name}
+                        <span class="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                          {describeDiff(diff)}
+                        </span>
+                      </p>
+                      <DiffPreview diff={diff} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          {isAdmin && pending.length > 0 && (
+            <button
+              type="submit"
+              class="mt-4 px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-md hover:bg-green-700"
+            >
+              Apply to Selected Kits
+            </button>
+          )}
+        </form>
+      </div>
+    </Layout>
+  );
+}
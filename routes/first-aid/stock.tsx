@@ -0,0 +1,519 @@
+// Central first aid stock — the box of refills kits are topped up from after a
+// check, and the shopping list for whatever it can't cover
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../components/Layout.tsx";
+import type { Session } from "../../lib/auth.ts";
+import {
+  deleteFirstAidStock,
+  getAllFirstAidCatalogItems,
+  getFirstAidStock,
+  getLatestFirstAidCheckRecords,
+  receiveFirstAidStock,
+  removeExpiredFirstAidStock,
+  restockFirstAidKits,
+} from "../../db/kv.ts";
+import type {
+  FirstAidCatalogItem,
+  FirstAidStockEntry,
+} from "../../types/firstAid.ts";
+import {
+  expiredStock,
+  type FirstAidRestockPlan,
+  type FirstAidShortageLine,
+  pendingShortages,
+  planRestock,
+  usableQuantity,
+} from "../../lib/firstAidRestock.ts";
+import { getCatalogItemName } from "../../lib/firstAidCatalog.ts";
+import { formatDate } from "../../lib/date-utils.ts";
+import { logActivity } from "../../lib/activityLog.ts";
+
+interface StockPageData {
+  session: Session;
+  catalog: FirstAidCatalogItem[];
+  stock: FirstAidStockEntry[];
+  shortages: FirstAidShortageLine[];
+  /** What a restock would do right now */
+  plan: FirstAidRestockPlan;
+  today: string;
+  message?: string;
+  error?: string;
+}
+
+function todayIso(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+async function loadPageData(
+  session: Session,
+  extra: { message?: string; error?: string } = {},
+): Promise<StockPageData> {
+  const [catalog, stock, latest] = await Promise.all([
+    getAllFirstAidCatalogItems(),
+    getFirstAidStock(),
+    getLatestFirstAidCheckRecords(),
+  ]);
+  const today = todayIso();
+  const shortages = pendingShortages(latest);
+  return {
+    session,
+    catalog,
+    stock: stock.sort((a, b) =>
+      (getCatalogItemName(a.itemId, catalog) ?? a.itemId).localeCompare(
+        getCatalogItemName(b.itemId, catalog) ?? b.itemId,
+        undefined,
+        { numeric: true },
+      )
+    ),
+    shortages,
+    plan: planRestock(shortages, stock, today),
+    today,
+    ...extra,
+  };
+}
+
+export const handler: Handlers<StockPageData> = {
+  async GET(_req, ctx) {
+    return ctx.render(await loadPageData(ctx.state.session as Session));
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session;
+    if (session.role === "viewer" || session.role === "explorer") {
+      return ctx.render(
+        await loadPageData(session, {
+          error: "Viewers cannot change first aid stock.",
+        }),
+      );
+    }
+    const form = await req.formData();
+    const csrfToken = form.get("csrf_token") as string;
+    if (!csrfToken || csrfToken !== session.csrfToken) {
+      return ctx.render(
+        await loadPageData(session, {
+          error: "Invalid request. Please try again.",
+        }),
+      );
+    }
+
+    const action = form.get("action")?.toString();
+    const itemId = form.get("itemId")?.toString() ?? "";
+    try {
+      const catalog = await getAllFirstAidCatalogItems();
+      const itemName = getCatalogItemName(itemId, catalog);
+
+      if (action === "receive") {
+        if (!itemName) throw new Error("Choose an item from the catalog.");
+        const quantity = Number(form.get("quantity"));
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > 9999) {
+          throw new Error("Quantity must be a whole number from 1 to 9999.");
+        }
+        const expiry = form.get("expiryDate")?.toString() ?? "";
+        if (expiry && !/^\d{4}-\d{2}-\d{2}$/.test(expiry)) {
+          throw new Error("Enter the expiry date from the packet.");
+        }
+        await receiveFirstAidStock(
+          itemId,
+          quantity,
+          expiry || undefined,
+          session.username,
+        );
+        await logActivity({
+          username: session.username,
+          action: "first_aid.stock_received",
+          resource: itemName,
+          resourceId: itemId,
+          details: `${quantity} added to central stock${
+            expiry ? `, expiring ${expiry}` : ""
+          }`,
+        });
+        return ctx.render(
+          await loadPageData(session, {
+            message: `Added ${quantity} × ${itemName} to central stock.`,
+          }),
+        );
+      }
+
+      if (action === "remove_expired") {
+        const removed = await removeExpiredFirstAidStock(
+          itemId,
+          todayIso(),
+          session.username,
+        );
+        if (removed > 0) {
+          await logActivity({
+            username: session.username,
+            action: "first_aid.stock_removed",
+            resource: itemName ?? itemId,
+            resourceId: itemId,
+            details: `${removed} expired removed from central stock`,
+          });
+        }
+        return ctx.render(
+          await loadPageData(session, {
+            message: `Removed ${removed} expired ${itemName ?? itemId}.`,
+          }),
+        );
+      }
+
+      if (action === "delete") {
+        await deleteFirstAidStock(itemId);
+        await logActivity({
+          username: session.username,
+          action: "first_aid.stock_removed",
+          resource: itemName ?? itemId,
+          resourceId: itemId,
+          details: "Removed from central stock",
+        });
+        return ctx.render(
+          await loadPageData(session, {
+            message: `${itemName ?? itemId} removed from central stock.`,
+          }),
+        );
+      }
+
+      if (action === "restock") {
+        const plan = await restockFirstAidKits(session.username, todayIso());
+        const moved = plan.moves.reduce((sum, move) => sum + move.quantity, 0);
+        if (moved > 0) {
+          const kits = new Set(plan.moves.map((move) => move.kitId)).size;
+          await logActivity({
+            username: session.username,
+            action: "first_aid.kits_restocked",
+            details: `${moved} item${
+              moved === 1 ? "" : "s"
+            } moved into ${kits} kit${
+              kits === 1 ? "" : "s"
+            } from central stock`,
+          });
+        }
+        return ctx.render(
+          await loadPageData(session, {
+            message: moved === 0
+              ? "Nothing in central stock could cover the shortages."
+              : `Moved ${moved} item${
+                moved === 1 ? "" : "s"
+              } from central stock into the kits.`,
+          }),
+        );
+      }
+
+      throw new Error("Unknown action.");
+    } catch (err) {
+      return ctx.render(
+        await loadPageData(session, {
+          error: err instanceof Error ? err.message : "Something went wrong.",
+        }),
+      );
+    }
+  },
+};
+
+export default function FirstAidStockPage(
+  { data }: PageProps<StockPageData>,
+) {
+  const { session, catalog, stock, shortages, plan, today, message, error } =
+    data;
+  const canEdit = session.role !== "viewer" && session.role !== "explorer";
+  const nameOf = (itemId: string) =>
+    getCatalogItemName(itemId, catalog) ?? itemId;
+  const movable = plan.moves.reduce((sum, move) => sum + move.quantity, 0);
+  const inputClass =
+    "px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-500";
+  const thClass =
+    "px-4 py-2 text-left font-semibold text-gray-600 dark:text-gray-300";
+
+  return (
+    <Layout
+      title="First Aid Stock"
+      username={session.username}
+      role={session.role}
+    >
+      <div class="mb-6">
+        <a
+          href="/first-aid"
+          class="text-sm text-purple-600 dark:text-purple-400 hover:underline"
+        >
+          ← Back to First Aid
+        </a>
+        <p class="mt-2 text-gray-600 dark:text-gray-400">
+          Refills kept centrally. Shortages from each kit's latest check are
+          topped up from here, soonest-expiring first.
+        </p>
+      </div>
+
+      {message && (
+        <div class="mb-4 p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+
+      <div class="space-y-8">
+        <section>
+          <div class="mb-3 flex flex-wrap items-center justify-between gap-3">
+            <h2 class="text-lg font-semibold text-gray-800 dark:text-purple-100">
+              Shortages From Latest Checks
+            </h2>
+            {canEdit && movable > 0 && (
+              <form method="POST">
+                <input
+                  type="hidden"
+                  name="csrf_token"
+                  value={session.csrfToken}
+                />
+                <input type="hidden" name="action" value="restock" />
+                <button
+                  type="submit"
+                  class="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium rounded-lg"
+                >
+                  {`Restock Kits (${movable} item${movable === 1 ? "" : "s"})`}
+                </button>
+              </form>
+            )}
+          </div>
+          {shortages.length === 0
+            ? (
+              <p class="text-sm text-gray-500 dark:text-gray-400">
+                No outstanding shortages — every kit's latest check is covered.
+              </p>
+            )
+            : (
+              <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                <table class="min-w-full text-sm">
+                  <thead class="bg-gray-50 dark:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
+                    <tr>
+                      <th class={thClass}>Kit</th>
+                      <th class={thClass}>Item</th>
+                      <th class={`${thClass} text-center`}>Missing</th>
+                      <th class={`${thClass} text-center`}>From Stock</th>
+                    </tr>
+                  </thead>
+                  <tbody class="divide-y divide-gray-100 dark:divide-gray-700">
+                    {shortages.map((shortage) => {
+                      const move = plan.moves.find((m) =>
+                        m.kitId === shortage.kitId &&
+                        m.itemId === shortage.itemId
+                      );
+                      return (
+                        <tr key={`${shortage.kitId}-${shortage.itemId}`}>
+                          <td class="px-4 py-2 text-gray-700 dark:text-gray-300">
+                            <a
+                              href={`/first-aid/history/${shortage.kitId}`}
+                              class="hover:underline"
+                            >
+                              {shortage.kitName}
+                            </a>
+                          </td>
+                          <td class="px-4 py-2 text-gray-800 dark:text-gray-100">
+                            {shortage.itemName}
+                          </td>
+                          <td class="px-4 py-2 text-center text-red-700 dark:text-red-300 font-semibold">
+                            {shortage.missing}
+                          </td>
+                          <td class="px-4 py-2 text-center text-gray-700 dark:text-gray-300">
+                            {move?.quantity ?? 0}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+        </section>
+
+        {plan.toBuy.length > 0 && (
+          <section>
+            <div class="mb-3 flex flex-wrap items-center justify-between gap-3">
+              <h2 class="text-lg font-semibold text-gray-800 dark:text-purple-100">
+                🛒 To Buy
+              </h2>
+              <a
+                href="/first-aid/stock/print"
+                target="_blank"
+                rel="noopener noreferrer"
+                class="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                🖨️ Print
+              </a>
+            </div>
+            <p class="text-sm text-gray-500 dark:text-gray-400 mb-3">
+              Shortfall central stock can't cover, totalled across kits. Add the
+              refills below once bought, then restock.
+            </p>
+            <ul class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+              {plan.toBuy.map((line) => (
+                <li
+                  key={line.itemId}
+                  class="px-4 py-2 flex justify-between text-sm"
+                >
+                  <span class="text-gray-800 dark:text-gray-100">
+                    {line.itemName}
+                  </span>
+                  <span class="font-semibold tabular-nums text-gray-700 dark:text-gray-200">
+                    × {line.quantity}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section>
+          <h2 class="text-lg font-semibold text-gray-800 dark:text-purple-100 mb-3">
+            Central Stock
+          </h2>
+          {stock.length === 0
+            ? (
+              <p class="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                Nothing recorded in central stock yet.
+              </p>
+            )
+            : (
+              <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto mb-4">
+                <table class="min-w-full text-sm">
+                  <thead class="bg-gray-50 dark:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
+                    <tr>
+                      <th class={thClass}>Item</th>
+                      <th class={`${thClass} text-center`}>Quantity</th>
+                      <th class={thClass}>Expiry</th>
+                      {canEdit && <th class="px-4 py-2" />}
+                    </tr>
+                  </thead>
+                  <tbody class="divide-y divide-gray-100 dark:divide-gray-700">
+                    {stock.map((entry) => {
+                      const expired = expiredStock(entry, today);
+                      const usable = usableQuantity(entry, today);
+                      return (
+                        <tr key={entry.itemId} class="align-top">
+                          <td class="px-4 py-2 text-gray-800 dark:text-gray-100">
+                            {nameOf(entry.itemId)}
+                          </td>
+                          <td class="px-4 py-2 text-center tabular-nums text-gray-700 dark:text-gray-300">
+                            {usable}
+                            {expired.length > 0 && (
+                              <span class="block text-xs text-red-600 dark:text-red-400">
+                                {`+ ${entry.quantity - usable} expired`}
+                              </span>
+                            )}
+                          </td>
+                          <td class="px-4 py-2 text-gray-600 dark:text-gray-400">
+                            {(entry.expiryBatches ?? []).map((batch) => (
+                              <span
+                                key={batch.expiryDate}
+                                class={`block ${
+                                  batch.expiryDate < today
+                                    ? "text-red-600 dark:text-red-400"
+                                    : ""
+                                }`}
+                              >
+                                {`${batch.quantity} × ${
+                                  formatDate(batch.expiryDate)
+                                }`}
+                              </span>
+                            ))}
+                          </td>
+                          {canEdit && (
+                            <td class="px-4 py-2 text-right whitespace-nowrap">
+                              <form method="POST" class="inline">
+                                <input
+                                  type="hidden"
+                                  name="csrf_token"
+                                  value={session.csrfToken}
+                                />
+                                <input
+                                  type="hidden"
+                                  name="itemId"
+                                  value={entry.itemId}
+                                />
+                                {expired.length > 0 && (
+                                  <button
+                                    type="submit"
+                                    name="action"
+                                    value="remove_expired"
+                                    class="mr-3 text-amber-700 dark:text-amber-300 hover:underline"
+                                  >
+                                    Remove expired
+                                  </button>
+                                )}
+                                <button
+                                  type="submit"
+                                  name="action"
+                                  value="delete"
+                                  class="text-red-600 dark:text-red-400 hover:underline"
+                                >
+                                  Delete
+                                </button>
+                              </form>
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+          {canEdit && (
+            <form
+              method="POST"
+              class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-4 flex flex-wrap items-end gap-3"
+            >
+              <input
+                type="hidden"
+                name="csrf_token"
+                value={session.csrfToken}
+              />
+              <input type="hidden" name="action" value="receive" />
+              <label class="flex-1 min-w-[12rem] text-xs text-gray-500 dark:text-gray-400">
+                Item
+                <select name="itemId" required class={`${inputClass} w-full`}>
+                  <option value="">Choose an item…</option>
+                  {[...catalog]
+                    .sort((a, b) => a.name.localeCompare(b.name))
+                    .map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.name}
+                      </option>
+                    ))}
+                </select>
+              </label>
+              <label class="w-24 text-xs text-gray-500 dark:text-gray-400">
+                Quantity
+                <input
+                  type="number"
+                  name="quantity"
+                  min={1}
+                  max={9999}
+                  value={1}
+                  required
+                  class={`${inputClass} w-full`}
+                />
+              </label>
+              <label class="text-xs text-gray-500 dark:text-gray-400">
+                Expiry date (if dated)
+                <input
+                  type="date"
+                  name="expiryDate"
+                  class={`${inputClass} w-full`}
+                />
+              </label>
+              <button
+                type="submit"
+                class="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium rounded-lg"
+              >
+                Add to Stock
+              </button>
+            </form>
+          )}
+        </section>
+      </div>
+    </Layout>
+  );
+}
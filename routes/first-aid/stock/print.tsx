@@ -0,0 +1,151 @@
+// Print-optimised shopping list for first aid refills central stock can't cover
+import { Handlers, PageProps } from "$fresh/server.ts";
+import {
+  getFirstAidStock,
+  getLatestFirstAidCheckRecords,
+} from "../../../db/kv.ts";
+import PrintButton from "../../../islands/PrintButton.tsx";
+import { formatDate } from "../../../lib/date-utils.ts";
+import {
+  type FirstAidBuyLine,
+  pendingShortages,
+  planRestock,
+} from "../../../lib/firstAidRestock.ts";
+
+interface FirstAidBuyPrintData {
+  toBuy: FirstAidBuyLine[];
+  kitCount: number;
+}
+
+export const handler: Handlers<FirstAidBuyPrintData> = {
+  async GET(_req, ctx) {
+    const [stock, latest] = await Promise.all([
+      getFirstAidStock(),
+      getLatestFirstAidCheckRecords(),
+    ]);
+    const shortages = pendingShortages(latest);
+    const { toBuy } = planRestock(
+      shortages,
+      stock,
+      new Date().toISOString().slice(0, 10),
+    );
+    return ctx.render({
+      toBuy,
+      kitCount: new Set(shortages.map((line) => line.kitId)).size,
+    });
+  },
+};
+
+export default function FirstAidBuyPrintPage(
+  { data }: PageProps<FirstAidBuyPrintData>,
+) {
+  const { toBuy, kitCount } = data;
+
+  return (
+    <html lang="en">
+      <head>
+        <meta charset="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <title>First Aid Shopping List</title>
+        <style>
+          {`
+          *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+          body {
+            font-family: system-ui, -apple-system, sans-serif;
+            font-size: 13px;
+            color: #111;
+            background: #f9fafb;
+            padding: 1.5rem;
+          }
+          .no-print {
+            display: flex;
+            gap: 0.75rem;
+            align-items: center;
+            margin-bottom: 1.5rem;
+            flex-wrap: wrap;
+          }
+          .btn {
+            padding: 0.4rem 1rem;
+            border-radius: 0.375rem;
+            font-size: 0.8rem;
+            font-weight: 500;
+            cursor: pointer;
+            text-decoration: none;
+            display: inline-block;
+          }
+          .btn-secondary { background: white; color: #374151; border: 1px solid #d1d5db; }
+          .btn-secondary:hover { background: #f3f4f6; }
+          .page {
+            background: white;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 2rem;
+            border: 1px solid #e5e7eb;
+          }
+          .header { margin-bottom: 1.5rem; border-bottom: 2px solid #111; padding-bottom: 0.75rem; }
+          .header h1 { font-size: 1.5rem; font-weight: 700; }
+          .header .meta { font-size: 0.8rem; color: #555; margin-top: 0.25rem; }
+          table { width: 100%; border-collapse: collapse; }
+          th { text-align: left; font-size: 0.75rem; font-weight: 600; color: #666; border-bottom: 1px solid #ccc; padding: 0.3rem 0.4rem; }
+          td { padding: 0.45rem 0.4rem; border-bottom: 1px solid #f0f0f0; vertical-align: middle; }
+          tr:last-child td { border-bottom: none; }
+          .check { width: 1.2rem; height: 1.2rem; border: 1.5px solid #555; display: inline-block; border-radius: 3px; }
+          .footer { margin-top: 2rem; font-size: 0.7rem; color: #aaa; border-top: 1px solid #e5e7eb; padding-top: 0.5rem; }
+          @media print {
+            body { background: white; padding: 0; }
+            .no-print { display: none !important; }
+            .page { border: none; padding: 0; max-width: 100%; }
+            tr { break-inside: avoid; }
+          }
+        `}
+        </style>
+      </head>
+      <body>
+        <div class="no-print">
+          <a href="/first-aid/stock" class="btn btn-secondary">
+            ← Back to Central Stock
+          </a>
+          <PrintButton label="🖨️ Print List" />
+        </div>
+
+        <div class="page">
+          <div class="header">
+            <h1>🩹 First Aid Shopping List</h1>
+            <div class="meta">
+              {`Shortages from ${kitCount} kit${
+                kitCount === 1 ? "" : "s"
+              } not covered by central stock`}
+            </div>
+          </div>
+
+          {toBuy.length === 0
+            ? <p>Central stock covers every outstanding shortage.</p>
+            : (
+              <table>
+                <thead>
+                  <tr>
+                    <th style="width:2rem">Got</th>
+                    <th>Item</th>
+                    <th style="width:6rem;text-align:right">To buy</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {toBuy.map((line) => (
+                    <tr key={line.itemId}>
+                      <td>
+                        <span class="check" />
+                      </td>
+                      <td>{line.itemName}</td>
+                      <td style="text-align:right">{line.quantity}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+          <div class="footer">Printed {formatDate(new Date())}</div>
+        </div>
+      </body>
+    </html>
+  );
+}
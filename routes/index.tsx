@@ -64,11 +64,8 @@ interface DashboardData {
       games: { count: number; quantity: number };
       kit: { count: number; quantity: number };
     };
-    spaceBreakdown: {
-      "camp-store": { count: number; quantity: number };
-      "scout-post-loft": { count: number; quantity: number };
-      "gas-storage-box": { count: number; quantity: number };
-    };
+    /** Keyed by storage space id */
+    spaceBreakdown: Record<string, { count: number; quantity: number }>;
     lowStockItems: number;
     needsRepairItems: number;
     activeLoans: number;
@@ -220,11 +217,7 @@ export const handler: Handlers<DashboardData> = {
             games: { count: 0, quantity: 0 },
             kit: { count: 0, quantity: 0 },
           },
-          spaceBreakdown: {
-            "camp-store": { count: 0, quantity: 0 },
-            "scout-post-loft": { count: 0, quantity: 0 },
-            "gas-storage-box": { count: 0, quantity: 0 },
-          },
+          spaceBreakdown: {},
           lowStockItems: 0,
           needsRepairItems: 0,
           activeLoans: 0,
@@ -292,6 +285,8 @@ export default function Home({ data }: PageProps<DashboardData>) {
     session?.role === "admin";
   const canViewNeckers = session?.role === "manager" ||
     session?.role === "admin";
+  const canViewBudget = session?.role === "manager" ||
+    session?.role === "admin";
   const canViewFirstAidAndRisk = session?.role !== "explorer";
   const inspectionTotal = stats.inspections.overdue + stats.inspections.dueSoon;
   const hasExpiredFoodIssue = stats.expiringFood.expired > 0;
@@ -527,9 +522,34 @@ export default function Home({ data }: PageProps<DashboardData>) {
             <h2 class="text-lg sm:text-xl font-bold text-gray-800 dark:text-purple-100">
               Operations
             </h2>
-            <span class="hidden sm:inline text-sm text-gray-500 dark:text-gray-400">
-              Live stock movement
-            </span>
+            <div class="flex gap-4">
+              <a
+                href="/reports/utilisation"
+                class="text-sm text-purple-600 dark:text-purple-400 hover:underline"
+              >
+                📊 Utilisation →
+              </a>
+              <a
+                href="/reports/trends"
+                class="text-sm text-purple-600 dark:text-purple-400 hover:underline"
+              >
+                📈 Trends →
+              </a>
+              <a
+                href="/purchasing"
+                class="text-sm text-purple-600 dark:text-purple-400 hover:underline"
+              >
+                🛒 Purchasing →
+              </a>
+              {canViewBudget && (
+                <a
+                  href="/reports/budget"
+                  class="text-sm text-purple-600 dark:text-purple-400 hover:underline"
+                >
+                  💷 Budget →
+                </a>
+              )}
+            </div>
           </div>
           <div class="grid grid-cols-2 sm:grid-cols-6 gap-3 sm:gap-3.5">
             <a
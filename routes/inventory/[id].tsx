@@ -5,6 +5,8 @@ import type {
   FoodItem,
   GamesItem,
   InventoryItem,
+  ItemFieldChange,
+  ItemHistoryEntry,
   KiltOutfitItem,
   KitItem,
   TentItem,
@@ -16,20 +18,31 @@ import {
   isKiltOutfitItem,
   isKitItem,
   isTentItem,
+  ITEM_CHANGE_SOURCE_LABELS,
 } from "../../types/inventory.ts";
 import Layout from "../../components/Layout.tsx";
 import ExpiryBadge from "../../components/ExpiryBadge.tsx";
 import CategoryIcon from "../../components/CategoryIcon.tsx";
-import { formatDate } from "../../lib/date-utils.ts";
+import { formatDate, formatDateTime } from "../../lib/date-utils.ts";
 import type { Session } from "../../lib/auth.ts";
 import { csrfFailed, forbidden } from "../../lib/auth.ts";
-import { createItem, getItemById } from "../../db/kv.ts";
+import {
+  createItem,
+  getItemById,
+  getItemHistory,
+  revertItemToVersion,
+} from "../../db/kv.ts";
 import PhotoViewer from "../../islands/PhotoViewer.tsx";
 import ItemDeleteButton from "../../islands/ItemDeleteButton.tsx";
 import { logActivity } from "../../lib/activityLog.ts";
+import { formatMoney } from "../../lib/valuation.ts";
+import { formatQuantity } from "../../lib/units.ts";
 
 interface ItemDetailData {
   item: InventoryItem | null;
+  /** Recorded versions, newest first */
+  history: ItemHistoryEntry[];
+  error?: string;
   session?: Session;
   csrfToken?: string;
 }
@@ -39,18 +52,32 @@ export const handler: Handlers<ItemDetailData> = {
     const { id } = ctx.params;
     const session = ctx.state.session as Session | undefined;
     try {
-      const item = await getItemById(id);
+      const [item, history] = await Promise.all([
+        getItemById(id),
+        getItemHistory(id),
+      ]);
       if (!item) {
         return ctx.render({
           item: null,
+          history: [],
           session,
           csrfToken: session?.csrfToken,
         });
       }
-      return ctx.render({ item, session, csrfToken: session?.csrfToken });
+      return ctx.render({
+        item,
+        history,
+        session,
+        csrfToken: session?.csrfToken,
+      });
     } catch (error) {
       console.error("Failed to fetch item:", error);
-      return ctx.render({ item: null, session, csrfToken: session?.csrfToken });
+      return ctx.render({
+        item: null,
+        history: [],
+        session,
+        csrfToken: session?.csrfToken,
+      });
     }
   },
 
@@ -68,14 +95,51 @@ export const handler: Handlers<ItemDetailData> = {
       return new Response("Not found", { status: 404 });
     }
 
+    if (formData.get("action") === "revert") {
+      const version = parseInt(String(formData.get("version") ?? ""), 10);
+      try {
+        const reverted = await revertItemToVersion(id, version, {
+          username: session.username,
+          source: "revert",
+        });
+        if (!reverted) throw new Error("That version is no longer recorded.");
+        await logActivity({
+          username: session.username,
+          action: "item.reverted",
+          resource: reverted.name,
+          resourceId: id,
+          details: `Reverted to version ${version}`,
+        });
+      } catch (err) {
+        return ctx.render({
+          item,
+          history: await getItemHistory(id),
+          error: err instanceof Error ? err.message : "Failed to revert item.",
+          session,
+          csrfToken: session.csrfToken,
+        });
+      }
+      return new Response(null, {
+        status: 303,
+        headers: { Location: `/inventory/${id}#history` },
+      });
+    }
+
     const newItem: InventoryItem = {
       ...item,
       id: crypto.randomUUID(),
       name: `Copy of ${item.name}`,
       addedDate: new Date(),
       lastUpdated: new Date(),
+      // Units and batches belong to the original; the copy starts untracked
+      hasUnits: undefined,
     };
-    await createItem(newItem);
+    if (newItem.category === "food") newItem.batches = undefined;
+    await createItem(newItem, {
+      username: session.username,
+      source: "created",
+      details: `Duplicated from ${item.name}`,
+    });
     await logActivity({
       username: session.username,
       action: "item.created",
@@ -143,6 +207,106 @@ function ContentsTable(
   );
 }
 
+/** "quantityAtCamp" → "Quantity at camp" */
+function fieldLabel(field: string): string {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatHistoryValue(value: ItemFieldChange["before"]): string {
+  if (value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return formatDate(value);
+  }
+  return String(value);
+}
+
+function HistoryTimeline(
+  { history, canRevert, csrfToken, error }: {
+    history: ItemHistoryEntry[];
+    canRevert: boolean;
+    csrfToken: string;
+    error?: string;
+  },
+) {
+  return (
+    <div id="history" class="mt-6">
+      <h2 class="text-xl font-bold text-gray-800 dark:text-gray-100 mb-2">
+        History
+      </h2>
+      {error && (
+        <div class="mb-3 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+      {history.length === 0
+        ? (
+          <p class="text-sm text-gray-400 dark:text-gray-500 italic">
+            No changes recorded yet.
+          </p>
+        )
+        : (
+          <ol class="border-l-2 border-gray-200 dark:border-gray-700 space-y-4">
+            {history.map((entry, index) => (
+              <li key={entry.version} class="ml-4">
+                <div class="flex flex-wrap items-baseline justify-between gap-2">
+                  <p class="text-sm text-gray-800 dark:text-gray-200">
+                    <span class="mr-2 font-mono text-xs text-gray-500 dark:text-gray-400">
+                      v{entry.version}
+                    </span>
+                    <span class="font-medium">
+                      {ITEM_CHANGE_SOURCE_LABELS[entry.source] ?? entry.source}
+                    </span>
+                    <span class="text-gray-500 dark:text-gray-400">
+                      {entry.username ? ` by ${entry.username}` : ""} ·{" "}
+                      {formatDateTime(entry.changedAt)}
+                    </span>
+                  </p>
+                  {canRevert && index > 0 && (
+                    <form method="POST">
+                      <input type="hidden" name="csrf" value={csrfToken} />
+                      <input type="hidden" name="action" value="revert" />
+                      <input
+                        type="hidden"
+                        name="version"
+                        value={String(entry.version)}
+                      />
+                      <button
+                        type="submit"
+                        class="text-xs text-purple-600 dark:text-purple-400 hover:underline"
+                      >
+                        ↩️ Revert to this version
+                      </button>
+                    </form>
+                  )}
+                </div>
+                {entry.details && (
+                  <p class="text-xs text-gray-500 dark:text-gray-400">
+                    {entry.details}
+                  </p>
+                )}
+                {entry.version > 1 && entry.changes.length > 0 && (
+                  <ul class="mt-1 text-sm text-gray-700 dark:text-gray-300 space-y-0.5">
+                    {entry.changes.map((change) => (
+                      <li key={change.field}>
+                        <span class="text-gray-500 dark:text-gray-400">
+                          {fieldLabel(change.field)}:
+                        </span>{" "}
+                        {formatHistoryValue(change.before)} →{" "}
+                        {formatHistoryValue(change.after)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+    </div>
+  );
+}
+
 export default function ItemDetailPage({ data }: PageProps<ItemDetailData>) {
   if (!data.item) {
     return (
@@ -211,6 +375,23 @@ export default function ItemDetailPage({ data }: PageProps<ItemDetailData>) {
             >
               🛠️ Maintenance
             </a>
+            {item.category !== "food" &&
+              (item.hasUnits || data.session?.role !== "viewer") && (
+              <a
+                href={`/inventory/${item.id}/units`}
+                class="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-medium rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                🏷️ Units
+              </a>
+            )}
+            {item.category === "food" && (
+              <a
+                href={`/inventory/${item.id}/batches`}
+                class="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-medium rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                🗓️ Batches
+              </a>
+            )}
             {data.session?.role !== "viewer" && (
               <form method="POST" action={`/inventory/${item.id}`}>
                 <input type="hidden" name="csrf" value={data.csrfToken ?? ""} />
@@ -255,6 +436,14 @@ export default function ItemDetailPage({ data }: PageProps<ItemDetailData>) {
               ⚠️ Low Stock Alert - Only {item.quantity} remaining (minimum:{" "}
               {item.minThreshold})
             </p>
+            {data.session?.role !== "viewer" && (
+              <a
+                href={`/purchasing?itemId=${item.id}`}
+                class="inline-block mt-1 text-sm text-red-700 dark:text-red-300 underline hover:no-underline"
+              >
+                🛒 Request a purchase
+              </a>
+            )}
           </div>
         )}
 
@@ -473,11 +662,22 @@ export default function ItemDetailPage({ data }: PageProps<ItemDetailData>) {
               </div>
               <div>
                 <h3 class="text-sm font-medium text-gray-500 dark:text-gray-400">
-                  Expiry Date
+                  {item.batches && item.batches.length > 1
+                    ? "Earliest Expiry"
+                    : "Expiry Date"}
                 </h3>
                 <p class="mt-1 text-gray-900 dark:text-gray-100 font-bold">
                   {formatDate(item.expiryDate)}
                 </p>
+                {item.batches && item.batches.length > 1 && (
+                  <ul class="mt-1 text-sm text-gray-700 dark:text-gray-300">
+                    {item.batches.map((batch) => (
+                      <li key={batch.id}>
+                        {batch.quantity} × {formatDate(batch.expiryDate)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
               {item.storageRequirements && (
                 <div>
@@ -499,6 +699,16 @@ export default function ItemDetailPage({ data }: PageProps<ItemDetailData>) {
                   </p>
                 </div>
               )}
+              {item.packSize && (
+                <div>
+                  <h3 class="text-sm font-medium text-gray-500 dark:text-gray-400">
+                    Pack Size
+                  </h3>
+                  <p class="mt-1 text-gray-900 dark:text-gray-100">
+                    {formatQuantity(item.packSize)}
+                  </p>
+                </div>
+              )}
               {item.servings && (
                 <div>
                   <h3 class="text-sm font-medium text-gray-500 dark:text-gray-400">
@@ -718,6 +928,48 @@ export default function ItemDetailPage({ data }: PageProps<ItemDetailData>) {
           </div>
         )}
 
+        {/* Value & insurance */}
+        {(item.purchaseCost !== undefined ||
+          item.replacementValue !== undefined || item.supplier) && (
+          <div class="mt-6">
+            <h2 class="text-xl font-bold text-gray-800 dark:text-gray-100 mb-2">
+              Value &amp; Insurance
+            </h2>
+            <div class="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {item.purchaseCost !== undefined && (
+                <div>
+                  <h3 class="text-sm font-medium text-gray-500 dark:text-gray-400">
+                    Purchase Cost
+                  </h3>
+                  <p class="mt-1 text-gray-900 dark:text-gray-100">
+                    {formatMoney(item.purchaseCost)} each
+                  </p>
+                </div>
+              )}
+              {item.replacementValue !== undefined && (
+                <div>
+                  <h3 class="text-sm font-medium text-gray-500 dark:text-gray-400">
+                    Replacement Value
+                  </h3>
+                  <p class="mt-1 text-gray-900 dark:text-gray-100">
+                    {formatMoney(item.replacementValue)} each
+                  </p>
+                </div>
+              )}
+              {item.supplier && (
+                <div>
+                  <h3 class="text-sm font-medium text-gray-500 dark:text-gray-400">
+                    Supplier
+                  </h3>
+                  <p class="mt-1 text-gray-900 dark:text-gray-100">
+                    {item.supplier}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Notes */}
         {item.notes && (
           <div class="mt-6">
@@ -729,6 +981,13 @@ export default function ItemDetailPage({ data }: PageProps<ItemDetailData>) {
             </p>
           </div>
         )}
+
+        <HistoryTimeline
+          history={data.history}
+          canRevert={!!data.session && data.session.role !== "viewer"}
+          csrfToken={data.csrfToken ?? ""}
+          error={data.error}
+        />
       </div>
     </Layout>
   );
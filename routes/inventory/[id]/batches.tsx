@@ -0,0 +1,423 @@
+// Food batches page — lots of one food product, each with its own expiry
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../../components/Layout.tsx";
+import ExpiryBadge from "../../../components/ExpiryBadge.tsx";
+import type { Session } from "../../../lib/auth.ts";
+import { csrfFailed, forbidden } from "../../../lib/auth.ts";
+import {
+  addFoodBatch,
+  getItemById,
+  getItemsByCategory,
+  mergeFoodProducts,
+  updateFoodBatch,
+} from "../../../db/kv.ts";
+import {
+  type FoodItem,
+  getFoodBatches,
+  type InventoryItem,
+  type ItemChangeContext,
+} from "../../../types/inventory.ts";
+import { formatDate } from "../../../lib/date-utils.ts";
+import { logActivity } from "../../../lib/activityLog.ts";
+
+interface BatchesPageData {
+  item: FoodItem | null;
+  /** Other food records with the same name, stored before batches existed */
+  duplicates: FoodItem[];
+  error?: string;
+  session?: Session;
+  csrfToken?: string;
+}
+
+function toDateInputValue(d: Date): string {
+  return d.toISOString().split("T")[0];
+}
+
+function asFood(item: InventoryItem | null): FoodItem | null {
+  return item?.category === "food" ? item : null;
+}
+
+async function findDuplicates(item: FoodItem): Promise<FoodItem[]> {
+  const name = item.name.trim().toLowerCase();
+  return (await getItemsByCategory("food") as FoodItem[]).filter((other) =>
+    other.id !== item.id && other.name.trim().toLowerCase() === name
+  );
+}
+
+/** Read a lot's quantity, expiry and notes from the form, or throw. */
+function readBatchFields(formData: FormData) {
+  const quantity = Number(formData.get("quantity"));
+  const expiryRaw = String(formData.get("expiryDate") ?? "");
+  const notes = String(formData.get("notes") ?? "").trim();
+  if (!Number.isInteger(quantity) || quantity < 0 || quantity > 100000) {
+    throw new Error("Quantity must be a whole number of 0 or more.");
+  }
+  const expiryDate = new Date(expiryRaw);
+  if (!expiryRaw || Number.isNaN(expiryDate.getTime())) {
+    throw new Error("Please provide a valid expiry date.");
+  }
+  if (notes.length > 200) {
+    throw new Error("Notes must be 200 characters or fewer.");
+  }
+  return { quantity, expiryDate, notes: notes || undefined };
+}
+
+export const handler: Handlers<BatchesPageData> = {
+  async GET(_req, ctx) {
+    const session = ctx.state.session as Session | undefined;
+    const item = asFood(await getItemById(ctx.params.id));
+    return ctx.render({
+      item,
+      duplicates: item ? await findDuplicates(item) : [],
+      session,
+      csrfToken: session?.csrfToken,
+    });
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session | undefined;
+    if (!session || session.role === "viewer") return forbidden();
+
+    const formData = await req.formData();
+    const csrfToken = formData.get("csrf") as string | null;
+    if (!csrfToken || csrfToken !== session.csrfToken) return csrfFailed();
+
+    const { id } = ctx.params;
+    const item = asFood(await getItemById(id));
+    if (!item) {
+      return ctx.render({
+        item: null,
+        duplicates: [],
+        error: "Food item not found.",
+        session,
+        csrfToken: session.csrfToken,
+      });
+    }
+
+    const action = String(formData.get("action") ?? "");
+    const change: ItemChangeContext = {
+      username: session.username,
+      source: "batches",
+    };
+    try {
+      if (action === "add") {
+        const fields = readBatchFields(formData);
+        if (fields.quantity < 1) {
+          throw new Error("A new batch needs a quantity of at least 1.");
+        }
+        await addFoodBatch(id, fields, change);
+        await logActivity({
+          username: session.username,
+          action: "item.batch_added",
+          resource: item.name,
+          resourceId: item.id,
+          details: `Added ${fields.quantity} expiring ${
+            toDateInputValue(fields.expiryDate)
+          }`,
+        });
+      } else if (action === "update" || action === "remove") {
+        const batchId = String(formData.get("batchId") ?? "");
+        const fields = action === "remove"
+          ? { quantity: 0 }
+          : readBatchFields(formData);
+        const updated = await updateFoodBatch(id, batchId, fields, change);
+        if (!updated) throw new Error("Batch not found.");
+        await logActivity({
+          username: session.username,
+          action: "item.batch_updated",
+          resource: item.name,
+          resourceId: item.id,
+          details: fields.quantity === 0
+            ? "Removed a batch"
+            : `Batch set to ${fields.quantity}`,
+        });
+      } else if (action === "merge") {
+        const sourceIds = formData.getAll("sourceId").map(String);
+        const duplicates = await findDuplicates(item);
+        if (
+          sourceIds.length === 0 ||
+          sourceIds.some((sourceId) =>
+            !duplicates.some((d) => d.id === sourceId)
+          )
+        ) {
+          throw new Error("Choose records with the same name to merge.");
+        }
+        await mergeFoodProducts(id, sourceIds, change);
+        await logActivity({
+          username: session.username,
+          action: "item.batches_merged",
+          resource: item.name,
+          resourceId: item.id,
+          details: `Merged ${sourceIds.length} record${
+            sourceIds.length === 1 ? "" : "s"
+          } into this product`,
+        });
+      } else {
+        throw new Error("Unknown action.");
+      }
+    } catch (err) {
+      return ctx.render({
+        item,
+        duplicates: await findDuplicates(item),
+        error: err instanceof Error ? err.message : "Something went wrong.",
+        session,
+        csrfToken: session.csrfToken,
+      });
+    }
+
+    return new Response(null, {
+      status: 303,
+      headers: { Location: `/inventory/${id}/batches` },
+    });
+  },
+};
+
+export default function BatchesPage({ data }: PageProps<BatchesPageData>) {
+  if (!data.item) {
+    return (
+      <Layout
+        title="Item Not Found"
+        username={data.session?.username}
+        role={data.session?.role}
+      >
+        <div class="bg-red-50 border border-red-200 rounded-lg p-8 text-center">
+          <p class="text-red-700 text-lg">Food item not found</p>
+          <a
+            href="/inventory"
+            class="mt-4 inline-block text-red-600 hover:text-red-800 underline"
+          >
+            Back to Inventory
+          </a>
+        </div>
+      </Layout>
+    );
+  }
+
+  const { item, duplicates } = data;
+  const batches = getFoodBatches(item);
+  const canEdit = data.session?.role !== "viewer";
+  const inputClass =
+    "w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm";
+  const labelClass = "block text-xs text-gray-600 dark:text-gray-400 mb-1";
+
+  return (
+    <Layout
+      title={`Batches: ${item.name}`}
+      username={data.session?.username}
+      role={data.session?.role}
+    >
+      <div class="max-w-4xl mx-auto space-y-6">
+        <div>
+          <a
+            href={`/inventory/${item.id}`}
+            class="text-purple-600 dark:text-purple-400 hover:text-purple-800"
+          >
+            Back to Item
+          </a>
+        </div>
+
+        <div class="bg-white dark:bg-gray-900 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
+          <h1 class="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100">
+            Food Batches
+          </h1>
+          <p class="mt-1 text-gray-600 dark:text-gray-400">
+            {item.name} · {item.location}
+          </p>
+          <p class="mt-3 text-sm text-gray-700 dark:text-gray-300">
+            {item.quantity} in stock across {batches.length} batch
+            {batches.length === 1 ? "" : "es"}. Camp packing uses the batch that
+            expires first.
+          </p>
+        </div>
+
+        {data.error && (
+          <div class="p-3 rounded-md bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-sm">
+            {data.error}
+          </div>
+        )}
+
+        {canEdit && duplicates.length > 0 && (
+          <div class="bg-amber-50 dark:bg-amber-950/40 rounded-lg border border-amber-200 dark:border-amber-800 p-5">
+            <h2 class="font-semibold text-amber-900 dark:text-amber-100">
+              Separate records for "{item.name}"
+            </h2>
+            <p class="mt-1 text-sm text-amber-800 dark:text-amber-200">
+              Merging moves their stock into batches of this product and deletes
+              the separate records.
+            </p>
+            <form method="POST" class="mt-3 space-y-2">
+              <input type="hidden" name="csrf" value={data.csrfToken ?? ""} />
+              <input type="hidden" name="action" value="merge" />
+              {duplicates.map((dup) => (
+                <label
+                  key={dup.id}
+                  class="flex items-center gap-2 text-sm text-amber-900 dark:text-amber-100"
+                >
+                  <input
+                    type="checkbox"
+                    name="sourceId"
+                    value={dup.id}
+                    checked
+                    class="accent-purple-600"
+                  />
+                  {dup.quantity} · expires {formatDate(dup.expiryDate)} ·{" "}
+                  {dup.location}
+                </label>
+              ))}
+              <button
+                type="submit"
+                class="px-3 py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700"
+              >
+                Merge into This Product
+              </button>
+            </form>
+          </div>
+        )}
+
+        {canEdit && (
+          <div class="bg-white dark:bg-gray-900 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
+            <h2 class="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">
+              Add Batch
+            </h2>
+            <form
+              method="POST"
+              class="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end"
+            >
+              <input type="hidden" name="csrf" value={data.csrfToken ?? ""} />
+              <input type="hidden" name="action" value="add" />
+              <div>
+                <label class={labelClass}>Quantity</label>
+                <input
+                  type="number"
+                  name="quantity"
+                  min={1}
+                  value="1"
+                  required
+                  class={inputClass}
+                />
+              </div>
+              <div>
+                <label class={labelClass}>Expiry date</label>
+                <input
+                  type="date"
+                  name="expiryDate"
+                  required
+                  class={inputClass}
+                />
+              </div>
+              <div>
+                <label class={labelClass}>Notes</label>
+                <input
+                  name="notes"
+                  maxLength={200}
+                  placeholder="e.g. Tesco, 3 Oct"
+                  class={inputClass}
+                />
+              </div>
+              <button
+                type="submit"
+                class="px-3 py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700"
+              >
+                Add Batch
+              </button>
+            </form>
+          </div>
+        )}
+
+        <div class="bg-white dark:bg-gray-900 rounded-lg shadow border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-800">
+          {batches.length === 0 && (
+            <p class="p-5 text-gray-600 dark:text-gray-400">
+              No stock of this product.
+            </p>
+          )}
+          {batches.map((batch, index) => (
+            <div key={batch.id} class="p-4 space-y-2">
+              <div class="flex flex-wrap items-center gap-2">
+                <span class="font-semibold text-gray-900 dark:text-gray-100">
+                  {batch.quantity} × expires {formatDate(batch.expiryDate)}
+                </span>
+                <ExpiryBadge expiryDate={batch.expiryDate} />
+                {index === 0 && batches.length > 1 && (
+                  <span class="text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300">
+                    used first
+                  </span>
+                )}
+                <span class="ml-auto text-xs text-gray-500 dark:text-gray-400">
+                  Added {formatDate(batch.addedDate)}
+                </span>
+              </div>
+              {canEdit && (
+                <div class="flex flex-col sm:flex-row gap-2 sm:items-end">
+                  <form
+                    method="POST"
+                    class="flex-1 grid grid-cols-1 sm:grid-cols-12 gap-2 items-end"
+                  >
+                    <input
+                      type="hidden"
+                      name="csrf"
+                      value={data.csrfToken ?? ""}
+                    />
+                    <input type="hidden" name="action" value="update" />
+                    <input type="hidden" name="batchId" value={batch.id} />
+                    <div class="sm:col-span-2">
+                      <label class={labelClass}>Quantity</label>
+                      <input
+                        type="number"
+                        name="quantity"
+                        min={0}
+                        value={String(batch.quantity)}
+                        required
+                        class={inputClass}
+                      />
+                    </div>
+                    <div class="sm:col-span-3">
+                      <label class={labelClass}>Expiry date</label>
+                      <input
+                        type="date"
+                        name="expiryDate"
+                        value={toDateInputValue(batch.expiryDate)}
+                        required
+                        class={inputClass}
+                      />
+                    </div>
+                    <div class="sm:col-span-5">
+                      <label class={labelClass}>Notes</label>
+                      <input
+                        name="notes"
+                        value={batch.notes ?? ""}
+                        maxLength={200}
+                        class={inputClass}
+                      />
+                    </div>
+                    <button
+                      type="submit"
+                      class="sm:col-span-2 px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-sm"
+                    >
+                      Save
+                    </button>
+                  </form>
+                  <form method="POST">
+                    <input
+                      type="hidden"
+                      name="csrf"
+                      value={data.csrfToken ?? ""}
+                    />
+                    <input type="hidden" name="action" value="remove" />
+                    <input type="hidden" name="batchId" value={batch.id} />
+                    <button
+                      type="submit"
+                      title="Remove this batch (used up or thrown away)"
+                      class="px-2 py-1 text-sm text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded hover:bg-red-50 dark:hover:bg-red-950"
+                    >
+                      Remove
+                    </button>
+                  </form>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </Layout>
+  );
+}
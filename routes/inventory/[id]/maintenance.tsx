@@ -3,9 +3,16 @@ import { Handlers, PageProps } from "$fresh/server.ts";
 import Layout from "../../../components/Layout.tsx";
 import type { Session } from "../../../lib/auth.ts";
 import { csrfFailed, forbidden } from "../../../lib/auth.ts";
-import { addMaintenanceRecord, getItemById } from "../../../db/kv.ts";
+import {
+  addMaintenanceRecord,
+  addUnitMaintenanceRecord,
+  getItemById,
+  getItemUnitById,
+} from "../../../db/kv.ts";
 import type {
   InventoryItem,
+  ItemChangeContext,
+  ItemUnit,
   MaintenanceRecord,
 } from "../../../types/inventory.ts";
 import { formatDate } from "../../../lib/date-utils.ts";
@@ -13,6 +20,8 @@ import { logActivity } from "../../../lib/activityLog.ts";
 
 interface MaintenancePageData {
   item: InventoryItem | null;
+  /** Set when logging against a single tracked unit (`?unit=`) */
+  unit?: ItemUnit | null;
   error?: string;
   session?: Session;
   csrfToken?: string;
@@ -70,10 +79,14 @@ function dueText(
 }
 
 export const handler: Handlers<MaintenancePageData> = {
-  async GET(_req, ctx) {
+  async GET(req, ctx) {
     const session = ctx.state.session as Session | undefined;
-    const item = await getItemById(ctx.params.id);
-    return ctx.render({ item, session, csrfToken: session?.csrfToken });
+    const unitId = new URL(req.url).searchParams.get("unit");
+    const [item, unit] = await Promise.all([
+      getItemById(ctx.params.id),
+      unitId ? getItemUnitById(ctx.params.id, unitId) : null,
+    ]);
+    return ctx.render({ item, unit, session, csrfToken: session?.csrfToken });
   },
 
   async POST(req, ctx) {
@@ -84,7 +97,11 @@ export const handler: Handlers<MaintenancePageData> = {
     const csrfToken = formData.get("csrf") as string | null;
     if (!csrfToken || csrfToken !== session.csrfToken) return csrfFailed();
 
-    const item = await getItemById(ctx.params.id);
+    const unitId = String(formData.get("unitId") ?? "");
+    const [item, unit] = await Promise.all([
+      getItemById(ctx.params.id),
+      unitId ? getItemUnitById(ctx.params.id, unitId) : null,
+    ]);
     if (!item) {
       return ctx.render({
         item: null,
@@ -111,9 +128,19 @@ export const handler: Handlers<MaintenancePageData> = {
       "replacement-part",
       "other",
     ];
+    if (unitId && !unit) {
+      return ctx.render({
+        item,
+        unit,
+        error: "Unit not found.",
+        session,
+        csrfToken: session.csrfToken,
+      });
+    }
     if (!dateRaw || Number.isNaN(new Date(dateRaw).getTime())) {
       return ctx.render({
         item,
+        unit,
         error: "Please provide a valid maintenance date.",
         session,
         csrfToken: session.csrfToken,
@@ -122,6 +149,7 @@ export const handler: Handlers<MaintenancePageData> = {
     if (!allowedTypes.includes(typeRaw as MaintenanceRecord["type"])) {
       return ctx.render({
         item,
+        unit,
         error: "Please choose a valid maintenance type.",
         session,
         csrfToken: session.csrfToken,
@@ -130,6 +158,7 @@ export const handler: Handlers<MaintenancePageData> = {
     if (!notesRaw) {
       return ctx.render({
         item,
+        unit,
         error: "Please add maintenance notes.",
         session,
         csrfToken: session.csrfToken,
@@ -138,6 +167,7 @@ export const handler: Handlers<MaintenancePageData> = {
     if (notesRaw.length > 1000) {
       return ctx.render({
         item,
+        unit,
         error: "Notes must be 1000 characters or fewer.",
         session,
         csrfToken: session.csrfToken,
@@ -153,6 +183,7 @@ export const handler: Handlers<MaintenancePageData> = {
       ) {
         return ctx.render({
           item,
+          unit,
           error:
             "Next inspection interval must be a whole number between 1 and 3650.",
           session,
@@ -162,22 +193,30 @@ export const handler: Handlers<MaintenancePageData> = {
       nextInspectionDate = addDays(new Date(dateRaw), intervalDays);
     }
 
-    const conditionAfter = hasCondition(item) && conditionAfterRaw
+    const conditionAfter = (unit || hasCondition(item)) && conditionAfterRaw
       ? conditionAfterRaw as "excellent" | "good" | "fair" | "needs-repair"
       : undefined;
 
-    const updated = await addMaintenanceRecord(item.id, {
+    const record = {
       date: new Date(dateRaw),
       type: typeRaw as MaintenanceRecord["type"],
       notes: notesRaw,
       performedBy: performedByRaw || undefined,
       nextInspectionDate,
       conditionAfter,
-    });
+    };
+    const change: ItemChangeContext = {
+      username: session.username,
+      source: "maintenance",
+    };
+    const updated = unit
+      ? await addUnitMaintenanceRecord(item.id, unit.id, record, change)
+      : await addMaintenanceRecord(item.id, record, change);
 
     if (!updated) {
       return ctx.render({
         item,
+        unit,
         error: "Failed to save maintenance record.",
         session,
         csrfToken: session.csrfToken,
@@ -187,9 +226,11 @@ export const handler: Handlers<MaintenancePageData> = {
     await logActivity({
       username: session.username,
       action: "item.maintenance_logged",
-      resource: updated.name,
-      resourceId: updated.id,
-      details: `Logged ${typeRaw} on ${dateRaw}${
+      resource: item.name,
+      resourceId: item.id,
+      details: `Logged ${typeRaw}${
+        unit ? ` on ${unit.assetTag}` : ""
+      } on ${dateRaw}${
         nextInspectionDate
           ? `, next due ${toDateInputValue(nextInspectionDate)}`
           : ""
@@ -198,7 +239,11 @@ export const handler: Handlers<MaintenancePageData> = {
 
     return new Response(null, {
       status: 303,
-      headers: { Location: `/inventory/${updated.id}/maintenance` },
+      headers: {
+        Location: unit
+          ? `/inventory/${item.id}/maintenance?unit=${unit.id}`
+          : `/inventory/${item.id}/maintenance`,
+      },
     });
   },
 };
@@ -227,8 +272,10 @@ export default function MaintenancePage(
   }
 
   const item = data.item;
-  const maintenanceHistory = item.maintenanceHistory ?? [];
-  const due = dueText(item.nextInspectionDate);
+  const unit = data.unit ?? null;
+  const tracked = unit ?? item;
+  const maintenanceHistory = tracked.maintenanceHistory ?? [];
+  const due = dueText(tracked.nextInspectionDate);
 
   return (
     <Layout
@@ -253,21 +300,34 @@ export default function MaintenancePage(
           <p class="mt-1 text-gray-600 dark:text-gray-400">
             {item.name} · {item.location}
           </p>
+          {unit && (
+            <p class="mt-1 text-sm text-gray-700 dark:text-gray-300">
+              Unit <span class="font-mono font-semibold">{unit.assetTag}</span>
+              {" "}
+              · {unit.condition} ·{" "}
+              <a
+                href={`/inventory/${item.id}/units`}
+                class="text-purple-600 dark:text-purple-400 hover:underline"
+              >
+                All units
+              </a>
+            </p>
+          )}
 
           <div class="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
             <div class="rounded-md border border-gray-200 dark:border-gray-700 p-3">
               <p class="text-gray-500 dark:text-gray-400">Last inspected</p>
               <p class="font-semibold text-gray-900 dark:text-gray-100">
-                {item.lastInspectedDate
-                  ? formatDate(item.lastInspectedDate)
+                {tracked.lastInspectedDate
+                  ? formatDate(tracked.lastInspectedDate)
                   : "Not recorded"}
               </p>
             </div>
             <div class="rounded-md border border-gray-200 dark:border-gray-700 p-3">
               <p class="text-gray-500 dark:text-gray-400">Next inspection</p>
               <p class="font-semibold text-gray-900 dark:text-gray-100">
-                {item.nextInspectionDate
-                  ? formatDate(item.nextInspectionDate)
+                {tracked.nextInspectionDate
+                  ? formatDate(tracked.nextInspectionDate)
                   : "Not scheduled"}
               </p>
             </div>
@@ -291,6 +351,7 @@ export default function MaintenancePage(
 
             <form method="POST" class="space-y-4">
               <input type="hidden" name="csrf" value={data.csrfToken ?? ""} />
+              {unit && <input type="hidden" name="unitId" value={unit.id} />}
 
               <div class="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div>
@@ -350,7 +411,7 @@ export default function MaintenancePage(
                 </div>
               </div>
 
-              {hasCondition(item) && (
+              {(unit || hasCondition(item)) && (
                 <div>
                   <label class="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                     Condition After Work
@@ -1,15 +1,17 @@
 // Printable QR label page for a single inventory item
 import { Handlers, PageProps } from "$fresh/server.ts";
-import type { InventoryItem } from "../../../types/inventory.ts";
+import type { InventoryItem, ItemUnit } from "../../../types/inventory.ts";
 import { getCategoryEmoji } from "../../../types/inventory.ts";
 import type { Session } from "../../../lib/auth.ts";
-import { getItemById } from "../../../db/kv.ts";
+import { getItemById, getItemUnitById } from "../../../db/kv.ts";
 import { logActivity } from "../../../lib/activityLog.ts";
 import PrintButton from "../../../islands/PrintButton.tsx";
 import { generateQrDataUri } from "../../../lib/qr.ts";
 
 interface QrPageData {
   item: InventoryItem;
+  /** Set when printing the label for a single tracked unit (`?unit=`) */
+  unit: ItemUnit | null;
   itemUrl: string;
   qrDataUri: string;
   session?: Session;
@@ -29,8 +31,15 @@ export const handler: Handlers<QrPageData> = {
         headers: { location: `/inventory/${id}` },
       });
     }
-    const origin = new URL(req.url).origin;
-    const itemUrl = `${origin}/inventory/${id}/scan`;
+    const url = new URL(req.url);
+    const unitId = url.searchParams.get("unit");
+    const unit = unitId ? await getItemUnitById(id, unitId) : null;
+    if (unitId && !unit) {
+      return new Response("Unit not found", { status: 404 });
+    }
+    const itemUrl = unit
+      ? `${url.origin}/inventory/${id}/scan?unit=${unit.id}`
+      : `${url.origin}/inventory/${id}/scan`;
 
     // Generate QR server-side so item URLs are never sent to third-party services.
     let qrDataUri = "";
@@ -49,12 +58,12 @@ export const handler: Handlers<QrPageData> = {
       });
     }
 
-    return ctx.render({ item, itemUrl, qrDataUri, session });
+    return ctx.render({ item, unit, itemUrl, qrDataUri, session });
   },
 };
 
 export default function QrLabelPage({ data }: PageProps<QrPageData>) {
-  const { item, itemUrl, qrDataUri } = data;
+  const { item, unit, itemUrl, qrDataUri } = data;
   const emoji = getCategoryEmoji(item.category);
 
   return (
@@ -62,7 +71,7 @@ export default function QrLabelPage({ data }: PageProps<QrPageData>) {
       <head>
         <meta charset="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-        <title>QR Label — {item.name}</title>
+        <title>QR Label — {unit ? unit.assetTag : item.name}</title>
         <style>
           {`
           * { box-sizing: border-box; margin: 0; padding: 0; }
@@ -124,6 +133,13 @@ export default function QrLabelPage({ data }: PageProps<QrPageData>) {
             color: #9ca3af;
             word-break: break-all;
           }
+          .label-tag {
+            font-family: ui-monospace, monospace;
+            font-size: 1rem;
+            font-weight: 700;
+            color: #111827;
+            margin-bottom: 0.5rem;
+          }
           .label-qty {
             margin-top: 0.5rem;
             font-size: 0.75rem;
@@ -154,6 +170,7 @@ export default function QrLabelPage({ data }: PageProps<QrPageData>) {
           <div class="label-emoji">{emoji}</div>
           <div class="label-name">{item.name}</div>
           <div class="label-location">{item.location}</div>
+          {unit && <div class="label-tag">{unit.assetTag}</div>}
           {qrDataUri
             ? (
               <img
@@ -169,7 +186,7 @@ export default function QrLabelPage({ data }: PageProps<QrPageData>) {
                 QR code unavailable
               </p>
             )}
-          <div class="label-qty">Qty: {item.quantity}</div>
+          {!unit && <div class="label-qty">Qty: {item.quantity}</div>}
           <div class="label-url">{itemUrl}</div>
         </div>
       </body>
@@ -1,31 +1,63 @@
-// QR scan landing page for fast loan actions (check-out and check-in)
+// QR scan landing page for fast loan actions (check-out, collection and check-in)
 import { Handlers, PageProps } from "$fresh/server.ts";
 import Layout from "../../../components/Layout.tsx";
 import type { Session } from "../../../lib/auth.ts";
 import { csrfFailed, forbidden } from "../../../lib/auth.ts";
 import {
-  getAllCampPlans,
+  collectLoanReservation,
+  consumeFoodStock,
   getActiveCheckOutsByItemId,
+  getAllCampPlans,
+  getAllCheckOuts,
   getCampPlanById,
   getCheckOutById,
   getItemById,
+  getItemUnitById,
+  getItemUnits,
   rebuildComputedStats,
+  restoreFoodStock,
   returnCheckOut,
+  setItemUnitsStatus,
   updateCampPlan,
   updateItem,
+  validateUnitSelection,
 } from "../../../db/kv.ts";
 import type {
   CampPlan,
   CampPlanItem,
   CheckOut,
   InventoryItem,
+  ItemChangeContext,
+  ItemCondition,
+  ItemUnit,
 } from "../../../types/inventory.ts";
 import { formatDate } from "../../../lib/date-utils.ts";
 import { logActivity } from "../../../lib/activityLog.ts";
+import {
+  availableToLoan,
+  isHeldReservation,
+} from "../../../lib/loanReservations.ts";
+
+const CONDITIONS: ItemCondition[] = [
+  "excellent",
+  "good",
+  "fair",
+  "needs-repair",
+];
+
+function isCondition(value: string): value is ItemCondition {
+  return (CONDITIONS as string[]).includes(value);
+}
 
 interface ScanPageData {
   item: InventoryItem | null;
+  /** The unit whose label was scanned (`?unit=`), if any */
+  unit: ItemUnit | null;
   activeLoans: CheckOut[];
+  /** Bookings waiting to be collected */
+  reservations: CheckOut[];
+  /** In-store units to hand over against a reservation */
+  storeUnits: ItemUnit[];
   campPlans: CampPlan[];
   flash?: string;
   error?: string;
@@ -40,14 +72,19 @@ export const handler: Handlers<ScanPageData> = {
     const reqUrl = new URL(_req.url);
     const flash = reqUrl.searchParams.get("flash") ?? undefined;
     const error = reqUrl.searchParams.get("error") ?? undefined;
-    const [item, campPlans] = await Promise.all([
+    const unitId = reqUrl.searchParams.get("unit");
+    const [item, campPlans, unit] = await Promise.all([
       getItemById(id),
       getAllCampPlans(),
+      unitId ? getItemUnitById(id, unitId) : null,
     ]);
     if (!item) {
       return ctx.render({
         item: null,
+        unit: null,
         activeLoans: [],
+        reservations: [],
+        storeUnits: [],
         campPlans: [],
         flash,
         error,
@@ -56,10 +93,20 @@ export const handler: Handlers<ScanPageData> = {
       });
     }
 
-    const activeLoans = await getActiveCheckOutsByItemId(id);
+    const [activeLoans, checkouts, units] = await Promise.all([
+      getActiveCheckOutsByItemId(id),
+      getAllCheckOuts(),
+      item.hasUnits ? getItemUnits(id) : [],
+    ]);
+    const reservations = checkouts
+      .filter((loan) => loan.itemId === id && isHeldReservation(loan))
+      .sort((a, b) => a.checkOutDate.getTime() - b.checkOutDate.getTime());
     return ctx.render({
       item,
+      unit,
       activeLoans,
+      reservations,
+      storeUnits: units.filter((u) => u.status === "in-store"),
       campPlans,
       flash,
       error,
@@ -77,6 +124,12 @@ export const handler: Handlers<ScanPageData> = {
     if (!csrfToken || csrfToken !== session.csrfToken) return csrfFailed();
 
     const { id: itemId } = ctx.params;
+    const unitId = String(formData.get("unitId") ?? "");
+    const scanUrl = unitId
+      ? `/inventory/${itemId}/scan?unit=${unitId}`
+      : `/inventory/${itemId}/scan`;
+    const scanUrlWith = (query: string) =>
+      `${scanUrl}${unitId ? "&" : "?"}${query}`;
     const action = String(formData.get("action") ?? "");
     if (action === "return-loan") {
       const loanId = String(formData.get("loanId") ?? "");
@@ -88,25 +141,154 @@ export const handler: Handlers<ScanPageData> = {
       if (!loan || loan.itemId !== itemId || loan.status === "returned") {
         return new Response(null, {
           status: 303,
-          headers: { Location: `/inventory/${itemId}/scan` },
+          headers: { Location: scanUrl },
         });
       }
 
-      const updated = await returnCheckOut(loanId);
-      if (updated) {
+      // A scanned unit label returns just that unit
+      const conditionRaw = String(formData.get("condition") ?? "");
+      const quantityRaw = formData.get("quantity");
+      const unitReturn = loan.unitIds?.includes(unitId) ? [unitId] : undefined;
+      let result;
+      try {
+        result = await returnCheckOut(loanId, {
+          username: session.username,
+          source: "scan",
+          details: `Returned by ${loan.borrower}`,
+        }, {
+          quantity: unitReturn
+            ? 1
+            : quantityRaw
+            ? Number(quantityRaw)
+            : undefined,
+          unitIds: unitReturn,
+          condition: isCondition(conditionRaw) ? conditionRaw : undefined,
+          notes: String(formData.get("notes") ?? "").trim().slice(0, 500) ||
+            undefined,
+        });
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        return new Response(null, {
+          status: 303,
+          headers: {
+            Location: scanUrlWith(`error=${encodeURIComponent(message)}`),
+          },
+        });
+      }
+      if (result) {
+        const { returned, remaining } = result;
         await logActivity({
           username: session.username,
           action: "loan.returned",
-          resource: updated.itemName,
-          resourceId: updated.id,
+          resource: returned.itemName,
+          resourceId: loan.id,
+          details: `QR return for ${returned.quantity}${
+            remaining ? ` of ${loan.quantity}` : ""
+          }x \"${returned.itemName}\" from ${returned.borrower}${
+            returned.returnCondition ? ` (${returned.returnCondition})` : ""
+          }`,
+        });
+      }
+
+      return new Response(null, {
+        status: 303,
+        headers: { Location: scanUrl },
+      });
+    }
+
+    if (action === "collect-reservation") {
+      const loanId = String(formData.get("loanId") ?? "");
+      const [loan, item, checkouts, plans] = await Promise.all([
+        getCheckOutById(loanId),
+        getItemById(itemId),
+        getAllCheckOuts(),
+        getAllCampPlans(),
+      ]);
+      if (
+        !loan || !item || loan.itemId !== itemId || !isHeldReservation(loan)
+      ) {
+        return new Response(null, {
+          status: 303,
+          headers: {
+            Location: scanUrlWith("error=Reservation+no+longer+open"),
+          },
+        });
+      }
+
+      const now = new Date();
+      const available = availableToLoan(
+        item,
+        { checkOutDate: now, expectedReturnDate: loan.expectedReturnDate },
+        checkouts,
+        now,
+        loan.id,
+        plans,
+      );
+      if (loan.quantity > available) {
+        return new Response(null, {
+          status: 303,
+          headers: {
+            Location: scanUrlWith(
+              `error=Only+${available}+in+the+store+to+hand+over`,
+            ),
+          },
+        });
+      }
+
+      // Tracked units are picked as they are handed over
+      let unitIds: string[] | undefined;
+      if (item.hasUnits) {
+        unitIds = formData.getAll("unitIds").map(String);
+        const unitError = await validateUnitSelection(item.id, unitIds) ??
+          (unitIds.length !== loan.quantity
+            ? `Tick ${loan.quantity} unit${
+              loan.quantity === 1 ? "" : "s"
+            } to hand over`
+            : null);
+        if (unitError) {
+          return new Response(null, {
+            status: 303,
+            headers: {
+              Location: scanUrlWith(`error=${encodeURIComponent(unitError)}`),
+            },
+          });
+        }
+      }
+
+      let collected;
+      try {
+        collected = await collectLoanReservation(loan.id, unitIds, {
+          username: session.username,
+          source: "scan",
+          details: `Collected by ${loan.borrower}`,
+        });
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        return new Response(null, {
+          status: 303,
+          headers: {
+            Location: scanUrlWith(`error=${encodeURIComponent(message)}`),
+          },
+        });
+      }
+      if (collected) {
+        await logActivity({
+          username: session.username,
+          action: "loan.collected",
+          resource: collected.itemName,
+          resourceId: collected.id,
           details:
-            `QR return for ${updated.quantity}x \"${updated.itemName}\" from ${updated.borrower}`,
+            `QR collection of ${collected.quantity}x \"${collected.itemName}\" by ${collected.borrower}`,
         });
       }
 
       return new Response(null, {
         status: 303,
-        headers: { Location: `/inventory/${itemId}/scan` },
+        headers: {
+          Location: scanUrlWith(
+            `flash=${encodeURIComponent(`Handed over to ${loan.borrower}`)}`,
+          ),
+        },
       });
     }
 
@@ -119,8 +301,7 @@ export const handler: Handlers<ScanPageData> = {
         return new Response(null, {
           status: 303,
           headers: {
-            Location:
-              `/inventory/${itemId}/scan?error=Invalid+camp+or+quantity`,
+            Location: scanUrlWith("error=Invalid+camp+or+quantity"),
           },
         });
       }
@@ -133,7 +314,7 @@ export const handler: Handlers<ScanPageData> = {
         return new Response(null, {
           status: 303,
           headers: {
-            Location: `/inventory/${itemId}/scan?error=Camp+or+item+not+found`,
+            Location: scanUrlWith("error=Camp+or+item+not+found"),
           },
         });
       }
@@ -141,15 +322,47 @@ export const handler: Handlers<ScanPageData> = {
         return new Response(null, {
           status: 303,
           headers: {
-            Location:
-              `/inventory/${itemId}/scan?error=Cannot+pack+to+a+completed+camp`,
+            Location: scanUrlWith("error=Cannot+pack+to+a+completed+camp"),
           },
         });
       }
 
       const existing = plan.items.find((i) => i.itemId === item.id);
+
+      // Tracked units are packed one scanned label at a time
+      let unitIds: string[] | undefined;
+      let unitTag = "";
+      if (item.hasUnits) {
+        const packedHere = existing?.packedStatus && !existing.returnedStatus
+          ? existing.unitIds ?? []
+          : [];
+        const unitError = unitId
+          ? await validateUnitSelection(
+            item.id,
+            [unitId],
+            packedHere.includes(unitId)
+              ? ["in-store", "at-camp"]
+              : ["in-store"],
+          )
+          : "Scan a unit label to pack a tracked item";
+        if (unitError) {
+          return new Response(null, {
+            status: 303,
+            headers: {
+              Location: scanUrlWith(
+                `error=${encodeURIComponent(unitError)}`,
+              ),
+            },
+          });
+        }
+        unitIds = [...new Set([...packedHere, unitId])];
+        unitTag = (await getItemUnitById(item.id, unitId))?.assetTag ?? unitId;
+      }
       const currentlyAtCampQty = item.category !== "food" && item.atCamp
-        ? Math.max(0, Math.min(item.quantity, item.quantityAtCamp ?? item.quantity))
+        ? Math.max(
+          0,
+          Math.min(item.quantity, item.quantityAtCamp ?? item.quantity),
+        )
         : 0;
       const thisPlanReservedNonFoodQty = existing &&
           existing.itemCategory !== "food" &&
@@ -170,40 +383,63 @@ export const handler: Handlers<ScanPageData> = {
         return new Response(null, {
           status: 303,
           headers: {
-            Location: `/inventory/${itemId}/scan?error=Only+${maxAvailable}+available+to+pack`,
+            Location: scanUrlWith(
+              `error=Only+${maxAvailable}+available+to+pack`,
+            ),
           },
         });
       }
 
+      const packedQuantity = unitIds ? unitIds.length : quantity;
       const nextItem: CampPlanItem = existing
         ? {
           ...existing,
-          quantityPlanned: quantity,
+          quantityPlanned: packedQuantity,
           packedStatus: true,
           returnedStatus: false,
+          unitIds,
         }
         : {
           itemId: item.id,
           itemName: item.name,
           itemCategory: item.category,
           itemLocation: item.location,
-          quantityPlanned: quantity,
+          quantityPlanned: packedQuantity,
           packedStatus: true,
           returnedStatus: false,
+          unitIds,
         };
 
       const nextItems = existing
         ? plan.items.map((i) => i.itemId === item.id ? nextItem : i)
         : [...plan.items, nextItem];
 
+      const change: ItemChangeContext = {
+        username: session.username,
+        source: "scan",
+        details: `Packed for camp "${plan.name}"`,
+      };
       if (item.category === "food") {
-        const oldPackedQty = existing?.packedStatus ? existing.quantityPlanned : 0;
-        const delta = quantity - oldPackedQty;
-        if (delta !== 0) {
-          await updateItem(item.id, { quantity: Math.max(0, item.quantity - delta) });
+        // Put back what this plan already took, then take first-expiring lots
+        if (existing?.packedStatus) {
+          await restoreFoodStock(
+            item.id,
+            existing.quantityPlanned,
+            existing.batchAllocations,
+            change,
+          );
         }
+        nextItem.batchAllocations = await consumeFoodStock(
+          item.id,
+          quantity,
+          change,
+        );
       } else {
-        await updateItem(item.id, { atCamp: true, quantityAtCamp: quantity });
+        await updateItem(item.id, {
+          atCamp: true,
+          quantityAtCamp: packedQuantity,
+        }, change);
+        if (unitIds) await setItemUnitsStatus(item.id, unitIds, "at-camp");
       }
 
       await updateCampPlan(plan.id, { items: nextItems }, plan);
@@ -214,13 +450,17 @@ export const handler: Handlers<ScanPageData> = {
         action: "camp.updated",
         resource: item.name,
         resourceId: plan.id,
-        details: `QR packed ${quantity}x \"${item.name}\" into camp \"${plan.name}\"`,
+        details: unitIds
+          ? `QR packed unit ${unitTag} of \"${item.name}\" into camp \"${plan.name}\"`
+          : `QR packed ${quantity}x \"${item.name}\" into camp \"${plan.name}\"`,
       });
 
       return new Response(null, {
         status: 303,
         headers: {
-          Location: `/inventory/${itemId}/scan?flash=Packed+to+${encodeURIComponent(plan.name)}`,
+          Location: scanUrlWith(
+            `flash=Packed+to+${encodeURIComponent(plan.name)}`,
+          ),
         },
       });
     }
@@ -250,7 +490,7 @@ export default function ScanActionPage({ data }: PageProps<ScanPageData>) {
     );
   }
 
-  const { item, activeLoans } = data;
+  const { item, unit, activeLoans, reservations, storeUnits } = data;
   const canEdit = data.session?.role !== "viewer";
   const qrCampPlans = data.campPlans.filter((plan) =>
     plan.status === "planning" || plan.status === "packing" ||
@@ -285,11 +525,20 @@ export default function ScanActionPage({ data }: PageProps<ScanPageData>) {
           <p class="text-sm text-gray-600 dark:text-gray-400">
             {item.location} · {item.quantity} in stock
           </p>
+          {unit && (
+            <p class="mt-2 text-sm text-gray-700 dark:text-gray-300">
+              Unit <span class="font-mono font-semibold">{unit.assetTag}</span>
+              {" "}
+              · {unit.condition} · {unit.status.replace("-", " ")}
+            </p>
+          )}
 
           <div class="mt-4 flex flex-wrap gap-3">
             {canEdit && (
               <a
-                href={`/loans/new?itemId=${item.id}`}
+                href={unit
+                  ? `/loans/new?itemId=${item.id}&unitId=${unit.id}`
+                  : `/loans/new?itemId=${item.id}`}
                 class="px-4 py-2 bg-purple-600 text-white font-medium rounded-md hover:bg-purple-700 transition-colors"
               >
                 Check Out This Item
@@ -303,7 +552,9 @@ export default function ScanActionPage({ data }: PageProps<ScanPageData>) {
             </a>
             {canEdit && (
               <a
-                href={`/inventory/${item.id}/maintenance`}
+                href={unit
+                  ? `/inventory/${item.id}/maintenance?unit=${unit.id}`
+                  : `/inventory/${item.id}/maintenance`}
                 class="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-medium rounded-md hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
               >
                 Log Maintenance
@@ -333,8 +584,15 @@ export default function ScanActionPage({ data }: PageProps<ScanPageData>) {
               )
               : (
                 <form method="POST" class="space-y-3">
-                  <input type="hidden" name="csrf" value={data.csrfToken ?? ""} />
+                  <input
+                    type="hidden"
+                    name="csrf"
+                    value={data.csrfToken ?? ""}
+                  />
                   <input type="hidden" name="action" value="pack-camp" />
+                  {unit && (
+                    <input type="hidden" name="unitId" value={unit.id} />
+                  )}
 
                   <div>
                     <label
@@ -357,27 +615,31 @@ export default function ScanActionPage({ data }: PageProps<ScanPageData>) {
                     </select>
                   </div>
 
-                  <div>
-                    <label
-                      for="quantity"
-                      class="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-                    >
-                      Quantity to Pack
-                    </label>
-                    <input
-                      id="quantity"
-                      name="quantity"
-                      type="number"
-                      min="1"
-                      max={String(Math.max(1, item.quantity))}
-                      value="1"
-                      class="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
-                      required
-                    />
-                    <p class="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                      Available in stock: {item.quantity}
-                    </p>
-                  </div>
+                  {unit
+                    ? <input type="hidden" name="quantity" value="1" />
+                    : (
+                      <div>
+                        <label
+                          for="quantity"
+                          class="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                        >
+                          Quantity to Pack
+                        </label>
+                        <input
+                          id="quantity"
+                          name="quantity"
+                          type="number"
+                          min="1"
+                          max={String(Math.max(1, item.quantity))}
+                          value="1"
+                          class="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                          required
+                        />
+                        <p class="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          Available in stock: {item.quantity}
+                        </p>
+                      </div>
+                    )}
 
                   <button
                     type="submit"
@@ -390,6 +652,76 @@ export default function ScanActionPage({ data }: PageProps<ScanPageData>) {
           </div>
         )}
 
+        {reservations.length > 0 && (
+          <div class="bg-white dark:bg-gray-900 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
+            <h2 class="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">
+              Reservations to Collect
+            </h2>
+            <div class="space-y-3">
+              {reservations.map((loan) => (
+                <form
+                  key={loan.id}
+                  method="POST"
+                  class="rounded-md border border-gray-200 dark:border-gray-700 p-3 space-y-2"
+                >
+                  <input
+                    type="hidden"
+                    name="csrf"
+                    value={data.csrfToken ?? ""}
+                  />
+                  <input
+                    type="hidden"
+                    name="action"
+                    value="collect-reservation"
+                  />
+                  <input type="hidden" name="loanId" value={loan.id} />
+                  {unit && (
+                    <input type="hidden" name="unitId" value={unit.id} />
+                  )}
+                  <div class="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                    <div>
+                      <p class="font-medium text-gray-900 dark:text-gray-100">
+                        {loan.borrower}
+                      </p>
+                      <p class="text-sm text-gray-600 dark:text-gray-400">
+                        Qty {loan.quantity} · Collect{" "}
+                        {formatDate(loan.checkOutDate)} · Due{" "}
+                        {formatDate(loan.expectedReturnDate)}
+                      </p>
+                    </div>
+                    {canEdit && (
+                      <button
+                        type="submit"
+                        class="px-3 py-1.5 text-sm font-medium bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors"
+                      >
+                        Hand Over
+                      </button>
+                    )}
+                  </div>
+                  {canEdit && item.hasUnits && (
+                    <div class="flex flex-wrap gap-2">
+                      {storeUnits.map((storeUnit) => (
+                        <label
+                          key={storeUnit.id}
+                          class="flex items-center gap-1 text-xs font-mono text-gray-700 dark:text-gray-300"
+                        >
+                          <input
+                            type="checkbox"
+                            name="unitIds"
+                            value={storeUnit.id}
+                            checked={storeUnit.id === unit?.id}
+                          />
+                          {storeUnit.assetTag}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </form>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div class="bg-white dark:bg-gray-900 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
           <h2 class="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-3">
             Active Loans for This Item
@@ -417,7 +749,10 @@ export default function ScanActionPage({ data }: PageProps<ScanPageData>) {
                       </p>
                     </div>
                     {canEdit && (
-                      <form method="POST">
+                      <form
+                        method="POST"
+                        class="flex flex-wrap items-center gap-2"
+                      >
                         <input
                           type="hidden"
                           name="csrf"
@@ -429,11 +764,46 @@ export default function ScanActionPage({ data }: PageProps<ScanPageData>) {
                           value="return-loan"
                         />
                         <input type="hidden" name="loanId" value={loan.id} />
+                        {unit && (
+                          <input type="hidden" name="unitId" value={unit.id} />
+                        )}
+                        {loan.quantity > 1 && !loan.unitIds && (
+                          <input
+                            name="quantity"
+                            type="number"
+                            min="1"
+                            max={String(loan.quantity)}
+                            value={String(loan.quantity)}
+                            aria-label="Quantity returned"
+                            class="w-20 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                          />
+                        )}
+                        <select
+                          name="condition"
+                          aria-label="Condition on return"
+                          class="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                        >
+                          <option value="">Condition…</option>
+                          {CONDITIONS.map((c) => (
+                            <option key={c} value={c}>
+                              {c.replace("-", " ")}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          name="notes"
+                          type="text"
+                          maxLength={500}
+                          placeholder="Notes"
+                          class="w-32 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                        />
                         <button
                           type="submit"
                           class="px-3 py-1.5 text-sm font-medium bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
                         >
-                          Mark Returned
+                          {unit && loan.unitIds?.includes(unit.id)
+                            ? `Return ${unit.assetTag}`
+                            : "Mark Returned"}
                         </button>
                       </form>
                     )}
@@ -0,0 +1,553 @@
+// Per-unit tracking page — asset tags, condition and status of each unit
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../../components/Layout.tsx";
+import type { Session } from "../../../lib/auth.ts";
+import { csrfFailed, forbidden } from "../../../lib/auth.ts";
+import {
+  createItemUnits,
+  deleteItemUnit,
+  getItemById,
+  getItemUnits,
+  updateItemUnit,
+} from "../../../db/kv.ts";
+import type {
+  InventoryItem,
+  ItemChangeContext,
+  ItemCondition,
+  ItemUnit,
+  ItemUnitStatus,
+} from "../../../types/inventory.ts";
+import { formatDate } from "../../../lib/date-utils.ts";
+import { logActivity } from "../../../lib/activityLog.ts";
+
+interface UnitsPageData {
+  item: InventoryItem | null;
+  units: ItemUnit[];
+  error?: string;
+  session?: Session;
+  csrfToken?: string;
+}
+
+const CONDITIONS: ItemCondition[] = [
+  "excellent",
+  "good",
+  "fair",
+  "needs-repair",
+];
+
+const STATUS_STYLES: Record<ItemUnitStatus, string> = {
+  "in-store":
+    "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  "on-loan":
+    "bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300",
+  "at-camp":
+    "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  retired: "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400",
+};
+
+function isCondition(value: string): value is ItemCondition {
+  return (CONDITIONS as string[]).includes(value);
+}
+
+/** Suggest a tag prefix from the item name, e.g. "Patrol Tent" → "PATROL-TENT". */
+function defaultTagPrefix(item: InventoryItem): string {
+  return item.name.toUpperCase().replace(/[^A-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "").slice(0, 16) || "UNIT";
+}
+
+/** The next free tag numbers after the highest `<prefix>-NN` already issued. */
+function buildGeneratedTags(
+  prefix: string,
+  count: number,
+  units: ItemUnit[],
+): string[] {
+  const pattern = new RegExp(
+    `^${prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}-(\\d+)$`,
+    "i",
+  );
+  const highest = units.reduce((max, unit) => {
+    const match = unit.assetTag.match(pattern);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+  return Array.from(
+    { length: count },
+    (_, i) => `${prefix}-${String(highest + i + 1).padStart(2, "0")}`,
+  );
+}
+
+export const handler: Handlers<UnitsPageData> = {
+  async GET(_req, ctx) {
+    const session = ctx.state.session as Session | undefined;
+    const [item, units] = await Promise.all([
+      getItemById(ctx.params.id),
+      getItemUnits(ctx.params.id),
+    ]);
+    return ctx.render({ item, units, session, csrfToken: session?.csrfToken });
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session | undefined;
+    if (!session || session.role === "viewer") return forbidden();
+
+    const formData = await req.formData();
+    const csrfToken = formData.get("csrf") as string | null;
+    if (!csrfToken || csrfToken !== session.csrfToken) return csrfFailed();
+
+    const { id } = ctx.params;
+    const [item, units] = await Promise.all([
+      getItemById(id),
+      getItemUnits(id),
+    ]);
+    if (!item) {
+      return ctx.render({
+        item: null,
+        units: [],
+        error: "Item not found.",
+        session,
+        csrfToken: session.csrfToken,
+      });
+    }
+
+    const action = String(formData.get("action") ?? "");
+    const change: ItemChangeContext = {
+      username: session.username,
+      source: "units",
+    };
+    const unitId = String(formData.get("unitId") ?? "");
+    const conditionRaw = String(formData.get("condition") ?? "good");
+    const condition = isCondition(conditionRaw) ? conditionRaw : "good";
+
+    try {
+      if (action === "generate") {
+        const prefix = String(formData.get("prefix") ?? "").trim()
+          .toUpperCase();
+        const count = Number(formData.get("count"));
+        if (!prefix || prefix.length > 24) {
+          throw new Error("Tag prefix must be 1–24 characters.");
+        }
+        if (!Number.isInteger(count) || count < 1 || count > 200) {
+          throw new Error("Number of units must be between 1 and 200.");
+        }
+        const created = await createItemUnits(
+          id,
+          buildGeneratedTags(prefix, count, units).map((assetTag) => ({
+            assetTag,
+            condition,
+          })),
+          change,
+        );
+        await logActivity({
+          username: session.username,
+          action: "item.units_added",
+          resource: item.name,
+          resourceId: item.id,
+          details: `Added ${created.length} unit${
+            created.length === 1 ? "" : "s"
+          }: ${created.map((u) => u.assetTag).join(", ")}`,
+        });
+      } else if (action === "add") {
+        const assetTag = String(formData.get("assetTag") ?? "").trim();
+        if (!assetTag || assetTag.length > 40) {
+          throw new Error("Asset tag must be 1–40 characters.");
+        }
+        await createItemUnits(id, [{ assetTag, condition }], change);
+        await logActivity({
+          username: session.username,
+          action: "item.units_added",
+          resource: item.name,
+          resourceId: item.id,
+          details: `Added unit ${assetTag}`,
+        });
+      } else if (action === "update") {
+        const assetTag = String(formData.get("assetTag") ?? "").trim();
+        const notes = String(formData.get("notes") ?? "").trim();
+        if (!assetTag || assetTag.length > 40) {
+          throw new Error("Asset tag must be 1–40 characters.");
+        }
+        if (notes.length > 500) {
+          throw new Error("Notes must be 500 characters or fewer.");
+        }
+        const updated = await updateItemUnit(id, unitId, {
+          assetTag,
+          condition,
+          notes: notes || undefined,
+        }, change);
+        if (!updated) throw new Error("Unit not found.");
+        await logActivity({
+          username: session.username,
+          action: "item.unit_updated",
+          resource: item.name,
+          resourceId: item.id,
+          details: `${updated.assetTag}: ${updated.condition}`,
+        });
+      } else if (action === "retire" || action === "reinstate") {
+        const updated = await updateItemUnit(id, unitId, {
+          retired: action === "retire",
+        }, change);
+        if (!updated) throw new Error("Unit not found.");
+        await logActivity({
+          username: session.username,
+          action: "item.unit_updated",
+          resource: item.name,
+          resourceId: item.id,
+          details: `${updated.assetTag} ${
+            action === "retire" ? "retired" : "reinstated"
+          }`,
+        });
+      } else if (action === "delete") {
+        const unit = units.find((u) => u.id === unitId);
+        const deleted = await deleteItemUnit(id, unitId, change);
+        if (!deleted) throw new Error("Unit not found.");
+        await logActivity({
+          username: session.username,
+          action: "item.unit_deleted",
+          resource: item.name,
+          resourceId: item.id,
+          details: `Deleted unit ${unit?.assetTag ?? unitId}`,
+        });
+      } else {
+        throw new Error("Unknown action.");
+      }
+    } catch (err) {
+      return ctx.render({
+        item,
+        units,
+        error: err instanceof Error ? err.message : "Something went wrong.",
+        session,
+        csrfToken: session.csrfToken,
+      });
+    }
+
+    return new Response(null, {
+      status: 303,
+      headers: { Location: `/inventory/${id}/units` },
+    });
+  },
+};
+
+export default function UnitsPage({ data }: PageProps<UnitsPageData>) {
+  if (!data.item) {
+    return (
+      <Layout
+        title="Item Not Found"
+        username={data.session?.username}
+        role={data.session?.role}
+      >
+        <div class="bg-red-50 border border-red-200 rounded-lg p-8 text-center">
+          <p class="text-red-700 text-lg">Item not found</p>
+          <a
+            href="/inventory"
+            class="mt-4 inline-block text-red-600 hover:text-red-800 underline"
+          >
+            Back to Inventory
+          </a>
+        </div>
+      </Layout>
+    );
+  }
+
+  const { item, units } = data;
+  const canEdit = data.session?.role !== "viewer";
+  const isAdmin = data.session?.role === "admin";
+  const canTrack = item.category !== "food";
+  const inputClass =
+    "w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm";
+  const labelClass = "block text-xs text-gray-600 dark:text-gray-400 mb-1";
+  const counts = units.reduce<Record<ItemUnitStatus, number>>(
+    (acc, unit) => ({ ...acc, [unit.status]: acc[unit.status] + 1 }),
+    { "in-store": 0, "on-loan": 0, "at-camp": 0, retired: 0 },
+  );
+
+  return (
+    <Layout
+      title={`Units: ${item.name}`}
+      username={data.session?.username}
+      role={data.session?.role}
+    >
+      <div class="max-w-4xl mx-auto space-y-6">
+        <div>
+          <a
+            href={`/inventory/${item.id}`}
+            class="text-purple-600 dark:text-purple-400 hover:text-purple-800"
+          >
+            Back to Item
+          </a>
+        </div>
+
+        <div class="bg-white dark:bg-gray-900 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
+          <h1 class="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100">
+            Tracked Units
+          </h1>
+          <p class="mt-1 text-gray-600 dark:text-gray-400">
+            {item.name} · {item.location}
+          </p>
+          {units.length > 0 && (
+            <p class="mt-3 text-sm text-gray-700 dark:text-gray-300">
+              {counts["in-store"]} in store · {counts["at-camp"]} at camp ·{" "}
+              {counts["on-loan"]} on loan · {counts.retired} retired ·{" "}
+              {item.quantityNeedsRepair ?? 0} need repair
+            </p>
+          )}
+          {!canTrack && (
+            <p class="mt-3 text-sm text-gray-600 dark:text-gray-400">
+              Food is consumable and cannot be tracked as individual units.
+            </p>
+          )}
+        </div>
+
+        {data.error && (
+          <div class="p-3 rounded-md bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-sm">
+            {data.error}
+          </div>
+        )}
+
+        {canEdit && canTrack && (
+          <div class="bg-white dark:bg-gray-900 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6 space-y-5">
+            <div>
+              <h2 class="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                Add Units
+              </h2>
+              {units.length === 0 && (
+                <p class="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                  Once units are added, this item's quantity is counted from
+                  them instead of being edited directly.
+                </p>
+              )}
+            </div>
+            <form
+              method="POST"
+              class="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end"
+            >
+              <input type="hidden" name="csrf" value={data.csrfToken ?? ""} />
+              <input type="hidden" name="action" value="generate" />
+              <div>
+                <label class={labelClass}>Tag prefix</label>
+                <input
+                  name="prefix"
+                  value={defaultTagPrefix(item)}
+                  required
+                  class={inputClass}
+                />
+              </div>
+              <div>
+                <label class={labelClass}>How many</label>
+                <input
+                  type="number"
+                  name="count"
+                  min={1}
+                  max={200}
+                  value={String(units.length === 0 ? item.quantity || 1 : 1)}
+                  required
+                  class={inputClass}
+                />
+              </div>
+              <div>
+                <label class={labelClass}>Condition</label>
+                <select name="condition" class={inputClass}>
+                  {CONDITIONS.map((c) => (
+                    <option key={c} value={c} selected={c === "good"}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="submit"
+                class="px-3 py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700"
+              >
+                Generate Tags
+              </button>
+            </form>
+            <form
+              method="POST"
+              class="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end"
+            >
+              <input type="hidden" name="csrf" value={data.csrfToken ?? ""} />
+              <input type="hidden" name="action" value="add" />
+              <div class="sm:col-span-2">
+                <label class={labelClass}>Existing asset tag</label>
+                <input
+                  name="assetTag"
+                  required
+                  maxLength={40}
+                  placeholder="e.g. 1STX-T-0042"
+                  class={inputClass}
+                />
+              </div>
+              <div>
+                <label class={labelClass}>Condition</label>
+                <select name="condition" class={inputClass}>
+                  {CONDITIONS.map((c) => (
+                    <option key={c} value={c} selected={c === "good"}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="submit"
+                class="px-3 py-2 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100 text-sm rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                Add One
+              </button>
+            </form>
+          </div>
+        )}
+
+        <div class="bg-white dark:bg-gray-900 rounded-lg shadow border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-800">
+          {units.length === 0 && (
+            <p class="p-5 text-gray-600 dark:text-gray-400">
+              No units tracked for this item.
+            </p>
+          )}
+          {units.map((unit) => {
+            const busy = unit.status === "on-loan" ||
+              unit.status === "at-camp";
+            const lastEntry = unit.maintenanceHistory?.[0];
+            return (
+              <div key={unit.id} class="p-4 space-y-2">
+                <div class="flex flex-wrap items-center gap-2">
+                  <span class="font-mono font-semibold text-gray-900 dark:text-gray-100">
+                    {unit.assetTag}
+                  </span>
+                  <span
+                    class={`text-xs px-2 py-0.5 rounded-full ${
+                      STATUS_STYLES[unit.status]
+                    }`}
+                  >
+                    {unit.status.replace("-", " ")}
+                  </span>
+                  {unit.condition === "needs-repair" && (
+                    <span class="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300">
+                      needs repair
+                    </span>
+                  )}
+                  <div class="ml-auto flex gap-3 text-sm">
+                    <a
+                      href={`/inventory/${item.id}/maintenance?unit=${unit.id}`}
+                      class="text-purple-600 dark:text-purple-400 hover:underline"
+                    >
+                      🛠️ Maintenance
+                    </a>
+                    {isAdmin && (
+                      <a
+                        href={`/inventory/${item.id}/qr?unit=${unit.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        class="text-purple-600 dark:text-purple-400 hover:underline"
+                      >
+                        🖨️ QR
+                      </a>
+                    )}
+                  </div>
+                </div>
+                {lastEntry && (
+                  <p class="text-xs text-gray-500 dark:text-gray-400">
+                    Last {lastEntry.type.replace("-", " ")}{" "}
+                    {formatDate(lastEntry.date)}
+                  </p>
+                )}
+                {canEdit && (
+                  <div class="flex flex-col sm:flex-row gap-2 sm:items-end">
+                    <form
+                      method="POST"
+                      class="flex-1 grid grid-cols-1 sm:grid-cols-12 gap-2 items-end"
+                    >
+                      <input
+                        type="hidden"
+                        name="csrf"
+                        value={data.csrfToken ?? ""}
+                      />
+                      <input type="hidden" name="action" value="update" />
+                      <input type="hidden" name="unitId" value={unit.id} />
+                      <div class="sm:col-span-3">
+                        <label class={labelClass}>Tag</label>
+                        <input
+                          name="assetTag"
+                          value={unit.assetTag}
+                          required
+                          maxLength={40}
+                          class={inputClass}
+                        />
+                      </div>
+                      <div class="sm:col-span-3">
+                        <label class={labelClass}>Condition</label>
+                        <select name="condition" class={inputClass}>
+                          {CONDITIONS.map((c) => (
+                            <option
+                              key={c}
+                              value={c}
+                              selected={c === unit.condition}
+                            >
+                              {c}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div class="sm:col-span-4">
+                        <label class={labelClass}>Notes</label>
+                        <input
+                          name="notes"
+                          value={unit.notes ?? ""}
+                          maxLength={500}
+                          class={inputClass}
+                        />
+                      </div>
+                      <button
+                        type="submit"
+                        class="sm:col-span-2 px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-sm"
+                      >
+                        Save
+                      </button>
+                    </form>
+                    <form method="POST">
+                      <input
+                        type="hidden"
+                        name="csrf"
+                        value={data.csrfToken ?? ""}
+                      />
+                      <input
+                        type="hidden"
+                        name="action"
+                        value={unit.status === "retired"
+                          ? "reinstate"
+                          : "retire"}
+                      />
+                      <input type="hidden" name="unitId" value={unit.id} />
+                      <button
+                        type="submit"
+                        disabled={busy}
+                        class="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        {unit.status === "retired" ? "Reinstate" : "Retire"}
+                      </button>
+                    </form>
+                    <form method="POST">
+                      <input
+                        type="hidden"
+                        name="csrf"
+                        value={data.csrfToken ?? ""}
+                      />
+                      <input type="hidden" name="action" value="delete" />
+                      <input type="hidden" name="unitId" value={unit.id} />
+                      <button
+                        type="submit"
+                        disabled={busy}
+                        title={busy
+                          ? "Return this unit to the store first"
+                          : "Delete this unit record"}
+                        class="px-2 py-1 text-sm text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded hover:bg-red-50 dark:hover:bg-red-950 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        Delete
+                      </button>
+                    </form>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -3,13 +3,23 @@ import { Handlers, PageProps } from "$fresh/server.ts";
 import Layout from "../../components/Layout.tsx";
 import ItemForm from "../../islands/ItemForm.tsx";
 import type { Session } from "../../lib/auth.ts";
+import { getAllStorageLocations, getAllStorageSpaces } from "../../db/kv.ts";
+import {
+  groupStorageLocationsBySpace,
+  type ItemSpace,
+  type LocationGroup,
+  type StorageSpaceSummary,
+  toStorageSpaceSummary,
+} from "../../types/inventory.ts";
 
 interface AddItemData {
   session?: Session;
+  spaces: StorageSpaceSummary[];
+  locationGroups: Record<ItemSpace, LocationGroup[]>;
 }
 
 export const handler: Handlers<AddItemData> = {
-  GET(_req, ctx) {
+  async GET(_req, ctx) {
     const session = ctx.state.session as Session;
     // Viewers cannot add items
     if (session.role === "viewer") {
@@ -18,7 +28,15 @@ export const handler: Handlers<AddItemData> = {
         headers: { location: "/inventory" },
       });
     }
-    return ctx.render({ session });
+    const [locations, spaces] = await Promise.all([
+      getAllStorageLocations(),
+      getAllStorageSpaces(),
+    ]);
+    return ctx.render({
+      session,
+      spaces: spaces.map(toStorageSpaceSummary),
+      locationGroups: groupStorageLocationsBySpace(locations, spaces),
+    });
   },
 };
 
@@ -38,7 +56,11 @@ export default function AddItemPage({ data }: PageProps<AddItemData>) {
             Fill out the form below to add a new item to the inventory
           </p>
         </div>
-        <ItemForm csrfToken={data.session?.csrfToken} />
+        <ItemForm
+          csrfToken={data.session?.csrfToken}
+          spaces={data.spaces}
+          locationGroups={data.locationGroups}
+        />
       </div>
     </Layout>
   );
@@ -2,13 +2,26 @@
 import { Handlers, PageProps } from "$fresh/server.ts";
 import Layout from "../../components/Layout.tsx";
 import BulkMoveItems from "../../islands/BulkMoveItems.tsx";
-import { getAllItems } from "../../db/kv.ts";
-import type { InventoryItem } from "../../types/inventory.ts";
+import {
+  getAllItems,
+  getAllStorageLocations,
+  getAllStorageSpaces,
+} from "../../db/kv.ts";
+import {
+  groupStorageLocationsBySpace,
+  type InventoryItem,
+  type ItemSpace,
+  type LocationGroup,
+  type StorageSpaceSummary,
+  toStorageSpaceSummary,
+} from "../../types/inventory.ts";
 import type { Session } from "../../lib/auth.ts";
 import { forbidden } from "../../lib/auth.ts";
 
 interface BulkMovePageData {
   items: InventoryItem[];
+  spaces: StorageSpaceSummary[];
+  locationGroups: Record<ItemSpace, LocationGroup[]>;
   session: Session;
   csrfToken: string;
 }
@@ -19,16 +32,26 @@ export const handler: Handlers<BulkMovePageData> = {
     if (session.role !== "admin" && session.role !== "editor") {
       return forbidden();
     }
-    const items = await getAllItems();
+    const [items, locations, spaces] = await Promise.all([
+      getAllItems(),
+      getAllStorageLocations(),
+      getAllStorageSpaces(),
+    ]);
     items.sort((a, b) =>
       a.name.localeCompare(b.name, undefined, { numeric: true })
     );
-    return ctx.render({ items, session, csrfToken: session.csrfToken });
+    return ctx.render({
+      items,
+      spaces: spaces.map(toStorageSpaceSummary),
+      locationGroups: groupStorageLocationsBySpace(locations, spaces),
+      session,
+      csrfToken: session.csrfToken,
+    });
   },
 };
 
 export default function BulkMovePage({ data }: PageProps<BulkMovePageData>) {
-  const { items, session, csrfToken } = data;
+  const { items, spaces, locationGroups, session, csrfToken } = data;
   return (
     <Layout
       title="Bulk Move Items"
@@ -52,7 +75,12 @@ export default function BulkMovePage({ data }: PageProps<BulkMovePageData>) {
             ← Back to Inventory
           </a>
         </div>
-        <BulkMoveItems items={items} csrfToken={csrfToken} />
+        <BulkMoveItems
+          items={items}
+          csrfToken={csrfToken}
+          spaces={spaces}
+          locationGroups={locationGroups}
+        />
       </div>
     </Layout>
   );
@@ -1,15 +1,28 @@
 // Edit inventory item page
 import { Handlers, PageProps } from "$fresh/server.ts";
-import type { InventoryItem } from "../../../types/inventory.ts";
+import {
+  groupStorageLocationsBySpace,
+  type InventoryItem,
+  type ItemSpace,
+  type LocationGroup,
+  type StorageSpaceSummary,
+  toStorageSpaceSummary,
+} from "../../../types/inventory.ts";
 import Layout from "../../../components/Layout.tsx";
 import ItemForm from "../../../islands/ItemForm.tsx";
 import PhotoUpload from "../../../islands/PhotoUpload.tsx";
 import type { Session } from "../../../lib/auth.ts";
-import { getItemById } from "../../../db/kv.ts";
+import {
+  getAllStorageLocations,
+  getAllStorageSpaces,
+  getItemById,
+} from "../../../db/kv.ts";
 
 interface EditItemData {
   item: InventoryItem | null;
   session?: Session;
+  spaces?: StorageSpaceSummary[];
+  locationGroups?: Record<ItemSpace, LocationGroup[]>;
 }
 
 export const handler: Handlers<EditItemData> = {
@@ -30,7 +43,19 @@ export const handler: Handlers<EditItemData> = {
       if (!item) {
         return ctx.render({ item: null, session });
       }
-      return ctx.render({ item, session });
+      // Keep the item's current location selectable even if it's archived
+      const [locations, spaces] = await Promise.all([
+        getAllStorageLocations(),
+        getAllStorageSpaces(),
+      ]);
+      return ctx.render({
+        item,
+        session,
+        spaces: spaces.map(toStorageSpaceSummary),
+        locationGroups: groupStorageLocationsBySpace(locations, spaces, [
+          item.location,
+        ]),
+      });
     } catch (error) {
       console.error("Failed to fetch item:", error);
       return ctx.render({ item: null, session: ctx.state.session as Session });
@@ -39,7 +64,7 @@ export const handler: Handlers<EditItemData> = {
 };
 
 export default function EditItemPage({ data }: PageProps<EditItemData>) {
-  if (!data.item) {
+  if (!data.item || !data.spaces || !data.locationGroups) {
     return (
       <Layout
         title="Item Not Found"
@@ -81,6 +106,8 @@ export default function EditItemPage({ data }: PageProps<EditItemData>) {
           initialData={data.item}
           isEdit
           csrfToken={data.session?.csrfToken}
+          spaces={data.spaces}
+          locationGroups={data.locationGroups}
         />
         <PhotoUpload
           itemId={data.item.id}
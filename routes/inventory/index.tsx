@@ -1,10 +1,18 @@
 // Inventory listing page
 import { Handlers, PageProps } from "$fresh/server.ts";
-import type { InventoryItem } from "../../types/inventory.ts";
+import {
+  type InventoryItem,
+  type StorageSpaceSummary,
+  toStorageSpaceSummary,
+} from "../../types/inventory.ts";
 import Layout from "../../components/Layout.tsx";
 import InventoryTable from "../../islands/InventoryTable.tsx";
 import type { Session } from "../../lib/auth.ts";
-import { getActiveCheckOuts, getAllItems } from "../../db/kv.ts";
+import {
+  getActiveCheckOuts,
+  getAllItems,
+  getAllStorageSpaces,
+} from "../../db/kv.ts";
 
 interface InventoryPageData {
   items: InventoryItem[];
@@ -12,6 +20,8 @@ interface InventoryPageData {
   needsRepair: boolean;
   lowStock: boolean;
   initialCategory: string;
+  initialSpace: string;
+  spaces: StorageSpaceSummary[];
   loanedItemIds: string[];
   initialOnLoan: boolean;
 }
@@ -22,11 +32,13 @@ export const handler: Handlers<InventoryPageData> = {
     const needsRepair = url.searchParams.get("needsrepair") === "true";
     const lowStock = url.searchParams.get("lowstock") === "true";
     const initialCategory = url.searchParams.get("category") ?? "all";
+    const initialSpace = url.searchParams.get("space") ?? "all";
     const initialOnLoan = url.searchParams.get("onloan") === "true";
     try {
-      const [items, activeLoans] = await Promise.all([
+      const [items, activeLoans, spaces] = await Promise.all([
         getAllItems(),
         getActiveCheckOuts(),
+        getAllStorageSpaces(),
       ]);
       items.sort((a, b) =>
         a.name.localeCompare(b.name, undefined, { numeric: true })
@@ -40,6 +52,8 @@ export const handler: Handlers<InventoryPageData> = {
         needsRepair,
         lowStock,
         initialCategory,
+        initialSpace,
+        spaces: spaces.map(toStorageSpaceSummary),
         loanedItemIds,
         initialOnLoan,
       });
@@ -51,6 +65,8 @@ export const handler: Handlers<InventoryPageData> = {
         needsRepair,
         lowStock,
         initialCategory,
+        initialSpace,
+        spaces: [],
         loanedItemIds: [],
         initialOnLoan,
       });
@@ -96,6 +112,8 @@ export default function InventoryPage({ data }: PageProps<InventoryPageData>) {
         initialNeedsRepair={data.needsRepair}
         initialLowStock={data.lowStock}
         initialCategory={data.initialCategory}
+        initialSpace={data.initialSpace}
+        spaces={data.spaces}
         csrfToken={data.session?.csrfToken}
         loanedItemIds={data.loanedItemIds}
         initialOnLoan={data.initialOnLoan}
@@ -0,0 +1,354 @@
+// Borrower page — directory details and every loan they have had
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../../components/Layout.tsx";
+import BorrowerFields from "../../../components/BorrowerFields.tsx";
+import {
+  csrfFailed,
+  forbidden,
+  getAllUsers,
+  type Session,
+} from "../../../lib/auth.ts";
+import {
+  deleteBorrower,
+  getAllCheckOuts,
+  getBorrowerById,
+  updateBorrower,
+} from "../../../db/kv.ts";
+import {
+  type Borrower,
+  type CheckOut,
+  isActiveLoan,
+} from "../../../types/inventory.ts";
+import {
+  borrowerStanding,
+  readBorrowerFields,
+} from "../../../lib/borrowers.ts";
+import { isNoShow } from "../../../lib/loanReservations.ts";
+import { formatDate } from "../../../lib/date-utils.ts";
+import { logActivity } from "../../../lib/activityLog.ts";
+
+interface BorrowerPageData {
+  borrower: Borrower | null;
+  loans: CheckOut[];
+  users: { id: string; username: string }[];
+  error?: string;
+  session?: Session;
+}
+
+async function loadPageData(
+  id: string,
+  session?: Session,
+  error?: string,
+): Promise<BorrowerPageData> {
+  const [borrower, checkouts, users] = await Promise.all([
+    getBorrowerById(id),
+    getAllCheckOuts(),
+    getAllUsers(),
+  ]);
+  const loans = checkouts
+    .filter((loan) => loan.borrowerId === id)
+    .sort((a, b) =>
+      new Date(b.checkOutDate).getTime() - new Date(a.checkOutDate).getTime()
+    );
+  return {
+    borrower,
+    loans,
+    users: users.map((u) => ({ id: u.id, username: u.username })),
+    error,
+    session,
+  };
+}
+
+export const handler: Handlers<BorrowerPageData> = {
+  async GET(_req, ctx) {
+    const session = ctx.state.session as Session | undefined;
+    return ctx.render(await loadPageData(ctx.params.id, session));
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session | undefined;
+    if (!session || session.role === "viewer") return forbidden();
+
+    const formData = await req.formData();
+    const csrfToken = formData.get("csrf") as string | null;
+    if (!csrfToken || csrfToken !== session.csrfToken) return csrfFailed();
+
+    const { id } = ctx.params;
+    const borrower = await getBorrowerById(id);
+    if (!borrower) {
+      return ctx.render(await loadPageData(id, session));
+    }
+
+    const action = String(formData.get("action") ?? "");
+    try {
+      if (action === "update") {
+        const updated = await updateBorrower(id, readBorrowerFields(formData));
+        if (!updated) throw new Error("Borrower not found.");
+        await logActivity({
+          username: session.username,
+          action: "borrower.updated",
+          resource: updated.name,
+          resourceId: id,
+          details: updated.name !== borrower.name
+            ? `Renamed from ${borrower.name}`
+            : undefined,
+        });
+      } else if (action === "delete") {
+        await deleteBorrower(id);
+        await logActivity({
+          username: session.username,
+          action: "borrower.deleted",
+          resource: borrower.name,
+          resourceId: id,
+        });
+        return new Response(null, {
+          status: 303,
+          headers: { Location: "/loans/borrowers" },
+        });
+      } else {
+        throw new Error("Unknown action.");
+      }
+    } catch (err) {
+      return ctx.render(
+        await loadPageData(
+          id,
+          session,
+          err instanceof Error ? err.message : "Something went wrong.",
+        ),
+      );
+    }
+
+    return new Response(null, {
+      status: 303,
+      headers: { Location: `/loans/borrowers/${id}` },
+    });
+  },
+};
+
+function LoanRow({ loan, now }: { loan: CheckOut; now: Date }) {
+  const overdue = isActiveLoan(loan) &&
+    new Date(loan.expectedReturnDate) < now;
+  return (
+    <li class="py-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+      <div>
+        <a
+          href={`/inventory/${loan.itemId}`}
+          class="font-medium text-gray-800 dark:text-gray-100 hover:underline"
+        >
+          {loan.itemName}
+        </a>
+        <span class="text-gray-500 dark:text-gray-400">× {loan.quantity}</span>
+        {loan.returnCondition === "needs-repair" && (
+          <span class="ml-2 text-xs text-red-600 dark:text-red-400">
+            returned needing repair
+          </span>
+        )}
+      </div>
+      <div
+        class={`text-xs ${
+          overdue
+            ? "text-red-600 dark:text-red-400 font-semibold"
+            : "text-gray-500 dark:text-gray-400"
+        }`}
+      >
+        {loan.status === "reserved" || isNoShow(loan, now)
+          ? `Collect ${formatDate(loan.reservedDate ?? loan.checkOutDate)}`
+          : `${formatDate(loan.checkOutDate)} → ${
+            loan.actualReturnDate
+              ? `returned ${formatDate(loan.actualReturnDate)}`
+              : `due ${formatDate(loan.expectedReturnDate)}`
+          }`}
+      </div>
+    </li>
+  );
+}
+
+export default function BorrowerPage({ data }: PageProps<BorrowerPageData>) {
+  if (!data.borrower) {
+    return (
+      <Layout
+        title="Borrower Not Found"
+        username={data.session?.username}
+        role={data.session?.role}
+      >
+        <div class="bg-red-50 border border-red-200 rounded-lg p-8 text-center">
+          <p class="text-red-700 text-lg">Borrower not found</p>
+          <a
+            href="/loans/borrowers"
+            class="mt-4 inline-block text-red-600 hover:text-red-800 underline"
+          >
+            Back to Borrowers
+          </a>
+        </div>
+      </Layout>
+    );
+  }
+
+  const { borrower, loans, users } = data;
+  const canEdit = data.session?.role !== "viewer";
+  const now = new Date();
+  const standing = borrowerStanding(loans, now);
+  const linkedUser = users.find((u) => u.id === borrower.userId);
+  const current = loans.filter((loan) =>
+    isActiveLoan(loan) && !standing.overdue.includes(loan)
+  );
+  const reservations = loans.filter((loan) =>
+    loan.status === "reserved" && !isNoShow(loan, now)
+  );
+  const past = loans.filter((loan) => loan.status === "returned");
+  const stats = [
+    { label: "Loans", value: standing.totalLoans, alert: false },
+    { label: "Out now", value: standing.active, alert: false },
+    {
+      label: "Overdue",
+      value: standing.overdue.length,
+      alert: standing.overdue.length > 0,
+    },
+    {
+      label: "Returned late",
+      value: standing.returnedLate,
+      alert: false,
+    },
+    { label: "No-shows", value: standing.noShows, alert: false },
+  ];
+  const sectionClass =
+    "bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6 mb-6";
+  const headingClass =
+    "text-base font-semibold text-gray-800 dark:text-purple-100 mb-2";
+
+  return (
+    <Layout
+      title={borrower.name}
+      username={data.session?.username}
+      role={data.session?.role}
+    >
+      <div class="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div class="text-gray-600 dark:text-gray-400 text-sm space-y-1">
+          {borrower.section && <p>Section / patrol: {borrower.section}</p>}
+          {borrower.contact && <p>Contact: {borrower.contact}</p>}
+          {linkedUser && <p>App account: {linkedUser.username}</p>}
+          {borrower.notes && <p class="italic">{borrower.notes}</p>}
+        </div>
+        <a
+          href="/loans/borrowers"
+          class="self-start shrink-0 text-sm text-purple-600 dark:text-purple-400 hover:underline"
+        >
+          ← Borrowers
+        </a>
+      </div>
+
+      {data.error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {data.error}
+        </div>
+      )}
+
+      <div class="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-6">
+        {stats.map((stat) => (
+          <div
+            key={stat.label}
+            class={`rounded-lg border p-3 text-center ${
+              stat.alert
+                ? "bg-red-50 dark:bg-red-950 border-red-200 dark:border-red-800"
+                : "bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700"
+            }`}
+          >
+            <div
+              class={`text-2xl font-bold ${
+                stat.alert
+                  ? "text-red-600 dark:text-red-400"
+                  : "text-gray-800 dark:text-gray-100"
+              }`}
+            >
+              {stat.value}
+            </div>
+            <div class="text-xs text-gray-500 dark:text-gray-400">
+              {stat.label}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {standing.overdue.length > 0 && (
+        <div class="bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-lg p-5 sm:p-6 mb-6">
+          <h2 class="text-base font-semibold text-red-700 dark:text-red-300 mb-2">
+            ⚠️ Overdue
+          </h2>
+          <ul class="divide-y divide-red-100 dark:divide-red-900 text-sm">
+            {standing.overdue.map((loan) => (
+              <LoanRow key={loan.id} loan={loan} now={now} />
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(current.length > 0 || reservations.length > 0) && (
+        <div class={sectionClass}>
+          <h2 class={headingClass}>Current Loans</h2>
+          <ul class="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+            {[...current, ...reservations].map((loan) => (
+              <LoanRow key={loan.id} loan={loan} now={now} />
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div class={sectionClass}>
+        <h2 class={headingClass}>Past Loans</h2>
+        {past.length === 0
+          ? (
+            <p class="text-sm text-gray-500 dark:text-gray-400">
+              Nothing returned yet.
+            </p>
+          )
+          : (
+            <ul class="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+              {past.map((loan) => (
+                <LoanRow key={loan.id} loan={loan} now={now} />
+              ))}
+            </ul>
+          )}
+      </div>
+
+      {canEdit && (
+        <div class={sectionClass}>
+          <h2 class={headingClass}>Edit Borrower</h2>
+          <form method="POST">
+            <input
+              type="hidden"
+              name="csrf"
+              value={data.session?.csrfToken}
+            />
+            <input type="hidden" name="action" value="update" />
+            <BorrowerFields borrower={borrower} users={users} />
+            <button
+              type="submit"
+              class="mt-3 px-3 py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700"
+            >
+              Save
+            </button>
+          </form>
+          {loans.length === 0 && (
+            <form
+              method="POST"
+              class="mt-4 pt-4 border-t border-gray-100 dark:border-gray-700"
+            >
+              <input
+                type="hidden"
+                name="csrf"
+                value={data.session?.csrfToken}
+              />
+              <input type="hidden" name="action" value="delete" />
+              <button
+                type="submit"
+                class="text-sm text-red-600 dark:text-red-400 hover:underline"
+              >
+                Delete borrower
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </Layout>
+  );
+}
@@ -0,0 +1,212 @@
+// Borrower directory — everyone kit is loaned to, with their loan standing
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../../components/Layout.tsx";
+import BorrowerFields from "../../../components/BorrowerFields.tsx";
+import {
+  csrfFailed,
+  forbidden,
+  getAllUsers,
+  type Session,
+} from "../../../lib/auth.ts";
+import {
+  createBorrower,
+  getAllBorrowers,
+  getAllCheckOuts,
+} from "../../../db/kv.ts";
+import type { Borrower, CheckOut } from "../../../types/inventory.ts";
+import {
+  type BorrowerStanding,
+  borrowerStanding,
+  readBorrowerFields,
+} from "../../../lib/borrowers.ts";
+import { logActivity } from "../../../lib/activityLog.ts";
+
+interface BorrowersPageData {
+  borrowers: Borrower[];
+  standing: Record<string, BorrowerStanding>;
+  users: { id: string; username: string }[];
+  session: Session;
+  error?: string;
+}
+
+async function loadPageData(
+  session: Session,
+  error?: string,
+): Promise<BorrowersPageData> {
+  const [borrowers, checkouts, users] = await Promise.all([
+    getAllBorrowers(),
+    getAllCheckOuts(),
+    getAllUsers(),
+  ]);
+  const loansByBorrower = new Map<string, CheckOut[]>();
+  for (const loan of checkouts) {
+    if (!loan.borrowerId) continue;
+    const loans = loansByBorrower.get(loan.borrowerId) ?? [];
+    loans.push(loan);
+    loansByBorrower.set(loan.borrowerId, loans);
+  }
+  const standing: Record<string, BorrowerStanding> = {};
+  for (const borrower of borrowers) {
+    standing[borrower.id] = borrowerStanding(
+      loansByBorrower.get(borrower.id) ?? [],
+    );
+  }
+  return {
+    borrowers,
+    standing,
+    users: users.map((u) => ({ id: u.id, username: u.username })),
+    session,
+    error,
+  };
+}
+
+export const handler: Handlers<BorrowersPageData> = {
+  async GET(_req, ctx) {
+    const session = ctx.state.session as Session;
+    return ctx.render(await loadPageData(session));
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session;
+    if (session.role === "viewer") return forbidden();
+
+    const form = await req.formData();
+    const csrfToken = form.get("csrf") as string | null;
+    if (!csrfToken || csrfToken !== session.csrfToken) return csrfFailed();
+
+    try {
+      const created = await createBorrower(readBorrowerFields(form));
+      await logActivity({
+        username: session.username,
+        action: "borrower.created",
+        resource: created.name,
+        resourceId: created.id,
+        details: created.section,
+      });
+      return new Response(null, {
+        status: 303,
+        headers: { Location: `/loans/borrowers/${created.id}` },
+      });
+    } catch (err) {
+      return ctx.render(
+        await loadPageData(
+          session,
+          err instanceof Error ? err.message : "Something went wrong.",
+        ),
+      );
+    }
+  },
+};
+
+export default function BorrowersPage({ data }: PageProps<BorrowersPageData>) {
+  const { borrowers, standing, users, session, error } = data;
+  const canEdit = session.role !== "viewer";
+
+  return (
+    <Layout
+      title="Borrowers"
+      username={session.username}
+      role={session.role}
+    >
+      <div class="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <p class="text-gray-600 dark:text-gray-400">
+          Everyone kit is loaned to, with what they have out and how reliably it
+          comes back.
+        </p>
+        <a
+          href="/loans"
+          class="self-start shrink-0 text-sm text-purple-600 dark:text-purple-400 hover:underline"
+        >
+          ← Loans
+        </a>
+      </div>
+
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+
+      {canEdit && (
+        <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6 mb-8">
+          <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-3">
+            Add Borrower
+          </h2>
+          <form method="POST">
+            <input type="hidden" name="csrf" value={session.csrfToken} />
+            <BorrowerFields users={users} />
+            <button
+              type="submit"
+              class="mt-3 px-3 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700"
+            >
+              Add Borrower
+            </button>
+          </form>
+        </div>
+      )}
+
+      {borrowers.length === 0
+        ? (
+          <div class="text-center py-10 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg">
+            <div class="text-4xl mb-2">👥</div>
+            <p class="text-gray-500 dark:text-gray-400">
+              No borrowers yet — they are added as loans are recorded.
+            </p>
+          </div>
+        )
+        : (
+          <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+            <table class="w-full text-sm">
+              <thead class="bg-gray-50 dark:bg-gray-900 text-left text-gray-600 dark:text-gray-400">
+                <tr>
+                  <th class="px-4 py-2 font-medium">Borrower</th>
+                  <th class="px-4 py-2 font-medium">Section</th>
+                  <th class="px-4 py-2 font-medium">Contact</th>
+                  <th class="px-4 py-2 font-medium text-right">Loans</th>
+                  <th class="px-4 py-2 font-medium text-right">Out</th>
+                  <th class="px-4 py-2 font-medium text-right">Overdue</th>
+                </tr>
+              </thead>
+              <tbody class="divide-y divide-gray-100 dark:divide-gray-700">
+                {borrowers.map((borrower) => {
+                  const s = standing[borrower.id];
+                  return (
+                    <tr
+                      key={borrower.id}
+                      class="hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                    >
+                      <td class="px-4 py-2">
+                        <a
+                          href={`/loans/borrowers/${borrower.id}`}
+                          class="font-medium text-purple-700 dark:text-purple-300 hover:underline"
+                        >
+                          {borrower.name}
+                        </a>
+                      </td>
+                      <td class="px-4 py-2 text-gray-600 dark:text-gray-400">
+                        {borrower.section ?? "—"}
+                      </td>
+                      <td class="px-4 py-2 text-gray-600 dark:text-gray-400">
+                        {borrower.contact ?? "—"}
+                      </td>
+                      <td class="px-4 py-2 text-right">{s.totalLoans}</td>
+                      <td class="px-4 py-2 text-right">{s.active}</td>
+                      <td
+                        class={`px-4 py-2 text-right ${
+                          s.overdue.length > 0
+                            ? "text-red-600 dark:text-red-400 font-semibold"
+                            : ""
+                        }`}
+                      >
+                        {s.overdue.length}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+    </Layout>
+  );
+}
@@ -4,25 +4,42 @@ import Layout from "../../components/Layout.tsx";
 import LoanList from "../../islands/LoanList.tsx";
 import type { CheckOut } from "../../types/inventory.ts";
 import type { Session } from "../../lib/auth.ts";
-import { getAllCheckOuts } from "../../db/kv.ts";
+import { getAllCheckOuts, getAllItemUnits } from "../../db/kv.ts";
 
 interface LoansPageData {
   loans: CheckOut[];
+  unitTags: Record<string, string>;
   session?: Session;
 }
 
 export const handler: Handlers<LoansPageData> = {
   async GET(_req, ctx) {
     try {
-      const loans = await getAllCheckOuts();
+      const [loans, units] = await Promise.all([
+        getAllCheckOuts(),
+        getAllItemUnits(),
+      ]);
       // Newest first
       loans.sort((a, b) =>
         new Date(b.checkOutDate).getTime() - new Date(a.checkOutDate).getTime()
       );
-      return ctx.render({ loans, session: ctx.state.session as Session });
+      const unitTags = Object.fromEntries(
+        units
+          .filter((unit) => unit.status === "on-loan")
+          .map((unit) => [unit.id, unit.assetTag]),
+      );
+      return ctx.render({
+        loans,
+        unitTags,
+        session: ctx.state.session as Session,
+      });
     } catch (error) {
       console.error("Failed to fetch loans:", error);
-      return ctx.render({ loans: [], session: ctx.state.session as Session });
+      return ctx.render({
+        loans: [],
+        unitTags: {},
+        session: ctx.state.session as Session,
+      });
     }
   },
 };
@@ -43,7 +60,8 @@ export default function LoansPage({ data }: PageProps<LoansPageData>) {
       <div class="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
         <div>
           <p class="text-gray-600 dark:text-gray-400">
-            Track equipment loaned to other groups and mark items returned.
+            Track equipment loaned to other groups, reserve it ahead of
+            collection and mark items returned.
           </p>
           {overdueCount > 0 && (
             <p class="mt-1 text-sm font-medium text-red-600 dark:text-red-400">
@@ -51,20 +69,29 @@ export default function LoansPage({ data }: PageProps<LoansPageData>) {
             </p>
           )}
         </div>
-        {canEdit && (
+        <div class="self-start sm:self-auto shrink-0 flex gap-2">
           <a
-            href="/loans/new"
-            class="self-start sm:self-auto shrink-0 px-4 py-2 bg-purple-600 text-white font-medium rounded-md hover:bg-purple-700 transition-colors"
+            href="/loans/borrowers"
+            class="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 font-medium rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
           >
-            ➕ Record Loan
+            👥 Borrowers
           </a>
-        )}
+          {canEdit && (
+            <a
+              href="/loans/new"
+              class="px-4 py-2 bg-purple-600 text-white font-medium rounded-md hover:bg-purple-700 transition-colors"
+            >
+              ➕ Record Loan
+            </a>
+          )}
+        </div>
       </div>
 
       <LoanList
         loans={data.loans}
         canEdit={canEdit}
         csrfToken={data.session?.csrfToken}
+        unitTags={data.unitTags}
       />
     </Layout>
   );
@@ -1,13 +1,31 @@
-// New loan page — pick an item, enter borrower details and expected return date
+// New loan page — pick an item, enter borrower details and expected return date,
+// or reserve it from a later collection date
 import { Handlers, PageProps } from "$fresh/server.ts";
 import Layout from "../../components/Layout.tsx";
-import LoanForm, { type LoanableItem } from "../../islands/LoanForm.tsx";
+import LoanForm, {
+  type BorrowerOption,
+  type LoanableItem,
+} from "../../islands/LoanForm.tsx";
 import type { Session } from "../../lib/auth.ts";
-import { getAllItems } from "../../db/kv.ts";
+import {
+  getAllBorrowers,
+  getAllCheckOuts,
+  getAllItems,
+  getAllItemUnits,
+} from "../../db/kv.ts";
+import {
+  type CheckOut,
+  isActiveLoan,
+  toItemUnitSummary,
+} from "../../types/inventory.ts";
+import { isHeldReservation } from "../../lib/loanReservations.ts";
 
 interface NewLoanPageData {
   items: LoanableItem[];
+  borrowers: BorrowerOption[];
+  reservations: CheckOut[];
   initialItemId?: string;
+  initialUnitId?: string;
   session?: Session;
 }
 
@@ -21,26 +39,67 @@ export const handler: Handlers<NewLoanPageData> = {
       });
     }
 
-    const initialItemId = new URL(req.url).searchParams.get("itemId") ??
-      undefined;
+    const params = new URL(req.url).searchParams;
+    const initialItemId = params.get("itemId") ?? undefined;
+    const initialUnitId = params.get("unitId") ?? undefined;
 
     // Only non-food items can be loaned (food is consumable).
-    // Exclude items already at camp or fully out-of-stock due to active loans.
-    const allItems = await getAllItems();
+    // Exclude items already at camp. Items fully out on loan can still be
+    // reserved for after they come back.
+    // Unit-tracked items offer only the units currently in the store.
+    const [allItems, allUnits, checkouts, borrowers] = await Promise.all([
+      getAllItems(),
+      getAllItemUnits(),
+      getAllCheckOuts(),
+      getAllBorrowers(),
+    ]);
+    const onLoan = new Map<string, number>();
+    for (const loan of checkouts.filter(isActiveLoan)) {
+      onLoan.set(loan.itemId, (onLoan.get(loan.itemId) ?? 0) + loan.quantity);
+    }
     const loanable: LoanableItem[] = allItems
-      .filter((i) => i.category !== "food" && i.quantity > 0 && !i.atCamp)
-      .map((i) => ({
-        id: i.id,
-        name: i.name,
-        category: i.category,
-        quantity: i.quantity,
-        location: i.location,
-      }))
+      .filter((i) => i.category !== "food" && !i.atCamp)
+      .map((i) => {
+        if (!i.hasUnits) {
+          return {
+            id: i.id,
+            name: i.name,
+            category: i.category,
+            quantity: i.quantity,
+            location: i.location,
+            onLoan: onLoan.get(i.id),
+          };
+        }
+        const units = allUnits
+          .filter((u) => u.itemId === i.id && u.status === "in-store")
+          .map(toItemUnitSummary);
+        return {
+          id: i.id,
+          name: i.name,
+          category: i.category,
+          quantity: units.length,
+          location: i.location,
+          units,
+          onLoan: onLoan.get(i.id),
+        };
+      })
+      .filter((i) => i.quantity > 0 || (i.onLoan ?? 0) > 0)
       .sort((a, b) =>
         a.name.localeCompare(b.name, undefined, { numeric: true })
       );
 
-    return ctx.render({ items: loanable, initialItemId, session });
+    return ctx.render({
+      items: loanable,
+      borrowers: borrowers.map((b) => ({
+        id: b.id,
+        name: b.name,
+        section: b.section,
+      })),
+      reservations: checkouts.filter((loan) => isHeldReservation(loan)),
+      initialItemId,
+      initialUnitId,
+      session,
+    });
   },
 };
 
@@ -58,13 +117,17 @@ export default function NewLoanPage({ data }: PageProps<NewLoanPageData>) {
           </h2>
           <p class="text-gray-600 dark:text-gray-400">
             Log equipment being loaned to another group. Stock will be adjusted
-            when the loan is recorded.
+            when the loan is recorded — or pick a later collection date to
+            reserve it.
           </p>
         </div>
         <div class="w-full max-w-2xl bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-6">
           <LoanForm
             items={data.items}
+            borrowers={data.borrowers}
+            reservations={data.reservations}
             initialItemId={data.initialItemId}
+            initialUnitId={data.initialUnitId}
             csrfToken={data.session?.csrfToken}
           />
         </div>
@@ -2,12 +2,13 @@
 import { Handlers, PageProps } from "$fresh/server.ts";
 import Layout from "../../../components/Layout.tsx";
 import MealForm from "../../../islands/MealForm.tsx";
-import { getMealById } from "../../../db/kv.ts";
+import { getItemsByCategory, getMealById } from "../../../db/kv.ts";
 import { type Session } from "../../../lib/auth.ts";
-import type { Meal } from "../../../types/meals.ts";
+import type { FoodItemSummary, Meal } from "../../../types/meals.ts";
 
 interface EditMealPageData {
   meal: Meal;
+  foodItems: FoodItemSummary[];
   session: Session;
   csrfToken: string;
 }
@@ -21,14 +22,27 @@ export const handler: Handlers<EditMealPageData> = {
         headers: { location: "/meals" },
       });
     }
-    const meal = await getMealById(ctx.params.id);
+    const [meal, rawFood] = await Promise.all([
+      getMealById(ctx.params.id),
+      getItemsByCategory("food"),
+    ]);
     if (!meal) {
       return new Response(null, {
         status: 302,
         headers: { location: "/meals" },
       });
     }
-    return ctx.render({ meal, session, csrfToken: session.csrfToken });
+    const foodItems = rawFood
+      .map((i) => ({ id: i.id, name: i.name, quantity: i.quantity }))
+      .sort((a, b) =>
+        a.name.localeCompare(b.name, undefined, { numeric: true })
+      );
+    return ctx.render({
+      meal,
+      foodItems,
+      session,
+      csrfToken: session.csrfToken,
+    });
   },
 };
 
@@ -48,7 +62,11 @@ export default function EditMealPage({ data }: PageProps<EditMealPageData>) {
             ← Back to meals
           </a>
         </div>
-        <MealForm meal={data.meal} csrfToken={data.csrfToken} />
+        <MealForm
+          meal={data.meal}
+          foodItems={data.foodItems}
+          csrfToken={data.csrfToken}
+        />
       </div>
     </Layout>
   );
@@ -2,14 +2,28 @@
 import { Handlers, PageProps } from "$fresh/server.ts";
 import Layout from "../../components/Layout.tsx";
 import BetaBanner from "../../components/BetaBanner.tsx";
-import MealPlannerForm from "../../islands/MealPlannerForm.tsx";
-import { getAllMeals, getItemsByCategory } from "../../db/kv.ts";
+import MealPlannerForm, {
+  type SpendCamp,
+} from "../../islands/MealPlannerForm.tsx";
+import {
+  getAllCampPlans,
+  getAllMeals,
+  getItemsByCategory,
+} from "../../db/kv.ts";
 import { type Session } from "../../lib/auth.ts";
 import type { FoodItemSummary, Meal } from "../../types/meals.ts";
+import { getFoodBatches } from "../../types/inventory.ts";
+import {
+  DIETARY_LABELS,
+  DIETARY_REQUIREMENTS,
+  mealDietary,
+} from "../../lib/dietary.ts";
+import { packSizeOf } from "../../lib/units.ts";
 
 interface MealsPageData {
   meals: Meal[];
   foodItems: FoodItemSummary[];
+  camps: SpendCamp[];
   session: Session;
   csrfToken: string;
 }
@@ -20,25 +34,47 @@ export const handler: Handlers<MealsPageData> = {
     if (session.role !== "admin") {
       return new Response(null, { status: 302, headers: { location: "/" } });
     }
-    const [meals, rawFood] = await Promise.all([
+    const [meals, rawFood, plans] = await Promise.all([
       getAllMeals(),
       getItemsByCategory("food"),
+      getAllCampPlans(),
     ]);
 
     const foodItems: FoodItemSummary[] = rawFood
-      .map((i) => ({ id: i.id, name: i.name, quantity: i.quantity }))
+      .map((i) => ({
+        id: i.id,
+        name: i.name,
+        quantity: i.quantity,
+        batchCount: i.category === "food" ? getFoodBatches(i).length : 1,
+        allergens: i.category === "food" ? i.allergens : undefined,
+        packSize: i.category === "food" ? packSizeOf(i) : undefined,
+      }))
       .sort((a, b) =>
         a.name.localeCompare(b.name, undefined, { numeric: true })
       );
 
+    // Most recent camps first — shopping is recorded around the camp date
+    const camps: SpendCamp[] = [...plans]
+      .sort((a, b) => b.campDate.getTime() - a.campDate.getTime())
+      .slice(0, 20)
+      .map((plan) => ({
+        id: plan.id,
+        name: plan.name,
+        campDate: plan.campDate.toISOString(),
+        shoppingSpend: plan.shoppingSpend,
+      }));
+
     const csrfToken = session.csrfToken;
-    return ctx.render({ meals, foodItems, session, csrfToken });
+    return ctx.render({ meals, foodItems, camps, session, csrfToken });
   },
 };
 
 export default function MealsPage({ data }: PageProps<MealsPageData>) {
-  const { meals, foodItems, session, csrfToken } = data;
+  const { meals, foodItems, camps, session, csrfToken } = data;
   const isAdmin = session.role === "admin";
+  const allergensById = new Map(
+    foodItems.map((f) => [f.id, f.allergens ?? []]),
+  );
 
   return (
     <Layout
@@ -95,6 +131,10 @@ export default function MealsPage({ data }: PageProps<MealsPageData>) {
                         {" · "}
                         {meal.ingredients.map((i) => i.name).join(", ")}
                       </p>
+                      <MealDietaryTags
+                        meal={meal}
+                        allergensById={allergensById}
+                      />
                     </div>
                     {isAdmin && (
                       <a
@@ -116,9 +156,43 @@ export default function MealsPage({ data }: PageProps<MealsPageData>) {
         <MealPlannerForm
           meals={meals}
           foodItems={foodItems}
+          camps={camps}
           csrfToken={csrfToken}
         />
       )}
     </Layout>
   );
 }
+
+function MealDietaryTags(
+  { meal, allergensById }: {
+    meal: Meal;
+    allergensById: Map<string, string[]>;
+  },
+) {
+  const { unsuitableFor, unchecked } = mealDietary(meal, allergensById);
+  const unsuitable = DIETARY_REQUIREMENTS.filter((r) => unsuitableFor[r]);
+  if (unsuitable.length === 0 && unchecked.length === meal.ingredients.length) {
+    return null;
+  }
+  return (
+    <div class="flex flex-wrap gap-1 mt-1.5">
+      {unsuitable.map((requirement) => (
+        <span
+          key={requirement}
+          title={`Unsuitable: ${unsuitableFor[requirement]!.join(", ")}`}
+          class="text-xs px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-300"
+        >
+          ✗ {DIETARY_LABELS[requirement]}
+        </span>
+      ))}
+      {unchecked.length > 0 && (
+        <span class="text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400">
+          {`${unchecked.length} unlinked ingredient${
+            unchecked.length === 1 ? "" : "s"
+          } not checked`}
+        </span>
+      )}
+    </div>
+  );
+}
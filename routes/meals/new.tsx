@@ -2,9 +2,12 @@
 import { Handlers, PageProps } from "$fresh/server.ts";
 import Layout from "../../components/Layout.tsx";
 import MealForm from "../../islands/MealForm.tsx";
+import { getItemsByCategory } from "../../db/kv.ts";
 import { type Session } from "../../lib/auth.ts";
+import type { FoodItemSummary } from "../../types/meals.ts";
 
 interface NewMealPageData {
+  foodItems: FoodItemSummary[];
   session: Session;
   csrfToken: string;
 }
@@ -18,7 +21,12 @@ export const handler: Handlers<NewMealPageData> = {
         headers: { location: "/meals" },
       });
     }
-    return ctx.render({ session, csrfToken: session.csrfToken });
+    const foodItems = (await getItemsByCategory("food"))
+      .map((i) => ({ id: i.id, name: i.name, quantity: i.quantity }))
+      .sort((a, b) =>
+        a.name.localeCompare(b.name, undefined, { numeric: true })
+      );
+    return ctx.render({ foodItems, session, csrfToken: session.csrfToken });
   },
 };
 
@@ -38,7 +46,7 @@ export default function NewMealPage({ data }: PageProps<NewMealPageData>) {
             ← Back to meals
           </a>
         </div>
-        <MealForm csrfToken={data.csrfToken} />
+        <MealForm foodItems={data.foodItems} csrfToken={data.csrfToken} />
       </div>
     </Layout>
   );
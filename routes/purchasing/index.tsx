@@ -0,0 +1,662 @@
+// Purchasing — raise, approve, order and book in purchases of stock
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../components/Layout.tsx";
+import { csrfFailed, forbidden, type Session } from "../../lib/auth.ts";
+import {
+  createPurchaseRequest,
+  getAllItems,
+  getAllPurchaseRequests,
+  getPurchaseRequestById,
+  updatePurchaseStatus,
+} from "../../db/kv.ts";
+import type { InventoryItem } from "../../types/inventory.ts";
+import type {
+  PurchaseRequest,
+  PurchaseStatus,
+} from "../../types/purchasing.ts";
+import {
+  canManagePurchases,
+  canMovePurchase,
+  isOpenPurchase,
+  PURCHASE_STATUS_LABELS,
+  readPurchaseRequestFields,
+  supplierHref,
+  unrequestedLowStock,
+} from "../../lib/purchasing.ts";
+import { formatDate } from "../../lib/date-utils.ts";
+import { formatMoney } from "../../lib/valuation.ts";
+import { type ActivityAction, logActivity } from "../../lib/activityLog.ts";
+
+type PurchasingTab = "open" | "closed" | "all";
+
+interface PurchasingPageData {
+  session: Session;
+  requests: PurchaseRequest[];
+  items: Pick<InventoryItem, "id" | "name" | "category">[];
+  lowStock: InventoryItem[];
+  activeTab: PurchasingTab;
+  /** Item to preselect in the request form */
+  itemId?: string;
+  message?: string;
+  error?: string;
+}
+
+/** Form `action` → the status it moves a request to. */
+const ACTION_STATUS: Record<string, PurchaseStatus> = {
+  approve: "approved",
+  reject: "rejected",
+  order: "ordered",
+  receive: "received",
+  cancel: "cancelled",
+};
+
+function readTab(value: string | null): PurchasingTab {
+  return value === "closed" || value === "all" ? value : "open";
+}
+
+async function loadPageData(
+  session: Session,
+  overrides: Partial<PurchasingPageData> = {},
+): Promise<PurchasingPageData> {
+  const [requests, items] = await Promise.all([
+    getAllPurchaseRequests(),
+    getAllItems(),
+  ]);
+  return {
+    session,
+    requests,
+    items: items
+      .map(({ id, name, category }) => ({ id, name, category }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    lowStock: unrequestedLowStock(items, requests),
+    activeTab: "open",
+    ...overrides,
+  };
+}
+
+export const handler: Handlers<PurchasingPageData> = {
+  async GET(req, ctx) {
+    const session = ctx.state.session as Session;
+    const url = new URL(req.url);
+    const done = url.searchParams.get("done");
+    return ctx.render(
+      await loadPageData(session, {
+        activeTab: readTab(url.searchParams.get("tab")),
+        itemId: url.searchParams.get("itemId") ?? undefined,
+        message: done ?? undefined,
+      }),
+    );
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session;
+    if (session.role === "viewer") return forbidden();
+
+    const form = await req.formData();
+    const csrfToken = form.get("csrf") as string | null;
+    if (!csrfToken || csrfToken !== session.csrfToken) return csrfFailed();
+
+    const action = String(form.get("action") ?? "");
+    const activeTab = readTab(form.get("tab") as string | null);
+    const redirect = (message: string) =>
+      new Response(null, {
+        status: 303,
+        headers: {
+          Location: `/purchasing?${new URLSearchParams({
+            tab: activeTab,
+            done: message,
+          })}`,
+        },
+      });
+
+    try {
+      if (action === "create") {
+        const request = await createPurchaseRequest(
+          readPurchaseRequestFields(form),
+          session.username,
+        );
+        await logActivity({
+          username: session.username,
+          action: "purchase.requested",
+          resource: request.itemName,
+          resourceId: request.id,
+          details: `${request.quantity}${
+            request.estimatedCost !== undefined
+              ? ` · est. ${formatMoney(request.estimatedCost)}`
+              : ""
+          }`,
+        });
+        return redirect(`Requested ${request.quantity} × ${request.itemName}.`);
+      }
+
+      const status = ACTION_STATUS[action];
+      if (!status) throw new Error("Invalid action.");
+      const existing = await getPurchaseRequestById(
+        String(form.get("requestId") ?? ""),
+      );
+      if (!existing) throw new Error("Request not found.");
+      if (!canMovePurchase(existing, status, session.role, session.username)) {
+        return forbidden();
+      }
+
+      const reason = String(form.get("reason") ?? "").trim() || undefined;
+      if (status === "rejected" && !reason) {
+        throw new Error("A reason is required when rejecting a request.");
+      }
+      let receivedQuantity: number | undefined;
+      let actualCost: number | undefined;
+      let expiryDate: Date | undefined;
+      if (status === "received") {
+        receivedQuantity = Number(form.get("receivedQuantity"));
+        if (!Number.isInteger(receivedQuantity) || receivedQuantity < 1) {
+          throw new Error(
+            "Received quantity must be a whole number of at least 1.",
+          );
+        }
+        const cost = String(form.get("actualCost") ?? "").trim();
+        actualCost = cost ? Number(cost) : undefined;
+        if (
+          actualCost !== undefined &&
+          (!Number.isFinite(actualCost) || actualCost < 0)
+        ) {
+          throw new Error("Actual cost must be a positive amount.");
+        }
+        const expiry = String(form.get("expiryDate") ?? "");
+        expiryDate = expiry ? new Date(expiry) : undefined;
+        if (expiryDate && isNaN(expiryDate.getTime())) {
+          throw new Error("Expiry date is not a valid date.");
+        }
+      }
+
+      const result = await updatePurchaseStatus(
+        existing.id,
+        status,
+        session.username,
+        { reason, receivedQuantity, actualCost, expiryDate },
+      );
+      if (!result) throw new Error("Request not found.");
+      const { request, stockAdded } = result;
+
+      await logActivity({
+        username: session.username,
+        action: `purchase.${status}` as ActivityAction,
+        resource: request.itemName,
+        resourceId: request.id,
+        details: status === "received"
+          ? `${request.receivedQuantity} received${
+            stockAdded ? " and added to stock" : ""
+          }`
+          : reason,
+      });
+      return redirect(
+        status === "received" && !stockAdded
+          ? `Received ${request.receivedQuantity} × ${request.itemName} — add the new units on the item's Units page.`
+          : `${request.itemName}: ${PURCHASE_STATUS_LABELS[status]}.`,
+      );
+    } catch (err) {
+      return ctx.render(
+        await loadPageData(session, {
+          activeTab,
+          error: err instanceof Error ? err.message : "Something went wrong.",
+        }),
+      );
+    }
+  },
+};
+
+const STATUS_CLASSES: Record<PurchaseStatus, string> = {
+  requested:
+    "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-200",
+  approved:
+    "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-200",
+  ordered: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-200",
+  received: "bg-gray-100 text-gray-700 dark:bg-gray-900/40 dark:text-gray-200",
+  rejected: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-200",
+  cancelled: "bg-gray-100 text-gray-500 dark:bg-gray-900/40 dark:text-gray-400",
+};
+
+const inputClass =
+  "px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-100";
+
+function ActionButton(
+  { label, tone }: { label: string; tone: "green" | "red" | "blue" | "gray" },
+) {
+  const tones = {
+    green: "bg-green-600 hover:bg-green-700 text-white",
+    red: "bg-red-600 hover:bg-red-700 text-white",
+    blue: "bg-blue-600 hover:bg-blue-700 text-white",
+    gray:
+      "border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700",
+  };
+  return (
+    <button
+      type="submit"
+      class={`px-3 py-1.5 text-sm rounded-md transition-colors ${tones[tone]}`}
+    >
+      {label}
+    </button>
+  );
+}
+
+function RequestActions(
+  { request, isFood, session, tab }: {
+    request: PurchaseRequest;
+    isFood: boolean;
+    session: Session;
+    tab: PurchasingTab;
+  },
+) {
+  const can = (status: PurchaseStatus) =>
+    canMovePurchase(request, status, session.role, session.username);
+  const hidden = (action: string) => (
+    <>
+      <input type="hidden" name="csrf" value={session.csrfToken} />
+      <input type="hidden" name="requestId" value={request.id} />
+      <input type="hidden" name="tab" value={tab} />
+      <input type="hidden" name="action" value={action} />
+    </>
+  );
+
+  return (
+    <div class="flex flex-wrap items-end gap-2">
+      {can("approved") && (
+        <form method="POST">
+          {hidden("approve")}
+          <ActionButton label="✅ Approve" tone="green" />
+        </form>
+      )}
+      {can("rejected") && (
+        <form method="POST" class="flex gap-2">
+          {hidden("reject")}
+          <input
+            type="text"
+            name="reason"
+            required
+            maxLength={200}
+            placeholder="Reason"
+            class={inputClass}
+          />
+          <ActionButton label="❌ Reject" tone="red" />
+        </form>
+      )}
+      {can("ordered") && (
+        <form method="POST">
+          {hidden("order")}
+          <ActionButton label="🛒 Mark ordered" tone="blue" />
+        </form>
+      )}
+      {can("received") && (
+        <form method="POST" class="flex flex-wrap items-end gap-2">
+          {hidden("receive")}
+          <label class="text-xs text-gray-500 dark:text-gray-400">
+            Qty received
+            <input
+              type="number"
+              name="receivedQuantity"
+              min={1}
+              required
+              value={request.quantity}
+              class={`${inputClass} block w-20`}
+            />
+          </label>
+          <label class="text-xs text-gray-500 dark:text-gray-400">
+            Cost (£)
+            <input
+              type="number"
+              name="actualCost"
+              min={0}
+              step="0.01"
+              value={request.estimatedCost}
+              class={`${inputClass} block w-24`}
+            />
+          </label>
+          {isFood && (
+            <label class="text-xs text-gray-500 dark:text-gray-400">
+              Expiry date
+              <input
+                type="date"
+                name="expiryDate"
+                required
+                class={`${inputClass} block`}
+              />
+            </label>
+          )}
+          <ActionButton label="📦 Received" tone="green" />
+        </form>
+      )}
+      {can("cancelled") && (
+        <form method="POST">
+          {hidden("cancel")}
+          <ActionButton label="Cancel" tone="gray" />
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default function PurchasingPage(
+  { data }: PageProps<PurchasingPageData>,
+) {
+  const {
+    session,
+    requests,
+    items,
+    lowStock,
+    activeTab,
+    itemId,
+    message,
+    error,
+  } = data;
+  const canRaise = session.role !== "viewer";
+  const foodIds = new Set(
+    items.filter((item) => item.category === "food").map((item) => item.id),
+  );
+  const open = requests.filter(isOpenPurchase);
+  const counts: Record<PurchasingTab, number> = {
+    open: open.length,
+    closed: requests.length - open.length,
+    all: requests.length,
+  };
+  const shown = activeTab === "all"
+    ? requests
+    : requests.filter((request) =>
+      isOpenPurchase(request) === (activeTab === "open")
+    );
+
+  return (
+    <Layout
+      title="Purchasing"
+      username={session.username}
+      role={session.role}
+    >
+      <div class="space-y-6">
+        <p class="text-gray-600 dark:text-gray-400">
+          {canManagePurchases(session.role)
+            ? "Approve requests for new stock, mark them ordered and book in deliveries."
+            : "Ask for new stock. A manager approves and orders it; booking in the delivery adds it to the inventory."}
+        </p>
+
+        {message && (
+          <div class="p-3 bg-green-50 dark:bg-green-900/40 border border-green-200 dark:border-green-700 rounded-lg text-green-800 dark:text-green-200 text-sm">
+            ✅ {message}
+          </div>
+        )}
+        {error && (
+          <div class="p-3 bg-red-50 dark:bg-red-900/40 border border-red-200 dark:border-red-700 rounded-lg text-red-800 dark:text-red-200 text-sm">
+            ❌ {error}
+          </div>
+        )}
+
+        <div class="grid gap-6 lg:grid-cols-3">
+          {canRaise && (
+            <section class="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
+              <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-3">
+                Raise a Request
+              </h2>
+              <form method="POST" class="grid gap-3 sm:grid-cols-2">
+                <input type="hidden" name="csrf" value={session.csrfToken} />
+                <input type="hidden" name="action" value="create" />
+                <input type="hidden" name="tab" value={activeTab} />
+                <label class="text-sm text-gray-700 dark:text-gray-300 sm:col-span-2">
+                  Item
+                  <select
+                    name="itemId"
+                    required
+                    class={`${inputClass} block w-full mt-1`}
+                  >
+                    <option value="">Choose an item…</option>
+                    {items.map((item) => (
+                      <option
+                        key={item.id}
+                        value={item.id}
+                        selected={item.id === itemId}
+                      >
+                        {item.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label class="text-sm text-gray-700 dark:text-gray-300">
+                  Quantity
+                  <input
+                    type="number"
+                    name="quantity"
+                    min={1}
+                    required
+                    class={`${inputClass} block w-full mt-1`}
+                  />
+                </label>
+                <label class="text-sm text-gray-700 dark:text-gray-300">
+                  Estimated cost (£, total)
+                  <input
+                    type="number"
+                    name="estimatedCost"
+                    min={0}
+                    step="0.01"
+                    class={`${inputClass} block w-full mt-1`}
+                  />
+                </label>
+                <label class="text-sm text-gray-700 dark:text-gray-300 sm:col-span-2">
+                  Supplier or product link
+                  <input
+                    type="text"
+                    name="supplierUrl"
+                    maxLength={500}
+                    placeholder="https://…"
+                    class={`${inputClass} block w-full mt-1`}
+                  />
+                </label>
+                <label class="text-sm text-gray-700 dark:text-gray-300 sm:col-span-2">
+                  Notes
+                  <textarea
+                    name="notes"
+                    rows={2}
+                    maxLength={500}
+                    class={`${inputClass} block w-full mt-1`}
+                  />
+                </label>
+                <div class="sm:col-span-2">
+                  <button
+                    type="submit"
+                    class="px-3 py-2 bg-green-600 text-white text-sm rounded-md hover:bg-green-700"
+                  >
+                    Submit Request
+                  </button>
+                </div>
+              </form>
+            </section>
+          )}
+
+          <section class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
+            <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-1">
+              ⚠️ Low Stock
+            </h2>
+            <p class="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              At or below minimum with nothing requested yet.
+            </p>
+            {lowStock.length === 0
+              ? (
+                <p class="text-sm text-gray-500 dark:text-gray-400">
+                  Everything low is already on order.
+                </p>
+              )
+              : (
+                <ul class="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                  {lowStock.map((item) => (
+                    <li
+                      key={item.id}
+                      class="py-2 flex items-center justify-between gap-2"
+                    >
+                      <a
+                        href={`/inventory/${item.id}`}
+                        class="text-purple-700 dark:text-purple-300 hover:underline"
+                      >
+                        {item.name}
+                      </a>
+                      <span class="flex items-center gap-3 shrink-0">
+                        <span class="text-red-600 dark:text-red-400">
+                          {`${item.quantity} / ${item.minThreshold}`}
+                        </span>
+                        {canRaise && (
+                          <a
+                            href={`/purchasing?itemId=${item.id}`}
+                            class="text-xs text-purple-600 dark:text-purple-400 hover:underline"
+                          >
+                            Request
+                          </a>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+          </section>
+        </div>
+
+        <div class="flex flex-wrap gap-2">
+          {([
+            ["open", "Open"],
+            ["closed", "Closed"],
+            ["all", "All"],
+          ] as const).map(([tab, label]) => (
+            <a
+              key={tab}
+              href={`/purchasing?tab=${tab}`}
+              class={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm transition-colors ${
+                activeTab === tab
+                  ? "bg-purple-600 border-purple-600 text-white"
+                  : "bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:border-purple-400"
+              }`}
+            >
+              <span>{label}</span>
+              <span
+                class={`text-xs px-2 py-0.5 rounded-full ${
+                  activeTab === tab
+                    ? "bg-white/20"
+                    : "bg-gray-100 dark:bg-gray-700"
+                }`}
+              >
+                {counts[tab]}
+              </span>
+            </a>
+          ))}
+        </div>
+
+        {shown.length === 0
+          ? (
+            <div class="text-center py-10 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg">
+              <div class="text-4xl mb-2">🛒</div>
+              <p class="text-gray-500 dark:text-gray-400">
+                No purchase requests here.
+              </p>
+            </div>
+          )
+          : (
+            <ul class="space-y-3">
+              {shown.map((request) => {
+                const href = request.supplierUrl &&
+                  supplierHref(request.supplierUrl);
+                return (
+                  <li
+                    key={request.id}
+                    class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-4"
+                  >
+                    <div class="flex flex-wrap items-start justify-between gap-2 mb-2">
+                      <div>
+                        <a
+                          href={`/inventory/${request.itemId}`}
+                          class="font-medium text-purple-700 dark:text-purple-300 hover:underline"
+                        >
+                          {`${request.quantity} × ${request.itemName}`}
+                        </a>
+                        <p class="text-xs text-gray-500 dark:text-gray-400">
+                          {`Requested by ${request.requestedBy} on ${
+                            formatDate(request.requestedAt)
+                          }`}
+                          {request.estimatedCost !== undefined &&
+                            ` · est. ${formatMoney(request.estimatedCost)}`}
+                        </p>
+                      </div>
+                      <span
+                        class={`text-xs font-semibold px-2 py-1 rounded-full ${
+                          STATUS_CLASSES[request.status]
+                        }`}
+                      >
+                        {PURCHASE_STATUS_LABELS[request.status]}
+                      </span>
+                    </div>
+
+                    {request.supplierUrl && (
+                      <p class="text-sm text-gray-600 dark:text-gray-400 break-all">
+                        {"Supplier: "}
+                        {href
+                          ? (
+                            <a
+                              href={href}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              class="text-purple-600 dark:text-purple-400 hover:underline"
+                            >
+                              {request.supplierUrl}
+                            </a>
+                          )
+                          : request.supplierUrl}
+                      </p>
+                    )}
+                    {request.notes && (
+                      <p class="text-sm text-gray-600 dark:text-gray-400">
+                        {request.notes}
+                      </p>
+                    )}
+                    {request.reviewedBy && (
+                      <p class="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {`${
+                          request.status === "rejected"
+                            ? "Rejected"
+                            : "Approved"
+                        } by ${request.reviewedBy} on ${
+                          formatDate(request.reviewedAt)
+                        }`}
+                        {request.reviewReason && ` — ${request.reviewReason}`}
+                      </p>
+                    )}
+                    {request.orderedBy && (
+                      <p class="text-xs text-gray-500 dark:text-gray-400">
+                        {`Ordered by ${request.orderedBy} on ${
+                          formatDate(request.orderedAt)
+                        }`}
+                      </p>
+                    )}
+                    {request.receivedBy && (
+                      <p class="text-xs text-gray-500 dark:text-gray-400">
+                        {`${request.receivedQuantity} received by ${request.receivedBy} on ${
+                          formatDate(request.receivedAt)
+                        }`}
+                        {request.actualCost !== undefined &&
+                          ` · cost ${formatMoney(request.actualCost)}`}
+                        {request.receivedExpiryDate &&
+                          ` · expires ${
+                            formatDate(request.receivedExpiryDate)
+                          }`}
+                      </p>
+                    )}
+
+                    {isOpenPurchase(request) && canRaise && (
+                      <div class="mt-3">
+                        <RequestActions
+                          request={request}
+                          isFood={foodIds.has(request.itemId)}
+                          session={session}
+                          tab={activeTab}
+                        />
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+      </div>
+    </Layout>
+  );
+}
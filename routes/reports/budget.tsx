@@ -0,0 +1,437 @@
+// Budget report — budget vs actual spend per category for a financial year
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../components/Layout.tsx";
+import StatCard from "../../components/StatCard.tsx";
+import type { Session } from "../../lib/auth.ts";
+import {
+  getAllCampPlans,
+  getAllItems,
+  getAllPurchaseRequests,
+  getBudget,
+  saveBudget,
+} from "../../db/kv.ts";
+import {
+  ALL_CATEGORIES,
+  getCategoryEmoji,
+  getCategoryLabel,
+  type ItemCategory,
+} from "../../types/inventory.ts";
+import {
+  type Budget,
+  type BudgetLine,
+  budgetVsActual,
+  type CampCosts,
+  campCosts,
+  financialYearLabel,
+  financialYearOf,
+  financialYearRange,
+} from "../../lib/budget.ts";
+import { formatDate } from "../../lib/date-utils.ts";
+import { formatMoney } from "../../lib/valuation.ts";
+import { logActivity } from "../../lib/activityLog.ts";
+
+interface CampCostRow extends CampCosts {
+  id: string;
+  name: string;
+  campDate: Date;
+}
+
+interface BudgetPageData {
+  session: Session;
+  year: number;
+  budget: Budget | null;
+  lines: BudgetLine[];
+  camps: CampCostRow[];
+  message?: string;
+  error?: string;
+}
+
+function categoryLabel(category: ItemCategory): string {
+  return `${getCategoryEmoji(category)} ${getCategoryLabel(category)}`;
+}
+
+function readYear(value: string | null): number {
+  const year = Number(value);
+  return Number.isInteger(year) && year >= 2000 && year <= 2100
+    ? year
+    : financialYearOf(new Date());
+}
+
+async function loadPageData(
+  session: Session,
+  year: number,
+  extra: { message?: string; error?: string } = {},
+): Promise<BudgetPageData> {
+  const [budget, purchases, plans, items] = await Promise.all([
+    getBudget(year),
+    getAllPurchaseRequests(),
+    getAllCampPlans(),
+    getAllItems(),
+  ]);
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const camps = plans
+    .filter((plan) => financialYearOf(plan.campDate) === year)
+    .map((plan) => ({
+      id: plan.id,
+      name: plan.name,
+      campDate: plan.campDate,
+      ...campCosts(plan, itemsById),
+    }))
+    .sort((a, b) => a.campDate.getTime() - b.campDate.getTime());
+  return {
+    session,
+    year,
+    budget,
+    lines: budgetVsActual(budget, purchases, plans, itemsById, year),
+    camps,
+    ...extra,
+  };
+}
+
+function readBudget(form: FormData, year: number, username: string): Budget {
+  const amounts: Budget["amounts"] = {};
+  for (const category of ALL_CATEGORIES) {
+    const raw = String(form.get(category) ?? "").trim();
+    if (!raw) continue;
+    const amount = Number(raw);
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new Error(
+        `${categoryLabel(category)}: budget must be a positive amount.`,
+      );
+    }
+    amounts[category] = amount;
+  }
+  return {
+    year,
+    amounts,
+    updatedBy: username.toLowerCase(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export const handler: Handlers<BudgetPageData> = {
+  async GET(req, ctx) {
+    const session = ctx.state.session as Session;
+    if (session.role !== "admin" && session.role !== "manager") {
+      return new Response(null, { status: 302, headers: { location: "/" } });
+    }
+    const year = readYear(new URL(req.url).searchParams.get("year"));
+    return ctx.render(await loadPageData(session, year));
+  },
+
+  async POST(req, ctx) {
+    const session = ctx.state.session as Session;
+    if (session.role !== "admin" && session.role !== "manager") {
+      return new Response(null, { status: 302, headers: { location: "/" } });
+    }
+    const form = await req.formData();
+    const year = readYear(form.get("year") as string | null);
+
+    const csrfToken = form.get("csrf_token") as string;
+    if (!csrfToken || csrfToken !== session.csrfToken) {
+      return ctx.render(
+        await loadPageData(session, year, {
+          error: "Invalid request. Please try again.",
+        }),
+      );
+    }
+
+    try {
+      const budget = readBudget(form, year, session.username);
+      await saveBudget(budget);
+      const total = Object.values(budget.amounts).reduce(
+        (sum, amount) => sum + (amount ?? 0),
+        0,
+      );
+      await logActivity({
+        username: session.username,
+        action: "budget.updated",
+        resource: financialYearLabel(year),
+        details: `Total ${formatMoney(total)}`,
+      });
+      return ctx.render(
+        await loadPageData(session, year, {
+          message: `Budget for ${financialYearLabel(year)} saved.`,
+        }),
+      );
+    } catch (err) {
+      return ctx.render(
+        await loadPageData(session, year, {
+          error: err instanceof Error ? err.message : "Something went wrong.",
+        }),
+      );
+    }
+  },
+};
+
+export default function BudgetPage({ data }: PageProps<BudgetPageData>) {
+  const { session, year, budget, lines, camps, message, error } = data;
+  const { from, to } = financialYearRange(year);
+  const sum = (field: "budget" | "spent" | "committed" | "remaining") =>
+    lines.reduce((total, line) => total + line[field], 0);
+  const totals = {
+    budget: sum("budget"),
+    spent: sum("spent"),
+    committed: sum("committed"),
+    remaining: sum("remaining"),
+  };
+  const shown = lines.filter((line) =>
+    line.budget > 0 || line.spent > 0 || line.committed > 0
+  );
+  const inputClass =
+    "w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded-md focus:ring-2 focus:ring-purple-500";
+  const th = "px-4 py-2 text-left";
+  const num = "px-4 py-2 text-right whitespace-nowrap";
+
+  return (
+    <Layout
+      title="Budget"
+      username={session.username}
+      role={session.role}
+    >
+      <div class="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <p class="text-gray-600 dark:text-gray-400">
+          {`Financial year ${financialYearLabel(year)}, ${
+            formatDate(from)
+          } to ${formatDate(to)}.`}{" "}
+          Spend is received purchases and camp shopping; committed is approved
+          or ordered purchases.
+        </p>
+        <div class="self-start shrink-0 flex gap-2">
+          <a
+            href={`/reports/budget?year=${year - 1}`}
+            class="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            {`← ${financialYearLabel(year - 1)}`}
+          </a>
+          <a
+            href={`/reports/budget?year=${year + 1}`}
+            class="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            {`${financialYearLabel(year + 1)} →`}
+          </a>
+        </div>
+      </div>
+
+      {message && (
+        <div class="mb-4 p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 rounded">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+
+      <div class="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-8">
+        <StatCard
+          title="Budget"
+          value={formatMoney(totals.budget)}
+          icon="💷"
+          color="purple"
+        />
+        <StatCard
+          title="Spent"
+          value={formatMoney(totals.spent)}
+          icon="🧾"
+          color="blue"
+        />
+        <StatCard
+          title="Committed"
+          value={formatMoney(totals.committed)}
+          icon="🛒"
+          color="yellow"
+          subtitle="Approved or ordered"
+        />
+        <StatCard
+          title="Remaining"
+          value={formatMoney(totals.remaining)}
+          icon={totals.remaining < 0 ? "⚠️" : "✅"}
+          color={totals.remaining < 0 ? "red" : "green"}
+        />
+      </div>
+
+      <section class="mb-8">
+        <h2 class="text-lg font-semibold text-gray-800 dark:text-purple-100 mb-3">
+          Budget vs Actual
+        </h2>
+        {shown.length === 0
+          ? (
+            <p class="text-sm text-gray-500 dark:text-gray-400">
+              No budget or spend recorded for this year yet.
+            </p>
+          )
+          : (
+            <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+              <table class="w-full text-sm">
+                <thead class="bg-gray-50 dark:bg-gray-900 text-gray-600 dark:text-gray-400">
+                  <tr>
+                    <th class={th}>Category</th>
+                    <th class={`${num} font-medium`}>Budget</th>
+                    <th class={`${num} font-medium`}>Spent</th>
+                    <th class={`${num} font-medium`}>Committed</th>
+                    <th class={`${num} font-medium`}>Remaining</th>
+                    <th class={`${th} w-40`}>Used</th>
+                  </tr>
+                </thead>
+                <tbody class="divide-y divide-gray-100 dark:divide-gray-700">
+                  {shown.map((line) => {
+                    const used = line.budget > 0
+                      ? (line.spent + line.committed) / line.budget
+                      : 1;
+                    return (
+                      <tr key={line.category}>
+                        <td class="px-4 py-2">
+                          {categoryLabel(line.category)}
+                        </td>
+                        <td class={num}>{formatMoney(line.budget)}</td>
+                        <td class={num}>{formatMoney(line.spent)}</td>
+                        <td class={num}>{formatMoney(line.committed)}</td>
+                        <td
+                          class={`${num} ${
+                            line.remaining < 0
+                              ? "text-red-600 dark:text-red-400 font-semibold"
+                              : ""
+                          }`}
+                        >
+                          {formatMoney(line.remaining)}
+                        </td>
+                        <td class="px-4 py-2">
+                          <div class="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                            <div
+                              class={`h-2 ${
+                                used > 1
+                                  ? "bg-red-500"
+                                  : used > 0.85
+                                  ? "bg-amber-500"
+                                  : "bg-green-500"
+                              }`}
+                              style={`width: ${Math.min(100, used * 100)}%`}
+                            />
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+                <tfoot class="border-t-2 border-gray-200 dark:border-gray-700 font-semibold">
+                  <tr>
+                    <td class="px-4 py-2">Total</td>
+                    <td class={num}>{formatMoney(totals.budget)}</td>
+                    <td class={num}>{formatMoney(totals.spent)}</td>
+                    <td class={num}>{formatMoney(totals.committed)}</td>
+                    <td class={num}>{formatMoney(totals.remaining)}</td>
+                    <td />
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+      </section>
+
+      <section class="mb-8">
+        <h2 class="text-lg font-semibold text-gray-800 dark:text-purple-100 mb-1">
+          Camp Costs
+        </h2>
+        <p class="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          Food packed from stock at its purchase cost, plus shopping recorded
+          from the meal planner.
+        </p>
+        {camps.length === 0
+          ? (
+            <p class="text-sm text-gray-500 dark:text-gray-400">
+              No camps this year.
+            </p>
+          )
+          : (
+            <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+              <table class="w-full text-sm">
+                <thead class="bg-gray-50 dark:bg-gray-900 text-gray-600 dark:text-gray-400">
+                  <tr>
+                    <th class={th}>Camp</th>
+                    <th class={th}>Date</th>
+                    <th class={`${num} font-medium`}>Food from stock</th>
+                    <th class={`${num} font-medium`}>Shopping</th>
+                    <th class={`${num} font-medium`}>Total</th>
+                  </tr>
+                </thead>
+                <tbody class="divide-y divide-gray-100 dark:divide-gray-700">
+                  {camps.map((camp) => (
+                    <tr key={camp.id}>
+                      <td class="px-4 py-2">
+                        <a
+                          href={`/camps/${camp.id}`}
+                          class="text-purple-700 dark:text-purple-300 hover:underline"
+                        >
+                          {camp.name}
+                        </a>
+                        {camp.unpricedFoodLines > 0 && (
+                          <span
+                            class="ml-2 text-xs text-amber-600 dark:text-amber-400"
+                            title="Packed food with no purchase cost recorded"
+                          >
+                            {`${camp.unpricedFoodLines} unpriced`}
+                          </span>
+                        )}
+                      </td>
+                      <td class="px-4 py-2 text-gray-600 dark:text-gray-400">
+                        {formatDate(camp.campDate)}
+                      </td>
+                      <td class={num}>{formatMoney(camp.foodFromStock)}</td>
+                      <td class={num}>{formatMoney(camp.shopping)}</td>
+                      <td class={`${num} font-semibold`}>
+                        {formatMoney(camp.total)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+      </section>
+
+      <section class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 p-5 sm:p-6">
+        <h2 class="text-base font-semibold text-gray-800 dark:text-purple-100 mb-1">
+          {`Set Budget — ${financialYearLabel(year)}`}
+        </h2>
+        {budget?.updatedBy && (
+          <p class="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            {`Last saved by ${budget.updatedBy} on ${
+              formatDate(budget.updatedAt)
+            }`}
+          </p>
+        )}
+        <form method="POST" class="mt-3">
+          <input type="hidden" name="csrf_token" value={session.csrfToken} />
+          <input type="hidden" name="year" value={year} />
+          <div class="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {ALL_CATEGORIES.map((category) => (
+              <label
+                key={category}
+                class="text-sm text-gray-700 dark:text-gray-300"
+              >
+                {categoryLabel(category)}
+                <input
+                  type="number"
+                  name={category}
+                  min={0}
+                  step="0.01"
+                  placeholder="£"
+                  value={budget?.amounts[category]}
+                  class={`${inputClass} mt-1`}
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            class="mt-4 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium rounded-lg"
+          >
+            Save Budget
+          </button>
+        </form>
+      </section>
+    </Layout>
+  );
+}
@@ -1,46 +1,92 @@
 // Expiring food report page
 import { Handlers, PageProps } from "$fresh/server.ts";
-import type { FoodItem } from "../../types/inventory.ts";
-import { getDaysUntil } from "../../lib/date-utils.ts";
+import {
+  type FoodBatch,
+  type FoodItem,
+  getFoodBatches,
+} from "../../types/inventory.ts";
+import { formatDate, getDaysUntil } from "../../lib/date-utils.ts";
 import Layout from "../../components/Layout.tsx";
 import ExpiryBadge from "../../components/ExpiryBadge.tsx";
 import type { Session } from "../../lib/auth.ts";
-import { getFoodItemsSortedByExpiry } from "../../db/kv.ts";
+import { getAllFirstAidKits, getFoodItemsSortedByExpiry } from "../../db/kv.ts";
+import {
+  expiringFirstAid,
+  FIRST_AID_EXPIRY_WARNING_DAYS,
+  type FirstAidExpiryRow,
+} from "../../lib/firstAidExpiry.ts";
+
+/** A product's batches that fall within one expiry tier. */
+interface ExpiringProduct {
+  item: FoodItem;
+  batches: FoodBatch[];
+  quantity: number;
+  /** Earliest expiry among `batches` */
+  expiryDate: Date;
+}
 
 interface ExpiringFoodData {
-  expired: FoodItem[];
-  expiringSoon: FoodItem[];
-  expiringWarning: FoodItem[];
-  fresh: FoodItem[];
+  expired: ExpiringProduct[];
+  expiringSoon: ExpiringProduct[];
+  expiringWarning: ExpiringProduct[];
+  fresh: ExpiringProduct[];
+  /** Dated first aid kit contents expiring within 30 days, or expired */
+  firstAid: FirstAidExpiryRow[];
   session?: Session;
 }
 
+type ExpiryTier = "expired" | "expiringSoon" | "expiringWarning" | "fresh";
+
+function expiryTier(expiryDate: Date): ExpiryTier {
+  const daysUntil = getDaysUntil(expiryDate);
+  if (daysUntil < 0) return "expired";
+  if (daysUntil <= 7) return "expiringSoon";
+  if (daysUntil <= 30) return "expiringWarning";
+  return "fresh";
+}
+
 export const handler: Handlers<ExpiringFoodData> = {
   async GET(_req, ctx) {
     try {
       // getFoodItemsSortedByExpiry uses the expiry index — returns only food items,
       // already ordered chronologically, without scanning all inventory.
-      const foodItems = await getFoodItemsSortedByExpiry();
+      const [foodItems, kits] = await Promise.all([
+        getFoodItemsSortedByExpiry(),
+        getAllFirstAidKits(),
+      ]);
 
-      const expired: FoodItem[] = [];
-      const expiringSoon: FoodItem[] = [];
-      const expiringWarning: FoodItem[] = [];
-      const fresh: FoodItem[] = [];
+      const tiers: Record<ExpiryTier, ExpiringProduct[]> = {
+        expired: [],
+        expiringSoon: [],
+        expiringWarning: [],
+        fresh: [],
+      };
 
+      // One row per product per tier, listing the batches that fall in it
       for (const item of foodItems) {
-        const daysUntil = getDaysUntil(item.expiryDate);
-        if (daysUntil < 0) expired.push(item);
-        else if (daysUntil <= 7) expiringSoon.push(item);
-        else if (daysUntil <= 30) expiringWarning.push(item);
-        else fresh.push(item);
+        const byTier = new Map<ExpiryTier, FoodBatch[]>();
+        for (const batch of getFoodBatches(item)) {
+          const tier = expiryTier(batch.expiryDate);
+          byTier.set(tier, [...(byTier.get(tier) ?? []), batch]);
+        }
+        for (const [tier, batches] of byTier) {
+          tiers[tier].push({
+            item,
+            batches,
+            quantity: batches.reduce((sum, b) => sum + b.quantity, 0),
+            expiryDate: batches[0].expiryDate,
+          });
+        }
+      }
+      for (const products of Object.values(tiers)) {
+        products.sort((a, b) =>
+          a.expiryDate.getTime() - b.expiryDate.getTime()
+        );
       }
-      // Items are already sorted by expiry date from the index scan
 
       return ctx.render({
-        expired,
-        expiringSoon,
-        expiringWarning,
-        fresh,
+        ...tiers,
+        firstAid: expiringFirstAid(kits, new Date().toISOString().slice(0, 10)),
         session: ctx.state.session as Session,
       });
     } catch (error) {
@@ -50,14 +96,28 @@ export const handler: Handlers<ExpiringFoodData> = {
         expiringSoon: [],
         expiringWarning: [],
         fresh: [],
+        firstAid: [],
         session: ctx.state.session as Session,
       });
     }
   },
 };
 
-function FoodItemCard({ item }: { item: FoodItem }) {
-  const days = getDaysUntil(item.expiryDate);
+/** "3 batches: 12 × 05 Nov 2026, …" — only shown for multi-batch products. */
+function BatchSummary({ batches }: { batches: FoodBatch[] }) {
+  if (batches.length < 2) return null;
+  return (
+    <div class="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+      {batches.length} batches:{" "}
+      {batches.map((b) => `${b.quantity} × ${formatDate(b.expiryDate)}`)
+        .join(", ")}
+    </div>
+  );
+}
+
+function FoodItemCard({ product }: { product: ExpiringProduct }) {
+  const { item } = product;
+  const days = getDaysUntil(product.expiryDate);
   const accent = days < 0
     ? "border-l-red-500"
     : days <= 7
@@ -75,9 +135,10 @@ function FoodItemCard({ item }: { item: FoodItem }) {
           <div class="text-xs text-gray-500 dark:text-gray-400 capitalize mt-0.5">
             {item.foodType}
           </div>
+          <BatchSummary batches={product.batches} />
         </div>
         <div class="shrink-0 ml-3">
-          <ExpiryBadge expiryDate={item.expiryDate} />
+          <ExpiryBadge expiryDate={product.expiryDate} />
         </div>
       </div>
       <div class="grid grid-cols-2 gap-x-4 gap-y-1 px-4 pb-3 text-sm">
@@ -86,7 +147,7 @@ function FoodItemCard({ item }: { item: FoodItem }) {
             Quantity
           </span>
           <span class="font-medium text-gray-900 dark:text-gray-100">
-            {item.quantity}
+            {product.quantity}
           </span>
         </div>
         <div>
@@ -110,7 +171,8 @@ function FoodItemCard({ item }: { item: FoodItem }) {
   );
 }
 
-function FoodItemRow({ item }: { item: FoodItem }) {
+function FoodItemRow({ product }: { product: ExpiringProduct }) {
+  const { item } = product;
   return (
     <tr class="hover:bg-gray-50 dark:hover:bg-gray-800">
       <td class="px-6 py-4">
@@ -120,15 +182,16 @@ function FoodItemRow({ item }: { item: FoodItem }) {
         <div class="text-sm text-gray-500 dark:text-gray-400 capitalize">
           {item.foodType}
         </div>
+        <BatchSummary batches={product.batches} />
       </td>
       <td class="px-6 py-4 whitespace-nowrap text-gray-900 dark:text-gray-100">
-        {item.quantity}
+        {product.quantity}
       </td>
       <td class="px-6 py-4 text-gray-900 dark:text-gray-100">
         {item.location}
       </td>
       <td class="px-6 py-4 whitespace-nowrap">
-        <ExpiryBadge expiryDate={item.expiryDate} />
+        <ExpiryBadge expiryDate={product.expiryDate} />
       </td>
       <td class="px-6 py-4 whitespace-nowrap text-sm">
         <a
@@ -152,7 +215,7 @@ function FoodSection({
   title,
   description,
 }: {
-  items: FoodItem[];
+  items: ExpiringProduct[];
   headerBg: string;
   headerBorder: string;
   headerText: string;
@@ -171,7 +234,9 @@ function FoodSection({
       </div>
       {/* Mobile cards */}
       <div class="block sm:hidden space-y-3">
-        {items.map((item) => <FoodItemCard key={item.id} item={item} />)}
+        {items.map((product) => (
+          <FoodItemCard key={product.item.id} product={product} />
+        ))}
       </div>
       {/* Desktop table */}
       <div class="hidden sm:block bg-white dark:bg-gray-900 rounded-lg shadow overflow-hidden">
@@ -196,7 +261,72 @@ function FoodSection({
             </tr>
           </thead>
           <tbody class="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
-            {items.map((item) => <FoodItemRow key={item.id} item={item} />)}
+            {items.map((product) => (
+              <FoodItemRow key={product.item.id} product={product} />
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function FirstAidSection({ rows }: { rows: FirstAidExpiryRow[] }) {
+  return (
+    <div>
+      <div class="bg-rose-100 dark:bg-rose-900/40 border-l-4 border-rose-500 p-4 mb-4">
+        <h2 class="text-xl font-bold text-rose-800 dark:text-rose-100">
+          🩹 First Aid Kits ({rows.length})
+        </h2>
+        <p class="text-sm mt-1 text-rose-700 dark:text-rose-300">
+          {`Dated kit contents expiring within ${FIRST_AID_EXPIRY_WARNING_DAYS} days or already expired, as recorded at the last kit check`}
+        </p>
+      </div>
+      <div class="bg-white dark:bg-gray-900 rounded-lg shadow overflow-x-auto">
+        <table class="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead class="bg-rose-50 dark:bg-rose-950/40">
+            <tr>
+              <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                Item
+              </th>
+              <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                Kit
+              </th>
+              <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                Quantity
+              </th>
+              <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                Status
+              </th>
+            </tr>
+          </thead>
+          <tbody class="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.map((row) => (
+              <tr
+                key={`${row.kitId}-${row.itemId}-${row.expiryDate}`}
+                class="hover:bg-gray-50 dark:hover:bg-gray-800"
+              >
+                <td class="px-6 py-4 font-medium text-gray-900 dark:text-gray-100">
+                  {row.itemName}
+                </td>
+                <td class="px-6 py-4 text-gray-900 dark:text-gray-100">
+                  <a
+                    href={`/first-aid/check?kit=${
+                      encodeURIComponent(row.kitId)
+                    }`}
+                    class="text-purple-600 hover:text-purple-900 dark:text-purple-400 dark:hover:text-purple-200"
+                  >
+                    {row.kitName}
+                  </a>
+                </td>
+                <td class="px-6 py-4 whitespace-nowrap text-gray-900 dark:text-gray-100">
+                  {row.quantity}
+                </td>
+                <td class="px-6 py-4 whitespace-nowrap">
+                  <ExpiryBadge expiryDate={row.expiryDate} />
+                </td>
+              </tr>
+            ))}
           </tbody>
         </table>
       </div>
@@ -218,10 +348,17 @@ export default function ExpiringFoodPage(
     >
       <div class="mb-6">
         <p class="text-gray-600 dark:text-gray-400">
-          Monitor food items approaching their expiry dates
+          Monitor food items and first aid supplies approaching their expiry
+          dates
         </p>
       </div>
 
+      {data.firstAid.length > 0 && (
+        <div class="mb-8">
+          <FirstAidSection rows={data.firstAid} />
+        </div>
+      )}
+
       {totalItems === 0
         ? (
           <div class="bg-gray-50 dark:bg-gray-800/40 border border-gray-200 dark:border-gray-700 rounded-lg p-8 text-center">
@@ -0,0 +1,264 @@
+// Inventory trends report — charts built from the daily stats snapshots
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../components/Layout.tsx";
+import StatCard from "../../components/StatCard.tsx";
+import TrendChart from "../../components/TrendChart.tsx";
+import type { Session } from "../../lib/auth.ts";
+import {
+  getLatestStatsSnapshot,
+  getStatsSnapshots,
+  recordStatsSnapshot,
+} from "../../db/kv.ts";
+import { dayKey } from "../../lib/campReservations.ts";
+import {
+  bucketSnapshots,
+  isTrendRange,
+  periodLabel,
+  rangeStart,
+  TREND_RANGES,
+  type TrendPoint,
+  type TrendRange,
+} from "../../lib/trends.ts";
+import { formatDate } from "../../lib/date-utils.ts";
+
+interface TrendsPageData {
+  session: Session;
+  range: TrendRange;
+  points: TrendPoint[];
+  error?: string;
+}
+
+export const handler: Handlers<TrendsPageData> = {
+  async GET(req, ctx) {
+    const session = ctx.state.session as Session;
+    const param = new URL(req.url).searchParams.get("range");
+    const range = isTrendRange(param) ? param : "12w";
+    try {
+      // Take today's snapshot now if the nightly cron hasn't yet, so the
+      // report is never a day behind (and works locally without cron).
+      const latest = await getLatestStatsSnapshot();
+      if (latest?.date !== dayKey(new Date())) await recordStatsSnapshot();
+
+      const snapshots = await getStatsSnapshots(rangeStart(range));
+      return ctx.render({
+        session,
+        range,
+        points: bucketSnapshots(snapshots, TREND_RANGES[range].period),
+      });
+    } catch (error) {
+      console.error("Failed to load trend snapshots:", error);
+      return ctx.render({
+        session,
+        range,
+        points: [],
+        error: "Failed to load trends. Please try again.",
+      });
+    }
+  },
+};
+
+/** "+12" / "−3" / "no change" between the first and last period. */
+function change(points: TrendPoint[], value: (p: TrendPoint) => number) {
+  if (points.length < 2) return undefined;
+  const delta = value(points[points.length - 1]) - value(points[0]);
+  if (delta === 0) return "No change";
+  return `${delta > 0 ? "+" : "−"}${Math.abs(delta)} since ${
+    formatDate(points[0].start)
+  }`;
+}
+
+export default function TrendsPage({ data }: PageProps<TrendsPageData>) {
+  const { session, range, points, error } = data;
+  const { period } = TREND_RANGES[range];
+  const canViewNeckers = session.role === "manager" || session.role === "admin";
+  const labels = points.map((p) => periodLabel(p.start, period));
+  const latest = points.at(-1)?.snapshot;
+  const series = (
+    label: string,
+    color: string,
+    value: (p: TrendPoint) => number,
+  ) => ({ label, color, values: points.map(value) });
+
+  return (
+    <Layout
+      title="Inventory Trends"
+      username={session.username}
+      role={session.role}
+    >
+      <div class="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <p class="text-gray-600 dark:text-gray-400">
+          How the store has changed, from a snapshot of the dashboard taken
+          every night. Each {period} shows the figures at its last snapshot.
+        </p>
+        <div class="flex flex-wrap gap-2 shrink-0">
+          {(Object.keys(TREND_RANGES) as TrendRange[]).map((key) => (
+            <a
+              key={key}
+              href={`/reports/trends?range=${key}`}
+              class={`px-3 py-1.5 text-sm rounded-md border ${
+                key === range
+                  ? "bg-purple-600 border-purple-600 text-white"
+                  : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+              }`}
+            >
+              {TREND_RANGES[key].label}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+
+      {!latest
+        ? (
+          <div class="text-center py-10 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg">
+            <div class="text-4xl mb-2">📈</div>
+            <p class="text-gray-500 dark:text-gray-400">
+              No snapshots in this range yet.
+            </p>
+          </div>
+        )
+        : (
+          <div class="space-y-6">
+            <div class="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-3.5">
+              <StatCard
+                title="Units in Stock"
+                value={latest.totalQuantity}
+                icon="📦"
+                color="blue"
+                subtitle={change(points, (p) => p.snapshot.totalQuantity)}
+              />
+              <StatCard
+                title="Repair Backlog"
+                value={latest.needsRepairItems}
+                icon="🔧"
+                color={latest.needsRepairItems > 0 ? "yellow" : "green"}
+                subtitle={change(points, (p) => p.snapshot.needsRepairItems)}
+              />
+              <StatCard
+                title="Active Loans"
+                value={latest.activeLoans}
+                icon="📤"
+                color={latest.overdueLoans > 0 ? "red" : "blue"}
+                subtitle={change(points, (p) => p.snapshot.activeLoans)}
+              />
+              <StatCard
+                title="Food Expired"
+                value={points.reduce((sum, p) => sum + p.wasted, 0)}
+                icon="🗑️"
+                color="red"
+                subtitle={`Units over ${TREND_RANGES[range].label}`}
+              />
+            </div>
+
+            {points.length < 2 && (
+              <p class="text-sm text-gray-500 dark:text-gray-400">
+                {`Only one ${period} of snapshots so far — the charts fill in as more are taken.`}
+              </p>
+            )}
+
+            <div class="grid lg:grid-cols-2 gap-4">
+              <TrendChart
+                title="Stock Levels"
+                subtitle="Total units held"
+                labels={labels}
+                series={[
+                  series("Units", "#2563eb", (p) => p.snapshot.totalQuantity),
+                ]}
+              />
+              <TrendChart
+                title="Low Stock & Repair Backlog"
+                subtitle="Items at or below minimum / needing repair"
+                labels={labels}
+                series={[
+                  series(
+                    "Low stock",
+                    "#dc2626",
+                    (p) => p.snapshot.lowStockItems,
+                  ),
+                  series(
+                    "Needs repair",
+                    "#ca8a04",
+                    (p) => p.snapshot.needsRepairItems,
+                  ),
+                ]}
+              />
+              <TrendChart
+                title="Loan Volume"
+                subtitle="Loans out and kit away at camp"
+                labels={labels}
+                series={[
+                  series("Active", "#7c3aed", (p) => p.snapshot.activeLoans),
+                  series("Overdue", "#dc2626", (p) => p.snapshot.overdueLoans),
+                  series("At camp", "#059669", (p) => p.snapshot.itemsAtCamp),
+                ]}
+              />
+              <TrendChart
+                title="Food Expiry Waste"
+                subtitle={`Food units that went past their expiry date each ${period}`}
+                kind="bar"
+                labels={labels}
+                series={[series("Units expired", "#ea580c", (p) => p.wasted)]}
+              />
+              {canViewNeckers && (
+                <TrendChart
+                  title="Neckers"
+                  subtitle="In stock and made to date"
+                  labels={labels}
+                  series={[
+                    series(
+                      "In stock",
+                      "#7c3aed",
+                      (p) => p.snapshot.neckers.inStock,
+                    ),
+                    series(
+                      "Total made",
+                      "#0891b2",
+                      (p) => p.snapshot.neckers.totalMade,
+                    ),
+                  ]}
+                />
+              )}
+            </div>
+
+            <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+              <table class="min-w-full text-sm divide-y divide-gray-200 dark:divide-gray-700">
+                <thead class="bg-gray-50 dark:bg-gray-900">
+                  <tr class="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    <th class="px-4 py-2 capitalize">{period}</th>
+                    <th class="px-4 py-2">Items</th>
+                    <th class="px-4 py-2">Units</th>
+                    <th class="px-4 py-2">Low stock</th>
+                    <th class="px-4 py-2">Needs repair</th>
+                    <th class="px-4 py-2">Loans</th>
+                    <th class="px-4 py-2">Overdue</th>
+                    <th class="px-4 py-2">Food expired</th>
+                  </tr>
+                </thead>
+                <tbody class="divide-y divide-gray-100 dark:divide-gray-700 text-gray-800 dark:text-gray-100">
+                  {[...points].reverse().map((p) => (
+                    <tr key={p.start}>
+                      <td class="px-4 py-2 whitespace-nowrap">
+                        {periodLabel(p.start, period)}
+                      </td>
+                      <td class="px-4 py-2">{p.snapshot.totalItems}</td>
+                      <td class="px-4 py-2">{p.snapshot.totalQuantity}</td>
+                      <td class="px-4 py-2">{p.snapshot.lowStockItems}</td>
+                      <td class="px-4 py-2">{p.snapshot.needsRepairItems}</td>
+                      <td class="px-4 py-2">{p.snapshot.activeLoans}</td>
+                      <td class="px-4 py-2">{p.snapshot.overdueLoans}</td>
+                      <td class="px-4 py-2">{p.wasted}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+    </Layout>
+  );
+}
@@ -0,0 +1,278 @@
+// Item utilisation report — camps, loans and days out per item and category
+import { Handlers, PageProps } from "$fresh/server.ts";
+import Layout from "../../components/Layout.tsx";
+import type { Session } from "../../lib/auth.ts";
+import { getAllCampPlans, getAllCheckOuts, getAllItems } from "../../db/kv.ts";
+import {
+  ALL_CATEGORIES,
+  getCategoryEmoji,
+  getCategoryLabel,
+  type ItemCategory,
+} from "../../types/inventory.ts";
+import { dayKey } from "../../lib/campReservations.ts";
+import { formatDate } from "../../lib/date-utils.ts";
+import {
+  type CategoryUtilisation,
+  DISPOSAL_AFTER_MONTHS,
+  type ItemUtilisation,
+  summariseUtilisation,
+} from "../../lib/utilisation.ts";
+
+interface UtilisationPageData {
+  session: Session;
+  from: string;
+  to: string;
+  category: ItemCategory | "";
+  items: ItemUtilisation[];
+  categories: CategoryUtilisation[];
+  error?: string;
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const handler: Handlers<UtilisationPageData> = {
+  async GET(req, ctx) {
+    const session = ctx.state.session as Session;
+    const params = new URL(req.url).searchParams;
+    const now = new Date();
+    const yearAgo = new Date(now);
+    yearAgo.setUTCFullYear(yearAgo.getUTCFullYear() - 1);
+    const param = (name: string, fallback: string) => {
+      const value = params.get(name) ?? "";
+      return DATE_RE.test(value) ? value : fallback;
+    };
+    let from = param("from", dayKey(yearAgo));
+    let to = param("to", dayKey(now));
+    if (from > to) [from, to] = [to, from];
+    const categoryParam = params.get("category") ?? "";
+    const category = ALL_CATEGORIES.includes(categoryParam as ItemCategory)
+      ? categoryParam as ItemCategory
+      : "";
+
+    try {
+      const [allItems, plans, loans] = await Promise.all([
+        getAllItems(),
+        getAllCampPlans(),
+        getAllCheckOuts(),
+      ]);
+      const summary = summariseUtilisation(
+        allItems,
+        plans,
+        loans,
+        { from, to },
+        now,
+      );
+      return ctx.render({
+        session,
+        from,
+        to,
+        category,
+        items: summary.items
+          .filter((row) => !category || row.category === category)
+          .sort((a, b) =>
+            b.daysOut - a.daysOut || a.itemName.localeCompare(b.itemName)
+          ),
+        categories: summary.categories.sort((a, b) => b.daysOut - a.daysOut),
+      });
+    } catch (error) {
+      console.error("Failed to build utilisation report:", error);
+      return ctx.render({
+        session,
+        from,
+        to,
+        category,
+        items: [],
+        categories: [],
+        error: "Failed to load utilisation. Please try again.",
+      });
+    }
+  },
+};
+
+export default function UtilisationPage(
+  { data }: PageProps<UtilisationPageData>,
+) {
+  const { session, from, to, category, items, categories, error } = data;
+  const candidates = items.filter((row) => row.disposalCandidate);
+  const inputClass =
+    "text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-purple-500";
+  const labelClass = "text-sm font-medium text-gray-700 dark:text-gray-300";
+  const th = "px-4 py-2 text-left";
+  const td = "px-4 py-2";
+
+  return (
+    <Layout
+      title="Item Utilisation"
+      username={session.username}
+      role={session.role}
+    >
+      <p class="mb-4 text-gray-600 dark:text-gray-400">
+        {`How often kit went on camps and loans between ${
+          formatDate(from)
+        } and ${formatDate(to)}.`}{" "}
+        Days out counts each day an item was away from the store.
+      </p>
+
+      <form
+        method="get"
+        class="mb-6 flex items-center gap-x-3 gap-y-2 flex-wrap"
+      >
+        <label for="from" class={labelClass}>From:</label>
+        <input
+          id="from"
+          name="from"
+          type="date"
+          value={from}
+          class={inputClass}
+        />
+        <label for="to" class={labelClass}>To:</label>
+        <input id="to" name="to" type="date" value={to} class={inputClass} />
+        <label for="category" class={labelClass}>Category:</label>
+        <select id="category" name="category" class={inputClass}>
+          <option value="" selected={!category}>All categories</option>
+          {ALL_CATEGORIES.map((c) => (
+            <option key={c} value={c} selected={c === category}>
+              {getCategoryLabel(c)}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          class="text-sm px-3 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-medium"
+        >
+          Show
+        </button>
+      </form>
+
+      {error && (
+        <div class="mb-4 p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded">
+          {error}
+        </div>
+      )}
+
+      <div class="space-y-8">
+        <section>
+          <h2 class="text-lg font-bold text-gray-800 dark:text-purple-100 mb-3">
+            By Category
+          </h2>
+          <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+            <table class="min-w-full text-sm divide-y divide-gray-200 dark:divide-gray-700">
+              <thead class="bg-gray-50 dark:bg-gray-900 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                <tr>
+                  <th class={th}>Category</th>
+                  <th class={th}>Items used</th>
+                  <th class={th}>Camps</th>
+                  <th class={th}>Loans</th>
+                  <th class={th}>Days out</th>
+                </tr>
+              </thead>
+              <tbody class="divide-y divide-gray-100 dark:divide-gray-700 text-gray-800 dark:text-gray-100">
+                {categories.map((c) => (
+                  <tr key={c.category}>
+                    <td class={td}>
+                      <a
+                        href={`/reports/utilisation?from=${from}&to=${to}&category=${c.category}`}
+                        class="hover:underline"
+                      >
+                        {getCategoryEmoji(c.category)}{" "}
+                        {getCategoryLabel(c.category)}
+                      </a>
+                    </td>
+                    <td class={td}>{c.usedCount} of {c.itemCount}</td>
+                    <td class={td}>{c.campCount}</td>
+                    <td class={td}>{c.loanCount}</td>
+                    <td class={td}>{c.daysOut}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        {candidates.length > 0 && (
+          <section>
+            <h2 class="text-lg font-bold text-gray-800 dark:text-purple-100 mb-1">
+              🗑️ Disposal Candidates ({candidates.length})
+            </h2>
+            <p class="text-sm text-gray-500 dark:text-gray-400 mb-3">
+              {`Not on a camp or loan for ${DISPOSAL_AFTER_MONTHS}+ months. Food and fuel are left out.`}
+            </p>
+            <div class="bg-amber-50 dark:bg-amber-950/40 border border-amber-200 dark:border-amber-800 rounded-lg divide-y divide-amber-100 dark:divide-amber-900">
+              {candidates.map((row) => (
+                <div
+                  key={row.itemId}
+                  class="px-4 py-2 flex flex-wrap items-baseline justify-between gap-2 text-sm"
+                >
+                  <a
+                    href={`/inventory/${row.itemId}`}
+                    class="font-medium text-gray-900 dark:text-gray-100 hover:underline"
+                  >
+                    {getCategoryEmoji(row.category)} {row.itemName}
+                  </a>
+                  <span class="text-gray-600 dark:text-gray-400">
+                    {row.lastUsed
+                      ? `Last out ${formatDate(row.lastUsed)}`
+                      : "Never used"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <section>
+          <h2 class="text-lg font-bold text-gray-800 dark:text-purple-100 mb-3">
+            By Item
+            {category && ` — ${getCategoryLabel(category)}`}
+          </h2>
+          {items.length === 0
+            ? (
+              <div class="text-center py-10 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg text-gray-500 dark:text-gray-400">
+                No items.
+              </div>
+            )
+            : (
+              <div class="bg-white dark:bg-gray-800 rounded-lg shadow border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                <table class="min-w-full text-sm divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead class="bg-gray-50 dark:bg-gray-900 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    <tr>
+                      <th class={th}>Item</th>
+                      <th class={th}>Camps</th>
+                      <th class={th}>Loans</th>
+                      <th class={th}>Days out</th>
+                      <th class={th}>Last out</th>
+                    </tr>
+                  </thead>
+                  <tbody class="divide-y divide-gray-100 dark:divide-gray-700 text-gray-800 dark:text-gray-100">
+                    {items.map((row) => (
+                      <tr key={row.itemId}>
+                        <td class={td}>
+                          <a
+                            href={`/inventory/${row.itemId}`}
+                            class="hover:underline"
+                          >
+                            {getCategoryEmoji(row.category)} {row.itemName}
+                          </a>
+                          {row.disposalCandidate && (
+                            <span class="ml-2 inline-block px-1.5 py-0.5 rounded text-xs bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                              unused {DISPOSAL_AFTER_MONTHS}+ months
+                            </span>
+                          )}
+                        </td>
+                        <td class={td}>{row.campCount}</td>
+                        <td class={td}>{row.loanCount}</td>
+                        <td class={td}>{row.daysOut}</td>
+                        <td class={`${td} whitespace-nowrap`}>
+                          {row.lastUsed ? formatDate(row.lastUsed) : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+        </section>
+      </div>
+    </Layout>
+  );
+}
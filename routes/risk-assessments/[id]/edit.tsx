@@ -9,6 +9,11 @@ import {
   updateRiskAssessment,
 } from "../../../db/kv.ts";
 import { logActivity } from "../../../lib/activityLog.ts";
+import {
+  initialRating,
+  parseRiskScores,
+  unresolvedHighRisks,
+} from "../../../lib/riskScoring.ts";
 import type { RiskAssessmentRisk, RiskLevel } from "../../../types/risk.ts";
 
 interface EditRiskAssessmentPageData {
@@ -54,7 +59,7 @@ function parseRiskRows(raw: string): RiskAssessmentRisk[] {
       continue;
     }
 
-    risks.push({
+    const parsedRisk: RiskAssessmentRisk = {
       id: typeof risk.id === "string" && risk.id.trim().length > 0
         ? risk.id
         : crypto.randomUUID(),
@@ -62,8 +67,13 @@ function parseRiskRows(raw: string): RiskAssessmentRisk[] {
       posedRisks: String(risk.posedRisks ?? "").trim(),
       affectedWho: String(risk.affectedWho ?? "").trim(),
       initialRiskLevel: initial,
+      ...parseRiskScores(risk),
       precautionsTaken: String(risk.precautionsTaken ?? "").trim(),
       furtherActionNeeded: String(risk.furtherActionNeeded ?? "").trim(),
+    };
+    risks.push({
+      ...parsedRisk,
+      initialRiskLevel: initialRating(parsedRisk).band,
     });
   }
 
@@ -187,6 +197,24 @@ export const handler: Handlers<EditRiskAssessmentPageData> = {
       );
     }
 
+    const unresolved = checkMode === "none"
+      ? []
+      : unresolvedHighRisks(riskRows);
+    if (unresolved.length > 0) {
+      return await renderPage(
+        ctx,
+        session,
+        assessmentId,
+        checkMode,
+        `${unresolved.length} risk${
+          unresolved.length === 1 ? " is" : "s are"
+        } still High after precautions (${
+          unresolved.map((risk) => (risk.hazards || "untitled").slice(0, 60))
+            .join("; ")
+        }). Record the further action needed before marking this assessment reviewed.`,
+      );
+    }
+
     await updateRiskAssessment(assessmentId, {
       name,
       risks: riskRows,
@@ -12,6 +12,12 @@ import {
   replaceAllRiskAssessmentsFromBackup,
 } from "../../db/kv.ts";
 import { logActivity } from "../../lib/activityLog.ts";
+import {
+  formatRating,
+  initialRating,
+  parseRiskScores,
+  residualRating,
+} from "../../lib/riskScoring.ts";
 import {
   type RiskAssessment,
   type RiskAssessmentRisk,
@@ -95,7 +101,7 @@ function parseRiskRows(raw: string): RiskAssessmentRisk[] {
       continue;
     }
 
-    risks.push({
+    const parsedRisk: RiskAssessmentRisk = {
       id: typeof risk.id === "string" && risk.id.trim().length > 0
         ? risk.id
         : crypto.randomUUID(),
@@ -103,8 +109,13 @@ function parseRiskRows(raw: string): RiskAssessmentRisk[] {
       posedRisks: String(risk.posedRisks ?? "").trim(),
       affectedWho: String(risk.affectedWho ?? "").trim(),
       initialRiskLevel: initial,
+      ...parseRiskScores(risk),
       precautionsTaken: String(risk.precautionsTaken ?? "").trim(),
       furtherActionNeeded: String(risk.furtherActionNeeded ?? "").trim(),
+    };
+    risks.push({
+      ...parsedRisk,
+      initialRiskLevel: initialRating(parsedRisk).band,
     });
   }
 
@@ -186,7 +197,7 @@ function parseBackupPayload(
       if (!riskRow || typeof riskRow !== "object") continue;
       const risk = riskRow as Record<string, unknown>;
       const level = String(risk.initialRiskLevel ?? "").trim() as RiskLevel;
-      parsedRisks.push({
+      const parsedRisk: RiskAssessmentRisk = {
         id: typeof risk.id === "string" && risk.id.trim()
           ? risk.id
           : crypto.randomUUID(),
@@ -194,8 +205,13 @@ function parseBackupPayload(
         posedRisks: String(risk.posedRisks ?? "").trim(),
         affectedWho: String(risk.affectedWho ?? "").trim(),
         initialRiskLevel: VALID_LEVELS.has(level) ? level : "Medium",
+        ...parseRiskScores(risk),
         precautionsTaken: String(risk.precautionsTaken ?? "").trim(),
         furtherActionNeeded: String(risk.furtherActionNeeded ?? "").trim(),
+      };
+      parsedRisks.push({
+        ...parsedRisk,
+        initialRiskLevel: initialRating(parsedRisk).band,
       });
     }
 
@@ -896,7 +912,9 @@ export default function RiskAssessmentsPage(
                               Risk Level
                             </p>
                             <p class="text-sm font-semibold text-gray-900 dark:text-gray-100">
-                              {risk.initialRiskLevel}
+                              {formatRating(initialRating(risk))}
+                              {residualRating(risk) &&
+                                ` → ${formatRating(residualRating(risk))}`}
                             </p>
                           </div>
                           <div class="border-t border-gray-200 dark:border-gray-700 pt-2">
@@ -961,7 +979,14 @@ export default function RiskAssessmentsPage(
                                 {risk.affectedWho}
                               </td>
                               <td class="px-3 py-2 text-center font-semibold text-gray-900 dark:text-gray-100">
-                                {risk.initialRiskLevel}
+                                {formatRating(initialRating(risk))}
+                                {residualRating(risk) && (
+                                  <span class="block text-xs font-normal text-gray-600 dark:text-gray-300">
+                                    {`Residual ${
+                                      formatRating(residualRating(risk))
+                                    }`}
+                                  </span>
+                                )}
                               </td>
                               <td class="px-3 py-2 whitespace-pre-wrap text-gray-900 dark:text-gray-100">
                                 {risk.precautionsTaken}
@@ -2,6 +2,16 @@ import { Handlers, PageProps } from "$fresh/server.ts";
 import type { Session } from "../../lib/auth.ts";
 import { getAllRiskAssessments } from "../../db/kv.ts";
 import type { RiskAssessment } from "../../types/risk.ts";
+import {
+  formatRating,
+  initialRating,
+  LIKELIHOOD_LABELS,
+  residualRating,
+  RISK_SCALE,
+  riskBand,
+  riskMatrix,
+  SEVERITY_LABELS,
+} from "../../lib/riskScoring.ts";
 
 interface RiskAssessmentPrintData {
   assessments: RiskAssessment[];
@@ -31,6 +41,45 @@ function formatDate(date: Date | null | undefined): string {
   });
 }
 
+function RiskMatrix(
+  { title, grid }: { title: string; grid: number[][] },
+) {
+  return (
+    <table class="matrix">
+      <caption>{title}</caption>
+      <tbody>
+        {[...RISK_SCALE].reverse().map((severity) => (
+          <tr key={severity}>
+            <th class="matrix-axis">{SEVERITY_LABELS[severity]}</th>
+            {RISK_SCALE.map((likelihood) => {
+              const count = grid[severity - 1][likelihood - 1];
+              return (
+                <td
+                  key={likelihood}
+                  class={`cell-${
+                    riskBand(severity * likelihood).toLowerCase()
+                  }`}
+                >
+                  <span class="cell-score">{severity * likelihood}</span>
+                  {count > 0 && <strong>{count}</strong>}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+        <tr>
+          <th class="matrix-corner">Severity ↑ / Likelihood →</th>
+          {RISK_SCALE.map((likelihood) => (
+            <th key={likelihood} class="matrix-axis">
+              {LIKELIHOOD_LABELS[likelihood]}
+            </th>
+          ))}
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
 export default function RiskAssessmentPrintPage(
   { data }: PageProps<RiskAssessmentPrintData>,
 ) {
@@ -54,7 +103,18 @@ export default function RiskAssessmentPrintPage(
           table { width: 100%; border-collapse: collapse; font-size: 12px; }
           th, td { border: 1px solid #d1d5db; padding: 6px; text-align: left; vertical-align: top; }
           th { background: #f3f4f6; }
-          .risk-level { text-align: center; width: 140px; }
+          .risk-level { text-align: center; width: 110px; }
+          .matrices { display: flex; gap: 16px; flex-wrap: wrap; margin-bottom: 12px; }
+          table.matrix { width: auto; font-size: 10px; }
+          .matrix caption { text-align: left; font-weight: 600; font-size: 12px; padding-bottom: 4px; }
+          .matrix td { width: 52px; height: 30px; text-align: center; vertical-align: middle; position: relative; }
+          .matrix td strong { font-size: 14px; }
+          .matrix .cell-score { position: absolute; top: 1px; left: 3px; font-size: 8px; color: #374151; }
+          .matrix-axis { font-weight: 400; background: #fff; width: 72px; }
+          .matrix-corner { font-size: 9px; background: #fff; }
+          .cell-low { background: #bbf7d0; }
+          .cell-medium { background: #fde68a; }
+          .cell-high { background: #fca5a5; }
           /* Mobile card view */
           .risk-cards { display: none; }
           .risk-card { border: 1px solid #d1d5db; border-radius: 8px; padding: 12px; margin-bottom: 10px; }
@@ -65,6 +125,9 @@ export default function RiskAssessmentPrintPage(
           .risk-card .badge-low { background: #dcfce7; color: #166534; }
           .risk-card .badge-medium { background: #fef9c3; color: #854d0e; }
           .risk-card .badge-high { background: #fee2e2; color: #991b1b; }
+          td.band-low { background: #dcfce7; }
+          td.band-medium { background: #fef9c3; }
+          td.band-high { background: #fee2e2; }
           @media screen and (max-width: 768px) {
             table { display: none; }
             .risk-cards { display: block; }
@@ -77,6 +140,7 @@ export default function RiskAssessmentPrintPage(
             .page { max-width: none; padding: 0; }
             .sheet { border: none; border-radius: 0; padding: 0; margin: 0 0 8mm; }
             .sheet + .sheet { page-break-before: always; }
+            td[class*="band-"], .matrix td { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
           }
         `}
         </style>
@@ -109,13 +173,29 @@ export default function RiskAssessmentPrintPage(
                   {assessment.lastAnnualCheckedBy ?? "Not recorded"}
                 </p>
 
+                {assessment.risks.some((risk) =>
+                  initialRating(risk).score !== null || residualRating(risk)
+                ) && (
+                  <div class="matrices">
+                    <RiskMatrix
+                      title="Before precautions"
+                      grid={riskMatrix(assessment.risks, "initial")}
+                    />
+                    <RiskMatrix
+                      title="After precautions (residual)"
+                      grid={riskMatrix(assessment.risks, "residual")}
+                    />
+                  </div>
+                )}
+
                 <table>
                   <thead>
                     <tr>
                       <th>Hazards</th>
                       <th>What risks do they pose?</th>
                       <th>Who is affected?</th>
-                      <th class="risk-level">Risk Level</th>
+                      <th class="risk-level">Initial Risk</th>
+                      <th class="risk-level">Residual Risk</th>
                       <th>Precautions Taken</th>
                       <th>
                         What has changed that needs to be thought about and
@@ -129,7 +209,24 @@ export default function RiskAssessmentPrintPage(
                         <td>{risk.hazards}</td>
                         <td>{risk.posedRisks}</td>
                         <td>{risk.affectedWho}</td>
-                        <td class="risk-level">{risk.initialRiskLevel}</td>
+                        <td
+                          class={`risk-level band-${
+                            initialRating(risk).band.toLowerCase()
+                          }`}
+                        >
+                          {formatRating(initialRating(risk))}
+                        </td>
+                        <td
+                          class={`risk-level${
+                            residualRating(risk)
+                              ? ` band-${
+                                residualRating(risk)!.band.toLowerCase()
+                              }`
+                              : ""
+                          }`}
+                        >
+                          {formatRating(residualRating(risk))}
+                        </td>
                         <td>{risk.precautionsTaken}</td>
                         <td>{risk.furtherActionNeeded}</td>
                       </tr>
@@ -147,14 +244,30 @@ export default function RiskAssessmentPrintPage(
                         <dd>{risk.posedRisks}</dd>
                         <dt>Who is affected?</dt>
                         <dd>{risk.affectedWho}</dd>
-                        <dt>Risk Level</dt>
+                        <dt>Initial Risk</dt>
                         <dd>
                           <span
-                            class={`badge badge-${risk.initialRiskLevel.toLowerCase()}`}
+                            class={`badge badge-${
+                              initialRating(risk).band.toLowerCase()
+                            }`}
                           >
-                            {risk.initialRiskLevel}
+                            {formatRating(initialRating(risk))}
                           </span>
                         </dd>
+                        <dt>Residual Risk</dt>
+                        <dd>
+                          {residualRating(risk)
+                            ? (
+                              <span
+                                class={`badge badge-${
+                                  residualRating(risk)!.band.toLowerCase()
+                                }`}
+                              >
+                                {formatRating(residualRating(risk))}
+                              </span>
+                            )
+                            : "—"}
+                        </dd>
                         <dt>Precautions Taken</dt>
                         <dd>{risk.precautionsTaken}</dd>
                         <dt>
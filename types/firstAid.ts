@@ -25,11 +25,20 @@ export interface FirstAidCatalogItem {
   section: FirstAidSection;
 }
 
+/** Some of a kit item sharing one use-by date, e.g. 3 eye wash pods. */
+export interface FirstAidExpiryBatch {
+  quantity: number;
+  /** YYYY-MM-DD */
+  expiryDate: string;
+}
+
 export interface FirstAidKitEntry {
   itemId: string;
   name: string;
   quantityTarget: number;
   notes?: string;
+  /** Dated stock in the bag, as recorded at the last check */
+  expiryBatches?: FirstAidExpiryBatch[];
 }
 
 export interface FirstAidKit {
@@ -52,6 +61,9 @@ export interface FirstAidKitProfile {
   label: string;
   description: string;
   items: FirstAidKitProfileItem[];
+  /** Unset on the built-in profiles until an admin edits them */
+  updatedBy?: string;
+  updatedAt?: Date;
 }
 
 export interface FirstAidCheckState {
@@ -59,3 +71,39 @@ export interface FirstAidCheckState {
   dismissedUntil: Date | null;
   updatedAt: Date;
 }
+
+/** One kit line as found at a check. */
+export interface FirstAidCheckLine {
+  itemId: string;
+  itemName: string;
+  section: string;
+  quantityTarget: number;
+  /** null when the item was skipped */
+  countedQty: number | null;
+}
+
+/** What one check found in one kit — a check of several kits saves one each. */
+export interface FirstAidCheckRecord {
+  /** Shared by every kit checked in the same run */
+  checkId: string;
+  kitId: string;
+  kitName: string;
+  checkScope: "overall" | "kit";
+  checkedBy: string;
+  checkedAt: Date;
+  lines: FirstAidCheckLine[];
+  notes?: string;
+  /** Quantities put back into the kit from central stock since this check */
+  restocked?: Record<string, number>;
+  restockedAt?: Date;
+}
+
+/** Refills of one catalog item held in the central first aid box. */
+export interface FirstAidStockEntry {
+  itemId: string;
+  quantity: number;
+  /** The dated part of `quantity`; the rest has no expiry */
+  expiryBatches?: FirstAidExpiryBatch[];
+  updatedBy: string;
+  updatedAt: Date;
+}
@@ -1,3 +1,5 @@
+import type { CampMenu, Quantity } from "./meals.ts";
+
 // Base inventory item interface
 export type ItemCategory =
   | "tent"
@@ -36,6 +38,8 @@ export const CATEGORY_META: Record<
   },
 };
 
+export const ALL_CATEGORIES = Object.keys(CATEGORY_META) as ItemCategory[];
+
 export const CAMP_STORE_CATEGORIES: ItemCategory[] = [
   "tent",
   "cooking",
@@ -61,63 +65,106 @@ export function getCategorySearchLabel(category: string): string {
     category.replace(/-/g, " ");
 }
 
-export type ItemSpace = "camp-store" | "scout-post-loft" | "gas-storage-box";
-
-export type ItemLocation =
-  | "Plastic Shelf 1 - Level 1"
-  | "Plastic Shelf 1 - Level 2"
-  | "Plastic Shelf 1 - Level 3"
-  | "Plastic Shelf 1 - Level 4"
-  | "Plastic Shelf 2 - Level 1"
-  | "Plastic Shelf 2 - Level 2"
-  | "Plastic Shelf 2 - Level 3"
-  | "Plastic Shelf 2 - Level 4"
-  | "On Top of Plastic Shelf 2"
-  | "Plastic Shelf 3 - Level 1"
-  | "Plastic Shelf 3 - Level 2"
-  | "Plastic Shelf 3 - Level 3"
-  | "Plastic Shelf 3 - Level 4"
-  | "On Top of Plastic Shelf 3"
-  | "Wooden Shelf 1"
-  | "Wooden Shelf 2"
-  | "Wooden Shelf 3"
-  | "Metal Shelf 1 - Slot 1"
-  | "Metal Shelf 1 - Slot 2"
-  | "Metal Shelf 1 - Slot 3"
-  | "Metal Shelf 1 - Slot 4"
-  | "Metal Shelf 2 - Slot 1"
-  | "Metal Shelf 2 - Slot 2"
-  | "Metal Shelf 2 - Slot 3"
-  | "Metal Shelf 2 - Slot 4"
-  | "Metal Shelf 3 - Slot 1"
-  | "Metal Shelf 3 - Slot 2"
-  | "Metal Shelf 3 - Slot 3"
-  | "Metal Shelf 3 - Slot 4"
-  | "Metal Shelf 4 - Slot 1"
-  | "Metal Shelf 4 - Slot 2"
-  | "Metal Shelf 4 - Slot 3"
-  | "Metal Shelf 4 - Slot 4"
-  | "Filing Cabinet - Drawer 1"
-  | "Filing Cabinet - Drawer 2"
-  | "Filing Cabinet - Drawer 3"
-  | "Filing Cabinet - Drawer 4"
-  | "Blue Box"
-  | "Red Box"
-  | "Green Box"
-  | "Yellow Box"
-  | "Kestrels Box"
-  | "Eagles Box"
-  | "Cubby Hole"
-  | "Axe/Saw Hanging Space"
-  | "On Top of Red Box"
-  | "On Top of Green Box"
-  | "Loft Shelf 1"
-  | "Loft Shelf 2"
-  | "Loft Shelf 3"
-  | "Loft Shelf 4"
-  | "Gas Storage Box";
-
-export const ITEM_LOCATIONS: { group: string; options: ItemLocation[] }[] = [
+/** Id of a `StorageSpace` record (e.g. "camp-store"). */
+export type ItemSpace = string;
+
+/**
+ * A physical place gear is kept — the store, the loft, a leader's garage.
+ * Spaces live in KV and are managed from /admin/spaces.
+ */
+export interface StorageSpace {
+  /** URL-safe slug, stored on `BaseInventoryItem.space` */
+  id: ItemSpace;
+  name: string;
+  icon: string;
+  description?: string;
+  /** Categories that may be stored here — items of other categories are rejected */
+  allowedCategories: ItemCategory[];
+  address?: string;
+  notes?: string;
+  sortOrder: number;
+  createdAt: Date;
+  lastUpdated: Date;
+}
+
+/** Just enough of a space for pickers and dashboards rendered in islands. */
+export type StorageSpaceSummary = Pick<
+  StorageSpace,
+  "id" | "name" | "icon" | "allowedCategories"
+>;
+
+// The original three spaces. These only seed the space registry on first run.
+export const DEFAULT_STORAGE_SPACES: Array<
+  StorageSpaceSummary & { description: string }
+> = [
+  {
+    id: "camp-store",
+    name: "Camp Store",
+    icon: "🏪",
+    description: "Main camping equipment store",
+    allowedCategories: CAMP_STORE_CATEGORIES,
+  },
+  {
+    id: "scout-post-loft",
+    name: "Scout Post Loft",
+    icon: "🏠",
+    description: "Games and activity kit in the scout post loft",
+    allowedCategories: LOFT_CATEGORIES,
+  },
+  {
+    id: "gas-storage-box",
+    name: "Gas Storage Box",
+    icon: "🛢️",
+    description: "Ventilated outdoor box — fuel only",
+    allowedCategories: GAS_STORAGE_CATEGORIES,
+  },
+];
+
+export function toStorageSpaceSummary(
+  space: StorageSpace,
+): StorageSpaceSummary {
+  return {
+    id: space.id,
+    name: space.name,
+    icon: space.icon,
+    allowedCategories: space.allowedCategories,
+  };
+}
+
+/**
+ * Name of a storage location. Locations are managed at runtime through the
+ * KV-backed location registry (see `StorageLocation`), so any string that
+ * exists in the registry is valid.
+ */
+export type ItemLocation = string;
+
+/** One dropdown group of location names, as rendered by the location pickers. */
+export interface LocationGroup {
+  group: string;
+  options: ItemLocation[];
+}
+
+/**
+ * A single shelf, box, drawer or slot in the location registry.
+ * `name` is the value stored on `BaseInventoryItem.location`.
+ */
+export interface StorageLocation {
+  id: string;
+  name: ItemLocation;
+  space: ItemSpace;
+  /** Dropdown group within the space (e.g. "Plastic Shelves") */
+  group: string;
+  /** Ascending sort position — groups are ordered by their lowest location */
+  sortOrder: number;
+  /** Archived locations stay valid for existing items but are hidden from pickers */
+  archived: boolean;
+  createdAt: Date;
+  lastUpdated: Date;
+}
+
+// The original hard-coded store layout. These only seed the location registry
+// on first run — pickers and validation read the registry from KV.
+export const ITEM_LOCATIONS: LocationGroup[] = [
   {
     group: "Plastic Shelves",
     options: [
@@ -193,7 +240,7 @@ export const ITEM_LOCATIONS: { group: string; options: ItemLocation[] }[] = [
   },
 ];
 
-export const LOFT_LOCATIONS: { group: string; options: ItemLocation[] }[] = [
+export const LOFT_LOCATIONS: LocationGroup[] = [
   {
     group: "Loft Shelves",
     options: [
@@ -205,16 +252,54 @@ export const LOFT_LOCATIONS: { group: string; options: ItemLocation[] }[] = [
   },
 ];
 
-export const GAS_STORAGE_LOCATIONS: {
-  group: string;
-  options: ItemLocation[];
-}[] = [
+export const GAS_STORAGE_LOCATIONS: LocationGroup[] = [
   {
     group: "Gas Storage",
     options: ["Gas Storage Box"],
   },
 ];
 
+/**
+ * Groups registry locations for one space into picker-ready groups, ordered by
+ * `sortOrder`. Archived locations are skipped unless listed in `keep` (used so
+ * an item's current, now-archived location still shows on its edit form).
+ */
+export function groupStorageLocations(
+  locations: StorageLocation[],
+  space: ItemSpace,
+  keep: ItemLocation[] = [],
+): LocationGroup[] {
+  const groups: LocationGroup[] = [];
+  const sorted = locations
+    .filter((loc) =>
+      loc.space === space && (!loc.archived || keep.includes(loc.name))
+    )
+    .sort((a, b) =>
+      a.sortOrder - b.sortOrder ||
+      a.name.localeCompare(b.name, undefined, { numeric: true })
+    );
+  for (const loc of sorted) {
+    const existing = groups.find((g) => g.group === loc.group);
+    if (existing) existing.options.push(loc.name);
+    else groups.push({ group: loc.group, options: [loc.name] });
+  }
+  return groups;
+}
+
+/** `groupStorageLocations` for every space, keyed by space id. */
+export function groupStorageLocationsBySpace(
+  locations: StorageLocation[],
+  spaces: Pick<StorageSpace, "id">[],
+  keep: ItemLocation[] = [],
+): Record<ItemSpace, LocationGroup[]> {
+  return Object.fromEntries(
+    spaces.map((space) => [
+      space.id,
+      groupStorageLocations(locations, space.id, keep),
+    ]),
+  );
+}
+
 export interface BaseInventoryItem {
   id: string;
   name: string;
@@ -246,6 +331,18 @@ export interface BaseInventoryItem {
   photoIds?: string[];
   /** @deprecated Use photoIds instead */
   hasPhoto?: boolean;
+  /**
+   * True when individual units are tracked as `ItemUnit` records. `quantity`
+   * and `quantityNeedsRepair` are then derived from the units and cannot be
+   * edited directly.
+   */
+  hasUnits?: boolean;
+  /** Price paid per unit, in pounds */
+  purchaseCost?: number;
+  /** Cost to replace one unit new today, in pounds — the insured value */
+  replacementValue?: number;
+  /** Shop or supplier it was bought from */
+  supplier?: string;
 }
 
 export interface MaintenanceRecord {
@@ -257,6 +354,108 @@ export interface MaintenanceRecord {
   conditionAfter?: "excellent" | "good" | "fair" | "needs-repair";
 }
 
+export type ItemCondition = "excellent" | "good" | "fair" | "needs-repair";
+
+/** Where a tracked unit currently is. Retired units no longer count as stock. */
+export type ItemUnitStatus = "in-store" | "on-loan" | "at-camp" | "retired";
+
+/**
+ * One physical unit of a multi-quantity item (e.g. patrol tent 3 of 6), with
+ * its own asset tag, condition and maintenance history.
+ */
+export interface ItemUnit {
+  id: string;
+  itemId: string;
+  /** Label printed on the unit, unique across the inventory (e.g. "TENT-03") */
+  assetTag: string;
+  condition: ItemCondition;
+  status: ItemUnitStatus;
+  notes?: string;
+  lastInspectedDate?: Date;
+  nextInspectionDate?: Date;
+  maintenanceHistory?: MaintenanceRecord[];
+  createdAt: Date;
+  lastUpdated: Date;
+}
+
+/** The subset of a unit needed by pickers in loan and camp forms. */
+export type ItemUnitSummary = Pick<
+  ItemUnit,
+  "id" | "assetTag" | "condition" | "status"
+>;
+
+export function toItemUnitSummary(unit: ItemUnit): ItemUnitSummary {
+  return {
+    id: unit.id,
+    assetTag: unit.assetTag,
+    condition: unit.condition,
+    status: unit.status,
+  };
+}
+
+/** What caused a change to an item, shown on its history timeline. */
+export type ItemChangeSource =
+  | "created"
+  | "edit"
+  | "stocktake"
+  | "camp"
+  | "scan"
+  | "import"
+  | "loan"
+  | "maintenance"
+  | "units"
+  | "batches"
+  | "purchase"
+  | "bulk-move"
+  | "revert"
+  | "baseline"
+  | "system";
+
+export const ITEM_CHANGE_SOURCE_LABELS: Record<ItemChangeSource, string> = {
+  created: "Created",
+  edit: "Edited",
+  stocktake: "Stocktake",
+  camp: "Camp checklist",
+  scan: "QR quick action",
+  import: "Bulk import",
+  loan: "Loan",
+  maintenance: "Maintenance",
+  units: "Units",
+  batches: "Batches",
+  purchase: "Purchase",
+  "bulk-move": "Bulk move",
+  revert: "Reverted",
+  baseline: "Earliest recorded state",
+  system: "System",
+};
+
+/** Who made a change to an item and from where. */
+export interface ItemChangeContext {
+  username?: string;
+  source: ItemChangeSource;
+  details?: string;
+}
+
+/**
+ * One changed field. Dates are ISO strings; lists and long text are
+ * summarised, the full values live in the version's snapshot.
+ */
+export interface ItemFieldChange {
+  field: string;
+  before: string | number | boolean | null;
+  after: string | number | boolean | null;
+}
+
+/** A numbered version of an item, written on every change. */
+export interface ItemHistoryEntry extends ItemChangeContext {
+  itemId: string;
+  version: number;
+  changedAt: Date;
+  changes: ItemFieldChange[];
+  /** The whole item as stored after this change, used to revert to it */
+  snapshot: Record<string, unknown>;
+}
+
 // Tent-specific properties
 export interface TentItem extends BaseInventoryItem {
   category: "tent";
@@ -304,15 +503,42 @@ export interface FuelItem extends BaseInventoryItem {
   yearPurchased?: number;
 }
 
+/** One delivery (lot) of a food product, with its own expiry date. */
+export interface FoodBatch {
+  id: string;
+  quantity: number;
+  expiryDate: Date;
+  addedDate: Date;
+  notes?: string;
+}
+
+/** Stock taken from one batch, recorded so it can be put back into the same lot. */
+export interface FoodBatchAllocation {
+  batchId: string;
+  quantity: number;
+  /** ISO date of the lot — used to recreate it if it was used up meanwhile */
+  expiryDate: string;
+}
+
 // Food item properties with expiry tracking
 export interface FoodItem extends BaseInventoryItem {
   category: "food";
   foodType: "canned" | "jarred" | "dried" | "packaged" | "fresh" | "frozen";
+  /** Earliest expiry among the batches still in stock */
   expiryDate: Date;
   storageRequirements?: "frozen" | "refrigerated" | "cool-dry" | "room-temp";
   allergens?: string[];
+  /** Freeform label weight, e.g. "~5 lbs"; see `packSize` for the measured size */
   weight?: string;
+  /** What one unit of stock holds, e.g. a 500 g bag — used to scale recipes */
+  packSize?: Quantity;
   servings?: number;
+  /**
+   * Lots of this product, ordered by expiry. When present, `quantity` and
+   * `expiryDate` are derived from them. Older records without batches are a
+   * single lot described by `quantity` and `expiryDate`.
+   */
+  batches?: FoodBatch[];
 }
 
 // Camping tools properties
@@ -430,6 +656,19 @@ export function isKiltOutfitItem(item: InventoryItem): item is KiltOutfitItem {
   return item.category === "kilt";
 }
 
+/** A food product's lots, treating a record without batches as a single lot. */
+export function getFoodBatches(item: FoodItem): FoodBatch[] {
+  if (item.batches) return item.batches;
+  return item.quantity > 0
+    ? [{
+      id: item.id,
+      quantity: item.quantity,
+      expiryDate: item.expiryDate,
+      addedDate: item.addedDate,
+    }]
+    : [];
+}
+
 // Expiry status for food items
 export type ExpiryStatus =
   | "expired"
@@ -456,11 +695,57 @@ export interface CheckOut {
   itemName: string;
   borrower: string;
   quantity: number;
+  /** When the kit was handed over — or, while reserved, the collection date */
   checkOutDate: Date;
   expectedReturnDate: Date;
   actualReturnDate?: Date;
-  status: "checked-out" | "returned" | "overdue";
+  status: CheckOutStatus;
+  notes?: string;
+  /** Specific tracked units on loan; `quantity` equals their count when set */
+  unitIds?: string[];
+  /** When a reservation was booked, kept after it is collected */
+  reservedDate?: Date;
+  /** Condition the kit came back in */
+  returnCondition?: ItemCondition;
+  returnNotes?: string;
+  /** The loan this partial return was split from */
+  splitFromId?: string;
+  /** Directory entry of the borrower; `borrower` keeps their name */
+  borrowerId?: string;
+}
+
+/**
+ * Someone kit is loaned to — a leader, a section or another group. Managed
+ * from /loans/borrowers.
+ */
+export interface Borrower {
+  id: string;
+  name: string;
+  /** Section, patrol or group, e.g. "Cubs — Red Six" */
+  section?: string;
+  /** Phone number or email */
+  contact?: string;
+  /** Linked app account (`User.id`) */
+  userId?: string;
   notes?: string;
+  createdAt: Date;
+  lastUpdated: Date;
+}
+
+/**
+ * `reserved` bookings hold stock for future dates without moving it; they
+ * become `checked-out` when collected or `no-show` if never picked up.
+ */
+export type CheckOutStatus =
+  | "reserved"
+  | "checked-out"
+  | "overdue"
+  | "returned"
+  | "no-show";
+
+/** Whether the loaned quantity is currently out of the store. */
+export function isActiveLoan(checkout: Pick<CheckOut, "status">): boolean {
+  return checkout.status === "checked-out" || checkout.status === "overdue";
 }
 
 // Camp planning types
@@ -475,6 +760,12 @@ export interface CampPlanItem {
   notes?: string;
   /** Contents of the box/kit at the time it was added to the plan */
   contents?: BoxContentItem[];
+  /** Specific tracked units going to camp; `quantityPlanned` equals their count when set */
+  unitIds?: string[];
+  /** Food lots deducted when packed (first-expiring first), restored on unpack */
+  batchAllocations?: FoodBatchAllocation[];
+  /** Added by the camp menu; its quantity follows the menu until packed */
+  fromMenu?: boolean;
 }
 
 export type CampPlanStatus =
@@ -493,6 +784,9 @@ export interface CampPlan {
   notes?: string;
   items: CampPlanItem[];
   status: CampPlanStatus;
+  /** Spent on the camp's shopping list, in pounds */
+  shoppingSpend?: number;
+  menu?: CampMenu;
   createdBy: string;
   createdAt: Date;
   lastUpdated: Date;
@@ -1,17 +1,29 @@
+import type { Budget } from "../lib/budget.ts";
 import type { FeedbackRequest } from "./feedback.ts";
 import type {
   FirstAidCatalogItem,
+  FirstAidCheckRecord,
   FirstAidCheckState,
   FirstAidKit,
+  FirstAidKitProfile,
+  FirstAidStockEntry,
 } from "./firstAid.ts";
 import type {
+  Borrower,
   CampPlan,
   CampTemplate,
   CheckOut,
   InventoryItem,
+  ItemUnit,
+  StorageLocation,
+  StorageSpace,
 } from "./inventory.ts";
-import type { Meal } from "./meals.ts";
+import type { Meal, ShoppingList } from "./meals.ts";
+import type { PurchaseRequest } from "./purchasing.ts";
 import type { RiskAssessment } from "./risk.ts";
+import type { StatsSnapshot } from "../lib/trends.ts";
+import type { DepreciationPolicy } from "../lib/valuation.ts";
+import type { NotificationSettings } from "./notifications.ts";
 
 export interface BackupPhotoRecord {
   photoId: string;
@@ -36,6 +48,14 @@ export interface InventoryBackupSnapshot {
   items: InventoryItem[];
   photoRecords: BackupPhotoRecord[];
   checkOuts: CheckOut[];
+  /** Empty in backups taken before the borrower directory existed */
+  borrowers: Borrower[];
+  /** Empty in backups taken before per-unit tracking existed */
+  itemUnits: ItemUnit[];
+  /** Empty in backups taken before the location registry existed */
+  storageLocations: StorageLocation[];
+  /** Empty in backups taken before storage spaces were configurable */
+  storageSpaces: StorageSpace[];
   neckers: BackupNeckerMetrics;
   campPlans: CampPlan[];
   campTemplates: CampTemplate[];
@@ -45,9 +65,30 @@ export interface InventoryBackupSnapshot {
     overall: FirstAidCheckState | null;
     kits: Record<string, FirstAidCheckState>;
   };
+  /** Empty in backups taken before check history was kept */
+  firstAidCheckHistory: FirstAidCheckRecord[];
+  /** Empty in backups taken before the central first aid box was tracked */
+  firstAidStock: FirstAidStockEntry[];
+  /** Empty in backups taken before kit profiles were editable */
+  firstAidProfiles: FirstAidKitProfile[];
   riskAssessments: RiskAssessment[];
   meals: Meal[];
   feedbackRequests: FeedbackRequest[];
+  /** Empty in backups taken before purchase requests existed */
+  purchaseRequests: PurchaseRequest[];
+  /** Empty in backups taken before budgets existed */
+  budgets: Budget[];
+  /** Empty in backups taken before camp shopping lists existed */
+  shoppingLists: ShoppingList[];
+  /** Empty in backups taken before trend snapshots were recorded */
+  statsSnapshots: StatsSnapshot[];
+  /** Null in backups taken before depreciation rules were editable */
+  depreciationPolicy: DepreciationPolicy | null;
+  /**
+   * Saved channel routing. Null while routing still came from the env vars,
+   * and in backups taken before channels were configurable.
+   */
+  notificationSettings: NotificationSettings | null;
 }
 
 export interface InventoryBackupMeta {
@@ -1,11 +1,27 @@
 // Meal planner types
 
+/** Units recipes and packs are measured in. */
+export type MeasureUnit = "g" | "kg" | "ml" | "l" | "each";
+
+/** An amount with its unit, e.g. 200 g or a 500 g bag. */
+export interface Quantity {
+  amount: number;
+  unit: MeasureUnit;
+}
+
 /** One ingredient line within a meal recipe. */
 export interface MealIngredient {
   /** Freeform ingredient name as written in the recipe (e.g. "Passata"). */
   name: string;
   /** How many people one unit of this item feeds for this recipe. */
   servingsPerUnit: number;
+  /**
+   * How much each person eats ("200 g pasta per person"). When set it is used
+   * instead of `servingsPerUnit`, rounded up to whole packs of the food item.
+   */
+  perPerson?: Quantity;
+  /** Food item this ingredient is taken from; unset for untracked ingredients. */
+  itemId?: string;
 }
 
 /** A named meal recipe made up of inventory-backed ingredients. */
@@ -25,6 +41,34 @@ export interface MealPayload {
   ingredients: MealIngredient[];
 }
 
+/** Dietary needs attendees can have; see lib/dietary.ts for the allergens behind each. */
+export type DietaryRequirement =
+  | "vegetarian"
+  | "vegan"
+  | "gluten-free"
+  | "dairy-free"
+  | "nut-allergy"
+  | "egg-allergy";
+
+/** How many attendees have each dietary requirement. */
+export type DietaryCounts = Partial<Record<DietaryRequirement, number>>;
+
+/** Meals served on one day of a camp. */
+export interface CampMenuDay {
+  date: string; // YYYY-MM-DD
+  mealIds: string[];
+}
+
+/** A camp's saved menu — each meal on a day is served once to everyone. */
+export interface CampMenu {
+  headcount: number;
+  days: CampMenuDay[];
+  /** Attendees, out of the headcount, with each dietary requirement */
+  dietary?: DietaryCounts;
+  updatedBy?: string;
+  updatedAt?: string; // ISO string
+}
+
 /** Lightweight food item summary passed to client-side islands. */
 export interface FoodItemSummary {
   id: string;
@@ -32,4 +76,36 @@ export interface FoodItemSummary {
   quantity: number;
   /** ISO date string — present only for food items that have an expiry date set. */
   expiryDate?: string;
+  /** Number of batches (lots) making up `quantity` */
+  batchCount?: number;
+  allergens?: string[];
+  packSize?: Quantity;
+}
+
+/** One line of a camp's shopping list. */
+export interface ShoppingListItem {
+  id: string;
+  name: string;
+  /** Packs or units to buy; absent when only an amount is known */
+  quantity?: number;
+  /** Per-person amounts added up, e.g. "4.8kg" */
+  amount?: string;
+  /** Food item the purchase is added to when the list is completed */
+  itemId?: string;
+  bought: boolean;
+  /** Units added to stock on completion */
+  addedToStock?: number;
+}
+
+/** A camp's saved shopping list, ticked off in the shop. Keyed by camp id. */
+export interface ShoppingList {
+  campId: string;
+  items: ShoppingListItem[];
+  createdBy: string;
+  createdAt: string; // ISO string
+  /** Set once the shop is done and purchases have been put into stock */
+  completedBy?: string;
+  completedAt?: string; // ISO string
+  /** Set while purchases are being put into stock, so only one shop runs */
+  completingAt?: string; // ISO string
 }
@@ -0,0 +1,78 @@
+export type NotificationType =
+  | "LOW_STOCK"
+  | "NECKERS"
+  | "EXPIRY"
+  | "OVERDUE_LOANS"
+  | "MAINTENANCE"
+  | "RISK_ASSESSMENT"
+  | "FIRST_AID";
+
+export type NotificationChannelKind =
+  | "resend"
+  | "smtp"
+  | "webhook"
+  | "inbox"
+  | "outbox";
+
+interface ChannelBase {
+  id: string;
+  name: string;
+}
+
+export interface ResendChannelConfig extends ChannelBase {
+  kind: "resend";
+  recipients: string[];
+}
+
+/** The SMTP password is read from the SMTP_PASSWORD env var, never stored. */
+export interface SmtpChannelConfig extends ChannelBase {
+  kind: "smtp";
+  host: string;
+  /** 465 connects over TLS; any other port upgrades with STARTTLS */
+  port: number;
+  username?: string;
+  from?: string;
+  recipients: string[];
+}
+
+export interface WebhookChannelConfig extends ChannelBase {
+  kind: "webhook";
+  url: string;
+}
+
+/** Alerts listed on the in-app inbox page. */
+export interface InboxChannelConfig extends ChannelBase {
+  kind: "inbox";
+}
+
+/** Local testing — appends to a JSON-lines file, or the console if no path. */
+export interface OutboxChannelConfig extends ChannelBase {
+  kind: "outbox";
+  path?: string;
+}
+
+export type NotificationChannelConfig =
+  | ResendChannelConfig
+  | SmtpChannelConfig
+  | WebhookChannelConfig
+  | InboxChannelConfig
+  | OutboxChannelConfig;
+
+export interface NotificationSettings {
+  channels: NotificationChannelConfig[];
+  /** Channel ids each alert type is delivered to */
+  routes: Partial<Record<NotificationType, string[]>>;
+}
+
+export interface NotificationMessage {
+  type: NotificationType;
+  subject: string;
+  html: string;
+}
+
+export interface InboxNotification extends NotificationMessage {
+  id: string;
+  createdAt: string;
+  /** Usernames that have marked the alert read */
+  readBy: string[];
+}
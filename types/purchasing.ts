@@ -0,0 +1,48 @@
+import type { ItemCategory } from "./inventory.ts";
+
+/**
+ * `requested` → `approved` or `rejected` by a manager; approved requests are
+ * `ordered` and then `received`, which adds the stock. The requester (or a
+ * manager) can `cancel` anything not yet received.
+ */
+export type PurchaseStatus =
+  | "requested"
+  | "approved"
+  | "rejected"
+  | "ordered"
+  | "received"
+  | "cancelled";
+
+export interface PurchaseRequest {
+  id: string;
+  /**
+   * Inventory item the stock is for; `itemName` and `itemCategory` keep its
+   * name and category at the time
+   */
+  itemId: string;
+  itemName: string;
+  /** Missing on requests made before it was recorded */
+  itemCategory?: ItemCategory;
+  quantity: number;
+  /** Estimated total cost, in pounds */
+  estimatedCost?: number;
+  /** Shop name or product page link */
+  supplierUrl?: string;
+  notes?: string;
+  status: PurchaseStatus;
+  requestedBy: string;
+  requestedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewReason?: string;
+  orderedBy?: string;
+  orderedAt?: string;
+  receivedBy?: string;
+  receivedAt?: string;
+  /** What actually arrived, which may differ from what was asked for */
+  receivedQuantity?: number;
+  /** What the delivery actually cost in total, in pounds */
+  actualCost?: number;
+  /** Expiry of the delivered lot — food only */
+  receivedExpiryDate?: string;
+}
@@ -7,7 +7,13 @@ export interface RiskAssessmentRisk {
   hazards: string;
   posedRisks: string;
   affectedWho: string;
+  /** Band before controls — follows the initial score once it is set */
   initialRiskLevel: RiskLevel;
+  /** Likelihood and severity 1–5, before and after the precautions */
+  initialLikelihood?: number;
+  initialSeverity?: number;
+  residualLikelihood?: number;
+  residualSeverity?: number;
   precautionsTaken: string;
   furtherActionNeeded: string;
 }